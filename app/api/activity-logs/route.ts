@@ -1,19 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { getSystemActivityLog } from '@/lib/activity-middleware'
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Only managers and partners can view system-wide activity logs
-    if (session.user.role !== 'MANAGER' && session.user.role !== 'PARTNER') {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    const auth = await authorize('users.view_activity')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const { searchParams } = new URL(request.url)
@@ -0,0 +1,137 @@
+/**
+ * Assignment Engine API
+ *
+ * Suggested assignees for unassigned VAT quarters and accounts workflows. Suggestions are worked
+ * out again when applied, so each activity log entry explains the choice from current data.
+ *
+ * @route GET  /api/assignments - Proposals (?workType= to narrow, ?teamId= for one team)
+ * @route POST /api/assignments - Assign work to the suggested person or a chosen alternative
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
+import { ASSIGNABLE_WORK_TYPES, isAssignableWorkType, type CandidateScore } from '@/lib/assignment-engine'
+import { applyProposals, isAutoApplyEnabled, proposeAssignments } from '@/lib/assignment-service'
+import { getTeamScope, TeamError } from '@/lib/team-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const ApplySchema = z.object({
+  items: z.array(z.object({
+    workType: z.enum(ASSIGNABLE_WORK_TYPES),
+    workflowId: z.string().min(1),
+    // Omit to take the top suggestion
+    userId: z.string().optional()
+  })).min(1, 'Choose at least one item to assign').max(200),
+  teamId: z.string().optional()
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize('workflow.auto_assign')
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const { searchParams } = request.nextUrl
+    const workType = searchParams.get('workType')
+    const scope = await getTeamScope(session.user.id, {
+      viewAll: auth.can('teams.view_all'),
+      teamId: searchParams.get('teamId')
+    })
+
+    const [proposals, autoApply] = await Promise.all([
+      proposeAssignments({ workType: isAssignableWorkType(workType) ? workType : undefined, scope }),
+      isAutoApplyEnabled()
+    ])
+
+    return NextResponse.json({ success: true, proposals, autoApply })
+  } catch (error) {
+    if (error instanceof TeamError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error building assignment proposals:', error)
+    return NextResponse.json(
+      { error: 'Failed to build assignment proposals' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize('workflow.auto_assign')
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const body = await request.json()
+    const validation = ApplySchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const { items, teamId } = validation.data
+    const scope = await getTeamScope(session.user.id, { viewAll: auth.can('teams.view_all'), teamId })
+    const proposals = await proposeAssignments({ workflowIds: items.map(item => item.workflowId), scope })
+
+    const choices: Parameters<typeof applyProposals>[0] = []
+    const skipped: Array<{ workflowId: string; companyName: string; reason: string }> = []
+
+    for (const item of items) {
+      const proposal = proposals.find(candidate =>
+        candidate.workflowId === item.workflowId && candidate.workType === item.workType
+      )
+      if (!proposal) {
+        skipped.push({ workflowId: item.workflowId, companyName: '', reason: 'No longer unassigned' })
+        continue
+      }
+
+      const candidate = item.userId
+        ? [proposal.recommended, ...proposal.alternatives].find(
+            (option): option is CandidateScore => option?.userId === item.userId
+          )
+        : proposal.recommended
+      if (!candidate) {
+        const excluded = proposal.excluded.find(person => person.userId === item.userId)
+        skipped.push({
+          workflowId: item.workflowId,
+          companyName: proposal.companyName,
+          reason: excluded ? `${excluded.name}: ${excluded.reason}` : proposal.explanation
+        })
+        continue
+      }
+
+      choices.push({ proposal, candidate })
+    }
+
+    const result = await applyProposals(choices, {
+      id: session.user.id,
+      name: session.user.name || session.user.email || 'Unknown',
+      email: session.user.email || '',
+      role: session.user.role || 'USER'
+    })
+
+    return NextResponse.json({
+      success: true,
+      assigned: result.assigned,
+      skipped: [...skipped, ...result.skipped],
+      message: `Assigned ${result.assigned.length} of ${items.length}`
+    })
+  } catch (error) {
+    if (error instanceof TeamError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error applying assignments:', error)
+    return NextResponse.json(
+      { error: 'Failed to apply assignments' },
+      { status: 500 }
+    )
+  }
+}
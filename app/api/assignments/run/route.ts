@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { autoAssignUnassignedWork, isAutoApplyEnabled } from '@/lib/assignment-service'
+
+/**
+ * Auto-Assignment Job
+ *
+ * Triggered by GitHub Actions after VAT quarter auto-creation, and safe to run after the Ltd
+ * workflow rollover, which leaves new workflows unassigned. Does nothing unless auto-apply is on.
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    // Security: Same secret as VAT quarter auto-creation
+    const authHeader = request.headers.get('authorization')
+    const expectedToken = process.env.VAT_AUTO_CREATE_SECRET
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: 'Auto-assignment not configured' },
+        { status: 500 }
+      )
+    }
+
+    if (!authHeader || authHeader !== `Bearer ${expectedToken}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!(await isAutoApplyEnabled())) {
+      return NextResponse.json({
+        success: true,
+        message: 'Auto-apply is turned off. Proposals are waiting for review.'
+      })
+    }
+
+    console.log('🔄 Starting auto-assignment...')
+
+    const result = await autoAssignUnassignedWork()
+
+    console.log(`✅ Auto-assignment completed: ${result.assigned.length} assigned, ${result.skipped.length} skipped`)
+
+    return NextResponse.json({
+      success: true,
+      message: `Assigned ${result.assigned.length} items. ${result.skipped.length} could not be assigned.`,
+      details: result
+    })
+
+  } catch (error) {
+    console.error('❌ Auto-assignment failed:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Auto-assignment failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
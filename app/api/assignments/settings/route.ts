@@ -0,0 +1,68 @@
+/**
+ * Assignment Engine Settings API
+ *
+ * @route GET /api/assignments/settings - Whether scheduled runs assign work without review
+ * @route PUT /api/assignments/settings - Turn auto-apply on or off
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { authorize } from '@/lib/permission-service'
+import { isAutoApplyEnabled, setAutoApplyEnabled } from '@/lib/assignment-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const SettingsSchema = z.object({
+  autoApply: z.boolean()
+})
+
+export async function GET() {
+  try {
+    const auth = await authorize('workflow.auto_assign')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    return NextResponse.json({ success: true, autoApply: await isAutoApplyEnabled() })
+  } catch (error) {
+    console.error('Error fetching assignment settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch assignment settings' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authorize('settings.manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const validation = SettingsSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    await setAutoApplyEnabled(validation.data.autoApply)
+
+    await logActivityEnhanced(request, {
+      action: 'AUTO_ASSIGNMENT_SETTINGS_UPDATED',
+      details: { autoApply: validation.data.autoApply }
+    })
+
+    return NextResponse.json({ success: true, autoApply: validation.data.autoApply })
+  } catch (error) {
+    console.error('Error updating assignment settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to update assignment settings' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Staff Skills API
+ *
+ * Skill levels per work type, used by the assignment engine. Once anyone has a level for a work
+ * type, people without one are no longer suggested for it.
+ *
+ * @route GET /api/assignments/skills - Every active user's skill levels
+ * @route PUT /api/assignments/skills - Set one user's levels (0 removes a skill)
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { authorize } from '@/lib/permission-service'
+import { getSkillMatrix, setUserSkills } from '@/lib/assignment-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const skillLevel = z.union([z.literal(0), z.literal(1), z.literal(2), z.literal(3)])
+
+const UpdateSkillsSchema = z.object({
+  userId: z.string().min(1),
+  skills: z.object({
+    VAT: skillLevel.optional(),
+    LTD_ACCOUNTS: skillLevel.optional(),
+    NON_LTD_ACCOUNTS: skillLevel.optional()
+  })
+})
+
+export async function GET() {
+  try {
+    const auth = await authorize('workflow.auto_assign')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    return NextResponse.json({ success: true, users: await getSkillMatrix() })
+  } catch (error) {
+    console.error('Error fetching skills:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch skills' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authorize('workflow.auto_assign')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const validation = UpdateSkillsSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const { userId, skills } = validation.data
+    const user = await db.user.findUnique({ where: { id: userId }, select: { id: true, name: true } })
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    await setUserSkills(userId, skills)
+
+    await logActivityEnhanced(request, {
+      action: 'USER_SKILLS_UPDATED',
+      details: {
+        targetUserId: user.id,
+        targetUserName: user.name,
+        skills
+      }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error updating skills:', error)
+    return NextResponse.json(
+      { error: 'Failed to update skills' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { z } from 'zod'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { CHASE_STEP_ACTIONS, chaseSequenceInclude, validateChaseSteps } from '@/lib/chase-sequences'
+
+export const dynamic = 'force-dynamic'
+
+const UpdateChaseSequenceSchema = z.object({
+  name: z.string().min(1, 'Sequence name is required').max(255, 'Name too long').optional(),
+  description: z.string().nullable().optional(),
+  isActive: z.boolean().optional(),
+  steps: z.array(z.object({
+    dayOffset: z.number().int().min(0, 'Day offset cannot be negative').max(365, 'Day offset too large'),
+    action: z.enum(CHASE_STEP_ACTIONS).default('EMAIL_CLIENT'),
+    templateId: z.string().nullable().optional()
+  })).min(1, 'At least one step is required').max(10, 'Too many steps').optional()
+})
+
+// PUT /api/chase-sequences/[id] - Update a chase sequence (steps are replaced)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize('chase_sequences.manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const existing = await db.chaseSequence.findUnique({
+      where: { id: params.id }
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Chase sequence not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const validatedData = UpdateChaseSequenceSchema.parse(body)
+
+    if (validatedData.steps) {
+      const stepsError = await validateChaseSteps(validatedData.steps)
+      if (stepsError) {
+        return NextResponse.json({ error: stepsError }, { status: 400 })
+      }
+    }
+
+    const sequence = await db.$transaction(async (tx) => {
+      // Only one sequence can be active per workflow type
+      if (validatedData.isActive) {
+        await tx.chaseSequence.updateMany({
+          where: { workflowType: existing.workflowType, isActive: true, id: { not: existing.id } },
+          data: { isActive: false }
+        })
+      }
+
+      if (validatedData.steps) {
+        // Existing steps are replaced; their EmailLog links are cleared by the FK (SET NULL)
+        await tx.chaseSequenceStep.deleteMany({
+          where: { sequenceId: existing.id }
+        })
+        await tx.chaseSequenceStep.createMany({
+          data: validatedData.steps.map((step, index) => ({
+            sequenceId: existing.id,
+            stepOrder: index + 1,
+            dayOffset: step.dayOffset,
+            action: step.action,
+            templateId: step.templateId || null
+          }))
+        })
+      }
+
+      return tx.chaseSequence.update({
+        where: { id: existing.id },
+        data: {
+          name: validatedData.name,
+          description: validatedData.description,
+          isActive: validatedData.isActive
+        },
+        include: chaseSequenceInclude
+      })
+    })
+
+    await logActivityEnhanced(request, {
+      action: 'CHASE_SEQUENCE_UPDATED',
+      details: {
+        sequenceId: sequence.id,
+        sequenceName: sequence.name,
+        workflowType: sequence.workflowType,
+        steps: sequence.steps.length,
+        isActive: sequence.isActive,
+        stepsReplaced: !!validatedData.steps
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      sequence,
+      message: 'Chase sequence updated successfully'
+    })
+
+  } catch (error) {
+    console.error('Error updating chase sequence:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      error: 'Failed to update chase sequence'
+    }, { status: 500 })
+  }
+}
+
+// DELETE /api/chase-sequences/[id] - Delete a chase sequence
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize('chase_sequences.manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const existing = await db.chaseSequence.findUnique({
+      where: { id: params.id }
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Chase sequence not found' }, { status: 404 })
+    }
+
+    await db.chaseSequence.delete({
+      where: { id: existing.id }
+    })
+
+    await logActivityEnhanced(request, {
+      action: 'CHASE_SEQUENCE_DELETED',
+      details: {
+        sequenceId: existing.id,
+        sequenceName: existing.name,
+        workflowType: existing.workflowType
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Chase sequence deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Error deleting chase sequence:', error)
+    return NextResponse.json({
+      error: 'Failed to delete chase sequence'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { z } from 'zod'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import {
+  CHASE_STEP_ACTIONS,
+  CHASE_WORKFLOW_TYPES,
+  chaseSequenceInclude,
+  validateChaseSteps
+} from '@/lib/chase-sequences'
+import { authorize } from '@/lib/permission-service'
+
+export const dynamic = 'force-dynamic'
+
+const ChaseStepSchema = z.object({
+  dayOffset: z.number().int().min(0, 'Day offset cannot be negative').max(365, 'Day offset too large'),
+  action: z.enum(CHASE_STEP_ACTIONS).default('EMAIL_CLIENT'),
+  templateId: z.string().nullable().optional()
+})
+
+const CreateChaseSequenceSchema = z.object({
+  name: z.string().min(1, 'Sequence name is required').max(255, 'Name too long'),
+  workflowType: z.enum(CHASE_WORKFLOW_TYPES),
+  description: z.string().optional(),
+  isActive: z.boolean().default(true),
+  steps: z.array(ChaseStepSchema).min(1, 'At least one step is required').max(10, 'Too many steps')
+})
+
+// GET /api/chase-sequences - List chase sequences
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { searchParams } = new URL(request.url)
+    const workflowType = searchParams.get('workflowType')
+
+    const sequences = await db.chaseSequence.findMany({
+      where: workflowType && workflowType !== 'all' ? { workflowType } : {},
+      include: chaseSequenceInclude,
+      orderBy: [
+        { workflowType: 'asc' },
+        { updatedAt: 'desc' }
+      ]
+    })
+
+    return NextResponse.json({
+      success: true,
+      sequences
+    })
+
+  } catch (error) {
+    console.error('Error fetching chase sequences:', error)
+    return NextResponse.json({
+      error: 'Failed to fetch chase sequences'
+    }, { status: 500 })
+  }
+}
+
+// POST /api/chase-sequences - Create a chase sequence
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize('chase_sequences.manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const body = await request.json()
+    const validatedData = CreateChaseSequenceSchema.parse(body)
+
+    const stepsError = await validateChaseSteps(validatedData.steps)
+    if (stepsError) {
+      return NextResponse.json({ error: stepsError }, { status: 400 })
+    }
+
+    // Only one sequence can be active per workflow type
+    const sequence = await db.$transaction(async (tx) => {
+      if (validatedData.isActive) {
+        await tx.chaseSequence.updateMany({
+          where: { workflowType: validatedData.workflowType, isActive: true },
+          data: { isActive: false }
+        })
+      }
+
+      return tx.chaseSequence.create({
+        data: {
+          name: validatedData.name,
+          workflowType: validatedData.workflowType,
+          description: validatedData.description,
+          isActive: validatedData.isActive,
+          createdBy: session.user.id,
+          steps: {
+            create: validatedData.steps.map((step, index) => ({
+              stepOrder: index + 1,
+              dayOffset: step.dayOffset,
+              action: step.action,
+              templateId: step.templateId || null
+            }))
+          }
+        },
+        include: chaseSequenceInclude
+      })
+    })
+
+    await logActivityEnhanced(request, {
+      action: 'CHASE_SEQUENCE_CREATED',
+      details: {
+        sequenceId: sequence.id,
+        sequenceName: sequence.name,
+        workflowType: sequence.workflowType,
+        steps: sequence.steps.length,
+        isActive: sequence.isActive
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      sequence,
+      message: 'Chase sequence created successfully'
+    })
+
+  } catch (error) {
+    console.error('Error creating chase sequence:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      error: 'Failed to create chase sequence'
+    }, { status: 500 })
+  }
+}
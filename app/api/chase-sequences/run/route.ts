@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runChaseSequences } from '@/lib/chase-sequences'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Chase Sequence Automation API
+ * 
+ * Triggered daily by GitHub Actions
+ * Sends the next due chase step for every workflow waiting on paperwork
+ * and escalates unanswered chases to partners
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    // Security: Check for authorization header
+    const authHeader = request.headers.get('authorization')
+    const expectedToken = process.env.CHASE_AUTOMATION_SECRET
+    
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: 'Chase automation not configured' },
+        { status: 500 }
+      )
+    }
+    
+    if (!authHeader || authHeader !== `Bearer ${expectedToken}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    console.log('🔄 Starting automated chase run...')
+    
+    const results = await runChaseSequences()
+    
+    return NextResponse.json({
+      success: true,
+      message: `Processed ${results.processed} workflows. Sent ${results.sent} chases, escalated ${results.escalated}, ${results.errors} errors.`,
+      details: results
+    })
+    
+  } catch (error) {
+    console.error('❌ Automated chase run failed:', error)
+    return NextResponse.json(
+      { 
+        success: false,
+        error: 'Chase run failed', 
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
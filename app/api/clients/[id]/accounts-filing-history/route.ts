@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 
 export const dynamic = 'force-dynamic'
@@ -10,9 +9,9 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const clientId = params.id
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { getClientActivityLog } from '@/lib/activity-middleware'
 
 export async function GET(
@@ -8,10 +7,9 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const clientId = params.id
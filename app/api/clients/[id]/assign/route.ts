@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { logActivityEnhanced, ActivityHelpers } from '@/lib/activity-middleware'
 import { AssignmentNotificationService } from '@/lib/assignment-notifications'
@@ -22,22 +21,11 @@ interface RouteParams {
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions)
-
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    // Only partners and managers can assign clients
-    if (session.user.role !== 'PARTNER' && session.user.role !== 'MANAGER') {
-      return NextResponse.json(
-        { success: false, error: 'Access denied. Partner or Manager role required.' },
-        { status: 403 }
-      )
+    const auth = await authorize('clients.assign')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const { userId } = await request.json()
 
@@ -0,0 +1,219 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { generateCisReturns } from '@/lib/cis-service'
+import { getCisReturnPeriod } from '@/lib/cis-workflow'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const CisSchemeSchema = z.object({
+  employerReference: z.string().max(20).nullable().optional(),
+  accountsOfficeReference: z.string().max(20).nullable().optional(),
+  registeredFrom: z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid registration date'),
+  assignedUserId: z.string().nullable().optional(),
+  isActive: z.boolean().optional(),
+  notes: z.string().nullable().optional(),
+})
+
+/**
+ * GET /api/clients/[id]/cis-scheme
+ * Client's CIS contractor scheme with its subcontractors and most recent returns
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const client = await db.client.findUnique({
+      where: { id: params.id },
+      select: { id: true }
+    })
+
+    if (!client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+    }
+
+    const existingScheme = await db.cisScheme.findUnique({
+      where: { clientId: client.id },
+      select: { id: true }
+    })
+
+    if (existingScheme) {
+      await generateCisReturns(existingScheme.id)
+    }
+
+    const [scheme, subcontractors] = await Promise.all([
+      db.cisScheme.findUnique({
+        where: { clientId: client.id },
+        include: {
+          assignedUser: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              role: true,
+            }
+          },
+          cisReturns: {
+            orderBy: { periodEnd: 'desc' },
+            take: 6,
+            include: {
+              assignedUser: {
+                select: {
+                  id: true,
+                  name: true,
+                }
+              },
+              _count: {
+                select: { payments: true }
+              }
+            }
+          }
+        }
+      }),
+      db.cisSubcontractor.findMany({
+        where: { clientId: client.id },
+        orderBy: [
+          { isActive: 'desc' },
+          { name: 'asc' }
+        ]
+      })
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        scheme,
+        subcontractors
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching CIS scheme:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch CIS scheme' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/clients/[id]/cis-scheme
+ * Register the client as a CIS contractor (or update the scheme) and generate its monthly returns
+ * Moving the registration date later removes untouched returns for months before it
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const validatedData = CisSchemeSchema.parse(body)
+
+    const client = await db.client.findUnique({
+      where: { id: params.id },
+      include: { cisScheme: true }
+    })
+
+    if (!client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+    }
+
+    if (validatedData.assignedUserId) {
+      const assignee = await db.user.findUnique({
+        where: { id: validatedData.assignedUserId }
+      })
+      if (!assignee || !assignee.isActive) {
+        return NextResponse.json({ error: 'Assigned user not found' }, { status: 404 })
+      }
+    }
+
+    const existingScheme = client.cisScheme
+    const registeredFrom = new Date(validatedData.registeredFrom)
+    const registrationChanged = !!existingScheme &&
+      existingScheme.registeredFrom.getTime() !== registeredFrom.getTime()
+
+    const schemeData = {
+      employerReference: validatedData.employerReference || null,
+      accountsOfficeReference: validatedData.accountsOfficeReference || null,
+      registeredFrom,
+      assignedUserId: validatedData.assignedUserId || null,
+      isActive: validatedData.isActive ?? true,
+      notes: validatedData.notes || null,
+    }
+
+    const scheme = await db.$transaction(async (tx) => {
+      const saved = await tx.cisScheme.upsert({
+        where: { clientId: client.id },
+        update: schemeData,
+        create: {
+          clientId: client.id,
+          ...schemeData
+        }
+      })
+
+      if (registrationChanged) {
+        await tx.cisReturn.deleteMany({
+          where: {
+            schemeId: saved.id,
+            currentStage: 'WAITING_FOR_DATA',
+            periodStart: { lt: getCisReturnPeriod(registeredFrom).periodStart },
+            payments: { none: {} }
+          }
+        })
+      }
+
+      return saved
+    })
+
+    const returnsCreated = await generateCisReturns(scheme.id)
+
+    await logActivityEnhanced(request, {
+      action: existingScheme ? 'CIS_SCHEME_UPDATED' : 'CIS_SCHEME_CREATED',
+      clientId: client.id,
+      details: {
+        companyName: client.companyName,
+        clientCode: client.clientCode,
+        workflowType: 'CIS',
+        employerReference: scheme.employerReference,
+        registeredFrom: scheme.registeredFrom,
+        isActive: scheme.isActive,
+        returnsCreated
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: scheme,
+      message: existingScheme ? 'CIS scheme updated successfully' : 'CIS scheme created successfully'
+    })
+
+  } catch (error) {
+    console.error('Error saving CIS scheme:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to save CIS scheme' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { CisBusinessType, CisVerificationStatus } from '@prisma/client'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const UpdateSubcontractorSchema = z.object({
+  name: z.string().min(1).max(200).optional(),
+  tradingName: z.string().max(200).nullable().optional(),
+  businessType: z.nativeEnum(CisBusinessType).optional(),
+  utr: z.string().regex(/^\d{10}$/, 'UTR must be 10 digits').nullable().optional(),
+  companyNumber: z.string().max(10).nullable().optional(),
+  nationalInsurance: z.string().max(13).nullable().optional(),
+  verificationStatus: z.nativeEnum(CisVerificationStatus).optional(),
+  verificationNumber: z.string().max(20).nullable().optional(),
+  isActive: z.boolean().optional(),
+  notes: z.string().nullable().optional(),
+})
+
+/**
+ * PUT /api/clients/[id]/cis-subcontractors/[subcontractorId]
+ * Update a subcontractor's details or HMRC verification
+ * Payments already recorded keep the deduction rate they were saved with
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; subcontractorId: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const validatedData = UpdateSubcontractorSchema.parse(body)
+
+    const existing = await db.cisSubcontractor.findFirst({
+      where: { id: params.subcontractorId, clientId: params.id },
+      include: {
+        client: {
+          select: { companyName: true, clientCode: true }
+        }
+      }
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Subcontractor not found' }, { status: 404 })
+    }
+
+    const verificationChanged = validatedData.verificationStatus !== undefined &&
+      validatedData.verificationStatus !== existing.verificationStatus
+
+    const subcontractor = await db.cisSubcontractor.update({
+      where: { id: existing.id },
+      data: {
+        ...validatedData,
+        name: validatedData.name?.trim(),
+        ...(verificationChanged && {
+          verifiedAt: validatedData.verificationStatus === 'UNVERIFIED' ? null : new Date()
+        })
+      }
+    })
+
+    await logActivityEnhanced(request, {
+      action: verificationChanged ? 'CIS_SUBCONTRACTOR_VERIFIED' : 'CIS_SUBCONTRACTOR_UPDATED',
+      clientId: params.id,
+      details: {
+        companyName: existing.client.companyName,
+        clientCode: existing.client.clientCode,
+        workflowType: 'CIS',
+        subcontractorName: subcontractor.name,
+        oldVerificationStatus: existing.verificationStatus,
+        newVerificationStatus: subcontractor.verificationStatus,
+        verificationNumber: subcontractor.verificationNumber
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: subcontractor,
+      message: 'Subcontractor updated successfully'
+    })
+
+  } catch (error) {
+    console.error('Error updating CIS subcontractor:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update CIS subcontractor' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/clients/[id]/cis-subcontractors/[subcontractorId]
+ * Remove a subcontractor - those with recorded payments are deactivated instead so returns stay intact
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; subcontractorId: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const existing = await db.cisSubcontractor.findFirst({
+      where: { id: params.subcontractorId, clientId: params.id },
+      include: {
+        client: {
+          select: { companyName: true, clientCode: true }
+        },
+        _count: {
+          select: { payments: true }
+        }
+      }
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Subcontractor not found' }, { status: 404 })
+    }
+
+    const deactivated = existing._count.payments > 0
+
+    if (deactivated) {
+      await db.cisSubcontractor.update({
+        where: { id: existing.id },
+        data: { isActive: false }
+      })
+    } else {
+      await db.cisSubcontractor.delete({
+        where: { id: existing.id }
+      })
+    }
+
+    await logActivityEnhanced(request, {
+      action: 'CIS_SUBCONTRACTOR_REMOVED',
+      clientId: params.id,
+      details: {
+        companyName: existing.client.companyName,
+        clientCode: existing.client.clientCode,
+        workflowType: 'CIS',
+        subcontractorName: existing.name,
+        deactivated
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: deactivated
+        ? 'Subcontractor has recorded payments, so it was deactivated instead of deleted'
+        : 'Subcontractor removed successfully'
+    })
+
+  } catch (error) {
+    console.error('Error removing CIS subcontractor:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove CIS subcontractor' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { CisBusinessType, CisVerificationStatus } from '@prisma/client'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const CreateSubcontractorSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(200),
+  tradingName: z.string().max(200).nullable().optional(),
+  businessType: z.nativeEnum(CisBusinessType).optional(),
+  utr: z.string().regex(/^\d{10}$/, 'UTR must be 10 digits').nullable().optional(),
+  companyNumber: z.string().max(10).nullable().optional(),
+  nationalInsurance: z.string().max(13).nullable().optional(),
+  verificationStatus: z.nativeEnum(CisVerificationStatus).optional(),
+  verificationNumber: z.string().max(20).nullable().optional(),
+  notes: z.string().nullable().optional(),
+})
+
+/**
+ * GET /api/clients/[id]/cis-subcontractors
+ * Subcontractors of a contractor client
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const subcontractors = await db.cisSubcontractor.findMany({
+      where: { clientId: params.id },
+      orderBy: [
+        { isActive: 'desc' },
+        { name: 'asc' }
+      ]
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: subcontractors
+    })
+
+  } catch (error) {
+    console.error('Error fetching CIS subcontractors:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch CIS subcontractors' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/clients/[id]/cis-subcontractors
+ * Add a subcontractor to a contractor client
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const validatedData = CreateSubcontractorSchema.parse(body)
+
+    const client = await db.client.findUnique({
+      where: { id: params.id },
+      select: { id: true, companyName: true, clientCode: true }
+    })
+
+    if (!client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+    }
+
+    const verificationStatus = validatedData.verificationStatus || 'UNVERIFIED'
+
+    const subcontractor = await db.cisSubcontractor.create({
+      data: {
+        clientId: client.id,
+        name: validatedData.name.trim(),
+        tradingName: validatedData.tradingName || null,
+        businessType: validatedData.businessType || 'SOLE_TRADER',
+        utr: validatedData.utr || null,
+        companyNumber: validatedData.companyNumber || null,
+        nationalInsurance: validatedData.nationalInsurance || null,
+        verificationStatus,
+        verificationNumber: validatedData.verificationNumber || null,
+        verifiedAt: verificationStatus !== 'UNVERIFIED' ? new Date() : null,
+        notes: validatedData.notes || null,
+      }
+    })
+
+    await logActivityEnhanced(request, {
+      action: 'CIS_SUBCONTRACTOR_ADDED',
+      clientId: client.id,
+      details: {
+        companyName: client.companyName,
+        clientCode: client.clientCode,
+        workflowType: 'CIS',
+        subcontractorName: subcontractor.name,
+        verificationStatus: subcontractor.verificationStatus
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: subcontractor,
+      message: 'Subcontractor added successfully'
+    })
+
+  } catch (error) {
+    console.error('Error adding CIS subcontractor:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to add CIS subcontractor' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { z } from 'zod'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { CLIENT_CONTACT_ROLES, TEMPLATE_CATEGORIES } from '@/lib/client-contacts'
+import { ClientContactError, deleteClientContact, updateClientContact } from '@/lib/client-contact-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const UpdateClientContactSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  email: z.string().trim().email('Valid email is required').nullable().optional().or(z.literal('')),
+  phone: z.string().trim().nullable().optional(),
+  role: z.enum(CLIENT_CONTACT_ROLES),
+  jobTitle: z.string().trim().nullable().optional(),
+  emailOptIns: z.array(z.enum(TEMPLATE_CATEGORIES)).optional(),
+  isActive: z.boolean().optional(),
+  notes: z.string().trim().nullable().optional()
+})
+
+/**
+ * PUT /api/clients/[id]/contacts/[contactId]
+ * Update a contact - making it primary also updates the client's contact details
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; contactId: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const validation = UpdateClientContactSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const client = await db.client.findUnique({
+      where: { id: params.id },
+      select: { companyName: true, clientCode: true }
+    })
+    if (!client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+    }
+
+    const { contact, previousRole } = await updateClientContact(params.id, params.contactId, validation.data)
+
+    await logActivityEnhanced(request, {
+      action: 'CLIENT_CONTACT_UPDATED',
+      clientId: params.id,
+      details: {
+        companyName: client.companyName,
+        clientCode: client.clientCode,
+        contactName: contact.name,
+        role: contact.role,
+        ...(previousRole !== contact.role && { previousRole }),
+        emailOptIns: contact.emailOptIns
+      }
+    })
+
+    return NextResponse.json({ success: true, data: { contact }, message: 'Contact updated' })
+  } catch (error) {
+    if (error instanceof ClientContactError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error updating client contact:', error)
+    return NextResponse.json(
+      { error: 'Failed to update contact' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/clients/[id]/contacts/[contactId]
+ * Remove a contact - the primary contact can't be removed
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; contactId: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const client = await db.client.findUnique({
+      where: { id: params.id },
+      select: { companyName: true, clientCode: true }
+    })
+    if (!client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+    }
+
+    const contact = await deleteClientContact(params.id, params.contactId)
+
+    await logActivityEnhanced(request, {
+      action: 'CLIENT_CONTACT_REMOVED',
+      clientId: params.id,
+      details: {
+        companyName: client.companyName,
+        clientCode: client.clientCode,
+        contactName: contact.name,
+        role: contact.role
+      }
+    })
+
+    return NextResponse.json({ success: true, message: 'Contact removed' })
+  } catch (error) {
+    if (error instanceof ClientContactError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error removing client contact:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove contact' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Client Contacts API
+ *
+ * @route GET  /api/clients/[id]/contacts - The client's contacts, primary first
+ * @route POST /api/clients/[id]/contacts - Add a contact
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { z } from 'zod'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { CLIENT_CONTACT_ROLES, TEMPLATE_CATEGORIES } from '@/lib/client-contacts'
+import { ClientContactError, createClientContact, getClientContacts } from '@/lib/client-contact-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const ClientContactSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  email: z.string().trim().email('Valid email is required').nullable().optional().or(z.literal('')),
+  phone: z.string().trim().nullable().optional(),
+  role: z.enum(CLIENT_CONTACT_ROLES),
+  jobTitle: z.string().trim().nullable().optional(),
+  emailOptIns: z.array(z.enum(TEMPLATE_CATEGORIES)).optional(),
+  isActive: z.boolean().optional(),
+  notes: z.string().trim().nullable().optional()
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const client = await db.client.findUnique({ where: { id: params.id }, select: { id: true } })
+    if (!client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+    }
+
+    const contacts = await getClientContacts(params.id)
+
+    return NextResponse.json({ success: true, data: { contacts } })
+  } catch (error) {
+    console.error('Error fetching client contacts:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch contacts' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const validation = ClientContactSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const client = await db.client.findUnique({
+      where: { id: params.id },
+      select: { id: true, companyName: true, clientCode: true }
+    })
+    if (!client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+    }
+
+    const contact = await createClientContact(params.id, validation.data)
+
+    await logActivityEnhanced(request, {
+      action: 'CLIENT_CONTACT_ADDED',
+      clientId: params.id,
+      details: {
+        companyName: client.companyName,
+        clientCode: client.clientCode,
+        contactName: contact.name,
+        role: contact.role
+      }
+    })
+
+    return NextResponse.json({ success: true, data: { contact }, message: 'Contact added' })
+  } catch (error) {
+    if (error instanceof ClientContactError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error adding client contact:', error)
+    return NextResponse.json(
+      { error: 'Failed to add contact' },
+      { status: 500 }
+    )
+  }
+}
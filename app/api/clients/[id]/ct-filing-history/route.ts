@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/clients/[id]/ct-filing-history
+ * All CT600 workflows for a client (one per accounting period) with stage history
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const clientId = params.id
+
+    const ctWorkflows = await db.corporationTaxWorkflow.findMany({
+      where: {
+        clientId: clientId
+      },
+      include: {
+        assignedUser: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            role: true
+          }
+        },
+        workflowHistory: {
+          orderBy: {
+            stageChangedAt: 'asc'
+          }
+        }
+      },
+      orderBy: [
+        { periodEnd: 'desc' } // Most recent periods first
+      ]
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        workflows: ctWorkflows,
+        totalWorkflows: ctWorkflows.length,
+        completedWorkflows: ctWorkflows.filter(workflow => workflow.isCompleted).length,
+        activeWorkflows: ctWorkflows.filter(workflow => !workflow.isCompleted).length
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching CT filing history:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch CT filing history' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { logActivityEnhanced } from '@/lib/activity-middleware'
 import { 
@@ -10,6 +9,7 @@ import {
   shouldUpdateCTDue,
   calculateCTPeriod
 } from '@/lib/ct-tracking'
+import { ensureCurrentCTWorkflow, updateCTWorkflowStage } from '@/lib/ct-workflow'
 
 /**
  * PUT /api/clients/[id]/ct-status
@@ -21,21 +21,11 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session?.user) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    // Only managers and partners can update CT status
-    if (session.user.role !== 'MANAGER' && session.user.role !== 'PARTNER') {
-      return NextResponse.json(
-        { success: false, error: 'Insufficient permissions' },
-        { status: 403 }
-      )
+    const auth = await authorize('clients.edit')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const body = await request.json()
     const { action, manualDueDate, nextYearEnd } = body
@@ -69,6 +59,22 @@ export async function PUT(
 
     switch (action) {
       case 'mark_filed':
+        // Close the CT600 workflow for the current period before advancing the client
+        const currentCTWorkflow = await ensureCurrentCTWorkflow(client.id)
+        if (currentCTWorkflow && !currentCTWorkflow.isCompleted) {
+          await updateCTWorkflowStage(
+            currentCTWorkflow.id,
+            'FILED_TO_HMRC',
+            {
+              id: session.user.id,
+              name: session.user.name || session.user.email || 'Unknown',
+              email: session.user.email || '',
+              role: session.user.role
+            },
+            'Marked as filed from CT status'
+          )
+        }
+
         // Mark CT as filed and advance to next period
         const nextYearEndDate = nextYearEnd ? new Date(nextYearEnd) : null
         const clientYearEndDate = client.nextYearEnd ? new Date(client.nextYearEnd) : null
@@ -153,6 +159,11 @@ export async function PUT(
       }
     })
 
+    // Start tracking the new period once the client has advanced
+    if (action === 'mark_filed' || action === 'update_period') {
+      await ensureCurrentCTWorkflow(params.id)
+    }
+
     // Log CT status activity based on action type
     const actionDetails = {
       clientCode: updatedClient.clientCode,
@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { CorporationTaxWorkflowStage } from '@prisma/client'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { CT_COMPLETED_STAGES } from '@/lib/ct-tracking'
+import { updateCTWorkflowStage } from '@/lib/ct-workflow'
+
+export const dynamic = 'force-dynamic'
+
+const UpdateCTWorkflowSchema = z.object({
+  currentStage: z.nativeEnum(CorporationTaxWorkflowStage).optional(),
+  assignedUserId: z.string().nullable().optional(),
+  hmrcSubmissionReference: z.string().max(100).nullable().optional(),
+  notes: z.string().optional(),
+})
+
+/**
+ * PUT /api/clients/[id]/ct-workflow/[workflowId]
+ * Update the stage, assignee or HMRC reference of one CT600 period
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; workflowId: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const body = await request.json()
+    const validatedData = UpdateCTWorkflowSchema.parse(body)
+
+    const workflow = await db.corporationTaxWorkflow.findFirst({
+      where: {
+        id: params.workflowId,
+        clientId: params.id
+      },
+      include: {
+        client: {
+          select: {
+            id: true,
+            clientCode: true,
+            companyName: true
+          }
+        },
+        assignedUser: {
+          select: {
+            id: true,
+            name: true
+          }
+        }
+      }
+    })
+
+    if (!workflow) {
+      return NextResponse.json({ error: 'Corporation tax workflow not found' }, { status: 404 })
+    }
+
+    const userName = session.user.name || session.user.email || 'Unknown'
+    const periodDetails = {
+      companyName: workflow.client.companyName,
+      clientCode: workflow.client.clientCode,
+      workflowType: 'CORPORATION_TAX',
+      periodStart: workflow.periodStart,
+      periodEnd: workflow.periodEnd,
+      filingDueDate: workflow.filingDueDate
+    }
+
+    if (validatedData.currentStage && validatedData.currentStage !== workflow.currentStage) {
+      await updateCTWorkflowStage(
+        workflow.id,
+        validatedData.currentStage,
+        {
+          id: session.user.id,
+          name: userName,
+          email: session.user.email || '',
+          role: session.user.role
+        },
+        validatedData.notes
+      )
+
+      const wasCompleted = CT_COMPLETED_STAGES.includes(workflow.currentStage)
+      const isCompleted = CT_COMPLETED_STAGES.includes(validatedData.currentStage)
+
+      await logActivityEnhanced(request, {
+        action: isCompleted
+          ? 'CT600_FILED'
+          : wasCompleted
+            ? 'CT600_FILING_UNDONE'
+            : 'CT_WORKFLOW_STAGE_CHANGED',
+        clientId: workflow.client.id,
+        details: {
+          ...periodDetails,
+          oldStage: workflow.currentStage,
+          newStage: validatedData.currentStage,
+          comments: validatedData.notes
+        }
+      })
+    }
+
+    const assignmentChanged = validatedData.assignedUserId !== undefined &&
+      validatedData.assignedUserId !== workflow.assignedUserId
+
+    if (assignmentChanged || validatedData.hmrcSubmissionReference !== undefined) {
+      const updated = await db.corporationTaxWorkflow.update({
+        where: { id: workflow.id },
+        data: {
+          ...(assignmentChanged && { assignedUserId: validatedData.assignedUserId }),
+          ...(validatedData.hmrcSubmissionReference !== undefined && {
+            hmrcSubmissionReference: validatedData.hmrcSubmissionReference || null
+          })
+        },
+        include: {
+          assignedUser: {
+            select: {
+              id: true,
+              name: true
+            }
+          }
+        }
+      })
+
+      if (assignmentChanged) {
+        await logActivityEnhanced(request, {
+          action: updated.assignedUser ? 'CT_WORKFLOW_ASSIGNED' : 'CT_WORKFLOW_UNASSIGNED',
+          clientId: workflow.client.id,
+          details: {
+            ...periodDetails,
+            assigneeId: updated.assignedUser?.id,
+            assigneeName: updated.assignedUser?.name,
+            previousAssignee: workflow.assignedUser?.name || null
+          }
+        })
+      }
+    }
+
+    const finalWorkflow = await db.corporationTaxWorkflow.findUnique({
+      where: { id: workflow.id },
+      include: {
+        assignedUser: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            role: true
+          }
+        },
+        workflowHistory: {
+          orderBy: { stageChangedAt: 'asc' }
+        }
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: finalWorkflow,
+      message: 'Corporation tax workflow updated successfully'
+    })
+
+  } catch (error) {
+    console.error('Error updating CT workflow:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update corporation tax workflow' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { readFile } from 'fs/promises'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/clients/[id]/document-packs/[packId]
+ * Download a generated approval pack, including copies attached to sent emails
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; packId: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const pack = await db.emailAttachment.findFirst({
+      where: {
+        id: params.packId,
+        clientId: params.id,
+        packType: { not: null }
+      }
+    })
+
+    if (!pack) {
+      return NextResponse.json({ error: 'Document pack not found' }, { status: 404 })
+    }
+
+    let fileBuffer: Buffer
+    try {
+      fileBuffer = await readFile(pack.filePath)
+    } catch (fileError) {
+      console.error('❌ Document pack missing from storage:', pack.filePath, fileError)
+      return NextResponse.json({ error: 'File is no longer available' }, { status: 410 })
+    }
+
+    await logActivityEnhanced(request, {
+      action: 'FILE_DOWNLOADED',
+      clientId: params.id,
+      details: {
+        attachmentId: pack.id,
+        packType: pack.packType,
+        fileName: pack.fileName
+      }
+    })
+
+    return new NextResponse(fileBuffer, {
+      headers: {
+        'Content-Type': pack.mimeType,
+        'Content-Length': String(pack.fileSize),
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(pack.fileName)}"`
+      }
+    })
+  } catch (error) {
+    console.error('Error downloading document pack:', error)
+    return NextResponse.json(
+      { error: 'Failed to download document pack' },
+      { status: 500 }
+    )
+  }
+}
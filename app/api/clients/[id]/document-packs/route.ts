@@ -0,0 +1,93 @@
+/**
+ * Client Document Packs API
+ *
+ * Branded approval packs generated for the client's VAT quarters and accounts workflows, waiting to
+ * be attached to an email.
+ *
+ * @route GET  /api/clients/[id]/document-packs - Packs not yet emailed (?workflowId= for one workflow)
+ * @route POST /api/clients/[id]/document-packs - Generate or regenerate a workflow's pack
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { z } from 'zod'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { DocumentPackError, generateDocumentPack, getDocumentPacks } from '@/lib/document-pack-service'
+import { DOCUMENT_PACK_WORKFLOW_TYPES } from '@/lib/document-packs'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const GenerateDocumentPackSchema = z.object({
+  workflowType: z.enum(DOCUMENT_PACK_WORKFLOW_TYPES),
+  workflowId: z.string().min(1)
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const workflowId = request.nextUrl.searchParams.get('workflowId') || undefined
+    const packs = await getDocumentPacks(params.id, workflowId)
+
+    return NextResponse.json({ success: true, packs })
+  } catch (error) {
+    console.error('Error fetching document packs:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch document packs' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const validation = GenerateDocumentPackSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const { workflowType, workflowId } = validation.data
+    const pack = await generateDocumentPack(workflowType, workflowId, params.id)
+
+    await logActivityEnhanced(request, {
+      action: 'DOCUMENT_PACK_GENERATED',
+      clientId: params.id,
+      details: {
+        packId: pack.id,
+        packType: pack.packType,
+        workflowType,
+        workflowId,
+        fileName: pack.fileName
+      }
+    })
+
+    return NextResponse.json({ success: true, pack })
+  } catch (error) {
+    if (error instanceof DocumentPackError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error generating document pack:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate document pack' },
+      { status: 500 }
+    )
+  }
+}
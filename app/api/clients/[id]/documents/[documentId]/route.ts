@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { readFile } from 'fs/promises'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { isAssignedToClient } from '@/lib/client-portal'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/clients/[id]/documents/[documentId]
+ * Download a document received through the client portal
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; documentId: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    // Without clients.view_all users can only see documents for their assigned clients
+    if (!auth.can('clients.view_all') && !(await isAssignedToClient(params.id, session.user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const document = await db.clientDocument.findFirst({
+      where: { id: params.documentId, clientId: params.id }
+    })
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    let fileBuffer: Buffer
+    try {
+      fileBuffer = await readFile(document.filePath)
+    } catch (fileError) {
+      console.error('❌ Client document missing from storage:', document.filePath, fileError)
+      return NextResponse.json({ error: 'File is no longer available' }, { status: 410 })
+    }
+
+    await logActivityEnhanced(request, {
+      action: 'FILE_DOWNLOADED',
+      clientId: params.id,
+      details: {
+        documentId: document.id,
+        fileName: document.fileName
+      }
+    })
+
+    // The stored MIME type comes from the uploader, so never let the browser render the file inline
+    return new NextResponse(fileBuffer, {
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Length': String(document.fileSize),
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(document.fileName)}"`,
+        'X-Content-Type-Options': 'nosniff'
+      }
+    })
+  } catch (error) {
+    console.error('Error downloading client document:', error)
+    return NextResponse.json(
+      { error: 'Failed to download document' },
+      { status: 500 }
+    )
+  }
+}
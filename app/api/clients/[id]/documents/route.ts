@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { isAssignedToClient } from '@/lib/client-portal'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/clients/[id]/documents
+ * List documents received from the client (newest first)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    // Without clients.view_all users can only see documents for their assigned clients
+    if (!auth.can('clients.view_all') && !(await isAssignedToClient(params.id, session.user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const workflowType = searchParams.get('workflowType')
+    const workflowId = searchParams.get('workflowId')
+
+    const documents = await db.clientDocument.findMany({
+      where: {
+        clientId: params.id,
+        ...(workflowType && { workflowType }),
+        ...(workflowId && { workflowId })
+      },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        fileName: true,
+        fileSize: true,
+        mimeType: true,
+        category: true,
+        workflowType: true,
+        workflowId: true,
+        uploadedByName: true,
+        uploadedByEmail: true,
+        notes: true,
+        createdAt: true
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { documents }
+    })
+  } catch (error) {
+    console.error('Error fetching client documents:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch client documents' },
+      { status: 500 }
+    )
+  }
+}
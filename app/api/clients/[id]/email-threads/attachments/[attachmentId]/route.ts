@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { readFile } from 'fs/promises'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/clients/[id]/email-threads/attachments/[attachmentId]
+ * Download a file attached to a client's email reply
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; attachmentId: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const attachment = await db.emailAttachment.findFirst({
+      where: {
+        id: params.attachmentId,
+        communication: { clientId: params.id }
+      }
+    })
+
+    if (!attachment) {
+      return NextResponse.json({ error: 'Attachment not found' }, { status: 404 })
+    }
+
+    let fileBuffer: Buffer
+    try {
+      fileBuffer = await readFile(attachment.filePath)
+    } catch (fileError) {
+      console.error('❌ Email attachment missing from storage:', attachment.filePath, fileError)
+      return NextResponse.json({ error: 'File is no longer available' }, { status: 410 })
+    }
+
+    await logActivityEnhanced(request, {
+      action: 'FILE_DOWNLOADED',
+      clientId: params.id,
+      details: {
+        attachmentId: attachment.id,
+        communicationId: attachment.communicationId,
+        fileName: attachment.fileName
+      }
+    })
+
+    return new NextResponse(fileBuffer, {
+      headers: {
+        'Content-Type': attachment.mimeType,
+        'Content-Length': String(attachment.fileSize),
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(attachment.fileName)}"`
+      }
+    })
+  } catch (error) {
+    console.error('Error downloading email attachment:', error)
+    return NextResponse.json(
+      { error: 'Failed to download attachment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { getClientEmailThreads } from '@/lib/inbound-email-service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/clients/[id]/email-threads
+ * Emails sent to the client with their replies, most recently active thread first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, 200)
+
+    const threads = await getClientEmailThreads(params.id, limit)
+
+    return NextResponse.json({
+      success: true,
+      data: { threads }
+    })
+  } catch (error) {
+    console.error('Error fetching client email threads:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch email threads' },
+      { status: 500 }
+    )
+  }
+}
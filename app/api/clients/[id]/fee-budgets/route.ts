@@ -0,0 +1,95 @@
+/**
+ * Client Fee Budgets API
+ *
+ * What a client pays for each kind of job - per quarter for VAT, per year for accounts - and the
+ * time it allows for. The recoverability report compares these with the time cost.
+ *
+ * @route GET /api/clients/[id]/fee-budgets - The client's fee budgets
+ * @route PUT /api/clients/[id]/fee-budgets - Set or remove fee budgets by work type
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { ASSIGNABLE_WORK_TYPES } from '@/lib/assignment-engine'
+import { authorize } from '@/lib/permission-service'
+import { getClientFeeBudgets, setClientFeeBudgets, TimeEntryError } from '@/lib/time-tracking-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const FeeBudgetsSchema = z.object({
+  budgets: z.array(z.object({
+    workType: z.enum(ASSIGNABLE_WORK_TYPES),
+    fee: z.number().min(0).max(1000000).nullable(),
+    budgetMinutes: z.number().int().min(0).max(100000).optional().nullable()
+  }))
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize('time.view_all')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const budgets = await getClientFeeBudgets(params.id)
+
+    return NextResponse.json({ success: true, budgets })
+  } catch (error) {
+    console.error('Error fetching fee budgets:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch fee budgets' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize('time.manage_fees')
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const body = await request.json()
+    const validation = FeeBudgetsSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const budgets = await setClientFeeBudgets(
+      params.id,
+      validation.data.budgets,
+      session.user.name || session.user.email || 'Unknown'
+    )
+
+    await logActivityEnhanced(request, {
+      action: 'CLIENT_FEE_BUDGETS_UPDATED',
+      clientId: params.id,
+      details: {
+        budgets: validation.data.budgets
+      }
+    })
+
+    return NextResponse.json({ success: true, budgets })
+  } catch (error) {
+    if (error instanceof TimeEntryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error updating fee budgets:', error)
+    return NextResponse.json(
+      { error: 'Failed to update fee budgets' },
+      { status: 500 }
+    )
+  }
+}
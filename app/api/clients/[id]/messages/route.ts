@@ -0,0 +1,167 @@
+/**
+ * Client Text Messages API
+ *
+ * @route GET  /api/clients/[id]/messages - Recent SMS and WhatsApp messages and the client's consent
+ *                                          (?previewTemplateId= also returns that template's SMS text filled in)
+ * @route POST /api/clients/[id]/messages - Text the client's primary contact
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { z } from 'zod'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { MAX_TEXT_MESSAGE_LENGTH, MESSAGING_CHANNELS, MESSAGING_CHANNEL_CONFIG } from '@/lib/messaging'
+import {
+  MessagingError,
+  getClientMessages,
+  messagingService,
+  renderClientTemplateText
+} from '@/lib/messaging-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const SendMessageSchema = z.object({
+  channel: z.enum(MESSAGING_CHANNELS),
+  templateId: z.string().nullable().optional(),
+  body: z.string().trim().max(MAX_TEXT_MESSAGE_LENGTH).optional()
+}).refine(data => !!data.body || !!data.templateId, {
+  message: 'Enter a message or choose a template'
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const client = await db.client.findUnique({
+      where: { id: params.id },
+      select: {
+        id: true,
+        contactPhone: true,
+        smsConsent: true,
+        whatsappConsent: true,
+        messagingConsentUpdatedAt: true,
+        messagingConsentUpdatedBy: true
+      }
+    })
+    if (!client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+    }
+
+    const previewTemplateId = request.nextUrl.searchParams.get('previewTemplateId')
+    const [messages, templates, preview] = await Promise.all([
+      getClientMessages(params.id),
+      db.emailTemplate.findMany({
+        where: { isActive: true, smsContent: { not: null } },
+        select: { id: true, name: true, category: true },
+        orderBy: { name: 'asc' }
+      }),
+      previewTemplateId ? renderClientTemplateText(previewTemplateId, params.id) : Promise.resolve(null)
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        messages,
+        templates,
+        preview,
+        consent: {
+          contactPhone: client.contactPhone,
+          smsConsent: client.smsConsent,
+          whatsappConsent: client.whatsappConsent,
+          updatedAt: client.messagingConsentUpdatedAt?.toISOString() || null,
+          updatedBy: client.messagingConsentUpdatedBy
+        },
+        messagingEnabled: messagingService.isConfigured()
+      }
+    })
+  } catch (error) {
+    if (error instanceof MessagingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error fetching client messages:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch messages' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const body = await request.json()
+    const validation = SendMessageSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const client = await db.client.findUnique({
+      where: { id: params.id },
+      select: { id: true, companyName: true, clientCode: true }
+    })
+    if (!client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+    }
+
+    const { channel, templateId } = validation.data
+    const text = validation.data.body || await renderClientTemplateText(templateId!, params.id)
+
+    const result = await messagingService.sendClientMessage({
+      clientId: params.id,
+      channel,
+      body: text,
+      templateId: templateId || null,
+      sentByUserId: session.user.id
+    })
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 502 })
+    }
+
+    await logActivityEnhanced(request, {
+      action: 'TEXT_MESSAGE_SENT',
+      clientId: params.id,
+      details: {
+        companyName: client.companyName,
+        clientCode: client.clientCode,
+        channel,
+        templateId: templateId || null,
+        communicationId: result.communicationId
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { communicationId: result.communicationId },
+      message: `${MESSAGING_CHANNEL_CONFIG[channel].label} sent`
+    })
+  } catch (error) {
+    if (error instanceof MessagingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error sending client message:', error)
+    return NextResponse.json(
+      { error: 'Failed to send message' },
+      { status: 500 }
+    )
+  }
+}
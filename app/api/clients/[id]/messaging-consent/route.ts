@@ -0,0 +1,95 @@
+/**
+ * Client Messaging Consent API
+ *
+ * @route PUT /api/clients/[id]/messaging-consent - Record whether the client agrees to SMS and WhatsApp messages
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { z } from 'zod'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const MessagingConsentSchema = z.object({
+  smsConsent: z.boolean(),
+  whatsappConsent: z.boolean()
+})
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const body = await request.json()
+    const validation = MessagingConsentSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const existing = await db.client.findUnique({
+      where: { id: params.id },
+      select: { id: true, companyName: true, clientCode: true, smsConsent: true, whatsappConsent: true }
+    })
+    if (!existing) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+    }
+
+    const client = await db.client.update({
+      where: { id: params.id },
+      data: {
+        ...validation.data,
+        messagingConsentUpdatedAt: new Date(),
+        messagingConsentUpdatedBy: session.user.name || session.user.email
+      },
+      select: {
+        smsConsent: true,
+        whatsappConsent: true,
+        messagingConsentUpdatedAt: true,
+        messagingConsentUpdatedBy: true
+      }
+    })
+
+    await logActivityEnhanced(request, {
+      action: 'MESSAGING_CONSENT_UPDATED',
+      clientId: params.id,
+      details: {
+        companyName: existing.companyName,
+        clientCode: existing.clientCode,
+        previousSmsConsent: existing.smsConsent,
+        previousWhatsappConsent: existing.whatsappConsent,
+        ...validation.data
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        consent: {
+          smsConsent: client.smsConsent,
+          whatsappConsent: client.whatsappConsent,
+          updatedAt: client.messagingConsentUpdatedAt?.toISOString() || null,
+          updatedBy: client.messagingConsentUpdatedBy
+        }
+      },
+      message: 'Messaging consent updated'
+    })
+  } catch (error) {
+    console.error('Error updating messaging consent:', error)
+    return NextResponse.json(
+      { error: 'Failed to update messaging consent' },
+      { status: 500 }
+    )
+  }
+}
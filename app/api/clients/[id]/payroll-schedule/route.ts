@@ -0,0 +1,229 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { PayFrequency } from '@prisma/client'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { generatePayrollRuns } from '@/lib/payroll-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const PayrollScheduleSchema = z.object({
+  payFrequency: z.nativeEnum(PayFrequency),
+  firstPayDate: z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid first pay date'),
+  payeReference: z.string().max(20).nullable().optional(),
+  accountsOfficeReference: z.string().max(20).nullable().optional(),
+  employeeCount: z.number().int().min(0).nullable().optional(),
+  epsRequired: z.boolean().optional(),
+  assignedUserId: z.string().nullable().optional(),
+  isActive: z.boolean().optional(),
+  notes: z.string().nullable().optional(),
+})
+
+/**
+ * GET /api/clients/[id]/payroll-schedule
+ * Client's payroll schedule with its most recent and upcoming runs
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const client = await db.client.findUnique({
+      where: { id: params.id },
+      select: { id: true, requiresPayroll: true }
+    })
+
+    if (!client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+    }
+
+    const existingSchedule = await db.payrollSchedule.findUnique({
+      where: { clientId: client.id },
+      select: { id: true }
+    })
+
+    if (existingSchedule) {
+      await generatePayrollRuns(existingSchedule.id)
+    }
+
+    const schedule = await db.payrollSchedule.findUnique({
+      where: { clientId: client.id },
+      include: {
+        assignedUser: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            role: true,
+          }
+        },
+        payrollRuns: {
+          orderBy: { payDate: 'desc' },
+          take: 12,
+          include: {
+            assignedUser: {
+              select: {
+                id: true,
+                name: true,
+              }
+            }
+          }
+        }
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        requiresPayroll: client.requiresPayroll,
+        schedule
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching payroll schedule:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch payroll schedule' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/clients/[id]/payroll-schedule
+ * Create or update the client's payroll schedule and generate its upcoming runs
+ * Changing the frequency or anchor date replaces runs that have not been started yet
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const validatedData = PayrollScheduleSchema.parse(body)
+
+    const client = await db.client.findUnique({
+      where: { id: params.id },
+      include: { payrollSchedule: true }
+    })
+
+    if (!client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+    }
+
+    if (!client.requiresPayroll) {
+      return NextResponse.json({ error: 'Client does not require payroll services' }, { status: 400 })
+    }
+
+    if (validatedData.assignedUserId) {
+      const assignee = await db.user.findUnique({
+        where: { id: validatedData.assignedUserId }
+      })
+      if (!assignee || !assignee.isActive) {
+        return NextResponse.json({ error: 'Assigned user not found' }, { status: 404 })
+      }
+    }
+
+    const existingSchedule = client.payrollSchedule
+    const firstPayDate = new Date(validatedData.firstPayDate)
+    const datesChanged = !!existingSchedule && (
+      existingSchedule.payFrequency !== validatedData.payFrequency ||
+      existingSchedule.firstPayDate.getTime() !== firstPayDate.getTime()
+    )
+
+    const scheduleData = {
+      payFrequency: validatedData.payFrequency,
+      firstPayDate,
+      payeReference: validatedData.payeReference || null,
+      accountsOfficeReference: validatedData.accountsOfficeReference || null,
+      employeeCount: validatedData.employeeCount ?? null,
+      epsRequired: validatedData.epsRequired ?? false,
+      assignedUserId: validatedData.assignedUserId || null,
+      isActive: validatedData.isActive ?? true,
+      notes: validatedData.notes || null,
+    }
+
+    const schedule = await db.$transaction(async (tx) => {
+      const saved = await tx.payrollSchedule.upsert({
+        where: { clientId: client.id },
+        update: scheduleData,
+        create: {
+          clientId: client.id,
+          ...scheduleData
+        }
+      })
+
+      if (datesChanged) {
+        await tx.payrollRun.deleteMany({
+          where: {
+            scheduleId: saved.id,
+            currentStage: 'WAITING_FOR_DATA',
+            payDate: { gte: new Date() }
+          }
+        })
+      }
+
+      // Outstanding runs follow the schedule's EPS setting
+      if (existingSchedule && existingSchedule.epsRequired !== saved.epsRequired) {
+        await tx.payrollRun.updateMany({
+          where: {
+            scheduleId: saved.id,
+            isCompleted: false
+          },
+          data: { epsRequired: saved.epsRequired }
+        })
+      }
+
+      return saved
+    })
+
+    const runsCreated = await generatePayrollRuns(schedule.id)
+
+    await logActivityEnhanced(request, {
+      action: existingSchedule ? 'PAYROLL_SCHEDULE_UPDATED' : 'PAYROLL_SCHEDULE_CREATED',
+      clientId: client.id,
+      details: {
+        companyName: client.companyName,
+        clientCode: client.clientCode,
+        workflowType: 'PAYROLL',
+        payFrequency: schedule.payFrequency,
+        firstPayDate: schedule.firstPayDate,
+        isActive: schedule.isActive,
+        runsCreated
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: schedule,
+      message: existingSchedule ? 'Payroll schedule updated successfully' : 'Payroll schedule created successfully'
+    })
+
+  } catch (error) {
+    console.error('Error saving payroll schedule:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to save payroll schedule' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * DELETE /api/clients/[id]/portal-links/[linkId]
+ * Revoke a client upload link - uploaded documents are kept
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; linkId: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const link = await db.clientPortalLink.findFirst({
+      where: { id: params.linkId, clientId: params.id },
+      include: {
+        client: { select: { companyName: true, clientCode: true } }
+      }
+    })
+
+    if (!link) {
+      return NextResponse.json({ error: 'Upload link not found' }, { status: 404 })
+    }
+
+    if (!link.revokedAt) {
+      await db.clientPortalLink.update({
+        where: { id: link.id },
+        data: { revokedAt: new Date() }
+      })
+
+      await logActivityEnhanced(request, {
+        action: 'CLIENT_PORTAL_LINK_REVOKED',
+        clientId: params.id,
+        details: {
+          companyName: link.client.companyName,
+          clientCode: link.client.clientCode,
+          workflowType: link.workflowType
+        }
+      })
+    }
+
+    return NextResponse.json({ success: true, message: 'Upload link revoked' })
+  } catch (error) {
+    console.error('Error revoking client portal link:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke portal link' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Client Portal Links API
+ *
+ * Staff-facing management of client document upload links.
+ *
+ * @route GET  /api/clients/[id]/portal-links - Links plus workflows a link can be created for
+ * @route POST /api/clients/[id]/portal-links - Create a magic link for a workflow
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { z } from 'zod'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import {
+  createPortalLink,
+  getPortalWorkflowSummary,
+  PortalLinkError,
+  PORTAL_WORKFLOW_TYPES
+} from '@/lib/client-portal'
+
+export const dynamic = 'force-dynamic'
+
+const CreatePortalLinkSchema = z.object({
+  workflowType: z.enum(PORTAL_WORKFLOW_TYPES),
+  workflowId: z.string().min(1),
+  expiresInDays: z.number().int().min(1).max(90).optional()
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const clientId = params.id
+
+    const client = await db.client.findUnique({
+      where: { id: clientId },
+      select: {
+        id: true,
+        vatQuartersWorkflow: {
+          where: { isCompleted: false },
+          orderBy: { quarterEndDate: 'desc' },
+          take: 2,
+          select: { id: true }
+        },
+        ltdAccountsWorkflows: {
+          where: { isCompleted: false },
+          orderBy: { filingPeriodEnd: 'desc' },
+          take: 1,
+          select: { id: true }
+        },
+        nonLtdAccountsWorkflows: {
+          where: { isCompleted: false },
+          orderBy: { yearEndDate: 'desc' },
+          take: 1,
+          select: { id: true }
+        }
+      }
+    })
+
+    if (!client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+    }
+
+    const links = await db.clientPortalLink.findMany({
+      where: { clientId },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+      include: {
+        createdBy: {
+          select: { id: true, name: true }
+        },
+        _count: {
+          select: { documents: true }
+        }
+      }
+    })
+
+    // Workflows that can currently receive paperwork
+    const candidates = [
+      ...client.vatQuartersWorkflow.map(quarter => ({ workflowType: 'VAT' as const, workflowId: quarter.id })),
+      ...client.ltdAccountsWorkflows.map(workflow => ({ workflowType: 'LTD' as const, workflowId: workflow.id })),
+      ...client.nonLtdAccountsWorkflows.map(workflow => ({ workflowType: 'NON_LTD' as const, workflowId: workflow.id }))
+    ]
+    const workflows = (await Promise.all(
+      candidates.map(candidate => getPortalWorkflowSummary(clientId, candidate.workflowType, candidate.workflowId))
+    )).filter(Boolean)
+
+    const now = new Date()
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        links: links.map(link => ({
+          id: link.id,
+          workflowType: link.workflowType,
+          workflowId: link.workflowId,
+          expiresAt: link.expiresAt,
+          revokedAt: link.revokedAt,
+          lastAccessedAt: link.lastAccessedAt,
+          createdAt: link.createdAt,
+          createdBy: link.createdBy,
+          documentCount: link._count.documents,
+          isActive: !link.revokedAt && link.expiresAt > now
+        })),
+        workflows
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching client portal links:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch portal links' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const clientId = params.id
+    const body = await request.json()
+    const validation = CreatePortalLinkSchema.safeParse(body)
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const client = await db.client.findUnique({
+      where: { id: clientId },
+      select: { id: true, companyName: true, clientCode: true, isActive: true }
+    })
+
+    if (!client || !client.isActive) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+    }
+
+    const { link, url, workflow } = await createPortalLink({
+      clientId,
+      workflowType: validation.data.workflowType,
+      workflowId: validation.data.workflowId,
+      expiresInDays: validation.data.expiresInDays,
+      createdByUserId: session.user.id
+    })
+
+    await logActivityEnhanced(request, {
+      action: 'CLIENT_PORTAL_LINK_CREATED',
+      clientId,
+      details: {
+        companyName: client.companyName,
+        clientCode: client.clientCode,
+        workflowType: workflow.workflowType,
+        period: workflow.periodLabel,
+        expiresAt: link.expiresAt.toISOString()
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: link.id,
+        url,
+        expiresAt: link.expiresAt,
+        workflow
+      },
+      message: 'Upload link created - copy it now, it will not be shown again'
+    })
+  } catch (error) {
+    if (error instanceof PortalLinkError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error creating client portal link:', error)
+    return NextResponse.json(
+      { error: 'Failed to create portal link' },
+      { status: 500 }
+    )
+  }
+}
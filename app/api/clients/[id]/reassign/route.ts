@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { logActivityEnhanced } from '@/lib/activity-middleware'
 
@@ -16,22 +15,11 @@ export async function POST(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    // Only partners and managers can reassign clients
-    if (session.user.role !== 'PARTNER' && session.user.role !== 'MANAGER') {
-      return NextResponse.json(
-        { success: false, error: 'Access denied. Partner or Manager role required.' },
-        { status: 403 }
-      )
+    const auth = await authorize('clients.assign')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const clientId = params.id
 
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { getComprehensiveCompanyData } from '@/lib/companies-house'
 import { logActivityEnhanced } from '@/lib/activity-middleware'
 import { calculateCorporationTaxDue } from '@/lib/year-end-utils'
+import { notifyOfficerChanges, syncClientOfficers } from '@/lib/officer-sync'
+import { ensureCurrentCTWorkflow } from '@/lib/ct-workflow'
+import { describeOfficerChange } from '@/lib/officers'
 
 // Force dynamic rendering for this route since it uses session
 export const dynamic = 'force-dynamic'
@@ -13,20 +15,16 @@ export const revalidate = 0 // Always fetch fresh data
 /**
  * POST /api/clients/[id]/refresh-companies-house
  * 
- * Refresh client data with latest Companies House information
+ * Refresh client data with latest Companies House information (needs clients.refresh)
  */
 export async function POST(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
+    const auth = await authorize('clients.refresh')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const { id } = params
@@ -114,6 +112,10 @@ export async function POST(
       }
     })
 
+    // New accounts dates can start a new CT period
+    await ensureCurrentCTWorkflow(id)
+      .catch(error => console.error('Failed to create CT workflow after refresh:', error))
+
     // Log Companies House refresh activity
     await logActivityEnhanced(request, {
       action: 'CLIENT_COMPANIES_HOUSE_REFRESH',
@@ -130,10 +132,35 @@ export async function POST(
       }
     })
 
+    // Normalise officers and PSCs, flagging appointments and resignations since the last refresh
+    const officerChanges = await syncClientOfficers(id, officers, psc, 'COMPANIES_HOUSE_REFRESH')
+      .catch(error => {
+        console.error('Failed to sync officers from Companies House:', error)
+        return []
+      })
+
+    if (officerChanges.length > 0) {
+      await logActivityEnhanced(request, {
+        action: 'OFFICER_CHANGES_DETECTED',
+        clientId: id,
+        details: {
+          companyName: updatedClient.companyName,
+          clientCode: updatedClient.clientCode,
+          companyNumber: updatedClient.companyNumber,
+          changes: officerChanges.map(change => describeOfficerChange(change))
+        }
+      })
+
+      await notifyOfficerChanges(id, officerChanges)
+    }
+
     const response = NextResponse.json({
       success: true,
       data: updatedClient,
-      message: 'Client updated with latest Companies House data'
+      officerChanges,
+      message: officerChanges.length > 0
+        ? `Client updated with latest Companies House data (${officerChanges.length} officer change${officerChanges.length === 1 ? '' : 's'} detected)`
+        : 'Client updated with latest Companies House data'
     })
 
     // Ensure no caching for real-time data
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
 import { db } from '@/lib/db'
+import { authorize } from '@/lib/permission-service'
 import { getCompanyPSC, getCompanyOfficers, getBestContactName } from '@/lib/companies-house'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { seedContactsFromCompaniesHouse, syncPrimaryContactFromClient } from '@/lib/client-contact-service'
 
 export async function PATCH(
   request: NextRequest,
@@ -10,10 +11,11 @@ export async function PATCH(
 ) {
   try {
     // Authentication check
-    const session = await getServerSession(authOptions)
-    if (!session || !session.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const { id } = params
 
@@ -70,6 +72,20 @@ export async function PATCH(
       }, { status: 500 })
     }
 
+    // Add directors and PSCs who aren't contacts yet, so they can be given emails and opt-ins
+    const seededContacts = await seedContactsFromCompaniesHouse(id)
+    if (seededContacts.length > 0) {
+      await logActivityEnhanced(request, {
+        action: 'CLIENT_CONTACTS_SEEDED',
+        clientId: id,
+        details: {
+          companyName: client.companyName,
+          clientCode: client.clientCode,
+          contacts: seededContacts.map(contact => `${contact.name} (${contact.jobTitle})`)
+        }
+      })
+    }
+
     // Get best contact name using both PSC and officers data
     const directorName = getBestContactName(pscData, officersData, client.companyName)
     
@@ -77,6 +93,7 @@ export async function PATCH(
     if (directorName === client.companyName) {
       return NextResponse.json({ 
         changed: false,
+        seededContacts,
         message: 'No directors found - contact name would remain as company name' 
       })
     }
@@ -87,7 +104,8 @@ export async function PATCH(
         message: 'Contact name already matches director name',
         contactName: client.contactName,
         directorName: directorName,
-        changed: false
+        changed: false,
+        seededContacts
       })
     }
 
@@ -100,10 +118,14 @@ export async function PATCH(
         clientCode: true,
         companyName: true,
         contactName: true,
+        contactEmail: true,
+        contactPhone: true,
         companyNumber: true
       }
     })
 
+    await syncPrimaryContactFromClient(updatedClient)
+
     // Log the activity
     await db.activityLog.create({
       data: {
@@ -128,7 +150,8 @@ export async function PATCH(
         oldContactName: client.contactName,
         newContactName: directorName
       },
-      changed: true
+      changed: true,
+      seededContacts
     })
 
   } catch (error) {
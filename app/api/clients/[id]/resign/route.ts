@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 
 // Force dynamic rendering for this route since it uses session
@@ -16,22 +15,11 @@ export async function POST(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    // Only managers and partners can resign clients
-    if (session.user.role !== 'MANAGER' && session.user.role !== 'PARTNER') {
-      return NextResponse.json(
-        { success: false, error: 'Insufficient permissions' },
-        { status: 403 }
-      )
+    const auth = await authorize('clients.resign')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const { id } = params
 
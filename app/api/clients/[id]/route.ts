@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { VAT_QUARTER_GROUPS, calculateVATQuarter, isVATFilingMonth } from '@/lib/vat-workflow'
 import { logClientActivity, ActivityTypes } from '@/lib/activity-logger'
+import { syncPrimaryContactFromClient } from '@/lib/client-contact-service'
+import { ensureCurrentCTWorkflow } from '@/lib/ct-workflow'
 
 // Force dynamic rendering for this route since it uses session
 export const dynamic = 'force-dynamic'
@@ -77,14 +78,11 @@ function reconstructAddressFields(client: any, type: 'trading' | 'residential'):
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions)
-
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const client = await db.client.findUnique({
       where: { id: params.id },
@@ -127,8 +125,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       )
     }
 
-    // Check permissions - staff can only view their assigned clients
-    if (session.user.role === 'STAFF') {
+    // Check permissions - without clients.view_all users can only view their assigned clients
+    if (!auth.can('clients.view_all')) {
       const isAssigned = client.assignedUserId === session.user.id ||
                         client.ltdCompanyAssignedUserId === session.user.id ||
                         client.nonLtdCompanyAssignedUserId === session.user.id ||
@@ -208,14 +206,11 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  */
 export async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions)
-
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const body = await request.json()
     
@@ -260,10 +255,10 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     
     console.log('🔍 PUT /api/clients/[id] - Is questionnaire update:', isQuestionnaireUpdate)
 
-    // Only managers and partners can do full updates, but anyone can do questionnaire updates
-    if (!isQuestionnaireUpdate && session.user.role !== 'MANAGER' && session.user.role !== 'PARTNER') {
+    // Full updates need clients.edit, but anyone can do questionnaire updates
+    if (!isQuestionnaireUpdate && !auth.can('clients.edit')) {
       return NextResponse.json(
-        { success: false, error: 'Forbidden - Manager or Partner access required for full client updates' },
+        { success: false, error: 'Forbidden - Edit clients permission required for full client updates' },
         { status: 403 }
       )
     }
@@ -418,6 +413,14 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       },
     })
 
+    // Keep the primary contact in step with the client's contact details
+    await syncPrimaryContactFromClient(updatedClient)
+      .catch(error => console.error('Failed to sync primary contact:', error))
+
+    // The company type or accounts dates may have changed the current CT period
+    await ensureCurrentCTWorkflow(updatedClient.id)
+      .catch(error => console.error('Failed to create CT workflow:', error))
+
     // Fetch chase team users separately if they exist
     let chaseTeamUsers: Array<{
       id: string
@@ -597,22 +600,11 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
  */
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions)
-
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    // Only managers and partners can delete clients
-    if (session.user.role !== 'MANAGER' && session.user.role !== 'PARTNER') {
-      return NextResponse.json(
-        { success: false, error: 'Forbidden - Manager or Partner access required' },
-        { status: 403 }
-      )
+    const auth = await authorize('clients.delete')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     // Check if client exists
     const existingClient = await db.client.findUnique({
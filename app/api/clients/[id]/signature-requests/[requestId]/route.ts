@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { cancelSignatureRequest, ESignatureError } from '@/lib/e-signature-service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * DELETE /api/clients/[id]/signature-requests/[requestId]
+ * Cancel a request the client hasn't signed yet - the documents and workflow stage are kept
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; requestId: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const cancelled = await cancelSignatureRequest(params.id, params.requestId)
+
+    await logActivityEnhanced(request, {
+      action: 'SIGNATURE_REQUEST_CANCELLED',
+      clientId: params.id,
+      details: {
+        signatureRequestId: cancelled.id,
+        title: cancelled.title,
+        signerName: cancelled.signerName
+      }
+    })
+
+    return NextResponse.json({ success: true, data: cancelled, message: 'Signature request cancelled' })
+  } catch (error) {
+    if (error instanceof ESignatureError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error cancelling signature request:', error)
+    return NextResponse.json(
+      { error: 'Failed to cancel signature request' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Client Signature Requests API
+ *
+ * Accounts approval packs and engagement letters sent to the client for e-signature.
+ *
+ * @route GET  /api/clients/[id]/signature-requests - Requests plus the accounts workflows and contact to send to
+ * @route POST /api/clients/[id]/signature-requests - Send a PDF for signature (multipart form)
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { z } from 'zod'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { getPortalWorkflowSummary } from '@/lib/client-portal'
+import {
+  createSignatureRequest,
+  ESignatureError,
+  getSignatureRequests,
+  isESignatureConfigured
+} from '@/lib/e-signature-service'
+import {
+  SIGNATURE_DOCUMENT_TYPES,
+  SIGNATURE_READY_STAGES,
+  SIGNATURE_WORKFLOW_TYPES
+} from '@/lib/e-signature'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const CreateSignatureRequestSchema = z.object({
+  documentType: z.enum(SIGNATURE_DOCUMENT_TYPES),
+  workflowType: z.enum(SIGNATURE_WORKFLOW_TYPES).optional(),
+  workflowId: z.string().min(1).optional(),
+  documentId: z.string().min(1).optional(),
+  title: z.string().trim().min(1, 'Title is required').max(200),
+  message: z.string().trim().max(2000).optional(),
+  signerName: z.string().trim().min(1, 'Signer name is required').max(200),
+  signerEmail: z.string().trim().email('Enter a valid signer email')
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const clientId = params.id
+
+    const client = await db.client.findUnique({
+      where: { id: clientId },
+      select: {
+        id: true,
+        contactName: true,
+        contactEmail: true,
+        ltdAccountsWorkflows: {
+          where: { isCompleted: false },
+          orderBy: { filingPeriodEnd: 'desc' },
+          take: 1,
+          select: { id: true }
+        },
+        nonLtdAccountsWorkflows: {
+          where: { isCompleted: false },
+          orderBy: { yearEndDate: 'desc' },
+          take: 1,
+          select: { id: true }
+        },
+        documents: {
+          where: { mimeType: 'application/pdf' },
+          orderBy: { createdAt: 'desc' },
+          take: 20,
+          select: { id: true, fileName: true, category: true, workflowId: true, createdAt: true }
+        }
+      }
+    })
+
+    if (!client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+    }
+
+    const candidates = [
+      ...client.ltdAccountsWorkflows.map(workflow => ({ workflowType: 'LTD' as const, workflowId: workflow.id })),
+      ...client.nonLtdAccountsWorkflows.map(workflow => ({ workflowType: 'NON_LTD' as const, workflowId: workflow.id }))
+    ]
+    const workflows = (await Promise.all(
+      candidates.map(candidate => getPortalWorkflowSummary(clientId, candidate.workflowType, candidate.workflowId))
+    ))
+      .filter((workflow): workflow is NonNullable<typeof workflow> => !!workflow)
+      .map(workflow => ({ ...workflow, readyForSignature: SIGNATURE_READY_STAGES.includes(workflow.currentStage) }))
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        requests: await getSignatureRequests(clientId),
+        workflows,
+        documents: client.documents,
+        signer: { name: client.contactName, email: client.contactEmail },
+        signingEnabled: isESignatureConfigured()
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching signature requests:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch signature requests' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const clientId = params.id
+    const formData = await request.formData()
+    const field = (name: string) => {
+      const value = formData.get(name)
+      return typeof value === 'string' && value.trim() ? value : undefined
+    }
+
+    const validation = CreateSignatureRequestSchema.safeParse({
+      documentType: field('documentType'),
+      workflowType: field('workflowType'),
+      workflowId: field('workflowId'),
+      documentId: field('documentId'),
+      title: field('title'),
+      message: field('message'),
+      signerName: field('signerName'),
+      signerEmail: field('signerEmail')
+    })
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const file = formData.get('file')
+    const { signatureRequest, workflow, stageAdvanced, companyName } = await createSignatureRequest({
+      ...validation.data,
+      clientId,
+      file: file instanceof File && file.size > 0 ? file : null,
+      user: {
+        id: session.user.id,
+        name: session.user.name || session.user.email || 'Unknown',
+        email: session.user.email || '',
+        role: session.user.role
+      }
+    })
+
+    await logActivityEnhanced(request, {
+      action: 'SIGNATURE_REQUEST_SENT',
+      clientId,
+      details: {
+        companyName,
+        signatureRequestId: signatureRequest.id,
+        documentType: signatureRequest.documentType,
+        title: signatureRequest.title,
+        signerName: signatureRequest.signerName,
+        signerEmail: signatureRequest.signerEmail,
+        period: workflow?.periodLabel,
+        stageAdvanced
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { signatureRequest, stageAdvanced },
+      message: stageAdvanced
+        ? 'Sent for signature - workflow moved to Sent to Client'
+        : 'Sent for signature'
+    })
+  } catch (error) {
+    if (error instanceof ESignatureError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error creating signature request:', error)
+    return NextResponse.json(
+      { error: 'Failed to send for signature' },
+      { status: 500 }
+    )
+  }
+}
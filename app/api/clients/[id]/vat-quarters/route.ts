@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db as prisma } from '@/lib/db'
 import { calculateVATQuarter, getNextVATQuarter, VAT_WORKFLOW_STAGE_NAMES } from '@/lib/vat-workflow'
 
@@ -13,9 +12,9 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const clientId = params.id
@@ -93,10 +92,11 @@ export async function POST(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const clientId = params.id
     const body = await request.json()
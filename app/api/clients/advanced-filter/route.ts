@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
+import { attachContactEmailHealth } from '@/lib/email-suppression-service'
 
 export const dynamic = 'force-dynamic'
 export const revalidate = 0
@@ -182,14 +182,11 @@ function buildUserAssignmentClause(field: string, operator: string, value: strin
 
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const body = await request.json()
     const { filter, sortBy = 'companyName', sortOrder = 'asc', page = 1, limit = 100 } = body
@@ -319,7 +316,7 @@ export async function POST(request: NextRequest) {
 
     const response = NextResponse.json({
       success: true,
-      clients: sortedClients,
+      clients: await attachContactEmailHealth(sortedClients),
       pagination: {
         page,
         limit,
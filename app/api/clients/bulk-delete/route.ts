@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { logActivity, ActivityTypes } from '@/lib/activity-logger'
 
@@ -14,18 +13,11 @@ import { logActivity, ActivityTypes } from '@/lib/activity-logger'
  */
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Only partners and managers can perform bulk deletions
-    if (session.user.role !== 'PARTNER' && session.user.role !== 'MANAGER') {
-      return NextResponse.json({ 
-        error: 'Access denied. Partner or Manager role required.' 
-      }, { status: 403 })
+    const auth = await authorize('clients.delete')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const { clientIds } = await request.json()
 
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { logActivityEnhanced } from '@/lib/activity-middleware'
 import { db } from '@/lib/db'
 import { getComprehensiveCompanyData } from '@/lib/companies-house'
+import { notifyOfficerChanges, syncClientOfficers } from '@/lib/officer-sync'
+import { ensureCurrentCTWorkflow } from '@/lib/ct-workflow'
 import { z } from 'zod'
 
 const BulkRefreshFastSchema = z.object({
@@ -136,8 +137,19 @@ async function refreshClientDirect(clientId: string): Promise<{ success: boolean
         where: { id: clientId },
         data: updateData
       })
+
+      await ensureCurrentCTWorkflow(clientId)
+        .catch(error => console.error(`Failed to create CT workflow for client ${clientId}:`, error))
     }
 
+    // Normalise officers and PSCs and tell the assigned users about any changes
+    const officerChanges = await syncClientOfficers(clientId, officers, psc, 'BULK_REFRESH')
+      .catch(error => {
+        console.error(`Failed to sync officers for client ${clientId}:`, error)
+        return []
+      })
+    await notifyOfficerChanges(clientId, officerChanges)
+
     return { success: true, clientId }
     
   } catch (error) {
@@ -285,17 +297,11 @@ async function processBackgroundJobFast(
 export async function POST(request: NextRequest) {
   try {
     // Get session for authentication
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Only allow MANAGER and PARTNER roles to bulk refresh
-    if (session.user.role !== 'MANAGER' && session.user.role !== 'PARTNER') {
-      return NextResponse.json({ 
-        error: 'Insufficient permissions. Only managers and partners can bulk refresh Companies House data.' 
-      }, { status: 403 })
+    const auth = await authorize('clients.refresh')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     // Parse and validate request body
     const body = await request.json()
@@ -402,10 +408,11 @@ export async function POST(request: NextRequest) {
 // GET endpoint to check job status
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const { searchParams } = new URL(request.url)
     const jobId = searchParams.get('jobId')
@@ -420,7 +427,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Only allow the user who started the job to check its status
-    if (job.userId !== session.user.id && session.user.role !== 'PARTNER') {
+    if (job.userId !== session.user.id && !auth.can('clients.refresh_jobs.view_all')) {
       return NextResponse.json({ error: 'Access denied' }, { status: 403 })
     }
 
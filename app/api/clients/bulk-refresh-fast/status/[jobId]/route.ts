@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 
 // Force dynamic rendering for this route since it uses session
 export const dynamic = 'force-dynamic'
@@ -37,10 +36,11 @@ export async function GET(
   { params }: { params: { jobId: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const { jobId } = params
     
@@ -55,8 +55,8 @@ export async function GET(
       }, { status: 404 })
     }
 
-    // Only allow the user who started the job or partners to check its status
-    if (job.userId !== session.user.id && session.user.role !== 'PARTNER') {
+    // Only allow the user who started the job, or users who can view all refresh jobs, to check its status
+    if (job.userId !== session.user.id && !auth.can('clients.refresh_jobs.view_all')) {
       return NextResponse.json({ error: 'Access denied' }, { status: 403 })
     }
 
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { logActivityEnhanced } from '@/lib/activity-middleware'
 import { z } from 'zod'
 
@@ -167,17 +166,11 @@ async function processBackgroundJob(
 export async function POST(request: NextRequest) {
   try {
     // Get session for authentication
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Only allow MANAGER and PARTNER roles to bulk refresh
-    if (session.user.role !== 'MANAGER' && session.user.role !== 'PARTNER') {
-      return NextResponse.json({ 
-        error: 'Insufficient permissions. Only managers and partners can bulk refresh Companies House data.' 
-      }, { status: 403 })
+    const auth = await authorize('clients.refresh')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     // Parse and validate request body
     const body = await request.json()
@@ -283,10 +276,11 @@ export async function POST(request: NextRequest) {
 // GET endpoint to check job status
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const { searchParams } = new URL(request.url)
     const jobId = searchParams.get('jobId')
@@ -301,7 +295,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Only allow the user who started the job to check its status
-    if (job.userId !== session.user.id && session.user.role !== 'PARTNER') {
+    if (job.userId !== session.user.id && !auth.can('clients.refresh_jobs.view_all')) {
       return NextResponse.json({ error: 'Access denied' }, { status: 403 })
     }
 
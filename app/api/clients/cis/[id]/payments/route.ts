@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { calculateCisDeduction, getCisDeductionRate } from '@/lib/cis-workflow'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const CisPaymentsSchema = z.object({
+  payments: z.array(z.object({
+    subcontractorId: z.string().min(1),
+    grossAmount: z.number().min(0),
+    materialsAmount: z.number().min(0).optional(),
+    // Defaults to the rate for the subcontractor's verification status
+    deductionRate: z.union([z.literal(0), z.literal(20), z.literal(30)]).optional(),
+    notes: z.string().max(500).nullable().optional(),
+  })).refine(
+    payments => new Set(payments.map(payment => payment.subcontractorId)).size === payments.length,
+    'Each subcontractor can only appear once per return'
+  ),
+})
+
+/**
+ * PUT /api/clients/cis/[id]/payments
+ * Replace the subcontractor payments recorded on a CIS return and recalculate the deductions
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const validatedData = CisPaymentsSchema.parse(body)
+
+    const cisReturn = await db.cisReturn.findUnique({
+      where: { id: params.id },
+      include: { client: true }
+    })
+
+    if (!cisReturn) {
+      return NextResponse.json({ error: 'CIS return not found' }, { status: 404 })
+    }
+
+    if (cisReturn.isCompleted) {
+      return NextResponse.json({ error: 'Reopen the return before changing its payments' }, { status: 400 })
+    }
+
+    const subcontractors = await db.cisSubcontractor.findMany({
+      where: {
+        id: { in: validatedData.payments.map(payment => payment.subcontractorId) },
+        clientId: cisReturn.clientId
+      }
+    })
+
+    if (subcontractors.length !== validatedData.payments.length) {
+      return NextResponse.json({ error: 'Subcontractor not found for this contractor' }, { status: 404 })
+    }
+
+    for (const payment of validatedData.payments) {
+      if ((payment.materialsAmount || 0) > payment.grossAmount) {
+        return NextResponse.json({ error: 'Materials cannot exceed the gross payment' }, { status: 400 })
+      }
+    }
+
+    const paymentData = validatedData.payments.map(payment => {
+      const subcontractor = subcontractors.find(sub => sub.id === payment.subcontractorId)
+      const materialsAmount = payment.materialsAmount || 0
+      const deductionRate = payment.deductionRate ?? getCisDeductionRate(subcontractor?.verificationStatus || 'UNVERIFIED')
+
+      return {
+        returnId: cisReturn.id,
+        subcontractorId: payment.subcontractorId,
+        grossAmount: payment.grossAmount,
+        materialsAmount,
+        deductionRate,
+        deductionAmount: calculateCisDeduction(payment.grossAmount, materialsAmount, deductionRate),
+        notes: payment.notes || null
+      }
+    })
+
+    const payments = await db.$transaction(async (tx) => {
+      await tx.cisPayment.deleteMany({ where: { returnId: cisReturn.id } })
+
+      if (paymentData.length > 0) {
+        await tx.cisPayment.createMany({ data: paymentData })
+
+        // Payments recorded means this is no longer a nil return
+        if (cisReturn.isNilReturn) {
+          await tx.cisReturn.update({
+            where: { id: cisReturn.id },
+            data: { isNilReturn: false }
+          })
+        }
+      }
+
+      return tx.cisPayment.findMany({
+        where: { returnId: cisReturn.id },
+        include: { subcontractor: true },
+        orderBy: { subcontractor: { name: 'asc' } }
+      })
+    })
+
+    const totalDeductions = paymentData.reduce((total, payment) => total + payment.deductionAmount, 0)
+
+    await logActivityEnhanced(request, {
+      action: 'CIS_PAYMENTS_UPDATED',
+      clientId: cisReturn.clientId,
+      details: {
+        companyName: cisReturn.client.companyName,
+        clientCode: cisReturn.client.clientCode,
+        workflowType: 'CIS',
+        taxYear: cisReturn.taxYear,
+        taxMonth: cisReturn.taxMonth,
+        paymentCount: paymentData.length,
+        totalDeductions
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: payments,
+      message: `Saved ${paymentData.length} subcontractor payments`
+    })
+
+  } catch (error) {
+    console.error('Error saving CIS payments:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to save CIS payments' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,321 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { CisReturnStage } from '@prisma/client'
+import { format } from 'date-fns'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { createNotification } from '@/lib/in-app-notifications'
+import {
+  getCisReturnMilestoneUpdate,
+  getCisReturnStageLabel,
+  isCisReturnComplete
+} from '@/lib/cis-workflow'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const UpdateCisReturnSchema = z.object({
+  currentStage: z.nativeEnum(CisReturnStage).optional(),
+  assignedUserId: z.string().nullable().optional(),
+  submissionReference: z.string().max(100).nullable().optional(),
+  isNilReturn: z.boolean().optional(),
+  notes: z.string().optional(),
+})
+
+/**
+ * GET /api/clients/cis/[id]
+ * CIS return (by return ID) with its subcontractor payments and stage history
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const cisReturn = await db.cisReturn.findUnique({
+      where: { id: params.id },
+      include: {
+        client: {
+          select: {
+            id: true,
+            clientCode: true,
+            companyName: true,
+          }
+        },
+        scheme: true,
+        payments: {
+          include: {
+            subcontractor: true
+          },
+          orderBy: { subcontractor: { name: 'asc' } }
+        },
+        assignedUser: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            role: true,
+          }
+        },
+        workflowHistory: {
+          orderBy: { stageChangedAt: 'desc' }
+        }
+      }
+    })
+
+    if (!cisReturn) {
+      return NextResponse.json({ error: 'CIS return not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: cisReturn
+    })
+
+  } catch (error) {
+    console.error('Error fetching CIS return:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch CIS return' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/clients/cis/[id]
+ * Update stage, assignment, submission reference or nil return flag of a CIS return
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const body = await request.json()
+    const validatedData = UpdateCisReturnSchema.parse(body)
+
+    const currentReturn = await db.cisReturn.findUnique({
+      where: { id: params.id },
+      include: {
+        client: true,
+        assignedUser: true,
+        _count: {
+          select: { payments: true }
+        }
+      }
+    })
+
+    if (!currentReturn) {
+      return NextResponse.json({ error: 'CIS return not found' }, { status: 404 })
+    }
+
+    const userName = session.user.name || session.user.email || 'Unknown'
+    const { client } = currentReturn
+    const periodLabel = `month ending ${format(currentReturn.periodEnd, 'dd/MM/yyyy')}`
+    const stageChanged = validatedData.currentStage !== undefined &&
+      validatedData.currentStage !== currentReturn.currentStage
+    const assignmentChanged = validatedData.assignedUserId !== undefined &&
+      validatedData.assignedUserId !== currentReturn.assignedUserId
+    const referenceChanged = validatedData.submissionReference !== undefined &&
+      validatedData.submissionReference !== currentReturn.submissionReference
+    const nilReturnChanged = validatedData.isNilReturn !== undefined &&
+      validatedData.isNilReturn !== currentReturn.isNilReturn
+
+    if (assignmentChanged && validatedData.assignedUserId) {
+      const assignee = await db.user.findUnique({
+        where: { id: validatedData.assignedUserId }
+      })
+      if (!assignee || !assignee.isActive) {
+        return NextResponse.json({ error: 'Assigned user not found' }, { status: 404 })
+      }
+    }
+
+    if (!stageChanged && !assignmentChanged && !referenceChanged && !nilReturnChanged) {
+      return NextResponse.json({ error: 'No changes provided' }, { status: 400 })
+    }
+
+    // A nil return tells HMRC no subcontractors were paid in the tax month
+    if (nilReturnChanged && validatedData.isNilReturn && currentReturn._count.payments > 0) {
+      return NextResponse.json({ error: 'Remove the recorded payments before marking this as a nil return' }, { status: 400 })
+    }
+
+    const newStage = validatedData.currentStage ?? currentReturn.currentStage
+    const updateData: Record<string, unknown> = {
+      isCompleted: isCisReturnComplete(newStage)
+    }
+
+    if (stageChanged) {
+      Object.assign(updateData, getCisReturnMilestoneUpdate(
+        newStage,
+        session.user.id,
+        userName,
+        currentReturn.currentStage
+      ))
+      updateData.currentStage = newStage
+    }
+
+    if (assignmentChanged) {
+      updateData.assignedUserId = validatedData.assignedUserId
+    }
+
+    if (referenceChanged) {
+      updateData.submissionReference = validatedData.submissionReference || null
+    }
+
+    if (nilReturnChanged) {
+      updateData.isNilReturn = validatedData.isNilReturn
+    }
+
+    const updatedReturn = await db.$transaction(async (tx) => {
+      const cisReturn = await tx.cisReturn.update({
+        where: { id: currentReturn.id },
+        data: updateData,
+        include: {
+          assignedUser: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              role: true,
+            }
+          }
+        }
+      })
+
+      // Reference and nil return edits are details, not workflow moves
+      if (stageChanged || assignmentChanged) {
+        const lastHistory = await tx.cisReturnHistory.findFirst({
+          where: { cisReturnId: currentReturn.id },
+          orderBy: { stageChangedAt: 'desc' }
+        })
+        const daysInPreviousStage = stageChanged
+          ? Math.floor((Date.now() - (lastHistory?.stageChangedAt || currentReturn.createdAt).getTime()) / (1000 * 60 * 60 * 24))
+          : null
+
+        await tx.cisReturnHistory.create({
+          data: {
+            cisReturnId: currentReturn.id,
+            fromStage: currentReturn.currentStage,
+            toStage: cisReturn.currentStage,
+            daysInPreviousStage,
+            userId: session.user.id,
+            userName,
+            userEmail: session.user.email || '',
+            userRole: session.user.role,
+            notes: validatedData.notes || (stageChanged
+              ? `Stage updated to ${getCisReturnStageLabel(cisReturn.currentStage)}`
+              : 'Assignment updated')
+          }
+        })
+      }
+
+      return cisReturn
+    })
+
+    if (stageChanged) {
+      await logActivityEnhanced(request, {
+        action: updatedReturn.isCompleted && !currentReturn.isCompleted
+          ? 'CIS_RETURN_SUBMITTED'
+          : currentReturn.isCompleted && !updatedReturn.isCompleted
+            ? 'CIS_RETURN_REOPENED'
+            : 'CIS_RETURN_STAGE_CHANGED',
+        clientId: client.id,
+        details: {
+          companyName: client.companyName,
+          clientCode: client.clientCode,
+          workflowType: 'CIS',
+          taxYear: currentReturn.taxYear,
+          taxMonth: currentReturn.taxMonth,
+          oldStage: currentReturn.currentStage,
+          newStage,
+          comments: validatedData.notes
+        }
+      })
+    }
+
+    if (assignmentChanged) {
+      const previousAssignee = currentReturn.assignedUser?.name || null
+
+      if (updatedReturn.assignedUser) {
+        await logActivityEnhanced(request, {
+          action: 'CIS_RETURN_ASSIGNED',
+          clientId: client.id,
+          details: {
+            companyName: client.companyName,
+            clientCode: client.clientCode,
+            workflowType: 'CIS',
+            assigneeId: updatedReturn.assignedUser.id,
+            assigneeName: updatedReturn.assignedUser.name,
+            previousAssignee,
+            taxYear: currentReturn.taxYear,
+            taxMonth: currentReturn.taxMonth
+          }
+        })
+
+        if (updatedReturn.assignedUser.id !== session.user.id) {
+          createNotification({
+            userId: updatedReturn.assignedUser.id,
+            category: 'ACCOUNTS',
+            type: 'CIS_RETURN_ASSIGNED',
+            title: 'CIS return assigned',
+            message: `${userName} assigned you the CIS300 return (${periodLabel}) for ${client.companyName}`,
+            clientId: client.id,
+            relatedId: currentReturn.id,
+            metadata: JSON.stringify({
+              workflowType: 'CIS',
+              taxYear: currentReturn.taxYear,
+              taxMonth: currentReturn.taxMonth,
+              dueDate: currentReturn.dueDate
+            })
+          }).catch(notificationError => {
+            console.error('❌ Failed to send CIS assignment notification:', notificationError)
+          })
+        }
+      } else {
+        await logActivityEnhanced(request, {
+          action: 'CIS_RETURN_UNASSIGNED',
+          clientId: client.id,
+          details: {
+            companyName: client.companyName,
+            clientCode: client.clientCode,
+            workflowType: 'CIS',
+            previousAssignee,
+            taxYear: currentReturn.taxYear,
+            taxMonth: currentReturn.taxMonth
+          }
+        })
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: updatedReturn,
+      message: 'CIS return updated successfully'
+    })
+
+  } catch (error) {
+    console.error('Error updating CIS return:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update CIS return' },
+      { status: 500 }
+    )
+  }
+}
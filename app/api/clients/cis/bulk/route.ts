@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { CisReturnStage } from '@prisma/client'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import {
+  getCisReturnMilestoneUpdate,
+  getCisReturnStageLabel,
+  isCisReturnComplete
+} from '@/lib/cis-workflow'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const BulkOperationSchema = z.discriminatedUnion('operation', [
+  z.object({
+    operation: z.literal('assign'),
+    returnIds: z.array(z.string()).min(1, 'No CIS return IDs provided'),
+    assignedUserId: z.string().min(1, 'No user ID provided for assignment'),
+  }),
+  z.object({
+    operation: z.literal('stage'),
+    returnIds: z.array(z.string()).min(1, 'No CIS return IDs provided'),
+    stage: z.nativeEnum(CisReturnStage),
+    notes: z.string().optional(),
+  }),
+])
+
+/**
+ * POST /api/clients/cis/bulk
+ * Bulk assign or move CIS returns to a stage
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize('workflow.bulk_update')
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const body = await request.json()
+    const validatedData = BulkOperationSchema.parse(body)
+    const userName = session.user.name || session.user.email || 'Unknown'
+
+    const returns = await db.cisReturn.findMany({
+      where: { id: { in: validatedData.returnIds } }
+    })
+
+    if (returns.length === 0) {
+      return NextResponse.json({ error: 'No CIS returns found' }, { status: 404 })
+    }
+
+    let assigneeName: string | null = null
+
+    if (validatedData.operation === 'assign') {
+      const user = await db.user.findUnique({
+        where: { id: validatedData.assignedUserId }
+      })
+
+      if (!user || !user.isActive) {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 })
+      }
+
+      assigneeName = user.name
+    }
+
+    const updateResults = await Promise.all(
+      returns.map(async (cisReturn) => {
+        try {
+          if (validatedData.operation === 'assign') {
+            if (cisReturn.assignedUserId === validatedData.assignedUserId) {
+              return { returnId: cisReturn.id, success: true }
+            }
+
+            await db.$transaction([
+              db.cisReturn.update({
+                where: { id: cisReturn.id },
+                data: { assignedUserId: validatedData.assignedUserId }
+              }),
+              db.cisReturnHistory.create({
+                data: {
+                  cisReturnId: cisReturn.id,
+                  fromStage: cisReturn.currentStage,
+                  toStage: cisReturn.currentStage,
+                  userId: session.user.id,
+                  userName,
+                  userEmail: session.user.email || '',
+                  userRole: session.user.role,
+                  notes: `Bulk assigned to ${assigneeName}`
+                }
+              })
+            ])
+          } else {
+            if (cisReturn.currentStage === validatedData.stage) {
+              return { returnId: cisReturn.id, success: true }
+            }
+
+            await db.$transaction([
+              db.cisReturn.update({
+                where: { id: cisReturn.id },
+                data: {
+                  currentStage: validatedData.stage,
+                  isCompleted: isCisReturnComplete(validatedData.stage),
+                  ...getCisReturnMilestoneUpdate(
+                    validatedData.stage,
+                    session.user.id,
+                    userName,
+                    cisReturn.currentStage
+                  )
+                }
+              }),
+              db.cisReturnHistory.create({
+                data: {
+                  cisReturnId: cisReturn.id,
+                  fromStage: cisReturn.currentStage,
+                  toStage: validatedData.stage,
+                  userId: session.user.id,
+                  userName,
+                  userEmail: session.user.email || '',
+                  userRole: session.user.role,
+                  notes: validatedData.notes || `Bulk stage update to ${getCisReturnStageLabel(validatedData.stage)}`
+                }
+              })
+            ])
+          }
+
+          return { returnId: cisReturn.id, success: true }
+        } catch (error) {
+          console.error(`Error updating CIS return ${cisReturn.id}:`, error)
+          return { returnId: cisReturn.id, success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+        }
+      })
+    )
+
+    const successfulUpdates = updateResults.filter(result => result.success)
+    const failedUpdates = updateResults.filter(result => !result.success)
+
+    await logActivityEnhanced(request, {
+      action: 'BULK_CIS_OPERATION',
+      details: {
+        operation: validatedData.operation,
+        returnCount: returns.length,
+        successful: successfulUpdates.length,
+        failed: failedUpdates.length,
+        assignedUserId: validatedData.operation === 'assign' ? validatedData.assignedUserId : null,
+        stage: validatedData.operation === 'stage' ? validatedData.stage : null,
+        performedBy: userName,
+        userRole: session.user.role
+      }
+    })
+
+    const message = validatedData.operation === 'assign'
+      ? `Successfully assigned ${successfulUpdates.length} CIS returns to ${assigneeName}`
+      : `Successfully moved ${successfulUpdates.length} CIS returns to ${getCisReturnStageLabel(validatedData.stage)}`
+
+    return NextResponse.json({
+      success: true,
+      message,
+      results: {
+        successful: successfulUpdates.length,
+        failed: failedUpdates.length,
+        details: updateResults
+      }
+    })
+
+  } catch (error) {
+    console.error('CIS bulk operations error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to perform bulk operation' },
+      { status: 500 }
+    )
+  }
+}
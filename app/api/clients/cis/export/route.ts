@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { format } from 'date-fns'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { CIS_BUSINESS_TYPE_LABELS, CIS_VERIFICATION_STATUS_CONFIG } from '@/lib/cis-workflow'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const escapeCsv = (value: string | number | null | undefined) => {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * GET /api/clients/cis/export?taxYear=2025-26&taxMonth=7[&clientId=...]
+ * CSV of a tax month's subcontractor payments and deductions, across all contractors or for one client
+ * Needs clients.export
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize('clients.export')
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const { searchParams } = new URL(request.url)
+    const taxYear = searchParams.get('taxYear')
+    const taxMonth = parseInt(searchParams.get('taxMonth') || '')
+    const clientId = searchParams.get('clientId')
+
+    if (!taxYear || !/^\d{4}-\d{2}$/.test(taxYear) || isNaN(taxMonth) || taxMonth < 1 || taxMonth > 12) {
+      return NextResponse.json({ error: 'A tax year (e.g. 2025-26) and tax month (1-12) are required' }, { status: 400 })
+    }
+
+    const payments = await db.cisPayment.findMany({
+      where: {
+        cisReturn: {
+          taxYear,
+          taxMonth,
+          ...(clientId ? { clientId } : {})
+        }
+      },
+      include: {
+        subcontractor: true,
+        cisReturn: {
+          include: {
+            client: {
+              select: {
+                clientCode: true,
+                companyName: true,
+              }
+            },
+            scheme: {
+              select: {
+                employerReference: true,
+              }
+            }
+          }
+        }
+      },
+      orderBy: [
+        { cisReturn: { client: { companyName: 'asc' } } },
+        { subcontractor: { name: 'asc' } }
+      ]
+    })
+
+    const headers = [
+      'Client Code',
+      'Contractor',
+      'Employer Reference',
+      'Tax Year',
+      'Tax Month',
+      'Period End',
+      'Subcontractor',
+      'Trading Name',
+      'Business Type',
+      'UTR',
+      'Verification Number',
+      'Verification Status',
+      'Gross Payment',
+      'Materials',
+      'Labour',
+      'Deduction Rate %',
+      'Deduction',
+      'Net Payment'
+    ]
+
+    const csvRows = [
+      headers.join(','),
+      ...payments.map(payment => {
+        const { cisReturn, subcontractor } = payment
+        const labour = Math.max(0, payment.grossAmount - payment.materialsAmount)
+
+        return [
+          cisReturn.client.clientCode,
+          cisReturn.client.companyName,
+          cisReturn.scheme.employerReference,
+          cisReturn.taxYear,
+          cisReturn.taxMonth,
+          format(cisReturn.periodEnd, 'yyyy-MM-dd'),
+          subcontractor.name,
+          subcontractor.tradingName,
+          CIS_BUSINESS_TYPE_LABELS[subcontractor.businessType],
+          subcontractor.utr,
+          subcontractor.verificationNumber,
+          CIS_VERIFICATION_STATUS_CONFIG[subcontractor.verificationStatus].label,
+          payment.grossAmount.toFixed(2),
+          payment.materialsAmount.toFixed(2),
+          labour.toFixed(2),
+          payment.deductionRate,
+          payment.deductionAmount.toFixed(2),
+          (payment.grossAmount - payment.deductionAmount).toFixed(2)
+        ].map(escapeCsv).join(',')
+      })
+    ]
+
+    const csvContent = csvRows.join('\n')
+    const filename = `cis-deductions-${taxYear}-month-${taxMonth}.csv`
+
+    await logActivityEnhanced(request, {
+      action: 'DATA_EXPORTED',
+      clientId: clientId || undefined,
+      details: {
+        message: `CIS deductions exported to CSV: ${payments.length} payments`,
+        exportedRecords: payments.length,
+        exportFormat: 'CSV',
+        workflowType: 'CIS',
+        taxYear,
+        taxMonth,
+        exportedBy: session.user.name || session.user.email || 'Unknown User',
+        exportedByRole: session.user.role,
+        filename
+      }
+    })
+
+    return new NextResponse(csvContent, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    })
+
+  } catch (error) {
+    console.error('Error exporting CIS deductions:', error)
+    return NextResponse.json(
+      { error: 'Failed to export CIS deductions' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { generateAllCisReturns } from '@/lib/cis-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/clients/cis
+ * CIS300 monthly returns of contractor clients: outstanding returns plus anything submitted in the last 30 days
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const { searchParams } = new URL(request.url)
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '50')
+    const skip = (page - 1) * limit
+
+    const assignedFilter = searchParams.get('assignedFilter') // 'assigned_to_me', 'all'
+    const workflowStageFilter = searchParams.get('workflowStageFilter') || 'all'
+    const searchTerm = searchParams.get('searchTerm') || ''
+    const sortOrder = searchParams.get('sortOrder') === 'desc' ? 'desc' : 'asc'
+
+    // Top up returns for every active scheme before listing them
+    await generateAllCisReturns()
+
+    const whereClause: any = {
+      client: {
+        isActive: true,
+      },
+      scheme: {
+        isActive: true,
+      },
+      OR: [
+        { isCompleted: false },
+        {
+          isCompleted: true,
+          updatedAt: {
+            gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
+          }
+        }
+      ]
+    }
+
+    if (assignedFilter === 'assigned_to_me') {
+      whereClause.assignedUserId = session.user.id
+    }
+
+    if (workflowStageFilter === 'not_started') {
+      whereClause.currentStage = 'WAITING_FOR_DATA'
+    } else if (workflowStageFilter === 'completed') {
+      whereClause.isCompleted = true
+    } else if (workflowStageFilter !== 'all') {
+      whereClause.currentStage = workflowStageFilter
+    }
+
+    if (searchTerm) {
+      whereClause.AND = [{
+        OR: [
+          { client: { clientCode: { contains: searchTerm, mode: 'insensitive' } } },
+          { client: { companyName: { contains: searchTerm, mode: 'insensitive' } } },
+          { scheme: { employerReference: { contains: searchTerm, mode: 'insensitive' } } }
+        ]
+      }]
+    }
+
+    const [totalCount, returns] = await Promise.all([
+      db.cisReturn.count({ where: whereClause }),
+      db.cisReturn.findMany({
+        where: whereClause,
+        include: {
+          client: {
+            select: {
+              id: true,
+              clientCode: true,
+              companyName: true,
+              companyType: true,
+              contactName: true,
+              contactEmail: true,
+            }
+          },
+          scheme: {
+            select: {
+              id: true,
+              employerReference: true,
+              accountsOfficeReference: true,
+            }
+          },
+          assignedUser: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              role: true,
+            }
+          },
+          payments: {
+            select: {
+              grossAmount: true,
+              materialsAmount: true,
+              deductionAmount: true,
+            }
+          }
+        },
+        orderBy: [
+          { isCompleted: 'asc' },
+          { dueDate: sortOrder }
+        ],
+        skip,
+        take: limit,
+      })
+    ])
+
+    return NextResponse.json({
+      success: true,
+      returns: returns.map(({ payments, ...cisReturn }) => ({
+        ...cisReturn,
+        totals: {
+          paymentCount: payments.length,
+          grossAmount: payments.reduce((total, payment) => total + payment.grossAmount, 0),
+          materialsAmount: payments.reduce((total, payment) => total + payment.materialsAmount, 0),
+          deductionAmount: payments.reduce((total, payment) => total + payment.deductionAmount, 0)
+        }
+      })),
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(totalCount / limit),
+        totalCount: totalCount,
+        pageSize: limit
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching CIS returns:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch CIS returns' },
+      { status: 500 }
+    )
+  }
+}
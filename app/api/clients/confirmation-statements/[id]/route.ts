@@ -0,0 +1,286 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { ConfirmationStatementWorkflowStage } from '@prisma/client'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { createNotification } from '@/lib/in-app-notifications'
+import {
+  CS_COMPLETED_STAGES,
+  getConfirmationStatementMilestoneUpdate,
+  getConfirmationStatementStageLabel
+} from '@/lib/confirmation-statement-workflow'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const UpdateWorkflowSchema = z.object({
+  currentStage: z.nativeEnum(ConfirmationStatementWorkflowStage).optional(),
+  assignedUserId: z.string().nullable().optional(),
+  notes: z.string().optional(),
+})
+
+/**
+ * GET /api/clients/confirmation-statements/[id]
+ * Confirmation statement workflow (by workflow ID) with its stage history
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const workflow = await db.confirmationStatementWorkflow.findUnique({
+      where: { id: params.id },
+      include: {
+        client: {
+          select: {
+            id: true,
+            clientCode: true,
+            companyName: true,
+            companyNumber: true,
+          }
+        },
+        assignedUser: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            role: true,
+          }
+        },
+        workflowHistory: {
+          orderBy: { stageChangedAt: 'desc' }
+        }
+      }
+    })
+
+    if (!workflow) {
+      return NextResponse.json({ error: 'Confirmation statement workflow not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: workflow
+    })
+
+  } catch (error) {
+    console.error('Error fetching confirmation statement workflow:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch confirmation statement workflow' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/clients/confirmation-statements/[id]
+ * Update stage and/or assignment of a confirmation statement workflow
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const body = await request.json()
+    const validatedData = UpdateWorkflowSchema.parse(body)
+
+    const currentWorkflow = await db.confirmationStatementWorkflow.findUnique({
+      where: { id: params.id },
+      include: {
+        client: true,
+        assignedUser: true,
+      }
+    })
+
+    if (!currentWorkflow) {
+      return NextResponse.json({ error: 'Confirmation statement workflow not found' }, { status: 404 })
+    }
+
+    const userName = session.user.name || session.user.email || 'Unknown'
+    const { client } = currentWorkflow
+    const statementPeriod = currentWorkflow.statementDate.toLocaleDateString('en-GB')
+    const stageChanged = validatedData.currentStage !== undefined &&
+      validatedData.currentStage !== currentWorkflow.currentStage
+    const assignmentChanged = validatedData.assignedUserId !== undefined &&
+      validatedData.assignedUserId !== currentWorkflow.assignedUserId
+
+    if (assignmentChanged && validatedData.assignedUserId) {
+      const assignee = await db.user.findUnique({
+        where: { id: validatedData.assignedUserId }
+      })
+      if (!assignee || !assignee.isActive) {
+        return NextResponse.json({ error: 'Assigned user not found' }, { status: 404 })
+      }
+    }
+
+    const updateData: Record<string, unknown> = {}
+
+    if (stageChanged && validatedData.currentStage) {
+      Object.assign(updateData, getConfirmationStatementMilestoneUpdate(
+        validatedData.currentStage,
+        session.user.id,
+        userName,
+        currentWorkflow.currentStage
+      ))
+      updateData.currentStage = validatedData.currentStage
+      updateData.isCompleted = CS_COMPLETED_STAGES.includes(validatedData.currentStage)
+    }
+
+    if (assignmentChanged) {
+      updateData.assignedUserId = validatedData.assignedUserId
+    }
+
+    if (!stageChanged && !assignmentChanged) {
+      return NextResponse.json({ error: 'No changes provided' }, { status: 400 })
+    }
+
+    const updatedWorkflow = await db.$transaction(async (tx) => {
+      const workflow = await tx.confirmationStatementWorkflow.update({
+        where: { id: currentWorkflow.id },
+        data: updateData,
+        include: {
+          assignedUser: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              role: true,
+            }
+          }
+        }
+      })
+
+      const lastHistory = await tx.confirmationStatementWorkflowHistory.findFirst({
+        where: { confirmationStatementWorkflowId: currentWorkflow.id },
+        orderBy: { stageChangedAt: 'desc' }
+      })
+      const daysInPreviousStage = stageChanged
+        ? Math.floor((Date.now() - (lastHistory?.stageChangedAt || currentWorkflow.createdAt).getTime()) / (1000 * 60 * 60 * 24))
+        : null
+
+      await tx.confirmationStatementWorkflowHistory.create({
+        data: {
+          confirmationStatementWorkflowId: currentWorkflow.id,
+          fromStage: currentWorkflow.currentStage,
+          toStage: workflow.currentStage,
+          daysInPreviousStage,
+          userId: session.user.id,
+          userName,
+          userEmail: session.user.email || '',
+          userRole: session.user.role,
+          notes: validatedData.notes || (stageChanged
+            ? `Stage updated to ${getConfirmationStatementStageLabel(workflow.currentStage)}`
+            : 'Assignment updated')
+        }
+      })
+
+      return workflow
+    })
+
+    if (stageChanged && validatedData.currentStage) {
+      const wasCompleted = CS_COMPLETED_STAGES.includes(currentWorkflow.currentStage)
+      const isCompleted = CS_COMPLETED_STAGES.includes(validatedData.currentStage)
+
+      await logActivityEnhanced(request, {
+        action: isCompleted
+          ? 'CONFIRMATION_STATEMENT_FILED'
+          : wasCompleted
+            ? 'CONFIRMATION_STATEMENT_FILING_UNDONE'
+            : 'CONFIRMATION_STATEMENT_WORKFLOW_STAGE_CHANGED',
+        clientId: client.id,
+        details: {
+          companyName: client.companyName,
+          clientCode: client.clientCode,
+          workflowType: 'CONFIRMATION_STATEMENT',
+          oldStage: currentWorkflow.currentStage,
+          newStage: validatedData.currentStage,
+          statementDate: currentWorkflow.statementDate,
+          filingDueDate: currentWorkflow.filingDueDate,
+          comments: validatedData.notes
+        }
+      })
+    }
+
+    if (assignmentChanged) {
+      const previousAssignee = currentWorkflow.assignedUser?.name || null
+
+      if (updatedWorkflow.assignedUser) {
+        await logActivityEnhanced(request, {
+          action: 'CONFIRMATION_STATEMENT_WORKFLOW_ASSIGNED',
+          clientId: client.id,
+          details: {
+            companyName: client.companyName,
+            clientCode: client.clientCode,
+            workflowType: 'CONFIRMATION_STATEMENT',
+            assigneeId: updatedWorkflow.assignedUser.id,
+            assigneeName: updatedWorkflow.assignedUser.name,
+            previousAssignee,
+            statementDate: currentWorkflow.statementDate
+          }
+        })
+
+        if (updatedWorkflow.assignedUser.id !== session.user.id) {
+          createNotification({
+            userId: updatedWorkflow.assignedUser.id,
+            category: 'ACCOUNTS',
+            type: 'CONFIRMATION_STATEMENT_ASSIGNED',
+            title: 'Confirmation statement assigned',
+            message: `${userName} assigned you the confirmation statement for ${client.companyName} (statement date ${statementPeriod})`,
+            clientId: client.id,
+            relatedId: currentWorkflow.id,
+            metadata: JSON.stringify({
+              workflowType: 'CONFIRMATION_STATEMENT',
+              filingDueDate: currentWorkflow.filingDueDate
+            })
+          }).catch(notificationError => {
+            console.error('❌ Failed to send confirmation statement assignment notification:', notificationError)
+          })
+        }
+      } else {
+        await logActivityEnhanced(request, {
+          action: 'CONFIRMATION_STATEMENT_WORKFLOW_UNASSIGNED',
+          clientId: client.id,
+          details: {
+            companyName: client.companyName,
+            clientCode: client.clientCode,
+            workflowType: 'CONFIRMATION_STATEMENT',
+            previousAssignee,
+            statementDate: currentWorkflow.statementDate
+          }
+        })
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: updatedWorkflow,
+      message: 'Confirmation statement workflow updated successfully'
+    })
+
+  } catch (error) {
+    console.error('Error updating confirmation statement workflow:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update confirmation statement workflow' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { ConfirmationStatementWorkflowStage } from '@prisma/client'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import {
+  CS_COMPLETED_STAGES,
+  getConfirmationStatementMilestoneUpdate,
+  getConfirmationStatementStageLabel
+} from '@/lib/confirmation-statement-workflow'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const BulkOperationSchema = z.discriminatedUnion('operation', [
+  z.object({
+    operation: z.literal('assign'),
+    workflowIds: z.array(z.string()).min(1, 'No workflow IDs provided'),
+    assignedUserId: z.string().min(1, 'No user ID provided for assignment'),
+  }),
+  z.object({
+    operation: z.literal('stage'),
+    workflowIds: z.array(z.string()).min(1, 'No workflow IDs provided'),
+    stage: z.nativeEnum(ConfirmationStatementWorkflowStage),
+    notes: z.string().optional(),
+  }),
+])
+
+/**
+ * POST /api/clients/confirmation-statements/bulk
+ * Bulk assign or move confirmation statement workflows to a stage
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize('workflow.bulk_update')
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const body = await request.json()
+    const validatedData = BulkOperationSchema.parse(body)
+    const userName = session.user.name || session.user.email || 'Unknown'
+
+    const workflows = await db.confirmationStatementWorkflow.findMany({
+      where: { id: { in: validatedData.workflowIds } }
+    })
+
+    if (workflows.length === 0) {
+      return NextResponse.json({ error: 'No confirmation statement workflows found' }, { status: 404 })
+    }
+
+    let assigneeName: string | null = null
+
+    if (validatedData.operation === 'assign') {
+      const user = await db.user.findUnique({
+        where: { id: validatedData.assignedUserId }
+      })
+
+      if (!user || !user.isActive) {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 })
+      }
+
+      assigneeName = user.name
+    }
+
+    const updateResults = await Promise.all(
+      workflows.map(async (workflow) => {
+        try {
+          if (validatedData.operation === 'assign') {
+            if (workflow.assignedUserId === validatedData.assignedUserId) {
+              return { workflowId: workflow.id, success: true }
+            }
+
+            await db.$transaction([
+              db.confirmationStatementWorkflow.update({
+                where: { id: workflow.id },
+                data: { assignedUserId: validatedData.assignedUserId }
+              }),
+              db.confirmationStatementWorkflowHistory.create({
+                data: {
+                  confirmationStatementWorkflowId: workflow.id,
+                  fromStage: workflow.currentStage,
+                  toStage: workflow.currentStage,
+                  userId: session.user.id,
+                  userName,
+                  userEmail: session.user.email || '',
+                  userRole: session.user.role,
+                  notes: `Bulk assigned to ${assigneeName}`
+                }
+              })
+            ])
+          } else {
+            if (workflow.currentStage === validatedData.stage) {
+              return { workflowId: workflow.id, success: true }
+            }
+
+            await db.$transaction([
+              db.confirmationStatementWorkflow.update({
+                where: { id: workflow.id },
+                data: {
+                  currentStage: validatedData.stage,
+                  isCompleted: CS_COMPLETED_STAGES.includes(validatedData.stage),
+                  ...getConfirmationStatementMilestoneUpdate(
+                    validatedData.stage,
+                    session.user.id,
+                    userName,
+                    workflow.currentStage
+                  )
+                }
+              }),
+              db.confirmationStatementWorkflowHistory.create({
+                data: {
+                  confirmationStatementWorkflowId: workflow.id,
+                  fromStage: workflow.currentStage,
+                  toStage: validatedData.stage,
+                  userId: session.user.id,
+                  userName,
+                  userEmail: session.user.email || '',
+                  userRole: session.user.role,
+                  notes: validatedData.notes || `Bulk stage update to ${getConfirmationStatementStageLabel(validatedData.stage)}`
+                }
+              })
+            ])
+          }
+
+          return { workflowId: workflow.id, success: true }
+        } catch (error) {
+          console.error(`Error updating confirmation statement workflow ${workflow.id}:`, error)
+          return { workflowId: workflow.id, success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+        }
+      })
+    )
+
+    const successfulUpdates = updateResults.filter(result => result.success)
+    const failedUpdates = updateResults.filter(result => !result.success)
+
+    await logActivityEnhanced(request, {
+      action: 'BULK_CONFIRMATION_STATEMENT_OPERATION',
+      details: {
+        operation: validatedData.operation,
+        workflowCount: workflows.length,
+        successful: successfulUpdates.length,
+        failed: failedUpdates.length,
+        assignedUserId: validatedData.operation === 'assign' ? validatedData.assignedUserId : null,
+        stage: validatedData.operation === 'stage' ? validatedData.stage : null,
+        performedBy: userName,
+        userRole: session.user.role
+      }
+    })
+
+    const message = validatedData.operation === 'assign'
+      ? `Successfully assigned ${successfulUpdates.length} confirmation statements to ${assigneeName}`
+      : `Successfully moved ${successfulUpdates.length} confirmation statements to ${getConfirmationStatementStageLabel(validatedData.stage)}`
+
+    return NextResponse.json({
+      success: true,
+      message,
+      results: {
+        successful: successfulUpdates.length,
+        failed: failedUpdates.length,
+        details: updateResults
+      }
+    })
+
+  } catch (error) {
+    console.error('Confirmation statement bulk operations error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to perform bulk operation' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,235 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import {
+  calculateStatementDate,
+  getInitialConfirmationStatementStage
+} from '@/lib/confirmation-statement-workflow'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const workflowSelect = {
+  id: true,
+  statementDate: true,
+  filingDueDate: true,
+  currentStage: true,
+  isCompleted: true,
+  assignedUser: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      role: true,
+    }
+  },
+  reviewStartedDate: true,
+  reviewStartedByUserName: true,
+  confirmationRequestedDate: true,
+  confirmationRequestedByUserName: true,
+  clientConfirmedDate: true,
+  clientConfirmedByUserName: true,
+  changesFiledDate: true,
+  changesFiledByUserName: true,
+  filedDate: true,
+  filedByUserName: true,
+  clientSelfFilingDate: true,
+  clientSelfFilingByUserName: true,
+} as const
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const { searchParams } = new URL(request.url)
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '50')
+    const skip = (page - 1) * limit
+
+    const assignedFilter = searchParams.get('assignedFilter') // 'assigned_to_me', 'all'
+    const workflowStageFilter = searchParams.get('workflowStageFilter') || 'all'
+    const searchTerm = searchParams.get('searchTerm') || ''
+    const sortField = searchParams.get('sortField') || 'filingDue'
+    const sortOrder = searchParams.get('sortOrder') || 'asc'
+
+    // Confirmation statements only apply to Ltd companies that Companies House has given a due date
+    const whereClause: any = {
+      companyType: 'LIMITED_COMPANY',
+      isActive: true,
+      nextConfirmationDue: { not: null },
+    }
+
+    if (assignedFilter === 'assigned_to_me') {
+      whereClause.confirmationStatementWorkflows = {
+        some: {
+          assignedUserId: session.user.id,
+          isCompleted: false
+        }
+      }
+    }
+
+    if (searchTerm) {
+      whereClause.OR = [
+        { clientCode: { contains: searchTerm, mode: 'insensitive' } },
+        { companyName: { contains: searchTerm, mode: 'insensitive' } },
+        { companyNumber: { contains: searchTerm, mode: 'insensitive' } },
+        { contactName: { contains: searchTerm, mode: 'insensitive' } }
+      ]
+    }
+
+    const totalCount = await db.client.count({
+      where: whereClause
+    })
+
+    const clients = await db.client.findMany({
+      where: whereClause,
+      select: {
+        id: true,
+        clientCode: true,
+        companyName: true,
+        companyNumber: true,
+        contactName: true,
+        contactEmail: true,
+        nextConfirmationDue: true,
+        lastConfirmationMadeUpTo: true,
+
+        ltdCompanyAssignedUser: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            role: true,
+          }
+        },
+        assignedUser: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            role: true,
+          }
+        },
+
+        // Most relevant workflow: outstanding statements first, then anything filed in the last 30 days
+        confirmationStatementWorkflows: {
+          where: {
+            OR: [
+              { isCompleted: false },
+              {
+                isCompleted: true,
+                updatedAt: {
+                  gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
+                }
+              }
+            ]
+          },
+          orderBy: [
+            { isCompleted: 'asc' },
+            { statementDate: 'asc' }
+          ],
+          take: 1,
+          select: workflowSelect
+        }
+      },
+      skip,
+      take: limit,
+      orderBy: getSortOrder(sortField, sortOrder),
+    })
+
+    const processedClients = await Promise.all(
+      clients.map(async (client) => {
+        const existingWorkflow = client.confirmationStatementWorkflows[0]
+        const nextConfirmationDue = client.nextConfirmationDue as Date
+
+        // Create the workflow for the period Companies House currently expects, unless an
+        // outstanding one exists or the one shown already covers that period
+        const hasCurrentPeriod = !!existingWorkflow && (
+          !existingWorkflow.isCompleted ||
+          existingWorkflow.filingDueDate.getTime() >= nextConfirmationDue.getTime()
+        )
+
+        const statementDate = calculateStatementDate(nextConfirmationDue)
+        const currentWorkflow = existingWorkflow && hasCurrentPeriod
+          ? existingWorkflow
+          : await db.confirmationStatementWorkflow.upsert({
+              where: {
+                clientId_statementDate: {
+                  clientId: client.id,
+                  statementDate
+                }
+              },
+              update: {},
+              create: {
+                clientId: client.id,
+                statementDate,
+                filingDueDate: nextConfirmationDue,
+                currentStage: getInitialConfirmationStatementStage(statementDate),
+                assignedUserId: client.ltdCompanyAssignedUser?.id || null,
+                isCompleted: false,
+              },
+              select: workflowSelect
+            })
+
+        if (workflowStageFilter !== 'all') {
+          if (workflowStageFilter === 'not_started' && currentWorkflow.currentStage !== 'WAITING_FOR_STATEMENT_DATE') {
+            return null
+          }
+          if (workflowStageFilter === 'completed' && !currentWorkflow.isCompleted) {
+            return null
+          }
+          if (workflowStageFilter !== 'not_started' && workflowStageFilter !== 'completed' &&
+              currentWorkflow.currentStage !== workflowStageFilter) {
+            return null
+          }
+        }
+
+        const { confirmationStatementWorkflows, ...clientData } = client
+
+        return {
+          ...clientData,
+          currentConfirmationStatementWorkflow: currentWorkflow
+        }
+      })
+    )
+
+    const filteredClients = processedClients.filter(client => client !== null)
+
+    return NextResponse.json({
+      success: true,
+      clients: filteredClients,
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(totalCount / limit),
+        totalCount: totalCount,
+        pageSize: limit
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching confirmation statements:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch confirmation statements' },
+      { status: 500 }
+    )
+  }
+}
+
+// Helper function to get sort order
+function getSortOrder(sortField: string, sortOrder: string) {
+  const order = (sortOrder === 'desc' ? 'desc' : 'asc') as 'asc' | 'desc'
+
+  switch (sortField) {
+    case 'clientCode':
+      return { clientCode: order }
+    case 'companyName':
+      return { companyName: order }
+    case 'filingDue':
+      return { nextConfirmationDue: order }
+    default:
+      return { nextConfirmationDue: 'asc' as const }
+  }
+}
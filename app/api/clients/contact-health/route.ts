@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { getContactHealthReport } from '@/lib/email-suppression-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/clients/contact-health
+ * Active clients whose contact email is on the suppression list and needs fixing
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize('clients.contact_health')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const rows = await getContactHealthReport()
+
+    return NextResponse.json({
+      success: true,
+      data: { rows }
+    })
+  } catch (error) {
+    console.error('Error fetching contact health report:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch contact health report' },
+      { status: 500 }
+    )
+  }
+}
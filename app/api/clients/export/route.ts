@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { logActivityEnhanced } from '@/lib/activity-middleware'
 
@@ -10,16 +9,11 @@ export const revalidate = 0
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Only PARTNER can export data
-    if (session.user.role !== 'PARTNER') {
-      return NextResponse.json({ error: 'Access denied. Only Partners can export data.' }, { status: 403 })
+    const auth = await authorize('clients.export')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     // Get search params
     const { searchParams } = new URL(request.url)
@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
 import { z } from 'zod'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { getCompanyDetails } from '@/lib/companies-house'
+import { ensureCurrentCTWorkflow } from '@/lib/ct-workflow'
 
 // Force dynamic rendering for this route since it uses session
 export const dynamic = 'force-dynamic'
@@ -19,10 +19,11 @@ export async function POST(
 ) {
   try {
     // Authentication check
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     // Parse request body
     const body = await request.json()
@@ -161,6 +162,8 @@ export async function POST(
 
             console.log('✅ Updated client with new Companies House dates')
 
+            await ensureCurrentCTWorkflow(workflow.client.id)
+
             // Create new workflow for next year if we have the required dates
             if (newYearEnd && newAccountsDue) {
               // Calculate filing period start (day after previous year end)
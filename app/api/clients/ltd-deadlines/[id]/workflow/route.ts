@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize, permissionDeniedResponse } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { z } from 'zod'
 import { LtdAccountsWorkflowStage } from '@prisma/client'
 import { logActivityEnhanced, ActivityHelpers } from '@/lib/activity-middleware'
 import { workflowNotificationService } from '@/lib/workflow-notifications'
 import { AssignmentNotificationService } from '@/lib/assignment-notifications'
+import { generateDocumentPackForStage } from '@/lib/document-pack-service'
+import { getLeaveWarning } from '@/lib/staff-leave-service'
+import { requiresPartnerReview } from '@/lib/permissions'
+import { LTD_WORKFLOW_STAGE_ORDER } from '@/lib/workflow-validation'
 
 // Force dynamic rendering for this route since it uses session
 export const dynamic = 'force-dynamic'
@@ -22,10 +25,11 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const clientId = params.id
     const body = await request.json()
@@ -64,6 +68,13 @@ export async function PUT(
     const currentWorkflow = client.ltdAccountsWorkflows[0]
     let workflow
 
+    // Moving a workflow on from partner review needs the partner review permission
+    if (stage &&
+        requiresPartnerReview(LTD_WORKFLOW_STAGE_ORDER, currentWorkflow?.currentStage || null, stage) &&
+        !auth.can('workflow.advance.partner_review')) {
+      return permissionDeniedResponse('workflow.advance.partner_review')
+    }
+
     // Check if workflow is already completed (allow undo operations)
     if (currentWorkflow?.isCompleted) {
       const isUndoOperation = stage && stage !== 'FILED_CH_HMRC'
@@ -302,6 +313,14 @@ export async function PUT(
       })
     }
 
+    // 📄 Generate the approval pack so it is ready to attach when the client is emailed
+    if (stage && stage !== currentWorkflow?.currentStage) {
+      await generateDocumentPackForStage('LTD', workflow.id, stage).catch(packError => {
+        console.error('❌ Failed to generate accounts approval pack:', packError)
+        // Staff can regenerate it from the send email modal
+      })
+    }
+
     // 📧 Send workflow stage change notifications (only if stage was updated)
     // Run notifications asynchronously to not block the response
     if (stage) {
@@ -351,6 +370,11 @@ export async function PUT(
       })
     }
 
+    // ⚠️ Warn when the new assignee is away on the due date
+    const leaveWarning = assignedUserId !== undefined && assignedUserId !== currentWorkflow?.assignedUserId
+      ? await getLeaveWarning(assignedUserId, workflow.accountsDueDate)
+      : null
+
     return NextResponse.json({ 
       success: true, 
       workflow: {
@@ -358,7 +382,8 @@ export async function PUT(
         currentStage: workflow.currentStage,
         assignedUser: workflow.assignedUser,
         isCompleted: workflow.isCompleted
-      }
+      },
+      warning: leaveWarning
     })
 
   } catch (error) {
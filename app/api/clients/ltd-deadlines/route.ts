@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
+import { getNextChaseDueMap } from '@/lib/chase-sequences'
 
 // Force dynamic rendering for this route since it uses session
 export const dynamic = 'force-dynamic'
@@ -9,10 +9,11 @@ export const dynamic = 'force-dynamic'
 export async function GET(request: NextRequest) {
   try {
     // Get session for authentication
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     // Extract query parameters for pagination and filtering
     const { searchParams } = new URL(request.url)
@@ -151,6 +152,12 @@ export async function GET(request: NextRequest) {
       take: limit
     })
 
+    // Next automated chase for workflows waiting on paperwork
+    const nextChaseMap = await getNextChaseDueMap(
+      'LTD',
+      clients.flatMap(client => client.ltdAccountsWorkflows)
+    )
+
     // PERFORMANCE: Lightweight data transformation (removed heavy conversions)
     const transformedClients = clients.map(client => ({
       id: client.id,
@@ -199,6 +206,7 @@ export async function GET(request: NextRequest) {
         partnerApprovedDate: client.ltdAccountsWorkflows[0].partnerApprovedDate?.toISOString(),
         partnerApprovedByUserName: client.ltdAccountsWorkflows[0].partnerApprovedByUserName,
         filedByUserName: client.ltdAccountsWorkflows[0].filedByUserName,
+        nextChase: nextChaseMap.get(client.ltdAccountsWorkflows[0].id) || null,
       } : null
     }))
 
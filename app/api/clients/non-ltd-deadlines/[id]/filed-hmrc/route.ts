@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { logActivityEnhanced } from '@/lib/activity-middleware'
 import { calculateNonLtdYearEnd, calculateNonLtdFilingDue } from '@/lib/non-ltd-workflow-utils'
@@ -17,15 +16,11 @@ export async function POST(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Check if user has permission to file to HMRC
-    if (session.user.role !== 'MANAGER' && session.user.role !== 'PARTNER') {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    const auth = await authorize('workflow.filing.manage')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const body = await request.json()
     const validatedData = FiledHMRCSchema.parse(body)
@@ -1,14 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
 import { db } from '@/lib/db'
 import { getNextNonLtdStages } from '@/lib/non-ltd-workflow-utils'
 import { NonLtdAccountsWorkflowStage } from '@prisma/client'
 import { logActivityEnhanced } from '@/lib/activity-middleware'
 import { workflowNotificationService } from '@/lib/workflow-notifications'
 import { AssignmentNotificationService } from '@/lib/assignment-notifications'
-import { validateStageTransition } from '@/lib/workflow-validation'
+import { generateDocumentPackForStage } from '@/lib/document-pack-service'
+import { getLeaveWarning } from '@/lib/staff-leave-service'
+import { validateStageTransition, NON_LTD_WORKFLOW_STAGE_ORDER } from '@/lib/workflow-validation'
+import { authorize, permissionDeniedResponse } from '@/lib/permission-service'
+import { requiresPartnerReview } from '@/lib/permissions'
 
 const UpdateWorkflowSchema = z.object({
   currentStage: z.nativeEnum(NonLtdAccountsWorkflowStage).optional(), // FIXED: Make stage optional
@@ -22,15 +24,11 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Check if user has permission to update workflows
-    if (session.user.role !== 'MANAGER' && session.user.role !== 'PARTNER') {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    const auth = await authorize('workflow.advance.non_ltd')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const body = await request.json()
     const validatedData = UpdateWorkflowSchema.parse(body)
@@ -76,6 +74,13 @@ export async function PUT(
       }
     }
 
+    // Moving a workflow on from partner review needs the partner review permission
+    if (validatedData.currentStage &&
+        requiresPartnerReview(NON_LTD_WORKFLOW_STAGE_ORDER, currentWorkflow.currentStage, validatedData.currentStage) &&
+        !auth.can('workflow.advance.partner_review')) {
+      return permissionDeniedResponse('workflow.advance.partner_review')
+    }
+
     // Update workflow stage (only if provided)
     if (validatedData.currentStage) {
       // Get milestone update data with backward movement support
@@ -414,6 +419,14 @@ export async function PUT(
       }
     }
 
+    // 📄 Generate the approval pack so it is ready to attach when the client is emailed
+    if (validatedData.currentStage && validatedData.currentStage !== currentWorkflow.currentStage) {
+      await generateDocumentPackForStage('NON_LTD', currentWorkflow.id, validatedData.currentStage).catch(packError => {
+        console.error('❌ Failed to generate accounts approval pack:', packError)
+        // Staff can regenerate it from the send email modal
+      })
+    }
+
     // 📧 Send workflow stage change notifications (only if stage was updated)
     // Run notifications asynchronously to not block the response
     if (validatedData.currentStage) {
@@ -463,10 +476,16 @@ export async function PUT(
       })
     }
 
+    // ⚠️ Warn when the new assignee is away on the due date
+    const leaveWarning = validatedData.assignedUserId !== undefined && validatedData.assignedUserId !== currentWorkflow.assignedUserId
+      ? await getLeaveWarning(validatedData.assignedUserId, currentWorkflow.filingDueDate)
+      : null
+
     return NextResponse.json({
       success: true,
       data: finalWorkflow,
-      message: 'Workflow updated successfully'
+      message: 'Workflow updated successfully',
+      warning: leaveWarning
     })
 
   } catch (error) {
@@ -490,9 +509,9 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const clientId = params.id
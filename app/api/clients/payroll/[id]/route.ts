@@ -0,0 +1,306 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { PayrollRunStage } from '@prisma/client'
+import { format } from 'date-fns'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { createNotification } from '@/lib/in-app-notifications'
+import {
+  getPayrollRunMilestoneUpdate,
+  getPayrollRunStageLabel,
+  isPayrollRunComplete
+} from '@/lib/payroll-workflow'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const UpdatePayrollRunSchema = z.object({
+  currentStage: z.nativeEnum(PayrollRunStage).optional(),
+  assignedUserId: z.string().nullable().optional(),
+  fpsSubmissionReference: z.string().max(100).nullable().optional(),
+  epsRequired: z.boolean().optional(),
+  notes: z.string().optional(),
+})
+
+/**
+ * GET /api/clients/payroll/[id]
+ * Payroll run (by run ID) with its stage history
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const run = await db.payrollRun.findUnique({
+      where: { id: params.id },
+      include: {
+        client: {
+          select: {
+            id: true,
+            clientCode: true,
+            companyName: true,
+          }
+        },
+        schedule: true,
+        assignedUser: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            role: true,
+          }
+        },
+        workflowHistory: {
+          orderBy: { stageChangedAt: 'desc' }
+        }
+      }
+    })
+
+    if (!run) {
+      return NextResponse.json({ error: 'Payroll run not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: run
+    })
+
+  } catch (error) {
+    console.error('Error fetching payroll run:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch payroll run' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/clients/payroll/[id]
+ * Update stage, assignment, FPS reference or EPS requirement of a payroll run
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const body = await request.json()
+    const validatedData = UpdatePayrollRunSchema.parse(body)
+
+    const currentRun = await db.payrollRun.findUnique({
+      where: { id: params.id },
+      include: {
+        client: true,
+        assignedUser: true,
+      }
+    })
+
+    if (!currentRun) {
+      return NextResponse.json({ error: 'Payroll run not found' }, { status: 404 })
+    }
+
+    const userName = session.user.name || session.user.email || 'Unknown'
+    const { client } = currentRun
+    const payDateLabel = format(currentRun.payDate, 'dd/MM/yyyy')
+    const stageChanged = validatedData.currentStage !== undefined &&
+      validatedData.currentStage !== currentRun.currentStage
+    const assignmentChanged = validatedData.assignedUserId !== undefined &&
+      validatedData.assignedUserId !== currentRun.assignedUserId
+    const referenceChanged = validatedData.fpsSubmissionReference !== undefined &&
+      validatedData.fpsSubmissionReference !== currentRun.fpsSubmissionReference
+    const epsRequiredChanged = validatedData.epsRequired !== undefined &&
+      validatedData.epsRequired !== currentRun.epsRequired
+
+    if (assignmentChanged && validatedData.assignedUserId) {
+      const assignee = await db.user.findUnique({
+        where: { id: validatedData.assignedUserId }
+      })
+      if (!assignee || !assignee.isActive) {
+        return NextResponse.json({ error: 'Assigned user not found' }, { status: 404 })
+      }
+    }
+
+    if (!stageChanged && !assignmentChanged && !referenceChanged && !epsRequiredChanged) {
+      return NextResponse.json({ error: 'No changes provided' }, { status: 400 })
+    }
+
+    const newStage = validatedData.currentStage ?? currentRun.currentStage
+    const epsRequired = validatedData.epsRequired ?? currentRun.epsRequired
+    const updateData: Record<string, unknown> = {
+      isCompleted: isPayrollRunComplete(newStage, epsRequired)
+    }
+
+    if (stageChanged) {
+      Object.assign(updateData, getPayrollRunMilestoneUpdate(
+        newStage,
+        session.user.id,
+        userName,
+        currentRun.currentStage
+      ))
+      updateData.currentStage = newStage
+    }
+
+    if (assignmentChanged) {
+      updateData.assignedUserId = validatedData.assignedUserId
+    }
+
+    if (referenceChanged) {
+      updateData.fpsSubmissionReference = validatedData.fpsSubmissionReference || null
+    }
+
+    if (epsRequiredChanged) {
+      updateData.epsRequired = epsRequired
+    }
+
+    const updatedRun = await db.$transaction(async (tx) => {
+      const run = await tx.payrollRun.update({
+        where: { id: currentRun.id },
+        data: updateData,
+        include: {
+          assignedUser: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              role: true,
+            }
+          }
+        }
+      })
+
+      // Reference and EPS edits are details, not workflow moves
+      if (stageChanged || assignmentChanged) {
+        const lastHistory = await tx.payrollRunHistory.findFirst({
+          where: { payrollRunId: currentRun.id },
+          orderBy: { stageChangedAt: 'desc' }
+        })
+        const daysInPreviousStage = stageChanged
+          ? Math.floor((Date.now() - (lastHistory?.stageChangedAt || currentRun.createdAt).getTime()) / (1000 * 60 * 60 * 24))
+          : null
+
+        await tx.payrollRunHistory.create({
+          data: {
+            payrollRunId: currentRun.id,
+            fromStage: currentRun.currentStage,
+            toStage: run.currentStage,
+            daysInPreviousStage,
+            userId: session.user.id,
+            userName,
+            userEmail: session.user.email || '',
+            userRole: session.user.role,
+            notes: validatedData.notes || (stageChanged
+              ? `Stage updated to ${getPayrollRunStageLabel(run.currentStage)}`
+              : 'Assignment updated')
+          }
+        })
+      }
+
+      return run
+    })
+
+    if (stageChanged) {
+      await logActivityEnhanced(request, {
+        action: updatedRun.isCompleted && !currentRun.isCompleted
+          ? 'PAYROLL_RUN_COMPLETED'
+          : currentRun.isCompleted && !updatedRun.isCompleted
+            ? 'PAYROLL_RUN_REOPENED'
+            : 'PAYROLL_RUN_STAGE_CHANGED',
+        clientId: client.id,
+        details: {
+          companyName: client.companyName,
+          clientCode: client.clientCode,
+          workflowType: 'PAYROLL',
+          payDate: currentRun.payDate,
+          taxYear: currentRun.taxYear,
+          taxMonth: currentRun.taxMonth,
+          oldStage: currentRun.currentStage,
+          newStage,
+          comments: validatedData.notes
+        }
+      })
+    }
+
+    if (assignmentChanged) {
+      const previousAssignee = currentRun.assignedUser?.name || null
+
+      if (updatedRun.assignedUser) {
+        await logActivityEnhanced(request, {
+          action: 'PAYROLL_RUN_ASSIGNED',
+          clientId: client.id,
+          details: {
+            companyName: client.companyName,
+            clientCode: client.clientCode,
+            workflowType: 'PAYROLL',
+            assigneeId: updatedRun.assignedUser.id,
+            assigneeName: updatedRun.assignedUser.name,
+            previousAssignee,
+            payDate: currentRun.payDate
+          }
+        })
+
+        if (updatedRun.assignedUser.id !== session.user.id) {
+          createNotification({
+            userId: updatedRun.assignedUser.id,
+            category: 'ACCOUNTS',
+            type: 'PAYROLL_RUN_ASSIGNED',
+            title: 'Payroll run assigned',
+            message: `${userName} assigned you the ${payDateLabel} payroll run for ${client.companyName}`,
+            clientId: client.id,
+            relatedId: currentRun.id,
+            metadata: JSON.stringify({
+              workflowType: 'PAYROLL',
+              payDate: currentRun.payDate,
+              fpsDueDate: currentRun.fpsDueDate
+            })
+          }).catch(notificationError => {
+            console.error('❌ Failed to send payroll assignment notification:', notificationError)
+          })
+        }
+      } else {
+        await logActivityEnhanced(request, {
+          action: 'PAYROLL_RUN_UNASSIGNED',
+          clientId: client.id,
+          details: {
+            companyName: client.companyName,
+            clientCode: client.clientCode,
+            workflowType: 'PAYROLL',
+            previousAssignee,
+            payDate: currentRun.payDate
+          }
+        })
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: updatedRun,
+      message: 'Payroll run updated successfully'
+    })
+
+  } catch (error) {
+    console.error('Error updating payroll run:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update payroll run' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { PayrollRunStage } from '@prisma/client'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import {
+  getPayrollRunMilestoneUpdate,
+  getPayrollRunStageLabel,
+  isPayrollRunComplete
+} from '@/lib/payroll-workflow'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const BulkOperationSchema = z.discriminatedUnion('operation', [
+  z.object({
+    operation: z.literal('assign'),
+    runIds: z.array(z.string()).min(1, 'No payroll run IDs provided'),
+    assignedUserId: z.string().min(1, 'No user ID provided for assignment'),
+  }),
+  z.object({
+    operation: z.literal('stage'),
+    runIds: z.array(z.string()).min(1, 'No payroll run IDs provided'),
+    stage: z.nativeEnum(PayrollRunStage),
+    notes: z.string().optional(),
+  }),
+])
+
+/**
+ * POST /api/clients/payroll/bulk
+ * Bulk assign or move payroll runs to a stage
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize('workflow.bulk_update')
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const body = await request.json()
+    const validatedData = BulkOperationSchema.parse(body)
+    const userName = session.user.name || session.user.email || 'Unknown'
+
+    const runs = await db.payrollRun.findMany({
+      where: { id: { in: validatedData.runIds } }
+    })
+
+    if (runs.length === 0) {
+      return NextResponse.json({ error: 'No payroll runs found' }, { status: 404 })
+    }
+
+    let assigneeName: string | null = null
+
+    if (validatedData.operation === 'assign') {
+      const user = await db.user.findUnique({
+        where: { id: validatedData.assignedUserId }
+      })
+
+      if (!user || !user.isActive) {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 })
+      }
+
+      assigneeName = user.name
+    }
+
+    const updateResults = await Promise.all(
+      runs.map(async (run) => {
+        try {
+          if (validatedData.operation === 'assign') {
+            if (run.assignedUserId === validatedData.assignedUserId) {
+              return { runId: run.id, success: true }
+            }
+
+            await db.$transaction([
+              db.payrollRun.update({
+                where: { id: run.id },
+                data: { assignedUserId: validatedData.assignedUserId }
+              }),
+              db.payrollRunHistory.create({
+                data: {
+                  payrollRunId: run.id,
+                  fromStage: run.currentStage,
+                  toStage: run.currentStage,
+                  userId: session.user.id,
+                  userName,
+                  userEmail: session.user.email || '',
+                  userRole: session.user.role,
+                  notes: `Bulk assigned to ${assigneeName}`
+                }
+              })
+            ])
+          } else {
+            if (run.currentStage === validatedData.stage) {
+              return { runId: run.id, success: true }
+            }
+
+            await db.$transaction([
+              db.payrollRun.update({
+                where: { id: run.id },
+                data: {
+                  currentStage: validatedData.stage,
+                  isCompleted: isPayrollRunComplete(validatedData.stage, run.epsRequired),
+                  ...getPayrollRunMilestoneUpdate(
+                    validatedData.stage,
+                    session.user.id,
+                    userName,
+                    run.currentStage
+                  )
+                }
+              }),
+              db.payrollRunHistory.create({
+                data: {
+                  payrollRunId: run.id,
+                  fromStage: run.currentStage,
+                  toStage: validatedData.stage,
+                  userId: session.user.id,
+                  userName,
+                  userEmail: session.user.email || '',
+                  userRole: session.user.role,
+                  notes: validatedData.notes || `Bulk stage update to ${getPayrollRunStageLabel(validatedData.stage)}`
+                }
+              })
+            ])
+          }
+
+          return { runId: run.id, success: true }
+        } catch (error) {
+          console.error(`Error updating payroll run ${run.id}:`, error)
+          return { runId: run.id, success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+        }
+      })
+    )
+
+    const successfulUpdates = updateResults.filter(result => result.success)
+    const failedUpdates = updateResults.filter(result => !result.success)
+
+    await logActivityEnhanced(request, {
+      action: 'BULK_PAYROLL_OPERATION',
+      details: {
+        operation: validatedData.operation,
+        runCount: runs.length,
+        successful: successfulUpdates.length,
+        failed: failedUpdates.length,
+        assignedUserId: validatedData.operation === 'assign' ? validatedData.assignedUserId : null,
+        stage: validatedData.operation === 'stage' ? validatedData.stage : null,
+        performedBy: userName,
+        userRole: session.user.role
+      }
+    })
+
+    const message = validatedData.operation === 'assign'
+      ? `Successfully assigned ${successfulUpdates.length} payroll runs to ${assigneeName}`
+      : `Successfully moved ${successfulUpdates.length} payroll runs to ${getPayrollRunStageLabel(validatedData.stage)}`
+
+    return NextResponse.json({
+      success: true,
+      message,
+      results: {
+        successful: successfulUpdates.length,
+        failed: failedUpdates.length,
+        details: updateResults
+      }
+    })
+
+  } catch (error) {
+    console.error('Payroll bulk operations error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to perform bulk operation' },
+      { status: 500 }
+    )
+  }
+}
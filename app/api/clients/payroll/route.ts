@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { generateAllPayrollRuns } from '@/lib/payroll-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/clients/payroll
+ * Payroll runs of payroll clients: outstanding runs plus anything completed in the last 30 days
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const { searchParams } = new URL(request.url)
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '50')
+    const skip = (page - 1) * limit
+
+    const assignedFilter = searchParams.get('assignedFilter') // 'assigned_to_me', 'all'
+    const workflowStageFilter = searchParams.get('workflowStageFilter') || 'all'
+    const frequencyFilter = searchParams.get('frequencyFilter') || 'all'
+    const searchTerm = searchParams.get('searchTerm') || ''
+    const sortOrder = searchParams.get('sortOrder') === 'desc' ? 'desc' : 'asc'
+
+    // Top up runs for every active schedule before listing them
+    await generateAllPayrollRuns()
+
+    const whereClause: any = {
+      client: {
+        isActive: true,
+        requiresPayroll: true,
+      },
+      OR: [
+        { isCompleted: false },
+        {
+          isCompleted: true,
+          updatedAt: {
+            gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
+          }
+        }
+      ]
+    }
+
+    if (assignedFilter === 'assigned_to_me') {
+      whereClause.assignedUserId = session.user.id
+    }
+
+    if (frequencyFilter !== 'all') {
+      whereClause.payFrequency = frequencyFilter
+    }
+
+    if (workflowStageFilter === 'not_started') {
+      whereClause.currentStage = 'WAITING_FOR_DATA'
+    } else if (workflowStageFilter === 'completed') {
+      whereClause.isCompleted = true
+    } else if (workflowStageFilter !== 'all') {
+      whereClause.currentStage = workflowStageFilter
+    }
+
+    if (searchTerm) {
+      whereClause.AND = [{
+        OR: [
+          { client: { clientCode: { contains: searchTerm, mode: 'insensitive' } } },
+          { client: { companyName: { contains: searchTerm, mode: 'insensitive' } } },
+          { schedule: { payeReference: { contains: searchTerm, mode: 'insensitive' } } }
+        ]
+      }]
+    }
+
+    const [totalCount, runs] = await Promise.all([
+      db.payrollRun.count({ where: whereClause }),
+      db.payrollRun.findMany({
+        where: whereClause,
+        include: {
+          client: {
+            select: {
+              id: true,
+              clientCode: true,
+              companyName: true,
+              companyType: true,
+              contactName: true,
+              contactEmail: true,
+            }
+          },
+          schedule: {
+            select: {
+              id: true,
+              payeReference: true,
+              accountsOfficeReference: true,
+              employeeCount: true,
+            }
+          },
+          assignedUser: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              role: true,
+            }
+          }
+        },
+        orderBy: [
+          { isCompleted: 'asc' },
+          { payDate: sortOrder }
+        ],
+        skip,
+        take: limit,
+      })
+    ])
+
+    return NextResponse.json({
+      success: true,
+      runs,
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(totalCount / limit),
+        totalCount: totalCount,
+        pageSize: limit
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching payroll runs:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch payroll runs' },
+      { status: 500 }
+    )
+  }
+}
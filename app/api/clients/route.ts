@@ -1,9 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { z } from 'zod'
 import { logActivityEnhanced, ActivityHelpers } from '@/lib/activity-middleware'
+import { syncClientOfficers } from '@/lib/officer-sync'
+import { ensureCurrentCTWorkflow } from '@/lib/ct-workflow'
+import { syncPrimaryContactFromClient } from '@/lib/client-contact-service'
+import { attachContactEmailHealth } from '@/lib/email-suppression-service'
+import { getTeamScope, teamClientWhere, TeamError } from '@/lib/team-service'
 
 
 // Force dynamic rendering for this route since it uses session
@@ -129,14 +133,11 @@ export async function GET(request: NextRequest) {
   const startTime = Date.now()
   
   try {
-    const session = await getServerSession(authOptions)
-
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const { searchParams } = new URL(request.url)
     
@@ -162,14 +163,18 @@ export async function GET(request: NextRequest) {
     const page = parseInt(searchParams.get('page') || '1')
     const limit = parseInt(searchParams.get('limit') || '25') // Reduced from 50 for better performance
 
+    // Users in a team see their teams' clients (and unowned ones); ?teamId= narrows to one team
+    const scope = await getTeamScope(session.user.id, {
+      viewAll: auth.can('teams.view_all'),
+      teamId: searchParams.get('teamId')
+    })
+
     // Build where clause
     const where: any = {
-      isActive: isActive
+      isActive: isActive,
+      AND: [teamClientWhere(scope)]
     }
 
-    // REMOVED: Role-based filtering - All users can see all clients on the main clients page
-    // Staff users should be able to see all clients, not just their assigned ones
-
     // Search filter - simplified logic since we removed role-based filtering
     if (search) {
       const searchConditions = [
@@ -278,7 +283,7 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      clients,
+      clients: await attachContactEmailHealth(clients),
       pagination: {
         currentPage: page,
         totalPages,
@@ -295,6 +300,9 @@ export async function GET(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof TeamError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
     console.error('Error fetching clients:', error)
     return NextResponse.json(
       { success: false, error: 'Internal server error' },
@@ -310,12 +318,9 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const body = await request.json()
@@ -385,6 +390,17 @@ export async function POST(request: NextRequest) {
         }
       })
 
+    // Import the Companies House officers and PSCs supplied with the new client
+    await syncClientOfficers(client.id, body.officers, body.personsWithSignificantControl, 'CLIENT_CREATED')
+      .catch(error => console.error('Failed to import officers for new client:', error))
+
+    await syncPrimaryContactFromClient(client)
+      .catch(error => console.error('Failed to create primary contact for new client:', error))
+
+    // Ltd companies start with a CT workflow for their current accounting period
+    await ensureCurrentCTWorkflow(client.id)
+      .catch(error => console.error('Failed to create CT workflow for new client:', error))
+
     // Log client creation activity
     await logActivityEnhanced(request, ActivityHelpers.clientCreated({
       clientCode: client.clientCode,
@@ -0,0 +1,308 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { SelfAssessmentWorkflowStage } from '@prisma/client'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { createNotification } from '@/lib/in-app-notifications'
+import {
+  SA_COMPLETED_STAGES,
+  getSelfAssessmentMilestoneUpdate,
+  getSelfAssessmentStageLabel
+} from '@/lib/self-assessment-workflow'
+import { syncClientSelfAssessmentStatus } from '@/lib/self-assessment-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const UpdateWorkflowSchema = z.object({
+  currentStage: z.nativeEnum(SelfAssessmentWorkflowStage).optional(),
+  assignedUserId: z.string().nullable().optional(),
+  hmrcSubmissionReference: z.string().max(100).nullable().optional(),
+  paymentsOnAccountRequired: z.boolean().optional(),
+  notes: z.string().optional(),
+})
+
+/**
+ * GET /api/clients/self-assessment/[id]
+ * Self assessment workflow (by workflow ID) with its stage history
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const workflow = await db.selfAssessmentWorkflow.findUnique({
+      where: { id: params.id },
+      include: {
+        client: {
+          select: {
+            id: true,
+            clientCode: true,
+            companyName: true,
+            utrNumber: true,
+          }
+        },
+        assignedUser: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            role: true,
+          }
+        },
+        workflowHistory: {
+          orderBy: { stageChangedAt: 'desc' }
+        }
+      }
+    })
+
+    if (!workflow) {
+      return NextResponse.json({ error: 'Self assessment workflow not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: workflow
+    })
+
+  } catch (error) {
+    console.error('Error fetching self assessment workflow:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch self assessment workflow' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/clients/self-assessment/[id]
+ * Update stage, assignment, HMRC reference or payments on account of a self assessment workflow
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const body = await request.json()
+    const validatedData = UpdateWorkflowSchema.parse(body)
+
+    const currentWorkflow = await db.selfAssessmentWorkflow.findUnique({
+      where: { id: params.id },
+      include: {
+        client: true,
+        assignedUser: true,
+      }
+    })
+
+    if (!currentWorkflow) {
+      return NextResponse.json({ error: 'Self assessment workflow not found' }, { status: 404 })
+    }
+
+    const userName = session.user.name || session.user.email || 'Unknown'
+    const { client } = currentWorkflow
+    const stageChanged = validatedData.currentStage !== undefined &&
+      validatedData.currentStage !== currentWorkflow.currentStage
+    const assignmentChanged = validatedData.assignedUserId !== undefined &&
+      validatedData.assignedUserId !== currentWorkflow.assignedUserId
+    const referenceChanged = validatedData.hmrcSubmissionReference !== undefined &&
+      validatedData.hmrcSubmissionReference !== currentWorkflow.hmrcSubmissionReference
+    const paymentsOnAccountChanged = validatedData.paymentsOnAccountRequired !== undefined &&
+      validatedData.paymentsOnAccountRequired !== currentWorkflow.paymentsOnAccountRequired
+
+    if (assignmentChanged && validatedData.assignedUserId) {
+      const assignee = await db.user.findUnique({
+        where: { id: validatedData.assignedUserId }
+      })
+      if (!assignee || !assignee.isActive) {
+        return NextResponse.json({ error: 'Assigned user not found' }, { status: 404 })
+      }
+    }
+
+    const updateData: Record<string, unknown> = {}
+
+    if (stageChanged && validatedData.currentStage) {
+      Object.assign(updateData, getSelfAssessmentMilestoneUpdate(
+        validatedData.currentStage,
+        session.user.id,
+        userName,
+        currentWorkflow.currentStage
+      ))
+      updateData.currentStage = validatedData.currentStage
+      updateData.isCompleted = SA_COMPLETED_STAGES.includes(validatedData.currentStage)
+    }
+
+    if (assignmentChanged) {
+      updateData.assignedUserId = validatedData.assignedUserId
+    }
+
+    if (referenceChanged) {
+      updateData.hmrcSubmissionReference = validatedData.hmrcSubmissionReference || null
+    }
+
+    if (paymentsOnAccountChanged) {
+      updateData.paymentsOnAccountRequired = validatedData.paymentsOnAccountRequired
+    }
+
+    if (!stageChanged && !assignmentChanged && !referenceChanged && !paymentsOnAccountChanged) {
+      return NextResponse.json({ error: 'No changes provided' }, { status: 400 })
+    }
+
+    const updatedWorkflow = await db.$transaction(async (tx) => {
+      const workflow = await tx.selfAssessmentWorkflow.update({
+        where: { id: currentWorkflow.id },
+        data: updateData,
+        include: {
+          assignedUser: {
+            select: {
+              id: true,
+              name: true,
+              email: true,
+              role: true,
+            }
+          }
+        }
+      })
+
+      // Reference and payments on account edits are details, not workflow moves
+      if (stageChanged || assignmentChanged) {
+        const lastHistory = await tx.selfAssessmentWorkflowHistory.findFirst({
+          where: { selfAssessmentWorkflowId: currentWorkflow.id },
+          orderBy: { stageChangedAt: 'desc' }
+        })
+        const daysInPreviousStage = stageChanged
+          ? Math.floor((Date.now() - (lastHistory?.stageChangedAt || currentWorkflow.createdAt).getTime()) / (1000 * 60 * 60 * 24))
+          : null
+
+        await tx.selfAssessmentWorkflowHistory.create({
+          data: {
+            selfAssessmentWorkflowId: currentWorkflow.id,
+            fromStage: currentWorkflow.currentStage,
+            toStage: workflow.currentStage,
+            daysInPreviousStage,
+            userId: session.user.id,
+            userName,
+            userEmail: session.user.email || '',
+            userRole: session.user.role,
+            notes: validatedData.notes || (stageChanged
+              ? `Stage updated to ${getSelfAssessmentStageLabel(workflow.currentStage)}`
+              : 'Assignment updated')
+          }
+        })
+      }
+
+      return workflow
+    })
+
+    if (stageChanged && validatedData.currentStage) {
+      const wasCompleted = SA_COMPLETED_STAGES.includes(currentWorkflow.currentStage)
+      const isCompleted = SA_COMPLETED_STAGES.includes(validatedData.currentStage)
+
+      if (wasCompleted !== isCompleted) {
+        await syncClientSelfAssessmentStatus(client.id)
+      }
+
+      await logActivityEnhanced(request, {
+        action: isCompleted
+          ? 'SELF_ASSESSMENT_FILED'
+          : wasCompleted
+            ? 'SELF_ASSESSMENT_FILING_UNDONE'
+            : 'SELF_ASSESSMENT_WORKFLOW_STAGE_CHANGED',
+        clientId: client.id,
+        details: {
+          companyName: client.companyName,
+          clientCode: client.clientCode,
+          workflowType: 'SELF_ASSESSMENT',
+          taxYear: currentWorkflow.taxYear,
+          oldStage: currentWorkflow.currentStage,
+          newStage: validatedData.currentStage,
+          filingDueDate: currentWorkflow.onlineFilingDueDate,
+          comments: validatedData.notes
+        }
+      })
+    }
+
+    if (assignmentChanged) {
+      const previousAssignee = currentWorkflow.assignedUser?.name || null
+
+      if (updatedWorkflow.assignedUser) {
+        await logActivityEnhanced(request, {
+          action: 'SELF_ASSESSMENT_WORKFLOW_ASSIGNED',
+          clientId: client.id,
+          details: {
+            companyName: client.companyName,
+            clientCode: client.clientCode,
+            workflowType: 'SELF_ASSESSMENT',
+            assigneeId: updatedWorkflow.assignedUser.id,
+            assigneeName: updatedWorkflow.assignedUser.name,
+            previousAssignee,
+            taxYear: currentWorkflow.taxYear
+          }
+        })
+
+        if (updatedWorkflow.assignedUser.id !== session.user.id) {
+          createNotification({
+            userId: updatedWorkflow.assignedUser.id,
+            category: 'ACCOUNTS',
+            type: 'SELF_ASSESSMENT_ASSIGNED',
+            title: 'Self assessment assigned',
+            message: `${userName} assigned you the ${currentWorkflow.taxYear} self assessment return for ${client.companyName}`,
+            clientId: client.id,
+            relatedId: currentWorkflow.id,
+            metadata: JSON.stringify({
+              workflowType: 'SELF_ASSESSMENT',
+              taxYear: currentWorkflow.taxYear,
+              filingDueDate: currentWorkflow.onlineFilingDueDate
+            })
+          }).catch(notificationError => {
+            console.error('❌ Failed to send self assessment assignment notification:', notificationError)
+          })
+        }
+      } else {
+        await logActivityEnhanced(request, {
+          action: 'SELF_ASSESSMENT_WORKFLOW_UNASSIGNED',
+          clientId: client.id,
+          details: {
+            companyName: client.companyName,
+            clientCode: client.clientCode,
+            workflowType: 'SELF_ASSESSMENT',
+            previousAssignee,
+            taxYear: currentWorkflow.taxYear
+          }
+        })
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: updatedWorkflow,
+      message: 'Self assessment workflow updated successfully'
+    })
+
+  } catch (error) {
+    console.error('Error updating self assessment workflow:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update self assessment workflow' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { SelfAssessmentWorkflowStage } from '@prisma/client'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import {
+  SA_COMPLETED_STAGES,
+  getSelfAssessmentMilestoneUpdate,
+  getSelfAssessmentStageLabel
+} from '@/lib/self-assessment-workflow'
+import { syncClientSelfAssessmentStatus } from '@/lib/self-assessment-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const BulkOperationSchema = z.discriminatedUnion('operation', [
+  z.object({
+    operation: z.literal('assign'),
+    workflowIds: z.array(z.string()).min(1, 'No workflow IDs provided'),
+    assignedUserId: z.string().min(1, 'No user ID provided for assignment'),
+  }),
+  z.object({
+    operation: z.literal('stage'),
+    workflowIds: z.array(z.string()).min(1, 'No workflow IDs provided'),
+    stage: z.nativeEnum(SelfAssessmentWorkflowStage),
+    notes: z.string().optional(),
+  }),
+])
+
+/**
+ * POST /api/clients/self-assessment/bulk
+ * Bulk assign or move self assessment workflows to a stage
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize('workflow.bulk_update')
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const body = await request.json()
+    const validatedData = BulkOperationSchema.parse(body)
+    const userName = session.user.name || session.user.email || 'Unknown'
+
+    const workflows = await db.selfAssessmentWorkflow.findMany({
+      where: { id: { in: validatedData.workflowIds } }
+    })
+
+    if (workflows.length === 0) {
+      return NextResponse.json({ error: 'No self assessment workflows found' }, { status: 404 })
+    }
+
+    let assigneeName: string | null = null
+
+    if (validatedData.operation === 'assign') {
+      const user = await db.user.findUnique({
+        where: { id: validatedData.assignedUserId }
+      })
+
+      if (!user || !user.isActive) {
+        return NextResponse.json({ error: 'User not found' }, { status: 404 })
+      }
+
+      assigneeName = user.name
+    }
+
+    const updateResults = await Promise.all(
+      workflows.map(async (workflow) => {
+        try {
+          if (validatedData.operation === 'assign') {
+            if (workflow.assignedUserId === validatedData.assignedUserId) {
+              return { workflowId: workflow.id, success: true }
+            }
+
+            await db.$transaction([
+              db.selfAssessmentWorkflow.update({
+                where: { id: workflow.id },
+                data: { assignedUserId: validatedData.assignedUserId }
+              }),
+              db.selfAssessmentWorkflowHistory.create({
+                data: {
+                  selfAssessmentWorkflowId: workflow.id,
+                  fromStage: workflow.currentStage,
+                  toStage: workflow.currentStage,
+                  userId: session.user.id,
+                  userName,
+                  userEmail: session.user.email || '',
+                  userRole: session.user.role,
+                  notes: `Bulk assigned to ${assigneeName}`
+                }
+              })
+            ])
+          } else {
+            if (workflow.currentStage === validatedData.stage) {
+              return { workflowId: workflow.id, success: true }
+            }
+
+            await db.$transaction([
+              db.selfAssessmentWorkflow.update({
+                where: { id: workflow.id },
+                data: {
+                  currentStage: validatedData.stage,
+                  isCompleted: SA_COMPLETED_STAGES.includes(validatedData.stage),
+                  ...getSelfAssessmentMilestoneUpdate(
+                    validatedData.stage,
+                    session.user.id,
+                    userName,
+                    workflow.currentStage
+                  )
+                }
+              }),
+              db.selfAssessmentWorkflowHistory.create({
+                data: {
+                  selfAssessmentWorkflowId: workflow.id,
+                  fromStage: workflow.currentStage,
+                  toStage: validatedData.stage,
+                  userId: session.user.id,
+                  userName,
+                  userEmail: session.user.email || '',
+                  userRole: session.user.role,
+                  notes: validatedData.notes || `Bulk stage update to ${getSelfAssessmentStageLabel(validatedData.stage)}`
+                }
+              })
+            ])
+          }
+
+          return { workflowId: workflow.id, success: true }
+        } catch (error) {
+          console.error(`Error updating self assessment workflow ${workflow.id}:`, error)
+          return { workflowId: workflow.id, success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+        }
+      })
+    )
+
+    const successfulUpdates = updateResults.filter(result => result.success)
+    const failedUpdates = updateResults.filter(result => !result.success)
+
+    // Filing (or un-filing) returns changes the clients' SA100 summary fields
+    if (validatedData.operation === 'stage') {
+      const affectedClientIds = Array.from(new Set(
+        workflows
+          .filter(workflow => successfulUpdates.some(result => result.workflowId === workflow.id))
+          .map(workflow => workflow.clientId)
+      ))
+      await Promise.all(affectedClientIds.map(clientId => syncClientSelfAssessmentStatus(clientId)))
+    }
+
+    await logActivityEnhanced(request, {
+      action: 'BULK_SELF_ASSESSMENT_OPERATION',
+      details: {
+        operation: validatedData.operation,
+        workflowCount: workflows.length,
+        successful: successfulUpdates.length,
+        failed: failedUpdates.length,
+        assignedUserId: validatedData.operation === 'assign' ? validatedData.assignedUserId : null,
+        stage: validatedData.operation === 'stage' ? validatedData.stage : null,
+        performedBy: userName,
+        userRole: session.user.role
+      }
+    })
+
+    const message = validatedData.operation === 'assign'
+      ? `Successfully assigned ${successfulUpdates.length} self assessment returns to ${assigneeName}`
+      : `Successfully moved ${successfulUpdates.length} self assessment returns to ${getSelfAssessmentStageLabel(validatedData.stage)}`
+
+    return NextResponse.json({
+      success: true,
+      message,
+      results: {
+        successful: successfulUpdates.length,
+        failed: failedUpdates.length,
+        details: updateResults
+      }
+    })
+
+  } catch (error) {
+    console.error('Self assessment bulk operations error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to perform bulk operation' },
+      { status: 500 }
+    )
+  }
+}
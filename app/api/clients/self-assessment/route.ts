@@ -0,0 +1,237 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import {
+  getCurrentSelfAssessmentTaxYear,
+  SELF_ASSESSMENT_CLIENT_TYPES
+} from '@/lib/self-assessment-workflow'
+import { ensureCurrentSelfAssessmentWorkflow } from '@/lib/self-assessment-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const workflowSelect = {
+  id: true,
+  taxYear: true,
+  taxYearStart: true,
+  taxYearEnd: true,
+  paperFilingDueDate: true,
+  onlineFilingDueDate: true,
+  firstPaymentOnAccountDueDate: true,
+  secondPaymentOnAccountDueDate: true,
+  paymentsOnAccountRequired: true,
+  currentStage: true,
+  isCompleted: true,
+  hmrcSubmissionReference: true,
+  assignedUser: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      role: true,
+    }
+  },
+  chaseStartedDate: true,
+  chaseStartedByUserName: true,
+  paperworkReceivedDate: true,
+  paperworkReceivedByUserName: true,
+  workStartedDate: true,
+  workStartedByUserName: true,
+  partnerReviewDate: true,
+  partnerReviewByUserName: true,
+  sentToClientDate: true,
+  sentToClientByUserName: true,
+  clientApprovedDate: true,
+  clientApprovedByUserName: true,
+  filedToHMRCDate: true,
+  filedToHMRCByUserName: true,
+  clientSelfFilingDate: true,
+  clientSelfFilingByUserName: true,
+} as const
+
+/**
+ * GET /api/clients/self-assessment
+ * Individual and sole trader clients with their outstanding (or recently filed) SA100 workflow
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const { searchParams } = new URL(request.url)
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '50')
+    const skip = (page - 1) * limit
+
+    const assignedFilter = searchParams.get('assignedFilter') // 'assigned_to_me', 'all'
+    const workflowStageFilter = searchParams.get('workflowStageFilter') || 'all'
+    const searchTerm = searchParams.get('searchTerm') || ''
+    const sortField = searchParams.get('sortField') || 'clientCode'
+    const sortOrder = searchParams.get('sortOrder') || 'asc'
+
+    const whereClause: any = {
+      companyType: { in: SELF_ASSESSMENT_CLIENT_TYPES },
+      isActive: true,
+    }
+
+    if (assignedFilter === 'assigned_to_me') {
+      whereClause.selfAssessmentWorkflows = {
+        some: {
+          assignedUserId: session.user.id,
+          isCompleted: false
+        }
+      }
+    }
+
+    if (searchTerm) {
+      whereClause.OR = [
+        { clientCode: { contains: searchTerm, mode: 'insensitive' } },
+        { companyName: { contains: searchTerm, mode: 'insensitive' } },
+        { contactName: { contains: searchTerm, mode: 'insensitive' } },
+        { utrNumber: { contains: searchTerm, mode: 'insensitive' } }
+      ]
+    }
+
+    const totalCount = await db.client.count({
+      where: whereClause
+    })
+
+    const clients = await db.client.findMany({
+      where: whereClause,
+      select: {
+        id: true,
+        clientCode: true,
+        companyName: true,
+        companyType: true,
+        contactName: true,
+        contactEmail: true,
+        utrNumber: true,
+        nationalInsuranceNumber: true,
+
+        nonLtdCompanyAssignedUser: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            role: true,
+          }
+        },
+        assignedUser: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+            role: true,
+          }
+        },
+
+        // Most relevant workflow: oldest outstanding return first, then anything filed in the last 30 days
+        selfAssessmentWorkflows: {
+          where: {
+            OR: [
+              { isCompleted: false },
+              {
+                isCompleted: true,
+                updatedAt: {
+                  gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
+                }
+              }
+            ]
+          },
+          orderBy: [
+            { isCompleted: 'asc' },
+            { taxYearEnd: 'asc' }
+          ],
+          take: 1,
+          select: workflowSelect
+        }
+      },
+      skip,
+      take: limit,
+      orderBy: getSortOrder(sortField, sortOrder),
+    })
+
+    const currentTaxYear = getCurrentSelfAssessmentTaxYear()
+
+    const processedClients = await Promise.all(
+      clients.map(async (client) => {
+        const existingWorkflow = client.selfAssessmentWorkflows[0]
+
+        // Create the workflow for the tax year being worked on, unless an outstanding one
+        // exists or the one shown already covers that year
+        const hasCurrentTaxYear = !!existingWorkflow && (
+          !existingWorkflow.isCompleted ||
+          existingWorkflow.taxYearEnd.getTime() >= currentTaxYear.taxYearEnd.getTime()
+        )
+
+        const currentWorkflow = existingWorkflow && hasCurrentTaxYear
+          ? existingWorkflow
+          : await ensureCurrentSelfAssessmentWorkflow(
+              client.id,
+              client.nonLtdCompanyAssignedUser?.id || client.assignedUser?.id || null
+            ).then(workflow => db.selfAssessmentWorkflow.findUniqueOrThrow({
+              where: { id: workflow.id },
+              select: workflowSelect
+            }))
+
+        if (workflowStageFilter !== 'all') {
+          if (workflowStageFilter === 'not_started' && currentWorkflow.currentStage !== 'WAITING_FOR_TAX_YEAR_END') {
+            return null
+          }
+          if (workflowStageFilter === 'completed' && !currentWorkflow.isCompleted) {
+            return null
+          }
+          if (workflowStageFilter !== 'not_started' && workflowStageFilter !== 'completed' &&
+              currentWorkflow.currentStage !== workflowStageFilter) {
+            return null
+          }
+        }
+
+        const { selfAssessmentWorkflows, ...clientData } = client
+
+        return {
+          ...clientData,
+          currentSelfAssessmentWorkflow: currentWorkflow
+        }
+      })
+    )
+
+    const filteredClients = processedClients.filter(client => client !== null)
+
+    return NextResponse.json({
+      success: true,
+      clients: filteredClients,
+      currentTaxYear: currentTaxYear.taxYear,
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(totalCount / limit),
+        totalCount: totalCount,
+        pageSize: limit
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching self assessment workflows:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch self assessment workflows' },
+      { status: 500 }
+    )
+  }
+}
+
+// Helper function to get sort order
+function getSortOrder(sortField: string, sortOrder: string) {
+  const order = (sortOrder === 'desc' ? 'desc' : 'asc') as 'asc' | 'desc'
+
+  switch (sortField) {
+    case 'clientCode':
+      return { clientCode: order }
+    case 'companyName':
+      return { companyName: order }
+    default:
+      return { clientCode: 'asc' as const }
+  }
+}
@@ -38,10 +38,10 @@
  * @lastModified July 2025
  */
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { calculateVATQuarter, getNextVATQuarter } from '@/lib/vat-workflow'
+import { getNextChaseDueMap } from '@/lib/chase-sequences'
 
 // Force dynamic rendering for this route since it uses session
 export const dynamic = 'force-dynamic'
@@ -49,9 +49,9 @@ export const dynamic = 'force-dynamic'
 export async function GET(request: NextRequest) {
   try {
     // Authentication check - all VAT data requires authenticated access
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
 
     // Extract query parameters for pagination and filtering
@@ -248,6 +248,19 @@ export async function GET(request: NextRequest) {
       return client
     })
 
+    // Next automated chase for quarters waiting on paperwork (calculated quarters are skipped)
+    const nextChaseMap = await getNextChaseDueMap(
+      'VAT',
+      processedClients.flatMap(client => client.vatQuartersWorkflow.filter(quarter => quarter.id !== 'pending'))
+    )
+    const clientsWithChase = processedClients.map(client => ({
+      ...client,
+      vatQuartersWorkflow: client.vatQuartersWorkflow.map(quarter => ({
+        ...quarter,
+        nextChase: nextChaseMap.get(quarter.id) || null
+      }))
+    }))
+
     // Calculate pagination info
     const totalPages = Math.ceil(totalCount / limit)
 
@@ -258,7 +271,7 @@ export async function GET(request: NextRequest) {
 
     const response = NextResponse.json({
       success: true,
-      clients: processedClients,
+      clients: clientsWithChase,
       pagination: {
         currentPage: page,
         totalPages,
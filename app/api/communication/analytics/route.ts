@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
+import { getEmailEngagementAnalytics } from '@/lib/email-analytics-service'
+import { londonLocalTimeToUTC } from '@/lib/london-time'
+import { EMAIL_ANALYTICS_GRANULARITIES } from '@/lib/email-analytics'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const AnalyticsQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD'),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD'),
+  granularity: z.enum(EMAIL_ANALYTICS_GRANULARITIES).default('week')
+})
+
+// GET /api/communication/analytics?from=YYYY-MM-DD&to=YYYY-MM-DD&granularity=week|month
+// Email delivery, open and click rates for emails sent in the (London) date range
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize('communication.analytics')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = AnalyticsQuerySchema.parse({
+      from: searchParams.get('from'),
+      to: searchParams.get('to'),
+      granularity: searchParams.get('granularity') || undefined
+    })
+
+    const from = londonLocalTimeToUTC(query.from, '00:00')
+    // Inclusive of the whole "to" day
+    const to = new Date(londonLocalTimeToUTC(query.to, '23:59').getTime() + 59999)
+
+    if (from > to) {
+      return NextResponse.json({ error: 'The start date must be before the end date' }, { status: 400 })
+    }
+
+    const analytics = await getEmailEngagementAnalytics({ from, to, granularity: query.granularity })
+
+    return NextResponse.json({ success: true, analytics })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    console.error('Error fetching email analytics:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch email analytics' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { getEmailEventTimeline } from '@/lib/email-analytics-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+// GET /api/communication/history/[id]/events - Delivery, open and click events for an email
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const emailLog = await db.emailLog.findUnique({
+      where: { id: params.id },
+      select: { id: true }
+    })
+
+    if (!emailLog) {
+      return NextResponse.json({ error: 'Email log not found' }, { status: 404 })
+    }
+
+    const events = await getEmailEventTimeline(emailLog.id)
+
+    return NextResponse.json({ success: true, events })
+  } catch (error) {
+    console.error('Error fetching email events:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch email events' },
+      { status: 500 }
+    )
+  }
+}
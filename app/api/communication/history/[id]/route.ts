@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 
 // DELETE /api/communication/history/[id] - Delete email log
@@ -9,18 +8,11 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Only Partners and Managers can delete email logs
-    if (!['PARTNER', 'MANAGER'].includes(session.user.role)) {
-      return NextResponse.json({ 
-        error: 'Insufficient permissions',
-        message: 'Only Partners and Managers can delete email logs'
-      }, { status: 403 })
+    const auth = await authorize('communication.history.manage')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const emailId = params.id
 
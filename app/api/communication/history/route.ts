@@ -1,14 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 
 // GET /api/communication/history - Get email history with pagination and filtering
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const { searchParams } = new URL(request.url)
@@ -108,6 +107,18 @@ export async function GET(request: NextRequest) {
             companyName: true,
             clientCode: true
           }
+        },
+        templateVersion: {
+          select: {
+            id: true,
+            version: true,
+            template: {
+              select: {
+                id: true,
+                name: true
+              }
+            }
+          }
         }
       },
       orderBy: {
@@ -132,7 +143,8 @@ export async function GET(request: NextRequest) {
       failedAt: log.failedAt?.toISOString(),
       failureReason: log.failureReason || undefined,
       triggeredByUser: log.triggeredByUser || undefined,
-      client: log.client || undefined
+      client: log.client || undefined,
+      templateVersion: log.templateVersion || undefined
     }))
 
     const totalPages = Math.ceil(totalCount / limit)
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { z } from 'zod'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import {
+  cancelQueuedEmail,
+  EmailQueueError,
+  processEmailQueue,
+  resendQueuedEmail
+} from '@/lib/email-queue-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const UpdateQueueItemSchema = z.object({
+  action: z.enum(['cancel', 'resend'])
+})
+
+// PUT /api/communication/queue/[id] - Cancel a queued email, or resend a dead-lettered or cancelled one
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const item = await db.emailQueueItem.findUnique({
+      where: { id: params.id },
+      select: {
+        id: true,
+        subject: true,
+        createdById: true,
+        emailLog: { select: { recipientEmail: true, clientId: true } }
+      }
+    })
+
+    if (!item) {
+      return NextResponse.json({ error: 'Queued email not found' }, { status: 404 })
+    }
+
+    // Anyone can manage the emails they queued; communication.queue.manage covers every email
+    if (!auth.can('communication.queue.manage') && item.createdById !== session.user.id) {
+      return NextResponse.json({
+        error: 'Insufficient permissions. You can only manage emails you queued.'
+      }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const { action } = UpdateQueueItemSchema.parse(body)
+
+    let message: string
+    if (action === 'cancel') {
+      await cancelQueuedEmail(item.id, { name: session.user.name || session.user.email || 'Unknown' })
+      message = 'Email cancelled'
+    } else {
+      await resendQueuedEmail(item.id)
+      const run = await processEmailQueue({ ids: [item.id] })
+      message = run.sentIds.includes(item.id)
+        ? 'Email sent'
+        : 'Email queued - it will be sent on the next queue run'
+    }
+
+    await logActivityEnhanced(request, {
+      action: action === 'cancel' ? 'EMAIL_QUEUE_CANCELLED' : 'EMAIL_QUEUE_RESENT',
+      clientId: item.emailLog.clientId || undefined,
+      details: {
+        queueItemId: item.id,
+        subject: item.subject,
+        recipientEmail: item.emailLog.recipientEmail
+      }
+    })
+
+    return NextResponse.json({ success: true, message })
+
+  } catch (error) {
+    if (error instanceof EmailQueueError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error updating queued email:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      error: 'Failed to update queued email'
+    }, { status: 500 })
+  }
+}
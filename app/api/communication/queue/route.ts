@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { getEmailQueueCounts, getEmailQueueItems } from '@/lib/email-queue-service'
+import { isEmailQueueView } from '@/lib/email-queue'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+// GET /api/communication/queue?view=pending|scheduled|dead_letter - Emails waiting in the outbound queue
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const view = request.nextUrl.searchParams.get('view') || 'pending'
+    if (!isEmailQueueView(view)) {
+      return NextResponse.json({ error: 'Invalid queue view' }, { status: 400 })
+    }
+
+    const [items, counts] = await Promise.all([
+      getEmailQueueItems(view),
+      getEmailQueueCounts()
+    ])
+
+    return NextResponse.json({ success: true, items, counts })
+
+  } catch (error) {
+    console.error('Error fetching email queue:', error)
+    return NextResponse.json({
+      error: 'Failed to fetch email queue'
+    }, { status: 500 })
+  }
+}
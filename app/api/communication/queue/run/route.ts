@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { processEmailQueue } from '@/lib/email-queue-service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Email Queue Run API
+ * 
+ * Triggered every few minutes by GitHub Actions
+ * Sends scheduled emails that have come due and retries failed sends,
+ * within the provider rate limit
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    // Security: Check for authorization header
+    const authHeader = request.headers.get('authorization')
+    const expectedToken = process.env.EMAIL_QUEUE_SECRET
+    
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: 'Email queue not configured' },
+        { status: 500 }
+      )
+    }
+    
+    if (!authHeader || authHeader !== `Bearer ${expectedToken}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    console.log('📬 Starting email queue run...')
+    
+    const { sentIds, ...results } = await processEmailQueue({ timeBudgetMs: 25000 })
+    
+    return NextResponse.json({
+      success: true,
+      message: `Processed ${results.processed} emails. Sent ${results.sent}, ${results.retrying} to retry, ${results.deadLettered} dead-lettered${results.throttled ? ' (throttled)' : ''}.`,
+      details: results
+    })
+    
+  } catch (error) {
+    console.error('❌ Email queue run failed:', error)
+    return NextResponse.json(
+      { 
+        success: false,
+        error: 'Email queue run failed', 
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,15 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
+import { resolvePublishedTemplateVersionId } from '@/lib/email-template-version-service'
+import { enqueueEmail, processEmailQueue } from '@/lib/email-queue-service'
+import { londonLocalTimeToUTC } from '@/lib/london-time'
+import { describeSuppressedRecipients, filterSuppressedRecipients } from '@/lib/email-suppression-service'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { DocumentPackError, resolveDocumentPacks } from '@/lib/document-pack-service'
 
 const SendEmailSchema = z.object({
-  to: z.string().email('Invalid email address'),
+  // Either a single address, or the client contacts picked in the modal (each gets their own copy)
+  to: z.string().email('Invalid email address').optional(),
+  contactIds: z.array(z.string().min(1)).min(1, 'Select at least one recipient').optional(),
   subject: z.string().min(1, 'Subject is required'),
   htmlContent: z.string().min(1, 'Content is required'),
   clientId: z.string().min(1, 'Client ID is required'),
-  templateId: z.string().min(1, 'Template ID is required')
+  templateId: z.string().min(1, 'Template ID is required'),
+  // Version the modal rendered; the published version is used when it isn't sent
+  templateVersionId: z.string().optional(),
+  // London date and time to send at; sent straight away when omitted
+  scheduledFor: z.object({
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+    time: z.string().regex(/^\d{2}:\d{2}$/, 'Time must be HH:mm')
+  }).optional(),
+  // Generated document packs to attach
+  attachmentIds: z.array(z.string().min(1)).optional()
+}).refine(data => data.to || data.contactIds, {
+  message: 'A recipient is required',
+  path: ['to']
 })
 
 // 🔧 GMAIL OPTIMIZATION: Helper functions to prevent email clipping
@@ -102,14 +121,11 @@ export async function POST(request: NextRequest) {
     console.log('📧 Send Email API: Starting request processing')
 
     // Authentication check
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      console.error('❌ Send Email API: Authentication failed - No session')
-      return NextResponse.json({ 
-        error: 'Authentication required',
-        message: 'Please log in to send emails'
-      }, { status: 401 })
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     console.log(`✅ Send Email API: User authenticated - ${session.user.name} (${session.user.email})`)
 
@@ -178,6 +194,14 @@ export async function POST(request: NextRequest) {
 
     console.log(`✅ Send Email API: Template found - ${template.name}`)
 
+    const renderedVersion = validatedData.templateVersionId
+      ? await db.emailTemplateVersion.findFirst({
+          where: { id: validatedData.templateVersionId, templateId: template.id },
+          select: { id: true }
+        })
+      : null
+    const templateVersionId = renderedVersion?.id || await resolvePublishedTemplateVersionId(template)
+
     // Get sender email settings from database
     let senderEmail = 'notifications@cloud9digital.in'
     let senderName = 'Numericalz'
@@ -212,137 +236,142 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate environment configuration
-    if (!process.env.BREVO_API_KEY) {
-      console.error('❌ Send Email API: BREVO_API_KEY not configured')
+    if (!process.env.BREVO_API_KEY && !process.env.RESEND_API_KEY) {
+      console.error('❌ Send Email API: Neither BREVO_API_KEY nor RESEND_API_KEY is configured')
       return NextResponse.json({
         error: 'Email service not configured',
         message: 'The email service is not properly configured. Please contact system administrator.'
       }, { status: 500 })
     }
 
-    // Send email using Brevo API
-    console.log(`📧 Send Email API: Sending email to ${validatedData.to}`)
-    let brevoResponse
-    try {
-      brevoResponse = await fetch('https://api.brevo.com/v3/smtp/email', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'api-key': process.env.BREVO_API_KEY!
-        },
-        body: JSON.stringify({
-          sender: {
-            name: senderName,
-            email: senderEmail
-          },
-          to: [
-            {
-              email: validatedData.to,
-              name: client.contactName || client.companyName
-            }
-          ],
-          replyTo: {
-            email: replyToEmail,
-            name: senderName
-          },
-          subject: validatedData.subject,
-          htmlContent: optimizeEmailForGmail(validatedData.htmlContent, validatedData.subject, emailSignature),
-          textContent: emailSignature 
-            ? `${stripHtmlTags(validatedData.htmlContent)}\n\n${stripHtmlTags(emailSignature)}`
-            : stripHtmlTags(validatedData.htmlContent),
-          headers: {
-            'X-Mailer': 'Numericalz Internal Management System',
-            'Reply-To': replyToEmail,
-            // Add importance headers only for template emails
-            'X-Priority': '1',
-            'X-MSMail-Priority': 'High',
-            'Importance': 'High'
-          }
-        })
-      })
-    } catch (networkError) {
-      console.error('❌ Send Email API: Network error while sending email:', networkError)
+    const scheduledFor = validatedData.scheduledFor
+      ? londonLocalTimeToUTC(validatedData.scheduledFor.date, validatedData.scheduledFor.time)
+      : null
+
+    if (scheduledFor && scheduledFor.getTime() <= Date.now()) {
       return NextResponse.json({
-        error: 'Network error',
-        message: 'Unable to connect to email service. Please check your internet connection and try again.'
-      }, { status: 503 })
+        error: 'Invalid schedule',
+        message: 'The scheduled time has already passed. Please choose a time in the future.'
+      }, { status: 400 })
     }
 
-    if (!brevoResponse.ok) {
-      let errorDetails
-      try {
-        errorDetails = await brevoResponse.json()
-      } catch {
-        errorDetails = { message: 'Unknown error' }
-      }
-      
-      console.error('❌ Send Email API: Brevo API error:', {
-        status: brevoResponse.status,
-        statusText: brevoResponse.statusText,
-        error: errorDetails
+    let recipients: Array<{ email: string; name: string }>
+    if (validatedData.contactIds) {
+      const contacts = await db.clientContact.findMany({
+        where: { id: { in: validatedData.contactIds }, clientId: client.id, isActive: true, email: { not: null } },
+        select: { name: true, email: true }
       })
-
-      if (brevoResponse.status === 401) {
-        return NextResponse.json({
-          error: 'Email service authentication failed',
-          message: 'Email service configuration is invalid. Please contact system administrator.'
-        }, { status: 500 })
-      }
-
-      if (brevoResponse.status === 400) {
+      if (contacts.length !== validatedData.contactIds.length) {
         return NextResponse.json({
-          error: 'Invalid email data',
-          message: 'The email data is invalid. Please check your template content and try again.'
+          error: 'Invalid recipients',
+          message: 'One or more selected contacts has no email address or is no longer active. Please refresh and try again.'
         }, { status: 400 })
       }
+      recipients = contacts.map(contact => ({ email: contact.email!, name: contact.name }))
+    } else {
+      recipients = [{ email: validatedData.to!, name: client.contactName || client.companyName }]
+    }
 
+    // Don't queue an email that can only be dead-lettered
+    const { deliverable, suppressed } = await filterSuppressedRecipients(recipients)
+    if (deliverable.length === 0) {
       return NextResponse.json({
-        error: 'Email service error',
-        message: 'Failed to send email. Please try again later or contact support.'
-      }, { status: 500 })
+        error: 'Recipient suppressed',
+        message: `${describeSuppressedRecipients(suppressed)}. Update the client's contact email or ask a manager to lift the suppression.`
+      }, { status: 400 })
     }
 
-    console.log('✅ Send Email API: Email sent successfully via Brevo')
-
-    // Log the email activity
-    console.log('📝 Send Email API: Logging email activity to database')
+    let packs: Awaited<ReturnType<typeof resolveDocumentPacks>>
     try {
-      await db.emailLog.create({
-        data: {
-          subject: validatedData.subject,
-          content: validatedData.htmlContent,
-          recipientEmail: validatedData.to,
-          recipientName: client.contactName || client.companyName,
-          emailType: 'CLIENT_COMMUNICATION',
-          status: 'SENT',
-          sentAt: new Date(),
-          triggeredBy: session.user.id,
-          clientId: validatedData.clientId,
-          templateId: validatedData.templateId,
-          fromEmail: senderEmail,
-          fromName: senderName
+      packs = await resolveDocumentPacks(client.id, validatedData.attachmentIds || [])
+    } catch (error) {
+      if (error instanceof DocumentPackError) {
+        return NextResponse.json({ error: 'Invalid attachments', message: error.message }, { status: error.status })
+      }
+      throw error
+    }
+    // An approval pack ties the email to the workflow it was generated for
+    const packWorkflow = packs[0]
+
+    // Queue a copy per recipient so each has its own delivery timeline and reply thread
+    const queueItemIds: string[] = []
+    for (const recipient of deliverable) {
+      console.log(`📬 Send Email API: Queueing email to ${recipient.email}${scheduledFor ? ` for ${scheduledFor.toISOString()}` : ''}`)
+      const { queueItemId } = await enqueueEmail({
+        to: [recipient],
+        subject: validatedData.subject,
+        htmlContent: optimizeEmailForGmail(validatedData.htmlContent, validatedData.subject, emailSignature),
+        textContent: emailSignature 
+          ? `${stripHtmlTags(validatedData.htmlContent)}\n\n${stripHtmlTags(emailSignature)}`
+          : stripHtmlTags(validatedData.htmlContent),
+        logContent: validatedData.htmlContent,
+        emailType: 'CLIENT_COMMUNICATION',
+        priority: 'HIGH',
+        scheduledFor,
+        createdBy: { id: session.user.id, name: session.user.name || session.user.email || 'Unknown' },
+        clientId: validatedData.clientId,
+        workflowType: packWorkflow?.workflowType || null,
+        workflowId: packWorkflow?.workflowId || null,
+        templateId: validatedData.templateId,
+        templateVersionId,
+        fromEmail: senderEmail,
+        fromName: senderName,
+        attachmentIds: packs.map(pack => pack.id)
+      })
+      queueItemIds.push(queueItemId)
+    }
+
+    const recipientEmails = deliverable.map(recipient => recipient.email)
+    // Suppressed contacts are skipped rather than blocking the whole send
+    const skippedNote = suppressed.length > 0 ? ` ${describeSuppressedRecipients(suppressed)}.` : ''
+
+    const details = {
+      recipient: recipientEmails.join(', '),
+      client: `${client.companyName} (${client.clientCode})`,
+      template: template.name,
+      sentBy: session.user.name,
+      ...(packs.length > 0 ? { attachments: packs.map(pack => pack.fileName) } : {})
+    }
+
+    if (scheduledFor) {
+      await logActivityEnhanced(request, {
+        action: 'EMAIL_SCHEDULED',
+        clientId: client.id,
+        details: {
+          queueItemIds,
+          recipientEmail: recipientEmails.join(', '),
+          templateName: template.name,
+          scheduledFor: scheduledFor.toISOString()
         }
       })
-      console.log('✅ Send Email API: Email activity logged successfully')
-    } catch (dbError) {
-      console.error('❌ Send Email API: Failed to log email activity:', dbError)
-      // Don't fail the request if logging fails, but warn the user
+
+      console.log('✅ Send Email API: Email scheduled')
       return NextResponse.json({ 
         success: true, 
-        message: 'Email sent successfully, but activity logging failed',
-        warning: 'Email was sent but may not appear in email history'
+        queued: true,
+        message: `Email scheduled for ${scheduledFor.toLocaleString('en-GB', { timeZone: 'Europe/London', dateStyle: 'medium', timeStyle: 'short' })}${skippedNote}`,
+        details: { ...details, scheduledFor: scheduledFor.toISOString() }
       })
     }
 
+    const run = await processEmailQueue({ ids: queueItemIds, timeBudgetMs: 15000 })
+
+    if (!queueItemIds.every(id => run.sentIds.includes(id))) {
+      console.log('⚠️ Send Email API: Email not sent yet - left on the queue to retry')
+      return NextResponse.json({ 
+        success: true, 
+        queued: true,
+        message: `Email queued - it could not be sent just now and will be retried automatically.${skippedNote}`,
+        details
+      })
+    }
+
+    console.log('✅ Send Email API: Email sent and logged')
+
     return NextResponse.json({ 
       success: true, 
-      message: 'Email sent and logged successfully',
-      details: {
-        recipient: validatedData.to,
-        client: `${client.companyName} (${client.clientCode})`,
-        template: template.name,
-        sentBy: session.user.name
-      }
+      message: `Email sent and logged successfully.${skippedNote}`,
+      details
     })
 
   } catch (error) {
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { EmailSuppressionError, liftEmailSuppression } from '@/lib/email-suppression-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+// DELETE /api/communication/suppressions/[id] - Lift a suppression so the address can be emailed again
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize('communication.suppressions.manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const suppression = await liftEmailSuppression(params.id, {
+      name: session.user.name || session.user.email || 'Unknown'
+    })
+
+    const clients = await db.client.findMany({
+      where: { contactEmail: { equals: suppression.email, mode: 'insensitive' } },
+      select: { id: true }
+    })
+
+    for (const client of clients) {
+      await logActivityEnhanced(request, {
+        action: 'EMAIL_SUPPRESSION_LIFTED',
+        clientId: client.id,
+        details: {
+          email: suppression.email,
+          reason: suppression.reason,
+          suppressionId: suppression.id
+        }
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `${suppression.email} can be emailed again`
+    })
+  } catch (error) {
+    if (error instanceof EmailSuppressionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error lifting email suppression:', error)
+    return NextResponse.json(
+      { error: 'Failed to lift email suppression' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,14 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
 import { db } from '@/lib/db'
 import { z } from 'zod'
+import { validateEmailTemplateFields } from '@/lib/email-variables'
+import { MAX_TEXT_MESSAGE_LENGTH } from '@/lib/messaging'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { createTemplateVersion, getPendingDraft, publishTemplateVersion } from '@/lib/email-template-version-service'
+import { authorize } from '@/lib/permission-service'
 
 const UpdateTemplateSchema = z.object({
   name: z.string().min(1, 'Template name is required').max(255, 'Name too long'),
   subject: z.string().min(1, 'Subject is required').max(255, 'Subject too long'),
   htmlContent: z.string().min(1, 'HTML content is required'),
   textContent: z.string().optional(),
+  smsContent: z.string().max(MAX_TEXT_MESSAGE_LENGTH, 'SMS text too long').optional(),
   category: z.enum([
     'GENERAL',
     'VAT_WORKFLOW',
@@ -24,7 +28,10 @@ const UpdateTemplateSchema = z.object({
     'SYSTEM_NOTIFICATIONS'
   ]),
   description: z.string().optional(),
-  isActive: z.boolean()
+  isActive: z.boolean(),
+  // false saves the wording as a draft without changing what is sent
+  publish: z.boolean().default(true),
+  changeNote: z.string().max(500).optional()
 })
 
 // GET /api/communication/templates/[id] - Get specific template
@@ -33,9 +40,9 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const template = await db.emailTemplate.findUnique({
@@ -47,6 +54,14 @@ export async function GET(
             name: true,
             email: true
           }
+        },
+        publishedVersion: {
+          select: {
+            id: true,
+            version: true,
+            publishedAt: true,
+            publishedByName: true
+          }
         }
       }
     })
@@ -55,9 +70,13 @@ export async function GET(
       return NextResponse.json({ error: 'Template not found' }, { status: 404 })
     }
 
+    // The editor opens an unpublished draft in preference to the live wording
+    const draft = await getPendingDraft(template.id)
+
     return NextResponse.json({
       success: true,
-      template
+      template,
+      draft
     })
 
   } catch (error) {
@@ -74,17 +93,11 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Check if user has permission to update templates
-    if (!['PARTNER', 'MANAGER'].includes(session.user.role)) {
-      return NextResponse.json({ 
-        error: 'Insufficient permissions. Only Partners and Managers can update templates.' 
-      }, { status: 403 })
+    const auth = await authorize('templates.edit')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const template = await db.emailTemplate.findUnique({
       where: { id: params.id }
@@ -95,7 +108,7 @@ export async function PUT(
     }
 
     // Check if it's a system template and user is not the creator
-    if (template.isSystem && session.user.role !== 'PARTNER') {
+    if (template.isSystem && !auth.can('templates.edit_system')) {
       return NextResponse.json({
         error: 'Cannot modify system templates'
       }, { status: 403 })
@@ -104,6 +117,15 @@ export async function PUT(
     const body = await request.json()
     const validatedData = UpdateTemplateSchema.parse(body)
 
+    // Reject templates the engine can't render or that use variables the category doesn't have
+    const templateErrors = validateEmailTemplateFields(validatedData, validatedData.category)
+    if (templateErrors.length > 0) {
+      return NextResponse.json({
+        error: 'Template has errors',
+        details: templateErrors
+      }, { status: 400 })
+    }
+
     // Check if new name conflicts with existing template (excluding current one)
     if (validatedData.name !== template.name) {
       const existingTemplate = await db.emailTemplate.findUnique({
@@ -117,9 +139,48 @@ export async function PUT(
       }
     }
 
+    const { publish, changeNote, subject, htmlContent, textContent, smsContent, ...details } = validatedData
+
+    const author = { id: session.user.id, name: session.user.name || session.user.email || 'Unknown' }
+    const draft = await getPendingDraft(template.id)
+
+    // Leaving textContent or smsContent out keeps the current plain text or SMS version
+    const wording = {
+      subject,
+      htmlContent,
+      textContent: textContent ?? (draft || template).textContent,
+      smsContent: smsContent ?? (draft || template).smsContent
+    }
+    const matches = (existing: { subject: string; htmlContent: string; textContent: string | null; smsContent: string | null }) =>
+      wording.subject === existing.subject
+      && wording.htmlContent === existing.htmlContent
+      && (wording.textContent || null) === (existing.textContent || null)
+      && (wording.smsContent || null) === (existing.smsContent || null)
+
+    // Publishing an unchanged draft publishes it as is; otherwise only save a version when the
+    // wording differs from what it would replace
+    let version = null
+    if (publish && draft && matches(draft)) {
+      version = await publishTemplateVersion(template.id, draft.id, author)
+    } else if (!matches(publish ? template : (draft || template))) {
+      version = await createTemplateVersion(template.id, wording, author, { publish, changeNote })
+    }
+
+    if (version) {
+      await logActivityEnhanced(request, {
+        action: publish ? 'EMAIL_TEMPLATE_PUBLISHED' : 'EMAIL_TEMPLATE_DRAFT_SAVED',
+        details: {
+          templateId: template.id,
+          templateName: details.name,
+          version: version.version,
+          changeNote: changeNote || null
+        }
+      })
+    }
+
     const updatedTemplate = await db.emailTemplate.update({
       where: { id: params.id },
-      data: validatedData,
+      data: details,
       include: {
         creator: {
           select: {
@@ -134,7 +195,12 @@ export async function PUT(
     return NextResponse.json({
       success: true,
       template: updatedTemplate,
-      message: 'Email template updated successfully'
+      version,
+      message: !version
+        ? 'Email template updated successfully'
+        : publish
+          ? `Version ${version.version} published`
+          : `Draft saved as version ${version.version}`
     })
 
   } catch (error) {
@@ -159,16 +225,9 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Check if user has permission to delete templates
-    if (!['PARTNER', 'MANAGER'].includes(session.user.role)) {
-      return NextResponse.json({ 
-        error: 'Insufficient permissions. Only Partners and Managers can delete templates.' 
-      }, { status: 403 })
+    const auth = await authorize('templates.edit')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const template = await db.emailTemplate.findUnique({
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { z } from 'zod'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import {
+  publishTemplateVersion,
+  rollbackTemplateVersion,
+  TemplateVersionError
+} from '@/lib/email-template-version-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const UpdateVersionSchema = z.object({
+  action: z.enum(['publish', 'rollback'])
+})
+
+// PUT /api/communication/templates/[id]/versions/[versionId] - Publish a draft or roll back to a version
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; versionId: string } }
+) {
+  try {
+    const auth = await authorize('templates.edit')
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const template = await db.emailTemplate.findUnique({
+      where: { id: params.id },
+      select: { id: true, name: true, isSystem: true }
+    })
+
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+
+    if (template.isSystem && !auth.can('templates.edit_system')) {
+      return NextResponse.json({
+        error: 'Cannot modify system templates'
+      }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const { action } = UpdateVersionSchema.parse(body)
+    const author = { id: session.user.id, name: session.user.name || session.user.email || 'Unknown' }
+
+    const version = action === 'publish'
+      ? await publishTemplateVersion(template.id, params.versionId, author)
+      : await rollbackTemplateVersion(template.id, params.versionId, author)
+
+    await logActivityEnhanced(request, {
+      action: action === 'publish' ? 'EMAIL_TEMPLATE_PUBLISHED' : 'EMAIL_TEMPLATE_ROLLED_BACK',
+      details: {
+        templateId: template.id,
+        templateName: template.name,
+        version: version.version,
+        restoredFromVersion: version.restoredFromVersion
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      version,
+      message: action === 'publish'
+        ? `Version ${version.version} published`
+        : `Rolled back to version ${version.restoredFromVersion} as version ${version.version}`
+    })
+
+  } catch (error) {
+    if (error instanceof TemplateVersionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Error updating template version:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: error.errors
+      }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      error: 'Failed to update template version'
+    }, { status: 500 })
+  }
+}
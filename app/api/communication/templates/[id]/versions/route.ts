@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { getTemplateVersions } from '@/lib/email-template-version-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+// GET /api/communication/templates/[id]/versions - Version history, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const template = await db.emailTemplate.findUnique({
+      where: { id: params.id },
+      select: { id: true, name: true, category: true, isSystem: true }
+    })
+
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+
+    const versions = await getTemplateVersions(template.id)
+
+    return NextResponse.json({
+      success: true,
+      template,
+      versions
+    })
+
+  } catch (error) {
+    console.error('Error fetching template versions:', error)
+    return NextResponse.json({
+      error: 'Failed to fetch template versions'
+    }, { status: 500 })
+  }
+}
@@ -1,14 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
 import { db } from '@/lib/db'
 import { z } from 'zod'
+import { validateEmailTemplateFields } from '@/lib/email-variables'
+import { MAX_TEXT_MESSAGE_LENGTH } from '@/lib/messaging'
+import { ensureInitialVersion } from '@/lib/email-template-version-service'
+import { authorize } from '@/lib/permission-service'
 
 const CreateTemplateSchema = z.object({
   name: z.string().min(1, 'Template name is required').max(255, 'Name too long'),
   subject: z.string().min(1, 'Subject is required').max(255, 'Subject too long'),
   htmlContent: z.string().min(1, 'HTML content is required'),
   textContent: z.string().optional(),
+  smsContent: z.string().max(MAX_TEXT_MESSAGE_LENGTH, 'SMS text too long').optional(),
   category: z.enum([
     'GENERAL',
     'VAT_WORKFLOW',
@@ -30,9 +33,9 @@ const CreateTemplateSchema = z.object({
 // GET /api/communication/templates - Get all email templates
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const { searchParams } = new URL(request.url)
@@ -80,21 +83,24 @@ export async function GET(request: NextRequest) {
 // POST /api/communication/templates - Create new email template
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Check if user has permission to create templates
-    if (!['PARTNER', 'MANAGER'].includes(session.user.role)) {
-      return NextResponse.json({ 
-        error: 'Insufficient permissions. Only Partners and Managers can create templates.' 
-      }, { status: 403 })
+    const auth = await authorize('templates.edit')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const body = await request.json()
     const validatedData = CreateTemplateSchema.parse(body)
 
+    // Reject templates the engine can't render or that use variables the category doesn't have
+    const templateErrors = validateEmailTemplateFields(validatedData, validatedData.category)
+    if (templateErrors.length > 0) {
+      return NextResponse.json({
+        error: 'Template has errors',
+        details: templateErrors
+      }, { status: 400 })
+    }
+
     // Check if template name already exists
     const existingTemplate = await db.emailTemplate.findUnique({
       where: { name: validatedData.name }
@@ -109,6 +115,7 @@ export async function POST(request: NextRequest) {
     const template = await db.emailTemplate.create({
       data: {
         ...validatedData,
+        smsContent: validatedData.smsContent?.trim() || null,
         createdBy: session.user.id,
         variables: JSON.stringify([
           '{{client.companyName}}',
@@ -132,6 +139,8 @@ export async function POST(request: NextRequest) {
       }
     })
 
+    await ensureInitialVersion(template.id, 'Template created')
+
     return NextResponse.json({
       success: true,
       template,
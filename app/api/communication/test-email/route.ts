@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 
 const TestEmailSchema = z.object({
@@ -17,14 +16,11 @@ export async function POST(request: NextRequest) {
     console.log('🔧 Test Email API: Starting request processing')
 
     // Authentication check
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      console.error('❌ Test Email API: Authentication failed - No session')
-      return NextResponse.json({ 
-        error: 'Authentication required',
-        message: 'Please log in to send test emails'
-      }, { status: 401 })
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     console.log(`✅ Test Email API: User authenticated - ${session.user.name} (${session.user.email})`)
 
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { getComprehensiveCompanyData } from '@/lib/companies-house'
 
 // Force dynamic rendering for this route since it uses session
@@ -17,13 +16,9 @@ export async function GET(
   { params }: { params: { companyNumber: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const { companyNumber } = params
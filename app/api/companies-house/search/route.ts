@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { searchCompanies } from '@/lib/companies-house'
 
 // Force dynamic rendering for this route since it uses request parameters
@@ -19,13 +18,9 @@ export const revalidate = 0 // Always fetch fresh data
  */
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const { searchParams } = new URL(request.url)
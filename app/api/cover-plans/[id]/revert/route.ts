@@ -0,0 +1,47 @@
+/**
+ * Cover Plan Revert API
+ *
+ * @route POST /api/cover-plans/[id]/revert - Give covered work back now rather than when the leave ends
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { revertCoverPlan, CoverPlanError } from '@/lib/cover-plan-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize('clients.assign')
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const plan = await revertCoverPlan(params.id, {
+      id: session.user.id,
+      name: session.user.name || session.user.email || 'Unknown',
+      email: session.user.email || '',
+      role: session.user.role || 'USER'
+    })
+    const returned = plan.items.filter(item => item.revertedAt).length
+
+    return NextResponse.json({
+      success: true,
+      message: `${returned} item${returned === 1 ? '' : 's'} back with ${plan.user.name}`,
+      plan
+    })
+  } catch (error) {
+    if (error instanceof CoverPlanError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error reverting cover plan:', error)
+    return NextResponse.json(
+      { error: 'Failed to revert cover plan' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Cover Plan Preview API
+ *
+ * @route GET /api/cover-plans/preview?leaveId= - Work due while someone is away, with suggested cover
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { previewCoverPlan, CoverPlanError } from '@/lib/cover-plan-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize('clients.assign')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const leaveId = request.nextUrl.searchParams.get('leaveId')
+    if (!leaveId) {
+      return NextResponse.json({ error: 'leaveId is required' }, { status: 400 })
+    }
+
+    const preview = await previewCoverPlan(leaveId)
+
+    return NextResponse.json({ success: true, preview })
+  } catch (error) {
+    if (error instanceof CoverPlanError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error building cover plan:', error)
+    return NextResponse.json(
+      { error: 'Failed to build cover plan' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { revertFinishedCoverPlans } from '@/lib/cover-plan-service'
+
+/**
+ * Cover Plan Return Job
+ *
+ * Triggered daily by GitHub Actions. Gives covered work back to everyone whose leave has ended.
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    // Security: Same secret as VAT quarter auto-creation
+    const authHeader = request.headers.get('authorization')
+    const expectedToken = process.env.VAT_AUTO_CREATE_SECRET
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: 'Cover plan returns not configured' },
+        { status: 500 }
+      )
+    }
+
+    if (!authHeader || authHeader !== `Bearer ${expectedToken}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    console.log('🔄 Returning covered work...')
+
+    const plans = await revertFinishedCoverPlans()
+    const returned = plans.reduce((total, plan) => total + plan.items.filter(item => item.revertedAt).length, 0)
+
+    console.log(`✅ Cover plan returns completed: ${plans.length} plans, ${returned} items returned`)
+
+    return NextResponse.json({
+      success: true,
+      message: `Reverted ${plans.length} cover plans. ${returned} items went back to their usual assignee.`,
+      details: plans.map(plan => ({
+        coverPlanId: plan.id,
+        userName: plan.user.name,
+        returned: plan.items.filter(item => item.revertedAt).length,
+        leftWithCover: plan.items.filter(item => item.revertNote).length
+      }))
+    })
+
+  } catch (error) {
+    console.error('❌ Cover plan returns failed:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Cover plan returns failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
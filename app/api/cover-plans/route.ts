@@ -0,0 +1,87 @@
+/**
+ * Cover Plans API
+ *
+ * Hands someone's due-soon VAT quarters and accounts workflows to colleagues while they are on
+ * leave. The work goes back to them when the leave ends.
+ *
+ * @route GET  /api/cover-plans - Cover plans (?status=ACTIVE, ?userId= for one person)
+ * @route POST /api/cover-plans - Put cover in place for a leave entry
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
+import { createCoverPlan, getCoverPlans, CoverPlanError } from '@/lib/cover-plan-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const CreateCoverPlanSchema = z.object({
+  leaveId: z.string().min(1),
+  // Cover picked instead of the suggestion, keyed by workflow id
+  choices: z.record(z.string()).optional()
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { searchParams } = request.nextUrl
+    const plans = await getCoverPlans({
+      status: searchParams.get('status') || undefined,
+      userId: searchParams.get('userId') || undefined
+    })
+
+    return NextResponse.json({ success: true, plans })
+  } catch (error) {
+    console.error('Error fetching cover plans:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch cover plans' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize('clients.assign')
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const body = await request.json()
+    const validation = CreateCoverPlanSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const { plan, skipped } = await createCoverPlan(validation.data.leaveId, {
+      id: session.user.id,
+      name: session.user.name || session.user.email || 'Unknown',
+      email: session.user.email || '',
+      role: session.user.role || 'USER'
+    }, validation.data.choices)
+
+    return NextResponse.json({
+      success: true,
+      message: `${plan.items.length} item${plan.items.length === 1 ? '' : 's'} handed over while ${plan.user.name} is away`,
+      plan,
+      skipped
+    })
+  } catch (error) {
+    if (error instanceof CoverPlanError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error creating cover plan:', error)
+    return NextResponse.json(
+      { error: 'Failed to create cover plan' },
+      { status: 500 }
+    )
+  }
+}
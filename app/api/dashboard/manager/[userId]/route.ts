@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 
 export const dynamic = 'force-dynamic'
@@ -20,15 +19,9 @@ export async function GET(
   { params }: { params: { userId: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Only managers and partners can access manager dashboards
-    if (!['MANAGER', 'PARTNER'].includes(session.user.role)) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    const auth = await authorize('dashboard.team')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const userId = params.userId
@@ -1,19 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { calculateYearEnd } from '@/lib/year-end-utils'
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Only allow managers and partners to access this endpoint
-    if (session.user.role !== 'MANAGER' && session.user.role !== 'PARTNER') {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    const auth = await authorize('dashboard.team')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const pendingClients = []
@@ -222,15 +216,11 @@ export async function GET(request: NextRequest) {
 // Handle updating workflow status to "PAPERWORK_CHASED"
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Only allow managers and partners to update workflow status
-    if (session.user.role !== 'MANAGER' && session.user.role !== 'PARTNER') {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    const auth = await authorize('dashboard.team')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const { workflowId, workflowType } = await request.json()
 
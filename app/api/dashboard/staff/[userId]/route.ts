@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 
 export const dynamic = 'force-dynamic'
@@ -19,14 +18,14 @@ export async function GET(
   { params }: { params: { userId: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
-    // Staff can only access their own dashboard, managers/partners can access any staff dashboard
-    if (session.user.role === 'STAFF' && session.user.id !== params.userId) {
+    // Users can only access their own dashboard unless they can see team dashboards
+    if (!auth.can('dashboard.team') && session.user.id !== params.userId) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -1,21 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { getVATFilingMonthsForQuarterGroup } from '@/lib/vat-workflow'
 import { logActivityEnhanced, ActivityHelpers } from '@/lib/activity-middleware'
 import { AssignmentNotificationService } from '@/lib/assignment-notifications'
+import { getLeaveWarning } from '@/lib/staff-leave-service'
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Only allow managers and partners to access this endpoint
-    if (session.user.role !== 'MANAGER' && session.user.role !== 'PARTNER') {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    const auth = await authorize('dashboard.team')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     // Get current month in London timezone
@@ -143,15 +138,11 @@ export async function GET(request: NextRequest) {
 // Handle quick assignment of VAT quarter to a user
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Only allow managers and partners to assign VAT quarters
-    if (session.user.role !== 'MANAGER' && session.user.role !== 'PARTNER') {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    const auth = await authorize('dashboard.team')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const { vatQuarterId, assignedUserId } = await request.json()
 
@@ -267,7 +258,8 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      message: `VAT quarter assigned to ${assignedUser.name || assignedUser.email} for ${vatQuarter.client.companyName}`
+      message: `VAT quarter assigned to ${assignedUser.name || assignedUser.email} for ${vatQuarter.client.companyName}`,
+      warning: await getLeaveWarning(assignedUserId, vatQuarter.filingDueDate)
     })
 
   } catch (error) {
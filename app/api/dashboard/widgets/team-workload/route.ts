@@ -1,26 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
+import { getTeamScope, teamUserWhere, TeamError } from '@/lib/team-service'
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize('dashboard.team')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
-    // Only managers and partners can access this endpoint
-    if (!['MANAGER', 'PARTNER'].includes(session.user.role)) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
+    // Managers see the teams they work in; ?teamId= narrows to one team
+    const scope = await getTeamScope(session.user.id, {
+      viewAll: auth.can('teams.view_all'),
+      teamId: request.nextUrl.searchParams.get('teamId')
+    })
 
     // PERFORMANCE OPTIMIZATION: Use more efficient queries with counts
     // Get users with aggregated counts instead of fetching all relations
     const teamWorkload = await db.user.findMany({
       where: { 
-        isActive: true
+        isActive: true,
+        ...teamUserWhere(scope)
       },
       select: {
         id: true,
@@ -103,6 +105,9 @@ export async function GET(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof TeamError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error('Team workload API error:', error)
     return NextResponse.json({
       error: 'Failed to fetch team workload data'
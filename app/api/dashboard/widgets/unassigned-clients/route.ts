@@ -1,24 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
+import { getTeamScope, teamClientWhere, TeamError } from '@/lib/team-service'
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize('dashboard.team')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
-    // Only managers and partners can access this endpoint
-    if (!['MANAGER', 'PARTNER'].includes(session.user.role)) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
+    // Managers see the teams they work in; ?teamId= narrows to one team
+    const scope = await getTeamScope(session.user.id, {
+      viewAll: auth.can('teams.view_all'),
+      teamId: request.nextUrl.searchParams.get('teamId')
+    })
 
     // Get all active clients with assignment data
     const allClients = await db.client.findMany({
-      where: { isActive: true },
+      where: { isActive: true, ...teamClientWhere(scope) },
       include: {
         assignedUser: true,
         ltdCompanyAssignedUser: true,
@@ -57,6 +58,9 @@ export async function GET(request: NextRequest) {
     return response
 
   } catch (error) {
+    if (error instanceof TeamError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error('Unassigned clients API error:', error)
     return NextResponse.json({
       error: 'Failed to fetch unassigned clients data'
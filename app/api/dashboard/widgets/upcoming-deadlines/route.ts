@@ -1,20 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
+import { getTeamScope, teamClientWhere, TeamError } from '@/lib/team-service'
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize('dashboard.team')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
-    // Only managers and partners can access this endpoint
-    if (!['MANAGER', 'PARTNER'].includes(session.user.role)) {
-      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-    }
+    // Managers see the teams they work in; ?teamId= narrows to one team
+    const scope = await getTeamScope(session.user.id, {
+      viewAll: auth.can('teams.view_all'),
+      teamId: request.nextUrl.searchParams.get('teamId')
+    })
 
     // Get current date for calculations
     const now = new Date()
@@ -26,12 +27,27 @@ export async function GET(request: NextRequest) {
 
     // Get all active clients with relevant deadline data
     const allClients = await db.client.findMany({
-      where: { isActive: true },
+      where: { isActive: true, ...teamClientWhere(scope) },
       include: {
         vatQuartersWorkflow: {
           where: { isCompleted: false },
           orderBy: { quarterEndDate: 'asc' },
           take: 1
+        },
+        payrollRuns: {
+          where: {
+            isCompleted: false,
+            fpsDueDate: { gte: now, lte: next90Days }
+          },
+          orderBy: { fpsDueDate: 'asc' }
+        },
+        cisReturns: {
+          where: {
+            isCompleted: false,
+            dueDate: { gte: now, lte: next90Days },
+            scheme: { isActive: true }
+          },
+          orderBy: { dueDate: 'asc' }
         }
       }
     })
@@ -51,6 +67,20 @@ export async function GET(request: NextRequest) {
         days30: 0,
         days60: 0,
         days90: 0
+      },
+      payroll: {
+        days7: 0,
+        days15: 0,
+        days30: 0,
+        days60: 0,
+        days90: 0
+      },
+      cis: {
+        days7: 0,
+        days15: 0,
+        days30: 0,
+        days60: 0,
+        days90: 0
       }
     }
 
@@ -87,6 +117,32 @@ export async function GET(request: NextRequest) {
           }
         })
       }
+
+      // Payroll FPS deadlines (one per run)
+      if (client.requiresPayroll) {
+        client.payrollRuns.forEach(run => {
+          const fpsDue = new Date(run.fpsDueDate)
+          if (fpsDue >= currentDate) {
+            if (fpsDue <= next7Days) deadlineBreakdown.payroll.days7++
+            else if (fpsDue <= next15Days) deadlineBreakdown.payroll.days15++
+            else if (fpsDue <= next30Days) deadlineBreakdown.payroll.days30++
+            else if (fpsDue <= next60Days) deadlineBreakdown.payroll.days60++
+            else if (fpsDue <= next90Days) deadlineBreakdown.payroll.days90++
+          }
+        })
+      }
+
+      // CIS300 monthly return deadlines
+      client.cisReturns.forEach(cisReturn => {
+        const cisDue = new Date(cisReturn.dueDate)
+        if (cisDue >= currentDate) {
+          if (cisDue <= next7Days) deadlineBreakdown.cis.days7++
+          else if (cisDue <= next15Days) deadlineBreakdown.cis.days15++
+          else if (cisDue <= next30Days) deadlineBreakdown.cis.days30++
+          else if (cisDue <= next60Days) deadlineBreakdown.cis.days60++
+          else if (cisDue <= next90Days) deadlineBreakdown.cis.days90++
+        }
+      })
     }
 
     const response = NextResponse.json({
@@ -102,6 +158,9 @@ export async function GET(request: NextRequest) {
     return response
 
   } catch (error) {
+    if (error instanceof TeamError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
     console.error('Upcoming deadlines API error:', error)
     return NextResponse.json({
       error: 'Failed to fetch upcoming deadlines data'
@@ -6,8 +6,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { dualEmailService } from '@/lib/email-service-dual'
 import { z } from 'zod'
 
@@ -20,10 +19,11 @@ const TestEmailSchema = z.object({
 export async function POST(request: NextRequest) {
   try {
     // Authentication check
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize('communication.test_tools')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     // Validate request body
     const body = await request.json()
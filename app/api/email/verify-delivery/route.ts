@@ -6,17 +6,16 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import type { EmailStatus } from '@prisma/client'
 
 export async function POST(request: NextRequest) {
   try {
     // Authentication check
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize('communication.test_tools')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const body = await request.json()
@@ -278,9 +277,9 @@ async function isKnownClientEmail(email: string): Promise<boolean> {
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize('communication.test_tools')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     // Get statistics about email delivery status
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { exchangeAuthorisationCode } from '@/lib/hmrc-api'
+import { saveVATToken } from '@/lib/hmrc-vat-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/hmrc/vat/callback?code=...&state=...
+ * HMRC redirect after sign-in: exchange the code for tokens and return to the VAT deadlines page
+ */
+export async function GET(request: NextRequest) {
+  const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000'
+  const returnTo = (status: string) => {
+    const response = NextResponse.redirect(`${baseUrl}/dashboard/clients/vat-dt?hmrc=${status}`)
+    response.cookies.delete('hmrc_oauth_state')
+    return response
+  }
+
+  try {
+    const auth = await authorize('hmrc.connect')
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const { searchParams } = new URL(request.url)
+    const code = searchParams.get('code')
+    const state = searchParams.get('state')
+    const expectedState = request.cookies.get('hmrc_oauth_state')?.value
+
+    // HMRC sends error=access_denied when the user declines
+    if (searchParams.get('error') || !code) {
+      return returnTo('denied')
+    }
+
+    if (!state || state !== expectedState) {
+      return returnTo('invalid_state')
+    }
+
+    const redirectUri = `${baseUrl}/api/hmrc/vat/callback`
+    const token = await exchangeAuthorisationCode(code, redirectUri)
+    await saveVATToken(token, session.user.name || session.user.email || 'Unknown User')
+
+    await logActivityEnhanced(request, {
+      action: 'HMRC_VAT_CONNECTED',
+      details: {
+        connectedBy: session.user.name || session.user.email,
+        scope: token.scope
+      }
+    })
+
+    return returnTo('connected')
+
+  } catch (error) {
+    console.error('Error completing HMRC connection:', error)
+    return returnTo('error')
+  }
+}
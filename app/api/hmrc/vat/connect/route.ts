@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { randomBytes } from 'crypto'
+import { authorize } from '@/lib/permission-service'
+import { getVATAuthorisationUrl } from '@/lib/hmrc-api'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/hmrc/vat/connect
+ * Send a manager or partner to HMRC to grant the MTD VAT scopes; HMRC redirects back to the callback route
+ */
+export async function GET() {
+  try {
+    const auth = await authorize('hmrc.connect')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const state = randomBytes(16).toString('hex')
+    const redirectUri = `${process.env.NEXTAUTH_URL || 'http://localhost:3000'}/api/hmrc/vat/callback`
+
+    const response = NextResponse.redirect(getVATAuthorisationUrl(redirectUri, state))
+    response.cookies.set('hmrc_oauth_state', state, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: 10 * 60,
+      path: '/api/hmrc/vat'
+    })
+
+    return response
+
+  } catch (error) {
+    console.error('Error starting HMRC connection:', error)
+    return NextResponse.json(
+      { error: 'Failed to start HMRC connection' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { getHMRCBaseUrl } from '@/lib/hmrc-api'
+import { clearVATToken, getStoredVATToken } from '@/lib/hmrc-vat-service'
+import { authorize } from '@/lib/permission-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/hmrc/vat
+ * Whether the practice is connected to the HMRC MTD VAT API
+ */
+export async function GET() {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const token = await getStoredVATToken()
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        connected: !!token,
+        // An expired access token is fine while a refresh token is held
+        canRefresh: !!token?.refreshToken,
+        expiresAt: token?.expiresAt || null,
+        connectedAt: token?.connectedAt || null,
+        connectedByUserName: token?.connectedByUserName || null,
+        baseUrl: getHMRCBaseUrl()
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching HMRC connection status:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch HMRC connection status' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/hmrc/vat
+ * Disconnect the practice from HMRC (managers and partners only)
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await authorize('hmrc.connect')
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    await clearVATToken()
+
+    await logActivityEnhanced(request, {
+      action: 'HMRC_VAT_DISCONNECTED',
+      details: {
+        disconnectedBy: session.user.name || session.user.email
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Disconnected from HMRC'
+    })
+
+  } catch (error) {
+    console.error('Error disconnecting HMRC:', error)
+    return NextResponse.json(
+      { error: 'Failed to disconnect HMRC' },
+      { status: 500 }
+    )
+  }
+}
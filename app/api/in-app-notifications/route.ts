@@ -1,8 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
 import { db } from '@/lib/db'
 import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
 
 // Schema for creating notifications
 const CreateNotificationSchema = z.object({
@@ -19,10 +18,11 @@ const CreateNotificationSchema = z.object({
 // GET /api/in-app-notifications - Get notifications for user
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const { searchParams } = new URL(request.url)
     const category = searchParams.get('category') // 'VAT', 'ACCOUNTS', 'REMINDERS', or null for all
@@ -101,14 +101,9 @@ export async function GET(request: NextRequest) {
 // POST /api/in-app-notifications - Create a new notification
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Only allow MANAGER and PARTNER roles to create notifications
-    if (session.user.role !== 'MANAGER' && session.user.role !== 'PARTNER') {
-      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    const auth = await authorize('notifications.send')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const body = await request.json()
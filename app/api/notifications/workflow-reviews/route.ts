@@ -1,23 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize('dashboard.team')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
+    // Which review queue to show - the manager's or the partner's
     const { searchParams } = new URL(request.url)
     const userRole = searchParams.get('role') || session.user.role
 
-    // Only managers and partners can access workflow reviews
-    if (!['MANAGER', 'PARTNER'].includes(userRole)) {
-      return NextResponse.json({ error: 'Access denied' }, { status: 403 })
-    }
-
     const reviewItems: any[] = []
 
     // Get VAT workflow reviews
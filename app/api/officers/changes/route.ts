@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/officers/changes
+ * Officer and PSC changes detected on Companies House refreshes, newest first
+ * Optional filters: clientId, officerId, days (default 30)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { searchParams } = new URL(request.url)
+    const clientId = searchParams.get('clientId')
+    const officerId = searchParams.get('officerId')
+    const days = parseInt(searchParams.get('days') || '30')
+    const limit = parseInt(searchParams.get('limit') || '50')
+
+    const whereClause: any = {
+      client: { isActive: true }
+    }
+
+    if (clientId) {
+      whereClause.clientId = clientId
+    }
+
+    if (officerId) {
+      whereClause.officerId = officerId
+    } else {
+      whereClause.detectedAt = { gte: new Date(Date.now() - days * 24 * 60 * 60 * 1000) }
+    }
+
+    const changes = await db.officerChange.findMany({
+      where: whereClause,
+      include: {
+        client: {
+          select: {
+            id: true,
+            clientCode: true,
+            companyName: true,
+          }
+        }
+      },
+      orderBy: { detectedAt: 'desc' },
+      take: limit
+    })
+
+    return NextResponse.json({
+      success: true,
+      changes
+    })
+
+  } catch (error) {
+    console.error('Error fetching officer changes:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch officer changes' },
+      { status: 500 }
+    )
+  }
+}
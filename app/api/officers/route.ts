@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/officers
+ * Directors (or all officers) across active clients, with each person's appointment history
+ * People appointed to several client companies appear once with every appointment listed
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { searchParams } = new URL(request.url)
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '50')
+
+    const statusFilter = searchParams.get('statusFilter') || 'active' // 'active', 'all'
+    const roleFilter = searchParams.get('roleFilter') || 'directors' // 'directors', 'all'
+    const multipleOnly = searchParams.get('multipleOnly') === 'true'
+    const searchTerm = searchParams.get('searchTerm') || ''
+
+    const appointmentWhere: any = {
+      client: { isActive: true }
+    }
+
+    if (roleFilter === 'directors') {
+      appointmentWhere.officerRole = { contains: 'director' }
+    }
+
+    const whereClause: any = {
+      appointments: {
+        some: statusFilter === 'active'
+          ? { ...appointmentWhere, isActive: true }
+          : appointmentWhere
+      }
+    }
+
+    if (searchTerm) {
+      whereClause.OR = [
+        { name: { contains: searchTerm, mode: 'insensitive' } },
+        {
+          appointments: {
+            some: {
+              ...appointmentWhere,
+              client: {
+                isActive: true,
+                OR: [
+                  { companyName: { contains: searchTerm, mode: 'insensitive' } },
+                  { clientCode: { contains: searchTerm, mode: 'insensitive' } },
+                  { companyNumber: { contains: searchTerm, mode: 'insensitive' } }
+                ]
+              }
+            }
+          }
+        }
+      ]
+    }
+
+    const officers = await db.officer.findMany({
+      where: whereClause,
+      include: {
+        appointments: {
+          where: appointmentWhere,
+          include: {
+            client: {
+              select: {
+                id: true,
+                clientCode: true,
+                companyName: true,
+                companyNumber: true,
+                companyType: true,
+              }
+            }
+          },
+          orderBy: [
+            { isActive: 'desc' },
+            { appointedOn: 'desc' }
+          ]
+        },
+        pscRecords: {
+          where: { isActive: true },
+          select: {
+            clientId: true,
+            naturesOfControl: true,
+          }
+        }
+      },
+      orderBy: { name: 'asc' }
+    })
+
+    const officersWithCounts = officers.map(officer => ({
+      ...officer,
+      activeCompanyCount: new Set(
+        officer.appointments.filter(appointment => appointment.isActive).map(appointment => appointment.clientId)
+      ).size
+    }))
+
+    const filteredOfficers = multipleOnly
+      ? officersWithCounts.filter(officer => officer.activeCompanyCount > 1)
+      : officersWithCounts
+
+    const totalCount = filteredOfficers.length
+    const skip = (page - 1) * limit
+
+    return NextResponse.json({
+      success: true,
+      officers: filteredOfficers.slice(skip, skip + limit),
+      pagination: {
+        currentPage: page,
+        totalPages: Math.ceil(totalCount / limit),
+        totalCount: totalCount,
+        pageSize: limit
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching officers:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch officers' },
+      { status: 500 }
+    )
+  }
+}
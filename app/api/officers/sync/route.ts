@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { syncClientOfficers } from '@/lib/officer-sync'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/officers/sync
+ * Rebuild officer and PSC records from the Companies House data already stored on each client
+ * No Companies House calls are made - use a refresh to pick up the latest filings
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize('clients.refresh')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const clients = await db.client.findMany({
+      where: {
+        isActive: true,
+        OR: [
+          { officers: { not: null } },
+          { personsWithSignificantControl: { not: null } }
+        ]
+      },
+      select: {
+        id: true,
+        officers: true,
+        personsWithSignificantControl: true,
+      }
+    })
+
+    let changesDetected = 0
+    const failed: string[] = []
+
+    for (const client of clients) {
+      try {
+        const changes = await syncClientOfficers(client.id, client.officers, client.personsWithSignificantControl, 'BACKFILL')
+        changesDetected += changes.length
+      } catch (error) {
+        console.error(`Failed to sync officers for client ${client.id}:`, error)
+        failed.push(client.id)
+      }
+    }
+
+    await logActivityEnhanced(request, {
+      action: 'OFFICERS_REBUILT',
+      details: {
+        clientsProcessed: clients.length,
+        changesDetected,
+        failedCount: failed.length
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        clientsProcessed: clients.length,
+        changesDetected,
+        failed
+      },
+      message: `Officer records rebuilt for ${clients.length - failed.length} of ${clients.length} clients`
+    })
+
+  } catch (error) {
+    console.error('Error rebuilding officer records:', error)
+    return NextResponse.json(
+      { error: 'Failed to rebuild officer records' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Current User Permissions API
+ *
+ * The signed-in user's effective permissions, used by the navigation and pages to hide what the
+ * user can't do.
+ *
+ * @route GET /api/permissions/me - The signed-in user's permissions
+ */
+import { NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+export async function GET() {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    return NextResponse.json({ success: true, permissions: auth.permissions })
+  } catch (error) {
+    console.error('Error fetching permissions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch permissions' },
+      { status: 500 }
+    )
+  }
+}
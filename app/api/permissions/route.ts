@@ -0,0 +1,84 @@
+/**
+ * Role Permissions API
+ *
+ * The permission set for each role. Partners can change what managers and staff (and partners
+ * themselves) can do; permissions.manage always stays with partners.
+ *
+ * @route GET /api/permissions - Every role's permissions
+ * @route PUT /api/permissions - Replace one role's permissions
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { authorize, getRolePermissionMatrix, PermissionError, setRolePermissions } from '@/lib/permission-service'
+import { PERMISSIONS, USER_ROLE_VALUES } from '@/lib/permissions'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const RolePermissionsSchema = z.object({
+  role: z.enum(USER_ROLE_VALUES),
+  permissions: z.array(z.enum(PERMISSIONS))
+})
+
+export async function GET() {
+  try {
+    const auth = await authorize('permissions.manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const roles = await getRolePermissionMatrix()
+
+    return NextResponse.json({ success: true, roles })
+  } catch (error) {
+    console.error('Error fetching role permissions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch role permissions' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authorize('permissions.manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const body = await request.json()
+    const validation = RolePermissionsSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const { role, permissions } = validation.data
+    const previous = (await getRolePermissionMatrix()).find(summary => summary.role === role)
+    const updated = await setRolePermissions(role, permissions, session.user.id)
+
+    await logActivityEnhanced(request, {
+      action: 'ROLE_PERMISSIONS_CHANGED',
+      details: {
+        role,
+        granted: updated.permissions.filter(permission => !previous?.permissions.includes(permission)),
+        withdrawn: (previous?.permissions || []).filter(permission => !updated.permissions.includes(permission))
+      }
+    })
+
+    return NextResponse.json({ success: true, role: updated })
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error updating role permissions:', error)
+    return NextResponse.json(
+      { error: 'Failed to update role permissions' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Client Document Portal API (public)
+ *
+ * Unauthenticated endpoints used by the client-facing upload page.
+ * Access is controlled entirely by the magic link token.
+ *
+ * @route GET  /api/portal/[token] - Link details for the upload page
+ * @route POST /api/portal/[token] - Upload files (multipart/form-data)
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  resolvePortalLink,
+  saveClientUploads,
+  PortalLinkError,
+  DOCUMENT_CATEGORIES
+} from '@/lib/client-portal'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const portalLink = await resolvePortalLink(params.token)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        companyName: portalLink.companyName,
+        periodLabel: portalLink.workflow.periodLabel,
+        dueDate: portalLink.workflow.dueDate,
+        expiresAt: portalLink.expiresAt,
+        categories: DOCUMENT_CATEGORIES
+      }
+    })
+  } catch (error) {
+    if (error instanceof PortalLinkError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error loading client portal link:', error)
+    return NextResponse.json({ error: 'Failed to load upload link' }, { status: 500 })
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const portalLink = await resolvePortalLink(params.token)
+
+    const formData = await request.formData()
+    const files = formData.getAll('files').filter((entry): entry is File => entry instanceof File)
+
+    const { documents, stageAdvanced } = await saveClientUploads(portalLink, files, {
+      name: formData.get('name')?.toString(),
+      email: formData.get('email')?.toString(),
+      category: formData.get('category')?.toString(),
+      notes: formData.get('notes')?.toString()
+    })
+
+    console.log(`📎 Client portal upload: ${documents.length} file(s) for ${portalLink.companyName}${stageAdvanced ? ' - workflow moved to PAPERWORK_RECEIVED' : ''}`)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        uploaded: documents.map(document => ({
+          id: document.id,
+          fileName: document.fileName,
+          fileSize: document.fileSize
+        }))
+      },
+      message: `${documents.length} file${documents.length === 1 ? '' : 's'} uploaded successfully`
+    })
+  } catch (error) {
+    if (error instanceof PortalLinkError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error handling client portal upload:', error)
+    return NextResponse.json({ error: 'Failed to upload files' }, { status: 500 })
+  }
+}
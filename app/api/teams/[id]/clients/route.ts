@@ -0,0 +1,102 @@
+/**
+ * Team Client Portfolio API
+ *
+ * The clients a team looks after. Team leads can change their own team's portfolio; anyone else
+ * needs teams.manage.
+ *
+ * @route GET /api/teams/[id]/clients - Active clients in the portfolio
+ * @route PUT /api/teams/[id]/clients - Add clients to or remove them from the portfolio
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { authorize, permissionDeniedResponse } from '@/lib/permission-service'
+import { getTeam, getTeamClients, isTeamLead, TeamError, updateTeamClients } from '@/lib/team-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const UpdatePortfolioSchema = z.object({
+  addClientIds: z.array(z.string()).default([]),
+  removeClientIds: z.array(z.string()).default([])
+}).refine(data => data.addClientIds.length + data.removeClientIds.length > 0, {
+  message: 'Choose at least one client to add or remove'
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const team = await getTeam(params.id)
+    const clients = await getTeamClients(team.id)
+
+    return NextResponse.json({ success: true, clients })
+  } catch (error) {
+    if (error instanceof TeamError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error fetching team clients:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch team clients' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    if (!auth.can('teams.manage') && !(await isTeamLead(params.id, session.user.id))) {
+      return permissionDeniedResponse('teams.manage')
+    }
+
+    const body = await request.json()
+    const validation = UpdatePortfolioSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const result = await updateTeamClients(params.id, validation.data)
+    const team = await getTeam(params.id)
+
+    await logActivityEnhanced(request, {
+      action: 'TEAM_PORTFOLIO_UPDATED',
+      details: {
+        teamId: team.id,
+        teamName: team.name,
+        addedClientIds: validation.data.addClientIds,
+        removedClientIds: validation.data.removeClientIds,
+        added: result.added,
+        removed: result.removed
+      }
+    })
+
+    return NextResponse.json({ success: true, ...result, team })
+  } catch (error) {
+    if (error instanceof TeamError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error updating team clients:', error)
+    return NextResponse.json(
+      { error: 'Failed to update team clients' },
+      { status: 500 }
+    )
+  }
+}
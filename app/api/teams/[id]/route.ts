@@ -0,0 +1,129 @@
+/**
+ * Team API
+ *
+ * @route GET    /api/teams/[id] - A team with its lead and members
+ * @route PUT    /api/teams/[id] - Rename, change the lead, replace the members or deactivate
+ * @route DELETE /api/teams/[id] - Delete the team; its clients leave the portfolio
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { authorize } from '@/lib/permission-service'
+import { deleteTeam, getTeam, TeamError, updateTeam } from '@/lib/team-service'
+import { TEAM_NAME_MAX_LENGTH } from '@/lib/teams'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const UpdateTeamSchema = z.object({
+  name: z.string().trim().min(1, 'Team name is required').max(TEAM_NAME_MAX_LENGTH).optional(),
+  description: z.string().trim().max(500).optional().nullable(),
+  leadId: z.string().optional().nullable(),
+  memberIds: z.array(z.string()).optional(),
+  isActive: z.boolean().optional()
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const team = await getTeam(params.id)
+
+    return NextResponse.json({ success: true, team })
+  } catch (error) {
+    if (error instanceof TeamError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error fetching team:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch team' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize('teams.manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const validation = UpdateTeamSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const team = await updateTeam(params.id, validation.data)
+
+    await logActivityEnhanced(request, {
+      action: 'TEAM_UPDATED',
+      details: {
+        teamId: team.id,
+        teamName: team.name,
+        leadName: team.lead?.name || null,
+        memberCount: team.members.length,
+        isActive: team.isActive,
+        changedFields: Object.keys(validation.data)
+      }
+    })
+
+    return NextResponse.json({ success: true, team })
+  } catch (error) {
+    if (error instanceof TeamError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error updating team:', error)
+    return NextResponse.json(
+      { error: 'Failed to update team' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize('teams.manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const team = await deleteTeam(params.id)
+
+    await logActivityEnhanced(request, {
+      action: 'TEAM_DELETED',
+      details: {
+        teamId: team.id,
+        teamName: team.name,
+        clientCount: team.clientCount
+      }
+    })
+
+    return NextResponse.json({ success: true, message: `${team.name} deleted` })
+  } catch (error) {
+    if (error instanceof TeamError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error deleting team:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete team' },
+      { status: 500 }
+    )
+  }
+}
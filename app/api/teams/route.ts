@@ -0,0 +1,91 @@
+/**
+ * Teams API
+ *
+ * @route GET  /api/teams - Active teams (?mine=true for the teams the user works in; everything for
+ *                          users who can see every team, ?includeInactive=true with teams.manage)
+ * @route POST /api/teams - Create a team with its lead and members
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { authorize } from '@/lib/permission-service'
+import { createTeam, getTeams, TeamError } from '@/lib/team-service'
+import { TEAM_NAME_MAX_LENGTH } from '@/lib/teams'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const CreateTeamSchema = z.object({
+  name: z.string().trim().min(1, 'Team name is required').max(TEAM_NAME_MAX_LENGTH),
+  description: z.string().trim().max(500).optional().nullable(),
+  leadId: z.string().optional().nullable(),
+  memberIds: z.array(z.string()).default([])
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const { searchParams } = request.nextUrl
+    const mine = searchParams.get('mine') === 'true'
+    const includeInactive = searchParams.get('includeInactive') === 'true' && auth.can('teams.manage')
+
+    const teams = await getTeams({
+      userId: mine && !auth.can('teams.view_all') ? session.user.id : undefined,
+      includeInactive
+    })
+
+    return NextResponse.json({ success: true, teams })
+  } catch (error) {
+    console.error('Error fetching teams:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch teams' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize('teams.manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const validation = CreateTeamSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const team = await createTeam(validation.data)
+
+    await logActivityEnhanced(request, {
+      action: 'TEAM_CREATED',
+      details: {
+        teamId: team.id,
+        teamName: team.name,
+        leadName: team.lead?.name || null,
+        memberCount: team.members.length
+      }
+    })
+
+    return NextResponse.json({ success: true, team })
+  } catch (error) {
+    if (error instanceof TeamError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error creating team:', error)
+    return NextResponse.json(
+      { error: 'Failed to create team' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Time Entry API
+ *
+ * Users delete their own entries; deleting anyone else's needs time.view_all.
+ *
+ * @route DELETE /api/time-entries/[id] - Delete a time entry
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { authorize } from '@/lib/permission-service'
+import { deleteTimeEntry, TimeEntryError } from '@/lib/time-tracking-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const entry = await deleteTimeEntry(params.id, auth.can('time.view_all') ? undefined : session.user.id)
+
+    await logActivityEnhanced(request, {
+      action: 'TIME_ENTRY_DELETED',
+      clientId: entry.clientId,
+      details: {
+        timeEntryId: entry.id,
+        entryUserId: entry.userId,
+        workType: entry.workType,
+        companyName: entry.companyName,
+        periodLabel: entry.periodLabel,
+        minutes: entry.minutes
+      }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof TimeEntryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error deleting time entry:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete time entry' },
+      { status: 500 }
+    )
+  }
+}
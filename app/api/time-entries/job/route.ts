@@ -0,0 +1,57 @@
+/**
+ * Job Time API
+ *
+ * Time recorded on one VAT quarter or accounts workflow against the client's budget. Fees and
+ * costs are only included with time.view_all.
+ *
+ * @route GET /api/time-entries/job - Budget against actual (?workType=, ?workflowId=)
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { isAssignableWorkType } from '@/lib/assignment-engine'
+import { authorize } from '@/lib/permission-service'
+import { getJobTime, TimeEntryError } from '@/lib/time-tracking-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { searchParams } = request.nextUrl
+    const workType = searchParams.get('workType')
+    const workflowId = searchParams.get('workflowId')
+    if (!isAssignableWorkType(workType) || !workflowId) {
+      return NextResponse.json({ error: 'workType and workflowId are required' }, { status: 400 })
+    }
+
+    const job = await getJobTime({ workType, workflowId })
+
+    if (!auth.can('time.view_all')) {
+      return NextResponse.json({
+        success: true,
+        job: {
+          ...job,
+          fee: null,
+          cost: 0,
+          recoverability: null,
+          byUser: job.byUser.map(user => ({ ...user, cost: 0 }))
+        }
+      })
+    }
+
+    return NextResponse.json({ success: true, job })
+  } catch (error) {
+    if (error instanceof TimeEntryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error fetching job time:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch job time' },
+      { status: 500 }
+    )
+  }
+}
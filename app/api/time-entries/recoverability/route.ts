@@ -0,0 +1,52 @@
+/**
+ * Recoverability Report API
+ *
+ * Time cost against fee for VAT quarters and accounts workflows due in a date range, per job,
+ * client and staff member.
+ *
+ * @route GET /api/time-entries/recoverability - The report (?from=YYYY-MM-DD, ?to=YYYY-MM-DD; defaults to the last 12 months)
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { toLeaveDay } from '@/lib/staff-leave'
+import { getRecoverabilityReport } from '@/lib/time-tracking-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize('time.view_all')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { searchParams } = request.nextUrl
+    const fromParam = searchParams.get('from')
+    const toParam = searchParams.get('to')
+    if ((fromParam && !DATE_PATTERN.test(fromParam)) || (toParam && !DATE_PATTERN.test(toParam))) {
+      return NextResponse.json({ error: 'Use YYYY-MM-DD for dates' }, { status: 400 })
+    }
+
+    const to = toLeaveDay(toParam || new Date())
+    const from = fromParam
+      ? toLeaveDay(fromParam)
+      : new Date(Date.UTC(to.getUTCFullYear() - 1, to.getUTCMonth(), to.getUTCDate() + 1))
+    if (from > to) {
+      return NextResponse.json({ error: 'The start date must be before the end date' }, { status: 400 })
+    }
+
+    // Include jobs due at any time on the last day
+    const report = await getRecoverabilityReport(from, new Date(to.getTime() + 24 * 60 * 60 * 1000 - 1))
+
+    return NextResponse.json({ success: true, report })
+  } catch (error) {
+    console.error('Error building recoverability report:', error)
+    return NextResponse.json(
+      { error: 'Failed to build recoverability report' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Time Entries API
+ *
+ * Time recorded against VAT quarters and accounts workflows. Users see their own timesheet;
+ * anyone else's needs time.view_all.
+ *
+ * @route GET  /api/time-entries - A user's week of time (?userId=, ?week=YYYY-MM-DD, any day in the week)
+ * @route POST /api/time-entries - Record time manually
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { ASSIGNABLE_WORK_TYPES } from '@/lib/assignment-engine'
+import { authorize, permissionDeniedResponse } from '@/lib/permission-service'
+import { getWeekStart, MAX_ENTRY_MINUTES } from '@/lib/time-tracking'
+import { createManualEntry, getWeeklyTimesheet, TimeEntryError } from '@/lib/time-tracking-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const ManualEntrySchema = z.object({
+  workType: z.enum(ASSIGNABLE_WORK_TYPES),
+  workflowId: z.string().min(1),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD'),
+  minutes: z.number().int().min(1).max(MAX_ENTRY_MINUTES),
+  description: z.string().trim().max(500).optional().nullable()
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const { searchParams } = request.nextUrl
+    const userId = searchParams.get('userId') || session.user.id
+    if (userId !== session.user.id && !auth.can('time.view_all')) {
+      return permissionDeniedResponse('time.view_all')
+    }
+
+    const week = searchParams.get('week')
+    if (week && !/^\d{4}-\d{2}-\d{2}$/.test(week)) {
+      return NextResponse.json({ error: 'Use YYYY-MM-DD for the week' }, { status: 400 })
+    }
+
+    const timesheet = await getWeeklyTimesheet(userId, getWeekStart(week || new Date()))
+
+    return NextResponse.json({ success: true, timesheet })
+  } catch (error) {
+    console.error('Error fetching timesheet:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch timesheet' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const body = await request.json()
+    const validation = ManualEntrySchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const entry = await createManualEntry(session.user.id, validation.data)
+
+    await logActivityEnhanced(request, {
+      action: 'TIME_ENTRY_CREATED',
+      clientId: entry.clientId,
+      details: {
+        timeEntryId: entry.id,
+        workType: entry.workType,
+        companyName: entry.companyName,
+        periodLabel: entry.periodLabel,
+        date: validation.data.date,
+        minutes: entry.minutes
+      }
+    })
+
+    return NextResponse.json({ success: true, entry })
+  } catch (error) {
+    if (error instanceof TimeEntryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error recording time:', error)
+    return NextResponse.json(
+      { error: 'Failed to record time' },
+      { status: 500 }
+    )
+  }
+}
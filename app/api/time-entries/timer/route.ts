@@ -0,0 +1,108 @@
+/**
+ * Timer API
+ *
+ * Each user has at most one running timer. Starting a new one stops the old one.
+ *
+ * @route GET    /api/time-entries/timer - The user's running timer, if any
+ * @route POST   /api/time-entries/timer - Start timing a VAT quarter or accounts workflow
+ * @route DELETE /api/time-entries/timer - Stop the running timer
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { ASSIGNABLE_WORK_TYPES } from '@/lib/assignment-engine'
+import { authorize } from '@/lib/permission-service'
+import { formatMinutes } from '@/lib/time-tracking'
+import { getRunningTimer, startTimer, stopTimer, TimeEntryError } from '@/lib/time-tracking-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const StartTimerSchema = z.object({
+  workType: z.enum(ASSIGNABLE_WORK_TYPES),
+  workflowId: z.string().min(1),
+  description: z.string().trim().max(500).optional().nullable()
+})
+
+export async function GET() {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const timer = await getRunningTimer(auth.session.user.id)
+
+    return NextResponse.json({ success: true, timer })
+  } catch (error) {
+    console.error('Error fetching timer:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch timer' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const validation = StartTimerSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const { workType, workflowId, description } = validation.data
+    const { entry, stopped } = await startTimer(auth.session.user.id, { workType, workflowId }, description)
+
+    return NextResponse.json({
+      success: true,
+      message: stopped
+        ? `Timer started. Stopped ${stopped.companyName} after ${formatMinutes(stopped.minutes ?? 0)}`
+        : 'Timer started',
+      timer: entry,
+      stopped
+    })
+  } catch (error) {
+    if (error instanceof TimeEntryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error starting timer:', error)
+    return NextResponse.json(
+      { error: 'Failed to start timer' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE() {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const entry = await stopTimer(auth.session.user.id)
+    if (!entry) {
+      return NextResponse.json({ error: 'No timer is running' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `${formatMinutes(entry.minutes ?? 0)} recorded on ${entry.companyName}`,
+      entry
+    })
+  } catch (error) {
+    console.error('Error stopping timer:', error)
+    return NextResponse.json(
+      { error: 'Failed to stop timer' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Hourly Cost Rate API
+ *
+ * What an hour of someone's time costs the firm, used to cost their time in the recoverability
+ * report.
+ *
+ * @route PUT /api/users/[id]/cost-rate - Set or clear their hourly cost rate
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { authorize } from '@/lib/permission-service'
+import { setHourlyCostRate, TimeEntryError } from '@/lib/time-tracking-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const CostRateSchema = z.object({
+  hourlyCostRate: z.number().min(0).max(10000).nullable()
+})
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize('time.manage_fees')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const validation = CostRateSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const user = await setHourlyCostRate(params.id, validation.data.hourlyCostRate)
+
+    await logActivityEnhanced(request, {
+      action: 'USER_COST_RATE_UPDATED',
+      details: {
+        targetUserId: user.id,
+        targetUserName: user.name,
+        hourlyCostRate: user.hourlyCostRate
+      }
+    })
+
+    return NextResponse.json({ success: true, hourlyCostRate: user.hourlyCostRate })
+  } catch (error) {
+    if (error instanceof TimeEntryError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error updating cost rate:', error)
+    return NextResponse.json(
+      { error: 'Failed to update cost rate' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Staff Leave Entry API
+ *
+ * Removing leave that has cover in place gives the covered work back straight away.
+ *
+ * @route DELETE /api/users/[id]/leave/[leaveId] - Remove recorded leave
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { authorize, permissionDeniedResponse } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { revertCoverPlan } from '@/lib/cover-plan-service'
+import { deleteLeave, LeaveError } from '@/lib/staff-leave-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; leaveId: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    if (params.id !== session.user.id && !auth.can('users.manage')) {
+      return permissionDeniedResponse('users.manage')
+    }
+
+    const activePlans = await db.coverPlan.findMany({
+      where: { leaveId: params.leaveId, userId: params.id, status: 'ACTIVE' },
+      select: { id: true }
+    })
+    for (const plan of activePlans) {
+      await revertCoverPlan(plan.id, {
+        id: session.user.id,
+        name: session.user.name || session.user.email || 'Unknown',
+        email: session.user.email || '',
+        role: session.user.role || 'USER'
+      })
+    }
+
+    const leave = await deleteLeave(params.id, params.leaveId)
+
+    await logActivityEnhanced(request, {
+      action: 'STAFF_LEAVE_REMOVED',
+      details: {
+        targetUserId: params.id,
+        leaveId: leave.id,
+        type: leave.type,
+        startDate: leave.startDate.toISOString().slice(0, 10),
+        endDate: leave.endDate.toISOString().slice(0, 10),
+        coverPlansReverted: activePlans.length
+      }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof LeaveError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error removing leave:', error)
+    return NextResponse.json(
+      { error: 'Failed to remove leave' },
+      { status: 500 }
+    )
+  }
+}
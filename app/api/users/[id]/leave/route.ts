@@ -0,0 +1,96 @@
+/**
+ * Staff Leave API
+ *
+ * Users record their own leave; recording it for someone else needs users.manage.
+ *
+ * @route GET  /api/users/[id]/leave - Current and upcoming leave
+ * @route POST /api/users/[id]/leave - Record holiday, sickness or other leave
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { authorize, permissionDeniedResponse } from '@/lib/permission-service'
+import { LEAVE_TYPES } from '@/lib/staff-leave'
+import { createLeave, getUserLeave, LeaveError } from '@/lib/staff-leave-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const CreateLeaveSchema = z.object({
+  type: z.enum(LEAVE_TYPES),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD'),
+  notes: z.string().trim().max(500).optional().nullable()
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const leave = await getUserLeave(params.id, { from: new Date() })
+
+    return NextResponse.json({ success: true, leave })
+  } catch (error) {
+    console.error('Error fetching leave:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch leave' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    if (params.id !== session.user.id && !auth.can('users.manage')) {
+      return permissionDeniedResponse('users.manage')
+    }
+
+    const body = await request.json()
+    const validation = CreateLeaveSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const leave = await createLeave(params.id, validation.data)
+
+    await logActivityEnhanced(request, {
+      action: 'STAFF_LEAVE_RECORDED',
+      details: {
+        targetUserId: params.id,
+        leaveId: leave.id,
+        type: leave.type,
+        startDate: validation.data.startDate,
+        endDate: validation.data.endDate
+      }
+    })
+
+    return NextResponse.json({ success: true, leave })
+  } catch (error) {
+    if (error instanceof LeaveError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error recording leave:', error)
+    return NextResponse.json(
+      { error: 'Failed to record leave' },
+      { status: 500 }
+    )
+  }
+}
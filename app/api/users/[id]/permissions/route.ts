@@ -0,0 +1,105 @@
+/**
+ * User Permission Overrides API
+ *
+ * Grant or withhold single permissions for one user, on top of their role's set.
+ *
+ * @route GET /api/users/[id]/permissions - The user's role permissions, overrides and effective set
+ * @route PUT /api/users/[id]/permissions - Replace the user's overrides
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import {
+  authorize,
+  getUserPermissionDetails,
+  PermissionError,
+  setUserPermissionOverrides
+} from '@/lib/permission-service'
+import { PERMISSIONS } from '@/lib/permissions'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const PermissionOverridesSchema = z.object({
+  overrides: z.array(z.object({
+    permission: z.enum(PERMISSIONS),
+    granted: z.boolean(),
+    reason: z.string().max(500).optional().nullable()
+  }))
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize('permissions.manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const details = await getUserPermissionDetails(params.id)
+
+    return NextResponse.json({ success: true, user: details })
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error fetching user permissions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch user permissions' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize('permissions.manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const body = await request.json()
+    const validation = PermissionOverridesSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const { overrides } = validation.data
+    const permissions = new Set(overrides.map(override => override.permission))
+    if (permissions.size !== overrides.length) {
+      return NextResponse.json({ error: 'Each permission can only be overridden once' }, { status: 400 })
+    }
+
+    const details = await setUserPermissionOverrides(params.id, overrides, session.user.id)
+
+    await logActivityEnhanced(request, {
+      action: 'USER_PERMISSIONS_CHANGED',
+      details: {
+        targetUserId: details.userId,
+        targetUserName: details.name,
+        granted: overrides.filter(override => override.granted).map(override => override.permission),
+        withheld: overrides.filter(override => !override.granted).map(override => override.permission)
+      }
+    })
+
+    return NextResponse.json({ success: true, user: details })
+  } catch (error) {
+    if (error instanceof PermissionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error updating user permissions:', error)
+    return NextResponse.json(
+      { error: 'Failed to update user permissions' },
+      { status: 500 }
+    )
+  }
+}
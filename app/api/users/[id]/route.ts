@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { logActivityEnhanced } from '@/lib/activity-middleware'
 
@@ -23,17 +22,14 @@ interface RouteParams {
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions)
-
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
-    // Users can only access their own data, partners and managers can access any user
-    if (session.user.role !== 'PARTNER' && session.user.role !== 'MANAGER' && session.user.id !== params.id) {
+    // Users can only access their own data unless they can manage users
+    if (!auth.can('users.manage') && session.user.id !== params.id) {
       return NextResponse.json(
         { success: false, error: 'Access denied. You can only access your own data.' },
         { status: 403 }
@@ -90,22 +86,11 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  */
 export async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions)
-
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    // Only partners and managers can update users
-    if (session.user.role !== 'PARTNER' && session.user.role !== 'MANAGER') {
-      return NextResponse.json(
-        { success: false, error: 'Access denied. Partner or Manager role required.' },
-        { status: 403 }
-      )
+    const auth = await authorize('users.manage')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const body = await request.json()
     const { isActive, role, name, email } = body
@@ -123,15 +108,15 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     }
 
     // Validate role-based editing restrictions
-    if (role === 'PARTNER' && session.user.role !== 'PARTNER') {
+    if (role === 'PARTNER' && !auth.can('users.manage_senior')) {
       return NextResponse.json(
         { success: false, error: 'Only Partners can modify Partner roles' },
         { status: 403 }
       )
     }
 
-    // Only PARTNER can edit other PARTNER users
-    if (existingUser.role === 'PARTNER' && session.user.role !== 'PARTNER') {
+    // Editing a partner needs users.manage_senior
+    if (existingUser.role === 'PARTNER' && !auth.can('users.manage_senior')) {
       return NextResponse.json(
         { success: false, error: 'Only Partners can edit other Partner accounts' },
         { status: 403 }
@@ -239,22 +224,11 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
  */
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions)
-
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    // Only partners and managers can delete users
-    if (session.user.role !== 'PARTNER' && session.user.role !== 'MANAGER') {
-      return NextResponse.json(
-        { success: false, error: 'Access denied. Partner or Manager role required.' },
-        { status: 403 }
-      )
+    const auth = await authorize('users.manage')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     // Check if user exists
     const existingUser = await db.user.findUnique({
@@ -279,8 +253,8 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     }
 
     // Role-based deletion restrictions
-    if (session.user.role === 'MANAGER') {
-      // MANAGER can only delete STAFF accounts
+    if (!auth.can('users.manage_senior')) {
+      // Without users.manage_senior only STAFF accounts can be deleted
       if (existingUser.role !== 'STAFF') {
         return NextResponse.json(
           { success: false, error: 'Managers can only delete Staff accounts' },
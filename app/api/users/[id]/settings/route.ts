@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { isUkMobileNumber, normalisePhoneNumber } from '@/lib/messaging'
 
 // Force dynamic rendering for this route since it uses session
 export const dynamic = 'force-dynamic'
@@ -18,17 +18,14 @@ interface RouteParams {
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions)
-
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
-    // Users can only access their own settings, partners can access any settings
-    if (session.user.role !== 'PARTNER' && session.user.id !== params.id) {
+    // Users can only access their own settings unless they can manage users' settings
+    if (!auth.can('users.settings.manage') && session.user.id !== params.id) {
       return NextResponse.json(
         { success: false, error: 'Access denied. You can only access your own settings.' },
         { status: 403 }
@@ -97,17 +94,14 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  */
 export async function PUT(request: NextRequest, { params }: RouteParams) {
   try {
-    const session = await getServerSession(authOptions)
-
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
-    // Users can only update their own settings, partners can update any settings
-    if (session.user.role !== 'PARTNER' && session.user.id !== params.id) {
+    // Users can only update their own settings unless they can manage users' settings
+    if (!auth.can('users.settings.manage') && session.user.id !== params.id) {
       return NextResponse.json(
         { success: false, error: 'Access denied. You can only update your own settings.' },
         { status: 403 }
@@ -117,6 +111,17 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     const body = await request.json()
     const { defaultAssigneeId, emailNotifications, smsNotifications } = body
 
+    // Empty clears the number; anything else must be a mobile number
+    const smsPhoneNumber = body.smsPhoneNumber === undefined
+      ? undefined
+      : body.smsPhoneNumber ? normalisePhoneNumber(body.smsPhoneNumber) : null
+    if (body.smsPhoneNumber && (!smsPhoneNumber || (smsPhoneNumber.startsWith('+44') && !isUkMobileNumber(smsPhoneNumber)))) {
+      return NextResponse.json(
+        { success: false, error: 'Enter a valid mobile number for SMS notifications' },
+        { status: 400 }
+      )
+    }
+
     // Validate defaultAssigneeId if provided
     if (defaultAssigneeId) {
       const assigneeUser = await db.user.findUnique({
@@ -147,6 +152,13 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       }
     })
 
+    if ((smsNotifications ?? currentSettings?.smsNotifications) && !(smsPhoneNumber !== undefined ? smsPhoneNumber : currentSettings?.smsPhoneNumber)) {
+      return NextResponse.json(
+        { success: false, error: 'Add a mobile number to turn on SMS notifications' },
+        { status: 400 }
+      )
+    }
+
     // Update or create settings
     const updatedSettings = await db.userSettings.upsert({
       where: { userId: params.id },
@@ -156,13 +168,15 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         }),
         ...(emailNotifications !== undefined && { emailNotifications }),
         ...(smsNotifications !== undefined && { smsNotifications }),
+        ...(smsPhoneNumber !== undefined && { smsPhoneNumber }),
         updatedAt: new Date()
       },
       create: {
         userId: params.id,
         defaultAssigneeId: (defaultAssigneeId && defaultAssigneeId !== "") ? defaultAssigneeId : null,
         emailNotifications: emailNotifications ?? true,
-        smsNotifications: smsNotifications ?? false
+        smsNotifications: smsNotifications ?? false,
+        smsPhoneNumber: smsPhoneNumber ?? null
       },
       include: {
         defaultAssignee: {
@@ -190,6 +204,9 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     if (smsNotifications !== undefined && smsNotifications !== currentSettings?.smsNotifications) {
       changes.push(`SMS Notifications: ${currentSettings?.smsNotifications ? 'Enabled' : 'Disabled'} → ${smsNotifications ? 'Enabled' : 'Disabled'}`)
     }
+    if (smsPhoneNumber !== undefined && smsPhoneNumber !== (currentSettings?.smsPhoneNumber ?? null)) {
+      changes.push(`SMS Number: ${currentSettings?.smsPhoneNumber || 'None'} → ${smsPhoneNumber || 'None'}`)
+    }
 
     if (changes.length > 0) {
       await logActivityEnhanced(request, {
@@ -0,0 +1,89 @@
+/**
+ * Working Pattern API
+ *
+ * The weekdays someone works (0 = Sunday). Part-time patterns scale their capacity in the
+ * assignment engine and show on the calendar.
+ *
+ * @route GET /api/users/[id]/working-days - The weekdays they work
+ * @route PUT /api/users/[id]/working-days - Set the weekdays they work
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { setWorkingDays, LeaveError } from '@/lib/staff-leave-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const WorkingDaysSchema = z.object({
+  workingDays: z.array(z.number().int().min(0).max(6)).min(1, 'Choose at least one working day')
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const user = await db.user.findUnique({ where: { id: params.id }, select: { workingDays: true } })
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, workingDays: user.workingDays })
+  } catch (error) {
+    console.error('Error fetching working pattern:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch working pattern' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize('users.manage')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const body = await request.json()
+    const validation = WorkingDaysSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.flatten().fieldErrors },
+        { status: 400 }
+      )
+    }
+
+    const user = await setWorkingDays(params.id, validation.data.workingDays)
+
+    await logActivityEnhanced(request, {
+      action: 'WORKING_PATTERN_UPDATED',
+      details: {
+        targetUserId: params.id,
+        workingDays: user.workingDays
+      }
+    })
+
+    return NextResponse.json({ success: true, workingDays: user.workingDays })
+  } catch (error) {
+    if (error instanceof LeaveError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('Error updating working pattern:', error)
+    return NextResponse.json(
+      { error: 'Failed to update working pattern' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize, getUserIdsWithPermission } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { addUserToTeams, assertActiveTeams, getTeamScope, teamUserWhere, TeamError } from '@/lib/team-service'
+import { isPermission } from '@/lib/permissions'
 import bcrypt from 'bcryptjs'
 
 // Force dynamic rendering for this route since it uses session
@@ -19,43 +20,54 @@ export const revalidate = 0
  * 
  * Query parameters:
  * - includeSelf: Include the current user in the results (default: false)
+ * - scope: 'all' (default) for everyone, 'team' for the people in the current user's teams.
+ *   Assignment pickers ask for 'team'; users who can see every team, or who aren't in a team,
+ *   always get everyone.
+ * - permission: Only users who hold this permission, e.g. clients.chase for chase team pickers
  */
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    // Partners and managers can fetch all users
-    // Staff can only fetch users for viewing purposes (not assignment)
-    if (session.user.role !== 'PARTNER' && session.user.role !== 'MANAGER' && session.user.role !== 'STAFF') {
-      return NextResponse.json(
-        { success: false, error: 'Access denied. Valid role required.' },
-        { status: 403 }
-      )
+    const auth = await authorize('users.view')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     // Check if we should include the current user
     const { searchParams } = new URL(request.url)
     const includeSelf = searchParams.get('includeSelf') === 'true'
+    const scope = searchParams.get('scope') === 'team' ? 'team' : 'all'
+    const permission = searchParams.get('permission')
+    if (permission !== null && !isPermission(permission)) {
+      return NextResponse.json({ success: false, error: 'Unknown permission' }, { status: 400 })
+    }
+
+    // Team-first assignment pickers only show the people in the current user's teams
+    const teamScope = scope === 'team'
+      ? await getTeamScope(session.user.id, { viewAll: auth.can('teams.view_all') })
+      : null
 
     // Build the where clause conditionally
     const whereClause: any = {
-      isActive: true // Only fetch active users
+      isActive: true, // Only fetch active users
+      ...(teamScope ? teamUserWhere(teamScope) : {})
     }
 
     // Exclude current user unless includeSelf is true
     if (!includeSelf) {
       whereClause.id = {
+        ...whereClause.id,
         not: session.user.id
       }
     }
 
+    if (permission) {
+      whereClause.id = {
+        ...whereClause.id,
+        in: await getUserIdsWithPermission(permission)
+      }
+    }
+
     // Direct database query - no caching for real-time updates
     const users = await db.user.findMany({
       where: whereClause,
@@ -74,6 +86,7 @@ export async function GET(request: NextRequest) {
     const response = NextResponse.json({
       success: true,
       users,
+      scope: teamScope && !teamScope.firmWide ? 'team' : 'all',
     })
 
     // REAL-TIME: No caching for immediate updates
@@ -100,24 +113,13 @@ export async function GET(request: NextRequest) {
  */
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    // Only partners and managers can create users
-    if (session.user.role !== 'PARTNER' && session.user.role !== 'MANAGER') {
-      return NextResponse.json(
-        { success: false, error: 'Access denied. Partner or Manager role required.' },
-        { status: 403 }
-      )
+    const auth = await authorize('users.manage')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
-    const { name, email, password, role } = await request.json()
+    const { name, email, password, role, teamIds } = await request.json()
 
     // Validate required fields
     if (!name || !email || !password) {
@@ -152,14 +154,22 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Only PARTNER can create other PARTNER users
-    if (role === 'PARTNER' && session.user.role !== 'PARTNER') {
+    // Creating a partner needs users.manage_senior
+    if (role === 'PARTNER' && !auth.can('users.manage_senior')) {
       return NextResponse.json(
         { success: false, error: 'Only Partners can create other Partner accounts' },
         { status: 403 }
       )
     }
 
+    if (teamIds !== undefined && (!Array.isArray(teamIds) || teamIds.some(id => typeof id !== 'string'))) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid teams' },
+        { status: 400 }
+      )
+    }
+    await assertActiveTeams(teamIds || [])
+
     // Check if user already exists
     const existingUser = await db.user.findUnique({
       where: { email }
@@ -194,6 +204,11 @@ export async function POST(request: NextRequest) {
       }
     })
 
+    // Add the new member to their teams
+    if (teamIds?.length) {
+      await addUserToTeams(newUser.id, teamIds)
+    }
+
     // Log activity for user creation
     await logActivityEnhanced(request, {
       action: 'USER_CREATED',
@@ -214,6 +229,9 @@ export async function POST(request: NextRequest) {
     })
 
   } catch (error) {
+    if (error instanceof TeamError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
     console.error('Error creating user:', error)
     return NextResponse.json(
       { success: false, error: 'Failed to create user' },
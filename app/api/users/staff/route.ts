@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 
 // Force dynamic rendering for this route since it uses session
@@ -14,21 +13,9 @@ export const dynamic = 'force-dynamic'
  */
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    // Only PARTNER and MANAGER can access staff data
-    if (!['PARTNER', 'MANAGER'].includes(session.user.role)) {
-      return NextResponse.json(
-        { success: false, error: 'Access denied. PARTNER or MANAGER role required.' },
-        { status: 403 }
-      )
+    const auth = await authorize('users.manage')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     // Fetch all users with their client assignments
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { z } from 'zod'
 
@@ -24,14 +23,11 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-    
-    if (!session) {
-      return NextResponse.json(
-        { success: false, error: 'Unauthorized' },
-        { status: 401 }
-      )
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const { id: vatQuarterId } = params
     const body = await request.json()
@@ -58,8 +54,8 @@ export async function PUT(
       )
     }
 
-    // Check permissions - only managers and partners can mark as client self-filing
-    if (session.user.role !== 'MANAGER' && session.user.role !== 'PARTNER') {
+    // Check permissions - marking a quarter as client self-filing needs workflow.filing.manage
+    if (!auth.can('workflow.filing.manage')) {
       return NextResponse.json(
         { success: false, error: 'Only managers and partners can mark quarters as client self-filing' },
         { status: 403 }
@@ -0,0 +1,206 @@
+/**
+ * VAT Quarter MTD Return API Route
+ *
+ * The nine-box return prepared against a VAT quarter before it is submitted to HMRC.
+ * Box 3 and box 5 are always recalculated here so a draft can never hold inconsistent totals.
+ *
+ * @route GET /api/vat-quarters/[id]/hmrc-return - Saved return, plus HMRC obligations when connected
+ * @route PUT /api/vat-quarters/[id]/hmrc-return - Save the draft return
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { getVATObligations, normaliseVRN, type VATObligation } from '@/lib/hmrc-api'
+import {
+  findObligationForQuarter,
+  getFraudPreventionHeaders,
+  getObligationWindowForQuarter,
+  getStoredVATToken,
+  getVATAccessToken
+} from '@/lib/hmrc-vat-service'
+import { calculateVATReturnTotals, VAT_RETURN_SUBMIT_STAGE } from '@/lib/vat-return'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const penceAmount = z.number().finite()
+const wholePounds = z.number().int('Boxes 6 to 9 must be in whole pounds')
+
+const saveReturnSchema = z.object({
+  periodKey: z.string().trim().max(4).optional().nullable(),
+  vatDueSales: penceAmount,
+  vatDueAcquisitions: penceAmount,
+  vatReclaimedCurrPeriod: penceAmount,
+  totalValueSalesExVAT: wholePounds,
+  totalValuePurchasesExVAT: wholePounds,
+  totalValueGoodsSuppliedExVAT: wholePounds,
+  totalAcquisitionsExVAT: wholePounds
+})
+
+async function getQuarter(id: string) {
+  return db.vATQuarter.findUnique({
+    where: { id },
+    include: {
+      client: {
+        select: {
+          id: true,
+          companyName: true,
+          clientCode: true,
+          vatNumber: true
+        }
+      },
+      vatReturn: true
+    }
+  })
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const vatQuarter = await getQuarter(params.id)
+    if (!vatQuarter) {
+      return NextResponse.json({ error: 'VAT quarter not found' }, { status: 404 })
+    }
+
+    const connected = !!(await getStoredVATToken())
+    let obligations: VATObligation[] = []
+    let hmrcError: string | null = null
+
+    // Obligations are best-effort: the return can still be drafted while HMRC is unavailable
+    if (connected && vatQuarter.client.vatNumber) {
+      try {
+        const accessToken = await getVATAccessToken()
+        obligations = await getVATObligations(
+          normaliseVRN(vatQuarter.client.vatNumber),
+          accessToken,
+          getObligationWindowForQuarter(vatQuarter),
+          getFraudPreventionHeaders(request, session.user)
+        )
+      } catch (error) {
+        console.error('Error fetching VAT obligations:', error)
+        hmrcError = error instanceof Error ? error.message : 'Failed to fetch obligations from HMRC'
+      }
+    }
+
+    const { vatReturn, ...quarter } = vatQuarter
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        vatQuarter: quarter,
+        vatReturn,
+        connected,
+        hasVatNumber: !!vatQuarter.client.vatNumber,
+        readyToSubmit: vatQuarter.currentStage === VAT_RETURN_SUBMIT_STAGE,
+        obligations,
+        matchedObligation: findObligationForQuarter(obligations, vatQuarter),
+        hmrcError
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching VAT return:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch VAT return' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const body = await request.json()
+    const { periodKey, ...boxes } = saveReturnSchema.parse(body)
+
+    const vatQuarter = await getQuarter(params.id)
+    if (!vatQuarter) {
+      return NextResponse.json({ error: 'VAT quarter not found' }, { status: 404 })
+    }
+
+    if (!vatQuarter.client.vatNumber) {
+      return NextResponse.json({ error: 'Client has no VAT registration number' }, { status: 400 })
+    }
+
+    if (vatQuarter.vatReturn?.status === 'SUBMITTED') {
+      return NextResponse.json({ error: 'This return has already been submitted to HMRC' }, { status: 400 })
+    }
+
+    if (vatQuarter.vatReturn?.status === 'SUBMITTING') {
+      return NextResponse.json({ error: 'This return is being submitted to HMRC' }, { status: 409 })
+    }
+
+    const userName = session.user.name || session.user.email || 'Unknown User'
+    const data = {
+      ...calculateVATReturnTotals(boxes),
+      periodKey: periodKey || null,
+      vrn: normaliseVRN(vatQuarter.client.vatNumber),
+      status: 'DRAFT' as const,
+      preparedDate: new Date(),
+      preparedByUserId: session.user.id,
+      preparedByUserName: userName,
+      lastError: null
+    }
+
+    const vatReturn = await db.vATReturn.upsert({
+      where: { vatQuarterId: vatQuarter.id },
+      create: {
+        ...data,
+        vatQuarterId: vatQuarter.id,
+        clientId: vatQuarter.clientId
+      },
+      update: data
+    })
+
+    await logActivityEnhanced(request, {
+      action: 'VAT_RETURN_PREPARED',
+      clientId: vatQuarter.clientId,
+      details: {
+        companyName: vatQuarter.client.companyName,
+        clientCode: vatQuarter.client.clientCode,
+        workflowType: 'VAT',
+        quarterPeriod: vatQuarter.quarterPeriod,
+        periodKey: vatReturn.periodKey,
+        netVatDue: vatReturn.netVatDue
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: vatReturn,
+      message: 'VAT return saved'
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error saving VAT return:', error)
+    return NextResponse.json(
+      { error: 'Failed to save VAT return' },
+      { status: 500 }
+    )
+  }
+}
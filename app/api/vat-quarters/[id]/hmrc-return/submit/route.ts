@@ -0,0 +1,323 @@
+/**
+ * VAT Return Submission API Route
+ *
+ * Submits the saved nine-box return to HMRC through Making Tax Digital. HMRC's receipt is saved
+ * on its own as soon as it comes back, and only then is the quarter moved to FILED_TO_HMRC, so the
+ * workflow never shows a quarter as filed without HMRC's form bundle number behind it and a
+ * failure moving the workflow can't lose the receipt.
+ *
+ * Needs vat.submit_to_hmrc, and the quarter must be client approved. The return is claimed
+ * (status SUBMITTING) before HMRC is called, so two submissions can't both go through.
+ *
+ * @route POST /api/vat-quarters/[id]/hmrc-return/submit
+ * @body {true} declaration - The client has confirmed the return is true and complete
+ * @body {object} device - Browser details for HMRC's fraud prevention headers
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { db } from '@/lib/db'
+import { authorize, permissionDeniedResponse } from '@/lib/permission-service'
+import { requiresPartnerReview } from '@/lib/permissions'
+import { VAT_WORKFLOW_STAGE_ORDER } from '@/lib/workflow-validation'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { workflowNotificationService } from '@/lib/workflow-notifications'
+import { calculateDaysBetween } from '@/lib/vat-workflow'
+import { normaliseVRN, submitVATReturn } from '@/lib/hmrc-api'
+import { getFraudPreventionHeaders, getVATAccessToken } from '@/lib/hmrc-vat-service'
+import { validateVATReturnBoxes, VAT_RETURN_SUBMIT_STAGE } from '@/lib/vat-return'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const submitSchema = z.object({
+  declaration: z.literal(true, {
+    errorMap: () => ({ message: 'The client declaration must be confirmed before submitting' })
+  }),
+  device: z.object({
+    deviceId: z.string().max(100).optional(),
+    screens: z.string().max(200).optional(),
+    windowSize: z.string().max(100).optional(),
+    timezone: z.string().max(20).optional()
+  }).optional()
+})
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const auth = await authorize('vat.submit_to_hmrc')
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const body = await request.json()
+    const { device } = submitSchema.parse(body)
+
+    const vatQuarter = await db.vATQuarter.findUnique({
+      where: { id: params.id },
+      include: {
+        client: {
+          select: {
+            id: true,
+            companyName: true,
+            clientCode: true,
+            vatNumber: true
+          }
+        },
+        vatReturn: true,
+        workflowHistory: {
+          orderBy: { stageChangedAt: 'desc' },
+          take: 1
+        }
+      }
+    })
+
+    if (!vatQuarter) {
+      return NextResponse.json({ error: 'VAT quarter not found' }, { status: 404 })
+    }
+
+    const vatReturn = vatQuarter.vatReturn
+    if (!vatReturn) {
+      return NextResponse.json({ error: 'Save the VAT return before submitting it' }, { status: 400 })
+    }
+
+    if (vatReturn.status === 'SUBMITTED') {
+      return NextResponse.json({ error: 'This return has already been submitted to HMRC' }, { status: 400 })
+    }
+
+    if (vatQuarter.currentStage !== VAT_RETURN_SUBMIT_STAGE) {
+      return NextResponse.json(
+        { error: 'The client must approve the return before it is submitted to HMRC' },
+        { status: 400 }
+      )
+    }
+
+    // Filing moves the quarter on, so it passes the same partner review gate as the workflow
+    if (requiresPartnerReview(VAT_WORKFLOW_STAGE_ORDER, vatQuarter.currentStage, 'FILED_TO_HMRC') &&
+        !auth.can('workflow.advance.partner_review')) {
+      return permissionDeniedResponse('workflow.advance.partner_review')
+    }
+
+    if (!vatQuarter.client.vatNumber) {
+      return NextResponse.json({ error: 'Client has no VAT registration number' }, { status: 400 })
+    }
+
+    if (!vatReturn.periodKey) {
+      return NextResponse.json({ error: 'Select the HMRC obligation period before submitting' }, { status: 400 })
+    }
+
+    const validationErrors = validateVATReturnBoxes(vatReturn)
+    if (validationErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'VAT return is not valid', details: validationErrors },
+        { status: 400 }
+      )
+    }
+
+    const userName = session.user.name || session.user.email || 'Unknown User'
+    const vrn = normaliseVRN(vatQuarter.client.vatNumber)
+
+    // Claim the return; if another request already has it, don't send it again
+    const claimed = await db.vATReturn.updateMany({
+      where: { id: vatReturn.id, status: { notIn: ['SUBMITTING', 'SUBMITTED'] } },
+      data: { status: 'SUBMITTING', lastError: null }
+    })
+    if (claimed.count === 0) {
+      return NextResponse.json(
+        { error: 'This return is already being submitted to HMRC' },
+        { status: 409 }
+      )
+    }
+
+    let receipt
+    try {
+      const accessToken = await getVATAccessToken()
+      receipt = await submitVATReturn(
+        vrn,
+        {
+          periodKey: vatReturn.periodKey,
+          vatDueSales: vatReturn.vatDueSales,
+          vatDueAcquisitions: vatReturn.vatDueAcquisitions,
+          totalVatDue: vatReturn.totalVatDue,
+          vatReclaimedCurrPeriod: vatReturn.vatReclaimedCurrPeriod,
+          netVatDue: vatReturn.netVatDue,
+          totalValueSalesExVAT: vatReturn.totalValueSalesExVAT,
+          totalValuePurchasesExVAT: vatReturn.totalValuePurchasesExVAT,
+          totalValueGoodsSuppliedExVAT: vatReturn.totalValueGoodsSuppliedExVAT,
+          totalAcquisitionsExVAT: vatReturn.totalAcquisitionsExVAT,
+          finalised: true
+        },
+        accessToken,
+        getFraudPreventionHeaders(request, session.user, device)
+      )
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Submission to HMRC failed'
+      console.error('Error submitting VAT return to HMRC:', error)
+
+      // Release the claim so the return can be corrected and submitted again
+      await db.vATReturn.update({
+        where: { id: vatReturn.id },
+        data: { status: 'FAILED', lastError: message }
+      })
+
+      await logActivityEnhanced(request, {
+        action: 'VAT_RETURN_SUBMISSION_FAILED',
+        clientId: vatQuarter.clientId,
+        details: {
+          companyName: vatQuarter.client.companyName,
+          clientCode: vatQuarter.client.clientCode,
+          workflowType: 'VAT',
+          quarterPeriod: vatQuarter.quarterPeriod,
+          periodKey: vatReturn.periodKey,
+          error: message
+        }
+      })
+
+      return NextResponse.json({ error: message }, { status: 502 })
+    }
+
+    const now = new Date()
+    const previousHistory = vatQuarter.workflowHistory[0]
+    const fromStage = vatQuarter.currentStage
+    const daysInPreviousStage = previousHistory
+      ? calculateDaysBetween(previousHistory.stageChangedAt, now)
+      : null
+
+    // HMRC has accepted the return, so record the receipt before anything else can fail
+    const submittedReturn = await db.vATReturn.update({
+      where: { id: vatReturn.id },
+      data: {
+        status: 'SUBMITTED',
+        vrn,
+        submittedDate: now,
+        submittedByUserId: session.user.id,
+        submittedByUserName: userName,
+        processingDate: new Date(receipt.processingDate),
+        formBundleNumber: receipt.formBundleNumber,
+        paymentIndicator: receipt.paymentIndicator || null,
+        chargeRefNumber: receipt.chargeRefNumber || null,
+        receiptId: receipt.receiptId || null,
+        receiptTimestamp: receipt.receiptTimestamp ? new Date(receipt.receiptTimestamp) : null,
+        correlationId: receipt.correlationId || null,
+        lastError: null
+      }
+    })
+
+    let updatedQuarter
+    try {
+      [updatedQuarter] = await db.$transaction([
+        db.vATQuarter.update({
+          where: { id: vatQuarter.id },
+          data: {
+            currentStage: 'FILED_TO_HMRC',
+            isCompleted: true,
+            filedToHMRCDate: now,
+            filedToHMRCByUserId: session.user.id,
+            filedToHMRCByUserName: userName
+          }
+        }),
+        db.vATWorkflowHistory.create({
+          data: {
+            vatQuarterId: vatQuarter.id,
+            fromStage,
+            toStage: 'FILED_TO_HMRC',
+            stageChangedAt: now,
+            daysInPreviousStage,
+            userId: session.user.id,
+            userName,
+            userEmail: session.user.email || '',
+            userRole: session.user.role || 'USER',
+            notes: `Submitted to HMRC via MTD - form bundle ${receipt.formBundleNumber}`
+          }
+        })
+      ])
+    } catch (error) {
+      console.error('Error moving VAT quarter to FILED_TO_HMRC after HMRC accepted the return:', error)
+      const message = `HMRC accepted the return (form bundle ${receipt.formBundleNumber}) but the quarter could not be moved to Filed to HMRC - update the workflow stage by hand`
+
+      await db.vATReturn.update({
+        where: { id: vatReturn.id },
+        data: { lastError: message }
+      }).catch(saveError => {
+        console.error('❌ Failed to record workflow update failure on VAT return:', saveError)
+      })
+
+      return NextResponse.json(
+        { error: message, data: { vatReturn: { ...submittedReturn, lastError: message } } },
+        { status: 500 }
+      )
+    }
+
+    await logActivityEnhanced(request, {
+      action: 'VAT_RETURN_SUBMITTED_TO_HMRC',
+      clientId: vatQuarter.clientId,
+      details: {
+        companyName: vatQuarter.client.companyName,
+        clientCode: vatQuarter.client.clientCode,
+        workflowType: 'VAT',
+        quarterPeriod: vatQuarter.quarterPeriod,
+        periodKey: submittedReturn.periodKey,
+        formBundleNumber: receipt.formBundleNumber,
+        processingDate: receipt.processingDate,
+        netVatDue: submittedReturn.netVatDue
+      }
+    })
+
+    await logActivityEnhanced(request, {
+      action: 'VAT_RETURN_FILED',
+      clientId: vatQuarter.clientId,
+      details: {
+        companyName: vatQuarter.client.companyName,
+        quarterPeriod: vatQuarter.quarterPeriod,
+        filingDueDate: vatQuarter.filingDueDate,
+        daysInWorkflow: daysInPreviousStage
+      }
+    })
+
+    // Run notifications asynchronously to not block the response
+    workflowNotificationService.sendStageChangeNotifications({
+      clientId: vatQuarter.clientId,
+      clientName: vatQuarter.client.companyName,
+      clientCode: vatQuarter.client.clientCode || `Client-${vatQuarter.clientId.slice(0, 8)}`,
+      workflowType: 'VAT',
+      fromStage,
+      toStage: 'FILED_TO_HMRC',
+      changedBy: {
+        id: session.user.id,
+        name: userName,
+        email: session.user.email || '',
+        role: session.user.role || 'USER'
+      },
+      assignedUserId: updatedQuarter.assignedUserId,
+      comments: `Submitted to HMRC via MTD - form bundle ${receipt.formBundleNumber}`,
+      quarterPeriod: vatQuarter.quarterPeriod
+    }).catch(notificationError => {
+      console.error('❌ Failed to send workflow notifications:', notificationError)
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        vatReturn: submittedReturn,
+        vatQuarter: updatedQuarter
+      },
+      message: 'VAT return submitted to HMRC'
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error submitting VAT return:', error)
+    return NextResponse.json(
+      { error: 'Failed to submit VAT return' },
+      { status: 500 }
+    )
+  }
+}
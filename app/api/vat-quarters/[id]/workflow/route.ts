@@ -51,13 +51,16 @@
  * @lastModified July 2025
  */
 import { NextRequest, NextResponse } from "next/server"
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize, permissionDeniedResponse } from '@/lib/permission-service'
 import { db as prisma } from '@/lib/db'
 import { getNextVATWorkflowStage, VAT_WORKFLOW_STAGE_NAMES, calculateDaysBetween } from '@/lib/vat-workflow'
 import { logActivityEnhanced, ActivityHelpers } from '@/lib/activity-middleware'
 import { workflowNotificationService } from '@/lib/workflow-notifications'
 import { AssignmentNotificationService } from '@/lib/assignment-notifications'
+import { generateDocumentPackForStage } from '@/lib/document-pack-service'
+import { getLeaveWarning } from '@/lib/staff-leave-service'
+import { requiresPartnerReview } from '@/lib/permissions'
+import { VAT_WORKFLOW_STAGE_ORDER } from '@/lib/workflow-validation'
 
 /**
  * Map workflow stages to their corresponding milestone date fields
@@ -191,10 +194,11 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const auth = await authorize()
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const vatQuarterId = params.id
     const body = await request.json()
@@ -393,6 +397,13 @@ export async function PUT(
     const effectiveStage = stage || vatQuarter.currentStage
     const isActualStageChange = stage && stage !== vatQuarter.currentStage
 
+    // Moving a return on from partner review needs the partner review permission
+    if (isActualStageChange &&
+        requiresPartnerReview(VAT_WORKFLOW_STAGE_ORDER, vatQuarter.currentStage, stage) &&
+        !auth.can('workflow.advance.partner_review')) {
+      return permissionDeniedResponse('workflow.advance.partner_review')
+    }
+
     // Check if quarter is already completed (allow undo operations)
     const isUndoOperation = vatQuarter.isCompleted && effectiveStage !== 'FILED_TO_HMRC'
     if (vatQuarter.isCompleted && !isUndoOperation) {
@@ -643,6 +654,14 @@ export async function PUT(
       })
     }
 
+    // 📄 Generate the approval pack so it is ready to attach when the client is emailed
+    if (isActualStageChange) {
+      await generateDocumentPackForStage('VAT', vatQuarterId, effectiveStage).catch(packError => {
+        console.error('❌ Failed to generate VAT approval pack:', packError)
+        // Staff can regenerate it from the send email modal
+      })
+    }
+
     // 📧 Send workflow stage change notifications
     // Run notifications asynchronously to not block the response
     workflowNotificationService.sendStageChangeNotifications({
@@ -666,6 +685,11 @@ export async function PUT(
       // Don't fail the main request if notifications fail
     })
 
+    // ⚠️ Warn when the new assignee is away on the due date
+    const leaveWarning = finalAssigneeId !== vatQuarter.assignedUserId
+      ? await getLeaveWarning(finalAssigneeId, updatedVatQuarter.filingDueDate)
+      : null
+
     return NextResponse.json({
       success: true,
       data: {
@@ -673,7 +697,8 @@ export async function PUT(
         workflowHistory,
         milestonesUpdated: Object.keys(milestoneUpdateData)
       },
-      message: `Workflow stage updated to: ${VAT_WORKFLOW_STAGE_NAMES[stage as keyof typeof VAT_WORKFLOW_STAGE_NAMES]}`
+      message: `Workflow stage updated to: ${VAT_WORKFLOW_STAGE_NAMES[stage as keyof typeof VAT_WORKFLOW_STAGE_NAMES]}`,
+      warning: leaveWarning
     })
 
   } catch (error) {
@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db as prisma } from '@/lib/db'
 
 /**
@@ -9,21 +8,9 @@ import { db as prisma } from '@/lib/db'
  */
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session?.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Check if user has manager/partner role for analytics access
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id },
-      select: { role: true }
-    })
-
-    if (!user || !['MANAGER', 'PARTNER'].includes(user.role)) {
-      return NextResponse.json({ 
-        error: 'Insufficient permissions for analytics access' 
-      }, { status: 403 })
+    const auth = await authorize('vat.analytics')
+    if (!auth.authorized) {
+      return auth.response
     }
 
     const { searchParams } = new URL(request.url)
@@ -3,13 +3,16 @@ import { db } from '@/lib/db'
 import { calculateVATQuarter } from '@/lib/vat-workflow'
 import { toLondonTime } from '@/lib/london-time'
 import { emailService } from '@/lib/email-service'
+import { autoAssignUnassignedWork, isAutoApplyEnabled } from '@/lib/assignment-service'
 
 /**
  * VAT Quarter Auto-Creation API
  * 
  * Triggered by GitHub Actions on the 1st of each month at 12:00 AM
  * Creates VAT quarters for clients whose quarters ended the previous day
- * Assigns to previously assigned user and sends notification email
+ * Assigns to previously assigned user and sends notification email, or, with assignment engine
+ * auto-apply on, leaves the choice to the engine (which favours the previous user but weighs
+ * workload, skills and leave)
  */
 
 export async function GET(request: NextRequest) {
@@ -63,6 +66,7 @@ async function autoCreateVATQuarters() {
     processed: 0,
     created: 0,
     emailsSent: 0,
+    autoAssigned: 0,
     skipped: 0,
     errors: [] as Array<{ clientId: string; companyName: string; error: string }>
   }
@@ -83,6 +87,9 @@ async function autoCreateVATQuarters() {
   })
   
   console.log(`📊 Found ${vatClients.length} VAT-enabled clients`)
+
+  const useAssignmentEngine = await isAutoApplyEnabled()
+  const createdQuarterIds: string[] = []
   
   for (const client of vatClients) {
     results.processed++
@@ -93,10 +100,11 @@ async function autoCreateVATQuarters() {
       
       if (shouldCreate.create) {
         // Get the last assigned user for this client
-        const lastAssignedUser = await getLastAssignedUser(client.id)
+        const lastAssignedUser = useAssignmentEngine ? null : await getLastAssignedUser(client.id)
         
         // Create the new quarter
-        const newQuarter = await createVATQuarter(client, shouldCreate.quarterInfo, lastAssignedUser)
+        const newQuarter = await createVATQuarter(client, shouldCreate.quarterInfo, lastAssignedUser, useAssignmentEngine)
+        createdQuarterIds.push(newQuarter.id)
         
         results.created++
         console.log(`✅ Created quarter for ${client.companyName} (${client.clientCode})`)
@@ -122,6 +130,13 @@ async function autoCreateVATQuarters() {
       })
     }
   }
+
+  // The engine sends its own assignment emails
+  if (useAssignmentEngine && createdQuarterIds.length > 0) {
+    const assignment = await autoAssignUnassignedWork({ workType: 'VAT', workflowIds: createdQuarterIds })
+    results.autoAssigned = assignment.assigned.length
+    console.log(`🤖 Assignment engine assigned ${assignment.assigned.length} of ${createdQuarterIds.length} new quarters`)
+  }
   
   return results
 }
@@ -192,7 +207,7 @@ async function getLastAssignedUser(clientId: string) {
   return lastAssignedQuarter?.assignedUser || null
 }
 
-async function createVATQuarter(client: any, quarterInfo: any, assignedUser: any) {
+async function createVATQuarter(client: any, quarterInfo: any, assignedUser: any, leftForAssignmentEngine: boolean) {
   const newQuarter = await db.vATQuarter.create({
     data: {
       clientId: client.id,
@@ -217,7 +232,7 @@ async function createVATQuarter(client: any, quarterInfo: any, assignedUser: any
       userName: 'System Auto-Creation',
       userEmail: 'system@numericalz.com',
       userRole: 'SYSTEM',
-      notes: `VAT quarter auto-created on ${new Date().toISOString()}. ${assignedUser ? `Assigned to ${assignedUser.name} based on previous quarter assignment.` : 'No previous assignment found.'}`
+      notes: `VAT quarter auto-created on ${new Date().toISOString()}. ${assignedUser ? `Assigned to ${assignedUser.name} based on previous quarter assignment.` : leftForAssignmentEngine ? 'Left for the assignment engine.' : 'No previous assignment found.'}`
     }
   })
   
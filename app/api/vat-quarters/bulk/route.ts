@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorize } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { logActivityEnhanced } from '@/lib/activity-middleware'
 import { z } from 'zod'
@@ -21,17 +20,11 @@ const VATBulkOperationSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-
-    // Only managers and partners can perform bulk operations
-    if (session.user.role !== 'MANAGER' && session.user.role !== 'PARTNER') {
-      return NextResponse.json({ 
-        error: 'Insufficient permissions. Only managers and partners can perform bulk operations.' 
-      }, { status: 403 })
+    const auth = await authorize('workflow.bulk_update')
+    if (!auth.authorized) {
+      return auth.response
     }
+    const { session } = auth
 
     const body = await request.json()
     const { quarterIds, operation, assignedUserId, templateId, customSubject, customMessage } = VATBulkOperationSchema.parse(body)
@@ -185,7 +178,7 @@ export async function POST(request: NextRequest) {
           successCount: emailResult.successCount,
           errorCount: emailResult.errorCount,
           results: emailResult.results,
-          message: `Bulk email operation completed. ${emailResult.successCount} emails sent successfully, ${emailResult.errorCount} failed.`
+          message: `Bulk email operation completed. ${emailResult.successCount} emails queued for sending, ${emailResult.errorCount} failed.`
         })
       } catch (error) {
         console.error('Bulk email error:', error)
@@ -0,0 +1,162 @@
+/**
+ * VAT Reconciliation Issue API Route
+ *
+ * @route PUT /api/vat-quarters/reconciliation/[issueId]
+ * @body {'fix' | 'dismiss' | 'reopen'} action - Apply the correction, ignore the issue, or reopen a dismissed one
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { applyVATReconciliationFix } from '@/lib/vat-reconciliation-service'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const updateIssueSchema = z.object({
+  action: z.enum(['fix', 'dismiss', 'reopen']),
+  notes: z.string().max(500).optional()
+})
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { issueId: string } }
+) {
+  try {
+    const auth = await authorize('vat.reconciliation')
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const body = await request.json()
+    const { action, notes } = updateIssueSchema.parse(body)
+
+    const issue = await db.vATReconciliationIssue.findUnique({
+      where: { id: params.issueId },
+      include: {
+        client: { select: { companyName: true, clientCode: true } }
+      }
+    })
+
+    if (!issue) {
+      return NextResponse.json({ error: 'Reconciliation issue not found' }, { status: 404 })
+    }
+
+    const userName = session.user.name || session.user.email || 'Unknown User'
+    const hmrcPeriod = `${issue.hmrcPeriodStart}_to_${issue.hmrcPeriodEnd}`
+
+    if (action === 'fix') {
+      if (issue.status !== 'OPEN') {
+        return NextResponse.json({ error: 'Only open issues can be corrected' }, { status: 400 })
+      }
+
+      let result
+      try {
+        result = await applyVATReconciliationFix(issue.id, {
+          id: session.user.id,
+          name: userName,
+          email: session.user.email || '',
+          role: session.user.role || 'USER'
+        })
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : 'Failed to apply correction' },
+          { status: 400 }
+        )
+      }
+
+      await logActivityEnhanced(request, {
+        action: 'VAT_RECONCILIATION_ISSUE_FIXED',
+        clientId: issue.clientId,
+        details: {
+          companyName: issue.client.companyName,
+          clientCode: issue.client.clientCode,
+          workflowType: 'VAT',
+          issueType: issue.issueType,
+          hmrcPeriod,
+          quarterPeriod: issue.quarterPeriod,
+          resolution: result.resolution
+        }
+      })
+
+      return NextResponse.json({ success: true, message: result.resolution })
+    }
+
+    if (action === 'dismiss') {
+      if (issue.status !== 'OPEN') {
+        return NextResponse.json({ error: 'Only open issues can be dismissed' }, { status: 400 })
+      }
+
+      await db.vATReconciliationIssue.update({
+        where: { id: issue.id },
+        data: {
+          status: 'DISMISSED',
+          resolvedAt: new Date(),
+          resolvedByUserId: session.user.id,
+          resolvedByUserName: userName,
+          resolution: notes || 'Dismissed'
+        }
+      })
+
+      await logActivityEnhanced(request, {
+        action: 'VAT_RECONCILIATION_ISSUE_DISMISSED',
+        clientId: issue.clientId,
+        details: {
+          companyName: issue.client.companyName,
+          clientCode: issue.client.clientCode,
+          workflowType: 'VAT',
+          issueType: issue.issueType,
+          hmrcPeriod,
+          notes
+        }
+      })
+
+      return NextResponse.json({ success: true, message: 'Issue dismissed' })
+    }
+
+    if (issue.status !== 'DISMISSED') {
+      return NextResponse.json({ error: 'Only dismissed issues can be reopened' }, { status: 400 })
+    }
+
+    await db.vATReconciliationIssue.update({
+      where: { id: issue.id },
+      data: {
+        status: 'OPEN',
+        resolvedAt: null,
+        resolvedByUserId: null,
+        resolvedByUserName: null,
+        resolution: null
+      }
+    })
+
+    await logActivityEnhanced(request, {
+      action: 'VAT_RECONCILIATION_ISSUE_REOPENED',
+      clientId: issue.clientId,
+      details: {
+        companyName: issue.client.companyName,
+        clientCode: issue.client.clientCode,
+        workflowType: 'VAT',
+        issueType: issue.issueType,
+        hmrcPeriod
+      }
+    })
+
+    return NextResponse.json({ success: true, message: 'Issue reopened' })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error updating VAT reconciliation issue:', error)
+    return NextResponse.json(
+      { error: 'Failed to update VAT reconciliation issue' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * VAT Obligations Reconciliation API Route
+ *
+ * Fix-up report comparing HMRC obligation periods with our VAT quarters (managers and partners only).
+ *
+ * @route GET /api/vat-quarters/reconciliation - Issues with the last full run summary
+ * @route POST /api/vat-quarters/reconciliation - Run reconciliation now, optionally for one client
+ */
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { logActivityEnhanced } from '@/lib/activity-middleware'
+import { getFraudPreventionHeaders, getStoredVATToken } from '@/lib/hmrc-vat-service'
+import { getLastReconciliationRun, runVATReconciliation } from '@/lib/vat-reconciliation-service'
+import { isVATReconciliationIssueType, isVATReconciliationStatus } from '@/lib/vat-reconciliation'
+
+// Force dynamic rendering for this route since it uses session
+export const dynamic = 'force-dynamic'
+
+const runSchema = z.object({
+  clientId: z.string().optional(),
+  device: z.object({
+    deviceId: z.string().max(100).optional(),
+    screens: z.string().max(200).optional(),
+    windowSize: z.string().max(100).optional(),
+    timezone: z.string().max(20).optional()
+  }).optional()
+})
+
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authorize('vat.reconciliation')
+    if (!auth.authorized) {
+      return auth.response
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') || 'OPEN'
+    const issueType = searchParams.get('issueType')
+
+    const [issues, counts, lastRun, token] = await Promise.all([
+      db.vATReconciliationIssue.findMany({
+        where: {
+          ...(status !== 'all' && isVATReconciliationStatus(status) ? { status } : {}),
+          ...(issueType && isVATReconciliationIssueType(issueType) ? { issueType } : {})
+        },
+        include: {
+          client: {
+            select: {
+              id: true,
+              clientCode: true,
+              companyName: true,
+              vatQuarterGroup: true
+            }
+          },
+          vatQuarter: {
+            select: {
+              id: true,
+              quarterPeriod: true,
+              currentStage: true,
+              isCompleted: true
+            }
+          }
+        },
+        orderBy: [
+          { hmrcPeriodEnd: 'desc' },
+          { detectedAt: 'desc' }
+        ]
+      }),
+
+      db.vATReconciliationIssue.groupBy({
+        by: ['issueType'],
+        where: { status: 'OPEN' },
+        _count: { _all: true }
+      }),
+
+      getLastReconciliationRun(),
+      getStoredVATToken()
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        issues,
+        openCounts: Object.fromEntries(counts.map(count => [count.issueType, count._count._all])),
+        lastRun,
+        connected: !!token
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching VAT reconciliation issues:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch VAT reconciliation issues' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorize('vat.reconciliation')
+    if (!auth.authorized) {
+      return auth.response
+    }
+    const { session } = auth
+
+    const body = await request.json().catch(() => ({}))
+    const { clientId, device } = runSchema.parse(body)
+
+    if (!(await getStoredVATToken())) {
+      return NextResponse.json(
+        { error: 'HMRC is not connected. Connect to HMRC before running reconciliation.' },
+        { status: 400 }
+      )
+    }
+
+    const summary = await runVATReconciliation({
+      ranBy: session.user.name || session.user.email || 'Unknown User',
+      fraudPreventionHeaders: getFraudPreventionHeaders(request, session.user, device),
+      clientIds: clientId ? [clientId] : undefined
+    })
+
+    await logActivityEnhanced(request, {
+      action: 'VAT_RECONCILIATION_RUN',
+      clientId,
+      details: {
+        clientsChecked: summary.clientsChecked,
+        newIssues: summary.newIssues,
+        openIssues: summary.openIssues,
+        autoResolved: summary.autoResolved,
+        errors: summary.errors.length
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: summary,
+      message: `Checked ${summary.clientsChecked} clients: ${summary.newIssues} new issues, ${summary.openIssues} open`
+    })
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error running VAT reconciliation:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to run VAT reconciliation' },
+      { status: 500 }
+    )
+  }
+}
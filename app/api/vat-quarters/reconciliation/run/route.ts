@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getBatchFraudPreventionHeaders } from '@/lib/hmrc-vat-service'
+import { runVATReconciliation } from '@/lib/vat-reconciliation-service'
+
+/**
+ * VAT Obligations Reconciliation Job
+ *
+ * Triggered by GitHub Actions after VAT quarter auto-creation on the 1st of each month
+ * Compares HMRC obligations with our quarters for every VAT client with a VRN
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    // Security: Same secret as VAT quarter auto-creation
+    const authHeader = request.headers.get('authorization')
+    const expectedToken = process.env.VAT_AUTO_CREATE_SECRET
+
+    if (!expectedToken) {
+      return NextResponse.json(
+        { error: 'Reconciliation not configured' },
+        { status: 500 }
+      )
+    }
+
+    if (!authHeader || authHeader !== `Bearer ${expectedToken}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    console.log('🔄 Starting VAT obligations reconciliation...')
+
+    const summary = await runVATReconciliation({
+      ranBy: 'Scheduled job',
+      fraudPreventionHeaders: getBatchFraudPreventionHeaders()
+    })
+
+    console.log('✅ VAT obligations reconciliation completed:', summary)
+
+    return NextResponse.json({
+      success: true,
+      message: `Checked ${summary.clientsChecked} clients. ${summary.newIssues} new issues, ${summary.openIssues} open, ${summary.autoResolved} resolved.`,
+      details: summary
+    })
+
+  } catch (error) {
+    console.error('❌ VAT reconciliation failed:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Reconciliation failed',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
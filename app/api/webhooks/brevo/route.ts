@@ -13,6 +13,35 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
+import { suppressEmailAddress } from '@/lib/email-suppression-service'
+import { recordEmailEvent } from '@/lib/email-analytics-service'
+import { normaliseMessageId } from '@/lib/inbound-email'
+import type { EmailSuppressionReasonValue } from '@/lib/email-suppression'
+import type { EmailEventTypeValue } from '@/lib/email-analytics'
+
+// Brevo events that mean we must stop emailing the address
+const suppressionEvents: { [key: string]: EmailSuppressionReasonValue } = {
+  'hard_bounce': 'HARD_BOUNCE',
+  'invalid_email': 'HARD_BOUNCE',
+  'spam': 'SPAM_COMPLAINT',
+  'unsubscribed': 'UNSUBSCRIBED'
+}
+
+// Brevo events as stored on the email's event timeline
+const timelineEvents: { [key: string]: EmailEventTypeValue } = {
+  'delivered': 'DELIVERED',
+  'soft_bounce': 'SOFT_BOUNCE',
+  'hard_bounce': 'HARD_BOUNCE',
+  'invalid_email': 'HARD_BOUNCE',
+  'deferred': 'DEFERRED',
+  'spam': 'SPAM_COMPLAINT',
+  'blocked': 'BLOCKED',
+  'unsubscribed': 'UNSUBSCRIBED',
+  'opened': 'OPENED',
+  'unique_opened': 'OPENED',
+  'proxy_open': 'OPENED',
+  'click': 'CLICKED'
+}
 
 // Store webhook events for debugging and failed event recovery
 const webhookEvents: any[] = []
@@ -155,7 +184,7 @@ export async function POST(request: NextRequest) {
 }
 
 async function processBrevoWebhookEvent(eventData: any) {
-  const { event, email, 'message-id': messageId, date, reason, tag } = eventData
+  const { event, email, 'message-id': messageId, date, reason, tag, link, ts_event: tsEvent } = eventData
   
   console.log(`📧 Processing Brevo event: ${event} for ${email}`, {
     messageId,
@@ -174,6 +203,8 @@ async function processBrevoWebhookEvent(eventData: any) {
     'blocked': 'FAILED',
     'unsubscribed': 'SENT', // Keep as sent but track the unsubscribe
     'opened': 'DELIVERED', // Confirm delivery
+    'unique_opened': 'DELIVERED',
+    'proxy_open': 'DELIVERED',
     'click': 'DELIVERED'   // Confirm delivery
   }
   
@@ -186,6 +217,19 @@ async function processBrevoWebhookEvent(eventData: any) {
   // Enhanced email log lookup with multiple strategies
   let emailLog = await findEmailLogForWebhook(email, messageId, date)
   
+  // Suppress the address even when we can't match the email - the next chase would still go to it
+  const suppressionReason = suppressionEvents[event]
+  if (suppressionReason) {
+    await suppressEmailAddress({
+      email,
+      reason: suppressionReason,
+      source: 'BREVO',
+      detail: reason || `Brevo event: ${event}`,
+      emailLogId: emailLog?.id,
+      occurredAt: date ? new Date(date) : undefined
+    })
+  }
+  
   if (!emailLog) {
     const error = `No email log found for ${email} with event ${event} (messageId: ${messageId})`
     console.warn(`⚠️ ${error}`)
@@ -196,9 +240,17 @@ async function processBrevoWebhookEvent(eventData: any) {
     return
   }
   
-  // Check for duplicate events (basic deduplication)
-  const isDuplicate = await checkForDuplicateEvent(emailLog.id, event, date)
-  if (isDuplicate) {
+  // Keep every event on the email's timeline - a repeat of a stored event is a duplicate delivery
+  const { duplicate } = await recordEmailEvent({
+    emailLogId: emailLog.id,
+    provider: 'BREVO',
+    eventType: timelineEvents[event]!,
+    rawEvent: event,
+    occurredAt: tsEvent ? new Date(tsEvent * 1000) : date ? new Date(date) : undefined,
+    link: link || null,
+    reason: reason || null
+  })
+  if (duplicate) {
     console.log(`🔄 Duplicate event ignored: ${event} for email log ${emailLog.id}`)
     return
   }
@@ -213,6 +265,8 @@ async function processBrevoWebhookEvent(eventData: any) {
   switch (event) {
     case 'delivered':
     case 'opened':
+    case 'unique_opened':
+    case 'proxy_open':
     case 'click':
       updateData.deliveredAt = date ? new Date(date) : new Date()
       break
@@ -238,12 +292,10 @@ async function processBrevoWebhookEvent(eventData: any) {
     // Log engagement events for analytics
     if (event === 'opened' || event === 'click') {
       console.log(`📊 Email engagement tracked: ${event} for ${email}`)
-      // Could add to engagement tracking table here
     }
     
     if (event === 'unsubscribed') {
       console.log(`🚫 Unsubscribe tracked for ${email}`)
-      // Could update client preferences here
     }
     
   } catch (updateError) {
@@ -253,7 +305,19 @@ async function processBrevoWebhookEvent(eventData: any) {
 }
 
 async function findEmailLogForWebhook(email: string, messageId: string | undefined, date: string | undefined): Promise<any> {
-  // Strategy 1: Find by Brevo message ID if available
+  // Strategy 1: Find by the Message-ID stored when the email was sent
+  if (messageId) {
+    const emailLog = await db.emailLog.findFirst({
+      where: { messageId: normaliseMessageId(messageId) },
+      orderBy: { createdAt: 'desc' }
+    })
+    if (emailLog) {
+      console.log(`📧 Found email log by stored message ID: ${emailLog.id}`)
+      return emailLog
+    }
+  }
+
+  // Strategy 2: Find by Brevo message ID in older logs' template data
   if (messageId) {
     try {
       const emailLog = await db.emailLog.findFirst({
@@ -271,7 +335,7 @@ async function findEmailLogForWebhook(email: string, messageId: string | undefin
     }
   }
   
-  // Strategy 2: Find by email and recent timestamp
+  // Strategy 3: Find by email and recent timestamp
   const searchWindow = date ? new Date(date) : new Date()
   const startTime = new Date(searchWindow.getTime() - 2 * 60 * 60 * 1000) // 2 hours before
   const endTime = new Date(searchWindow.getTime() + 30 * 60 * 1000) // 30 minutes after
@@ -297,7 +361,7 @@ async function findEmailLogForWebhook(email: string, messageId: string | undefin
     console.warn('Failed to search by email and timeframe:', error)
   }
   
-  // Strategy 3: Find most recent email to this address (last resort)
+  // Strategy 4: Find most recent email to this address (last resort)
   try {
     const recentDate = new Date(Date.now() - 24 * 60 * 60 * 1000) // Last 24 hours
     const emailLog = await db.emailLog.findFirst({
@@ -320,35 +384,6 @@ async function findEmailLogForWebhook(email: string, messageId: string | undefin
   return null
 }
 
-async function checkForDuplicateEvent(emailLogId: string, event: string, date: string | undefined): Promise<boolean> {
-  try {
-    // Simple duplicate check - could be enhanced with a dedicated events table
-    const eventKey = `${emailLogId}-${event}-${date || 'no-date'}`
-    
-    // In a production system, you'd store processed events in Redis or database
-    // For now, we'll use a simple in-memory approach
-    const processedEvents = new Set<string>()
-    
-    if (processedEvents.has(eventKey)) {
-      return true
-    }
-    
-    processedEvents.add(eventKey)
-    
-    // Clean up old events periodically (keep last 1000)
-    if (processedEvents.size > 1000) {
-      const eventArray = Array.from(processedEvents)
-      processedEvents.clear()
-      eventArray.slice(-500).forEach(event => processedEvents.add(event))
-    }
-    
-    return false
-  } catch (error) {
-    console.warn('Failed to check for duplicate events:', error)
-    return false // If check fails, process the event anyway
-  }
-}
-
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
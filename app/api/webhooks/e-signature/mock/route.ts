@@ -0,0 +1,93 @@
+/**
+ * Mock E-Signature Provider Endpoint
+ *
+ * For local development with E_SIGNATURE_PROVIDER=mock (the default outside production):
+ * - GET lists the envelopes the mock provider holds
+ * - POST has the client view, sign or decline one, by sending a signed event to the real webhook
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
+import { getMockEnvelopes, MOCK_SIGNATURE_HEADER, signMockWebhookPayload } from '@/lib/e-signature-service'
+import { SIGNATURE_EVENTS } from '@/lib/e-signature'
+
+export const dynamic = 'force-dynamic'
+
+const MockEventSchema = z.object({
+  requestId: z.string().min(1),
+  event: z.enum(SIGNATURE_EVENTS),
+  reason: z.string().max(500).optional()
+})
+
+async function authorise() {
+  const auth = await authorize('communication.test_tools')
+  if (!auth.authorized) {
+    return auth.response
+  }
+  if (getMockEnvelopes() === null) {
+    return NextResponse.json({ error: 'The mock e-signature provider is not in use' }, { status: 404 })
+  }
+  return null
+}
+
+export async function GET() {
+  try {
+    const denied = await authorise()
+    if (denied) return denied
+
+    return NextResponse.json({ success: true, envelopes: getMockEnvelopes() })
+
+  } catch (error) {
+    console.error('❌ Failed to read mock e-signature envelopes:', error)
+    return NextResponse.json({ error: 'Failed to read mock envelopes' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const denied = await authorise()
+    if (denied) return denied
+
+    const secret = process.env.E_SIGNATURE_WEBHOOK_SECRET
+    if (!secret) {
+      return NextResponse.json({ error: 'E_SIGNATURE_WEBHOOK_SECRET is not configured' }, { status: 500 })
+    }
+
+    const body = await request.json()
+    const validation = MockEventSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: validation.error.errors
+      }, { status: 400 })
+    }
+
+    if (!getMockEnvelopes()?.some(envelope => envelope.providerRequestId === validation.data.requestId)) {
+      return NextResponse.json({ error: 'Envelope not found' }, { status: 404 })
+    }
+
+    const payload = JSON.stringify({ ...validation.data, occurredAt: new Date().toISOString() })
+    const webhookResponse = await fetch(`${request.nextUrl.origin}/api/webhooks/e-signature`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [MOCK_SIGNATURE_HEADER]: signMockWebhookPayload(payload, secret)
+      },
+      body: payload
+    })
+
+    const result = await webhookResponse.json()
+
+    return NextResponse.json({
+      success: webhookResponse.ok,
+      test_result: result,
+      webhook_status: webhookResponse.status,
+      message: `Mock ${validation.data.event.toLowerCase()} event sent to the e-signature webhook`
+    })
+
+  } catch (error) {
+    console.error('❌ Mock e-signature event failed:', error)
+    return NextResponse.json({ error: 'Failed to send mock signature event' }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * E-Signature Webhook
+ *
+ * The e-signature provider posts here when a client views, signs or declines a document. The active
+ * provider verifies and decodes the delivery; signed accounts packs are stored against the workflow
+ * and the workflow moves to APPROVED_BY_CLIENT.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { ESignatureError, handleSignatureEvent, parseSignatureWebhook } from '@/lib/e-signature-service'
+
+export async function POST(request: NextRequest) {
+  try {
+    const rawBody = await request.text()
+
+    const event = parseSignatureWebhook(rawBody, request.headers)
+    if (!event) {
+      return NextResponse.json({ success: true, ignored: true })
+    }
+
+    const result = await handleSignatureEvent(event)
+
+    if (!result.matched) {
+      console.log(`✍️ ${event.event} event for unknown envelope ${event.providerRequestId}, ignoring`)
+    }
+
+    return NextResponse.json({ success: true, ...result })
+
+  } catch (error) {
+    if (error instanceof ESignatureError) {
+      console.error('❌ E-signature webhook rejected:', error.message)
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 })
+    }
+    console.error('❌ E-signature webhook error:', error)
+    return NextResponse.json({ error: 'Failed to process signature event' }, { status: 500 })
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Inbound Email Webhook Handler
+ * 
+ * Parse-route endpoint for client replies. The mail provider's inbound parse
+ * posts each received email as multipart/form-data:
+ * - from, to, cc, subject, text, html - the message
+ * - headers - raw header block (Message-ID, In-Reply-To, References)
+ * - envelope - JSON with the SMTP envelope recipients
+ * - attachment1..N - attached files
+ * 
+ * Configure the parse URL as /api/webhooks/inbound-email?token=INBOUND_EMAIL_SECRET
+ * (parse routes cannot send custom headers, so the secret travels in the URL)
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { InboundEmailError, receiveInboundEmail } from '@/lib/inbound-email-service'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(request: NextRequest) {
+  try {
+    const expectedToken = process.env.INBOUND_EMAIL_SECRET
+
+    if (!expectedToken) {
+      console.error('❌ Missing INBOUND_EMAIL_SECRET environment variable')
+      return NextResponse.json(
+        { error: 'Inbound email not configured' },
+        { status: 500 }
+      )
+    }
+
+    const authHeader = request.headers.get('authorization')
+    const token = request.nextUrl.searchParams.get('token')
+
+    if (token !== expectedToken && authHeader !== `Bearer ${expectedToken}`) {
+      console.error('❌ Inbound email webhook called with an invalid token')
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    let formData: FormData
+    try {
+      formData = await request.formData()
+    } catch (parseError) {
+      console.error('❌ Inbound email body is not multipart form data:', parseError)
+      return NextResponse.json(
+        { error: 'Expected multipart/form-data' },
+        { status: 400 }
+      )
+    }
+
+    const field = (name: string) => {
+      const value = formData.get(name)
+      return typeof value === 'string' ? value : null
+    }
+
+    let envelopeTo: string[] = []
+    try {
+      const envelope = JSON.parse(field('envelope') || '{}')
+      envelopeTo = Array.isArray(envelope.to) ? envelope.to : []
+    } catch {
+      console.warn('⚠️ Inbound email envelope is not valid JSON - ignoring it')
+    }
+
+    const attachments = Array.from(formData.values()).filter((value): value is File => value instanceof File)
+
+    console.log(`📨 Inbound email received from ${field('from')} - ${attachments.length} attachment(s)`)
+
+    const result = await receiveInboundEmail({
+      from: field('from') || '',
+      to: field('to') || '',
+      cc: field('cc'),
+      subject: field('subject'),
+      text: field('text'),
+      html: field('html'),
+      headers: field('headers'),
+      envelopeTo,
+      attachments
+    })
+
+    if (result.matched) {
+      console.log(`✅ Inbound email stored on client ${result.clientId} (${result.duplicate ? 'duplicate' : result.matchedBy})`)
+    }
+
+    // Always 200 for emails we could read, matched or not, so the provider doesn't retry them
+    return NextResponse.json({ success: true, ...result })
+
+  } catch (error) {
+    if (error instanceof InboundEmailError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('❌ Inbound email webhook error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
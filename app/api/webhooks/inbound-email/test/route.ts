@@ -0,0 +1,102 @@
+/**
+ * Inbound Email Webhook Testing Endpoint
+ * 
+ * Local test fixture for the parse-route webhook:
+ * - GET returns a fixture reply to a client email (?emailLogId= or ?clientId=, defaults to the latest)
+ * - POST sends that fixture, with a CSV attachment, to the real handler
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/permission-service'
+import { buildInboundEmailFixture, InboundEmailError } from '@/lib/inbound-email-service'
+
+export const dynamic = 'force-dynamic'
+
+async function authorise() {
+  const auth = await authorize('communication.test_tools')
+  if (!auth.authorized) {
+    return auth.response
+  }
+  return null
+}
+
+function fixtureOptions(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  return {
+    emailLogId: searchParams.get('emailLogId') || undefined,
+    clientId: searchParams.get('clientId') || undefined
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const denied = await authorise()
+    if (denied) return denied
+
+    const fixture = await buildInboundEmailFixture(fixtureOptions(request))
+
+    return NextResponse.json({ success: true, fixture })
+
+  } catch (error) {
+    if (error instanceof InboundEmailError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('❌ Failed to build inbound email fixture:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const denied = await authorise()
+    if (denied) return denied
+
+    if (!process.env.INBOUND_EMAIL_SECRET) {
+      return NextResponse.json({ error: 'INBOUND_EMAIL_SECRET is not configured' }, { status: 500 })
+    }
+
+    const fixture = await buildInboundEmailFixture(fixtureOptions(request))
+
+    const formData = new FormData()
+    Object.entries(fixture.fields).forEach(([name, value]) => formData.append(name, value))
+    formData.append('attachments', '1')
+    formData.append(
+      'attachment1',
+      new Blob([fixture.attachment.content], { type: fixture.attachment.type }),
+      fixture.attachment.name
+    )
+
+    const webhookResponse = await fetch(
+      `${request.nextUrl.origin}/api/webhooks/inbound-email?token=${encodeURIComponent(process.env.INBOUND_EMAIL_SECRET)}`,
+      { method: 'POST', body: formData }
+    )
+
+    const result = await webhookResponse.json()
+
+    console.log('🧪 Inbound email test completed:', {
+      emailLogId: fixture.emailLogId,
+      webhookResponse: result,
+      statusCode: webhookResponse.status
+    })
+
+    return NextResponse.json({
+      success: webhookResponse.ok,
+      test_result: result,
+      webhook_status: webhookResponse.status,
+      message: 'Test reply sent to inbound email handler'
+    })
+
+  } catch (error) {
+    if (error instanceof InboundEmailError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error('❌ Inbound email test failed:', error)
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Fake Text Message Provider Endpoint
+ *
+ * For local development with MESSAGING_PROVIDER=fake (the default when Twilio isn't configured):
+ * - GET lists the messages the fake provider has "sent"
+ * - POST reports a delivery status for one of them, as Twilio's status callback would
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { authorize } from '@/lib/permission-service'
+import { getFakeOutbox, messagingService } from '@/lib/messaging-service'
+import { MESSAGE_DELIVERY_STATUSES } from '@/lib/messaging'
+
+export const dynamic = 'force-dynamic'
+
+const FakeStatusSchema = z.object({
+  providerMessageId: z.string().min(1),
+  status: z.enum(MESSAGE_DELIVERY_STATUSES),
+  error: z.string().optional()
+})
+
+async function authorise() {
+  const auth = await authorize('communication.test_tools')
+  if (!auth.authorized) {
+    return auth.response
+  }
+  if (messagingService.providerName !== 'FAKE') {
+    return NextResponse.json({ error: 'The fake text message provider is not in use' }, { status: 404 })
+  }
+  return null
+}
+
+export async function GET() {
+  try {
+    const denied = await authorise()
+    if (denied) return denied
+
+    return NextResponse.json({ success: true, messages: getFakeOutbox() })
+
+  } catch (error) {
+    console.error('❌ Failed to read fake text message outbox:', error)
+    return NextResponse.json({ error: 'Failed to read fake outbox' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const denied = await authorise()
+    if (denied) return denied
+
+    const body = await request.json()
+    const validation = FakeStatusSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json({
+        error: 'Invalid request data',
+        details: validation.error.errors
+      }, { status: 400 })
+    }
+
+    const updated = await messagingService.recordDeliveryStatus(validation.data)
+    if (!updated) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, deliveryStatus: updated.deliveryStatus })
+
+  } catch (error) {
+    console.error('❌ Fake text message status error:', error)
+    return NextResponse.json({ error: 'Failed to record delivery status' }, { status: 500 })
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Text Message Delivery Status Webhook
+ *
+ * Twilio posts a status callback (form encoded) each time an SMS or WhatsApp message moves on -
+ * queued, sent, delivered, undelivered or failed. The status is applied to the Communication
+ * logged when the message was sent.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { mapTwilioStatus, messagingService, verifyTwilioSignature } from '@/lib/messaging-service'
+
+export async function POST(request: NextRequest) {
+  try {
+    const authToken = process.env.TWILIO_AUTH_TOKEN
+    if (!authToken) {
+      console.error('❌ Missing TWILIO_AUTH_TOKEN environment variable')
+      return NextResponse.json({ error: 'Webhook secret not configured' }, { status: 500 })
+    }
+
+    const formData = await request.formData()
+    const params: Record<string, string> = {}
+    formData.forEach((value, key) => {
+      if (typeof value === 'string') params[key] = value
+    })
+
+    // Twilio signs the callback URL we gave it, which may differ from request.url behind a proxy
+    const callbackUrl = process.env.NEXTAUTH_URL
+      ? `${process.env.NEXTAUTH_URL}/api/webhooks/messaging`
+      : request.url
+    if (!verifyTwilioSignature(callbackUrl, params, request.headers.get('x-twilio-signature'), authToken)) {
+      console.error('❌ Invalid Twilio webhook signature')
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 })
+    }
+
+    const providerMessageId = params.MessageSid
+    const status = mapTwilioStatus(params.MessageStatus)
+    if (!providerMessageId || !status) {
+      return NextResponse.json({ error: 'Missing MessageSid or MessageStatus' }, { status: 400 })
+    }
+
+    const updated = await messagingService.recordDeliveryStatus({
+      providerMessageId,
+      status,
+      error: params.ErrorCode ? `Twilio error ${params.ErrorCode}${params.ErrorMessage ? `: ${params.ErrorMessage}` : ''}` : null
+    })
+
+    if (!updated) {
+      console.log(`📱 Status ${params.MessageStatus} for unknown message ${providerMessageId}, ignoring`)
+    }
+
+    return NextResponse.json({ success: true, matched: !!updated })
+
+  } catch (error) {
+    console.error('❌ Text message status webhook error:', error)
+    return NextResponse.json({ error: 'Failed to process status callback' }, { status: 500 })
+  }
+}
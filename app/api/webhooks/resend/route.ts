@@ -8,6 +8,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { emailOTPService } from '@/lib/email-otp'
 import { createHmac } from 'crypto'
+import { db } from '@/lib/db'
+import { suppressEmailAddress } from '@/lib/email-suppression-service'
+import { normaliseMessageId } from '@/lib/inbound-email'
+import { recordEmailEvent } from '@/lib/email-analytics-service'
+import type { EmailEventTypeValue } from '@/lib/email-analytics'
 
 // Store webhook events in memory for testing (you can replace this with database later)
 const webhookEvents: any[] = []
@@ -85,8 +90,7 @@ export async function POST(request: NextRequest) {
     // Log the event
     console.log('📨 Webhook event received:', webhookData.type, webhookData.data?.email_id)
     
-    // Handle the webhook event (you can expand this based on your needs)
-    // For now, just log it
+    await processResendWebhookEvent(webhookData)
     console.log('📨 Webhook event processed successfully')
     
     return NextResponse.json({ success: true })
@@ -100,6 +104,91 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// Resend events as stored on the email's event timeline (bounces are split by bounce type below)
+const timelineEvents: { [key: string]: EmailEventTypeValue } = {
+  'email.sent': 'SENT',
+  'email.delivered': 'DELIVERED',
+  'email.delivery_delayed': 'DEFERRED',
+  'email.opened': 'OPENED',
+  'email.clicked': 'CLICKED',
+  'email.bounced': 'HARD_BOUNCE',
+  'email.complained': 'SPAM_COMPLAINT'
+}
+
+/**
+ * Add the event to the email's timeline and put hard-bounced, complaining and unsubscribed
+ * addresses on the suppression list. Transient bounces aren't suppressed - Resend retries those itself
+ */
+async function processResendWebhookEvent(webhookData: any) {
+  const { type, created_at: createdAt, data } = webhookData
+  if (!data) return
+
+  const occurredAt = createdAt ? new Date(createdAt) : undefined
+  const recipients: string[] = Array.isArray(data.to) ? data.to : data.to ? [data.to] : []
+  const isTransientBounce = type === 'email.bounced' && !!data.bounce?.type && data.bounce.type !== 'Permanent'
+  const bounceDetail = data.bounce?.message || 'Resend event: email.bounced'
+
+  const emailLog = data.email_id
+    ? await db.emailLog.findFirst({
+        where: { messageId: normaliseMessageId(data.email_id) },
+        select: { id: true, status: true }
+      })
+    : null
+
+  if (emailLog && timelineEvents[type]) {
+    const { duplicate } = await recordEmailEvent({
+      emailLogId: emailLog.id,
+      provider: 'RESEND',
+      eventType: isTransientBounce ? 'SOFT_BOUNCE' : timelineEvents[type]!,
+      rawEvent: type,
+      occurredAt,
+      link: data.click?.link || null,
+      reason: type === 'email.bounced' ? bounceDetail : null
+    })
+    if (duplicate) {
+      console.log(`🔄 Duplicate Resend event ignored: ${type} for email log ${emailLog.id}`)
+      return
+    }
+
+    if (['email.delivered', 'email.opened', 'email.clicked'].includes(type) && emailLog.status !== 'BOUNCED') {
+      await db.emailLog.update({
+        where: { id: emailLog.id },
+        data: { status: 'DELIVERED', deliveredAt: occurredAt || new Date() }
+      })
+    }
+  }
+
+  if (type === 'email.bounced') {
+    if (isTransientBounce) {
+      console.log(`📨 Transient Resend bounce for ${recipients.join(', ')} - not suppressing`)
+      return
+    }
+
+    for (const email of recipients) {
+      await suppressEmailAddress({ email, reason: 'HARD_BOUNCE', source: 'RESEND', detail: bounceDetail, emailLogId: emailLog?.id, occurredAt })
+    }
+
+    if (emailLog) {
+      await db.emailLog.update({
+        where: { id: emailLog.id },
+        data: { status: 'BOUNCED', failedAt: occurredAt || new Date(), failureReason: bounceDetail }
+      })
+    }
+    return
+  }
+
+  if (type === 'email.complained') {
+    for (const email of recipients) {
+      await suppressEmailAddress({ email, reason: 'SPAM_COMPLAINT', source: 'RESEND', detail: 'Resend event: email.complained', emailLogId: emailLog?.id, occurredAt })
+    }
+    return
+  }
+
+  if (type === 'contact.updated' && data.unsubscribed === true && data.email) {
+    await suppressEmailAddress({ email: data.email, reason: 'UNSUBSCRIBED', source: 'RESEND', detail: 'Resend contact unsubscribed', occurredAt })
+  }
+}
+
 export async function GET(request: NextRequest) {
   try {
     // Get query parameters
@@ -1,60 +1,121 @@
-'use client'
-
+import { Suspense } from 'react'
+import { Metadata } from 'next'
 import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { Button } from '@/components/ui/button'
-import { Users, Clock, ArrowLeft, Wrench } from 'lucide-react'
-import Link from 'next/link'
+import { DirectorsTable } from '@/components/clients/directors-table'
+import { OfficerChangesCard } from '@/components/clients/officer-changes-card'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Users, Building2, UserPlus, UserMinus } from 'lucide-react'
+import { db } from '@/lib/db'
+
+export const metadata: Metadata = {
+  title: 'Directors | Numericalz',
+  description: 'Directors and persons with significant control across all client companies',
+}
+
+async function getDirectorStats() {
+  try {
+    const since = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)
+    const activeDirectorship = {
+      isActive: true,
+      officerRole: { contains: 'director' },
+      client: { isActive: true }
+    }
+
+    const [activeDirectors, directorships, changes] = await Promise.all([
+      db.officer.count({
+        where: { appointments: { some: activeDirectorship } }
+      }),
+
+      db.officerAppointment.groupBy({
+        by: ['officerId'],
+        where: activeDirectorship,
+        _count: { clientId: true }
+      }),
+
+      db.officerChange.groupBy({
+        by: ['changeType'],
+        where: {
+          detectedAt: { gte: since },
+          client: { isActive: true }
+        },
+        _count: { _all: true }
+      })
+    ])
+
+    const countChanges = (types: string[]) => changes
+      .filter(change => types.includes(change.changeType))
+      .reduce((total, change) => total + change._count._all, 0)
+
+    return {
+      activeDirectors,
+      multiCompanyDirectors: directorships.filter(director => director._count.clientId > 1).length,
+      appointedLast30Days: countChanges(['OFFICER_APPOINTED', 'PSC_ADDED']),
+      resignedLast30Days: countChanges(['OFFICER_RESIGNED', 'PSC_CEASED'])
+    }
+  } catch (error) {
+    console.error('Error fetching director stats:', error)
+    return { activeDirectors: 0, multiCompanyDirectors: 0, appointedLast30Days: 0, resignedLast30Days: 0 }
+  }
+}
+
+async function DirectorStatsCards() {
+  const stats = await getDirectorStats()
+
+  const cards = [
+    { title: 'Active Directors', value: stats.activeDirectors, icon: <Users className="h-4 w-4 text-muted-foreground" />, valueClass: '' },
+    { title: 'Directors of Several Clients', value: stats.multiCompanyDirectors, icon: <Building2 className="h-4 w-4 text-purple-600" />, valueClass: 'text-purple-600' },
+    { title: 'Appointed / Notified (30 days)', value: stats.appointedLast30Days, icon: <UserPlus className="h-4 w-4 text-green-600" />, valueClass: 'text-green-600' },
+    { title: 'Resigned / Ceased (30 days)', value: stats.resignedLast30Days, icon: <UserMinus className="h-4 w-4 text-destructive" />, valueClass: 'text-destructive' }
+  ]
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+      {cards.map(card => (
+        <Card key={card.title}>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">{card.title}</CardTitle>
+            {card.icon}
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${card.valueClass}`}>{card.value}</div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
 
 export default function DirectorsPage() {
   return (
-    <PageLayout maxWidth="xl">
-      <PageHeader 
-        title="Directors Management"
-        description="Directors filing and compliance management system"
-      >
-        <Link href="/dashboard/clients">
-          <Button variant="outline" size="sm">
-            <ArrowLeft className="h-4 w-4 mr-2" />
-            Back to Clients
-          </Button>
-        </Link>
-      </PageHeader>
-      
+    <PageLayout maxWidth="full">
+      <PageHeader
+        title="Directors"
+        description="Directors and persons with significant control across all client companies"
+      />
+
       <PageContent>
-        <div className="flex items-center justify-center min-h-[400px]">
-          <Card className="w-full max-w-md text-center">
-            <CardHeader className="pb-4">
-              <div className="mx-auto w-16 h-16 bg-gradient-to-br from-blue-500 to-purple-600 rounded-xl flex items-center justify-center mb-4">
-                <Users className="h-8 w-8 text-white" />
-              </div>
-              <CardTitle className="text-xl">Directors Management</CardTitle>
+        <Suspense fallback={<div className="h-24 mb-6 bg-muted animate-pulse rounded" />}>
+          <DirectorStatsCards />
+        </Suspense>
+
+        <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
+          <Card className="xl:col-span-3">
+            <CardHeader>
+              <CardTitle>Directors</CardTitle>
+              <CardDescription>
+                Built from Companies House officer and PSC data each time a client is refreshed. People who are directors of several client companies are listed once with every appointment.
+              </CardDescription>
             </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="flex items-center justify-center gap-2 text-muted-foreground">
-                <Clock className="h-4 w-4" />
-                <span className="text-sm">Coming Soon</span>
-              </div>
-              
-              <p className="text-sm text-muted-foreground leading-relaxed">
-                We're working on building a comprehensive directors management system 
-                to handle director filings, confirmations, and compliance requirements.
-              </p>
-              
-              <div className="flex items-center justify-center gap-2 text-orange-600 bg-orange-50 rounded-lg p-3">
-                <Wrench className="h-4 w-4" />
-                <span className="text-xs font-medium">Under Development</span>
-              </div>
-              
-              <div className="pt-2">
-                <p className="text-xs text-muted-foreground">
-                  This feature will be available in a future update.
-                </p>
-              </div>
+            <CardContent>
+              <DirectorsTable />
             </CardContent>
           </Card>
+
+          <div className="xl:col-span-1">
+            <OfficerChangesCard />
+          </div>
         </div>
       </PageContent>
     </PageLayout>
   )
-} 
\ No newline at end of file
+}
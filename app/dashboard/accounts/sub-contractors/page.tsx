@@ -1,60 +1,134 @@
-'use client'
-
+import { Suspense } from 'react'
+import { Metadata } from 'next'
 import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { Button } from '@/components/ui/button'
-import { Users, Clock, ArrowLeft, Wrench } from 'lucide-react'
-import Link from 'next/link'
+import { CisReturnsTable } from '@/components/clients/cis-returns-table'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { HardHat, Calendar, AlertTriangle, CheckCircle, ShieldAlert } from 'lucide-react'
+import { db } from '@/lib/db'
+
+export const metadata: Metadata = {
+  title: 'Sub Contractors | Numericalz',
+  description: 'Manage CIS monthly returns and subcontractor verification for contractor clients',
+}
+
+async function getCisStats() {
+  try {
+    const now = new Date()
+    const activeScheme = { isActive: true, client: { isActive: true } }
+
+    const [
+      outstanding,
+      overdue,
+      dueThisWeek,
+      submittedLast30Days,
+      unverifiedSubcontractors
+    ] = await Promise.all([
+      db.cisReturn.count({
+        where: {
+          isCompleted: false,
+          scheme: activeScheme
+        }
+      }),
+
+      db.cisReturn.count({
+        where: {
+          isCompleted: false,
+          scheme: activeScheme,
+          dueDate: { lt: now }
+        }
+      }),
+
+      // CIS300 due within 7 days
+      db.cisReturn.count({
+        where: {
+          isCompleted: false,
+          scheme: activeScheme,
+          dueDate: {
+            gte: now,
+            lte: new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000)
+          }
+        }
+      }),
+
+      db.cisReturn.count({
+        where: {
+          isCompleted: true,
+          updatedAt: { gte: new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000) }
+        }
+      }),
+
+      // Active subcontractors still deducted at the higher rate
+      db.cisSubcontractor.count({
+        where: {
+          isActive: true,
+          verificationStatus: { in: ['UNVERIFIED', 'UNMATCHED'] },
+          client: { isActive: true, cisScheme: { isActive: true } }
+        }
+      })
+    ])
+
+    return { outstanding, overdue, dueThisWeek, submittedLast30Days, unverifiedSubcontractors }
+  } catch (error) {
+    console.error('Error fetching CIS stats:', error)
+    return { outstanding: 0, overdue: 0, dueThisWeek: 0, submittedLast30Days: 0, unverifiedSubcontractors: 0 }
+  }
+}
+
+async function CisStatsCards() {
+  const stats = await getCisStats()
+
+  const cards = [
+    { title: 'Outstanding Returns', value: stats.outstanding, icon: <HardHat className="h-4 w-4 text-muted-foreground" />, valueClass: '' },
+    { title: 'CIS300 Overdue', value: stats.overdue, icon: <AlertTriangle className="h-4 w-4 text-destructive" />, valueClass: 'text-destructive' },
+    { title: 'Due This Week', value: stats.dueThisWeek, icon: <Calendar className="h-4 w-4 text-orange-500" />, valueClass: 'text-orange-500' },
+    { title: 'Submitted (30 days)', value: stats.submittedLast30Days, icon: <CheckCircle className="h-4 w-4 text-green-600" />, valueClass: 'text-green-600' },
+    { title: 'Unverified Subcontractors', value: stats.unverifiedSubcontractors, icon: <ShieldAlert className="h-4 w-4 text-amber-600" />, valueClass: 'text-amber-600' }
+  ]
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4 mb-6">
+      {cards.map(card => (
+        <Card key={card.title}>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">{card.title}</CardTitle>
+            {card.icon}
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${card.valueClass}`}>{card.value}</div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
 
 export default function SubContractorsPage() {
   return (
-    <PageLayout maxWidth="xl">
-      <PageHeader 
-        title="Sub Contractors Management"
-        description="Sub contractor compliance and filing management system"
-      >
-        <Link href="/dashboard/clients">
-          <Button variant="outline" size="sm">
-            <ArrowLeft className="h-4 w-4 mr-2" />
-            Back to Clients
-          </Button>
-        </Link>
-      </PageHeader>
-      
+    <PageLayout maxWidth="full">
+      <PageHeader
+        title="Sub Contractors (CIS)"
+        description="Track CIS300 monthly returns and subcontractor deductions for contractor clients"
+      />
+
       <PageContent>
-        <div className="flex items-center justify-center min-h-[400px]">
-          <Card className="w-full max-w-md text-center">
-            <CardHeader className="pb-4">
-              <div className="mx-auto w-16 h-16 bg-gradient-to-br from-green-500 to-teal-600 rounded-xl flex items-center justify-center mb-4">
-                <Users className="h-8 w-8 text-white" />
-              </div>
-              <CardTitle className="text-xl">Sub Contractors Management</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="flex items-center justify-center gap-2 text-muted-foreground">
-                <Clock className="h-4 w-4" />
-                <span className="text-sm">Coming Soon</span>
-              </div>
-              
-              <p className="text-sm text-muted-foreground leading-relaxed">
-                We're developing a specialized sub contractor management system 
-                to handle CIS compliance, monthly returns, and contractor verification.
-              </p>
-              
-              <div className="flex items-center justify-center gap-2 text-orange-600 bg-orange-50 rounded-lg p-3">
-                <Wrench className="h-4 w-4" />
-                <span className="text-xs font-medium">Under Development</span>
-              </div>
-              
-              <div className="pt-2">
-                <p className="text-xs text-muted-foreground">
-                  This feature will be available in a future update.
-                </p>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
+        <Suspense fallback={<div className="h-24 mb-6 bg-muted animate-pulse rounded" />}>
+          <CisStatsCards />
+        </Suspense>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>CIS Monthly Returns</CardTitle>
+            <CardDescription>
+              Returns are generated for each client registered as a CIS contractor. Each tax month runs from the 6th to the 5th and its CIS300 is due by the 19th. Deductions are 0% for gross status, 20% for verified subcontractors and 30% for unmatched or unverified ones.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Suspense fallback={<div className="h-96 bg-muted animate-pulse rounded" />}>
+              <CisReturnsTable />
+            </Suspense>
+          </CardContent>
+        </Card>
       </PageContent>
     </PageLayout>
   )
-} 
\ No newline at end of file
+}
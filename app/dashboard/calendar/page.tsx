@@ -5,6 +5,7 @@ import { redirect } from 'next/navigation'
 import { DeadlineCalendar } from '@/components/dashboard/deadline-calendar'
 import { getAllDeadlines, getDeadlinesForUser } from '@/lib/deadline-utils'
 import { db } from '@/lib/db'
+import { getTeamLeave } from '@/lib/staff-leave-service'
 
 
 import { Card, CardContent } from '@/components/ui/card'
@@ -31,9 +32,15 @@ async function CalendarData() {
     throw new Error('User not found')
   }
 
+  // Leave from a few months back to a year ahead, matching how far people browse
+  const leaveFrom = new Date()
+  leaveFrom.setMonth(leaveFrom.getMonth() - 3)
+  const leaveTo = new Date()
+  leaveTo.setFullYear(leaveTo.getFullYear() + 1)
+
   // Always fetch all deadlines for Company Deadline Tracker functionality
   // The component will handle filtering based on scope
-  const [allDeadlines, allUsers] = await Promise.all([
+  const [allDeadlines, allUsers, teamLeave] = await Promise.all([
     getAllDeadlines(),
     db.user.findMany({
       where: {
@@ -42,18 +49,29 @@ async function CalendarData() {
       select: {
         id: true,
         name: true,
-        email: true
+        email: true,
+        workingDays: true
       }
-    })
+    }),
+    getTeamLeave(leaveFrom, leaveTo)
   ])
   
   const deadlines = allDeadlines
   const users = allUsers
+  const leave = teamLeave.map(range => ({
+    id: range.id,
+    userId: range.userId,
+    userName: range.user.name,
+    type: range.type,
+    startDate: range.startDate.toISOString().slice(0, 10),
+    endDate: range.endDate.toISOString().slice(0, 10)
+  }))
 
   return (
     <DeadlineCalendar 
       deadlines={deadlines} 
       users={users} 
+      leave={leave}
       userRole={user.role}
       currentUserId={user.id}
       currentUserName={user.name}
@@ -2,6 +2,7 @@ import { Metadata } from 'next'
 import { getServerSession } from 'next-auth'
 import { redirect, notFound } from 'next/navigation'
 import { authOptions } from '@/lib/auth'
+import { hasPermission } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { EditClientForm } from '@/components/clients/edit-client-form'
 
@@ -39,8 +40,8 @@ export default async function EditClientPage({ params }: EditClientPageProps) {
     redirect('/auth/login')
   }
 
-  // Only managers and partners can edit clients
-  if (session.user.role !== 'MANAGER' && session.user.role !== 'PARTNER') {
+  // Needs clients.edit
+  if (!(await hasPermission(session.user.id, 'clients.edit'))) {
     redirect('/dashboard/clients')
   }
 
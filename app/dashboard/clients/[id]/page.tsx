@@ -2,6 +2,7 @@ import { Metadata } from 'next'
 import { getServerSession } from 'next-auth'
 import { redirect, notFound } from 'next/navigation'
 import { authOptions } from '@/lib/auth'
+import { hasPermission } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { ClientDetailView } from '@/components/clients/client-detail-view'
 
@@ -117,8 +118,8 @@ export default async function ClientDetailPage({ params }: ClientDetailPageProps
     notFound()
   }
 
-  // Check permissions - staff can only view their assigned clients
-  if (session.user.role === 'STAFF') {
+  // Without clients.view_all users can only view their assigned clients
+  if (!(await hasPermission(session.user.id, 'clients.view_all'))) {
     const isAssigned = client.assignedUserId === session.user.id ||
                       // client.vatAssignedUserId === session.user.id ||  // REMOVED: Client-level VAT assignments no longer used
                       client.ltdCompanyAssignedUserId === session.user.id ||
@@ -130,5 +131,5 @@ export default async function ClientDetailPage({ params }: ClientDetailPageProps
     }
   }
 
-  return <ClientDetailView client={client} currentUser={session.user} />
+  return <ClientDetailView client={client} />
 } 
\ No newline at end of file
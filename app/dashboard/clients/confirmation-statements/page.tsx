@@ -0,0 +1,122 @@
+import { Suspense } from 'react'
+import { Metadata } from 'next'
+import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
+import { ConfirmationStatementsTable } from '@/components/clients/confirmation-statements-table'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { FileCheck, Calendar, AlertTriangle, CheckCircle } from 'lucide-react'
+import { db } from '@/lib/db'
+
+export const metadata: Metadata = {
+  title: 'Confirmation Statements | Numericalz',
+  description: 'Manage Companies House confirmation statement deadlines and workflows',
+}
+
+async function getConfirmationStatementStats() {
+  try {
+    const now = new Date()
+
+    const [
+      outstanding,
+      overdue,
+      dueSoon,
+      filedLast30Days
+    ] = await Promise.all([
+      db.confirmationStatementWorkflow.count({
+        where: {
+          isCompleted: false,
+          client: { isActive: true }
+        }
+      }),
+
+      db.confirmationStatementWorkflow.count({
+        where: {
+          isCompleted: false,
+          client: { isActive: true },
+          filingDueDate: { lt: now }
+        }
+      }),
+
+      // Due within 30 days
+      db.confirmationStatementWorkflow.count({
+        where: {
+          isCompleted: false,
+          client: { isActive: true },
+          filingDueDate: {
+            gte: now,
+            lte: new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000)
+          }
+        }
+      }),
+
+      db.confirmationStatementWorkflow.count({
+        where: {
+          isCompleted: true,
+          updatedAt: { gte: new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000) }
+        }
+      })
+    ])
+
+    return { outstanding, overdue, dueSoon, filedLast30Days }
+  } catch (error) {
+    console.error('Error fetching confirmation statement stats:', error)
+    return { outstanding: 0, overdue: 0, dueSoon: 0, filedLast30Days: 0 }
+  }
+}
+
+async function ConfirmationStatementStatsCards() {
+  const stats = await getConfirmationStatementStats()
+
+  const cards = [
+    { title: 'Outstanding', value: stats.outstanding, icon: <FileCheck className="h-4 w-4 text-muted-foreground" />, valueClass: '' },
+    { title: 'Overdue', value: stats.overdue, icon: <AlertTriangle className="h-4 w-4 text-destructive" />, valueClass: 'text-destructive' },
+    { title: 'Due Soon', value: stats.dueSoon, icon: <Calendar className="h-4 w-4 text-orange-500" />, valueClass: 'text-orange-500' },
+    { title: 'Filed (30 days)', value: stats.filedLast30Days, icon: <CheckCircle className="h-4 w-4 text-green-600" />, valueClass: 'text-green-600' }
+  ]
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+      {cards.map(card => (
+        <Card key={card.title}>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">{card.title}</CardTitle>
+            {card.icon}
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${card.valueClass}`}>{card.value}</div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
+
+export default function ConfirmationStatementsPage() {
+  return (
+    <PageLayout maxWidth="full">
+      <PageHeader
+        title="Confirmation Statements"
+        description="Track Companies House confirmation statements for all limited companies"
+      />
+
+      <PageContent>
+        <Suspense fallback={<div className="h-24 mb-6 bg-muted animate-pulse rounded" />}>
+          <ConfirmationStatementStatsCards />
+        </Suspense>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Confirmation Statement Workflows</CardTitle>
+            <CardDescription>
+              Statements are due 14 days after the statement date. Filed statements roll over once Companies House publishes the next due date.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Suspense fallback={<div className="h-96 bg-muted animate-pulse rounded" />}>
+              <ConfirmationStatementsTable />
+            </Suspense>
+          </CardContent>
+        </Card>
+      </PageContent>
+    </PageLayout>
+  )
+}
@@ -0,0 +1,51 @@
+import { Metadata } from 'next'
+import { getServerSession } from 'next-auth'
+import { redirect } from 'next/navigation'
+import { authOptions } from '@/lib/auth'
+import { hasPermission } from '@/lib/permission-service'
+import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
+import { ContactHealthReport } from '@/components/clients/contact-health-report'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+export const metadata: Metadata = {
+  title: 'Contact Health | Numericalz',
+  description: 'Clients whose contact email bounced, complained or unsubscribed',
+}
+
+/**
+ * Contact health page - needs clients.contact_health
+ *
+ * Features:
+ * - Clients whose contact email is on the suppression list
+ * - Links to fix each client's contact email
+ */
+export default async function ContactHealthPage() {
+  const session = await getServerSession(authOptions)
+
+  if (!session || !(await hasPermission(session.user.id, 'clients.contact_health'))) {
+    redirect('/dashboard')
+  }
+
+  return (
+    <PageLayout maxWidth="full">
+      <PageHeader
+        title="Contact Health"
+        description="Clients whose contact email needs fixing"
+      />
+
+      <PageContent>
+        <Card>
+          <CardHeader>
+            <CardTitle>Invalid Contact Emails</CardTitle>
+            <CardDescription>
+              Hard bounces, spam complaints and unsubscribes reported by Brevo and Resend put the address on the suppression list. Nothing is emailed to it until the client&apos;s contact email is changed or the suppression is lifted.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ContactHealthReport />
+          </CardContent>
+        </Card>
+      </PageContent>
+    </PageLayout>
+  )
+}
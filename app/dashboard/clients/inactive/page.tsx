@@ -2,6 +2,7 @@ import { Metadata } from 'next'
 import { getServerSession } from 'next-auth'
 import { redirect } from 'next/navigation'
 import { authOptions } from '@/lib/auth'
+import { hasPermission } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { InactiveClientsTable } from '@/components/clients/inactive-clients-table'
 
@@ -17,13 +18,12 @@ export const metadata: Metadata = {
  * - View all resigned/inactive clients
  * - Reassign clients back to active status
  * - Delete clients permanently with confirmation
- * - Partner and Manager access
+ * - Needs clients.view_inactive
  */
 export default async function InactiveClientsPage() {
   const session = await getServerSession(authOptions)
 
-  // Only partners and managers can access this page
-  if (!session || (session.user.role !== 'PARTNER' && session.user.role !== 'MANAGER')) {
+  if (!session || !(await hasPermission(session.user.id, 'clients.view_inactive'))) {
     redirect('/dashboard')
   }
 
@@ -0,0 +1,123 @@
+import { Suspense } from 'react'
+import { Metadata } from 'next'
+import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
+import { PayrollRunsTable } from '@/components/clients/payroll-runs-table'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Banknote, Calendar, AlertTriangle, CheckCircle } from 'lucide-react'
+import { db } from '@/lib/db'
+
+export const metadata: Metadata = {
+  title: 'Payroll | Numericalz',
+  description: 'Manage payroll runs and RTI submission deadlines for payroll clients',
+}
+
+async function getPayrollStats() {
+  try {
+    const now = new Date()
+    const payrollClient = { isActive: true, requiresPayroll: true }
+
+    const [
+      outstanding,
+      overdue,
+      dueThisWeek,
+      submittedLast30Days
+    ] = await Promise.all([
+      db.payrollRun.count({
+        where: {
+          isCompleted: false,
+          client: payrollClient
+        }
+      }),
+
+      db.payrollRun.count({
+        where: {
+          isCompleted: false,
+          client: payrollClient,
+          fpsDueDate: { lt: now }
+        }
+      }),
+
+      // FPS due within 7 days
+      db.payrollRun.count({
+        where: {
+          isCompleted: false,
+          client: payrollClient,
+          fpsDueDate: {
+            gte: now,
+            lte: new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000)
+          }
+        }
+      }),
+
+      db.payrollRun.count({
+        where: {
+          isCompleted: true,
+          updatedAt: { gte: new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000) }
+        }
+      })
+    ])
+
+    return { outstanding, overdue, dueThisWeek, submittedLast30Days }
+  } catch (error) {
+    console.error('Error fetching payroll stats:', error)
+    return { outstanding: 0, overdue: 0, dueThisWeek: 0, submittedLast30Days: 0 }
+  }
+}
+
+async function PayrollStatsCards() {
+  const stats = await getPayrollStats()
+
+  const cards = [
+    { title: 'Outstanding Runs', value: stats.outstanding, icon: <Banknote className="h-4 w-4 text-muted-foreground" />, valueClass: '' },
+    { title: 'FPS Overdue', value: stats.overdue, icon: <AlertTriangle className="h-4 w-4 text-destructive" />, valueClass: 'text-destructive' },
+    { title: 'Due This Week', value: stats.dueThisWeek, icon: <Calendar className="h-4 w-4 text-orange-500" />, valueClass: 'text-orange-500' },
+    { title: 'Submitted (30 days)', value: stats.submittedLast30Days, icon: <CheckCircle className="h-4 w-4 text-green-600" />, valueClass: 'text-green-600' }
+  ]
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+      {cards.map(card => (
+        <Card key={card.title}>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">{card.title}</CardTitle>
+            {card.icon}
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${card.valueClass}`}>{card.value}</div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
+
+export default function PayrollPage() {
+  return (
+    <PageLayout maxWidth="full">
+      <PageHeader
+        title="Payroll"
+        description="Track payroll runs and RTI submissions for clients with payroll services"
+      />
+
+      <PageContent>
+        <Suspense fallback={<div className="h-24 mb-6 bg-muted animate-pulse rounded" />}>
+          <PayrollStatsCards />
+        </Suspense>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Payroll Runs</CardTitle>
+            <CardDescription>
+              Runs are generated from each client&apos;s payroll schedule. The FPS is due on or before the pay date; the EPS by the 19th and PAYE payment by the 22nd after the tax month ends.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Suspense fallback={<div className="h-96 bg-muted animate-pulse rounded" />}>
+              <PayrollRunsTable />
+            </Suspense>
+          </CardContent>
+        </Card>
+      </PageContent>
+    </PageLayout>
+  )
+}
@@ -0,0 +1,122 @@
+import { Suspense } from 'react'
+import { Metadata } from 'next'
+import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
+import { SelfAssessmentTable } from '@/components/clients/self-assessment-table'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { UserRoundCheck, Calendar, AlertTriangle, CheckCircle } from 'lucide-react'
+import { db } from '@/lib/db'
+
+export const metadata: Metadata = {
+  title: 'Self Assessment | Numericalz',
+  description: 'Manage SA100 self assessment deadlines and workflows for individual clients',
+}
+
+async function getSelfAssessmentStats() {
+  try {
+    const now = new Date()
+
+    const [
+      outstanding,
+      overdue,
+      dueSoon,
+      filedLast30Days
+    ] = await Promise.all([
+      db.selfAssessmentWorkflow.count({
+        where: {
+          isCompleted: false,
+          client: { isActive: true }
+        }
+      }),
+
+      db.selfAssessmentWorkflow.count({
+        where: {
+          isCompleted: false,
+          client: { isActive: true },
+          onlineFilingDueDate: { lt: now }
+        }
+      }),
+
+      // Due within 30 days
+      db.selfAssessmentWorkflow.count({
+        where: {
+          isCompleted: false,
+          client: { isActive: true },
+          onlineFilingDueDate: {
+            gte: now,
+            lte: new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000)
+          }
+        }
+      }),
+
+      db.selfAssessmentWorkflow.count({
+        where: {
+          isCompleted: true,
+          updatedAt: { gte: new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000) }
+        }
+      })
+    ])
+
+    return { outstanding, overdue, dueSoon, filedLast30Days }
+  } catch (error) {
+    console.error('Error fetching self assessment stats:', error)
+    return { outstanding: 0, overdue: 0, dueSoon: 0, filedLast30Days: 0 }
+  }
+}
+
+async function SelfAssessmentStatsCards() {
+  const stats = await getSelfAssessmentStats()
+
+  const cards = [
+    { title: 'Outstanding', value: stats.outstanding, icon: <UserRoundCheck className="h-4 w-4 text-muted-foreground" />, valueClass: '' },
+    { title: 'Overdue', value: stats.overdue, icon: <AlertTriangle className="h-4 w-4 text-destructive" />, valueClass: 'text-destructive' },
+    { title: 'Due Soon', value: stats.dueSoon, icon: <Calendar className="h-4 w-4 text-orange-500" />, valueClass: 'text-orange-500' },
+    { title: 'Filed (30 days)', value: stats.filedLast30Days, icon: <CheckCircle className="h-4 w-4 text-green-600" />, valueClass: 'text-green-600' }
+  ]
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+      {cards.map(card => (
+        <Card key={card.title}>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">{card.title}</CardTitle>
+            {card.icon}
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${card.valueClass}`}>{card.value}</div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
+
+export default function SelfAssessmentPage() {
+  return (
+    <PageLayout maxWidth="full">
+      <PageHeader
+        title="Self Assessment"
+        description="Track SA100 personal tax returns for individual and sole trader clients"
+      />
+
+      <PageContent>
+        <Suspense fallback={<div className="h-24 mb-6 bg-muted animate-pulse rounded" />}>
+          <SelfAssessmentStatsCards />
+        </Suspense>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Self Assessment Workflows</CardTitle>
+            <CardDescription>
+              Returns are due online by 31 January after the tax year ends (paper by 31 October). Clients roll on to the next tax year once the current return is filed.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Suspense fallback={<div className="h-96 bg-muted animate-pulse rounded" />}>
+              <SelfAssessmentTable />
+            </Suspense>
+          </CardContent>
+        </Card>
+      </PageContent>
+    </PageLayout>
+  )
+}
@@ -0,0 +1,119 @@
+import { Suspense } from 'react'
+import { Metadata } from 'next'
+import { getServerSession } from 'next-auth'
+import { redirect } from 'next/navigation'
+import { authOptions } from '@/lib/auth'
+import { hasPermission } from '@/lib/permission-service'
+import { db } from '@/lib/db'
+import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
+import { VATReconciliationReport } from '@/components/clients/vat-reconciliation-report'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { AlertTriangle, CalendarX, FileCheck, Users } from 'lucide-react'
+
+export const metadata: Metadata = {
+  title: 'VAT Reconciliation | Numericalz',
+  description: 'Differences between HMRC VAT obligations and our VAT quarters',
+}
+
+async function getReconciliationStats() {
+  try {
+    const [counts, clientsWithVrn, clientsWithoutVrn] = await Promise.all([
+      db.vATReconciliationIssue.groupBy({
+        by: ['issueType'],
+        where: { status: 'OPEN', client: { isActive: true } },
+        _count: { _all: true }
+      }),
+
+      db.client.count({
+        where: { isActive: true, isVatEnabled: true, vatNumber: { not: null } }
+      }),
+
+      db.client.count({
+        where: { isActive: true, isVatEnabled: true, vatNumber: null }
+      })
+    ])
+
+    const countFor = (issueType: string) => counts.find(count => count.issueType === issueType)?._count._all || 0
+
+    return {
+      periodMismatches: countFor('PERIOD_MISMATCH'),
+      missingQuarters: countFor('MISSING_QUARTER'),
+      fulfilledButOpen: countFor('FULFILLED_BUT_OPEN'),
+      clientsWithVrn,
+      clientsWithoutVrn
+    }
+  } catch (error) {
+    console.error('Error fetching VAT reconciliation stats:', error)
+    return { periodMismatches: 0, missingQuarters: 0, fulfilledButOpen: 0, clientsWithVrn: 0, clientsWithoutVrn: 0 }
+  }
+}
+
+async function ReconciliationStatsCards() {
+  const stats = await getReconciliationStats()
+
+  const cards = [
+    { title: 'Period Mismatches', value: stats.periodMismatches, icon: <AlertTriangle className="h-4 w-4 text-amber-600" />, valueClass: 'text-amber-600', note: null },
+    { title: 'Missing Quarters', value: stats.missingQuarters, icon: <CalendarX className="h-4 w-4 text-destructive" />, valueClass: 'text-destructive', note: null },
+    { title: 'Filed at HMRC, Open Here', value: stats.fulfilledButOpen, icon: <FileCheck className="h-4 w-4 text-blue-600" />, valueClass: 'text-blue-600', note: null },
+    { title: 'VAT Clients Checked', value: stats.clientsWithVrn, icon: <Users className="h-4 w-4 text-muted-foreground" />, valueClass: '', note: stats.clientsWithoutVrn > 0 ? `${stats.clientsWithoutVrn} without a VAT number` : null }
+  ]
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+      {cards.map(card => (
+        <Card key={card.title}>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">{card.title}</CardTitle>
+            {card.icon}
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${card.valueClass}`}>{card.value}</div>
+            {card.note && <p className="text-xs text-muted-foreground">{card.note}</p>}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * VAT reconciliation page - needs vat.reconciliation
+ *
+ * Features:
+ * - Open issue counts by type
+ * - Fix-up report with one-click corrections
+ */
+export default async function VATReconciliationPage() {
+  const session = await getServerSession(authOptions)
+
+  if (!session || !(await hasPermission(session.user.id, 'vat.reconciliation'))) {
+    redirect('/dashboard')
+  }
+
+  return (
+    <PageLayout maxWidth="full">
+      <PageHeader
+        title="VAT Reconciliation"
+        description="Differences between HMRC VAT obligations and our VAT quarters"
+      />
+
+      <PageContent>
+        <Suspense fallback={<div className="h-24 mb-6 bg-muted animate-pulse rounded" />}>
+          <ReconciliationStatsCards />
+        </Suspense>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Fix-up Report</CardTitle>
+            <CardDescription>
+              Our quarters are generated from each client&apos;s quarter group. Reconciliation checks the last 12 months of HMRC obligations for every VAT client with a VAT number, monthly and on demand.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <VATReconciliationReport />
+          </CardContent>
+        </Card>
+      </PageContent>
+    </PageLayout>
+  )
+}
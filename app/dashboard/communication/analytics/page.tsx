@@ -0,0 +1,36 @@
+import { Metadata } from 'next'
+import { getServerSession } from 'next-auth'
+import { redirect } from 'next/navigation'
+import { authOptions } from '@/lib/auth'
+import { hasPermission } from '@/lib/permission-service'
+import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
+import { EmailAnalyticsDashboard } from '@/components/communication/email-analytics-dashboard'
+
+export const metadata: Metadata = {
+  title: 'Email Analytics | Numericalz',
+  description: 'Delivery, open and click rates for client emails',
+}
+
+/**
+ * Email analytics page - needs communication.analytics
+ */
+export default async function EmailAnalyticsPage() {
+  const session = await getServerSession(authOptions)
+
+  if (!session || !(await hasPermission(session.user.id, 'communication.analytics'))) {
+    redirect('/dashboard')
+  }
+
+  return (
+    <PageLayout maxWidth="full">
+      <PageHeader
+        title="Email Analytics"
+        description="How clients engage with the emails we send"
+      />
+
+      <PageContent>
+        <EmailAnalyticsDashboard />
+      </PageContent>
+    </PageLayout>
+  )
+}
@@ -0,0 +1,536 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Switch } from '@/components/ui/switch'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
+import { Plus, Edit, Trash2, Mail, MessageSquare, AlertTriangle, Repeat, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { usePermissions } from '@/lib/hooks/usePermissions'
+
+/**
+ * Chase Sequences Page
+ *
+ * Features:
+ * - Configure automated chase cadences per workflow type (VAT, Ltd, Non-Ltd)
+ * - Each step emails or texts (SMS/WhatsApp) a Chase Reminders template, or escalates to partners
+ * - One active sequence per workflow type; activating one deactivates the others
+ * - Steps are sent by the daily chase automation until paperwork is received
+ */
+
+interface ChaseStep {
+  id?: string
+  stepOrder?: number
+  dayOffset: number
+  action: 'EMAIL_CLIENT' | 'SMS_CLIENT' | 'WHATSAPP_CLIENT' | 'ESCALATE_TO_PARTNER'
+  templateId?: string | null
+  template?: {
+    id: string
+    name: string
+    subject: string
+    isActive: boolean
+  } | null
+}
+
+interface ChaseSequence {
+  id: string
+  name: string
+  workflowType: 'VAT' | 'LTD' | 'NON_LTD'
+  description?: string | null
+  isActive: boolean
+  updatedAt: string
+  steps: ChaseStep[]
+  creator?: {
+    id: string
+    name: string
+  } | null
+}
+
+interface ChaseTemplate {
+  id: string
+  name: string
+  subject: string
+  smsContent?: string | null
+}
+
+interface SequenceForm {
+  name: string
+  workflowType: 'VAT' | 'LTD' | 'NON_LTD'
+  description: string
+  isActive: boolean
+  steps: ChaseStep[]
+}
+
+const WORKFLOW_TYPES = [
+  { value: 'VAT', label: 'VAT Returns' },
+  { value: 'LTD', label: 'Ltd Company Accounts' },
+  { value: 'NON_LTD', label: 'Non-Ltd Accounts' }
+] as const
+
+const DEFAULT_STEPS: ChaseStep[] = [
+  { dayOffset: 0, action: 'EMAIL_CLIENT', templateId: null },
+  { dayOffset: 7, action: 'EMAIL_CLIENT', templateId: null },
+  { dayOffset: 14, action: 'EMAIL_CLIENT', templateId: null },
+  { dayOffset: 21, action: 'ESCALATE_TO_PARTNER', templateId: null }
+]
+
+const EMPTY_FORM: SequenceForm = {
+  name: '',
+  workflowType: 'VAT',
+  description: '',
+  isActive: true,
+  steps: DEFAULT_STEPS
+}
+
+export default function ChaseSequencesPage() {
+  const { can } = usePermissions()
+  const [sequences, setSequences] = useState<ChaseSequence[]>([])
+  const [templates, setTemplates] = useState<ChaseTemplate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [showEditor, setShowEditor] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<SequenceForm>(EMPTY_FORM)
+
+  const canManage = can('chase_sequences.manage')
+
+  useEffect(() => {
+    fetchSequences()
+    fetchTemplates()
+  }, [])
+
+  const fetchSequences = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/chase-sequences')
+      if (response.ok) {
+        const data = await response.json()
+        setSequences(data.sequences || [])
+      } else {
+        toast.error('Failed to fetch chase sequences')
+      }
+    } catch (error) {
+      console.error('Error fetching chase sequences:', error)
+      toast.error('Error loading chase sequences')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchTemplates = async () => {
+    try {
+      const response = await fetch('/api/communication/templates?category=CHASE_REMINDERS&active=true')
+      if (response.ok) {
+        const data = await response.json()
+        setTemplates(data.templates || [])
+      }
+    } catch (error) {
+      console.error('Error fetching chase templates:', error)
+    }
+  }
+
+  const openCreate = () => {
+    setEditingId(null)
+    setForm({ ...EMPTY_FORM, steps: DEFAULT_STEPS.map(step => ({ ...step })) })
+    setShowEditor(true)
+  }
+
+  const openEdit = (sequence: ChaseSequence) => {
+    setEditingId(sequence.id)
+    setForm({
+      name: sequence.name,
+      workflowType: sequence.workflowType,
+      description: sequence.description || '',
+      isActive: sequence.isActive,
+      steps: sequence.steps.map(step => ({
+        dayOffset: step.dayOffset,
+        action: step.action,
+        templateId: step.templateId || null
+      }))
+    })
+    setShowEditor(true)
+  }
+
+  const updateStep = (index: number, changes: Partial<ChaseStep>) => {
+    setForm(prev => ({
+      ...prev,
+      steps: prev.steps.map((step, i) => (i === index ? { ...step, ...changes } : step))
+    }))
+  }
+
+  const addStep = () => {
+    setForm(prev => {
+      const lastOffset = prev.steps[prev.steps.length - 1]?.dayOffset ?? -7
+      return {
+        ...prev,
+        steps: [...prev.steps, { dayOffset: lastOffset + 7, action: 'EMAIL_CLIENT', templateId: null }]
+      }
+    })
+  }
+
+  const removeStep = (index: number) => {
+    setForm(prev => ({ ...prev, steps: prev.steps.filter((_, i) => i !== index) }))
+  }
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      toast.error('Please enter a sequence name')
+      return
+    }
+
+    try {
+      setSaving(true)
+      const payload = {
+        name: form.name.trim(),
+        description: form.description.trim() || (editingId ? null : undefined),
+        isActive: form.isActive,
+        steps: form.steps.map(step => ({
+          dayOffset: Number(step.dayOffset),
+          action: step.action,
+          templateId: step.templateId || null
+        })),
+        ...(editingId ? {} : { workflowType: form.workflowType })
+      }
+
+      const response = await fetch(editingId ? `/api/chase-sequences/${editingId}` : '/api/chase-sequences', {
+        method: editingId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      })
+      const data = await response.json()
+
+      if (response.ok && data.success) {
+        toast.success(data.message || 'Chase sequence saved')
+        setShowEditor(false)
+        fetchSequences()
+      } else {
+        toast.error(data.error || 'Failed to save chase sequence')
+      }
+    } catch (error) {
+      console.error('Error saving chase sequence:', error)
+      toast.error('Error saving chase sequence')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (sequence: ChaseSequence) => {
+    try {
+      const response = await fetch(`/api/chase-sequences/${sequence.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !sequence.isActive })
+      })
+
+      if (response.ok) {
+        toast.success(sequence.isActive ? 'Chase sequence paused' : 'Chase sequence activated')
+        fetchSequences()
+      } else {
+        const data = await response.json()
+        toast.error(data.error || 'Failed to update chase sequence')
+      }
+    } catch (error) {
+      console.error('Error updating chase sequence:', error)
+      toast.error('Error updating chase sequence')
+    }
+  }
+
+  const handleDelete = async (sequence: ChaseSequence) => {
+    if (!confirm(`Delete the chase sequence "${sequence.name}"? Chases already sent stay in the email history.`)) return
+
+    try {
+      const response = await fetch(`/api/chase-sequences/${sequence.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        toast.success('Chase sequence deleted')
+        fetchSequences()
+      } else {
+        const data = await response.json()
+        toast.error(data.error || 'Failed to delete chase sequence')
+      }
+    } catch (error) {
+      console.error('Error deleting chase sequence:', error)
+      toast.error('Error deleting chase sequence')
+    }
+  }
+
+  const getWorkflowTypeLabel = (workflowType: string) =>
+    WORKFLOW_TYPES.find(type => type.value === workflowType)?.label || workflowType
+
+  const formatStepTiming = (step: ChaseStep, index: number) =>
+    index === 0 ? `Day ${step.dayOffset}` : `+${step.dayOffset} days`
+
+  return (
+    <PageLayout maxWidth="xl">
+      <PageHeader
+        title="Chase Sequences"
+        description="Automated paperwork chasing for workflows waiting on client records"
+      >
+        {canManage && (
+          <Button onClick={openCreate}>
+            <Plus className="h-5 w-5 mr-2" />
+            New Sequence
+          </Button>
+        )}
+      </PageHeader>
+
+      <PageContent>
+        {loading ? (
+          <div className="p-8 text-center">
+            <div className="inline-flex items-center gap-2 text-muted-foreground">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current"></div>
+              Loading chase sequences...
+            </div>
+          </div>
+        ) : sequences.length === 0 ? (
+          <div className="border rounded-lg p-8 text-center">
+            <Repeat className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-semibold mb-2">No chase sequences yet</h3>
+            <p className="text-muted-foreground mb-4">
+              Workflows in Pending to Chase are only chased manually until a sequence is active
+            </p>
+            {canManage && (
+              <Button onClick={openCreate}>
+                <Plus className="h-5 w-5 mr-2" />
+                New Sequence
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {sequences.map(sequence => (
+              <Card key={sequence.id} className="shadow-professional">
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <CardTitle className="text-base truncate" title={sequence.name}>{sequence.name}</CardTitle>
+                      <CardDescription>{getWorkflowTypeLabel(sequence.workflowType)}</CardDescription>
+                    </div>
+                    <Badge variant={sequence.isActive ? 'default' : 'secondary'} className="text-xs">
+                      {sequence.isActive ? 'Active' : 'Paused'}
+                    </Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {sequence.description && (
+                    <p className="text-sm text-muted-foreground">{sequence.description}</p>
+                  )}
+                  <ol className="space-y-2">
+                    {sequence.steps.map((step, index) => (
+                      <li key={step.id || index} className="flex items-center gap-2 text-sm">
+                        <Badge variant="outline" className="text-xs w-20 justify-center flex-shrink-0">
+                          {formatStepTiming(step, index)}
+                        </Badge>
+                        {step.action === 'ESCALATE_TO_PARTNER' ? (
+                          <>
+                            <AlertTriangle className="h-4 w-4 text-orange-600 flex-shrink-0" />
+                            <span>Escalate to partners</span>
+                          </>
+                        ) : (
+                          <>
+                            {step.action === 'EMAIL_CLIENT' ? (
+                              <Mail className="h-4 w-4 text-blue-600 flex-shrink-0" />
+                            ) : (
+                              <MessageSquare className="h-4 w-4 text-green-600 flex-shrink-0" />
+                            )}
+                            {step.action !== 'EMAIL_CLIENT' && (
+                              <span className="text-xs text-muted-foreground">{step.action === 'SMS_CLIENT' ? 'SMS' : 'WhatsApp'}</span>
+                            )}
+                            <span className="truncate" title={step.template?.name}>
+                              {step.template?.name || 'Template missing'}
+                            </span>
+                            {step.template && !step.template.isActive && (
+                              <Badge variant="secondary" className="text-xs">Inactive</Badge>
+                            )}
+                          </>
+                        )}
+                      </li>
+                    ))}
+                  </ol>
+                  {canManage && (
+                    <div className="flex items-center justify-between pt-2 border-t">
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={sequence.isActive}
+                          onCheckedChange={() => handleToggleActive(sequence)}
+                          aria-label="Toggle sequence"
+                        />
+                        <span className="text-xs text-muted-foreground">
+                          {sequence.isActive ? 'Sending daily' : 'Paused'}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => openEdit(sequence)} title="Edit sequence">
+                          <Edit className="action-trigger-icon" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0 text-destructive hover:text-destructive"
+                          onClick={() => handleDelete(sequence)}
+                          title="Delete sequence"
+                        >
+                          <Trash2 className="action-trigger-icon" />
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {/* Sequence Editor Dialog */}
+        <Dialog open={showEditor} onOpenChange={setShowEditor}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingId ? 'Edit Chase Sequence' : 'New Chase Sequence'}</DialogTitle>
+              <DialogDescription>
+                Day offsets are counted from the first chase. Chasing stops as soon as paperwork is received.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="sequence-name">Name</Label>
+                  <Input
+                    id="sequence-name"
+                    value={form.name}
+                    onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                    placeholder="e.g. Standard VAT chase"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Workflow Type</Label>
+                  <Select
+                    value={form.workflowType}
+                    onValueChange={(value) => setForm(prev => ({ ...prev, workflowType: value as SequenceForm['workflowType'] }))}
+                    disabled={!!editingId}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WORKFLOW_TYPES.map(type => (
+                        <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="sequence-description">Description</Label>
+                <Textarea
+                  id="sequence-description"
+                  value={form.description}
+                  onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                  rows={2}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Steps</Label>
+                {templates.length === 0 && (
+                  <p className="text-xs text-orange-600">
+                    No active Chase Reminders templates found. Create one under Email Templates first.
+                  </p>
+                )}
+                <div className="space-y-2">
+                  {form.steps.map((step, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground w-6">{index + 1}.</span>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={step.dayOffset}
+                        onChange={(e) => updateStep(index, { dayOffset: parseInt(e.target.value) || 0 })}
+                        className="w-20"
+                        aria-label="Day offset"
+                      />
+                      <Select
+                        value={step.action}
+                        onValueChange={(value) => updateStep(index, { action: value as ChaseStep['action'] })}
+                        disabled={index === 0}
+                      >
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="EMAIL_CLIENT">Email client</SelectItem>
+                          <SelectItem value="SMS_CLIENT">Text client (SMS)</SelectItem>
+                          <SelectItem value="WHATSAPP_CLIENT">WhatsApp client</SelectItem>
+                          <SelectItem value="ESCALATE_TO_PARTNER">Escalate to partner</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={step.templateId || 'none'}
+                        onValueChange={(value) => updateStep(index, { templateId: value === 'none' ? null : value })}
+                      >
+                        <SelectTrigger className="flex-1 min-w-0">
+                          <SelectValue placeholder="Select template" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">
+                            {step.action === 'ESCALATE_TO_PARTNER' ? 'Default escalation email' : 'Select template'}
+                          </SelectItem>
+                          {templates
+                            .filter(template => !['SMS_CLIENT', 'WHATSAPP_CLIENT'].includes(step.action) || template.smsContent)
+                            .map(template => (
+                              <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0"
+                        onClick={() => removeStep(index)}
+                        disabled={form.steps.length === 1}
+                        title="Remove step"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+                <Button variant="outline" size="sm" onClick={addStep} disabled={form.steps.length >= 10}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Step
+                </Button>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="sequence-active"
+                  checked={form.isActive}
+                  onCheckedChange={(checked) => setForm(prev => ({ ...prev, isActive: checked }))}
+                />
+                <Label htmlFor="sequence-active" className="text-sm font-normal">
+                  Active (replaces any other active sequence for this workflow type)
+                </Label>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setShowEditor(false)} disabled={saving}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : 'Save Sequence'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </PageContent>
+    </PageLayout>
+  )
+}
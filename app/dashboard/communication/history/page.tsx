@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { useSession } from 'next-auth/react'
+import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
@@ -9,7 +10,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
+import { EmailQueueView } from '@/components/communication/email-queue-view'
+import { EmailEventTimeline } from '@/components/communication/email-event-timeline'
 import { 
   Mail, 
   Search, 
@@ -25,6 +29,7 @@ import {
   RotateCcw
 } from 'lucide-react'
 import { toast } from 'sonner'
+import { usePermissions } from '@/lib/hooks/usePermissions'
 
 interface EmailLog {
   id: string
@@ -50,6 +55,14 @@ interface EmailLog {
     email: string
     role: string
   }
+  templateVersion?: {
+    id: string
+    version: number
+    template: {
+      id: string
+      name: string
+    }
+  }
 }
 
 const EMAIL_STATUSES = [
@@ -75,6 +88,7 @@ const EMAIL_TYPES = [
 
 export default function EmailHistoryPage() {
   const { data: session } = useSession()
+  const { can } = usePermissions()
   const [emailLogs, setEmailLogs] = useState<EmailLog[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
@@ -262,227 +276,243 @@ export default function EmailHistoryPage() {
       />
       
       <PageContent>
-        {/* Enhanced Filters */}
-        <Card className="mb-6">
-          <CardContent className="pt-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4">
-              <div className="lg:col-span-2">
-                <div className="relative">
-                  <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
-                  <Input
-                    placeholder="Search emails..."
-                    value={searchTerm}
-                    onChange={(e) => setSearchTerm(e.target.value)}
-                    className="pl-10"
-                  />
-                </div>
-              </div>
-              
-              <Select value={statusFilter} onValueChange={setStatusFilter}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Status" />
-                </SelectTrigger>
-                <SelectContent>
-                  {EMAIL_STATUSES.map((status) => (
-                    <SelectItem key={status.value} value={status.value}>
-                      {status.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              
-              <Select value={typeFilter} onValueChange={setTypeFilter}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Type" />
-                </SelectTrigger>
-                <SelectContent>
-                  {EMAIL_TYPES.map((type) => (
-                    <SelectItem key={type.value} value={type.value}>
-                      {type.label}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+        <Tabs defaultValue="history">
+          <TabsList className="mb-6">
+            <TabsTrigger value="history">History</TabsTrigger>
+            <TabsTrigger value="queue">Queue</TabsTrigger>
+          </TabsList>
 
-              <Select value={userFilter} onValueChange={setUserFilter}>
-                <SelectTrigger>
-                  <div className="flex items-center gap-2">
-                    <User className="h-4 w-4" />
-                    <SelectValue placeholder="User" />
-                  </div>
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Users</SelectItem>
-                  {users.map((user) => (
-                    <SelectItem key={user.id} value={user.id}>
-                      {user.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+          <TabsContent value="queue">
+            <EmailQueueView
+              currentUserId={session?.user?.id}
+              canManageAll={can('communication.queue.manage')}
+            />
+          </TabsContent>
 
-              <Select value={clientFilter} onValueChange={setClientFilter}>
-                <SelectTrigger>
-                  <div className="flex items-center gap-2">
-                    <Building className="h-4 w-4" />
-                    <SelectValue placeholder="Client" />
+          <TabsContent value="history">
+            {/* Enhanced Filters */}
+            <Card className="mb-6">
+              <CardContent className="pt-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-6 gap-4">
+                  <div className="lg:col-span-2">
+                    <div className="relative">
+                      <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                      <Input
+                        placeholder="Search emails..."
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        className="pl-10"
+                      />
+                    </div>
                   </div>
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Clients</SelectItem>
-                  {clients.map((client) => (
-                    <SelectItem key={client.id} value={client.id}>
-                      {client.clientCode} - {client.companyName}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-            
-            <div className="flex justify-end mt-4">
-              <Button onClick={() => fetchEmailLogs(true)} variant="outline" size="sm">
-                <RefreshCw className="h-4 w-4 mr-2" />
-                Refresh
-              </Button>
-            </div>
-          </CardContent>
-        </Card>
+              
+                  <Select value={statusFilter} onValueChange={setStatusFilter}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EMAIL_STATUSES.map((status) => (
+                        <SelectItem key={status.value} value={status.value}>
+                          {status.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+              
+                  <Select value={typeFilter} onValueChange={setTypeFilter}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EMAIL_TYPES.map((type) => (
+                        <SelectItem key={type.value} value={type.value}>
+                          {type.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
 
-        {/* Email Logs Table */}
-        <Card>
-          <CardContent className="pt-6">
-            <div className="flex justify-between items-center mb-4">
-              <div></div>
-              <div className="text-sm text-muted-foreground">
-                {totalCount} emails
-              </div>
-            </div>
-            {loading ? (
-              <div className="flex items-center justify-center py-8">
-                <RefreshCw className="h-6 w-6 animate-spin mr-2" />
-                Loading emails...
-              </div>
-            ) : emailLogs.length === 0 ? (
-              <div className="text-center py-8 text-muted-foreground">
-                No emails found.
-              </div>
-            ) : (
-              <>
-                <div className="overflow-x-auto">
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        <TableHead className="w-20">Status</TableHead>
-                        <TableHead className="w-32">Date</TableHead>
-                        <TableHead className="w-48">To</TableHead>
-                        <TableHead>Subject</TableHead>
-                        <TableHead className="w-24">Type</TableHead>
-                        <TableHead className="w-32">From</TableHead>
-                        <TableHead className="w-32">Actions</TableHead>
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {emailLogs.map((email) => (
-                        <TableRow key={email.id} className="hover:bg-muted/50">
-                          <TableCell>
-                            <div className="flex items-center gap-2">
-                              {getStatusIcon(email.status)}
-                              <Badge variant="outline" className={getStatusColor(email.status)}>
-                                {email.status.toLowerCase()}
-                              </Badge>
-                            </div>
-                          </TableCell>
-                          <TableCell className="text-sm">
-                            {formatDate(email.createdAt)}
-                          </TableCell>
-                          <TableCell>
-                            <div className="space-y-1">
-                              <div className="font-medium text-sm">{email.recipientEmail}</div>
-                              {email.client && (
-                                <div className="text-xs text-muted-foreground">
-                                  {email.client.clientCode} - {email.client.companyName}
-                                </div>
-                              )}
-                            </div>
-                          </TableCell>
-                          <TableCell>
-                            <div className="font-medium text-sm">{email.subject}</div>
-                            {email.failureReason && (
-                              <div className="text-xs text-red-600 mt-1">
-                                {email.failureReason}
-                              </div>
-                            )}
-                          </TableCell>
-                          <TableCell>
-                            <Badge variant="secondary" className="text-xs">
-                              {email.emailType.replace('_', ' ')}
-                            </Badge>
-                          </TableCell>
-                          <TableCell className="text-sm">
-                            {email.triggeredByUser?.name || 'System'}
-                          </TableCell>
-                          <TableCell>
-                            <div className="flex items-center gap-1">
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => openPreviewDialog(email)}
-                                title="Preview email"
-                              >
-                                <Eye className="h-4 w-4" />
-                              </Button>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => handleResendEmail(email)}
-                                title="Resend email"
-                                disabled={email.status === 'PENDING'}
-                              >
-                                <RotateCcw className="h-4 w-4" />
-                              </Button>
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => handleDeleteEmail(email.id)}
-                                title="Delete email log"
-                                className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                              >
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
-                            </div>
-                          </TableCell>
-                        </TableRow>
+                  <Select value={userFilter} onValueChange={setUserFilter}>
+                    <SelectTrigger>
+                      <div className="flex items-center gap-2">
+                        <User className="h-4 w-4" />
+                        <SelectValue placeholder="User" />
+                      </div>
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Users</SelectItem>
+                      {users.map((user) => (
+                        <SelectItem key={user.id} value={user.id}>
+                          {user.name}
+                        </SelectItem>
                       ))}
-                    </TableBody>
-                  </Table>
-                </div>
+                    </SelectContent>
+                  </Select>
 
-                {/* Simple Pagination */}
-                <div className="flex justify-center items-center gap-2 mt-6">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
-                    disabled={currentPage === 1 || loading}
-                  >
-                    Previous
-                  </Button>
-                  <span className="text-sm text-muted-foreground px-4">
-                    Page {currentPage} of {totalPages}
-                  </span>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
-                    disabled={currentPage === totalPages || loading}
-                  >
-                    Next
+                  <Select value={clientFilter} onValueChange={setClientFilter}>
+                    <SelectTrigger>
+                      <div className="flex items-center gap-2">
+                        <Building className="h-4 w-4" />
+                        <SelectValue placeholder="Client" />
+                      </div>
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Clients</SelectItem>
+                      {clients.map((client) => (
+                        <SelectItem key={client.id} value={client.id}>
+                          {client.clientCode} - {client.companyName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+            
+                <div className="flex justify-end mt-4">
+                  <Button onClick={() => fetchEmailLogs(true)} variant="outline" size="sm">
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    Refresh
                   </Button>
                 </div>
-              </>
-            )}
-          </CardContent>
-        </Card>
+              </CardContent>
+            </Card>
+
+            {/* Email Logs Table */}
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex justify-between items-center mb-4">
+                  <div></div>
+                  <div className="text-sm text-muted-foreground">
+                    {totalCount} emails
+                  </div>
+                </div>
+                {loading ? (
+                  <div className="flex items-center justify-center py-8">
+                    <RefreshCw className="h-6 w-6 animate-spin mr-2" />
+                    Loading emails...
+                  </div>
+                ) : emailLogs.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    No emails found.
+                  </div>
+                ) : (
+                  <>
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="w-20">Status</TableHead>
+                            <TableHead className="w-32">Date</TableHead>
+                            <TableHead className="w-48">To</TableHead>
+                            <TableHead>Subject</TableHead>
+                            <TableHead className="w-24">Type</TableHead>
+                            <TableHead className="w-32">From</TableHead>
+                            <TableHead className="w-32">Actions</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {emailLogs.map((email) => (
+                            <TableRow key={email.id} className="hover:bg-muted/50">
+                              <TableCell>
+                                <div className="flex items-center gap-2">
+                                  {getStatusIcon(email.status)}
+                                  <Badge variant="outline" className={getStatusColor(email.status)}>
+                                    {email.status.toLowerCase()}
+                                  </Badge>
+                                </div>
+                              </TableCell>
+                              <TableCell className="text-sm">
+                                {formatDate(email.createdAt)}
+                              </TableCell>
+                              <TableCell>
+                                <div className="space-y-1">
+                                  <div className="font-medium text-sm">{email.recipientEmail}</div>
+                                  {email.client && (
+                                    <div className="text-xs text-muted-foreground">
+                                      {email.client.clientCode} - {email.client.companyName}
+                                    </div>
+                                  )}
+                                </div>
+                              </TableCell>
+                              <TableCell>
+                                <div className="font-medium text-sm">{email.subject}</div>
+                                {email.failureReason && (
+                                  <div className="text-xs text-red-600 mt-1">
+                                    {email.failureReason}
+                                  </div>
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                <Badge variant="secondary" className="text-xs">
+                                  {email.emailType.replace('_', ' ')}
+                                </Badge>
+                              </TableCell>
+                              <TableCell className="text-sm">
+                                {email.triggeredByUser?.name || 'System'}
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex items-center gap-1">
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => openPreviewDialog(email)}
+                                    title="Preview email"
+                                  >
+                                    <Eye className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleResendEmail(email)}
+                                    title="Resend email"
+                                    disabled={email.status === 'PENDING'}
+                                  >
+                                    <RotateCcw className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleDeleteEmail(email.id)}
+                                    title="Delete email log"
+                                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+
+                    {/* Simple Pagination */}
+                    <div className="flex justify-center items-center gap-2 mt-6">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
+                        disabled={currentPage === 1 || loading}
+                      >
+                        Previous
+                      </Button>
+                      <span className="text-sm text-muted-foreground px-4">
+                        Page {currentPage} of {totalPages}
+                      </span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
+                        disabled={currentPage === totalPages || loading}
+                      >
+                        Next
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
 
         {/* Simple Email Preview Dialog */}
         <Dialog open={showPreviewDialog} onOpenChange={setShowPreviewDialog}>
@@ -519,6 +549,22 @@ export default function EmailHistoryPage() {
                     <div className="text-sm font-medium">Type:</div>
                     <div className="text-sm">{selectedEmail.emailType}</div>
                   </div>
+                  {selectedEmail.templateVersion && (
+                    <div>
+                      <div className="text-sm font-medium">Template:</div>
+                      <Link
+                        href={`/dashboard/communication/templates/${selectedEmail.templateVersion.template.id}/versions?version=${selectedEmail.templateVersion.id}`}
+                        className="text-sm text-primary hover:underline"
+                      >
+                        {selectedEmail.templateVersion.template.name} (version {selectedEmail.templateVersion.version})
+                      </Link>
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <div className="text-sm font-medium mb-2">Delivery events:</div>
+                  <EmailEventTimeline emailLogId={selectedEmail.id} />
                 </div>
                 
                 <div>
@@ -14,6 +14,7 @@ import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-la
 import { RichTextEditor } from '@/components/communication/rich-text-editor'
 import { Save, Mail, Shield, AlertCircle, CheckCircle, Settings, Palette, Building2, Link, Phone, MapPin } from 'lucide-react'
 import { toast } from 'sonner'
+import { usePermissions } from '@/lib/hooks/usePermissions'
 
 interface CommunicationSettings {
   // Email settings
@@ -35,6 +36,10 @@ interface CommunicationSettings {
 
 export default function CommunicationSettingsPage() {
   const { data: session } = useSession()
+  const { can, loading: permissionsLoading } = usePermissions()
+  // Editing needs settings.manage; users who manage templates can see the settings read-only
+  const canManage = can('settings.manage')
+  const canView = canManage || can('templates.edit')
   const [settings, setSettings] = useState<CommunicationSettings>({
     // Email settings
     senderEmail: '',
@@ -200,14 +205,14 @@ export default function CommunicationSettingsPage() {
     )
   }
 
-  if (!['PARTNER', 'MANAGER'].includes(session.user.role)) {
+  if (!permissionsLoading && !canView) {
     return (
       <PageLayout>
         <PageContent>
           <Alert>
             <Shield className="h-4 w-4" />
             <AlertDescription>
-              Only Partners and Managers can access communication settings.
+              You don't have access to communication settings.
             </AlertDescription>
           </Alert>
         </PageContent>
@@ -222,13 +227,13 @@ export default function CommunicationSettingsPage() {
         description="Configure email settings and branding for all system communications"
       >
         <div className="flex items-center gap-3">
-          {session.user.role === 'PARTNER' && (
+          {canManage && (
             <Badge variant="outline" className="gap-1">
               <Shield className="h-3 w-3" />
               Full Access
             </Badge>
           )}
-          {session.user.role === 'MANAGER' && (
+          {!canManage && (
             <Badge variant="outline" className="gap-1">
               <Shield className="h-3 w-3" />
               View Only
@@ -261,7 +266,7 @@ export default function CommunicationSettingsPage() {
                     value={settings.firmName}
                     onChange={(e) => handleInputChange('firmName', e.target.value)}
                     placeholder="Numericalz"
-                    disabled={session.user.role !== 'PARTNER' || isLoading}
+                    disabled={!canManage || isLoading}
                     className={errors.firmName ? 'border-red-500' : ''}
                   />
                   {errors.firmName && (
@@ -281,7 +286,7 @@ export default function CommunicationSettingsPage() {
                     value={settings.logoUrl}
                     onChange={(e) => handleInputChange('logoUrl', e.target.value)}
                     placeholder="https://example.com/logo.png"
-                    disabled={session.user.role !== 'PARTNER' || isLoading}
+                    disabled={!canManage || isLoading}
                     className={errors.logoUrl ? 'border-red-500' : ''}
                   />
                   {errors.logoUrl && (
@@ -304,7 +309,7 @@ export default function CommunicationSettingsPage() {
                       value={settings.primaryColor}
                       onChange={(e) => handleInputChange('primaryColor', e.target.value)}
                       placeholder="#2563eb"
-                      disabled={session.user.role !== 'PARTNER' || isLoading}
+                      disabled={!canManage || isLoading}
                       className={errors.primaryColor ? 'border-red-500' : ''}
                     />
                     <div 
@@ -330,7 +335,7 @@ export default function CommunicationSettingsPage() {
                       value={settings.secondaryColor}
                       onChange={(e) => handleInputChange('secondaryColor', e.target.value)}
                       placeholder="#64748b"
-                      disabled={session.user.role !== 'PARTNER' || isLoading}
+                      disabled={!canManage || isLoading}
                       className={errors.secondaryColor ? 'border-red-500' : ''}
                     />
                     <div 
@@ -356,7 +361,7 @@ export default function CommunicationSettingsPage() {
                   value={settings.websiteUrl}
                   onChange={(e) => handleInputChange('websiteUrl', e.target.value)}
                   placeholder="https://www.numericalz.com"
-                  disabled={session.user.role !== 'PARTNER' || isLoading}
+                  disabled={!canManage || isLoading}
                   className={errors.websiteUrl ? 'border-red-500' : ''}
                 />
                 {errors.websiteUrl && (
@@ -377,7 +382,7 @@ export default function CommunicationSettingsPage() {
                     value={settings.phoneNumber}
                     onChange={(e) => handleInputChange('phoneNumber', e.target.value)}
                     placeholder="+44 20 1234 5678"
-                    disabled={session.user.role !== 'PARTNER' || isLoading}
+                    disabled={!canManage || isLoading}
                   />
                   <p className="text-xs text-muted-foreground">
                     Optional. Your firm's main phone number
@@ -394,7 +399,7 @@ export default function CommunicationSettingsPage() {
                     onChange={(e) => handleInputChange('address', e.target.value)}
                     placeholder="123 Business Street&#10;London EC1A 1BB&#10;United Kingdom"
                     rows={3}
-                    disabled={session.user.role !== 'PARTNER' || isLoading}
+                    disabled={!canManage || isLoading}
                   />
                   <p className="text-xs text-muted-foreground">
                     Optional. Your firm's business address
@@ -427,7 +432,7 @@ export default function CommunicationSettingsPage() {
                     value={settings.senderEmail}
                     onChange={(e) => handleInputChange('senderEmail', e.target.value)}
                     placeholder="notifications@your-domain.com"
-                    disabled={session.user.role !== 'PARTNER' || isLoading}
+                    disabled={!canManage || isLoading}
                     className={errors.senderEmail ? 'border-red-500' : ''}
                   />
                   {errors.senderEmail && (
@@ -447,7 +452,7 @@ export default function CommunicationSettingsPage() {
                     value={settings.senderName}
                     onChange={(e) => handleInputChange('senderName', e.target.value)}
                     placeholder="Numericalz"
-                    disabled={session.user.role !== 'PARTNER' || isLoading}
+                    disabled={!canManage || isLoading}
                     className={errors.senderName ? 'border-red-500' : ''}
                   />
                   {errors.senderName && (
@@ -467,7 +472,7 @@ export default function CommunicationSettingsPage() {
                   value={settings.replyToEmail}
                   onChange={(e) => handleInputChange('replyToEmail', e.target.value)}
                   placeholder="support@your-domain.com"
-                  disabled={session.user.role !== 'PARTNER' || isLoading}
+                  disabled={!canManage || isLoading}
                   className={errors.replyToEmail ? 'border-red-500' : ''}
                 />
                 {errors.replyToEmail && (
@@ -482,7 +487,7 @@ export default function CommunicationSettingsPage() {
 
               <div className="space-y-2">
                 <Label htmlFor="emailSignature">Email Signature</Label>
-                {session.user.role === 'PARTNER' && !isLoading ? (
+                {canManage && !isLoading ? (
                   <RichTextEditor
                     content={settings.emailSignature}
                     onChange={(content) => handleInputChange('emailSignature', content)}
@@ -497,7 +502,7 @@ export default function CommunicationSettingsPage() {
                 )}
                 <p className="text-xs text-muted-foreground">
                   Optional. Rich text signature to append to all outgoing emails. 
-                  {session.user.role === 'PARTNER' ? ' Supports rich formatting, images, and copy-paste from Gmail/Outlook.' : ' Contact a Partner to modify.'}
+                  {canManage ? ' Supports rich formatting, images, and copy-paste from Gmail/Outlook.' : ' Contact a Partner to modify.'}
                 </p>
               </div>
             </CardContent>
@@ -602,7 +607,7 @@ export default function CommunicationSettingsPage() {
           </Card>
 
           {/* Action Buttons */}
-          {session.user.role === 'PARTNER' && (
+          {canManage && (
             <div className="flex items-center justify-between">
               <div>
                 {hasChanges && (
@@ -1,8 +1,7 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { useRouter, useParams } from 'next/navigation'
-import { useSession } from 'next-auth/react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -13,7 +12,12 @@ import { Switch } from '@/components/ui/switch'
 import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
 import { RichTextEditor } from '@/components/communication/rich-text-editor'
 import { TestEmailModal } from '@/components/communication/test-email-modal'
-import { ArrowLeft, Save, Send, Loader2 } from 'lucide-react'
+import { TemplateErrorsAlert } from '@/components/communication/template-errors-alert'
+import { SmsTextCard } from '@/components/communication/sms-text-card'
+import { validateEmailTemplateFields } from '@/lib/email-variables'
+import { usePermissions } from '@/lib/hooks/usePermissions'
+import { ArrowLeft, Save, Send, Loader2, History, FileText } from 'lucide-react'
+import { Alert, AlertDescription } from '@/components/ui/alert'
 import { toast } from 'sonner'
 
 const TEMPLATE_CATEGORIES = [
@@ -37,6 +41,7 @@ interface EmailTemplate {
   subject: string
   htmlContent: string
   textContent?: string
+  smsContent?: string | null
   category: string
   description?: string
   isActive: boolean
@@ -48,10 +53,23 @@ interface EmailTemplate {
     name: string
     email: string
   }
+  publishedVersion?: {
+    id: string
+    version: number
+    publishedAt: string | null
+    publishedByName: string | null
+  } | null
+}
+
+interface TemplateDraft {
+  id: string
+  version: number
+  createdByName: string
+  createdAt: string
 }
 
 export default function EditTemplatePage() {
-  const { data: session } = useSession()
+  const { can } = usePermissions()
   const router = useRouter()
   const params = useParams()
   const templateId = params.id as string
@@ -60,17 +78,25 @@ export default function EditTemplatePage() {
   const [isLoading, setIsLoading] = useState(true)
   const [isSaving, setIsSaving] = useState(false)
   const [showTestModal, setShowTestModal] = useState(false)
+  const [draft, setDraft] = useState<TemplateDraft | null>(null)
+  const [changeNote, setChangeNote] = useState('')
 
   // Form state
   const [formData, setFormData] = useState({
     name: '',
     subject: '',
     htmlContent: '',
+    smsContent: '',
     category: 'GENERAL',
     description: '',
     isActive: true
   })
 
+  const templateErrors = useMemo(
+    () => validateEmailTemplateFields(formData, formData.category),
+    [formData]
+  )
+
   useEffect(() => {
     if (templateId) {
       fetchTemplate()
@@ -85,10 +111,13 @@ export default function EditTemplatePage() {
       if (response.ok) {
         const data = await response.json()
         setTemplate(data.template)
+        setDraft(data.draft)
+        // Carry on from an unpublished draft rather than the live wording
         setFormData({
           name: data.template.name,
-          subject: data.template.subject,
-          htmlContent: data.template.htmlContent,
+          subject: (data.draft || data.template).subject,
+          htmlContent: (data.draft || data.template).htmlContent,
+          smsContent: (data.draft || data.template).smsContent || '',
           category: data.template.category,
           description: data.template.description || '',
           isActive: data.template.isActive
@@ -106,7 +135,7 @@ export default function EditTemplatePage() {
     }
   }
 
-  const handleSave = async () => {
+  const handleSave = async (publish: boolean) => {
     if (!formData.name.trim()) {
       toast.error('Template name is required')
       return
@@ -122,20 +151,33 @@ export default function EditTemplatePage() {
       return
     }
 
+    if (templateErrors.length > 0) {
+      toast.error('Fix the template errors before saving')
+      return
+    }
+
     try {
       setIsSaving(true)
       const response = await fetch(`/api/communication/templates/${templateId}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData)
+        body: JSON.stringify({ ...formData, publish, changeNote: changeNote.trim() || undefined })
       })
 
       if (response.ok) {
-        toast.success('Email template updated successfully!')
-        router.push('/dashboard/communication/templates')
+        const data = await response.json()
+        toast.success(data.message || 'Email template updated successfully!')
+        if (publish) {
+          router.push('/dashboard/communication/templates')
+        } else {
+          setChangeNote('')
+          fetchTemplate()
+        }
       } else {
         const error = await response.json()
-        toast.error(error.message || 'Failed to update template')
+        toast.error(error.error === 'Template has errors'
+          ? `Template has errors: ${error.details.join('; ')}`
+          : error.message || 'Failed to update template')
       }
     } catch (error) {
       console.error('Error updating template:', error)
@@ -157,9 +199,7 @@ export default function EditTemplatePage() {
   }
 
   // Check if user can edit this template
-  const canEdit = session?.user?.role === 'PARTNER' || 
-                  session?.user?.role === 'MANAGER' || 
-                  (template && template.creator?.id === session?.user?.id)
+  const canEdit = can('templates.edit') && (!template?.isSystem || can('templates.edit_system'))
 
   if (isLoading) {
     return (
@@ -226,13 +266,24 @@ export default function EditTemplatePage() {
             <Send className="h-5 w-5 mr-2" />
             Test Email
           </Button>
-          <Button onClick={handleSave} disabled={isSaving}>
+          <Button
+            variant="outline"
+            onClick={() => router.push(`/dashboard/communication/templates/${templateId}/versions`)}
+          >
+            <History className="h-5 w-5 mr-2" />
+            Version History
+          </Button>
+          <Button variant="outline" onClick={() => handleSave(false)} disabled={isSaving}>
+            <FileText className="h-5 w-5 mr-2" />
+            Save Draft
+          </Button>
+          <Button onClick={() => handleSave(true)} disabled={isSaving}>
             {isSaving ? (
               <Loader2 className="h-5 w-5 mr-2 animate-spin" />
             ) : (
               <Save className="h-5 w-5 mr-2" />
             )}
-            {isSaving ? 'Saving...' : 'Save Changes'}
+            {isSaving ? 'Saving...' : 'Publish'}
           </Button>
         </div>
       </PageHeader>
@@ -241,6 +292,17 @@ export default function EditTemplatePage() {
         <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
           {/* Main Editor Area */}
           <div className="xl:col-span-3 space-y-6">
+            {draft && (
+              <Alert>
+                <FileText className="h-4 w-4" />
+                <AlertDescription>
+                  You're editing draft version {draft.version}, saved by {draft.createdByName} on{' '}
+                  {new Date(draft.createdAt).toLocaleString('en-GB', { timeZone: 'Europe/London' })}.
+                  Emails still use version {template.publishedVersion?.version ?? '-'} until you publish.
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* Template Details Card */}
             <Card>
               <CardHeader>
@@ -296,6 +358,17 @@ export default function EditTemplatePage() {
                   </p>
                 </div>
                 
+                <div>
+                  <Label htmlFor="changeNote">Change Note</Label>
+                  <Input
+                    id="changeNote"
+                    value={changeNote}
+                    onChange={(e) => setChangeNote(e.target.value)}
+                    placeholder="What changed and why - shown in version history"
+                    maxLength={500}
+                  />
+                </div>
+
                 <div>
                   <Label htmlFor="description">Description</Label>
                   <Textarea
@@ -324,6 +397,8 @@ export default function EditTemplatePage() {
               </CardContent>
             </Card>
 
+            <TemplateErrorsAlert errors={templateErrors} />
+
             {/* Email Content Card */}
             <Card>
               <CardHeader>
@@ -342,6 +417,11 @@ export default function EditTemplatePage() {
                 />
               </CardContent>
             </Card>
+
+            <SmsTextCard
+              value={formData.smsContent}
+              onChange={(value) => updateFormData('smsContent', value)}
+            />
           </div>
 
           {/* Sidebar */}
@@ -0,0 +1,57 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams, useRouter, useSearchParams } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
+import { TemplateVersionHistory } from '@/components/communication/template-version-history'
+import { usePermissions } from '@/lib/hooks/usePermissions'
+import { ArrowLeft, Edit } from 'lucide-react'
+
+export default function TemplateVersionsPage() {
+  const { can } = usePermissions()
+  const router = useRouter()
+  const params = useParams()
+  const searchParams = useSearchParams()
+  const templateId = params.id as string
+  const [templateName, setTemplateName] = useState('')
+
+  useEffect(() => {
+    fetch(`/api/communication/templates/${templateId}`)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => setTemplateName(data?.template?.name || ''))
+      .catch(error => console.error('Error fetching template:', error))
+  }, [templateId])
+
+  const canManage = can('templates.edit')
+
+  return (
+    <PageLayout maxWidth="full">
+      <PageHeader
+        title={templateName ? `Version History: ${templateName}` : 'Version History'}
+        description="See what changed between versions and roll back a bad edit"
+      >
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => router.push('/dashboard/communication/templates')}>
+            <ArrowLeft className="h-5 w-5 mr-2" />
+            Back to Templates
+          </Button>
+          {canManage && (
+            <Button onClick={() => router.push(`/dashboard/communication/templates/${templateId}/edit`)}>
+              <Edit className="h-5 w-5 mr-2" />
+              Edit Template
+            </Button>
+          )}
+        </div>
+      </PageHeader>
+
+      <PageContent>
+        <TemplateVersionHistory
+          templateId={templateId}
+          canManage={canManage}
+          initialVersionId={searchParams.get('version')}
+        />
+      </PageContent>
+    </PageLayout>
+  )
+}
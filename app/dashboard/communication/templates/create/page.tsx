@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { useSession } from 'next-auth/react'
 import { Button } from '@/components/ui/button'
@@ -13,6 +13,9 @@ import { Switch } from '@/components/ui/switch'
 import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
 import { RichTextEditor } from '@/components/communication/rich-text-editor'
 import { TestEmailModal } from '@/components/communication/test-email-modal'
+import { TemplateErrorsAlert } from '@/components/communication/template-errors-alert'
+import { SmsTextCard } from '@/components/communication/sms-text-card'
+import { validateEmailTemplateFields } from '@/lib/email-variables'
 import { ArrowLeft, Save, Send } from 'lucide-react'
 import { toast } from 'sonner'
 
@@ -42,11 +45,17 @@ export default function CreateTemplatePage() {
     name: '',
     subject: '',
     htmlContent: '',
+    smsContent: '',
     category: 'GENERAL',
     description: '',
     isActive: true
   })
 
+  const templateErrors = useMemo(
+    () => validateEmailTemplateFields(formData, formData.category),
+    [formData]
+  )
+
   const handleSave = async () => {
     if (!formData.name.trim()) {
       toast.error('Template name is required')
@@ -63,6 +72,11 @@ export default function CreateTemplatePage() {
       return
     }
 
+    if (templateErrors.length > 0) {
+      toast.error('Fix the template errors before saving')
+      return
+    }
+
     try {
       setIsLoading(true)
       const response = await fetch('/api/communication/templates', {
@@ -76,7 +90,9 @@ export default function CreateTemplatePage() {
         router.push('/dashboard/communication/templates')
       } else {
         const error = await response.json()
-        toast.error(error.message || 'Failed to create template')
+        toast.error(error.error === 'Template has errors'
+          ? `Template has errors: ${error.details.join('; ')}`
+          : error.message || 'Failed to create template')
       }
     } catch (error) {
       console.error('Error creating template:', error)
@@ -199,6 +215,8 @@ export default function CreateTemplatePage() {
               </CardContent>
             </Card>
 
+            <TemplateErrorsAlert errors={templateErrors} />
+
             {/* Email Content Card */}
             <Card>
               <CardHeader>
@@ -217,6 +235,11 @@ export default function CreateTemplatePage() {
                 />
               </CardContent>
             </Card>
+
+            <SmsTextCard
+              value={formData.smsContent}
+              onChange={(value) => updateFormData('smsContent', value)}
+            />
           </div>
 
           {/* Sidebar */}
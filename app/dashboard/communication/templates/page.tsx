@@ -1,7 +1,6 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -11,8 +10,9 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
 import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
 import { TestEmailModal } from '@/components/communication/test-email-modal'
-import { Mail, Plus, Search, Edit, Trash2, Copy, Eye, Send, MoreHorizontal, Calendar } from 'lucide-react'
+import { Mail, Plus, Search, Edit, Trash2, Copy, Eye, Send, MoreHorizontal, Calendar, History } from 'lucide-react'
 import { toast } from 'sonner'
+import { usePermissions } from '@/lib/hooks/usePermissions'
 
 interface EmailTemplate {
   id: string
@@ -50,7 +50,7 @@ const TEMPLATE_CATEGORIES = [
 ]
 
 export default function EmailTemplatesPage() {
-  const { data: session } = useSession()
+  const { can } = usePermissions()
   const router = useRouter()
   const [templates, setTemplates] = useState<EmailTemplate[]>([])
   const [loading, setLoading] = useState(true)
@@ -163,7 +163,7 @@ export default function EmailTemplatesPage() {
     return found ? found.label : category
   }
 
-  const canManageTemplates = session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER'
+  const canManageTemplates = can('templates.edit')
 
   return (
     <PageLayout maxWidth="xl">
@@ -356,6 +356,10 @@ export default function EmailTemplatesPage() {
                                     <Edit className="h-4 w-4 mr-2" />
                                     Edit Template
                                   </DropdownMenuItem>
+                                  <DropdownMenuItem onClick={() => router.push(`/dashboard/communication/templates/${template.id}/versions`)}>
+                                    <History className="h-4 w-4 mr-2" />
+                                    Version History
+                                  </DropdownMenuItem>
                                   <DropdownMenuItem onClick={() => duplicateTemplate(template)}>
                                     <Copy className="h-4 w-4 mr-2" />
                                     Duplicate Template
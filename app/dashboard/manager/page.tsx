@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth'
 import { redirect } from 'next/navigation'
 import Link from 'next/link'
 import { authOptions } from '@/lib/auth'
+import { hasPermission } from '@/lib/permission-service'
 import { db } from '@/lib/db'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -33,8 +34,8 @@ export default async function ManagerPage() {
     redirect('/auth/login')
   }
 
-  // For testing purposes, allow access but show a warning if not appropriate role
-  const hasAccess = ['MANAGER', 'PARTNER'].includes(session.user.role)
+  // For testing purposes, allow access but show a warning without dashboard.team
+  const hasAccess = await hasPermission(session.user.id, 'dashboard.team')
 
   return (
     <PageLayout maxWidth="xl">
@@ -42,8 +43,8 @@ export default async function ManagerPage() {
         <Alert className="mb-6 border-orange-200 bg-orange-50">
           <AlertTriangle className="h-4 w-4 text-orange-600" />
           <AlertDescription className="text-orange-800">
-            <strong>Testing Mode:</strong> You are viewing the manager dashboard as a {session.user.role} user. 
-            In production, only MANAGER and PARTNER users would have access to this page.
+            <strong>Testing Mode:</strong> You are viewing the manager dashboard without the Team dashboards permission. 
+            In production, only users with that permission would have access to this page.
           </AlertDescription>
         </Alert>
       )}
@@ -10,6 +10,7 @@ import { Switch } from '@/components/ui/switch'
 import { Separator } from '@/components/ui/separator'
 import { Input } from '@/components/ui/input'
 import { toast } from '@/hooks/use-toast'
+import { usePermissions } from '@/lib/hooks/usePermissions'
 import { Loader2, Save, Settings as SettingsIcon, RotateCcw, TestTube } from 'lucide-react'
 
 interface User {
@@ -24,6 +25,7 @@ interface UserSettings {
   defaultAssigneeId?: string
   emailNotifications: boolean
   smsNotifications: boolean
+  smsPhoneNumber?: string | null
 }
 
 /**
@@ -33,6 +35,8 @@ interface UserSettings {
  */
 export default function SettingsPage() {
   const { data: session } = useSession()
+  const { can, loading: permissionsLoading } = usePermissions()
+  const canManageSettings = can('settings.manage')
   const [users, setUsers] = useState<User[]>([])
   const [settings, setSettings] = useState<UserSettings>({
     emailNotifications: true,
@@ -45,15 +49,16 @@ export default function SettingsPage() {
   const [testCompanyNumber, setTestCompanyNumber] = useState('')
   const [reverting, setReverting] = useState(false)
 
-  // Load data when session is available
+  // Load data once we know the user can manage settings
   useEffect(() => {
-    if (session?.user?.role === 'PARTNER') {
+    if (permissionsLoading) return
+    if (canManageSettings) {
       fetchUsers()
       fetchSettings()
     } else {
-      setLoading(false) // Stop loading for non-partners
+      setLoading(false) // Stop loading for users without settings.manage
     }
-  }, [session])
+  }, [session, permissionsLoading, canManageSettings])
 
   const fetchUsers = async () => {
     try {
@@ -234,8 +239,8 @@ export default function SettingsPage() {
     }
   }
 
-  // Show access restricted for non-partners (session is guaranteed to exist by layout)
-  if (session?.user?.role !== 'PARTNER') {
+  // Show access restricted without settings.manage (session is guaranteed to exist by layout)
+  if (!permissionsLoading && !canManageSettings) {
     return (
       <div className="page-container">
         <div className="content-wrapper">
@@ -245,7 +250,7 @@ export default function SettingsPage() {
                 <div className="text-center">
                   <SettingsIcon className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
                   <h3 className="text-lg font-medium">Access Restricted</h3>
-                  <p className="text-muted-foreground">Only partners can access settings.</p>
+                  <p className="text-muted-foreground">You don&apos;t have permission to change system settings.</p>
                 </div>
               </CardContent>
             </Card>
@@ -362,7 +367,7 @@ export default function SettingsPage() {
                   <div className="space-y-0.5">
                     <Label htmlFor="smsNotifications">SMS Notifications</Label>
                     <p className="text-sm text-muted-foreground">
-                      Receive notifications via SMS (coming soon)
+                      Text me deadline reminders and chase escalations
                     </p>
                   </div>
                   <Switch
@@ -371,7 +376,26 @@ export default function SettingsPage() {
                     onCheckedChange={(checked) =>
                       setSettings(prev => ({ ...prev, smsNotifications: checked }))
                     }
-                    disabled
+                    disabled={!settings.smsPhoneNumber?.trim()}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="smsPhoneNumber">Mobile Number</Label>
+                  <Input
+                    id="smsPhoneNumber"
+                    type="tel"
+                    value={settings.smsPhoneNumber || ''}
+                    onChange={(e) => {
+                      const smsPhoneNumber = e.target.value
+                      setSettings(prev => ({
+                        ...prev,
+                        smsPhoneNumber,
+                        smsNotifications: smsPhoneNumber.trim() ? prev.smsNotifications : false
+                      }))
+                    }}
+                    placeholder="07700 900123"
+                    className="max-w-xs"
                   />
                 </div>
               </CardContent>
@@ -0,0 +1,50 @@
+import { Metadata } from 'next'
+import { getServerSession } from 'next-auth'
+import { redirect } from 'next/navigation'
+import { authOptions } from '@/lib/auth'
+import { getUserPermissions } from '@/lib/permission-service'
+import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
+import { AssignmentProposals } from '@/components/staff/assignment-proposals'
+import { SkillsMatrix } from '@/components/staff/skills-matrix'
+
+export const metadata: Metadata = {
+  title: 'Auto-Assign - Numericalz',
+  description: 'Suggested assignees for unassigned VAT quarters and accounts workflows',
+}
+
+/**
+ * Auto-assignment page - needs workflow.auto_assign
+ *
+ * Features:
+ * - Suggested assignee for each unassigned VAT quarter and accounts workflow, with the reasons
+ * - Auto-apply for scheduled runs (settings.manage)
+ * - Staff skill levels per work type
+ */
+export default async function AssignmentsPage() {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    redirect('/auth/login')
+  }
+
+  const permissions = await getUserPermissions(session.user.id)
+  if (!permissions.includes('workflow.auto_assign')) {
+    redirect('/dashboard')
+  }
+
+  return (
+    <PageLayout maxWidth="full">
+      <PageHeader
+        title="Auto-Assign"
+        description="Review suggested assignees for unassigned work and record who is skilled at what"
+      />
+
+      <PageContent>
+        <div className="space-y-6">
+          <AssignmentProposals canChangeSettings={permissions.includes('settings.manage')} />
+          <SkillsMatrix />
+        </div>
+      </PageContent>
+    </PageLayout>
+  )
+}
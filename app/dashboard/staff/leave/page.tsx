@@ -0,0 +1,56 @@
+import { Metadata } from 'next'
+import { getServerSession } from 'next-auth'
+import { redirect } from 'next/navigation'
+import { authOptions } from '@/lib/auth'
+import { getUserPermissions } from '@/lib/permission-service'
+import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
+import { StaffLeaveManager } from '@/components/staff/staff-leave-manager'
+
+export const metadata: Metadata = {
+  title: 'Leave - Numericalz',
+  description: 'Staff leave, working patterns and cover',
+}
+
+/**
+ * Leave page - open to everyone for their own leave
+ *
+ * Features:
+ * - Holiday, sickness and other leave (other people's needs users.manage)
+ * - Part-time working patterns (users.manage)
+ * - Cover plans that hand due-soon work to colleagues while someone is away (clients.assign)
+ */
+interface LeavePageProps {
+  searchParams: {
+    // Open on someone else's leave, e.g. from their workload page
+    userId?: string
+  }
+}
+
+export default async function LeavePage({ searchParams }: LeavePageProps) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    redirect('/auth/login')
+  }
+
+  const permissions = await getUserPermissions(session.user.id)
+  const canManageOthers = permissions.includes('users.manage')
+
+  return (
+    <PageLayout maxWidth="full">
+      <PageHeader
+        title="Leave"
+        description="Record time away, part-time patterns and who covers work while people are out"
+      />
+
+      <PageContent>
+        <StaffLeaveManager
+          currentUserId={session.user.id}
+          initialUserId={canManageOthers && searchParams.userId ? searchParams.userId : session.user.id}
+          canManageOthers={canManageOthers}
+          canCoverWork={permissions.includes('clients.assign')}
+        />
+      </PageContent>
+    </PageLayout>
+  )
+}
@@ -0,0 +1,63 @@
+import { Metadata } from 'next'
+import { getServerSession } from 'next-auth'
+import { redirect } from 'next/navigation'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { hasPermission } from '@/lib/permission-service'
+import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
+import { RolePermissionMatrix } from '@/components/staff/role-permission-matrix'
+import { UserPermissionOverrides } from '@/components/staff/user-permission-overrides'
+
+export const metadata: Metadata = {
+  title: 'Permissions - Numericalz',
+  description: 'Control what each role and team member can do',
+}
+
+/**
+ * Permissions page - needs permissions.manage (partners)
+ *
+ * Features:
+ * - Role to permission matrix for partners, managers and staff
+ * - Per-user grants and withholds on top of their role
+ */
+export default async function PermissionsPage() {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    redirect('/auth/login')
+  }
+
+  if (!(await hasPermission(session.user.id, 'permissions.manage'))) {
+    redirect('/dashboard')
+  }
+
+  const users = await db.user.findMany({
+    where: { isActive: true },
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      role: true
+    },
+    orderBy: [
+      { role: 'asc' },
+      { name: 'asc' }
+    ]
+  })
+
+  return (
+    <PageLayout maxWidth="full">
+      <PageHeader
+        title="Permissions"
+        description="Choose what each role can do, and grant or withhold permissions for individual team members"
+      />
+
+      <PageContent>
+        <div className="space-y-6">
+          <RolePermissionMatrix />
+          <UserPermissionOverrides users={users} />
+        </div>
+      </PageContent>
+    </PageLayout>
+  )
+}
@@ -0,0 +1,55 @@
+import { Metadata } from 'next'
+import { getServerSession } from 'next-auth'
+import { redirect } from 'next/navigation'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import { getUserPermissions } from '@/lib/permission-service'
+import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
+import { RecoverabilityReport } from '@/components/staff/recoverability-report'
+
+export const metadata: Metadata = {
+  title: 'Recoverability - Numericalz',
+  description: 'Time cost against fees per client and staff member',
+}
+
+/**
+ * Recoverability page - needs time.view_all
+ *
+ * Features:
+ * - Fees against time cost for jobs due in a period, by client, staff member and job
+ * - Time against budgeted hours per job
+ * - Staff hourly cost rates (time.manage_fees)
+ */
+export default async function RecoverabilityPage() {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    redirect('/auth/login')
+  }
+
+  const permissions = await getUserPermissions(session.user.id)
+  if (!permissions.includes('time.view_all')) {
+    redirect('/dashboard')
+  }
+
+  const costRates = permissions.includes('time.manage_fees')
+    ? await db.user.findMany({
+        where: { isActive: true },
+        select: { id: true, name: true, role: true, hourlyCostRate: true },
+        orderBy: { name: 'asc' }
+      })
+    : null
+
+  return (
+    <PageLayout maxWidth="full">
+      <PageHeader
+        title="Recoverability"
+        description="Whether the time spent on each job is covered by its fee"
+      />
+
+      <PageContent>
+        <RecoverabilityReport costRates={costRates} />
+      </PageContent>
+    </PageLayout>
+  )
+}
@@ -0,0 +1,55 @@
+import { Metadata } from 'next'
+import { getServerSession } from 'next-auth'
+import { redirect } from 'next/navigation'
+import { authOptions } from '@/lib/auth'
+import { getUserPermissions } from '@/lib/permission-service'
+import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
+import { WeeklyTimesheet } from '@/components/staff/weekly-timesheet'
+
+export const metadata: Metadata = {
+  title: 'Timesheet - Numericalz',
+  description: 'Weekly time recorded against VAT returns and accounts',
+}
+
+/**
+ * Timesheet page - open to everyone for their own time
+ *
+ * Features:
+ * - A week of time by job and day, with the entries behind it
+ * - Stop the running timer
+ * - Other people's timesheets (time.view_all)
+ */
+interface TimesheetPageProps {
+  searchParams: {
+    // Open on someone else's timesheet, e.g. from the recoverability report
+    userId?: string
+  }
+}
+
+export default async function TimesheetPage({ searchParams }: TimesheetPageProps) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    redirect('/auth/login')
+  }
+
+  const permissions = await getUserPermissions(session.user.id)
+  const canViewOthers = permissions.includes('time.view_all')
+
+  return (
+    <PageLayout maxWidth="full">
+      <PageHeader
+        title="Timesheet"
+        description="Time recorded against VAT returns and accounts, week by week"
+      />
+
+      <PageContent>
+        <WeeklyTimesheet
+          currentUserId={session.user.id}
+          initialUserId={canViewOthers && searchParams.userId ? searchParams.userId : session.user.id}
+          canViewOthers={canViewOthers}
+        />
+      </PageContent>
+    </PageLayout>
+  )
+}
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth'
 import { redirect, notFound } from 'next/navigation'
 import { authOptions } from '@/lib/auth'
 import { db } from '@/lib/db'
+import { hasPermission } from '@/lib/permission-service'
 import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
 import { UserLogView } from '@/components/staff/user-log-view'
 
@@ -24,8 +25,8 @@ export default async function UserLogPage({ params }: UserLogPageProps) {
     redirect('/auth/login')
   }
 
-  // Only partners can access this page
-  if (session.user.role !== 'PARTNER') {
+  // Only users who can view activity logs can access this page
+  if (!(await hasPermission(session.user.id, 'users.view_activity'))) {
     redirect('/dashboard')
   }
 
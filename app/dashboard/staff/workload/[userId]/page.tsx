@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth'
 import { redirect, notFound } from 'next/navigation'
 import { authOptions } from '@/lib/auth'
 import { db } from '@/lib/db'
+import { hasPermission } from '@/lib/permission-service'
+import { getUserLeave } from '@/lib/staff-leave-service'
 import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
 import { IndividualWorkloadView } from '@/components/staff/individual-workload-view'
 
@@ -24,8 +26,8 @@ export default async function IndividualWorkloadPage({ params }: IndividualWorkl
     redirect('/auth/login')
   }
 
-  // Only partners can access this page
-  if (session.user.role !== 'PARTNER') {
+  // Only users who can view staff workload can access this page
+  if (!(await hasPermission(session.user.id, 'users.workload'))) {
     redirect('/dashboard')
   }
 
@@ -39,6 +41,7 @@ export default async function IndividualWorkloadPage({ params }: IndividualWorkl
       name: true,
       email: true,
       role: true,
+      workingDays: true,
       // Workflow-level assignments
                 assignedVATQuarters: {
             select: {
@@ -176,14 +179,24 @@ export default async function IndividualWorkloadPage({ params }: IndividualWorkl
     notFound()
   }
 
+  const upcomingLeave = await getUserLeave(user.id, { from: new Date() })
+
   // Process workload data for each category
   const workloadData = {
     user: {
       id: user.id,
       name: user.name || 'Unknown',
       email: user.email || '',
-      role: user.role
+      role: user.role,
+      workingDays: user.workingDays
     },
+    leave: upcomingLeave.map(range => ({
+      id: range.id,
+      type: range.type,
+      startDate: range.startDate.toISOString(),
+      endDate: range.endDate.toISOString(),
+      isCovered: range.coverPlans.length > 0
+    })),
     vatClients: [
       // Workflow-level VAT assignments
       ...user.assignedVATQuarters.map(quarter => ({
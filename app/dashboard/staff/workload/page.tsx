@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth'
 import { redirect } from 'next/navigation'
 import { authOptions } from '@/lib/auth'
 import { db } from '@/lib/db'
+import { hasPermission } from '@/lib/permission-service'
+import { getLeaveBetween } from '@/lib/staff-leave-service'
 import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
 import { SimpleWorkloadTable } from '@/components/staff/simple-workload-table'
 
@@ -14,9 +16,7 @@ export const metadata: Metadata = {
 /**
  * Staff Workload page - for viewing team member assignments
  * 
- * - PARTNER: Can view all staff workload
- * - MANAGER: Cannot access (redirected)
- * - STAFF: Cannot access (redirected)
+ * Needs users.workload (partners by default); everyone else is redirected
  */
 export default async function StaffWorkloadPage() {
   const session = await getServerSession(authOptions)
@@ -25,8 +25,7 @@ export default async function StaffWorkloadPage() {
     redirect('/auth/login')
   }
 
-  // Only partners can access this page
-  if (session.user.role !== 'PARTNER') {
+  if (!(await hasPermission(session.user.id, 'users.workload'))) {
     redirect('/dashboard')
   }
 
@@ -42,6 +41,7 @@ export default async function StaffWorkloadPage() {
       name: true,
       email: true,
       role: true,
+      workingDays: true,
       // Workflow-level assignments
       assignedVATQuarters: {
         where: {
@@ -88,6 +88,24 @@ export default async function StaffWorkloadPage() {
           }
         }
       },
+      assignedPayrollRuns: {
+        where: {
+          isCompleted: false
+        },
+        select: {
+          id: true,
+          currentStage: true
+        }
+      },
+      assignedCisReturns: {
+        where: {
+          isCompleted: false
+        },
+        select: {
+          id: true,
+          currentStage: true
+        }
+      },
       // Client-level assignments (for clients without workflows yet)
       assignedClients: {
         where: {
@@ -164,6 +182,11 @@ export default async function StaffWorkloadPage() {
     ]
   })
 
+  // Leave now or in the next four weeks
+  const leaveWindowEnd = new Date()
+  leaveWindowEnd.setDate(leaveWindowEnd.getDate() + 28)
+  const upcomingLeave = await getLeaveBetween(users.map(user => user.id), new Date(), leaveWindowEnd)
+
   // Process workload data with active/inactive breakdown
   const workloadData = users.map(user => {
     // Helper function to count active vs inactive workflows
@@ -278,8 +301,20 @@ export default async function StaffWorkloadPage() {
       inactive: subContractorWorkflowCounts.inactive + subContractorClientsWithoutWorkflows
     }
 
-    const totalActive = vatCounts.active + ltdCounts.active + nonLtdCounts.active + contractorCounts.active + subContractorCounts.active
-    const totalInactive = vatCounts.inactive + ltdCounts.inactive + nonLtdCounts.inactive + contractorCounts.inactive + subContractorCounts.inactive
+    // Count payroll runs (runs waiting for payroll data haven't started yet)
+    const payrollCounts = {
+      active: user.assignedPayrollRuns.filter(run => run.currentStage !== 'WAITING_FOR_DATA').length,
+      inactive: user.assignedPayrollRuns.filter(run => run.currentStage === 'WAITING_FOR_DATA').length
+    }
+
+    // Count CIS returns (returns waiting for payment details haven't started yet)
+    const cisCounts = {
+      active: user.assignedCisReturns.filter(cisReturn => cisReturn.currentStage !== 'WAITING_FOR_DATA').length,
+      inactive: user.assignedCisReturns.filter(cisReturn => cisReturn.currentStage === 'WAITING_FOR_DATA').length
+    }
+
+    const totalActive = vatCounts.active + ltdCounts.active + nonLtdCounts.active + contractorCounts.active + subContractorCounts.active + payrollCounts.active + cisCounts.active
+    const totalInactive = vatCounts.inactive + ltdCounts.inactive + nonLtdCounts.inactive + contractorCounts.inactive + subContractorCounts.inactive + payrollCounts.inactive + cisCounts.inactive
 
     return {
       id: user.id,
@@ -291,7 +326,18 @@ export default async function StaffWorkloadPage() {
       nonLtdCompanies: { active: nonLtdCounts.active, inactive: nonLtdCounts.inactive },
       contractors: { active: contractorCounts.active, inactive: contractorCounts.inactive },
       subContractors: { active: subContractorCounts.active, inactive: subContractorCounts.inactive },
-      total: { active: totalActive, inactive: totalInactive }
+      payrollRuns: { active: payrollCounts.active, inactive: payrollCounts.inactive },
+      cisReturns: { active: cisCounts.active, inactive: cisCounts.inactive },
+      total: { active: totalActive, inactive: totalInactive },
+      workingDays: user.workingDays,
+      nextLeave: (() => {
+        const nextLeave = upcomingLeave.find(range => range.userId === user.id)
+        return nextLeave ? {
+          type: nextLeave.type,
+          startDate: nextLeave.startDate.toISOString(),
+          endDate: nextLeave.endDate.toISOString()
+        } : null
+      })()
     }
   })
 
@@ -0,0 +1,41 @@
+import { Metadata } from 'next'
+import { ClientUploadPortal } from '@/components/portal/client-upload-portal'
+
+export const metadata: Metadata = {
+  title: 'Upload Documents',
+  description: 'Securely send your paperwork to Numericalz',
+  robots: { index: false, follow: false },
+}
+
+interface ClientPortalPageProps {
+  params: {
+    token: string
+  }
+}
+
+/**
+ * Client document upload portal (public)
+ * 
+ * Features:
+ * - Magic link access - no client login required
+ * - Bank statement / receipt uploads for a single VAT quarter or accounts period
+ * - Link validity checked on load and on every upload
+ */
+export default function ClientPortalPage({ params }: ClientPortalPageProps) {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary-50 to-accent-50 p-4">
+      <div className="w-full max-w-xl">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold text-primary-900">
+            Upload Your Documents
+          </h1>
+          <p className="text-secondary-600 mt-2">
+            Send your bank statements and receipts securely to Numericalz
+          </p>
+        </div>
+
+        <ClientUploadPortal token={params.token} />
+      </div>
+    </div>
+  )
+}
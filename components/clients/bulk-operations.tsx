@@ -23,6 +23,7 @@ import {
 import { UserPlus, UserX, RefreshCw, AlertTriangle, Users } from 'lucide-react'
 import { showToast } from '@/lib/toast'
 import { bulkRefreshHandler } from '@/lib/bulk-refresh-handler'
+import { usePermissions } from '@/lib/hooks/usePermissions'
 
 interface BulkOperationsProps {
   selectedClients: string[]
@@ -35,7 +36,7 @@ interface BulkOperationsProps {
  * Bulk operations component for client management
  * 
  * Features:
- * - Partner and Manager access control
+ * - Each action is shown only with its permission (clients.assign, clients.refresh, clients.resign)
  * - Bulk assign clients to team members
  * - Bulk resign clients (move to inactive status)
  * - Bulk refresh Companies House data
@@ -53,9 +54,10 @@ export function BulkOperations({
   const [showResignModal, setShowResignModal] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const { data: session } = useSession()
+  const { can } = usePermissions()
 
-  // Only show for partners and managers
-  if ((session?.user?.role !== 'PARTNER' && session?.user?.role !== 'MANAGER') || selectedClients.length === 0) {
+  // Only show to users who can assign, resign or refresh clients
+  if ((!can('clients.assign') && !can('clients.resign') && !can('clients.refresh')) || selectedClients.length === 0) {
     return null
   }
 
@@ -174,68 +176,74 @@ export function BulkOperations({
 
             <div className="flex flex-wrap items-center gap-2 ml-auto">
               {/* Bulk Assign */}
-              <div className="flex items-center gap-2">
-                <Select value={selectedUserId} onValueChange={setSelectedUserId}>
-                  <SelectTrigger className="w-48">
-                    <SelectValue placeholder="Select user to assign" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {session?.user?.id && (
-                      <SelectItem value={session.user.id}>
-                        <div className="flex items-center gap-2">
-                          <Users className="h-4 w-4 text-blue-600" />
-                          <span className="font-medium text-blue-600">Assign to Me</span>
-                          <span className="text-xs text-blue-500">({session.user.role})</span>
-                        </div>
-                      </SelectItem>
-                    )}
-                    {users
-                      .filter(user => user.id !== session?.user?.id)
-                      .map(user => (
-                      <SelectItem key={user.id} value={user.id}>
-                        <div className="flex items-center gap-2">
-                          <Users className="h-4 w-4 text-gray-600" />
-                          <span>{user.name}</span>
-                          <span className="text-xs text-muted-foreground">({user.role})</span>
-                        </div>
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+              {can('clients.assign') && (
+                <div className="flex items-center gap-2">
+                  <Select value={selectedUserId} onValueChange={setSelectedUserId}>
+                    <SelectTrigger className="w-48">
+                      <SelectValue placeholder="Select user to assign" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {session?.user?.id && (
+                        <SelectItem value={session.user.id}>
+                          <div className="flex items-center gap-2">
+                            <Users className="h-4 w-4 text-blue-600" />
+                            <span className="font-medium text-blue-600">Assign to Me</span>
+                            <span className="text-xs text-blue-500">({session.user.role})</span>
+                          </div>
+                        </SelectItem>
+                      )}
+                      {users
+                        .filter(user => user.id !== session?.user?.id)
+                        .map(user => (
+                        <SelectItem key={user.id} value={user.id}>
+                          <div className="flex items-center gap-2">
+                            <Users className="h-4 w-4 text-gray-600" />
+                            <span>{user.name}</span>
+                            <span className="text-xs text-muted-foreground">({user.role})</span>
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    onClick={handleBulkAssign}
+                    disabled={!selectedUserId || isLoading}
+                    className="flex items-center gap-2"
+                  >
+                    <UserPlus className="h-4 w-4" />
+                    Assign
+                  </Button>
+                </div>
+              )}
+
+              {/* Bulk Refresh */}
+              {can('clients.refresh') && (
                 <Button
                   size="sm"
-                  onClick={handleBulkAssign}
-                  disabled={!selectedUserId || isLoading}
+                  variant="outline"
+                  onClick={handleBulkRefresh}
+                  disabled={isLoading}
                   className="flex items-center gap-2"
                 >
-                  <UserPlus className="h-4 w-4" />
-                  Assign
+                  <RefreshCw className="h-4 w-4" />
+                  Refresh CH
                 </Button>
-              </div>
-
-              {/* Bulk Refresh */}
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={handleBulkRefresh}
-                disabled={isLoading}
-                className="flex items-center gap-2"
-              >
-                <RefreshCw className="h-4 w-4" />
-                Refresh CH
-              </Button>
+              )}
 
               {/* Bulk Resign */}
-              <Button
-                size="sm"
-                variant="destructive"
-                onClick={() => setShowResignModal(true)}
-                disabled={isLoading}
-                className="flex items-center gap-2"
-              >
-                <UserX className="h-4 w-4" />
-                Resign
-              </Button>
+              {can('clients.resign') && (
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={() => setShowResignModal(true)}
+                  disabled={isLoading}
+                  className="flex items-center gap-2"
+                >
+                  <UserX className="h-4 w-4" />
+                  Resign
+                </Button>
+              )}
 
               {/* Clear Selection */}
               <Button
@@ -58,7 +58,7 @@ export function ChaseTeamAssignment({
   const fetchAvailableUsers = async () => {
     setLoadingUsers(true)
     try {
-      const response = await fetch('/api/users', {
+      const response = await fetch('/api/users?permission=clients.chase', {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
@@ -68,12 +68,8 @@ export function ChaseTeamAssignment({
       const data = await response.json()
 
       if (data.success) {
-        const users = data.users || []
-        
-        // Filter to partners and managers only
-        const chaseEligibleUsers = users.filter((user: any) => 
-          user.role === 'PARTNER' || user.role === 'MANAGER'
-        )
+        // Only users with clients.chase can be on a chase team
+        const chaseEligibleUsers = data.users || []
         
         setAvailableUsers(chaseEligibleUsers)
         
@@ -0,0 +1,1009 @@
+'use client'
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react'
+import { useRouter } from 'next/navigation'
+import { useUsers } from '@/lib/hooks/useUsers'
+import { usePermissions } from '@/lib/hooks/usePermissions'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  ArrowUpDown,
+  CheckCircle,
+  ChevronDown,
+  ChevronRight,
+  Download,
+  HardHat,
+  Plus,
+  PoundSterling,
+  RefreshCw,
+  Search,
+  Trash2,
+  Undo2,
+  User,
+} from 'lucide-react'
+import { showToast } from '@/lib/toast'
+import { DeadlinesBulkOperations } from './deadlines-bulk-operations'
+import {
+  CIS_DEDUCTION_RATES,
+  CIS_MILESTONE_FIELDS,
+  CIS_RETURN_STAGE_ORDER,
+  CIS_RETURN_STAGES,
+  CIS_VERIFICATION_STATUS_CONFIG,
+  calculateCisDeduction,
+  getCisDeductionRate,
+  isCisReturnStage,
+  isCisVerificationStatus,
+  type CisReturnStage
+} from '@/lib/cis-workflow'
+
+interface AssignedUser {
+  id: string
+  name: string
+  email: string
+  role: string
+}
+
+interface CisReturn {
+  id: string
+  taxYear: string
+  taxMonth: number
+  periodStart: string
+  periodEnd: string
+  dueDate: string
+  currentStage: string
+  isCompleted: boolean
+  isNilReturn: boolean
+  submissionReference?: string | null
+  assignedUser?: AssignedUser | null
+  client: {
+    id: string
+    clientCode: string
+    companyName: string
+  }
+  scheme: {
+    id: string
+    employerReference?: string | null
+    accountsOfficeReference?: string | null
+  }
+  totals: {
+    paymentCount: number
+    grossAmount: number
+    materialsAmount: number
+    deductionAmount: number
+  }
+  [milestoneField: string]: unknown
+}
+
+interface Subcontractor {
+  id: string
+  name: string
+  tradingName?: string | null
+  utr?: string | null
+  verificationStatus: string
+  isActive: boolean
+}
+
+interface PaymentRow {
+  subcontractorId: string
+  grossAmount: string
+  materialsAmount: string
+  deductionRate: string // 'default' or an override rate
+}
+
+const STAGE_OPTIONS = CIS_RETURN_STAGE_ORDER.map(stage => ({
+  value: stage,
+  label: CIS_RETURN_STAGES[stage].label
+}))
+
+const formatDate = (date?: string | null) => {
+  if (!date) return '—'
+  return new Date(date).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' })
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP' }).format(amount)
+
+const getTaxMonthLabel = (cisReturn: Pick<CisReturn, 'periodEnd' | 'taxMonth' | 'taxYear'>) =>
+  `${new Date(cisReturn.periodEnd).toLocaleDateString('en-GB', { month: 'long', year: 'numeric' })} (month ${cisReturn.taxMonth} of ${cisReturn.taxYear})`
+
+const getDaysUntilDue = (cisReturn: CisReturn) => {
+  if (cisReturn.isCompleted) {
+    return { label: 'Submitted', color: 'text-green-600' }
+  }
+
+  const days = Math.ceil((new Date(cisReturn.dueDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24))
+
+  if (days < 0) return { label: `${Math.abs(days)}d overdue`, color: 'text-red-600 font-medium' }
+  if (days === 0) return { label: 'Due today', color: 'text-red-600 font-medium' }
+  if (days <= 3) return { label: `${days}d left`, color: 'text-orange-600' }
+  return { label: `${days}d left`, color: 'text-muted-foreground' }
+}
+
+/**
+ * CIS300 monthly returns table
+ *
+ * Features:
+ * - One row per generated monthly return, outstanding returns first
+ * - Tax month, due date (19th) and payment/deduction totals
+ * - Assigned-to-me / all filter, stage filter and search
+ * - Subcontractor payments editor with deductions at the verified rate (or an override)
+ * - Stage, assignment, submission reference and nil return updates with milestone timeline
+ * - Reopen a submitted return
+ * - CSV export of a tax month's deductions
+ * - Bulk assign and bulk stage updates (workflow.bulk_update)
+ */
+export function CisReturnsTable() {
+  const { can } = usePermissions()
+  const router = useRouter()
+  const { users } = useUsers({ scope: 'team' })
+
+  const [returns, setReturns] = useState<CisReturn[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filter, setFilter] = useState<'all' | 'assigned_to_me'>('assigned_to_me')
+  const [stageFilter, setStageFilter] = useState<string>('all')
+  const [searchTerm, setSearchTerm] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc')
+  const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set())
+  const [selectedReturns, setSelectedReturns] = useState<string[]>([])
+  const [exportMonth, setExportMonth] = useState<string>('')
+
+  // Update dialog state
+  const [updateReturn, setUpdateReturn] = useState<CisReturn | null>(null)
+  const [selectedStage, setSelectedStage] = useState<string>('')
+  const [selectedAssignee, setSelectedAssignee] = useState<string>('unassigned')
+  const [updateReference, setUpdateReference] = useState('')
+  const [updateNilReturn, setUpdateNilReturn] = useState(false)
+  const [updateNotes, setUpdateNotes] = useState('')
+  const [updating, setUpdating] = useState(false)
+  const [reopeningReturnId, setReopeningReturnId] = useState<string | null>(null)
+
+  // Payments dialog state
+  const [paymentsReturn, setPaymentsReturn] = useState<CisReturn | null>(null)
+  const [subcontractors, setSubcontractors] = useState<Subcontractor[]>([])
+  const [paymentRows, setPaymentRows] = useState<PaymentRow[]>([])
+  const [loadingPayments, setLoadingPayments] = useState(false)
+  const [savingPayments, setSavingPayments] = useState(false)
+
+  const canBulkEdit = can('workflow.bulk_update')
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm), 300)
+    return () => clearTimeout(timeout)
+  }, [searchTerm])
+
+  const fetchReturns = useCallback(async () => {
+    try {
+      setLoading(true)
+
+      const params = new URLSearchParams({
+        limit: '500',
+        assignedFilter: filter,
+        workflowStageFilter: stageFilter,
+        sortOrder
+      })
+      if (debouncedSearch) {
+        params.append('searchTerm', debouncedSearch)
+      }
+
+      const response = await fetch(`/api/clients/cis?${params.toString()}`)
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to fetch CIS returns')
+      }
+
+      setReturns(data.returns || [])
+    } catch (error) {
+      console.error('Error fetching CIS returns:', error)
+      showToast.error('Failed to fetch CIS returns')
+    } finally {
+      setLoading(false)
+    }
+  }, [filter, stageFilter, debouncedSearch, sortOrder])
+
+  useEffect(() => {
+    fetchReturns()
+  }, [fetchReturns])
+
+  // Tax months present in the list, newest first, for the CSV export picker
+  const exportMonths = useMemo(() => {
+    const months = new Map<string, string>()
+    returns
+      .slice()
+      .sort((a, b) => new Date(b.periodEnd).getTime() - new Date(a.periodEnd).getTime())
+      .forEach(cisReturn => {
+        const key = `${cisReturn.taxYear}|${cisReturn.taxMonth}`
+        if (!months.has(key)) {
+          months.set(key, getTaxMonthLabel(cisReturn))
+        }
+      })
+    return Array.from(months.entries()).map(([value, label]) => ({ value, label }))
+  }, [returns])
+
+  const handleExport = () => {
+    const [taxYear, taxMonth] = exportMonth.split('|')
+    if (!taxYear || !taxMonth) {
+      showToast.error('Select a tax month to export')
+      return
+    }
+    window.open(`/api/clients/cis/export?taxYear=${taxYear}&taxMonth=${taxMonth}`, '_blank')
+  }
+
+  const toggleRow = (returnId: string) => {
+    setExpandedRows(prev => {
+      const next = new Set(prev)
+      if (next.has(returnId)) {
+        next.delete(returnId)
+      } else {
+        next.add(returnId)
+      }
+      return next
+    })
+  }
+
+  const handleSelectReturn = (returnId: string, checked: boolean) => {
+    setSelectedReturns(prev => checked ? [...prev, returnId] : prev.filter(id => id !== returnId))
+  }
+
+  const handleSelectAll = (checked: boolean) => {
+    setSelectedReturns(checked ? returns.map(cisReturn => cisReturn.id) : [])
+  }
+
+  const openUpdateDialog = (cisReturn: CisReturn) => {
+    setUpdateReturn(cisReturn)
+    setSelectedStage('')
+    setSelectedAssignee(cisReturn.assignedUser?.id || 'unassigned')
+    setUpdateReference(cisReturn.submissionReference || '')
+    setUpdateNilReturn(cisReturn.isNilReturn)
+    setUpdateNotes('')
+  }
+
+  const updateCisReturn = async (returnId: string, payload: Record<string, unknown>) => {
+    const response = await fetch(`/api/clients/cis/${returnId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload)
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to update CIS return')
+    }
+
+    return data
+  }
+
+  const handleSubmitUpdate = async () => {
+    if (!updateReturn) return
+
+    const assignedUserId = selectedAssignee === 'unassigned' ? null : selectedAssignee
+    const payload: Record<string, unknown> = { notes: updateNotes || undefined }
+
+    if (selectedStage && selectedStage !== updateReturn.currentStage) {
+      payload.currentStage = selectedStage
+    }
+    if (assignedUserId !== (updateReturn.assignedUser?.id || null)) {
+      payload.assignedUserId = assignedUserId
+    }
+    if (updateReference.trim() !== (updateReturn.submissionReference || '')) {
+      payload.submissionReference = updateReference.trim() || null
+    }
+    if (updateNilReturn !== updateReturn.isNilReturn) {
+      payload.isNilReturn = updateNilReturn
+    }
+
+    if (
+      payload.currentStage === undefined &&
+      payload.assignedUserId === undefined &&
+      payload.submissionReference === undefined &&
+      payload.isNilReturn === undefined
+    ) {
+      showToast.error('No changes to save')
+      return
+    }
+
+    setUpdating(true)
+    try {
+      await updateCisReturn(updateReturn.id, payload)
+      showToast.success('CIS return updated')
+      setUpdateReturn(null)
+      fetchReturns()
+    } catch (error) {
+      showToast.error(error instanceof Error ? error.message : 'Failed to update CIS return')
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  const handleReopen = async (cisReturn: CisReturn) => {
+    setReopeningReturnId(cisReturn.id)
+    try {
+      await updateCisReturn(cisReturn.id, {
+        currentStage: 'APPROVED_BY_CLIENT',
+        notes: 'Submission undone - CIS return reopened'
+      })
+      showToast.success(`Reopened month ${cisReturn.taxMonth} CIS return for ${cisReturn.client.companyName}`)
+      fetchReturns()
+    } catch (error) {
+      showToast.error(error instanceof Error ? error.message : 'Failed to reopen CIS return')
+    } finally {
+      setReopeningReturnId(null)
+    }
+  }
+
+  const openPaymentsDialog = async (cisReturn: CisReturn) => {
+    setPaymentsReturn(cisReturn)
+    setPaymentRows([])
+    setLoadingPayments(true)
+    try {
+      const [returnResponse, subcontractorsResponse] = await Promise.all([
+        fetch(`/api/clients/cis/${cisReturn.id}`),
+        fetch(`/api/clients/${cisReturn.client.id}/cis-subcontractors`)
+      ])
+      const [returnData, subcontractorsData] = await Promise.all([
+        returnResponse.json(),
+        subcontractorsResponse.json()
+      ])
+
+      if (!returnResponse.ok || !subcontractorsResponse.ok) {
+        throw new Error(returnData.error || subcontractorsData.error || 'Failed to load payments')
+      }
+
+      const payments: Array<{ subcontractorId: string; grossAmount: number; materialsAmount: number; deductionRate: number; subcontractor: Subcontractor }> = returnData.data.payments || []
+
+      setSubcontractors(subcontractorsData.data || [])
+      setPaymentRows(payments.map(payment => ({
+        subcontractorId: payment.subcontractorId,
+        grossAmount: String(payment.grossAmount),
+        materialsAmount: payment.materialsAmount ? String(payment.materialsAmount) : '',
+        deductionRate: payment.deductionRate === getCisDeductionRate(payment.subcontractor.verificationStatus)
+          ? 'default'
+          : String(payment.deductionRate)
+      })))
+    } catch (error) {
+      showToast.error(error instanceof Error ? error.message : 'Failed to load payments')
+      setPaymentsReturn(null)
+    } finally {
+      setLoadingPayments(false)
+    }
+  }
+
+  const updatePaymentRow = (index: number, changes: Partial<PaymentRow>) => {
+    setPaymentRows(prev => prev.map((row, rowIndex) => rowIndex === index ? { ...row, ...changes } : row))
+  }
+
+  const addPaymentRow = () => {
+    const unused = subcontractors.find(sub =>
+      sub.isActive && !paymentRows.some(row => row.subcontractorId === sub.id)
+    )
+    setPaymentRows(prev => [...prev, {
+      subcontractorId: unused?.id || '',
+      grossAmount: '',
+      materialsAmount: '',
+      deductionRate: 'default'
+    }])
+  }
+
+  const getRowDeduction = (row: PaymentRow) => {
+    const subcontractor = subcontractors.find(sub => sub.id === row.subcontractorId)
+    const rate = row.deductionRate === 'default'
+      ? getCisDeductionRate(subcontractor?.verificationStatus || 'UNVERIFIED')
+      : parseInt(row.deductionRate)
+    return {
+      rate,
+      amount: calculateCisDeduction(parseFloat(row.grossAmount) || 0, parseFloat(row.materialsAmount) || 0, rate)
+    }
+  }
+
+  const handleSavePayments = async () => {
+    if (!paymentsReturn) return
+
+    if (paymentRows.some(row => !row.subcontractorId || row.grossAmount === '')) {
+      showToast.error('Each payment needs a subcontractor and a gross amount')
+      return
+    }
+
+    setSavingPayments(true)
+    try {
+      const response = await fetch(`/api/clients/cis/${paymentsReturn.id}/payments`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          payments: paymentRows.map(row => ({
+            subcontractorId: row.subcontractorId,
+            grossAmount: parseFloat(row.grossAmount),
+            materialsAmount: row.materialsAmount ? parseFloat(row.materialsAmount) : 0,
+            deductionRate: row.deductionRate === 'default' ? undefined : parseInt(row.deductionRate)
+          }))
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save payments')
+      }
+
+      showToast.success(data.message || 'Payments saved')
+      setPaymentsReturn(null)
+      fetchReturns()
+    } catch (error) {
+      showToast.error(error instanceof Error ? error.message : 'Failed to save payments')
+    } finally {
+      setSavingPayments(false)
+    }
+  }
+
+  const renderStageBadge = (stage: string) => {
+    const config = isCisReturnStage(stage) ? CIS_RETURN_STAGES[stage] : null
+    return (
+      <Badge variant="outline" className={`text-xs px-1 py-0 h-5 ${config?.color || ''}`} title={config?.label || stage}>
+        {config?.shortLabel || stage}
+      </Badge>
+    )
+  }
+
+  const renderTimeline = (cisReturn: CisReturn) => (
+    <div className="space-y-2 p-3">
+      <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+        <span>Tax month {formatDate(cisReturn.periodStart)} – {formatDate(cisReturn.periodEnd)}</span>
+        {cisReturn.scheme.employerReference && <span>PAYE ref {cisReturn.scheme.employerReference}</span>}
+        {cisReturn.scheme.accountsOfficeReference && <span>Accounts Office ref {cisReturn.scheme.accountsOfficeReference}</span>}
+        <span>Materials {formatCurrency(cisReturn.totals.materialsAmount)}</span>
+        {cisReturn.submissionReference && <span>Submission ref {cisReturn.submissionReference}</span>}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+        {CIS_RETURN_STAGE_ORDER.map((stage: CisReturnStage) => {
+          const milestone = CIS_MILESTONE_FIELDS[stage]
+          if (!milestone) return null
+
+          const date = cisReturn[milestone.dateField] as string | null | undefined
+          const userName = cisReturn[milestone.nameField] as string | null | undefined
+
+          return (
+            <div key={stage} className="text-xs">
+              <div className={`font-medium ${date ? 'text-green-700' : 'text-muted-foreground'}`}>
+                {CIS_RETURN_STAGES[stage].shortLabel}
+              </div>
+              <div className="text-muted-foreground">
+                {date ? `${formatDate(date)}${userName ? ` by ${userName}` : ''}` : 'Pending'}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+
+  const columnCount = canBulkEdit ? 10 : 9
+  const paymentsTotal = paymentRows.reduce((total, row) => total + getRowDeduction(row).amount, 0)
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="relative w-64">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search clients or PAYE ref..."
+            value={searchTerm}
+            onChange={(event) => setSearchTerm(event.target.value)}
+            className="pl-8"
+          />
+        </div>
+
+        <Select value={filter} onValueChange={(value) => setFilter(value as 'all' | 'assigned_to_me')}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="assigned_to_me">Assigned to me</SelectItem>
+            <SelectItem value="all">All returns</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-2">
+          <Label htmlFor="cis-stage-filter" className="text-sm font-medium whitespace-nowrap">
+            Filter by Stage:
+          </Label>
+          <Select value={stageFilter} onValueChange={setStageFilter}>
+            <SelectTrigger id="cis-stage-filter" className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Stages</SelectItem>
+              <SelectItem value="not_started">Not Started</SelectItem>
+              {STAGE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+              <SelectItem value="completed">Completed</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="ml-auto flex items-center gap-2">
+          <Select value={exportMonth} onValueChange={setExportMonth}>
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="Tax month to export" />
+            </SelectTrigger>
+            <SelectContent>
+              {exportMonths.map(month => (
+                <SelectItem key={month.value} value={month.value}>{month.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={!exportMonth} className="flex items-center gap-2">
+            <Download className="h-4 w-4" />
+            Export CSV
+          </Button>
+          <Button variant="outline" size="sm" onClick={fetchReturns} disabled={loading} className="flex items-center gap-2">
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {/* Bulk Operations */}
+      <DeadlinesBulkOperations
+        selectedItems={selectedReturns}
+        users={users}
+        onClearSelection={() => setSelectedReturns([])}
+        onRefreshData={fetchReturns}
+        type="cis"
+        stageOptions={STAGE_OPTIONS}
+      />
+
+      {/* Table */}
+      <Card>
+        <CardContent className="p-0">
+          <Table className="table-fixed w-full">
+            <TableHeader>
+              <TableRow className="border-b">
+                {canBulkEdit && (
+                  <TableHead className="w-12 p-2 text-center">
+                    <Checkbox
+                      checked={selectedReturns.length > 0 && selectedReturns.length === returns.length}
+                      onCheckedChange={(checked) => handleSelectAll(checked as boolean)}
+                      aria-label="Select all CIS returns"
+                    />
+                  </TableHead>
+                )}
+                <TableHead className="w-8" />
+                <TableHead className="w-16 text-center">Code</TableHead>
+                <TableHead className="w-48">Client Name</TableHead>
+                <TableHead className="w-28 text-center">Tax Month</TableHead>
+                <TableHead className="w-24 text-center">
+                  <button
+                    onClick={() => setSortOrder(prev => prev === 'asc' ? 'desc' : 'asc')}
+                    className="flex items-center gap-1 mx-auto hover:text-foreground"
+                  >
+                    Due
+                    <ArrowUpDown className="h-3 w-3" />
+                  </button>
+                </TableHead>
+                <TableHead className="w-32 text-center">Payments</TableHead>
+                <TableHead className="w-24 text-center">Assigned</TableHead>
+                <TableHead className="w-24 text-center">Status</TableHead>
+                <TableHead className="w-24 text-center">Update</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody className="table-compact">
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="text-center py-8">
+                    <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2" />
+                    Loading CIS returns...
+                  </TableCell>
+                </TableRow>
+              ) : returns.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="text-center py-8">
+                    <div className="space-y-2">
+                      <HardHat className="h-12 w-12 mx-auto text-muted-foreground" />
+                      <p className="text-muted-foreground">No CIS returns found</p>
+                      <p className="text-xs text-muted-foreground">
+                        {filter === 'assigned_to_me' ? 'No CIS returns assigned to you' : 'Register a contractor client for CIS to generate its monthly returns'}
+                      </p>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                returns.map((cisReturn) => {
+                  const due = getDaysUntilDue(cisReturn)
+                  const isExpanded = expandedRows.has(cisReturn.id)
+
+                  return (
+                    <React.Fragment key={cisReturn.id}>
+                      <TableRow className="hover:bg-muted/50 h-10">
+                        {canBulkEdit && (
+                          <TableCell className="p-2 text-center">
+                            <Checkbox
+                              checked={selectedReturns.includes(cisReturn.id)}
+                              onCheckedChange={(checked) => handleSelectReturn(cisReturn.id, checked as boolean)}
+                              aria-label={`Select ${cisReturn.client.companyName} month ${cisReturn.taxMonth}`}
+                            />
+                          </TableCell>
+                        )}
+                        <TableCell className="p-1 text-center">
+                          <button onClick={() => toggleRow(cisReturn.id)} title="Show milestones">
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </button>
+                        </TableCell>
+                        <TableCell className="font-mono text-xs p-1 text-center">
+                          {cisReturn.client.clientCode}
+                        </TableCell>
+                        <TableCell className="font-medium p-1">
+                          <button
+                            onClick={() => router.push(`/dashboard/clients/${cisReturn.client.id}`)}
+                            className="max-w-[180px] truncate text-xs hover:text-primary transition-colors cursor-pointer text-left"
+                            title={`View ${cisReturn.client.companyName} details`}
+                          >
+                            {cisReturn.client.companyName}
+                          </button>
+                          {cisReturn.scheme.employerReference && (
+                            <div className="text-xs text-muted-foreground">PAYE {cisReturn.scheme.employerReference}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          <div className="text-xs">
+                            <div className="font-medium">
+                              {new Date(cisReturn.periodEnd).toLocaleDateString('en-GB', { month: 'short', year: 'numeric' })}
+                            </div>
+                            <div className="text-muted-foreground">Month {cisReturn.taxMonth} · {cisReturn.taxYear}</div>
+                          </div>
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          <div className="text-xs">
+                            <div className="font-medium">{formatDate(cisReturn.dueDate)}</div>
+                            <div className={`text-xs ${due.color}`}>{due.label}</div>
+                          </div>
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          {cisReturn.isNilReturn ? (
+                            <Badge variant="outline" className="text-xs px-1 py-0 h-5">Nil return</Badge>
+                          ) : cisReturn.totals.paymentCount > 0 ? (
+                            <div className="text-xs">
+                              <div className="font-medium">{formatCurrency(cisReturn.totals.grossAmount)}</div>
+                              <div className="text-muted-foreground">
+                                {cisReturn.totals.paymentCount} paid · {formatCurrency(cisReturn.totals.deductionAmount)} deducted
+                              </div>
+                            </div>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">No payments</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          {cisReturn.assignedUser ? (
+                            <div className="flex items-center justify-center gap-1 text-xs">
+                              <User className="h-3 w-3 text-blue-600" />
+                              <span className="text-blue-600 font-medium max-w-[80px] truncate" title={cisReturn.assignedUser.name}>
+                                {cisReturn.assignedUser.name}
+                              </span>
+                            </div>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">Unassigned</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          {renderStageBadge(cisReturn.currentStage)}
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          {cisReturn.isCompleted ? (
+                            <div className="flex items-center justify-center gap-2">
+                              <CheckCircle className="h-4 w-4 text-green-600" />
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleReopen(cisReturn)}
+                                disabled={reopeningReturnId === cisReturn.id}
+                                className="h-6 w-6 p-0 text-orange-600 hover:text-orange-700 hover:bg-orange-50"
+                                title="Undo submission (reopen return)"
+                              >
+                                {reopeningReturnId === cisReturn.id ? (
+                                  <RefreshCw className="h-3 w-3 animate-spin" />
+                                ) : (
+                                  <Undo2 className="h-3 w-3" />
+                                )}
+                              </Button>
+                            </div>
+                          ) : (
+                            <div className="flex items-center justify-center gap-1">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => openPaymentsDialog(cisReturn)}
+                                className="h-6 w-6 p-0"
+                                title="Record subcontractor payments"
+                              >
+                                <PoundSterling className="h-3 w-3" />
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => openUpdateDialog(cisReturn)}
+                                className="flex items-center gap-1 h-6 px-2 text-xs"
+                              >
+                                <Plus className="h-3 w-3" />
+                                Update
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow className="bg-muted/30">
+                          <TableCell colSpan={columnCount} className="p-0">
+                            {renderTimeline(cisReturn)}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  )
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Update Dialog */}
+      <Dialog open={!!updateReturn} onOpenChange={(open) => !open && setUpdateReturn(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Update CIS Return</DialogTitle>
+            <DialogDescription>
+              {updateReturn?.client.companyName} — {updateReturn && getTaxMonthLabel(updateReturn)}, due {formatDate(updateReturn?.dueDate)}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Current Stage</Label>
+              <div>{updateReturn && renderStageBadge(updateReturn.currentStage)}</div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="cis-stage">New Stage</Label>
+              <Select value={selectedStage} onValueChange={setSelectedStage}>
+                <SelectTrigger id="cis-stage">
+                  <SelectValue placeholder="Keep current stage" />
+                </SelectTrigger>
+                <SelectContent>
+                  {STAGE_OPTIONS
+                    .filter(option => option.value !== updateReturn?.currentStage)
+                    .map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="cis-assignee">Assigned To</Label>
+              <Select value={selectedAssignee} onValueChange={setSelectedAssignee}>
+                <SelectTrigger id="cis-assignee">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unassigned">Unassigned</SelectItem>
+                  {users.map(user => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {user.name} <span className="text-xs text-muted-foreground">({user.role})</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="cis-reference">Submission Reference</Label>
+              <Input
+                id="cis-reference"
+                value={updateReference}
+                onChange={(event) => setUpdateReference(event.target.value)}
+                placeholder="Optional HMRC submission receipt"
+                maxLength={100}
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="cis-nil-return"
+                checked={updateNilReturn}
+                disabled={(updateReturn?.totals.paymentCount || 0) > 0}
+                onCheckedChange={(checked) => setUpdateNilReturn(checked === true)}
+              />
+              <Label htmlFor="cis-nil-return" className="text-sm font-normal">
+                Nil return (no subcontractors paid this month)
+              </Label>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="cis-notes">Comments</Label>
+              <Textarea
+                id="cis-notes"
+                value={updateNotes}
+                onChange={(event) => setUpdateNotes(event.target.value)}
+                placeholder="Optional notes for the history log"
+                rows={3}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setUpdateReturn(null)} disabled={updating}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmitUpdate} disabled={updating}>
+              {updating ? 'Updating...' : 'Update'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Payments Dialog */}
+      <Dialog open={!!paymentsReturn} onOpenChange={(open) => !open && setPaymentsReturn(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Subcontractor Payments</DialogTitle>
+            <DialogDescription>
+              {paymentsReturn?.client.companyName} — {paymentsReturn && getTaxMonthLabel(paymentsReturn)}.
+              Deductions are taken from the labour element at the subcontractor&apos;s verified rate unless overridden.
+            </DialogDescription>
+          </DialogHeader>
+
+          {loadingPayments ? (
+            <div className="text-center py-8">
+              <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2" />
+              Loading payments...
+            </div>
+          ) : subcontractors.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4">
+              No subcontractors recorded for this contractor. Add them from the client&apos;s CIS card first.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {paymentRows.length === 0 && (
+                <p className="text-sm text-muted-foreground">No payments recorded for this month.</p>
+              )}
+              {paymentRows.map((row, index) => {
+                const selected = subcontractors.find(sub => sub.id === row.subcontractorId)
+                const deduction = getRowDeduction(row)
+
+                return (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-end">
+                    <div className="col-span-4 space-y-1">
+                      {index === 0 && <Label className="text-xs">Subcontractor</Label>}
+                      <Select value={row.subcontractorId} onValueChange={(value) => updatePaymentRow(index, { subcontractorId: value })}>
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue placeholder="Select subcontractor" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {subcontractors
+                            .filter(sub =>
+                              sub.id === row.subcontractorId ||
+                              (sub.isActive && !paymentRows.some(other => other.subcontractorId === sub.id))
+                            )
+                            .map(sub => (
+                              <SelectItem key={sub.id} value={sub.id}>{sub.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="col-span-2 space-y-1">
+                      {index === 0 && <Label className="text-xs">Gross (£)</Label>}
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={row.grossAmount}
+                        onChange={(event) => updatePaymentRow(index, { grossAmount: event.target.value })}
+                        className="h-8 text-xs"
+                      />
+                    </div>
+                    <div className="col-span-2 space-y-1">
+                      {index === 0 && <Label className="text-xs">Materials (£)</Label>}
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={row.materialsAmount}
+                        onChange={(event) => updatePaymentRow(index, { materialsAmount: event.target.value })}
+                        className="h-8 text-xs"
+                      />
+                    </div>
+                    <div className="col-span-2 space-y-1">
+                      {index === 0 && <Label className="text-xs">Rate</Label>}
+                      <Select value={row.deductionRate} onValueChange={(value) => updatePaymentRow(index, { deductionRate: value })}>
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="default">
+                            {selected && isCisVerificationStatus(selected.verificationStatus)
+                              ? `Verified (${CIS_VERIFICATION_STATUS_CONFIG[selected.verificationStatus].deductionRate}%)`
+                              : 'Verified rate'}
+                          </SelectItem>
+                          {CIS_DEDUCTION_RATES.map(rate => (
+                            <SelectItem key={rate} value={String(rate)}>{rate}%</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="col-span-1 text-xs text-right pb-2" title={`${deduction.rate}% of labour`}>
+                      {formatCurrency(deduction.amount)}
+                    </div>
+                    <div className="col-span-1 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setPaymentRows(prev => prev.filter((_, rowIndex) => rowIndex !== index))}
+                        className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+                        title="Remove payment"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                )
+              })}
+
+              <div className="flex items-center justify-between pt-2 border-t">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={addPaymentRow}
+                  disabled={!subcontractors.some(sub => sub.isActive && !paymentRows.some(row => row.subcontractorId === sub.id))}
+                  className="flex items-center gap-1"
+                >
+                  <Plus className="h-3 w-3" />
+                  Add payment
+                </Button>
+                <span className="text-sm">
+                  Total deductions <span className="font-medium">{formatCurrency(paymentsTotal)}</span>
+                </span>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPaymentsReturn(null)} disabled={savingPayments}>
+              Cancel
+            </Button>
+            <Button onClick={handleSavePayments} disabled={savingPayments || loadingPayments || subcontractors.length === 0}>
+              {savingPayments ? 'Saving...' : 'Save Payments'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
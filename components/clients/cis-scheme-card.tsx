@@ -0,0 +1,596 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { showToast } from '@/lib/toast'
+import { useUsers } from '@/lib/hooks/useUsers'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { HardHat, Loader2, Pencil, Plus, Trash2 } from 'lucide-react'
+import {
+  CIS_BUSINESS_TYPES,
+  CIS_BUSINESS_TYPE_LABELS,
+  CIS_RETURN_STAGES,
+  CIS_VERIFICATION_STATUSES,
+  CIS_VERIFICATION_STATUS_CONFIG,
+  isCisBusinessType,
+  isCisReturnStage,
+  isCisVerificationStatus
+} from '@/lib/cis-workflow'
+
+interface CisSchemeCardProps {
+  clientId: string
+}
+
+interface CisReturnSummary {
+  id: string
+  taxYear: string
+  taxMonth: number
+  periodEnd: string
+  dueDate: string
+  currentStage: string
+  isCompleted: boolean
+  isNilReturn: boolean
+  assignedUser: { id: string; name: string } | null
+  _count: { payments: number }
+}
+
+interface CisScheme {
+  id: string
+  employerReference: string | null
+  accountsOfficeReference: string | null
+  registeredFrom: string
+  isActive: boolean
+  assignedUser: { id: string; name: string } | null
+  cisReturns: CisReturnSummary[]
+}
+
+interface Subcontractor {
+  id: string
+  name: string
+  tradingName: string | null
+  businessType: string
+  utr: string | null
+  companyNumber: string | null
+  nationalInsurance: string | null
+  verificationStatus: string
+  verificationNumber: string | null
+  verifiedAt: string | null
+  isActive: boolean
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' })
+}
+
+/**
+ * CIS card for the client detail view (contractor clients)
+ *
+ * Features:
+ * - Register the client as a CIS contractor or edit the PAYE references and registration date
+ * - Default assignee for generated monthly returns
+ * - Recent and upcoming CIS300 returns with due dates
+ * - Subcontractor list with UTR and HMRC verification status (deduction rate)
+ * - Add, edit, verify and remove subcontractors
+ */
+export function CisSchemeCard({ clientId }: CisSchemeCardProps) {
+  const { users } = useUsers({ scope: 'team' })
+  const [scheme, setScheme] = useState<CisScheme | null>(null)
+  const [subcontractors, setSubcontractors] = useState<Subcontractor[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isEditing, setIsEditing] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Scheme form state
+  const [employerReference, setEmployerReference] = useState('')
+  const [accountsOfficeReference, setAccountsOfficeReference] = useState('')
+  const [registeredFrom, setRegisteredFrom] = useState('')
+  const [isActive, setIsActive] = useState(true)
+  const [assignedUserId, setAssignedUserId] = useState('unassigned')
+
+  // Subcontractor dialog state
+  const [editingSubcontractor, setEditingSubcontractor] = useState<Subcontractor | 'new' | null>(null)
+  const [subName, setSubName] = useState('')
+  const [subTradingName, setSubTradingName] = useState('')
+  const [subBusinessType, setSubBusinessType] = useState<string>('SOLE_TRADER')
+  const [subUtr, setSubUtr] = useState('')
+  const [subCompanyNumber, setSubCompanyNumber] = useState('')
+  const [subNationalInsurance, setSubNationalInsurance] = useState('')
+  const [subVerificationStatus, setSubVerificationStatus] = useState<string>('UNVERIFIED')
+  const [subVerificationNumber, setSubVerificationNumber] = useState('')
+  const [isSavingSubcontractor, setIsSavingSubcontractor] = useState(false)
+  const [removingSubcontractorId, setRemovingSubcontractorId] = useState<string | null>(null)
+
+  const fetchScheme = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/clients/${clientId}/cis-scheme`)
+      if (response.ok) {
+        const data = await response.json()
+        setScheme(data.data.scheme)
+        setSubcontractors(data.data.subcontractors)
+      }
+    } catch (error) {
+      console.error('Error fetching CIS scheme:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [clientId])
+
+  useEffect(() => {
+    fetchScheme()
+  }, [fetchScheme])
+
+  const startEditing = () => {
+    setEmployerReference(scheme?.employerReference || '')
+    setAccountsOfficeReference(scheme?.accountsOfficeReference || '')
+    setRegisteredFrom(scheme ? scheme.registeredFrom.slice(0, 10) : '')
+    setIsActive(scheme?.isActive ?? true)
+    setAssignedUserId(scheme?.assignedUser?.id || 'unassigned')
+    setIsEditing(true)
+  }
+
+  const handleSave = async () => {
+    if (!registeredFrom) {
+      showToast.error('Please enter the date the client registered as a contractor')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/clients/${clientId}/cis-scheme`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          employerReference: employerReference.trim() || null,
+          accountsOfficeReference: accountsOfficeReference.trim() || null,
+          registeredFrom,
+          isActive,
+          assignedUserId: assignedUserId === 'unassigned' ? null : assignedUserId
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        showToast.error(data.error || 'Failed to save CIS scheme')
+        return
+      }
+
+      showToast.success(data.message || 'CIS scheme saved')
+      setIsEditing(false)
+      fetchScheme()
+    } catch (error) {
+      console.error('Error saving CIS scheme:', error)
+      showToast.error('Failed to save CIS scheme')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const openSubcontractorDialog = (subcontractor: Subcontractor | 'new') => {
+    const existing = subcontractor === 'new' ? null : subcontractor
+    setSubName(existing?.name || '')
+    setSubTradingName(existing?.tradingName || '')
+    setSubBusinessType(existing?.businessType || 'SOLE_TRADER')
+    setSubUtr(existing?.utr || '')
+    setSubCompanyNumber(existing?.companyNumber || '')
+    setSubNationalInsurance(existing?.nationalInsurance || '')
+    setSubVerificationStatus(existing?.verificationStatus || 'UNVERIFIED')
+    setSubVerificationNumber(existing?.verificationNumber || '')
+    setEditingSubcontractor(subcontractor)
+  }
+
+  const handleSaveSubcontractor = async () => {
+    if (!subName.trim()) {
+      showToast.error('Please enter the subcontractor name')
+      return
+    }
+
+    const utr = subUtr.replace(/\s/g, '')
+    if (utr && !/^\d{10}$/.test(utr)) {
+      showToast.error('UTR must be 10 digits')
+      return
+    }
+
+    const isNew = editingSubcontractor === 'new'
+    const url = isNew
+      ? `/api/clients/${clientId}/cis-subcontractors`
+      : `/api/clients/${clientId}/cis-subcontractors/${(editingSubcontractor as Subcontractor).id}`
+
+    setIsSavingSubcontractor(true)
+    try {
+      const response = await fetch(url, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: subName.trim(),
+          tradingName: subTradingName.trim() || null,
+          businessType: subBusinessType,
+          utr: utr || null,
+          companyNumber: subCompanyNumber.trim() || null,
+          nationalInsurance: subNationalInsurance.trim().toUpperCase() || null,
+          verificationStatus: subVerificationStatus,
+          verificationNumber: subVerificationNumber.trim() || null
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        showToast.error(data.details?.[0]?.message || data.error || 'Failed to save subcontractor')
+        return
+      }
+
+      showToast.success(data.message || 'Subcontractor saved')
+      setEditingSubcontractor(null)
+      fetchScheme()
+    } catch (error) {
+      console.error('Error saving subcontractor:', error)
+      showToast.error('Failed to save subcontractor')
+    } finally {
+      setIsSavingSubcontractor(false)
+    }
+  }
+
+  const handleRemoveSubcontractor = async (subcontractor: Subcontractor) => {
+    setRemovingSubcontractorId(subcontractor.id)
+    try {
+      const response = await fetch(`/api/clients/${clientId}/cis-subcontractors/${subcontractor.id}`, {
+        method: 'DELETE'
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        showToast.error(data.error || 'Failed to remove subcontractor')
+        return
+      }
+
+      showToast.success(data.message || 'Subcontractor removed')
+      fetchScheme()
+    } catch (error) {
+      console.error('Error removing subcontractor:', error)
+      showToast.error('Failed to remove subcontractor')
+    } finally {
+      setRemovingSubcontractorId(null)
+    }
+  }
+
+  const renderForm = () => (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="cis-registered-from" className="text-xs">Registered as Contractor From</Label>
+          <Input
+            id="cis-registered-from"
+            type="date"
+            value={registeredFrom}
+            onChange={(event) => setRegisteredFrom(event.target.value)}
+            className="h-8"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="cis-assignee" className="text-xs">Default Assignee</Label>
+          <Select value={assignedUserId} onValueChange={setAssignedUserId}>
+            <SelectTrigger id="cis-assignee" className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="unassigned">Client assignee</SelectItem>
+              {users.map(user => (
+                <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="cis-paye-ref" className="text-xs">Employer PAYE Reference</Label>
+          <Input
+            id="cis-paye-ref"
+            value={employerReference}
+            onChange={(event) => setEmployerReference(event.target.value)}
+            placeholder="123/AB45678"
+            maxLength={20}
+            className="h-8"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="cis-aor" className="text-xs">Accounts Office Reference</Label>
+          <Input
+            id="cis-aor"
+            value={accountsOfficeReference}
+            onChange={(event) => setAccountsOfficeReference(event.target.value)}
+            placeholder="123PA00045678"
+            maxLength={20}
+            className="h-8"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox id="cis-active" checked={isActive} onCheckedChange={(checked) => setIsActive(checked === true)} />
+        <Label htmlFor="cis-active" className="text-sm font-normal">Generate monthly CIS returns</Label>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={() => setIsEditing(false)} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save Scheme
+        </Button>
+      </div>
+    </div>
+  )
+
+  const renderSubcontractors = () => (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Subcontractors</p>
+        <Button variant="outline" size="sm" onClick={() => openSubcontractorDialog('new')} className="h-7 text-xs">
+          <Plus className="h-3 w-3 mr-1" />
+          Add
+        </Button>
+      </div>
+      {subcontractors.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No subcontractors recorded yet</p>
+      ) : (
+        subcontractors.map(subcontractor => {
+          const verification = isCisVerificationStatus(subcontractor.verificationStatus)
+            ? CIS_VERIFICATION_STATUS_CONFIG[subcontractor.verificationStatus]
+            : null
+          return (
+            <div
+              key={subcontractor.id}
+              className={`flex items-center justify-between p-2 rounded-lg border text-xs ${subcontractor.isActive ? '' : 'opacity-60'}`}
+            >
+              <div>
+                <p className="font-medium">
+                  {subcontractor.name}
+                  {!subcontractor.isActive && <Badge variant="outline" className="ml-2 text-xs">Inactive</Badge>}
+                </p>
+                <p className="text-muted-foreground">
+                  {isCisBusinessType(subcontractor.businessType) ? CIS_BUSINESS_TYPE_LABELS[subcontractor.businessType] : subcontractor.businessType}
+                  {subcontractor.utr ? ` · UTR ${subcontractor.utr}` : ' · No UTR'}
+                  {subcontractor.verificationNumber && ` · ${subcontractor.verificationNumber}`}
+                  {subcontractor.verifiedAt && ` · verified ${formatDate(subcontractor.verifiedAt)}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-1">
+                <Badge variant="outline" className={`text-xs ${verification?.color || ''}`}>
+                  {verification?.label || subcontractor.verificationStatus}
+                </Badge>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => openSubcontractorDialog(subcontractor)}
+                  className="h-6 w-6 p-0"
+                  title="Edit subcontractor"
+                >
+                  <Pencil className="h-3 w-3" />
+                </Button>
+                {subcontractor.isActive && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemoveSubcontractor(subcontractor)}
+                    disabled={removingSubcontractorId === subcontractor.id}
+                    className="h-6 w-6 p-0 text-red-600 hover:text-red-700"
+                    title="Remove subcontractor"
+                  >
+                    {removingSubcontractorId === subcontractor.id ? (
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                    ) : (
+                      <Trash2 className="h-3 w-3" />
+                    )}
+                  </Button>
+                )}
+              </div>
+            </div>
+          )
+        })
+      )}
+    </div>
+  )
+
+  return (
+    <Card className="shadow-professional">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-base md:text-lg flex items-center gap-2">
+              <HardHat className="h-5 w-5" />
+              CIS
+            </CardTitle>
+            <CardDescription>Construction Industry Scheme monthly returns</CardDescription>
+          </div>
+          {scheme && !isEditing && (
+            <Button variant="outline" size="sm" onClick={startEditing}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : isEditing ? (
+          renderForm()
+        ) : !scheme ? (
+          <div className="text-center py-4 space-y-3">
+            <p className="text-sm text-muted-foreground">Not registered as a CIS contractor</p>
+            <Button size="sm" onClick={startEditing}>Set Up CIS</Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <p className="text-xs text-muted-foreground">Registered From</p>
+                <p className="font-medium">
+                  {formatDate(scheme.registeredFrom)}
+                  {!scheme.isActive && <Badge variant="outline" className="ml-2 text-xs">Paused</Badge>}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">PAYE Reference</p>
+                <p className="font-medium">{scheme.employerReference || '—'}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Accounts Office Reference</p>
+                <p className="font-medium">{scheme.accountsOfficeReference || '—'}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Default Assignee</p>
+                <p className="font-medium">{scheme.assignedUser?.name || 'Client assignee'}</p>
+              </div>
+            </div>
+
+            {scheme.cisReturns.length > 0 && (
+              <div className="space-y-2">
+                {scheme.cisReturns.map(cisReturn => {
+                  const stage = isCisReturnStage(cisReturn.currentStage) ? CIS_RETURN_STAGES[cisReturn.currentStage] : null
+                  return (
+                    <div key={cisReturn.id} className="flex items-center justify-between p-2 rounded-lg border text-xs">
+                      <div>
+                        <p className="font-medium">
+                          {new Date(cisReturn.periodEnd).toLocaleDateString('en-GB', { month: 'long', year: 'numeric' })}
+                        </p>
+                        <p className="text-muted-foreground">
+                          Due {formatDate(cisReturn.dueDate)}
+                          {cisReturn.isNilReturn ? ' · Nil return' : ` · ${cisReturn._count.payments} payments`}
+                          {cisReturn.assignedUser && ` · ${cisReturn.assignedUser.name}`}
+                        </p>
+                      </div>
+                      <Badge variant="outline" className={`text-xs ${stage?.color || ''}`}>
+                        {stage?.shortLabel || cisReturn.currentStage}
+                      </Badge>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+
+            {renderSubcontractors()}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Subcontractor Dialog */}
+      <Dialog open={!!editingSubcontractor} onOpenChange={(open) => !open && setEditingSubcontractor(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingSubcontractor === 'new' ? 'Add Subcontractor' : 'Edit Subcontractor'}</DialogTitle>
+            <DialogDescription>
+              The HMRC verification status sets the deduction rate applied to new payments.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="cis-sub-name" className="text-xs">Name</Label>
+              <Input id="cis-sub-name" value={subName} onChange={(event) => setSubName(event.target.value)} className="h-8" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="cis-sub-trading-name" className="text-xs">Trading Name</Label>
+              <Input id="cis-sub-trading-name" value={subTradingName} onChange={(event) => setSubTradingName(event.target.value)} className="h-8" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="cis-sub-business-type" className="text-xs">Business Type</Label>
+              <Select value={subBusinessType} onValueChange={setSubBusinessType}>
+                <SelectTrigger id="cis-sub-business-type" className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CIS_BUSINESS_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{CIS_BUSINESS_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="cis-sub-utr" className="text-xs">UTR</Label>
+              <Input
+                id="cis-sub-utr"
+                value={subUtr}
+                onChange={(event) => setSubUtr(event.target.value)}
+                placeholder="10 digits"
+                maxLength={12}
+                className="h-8"
+              />
+            </div>
+            {subBusinessType === 'COMPANY' ? (
+              <div className="space-y-1">
+                <Label htmlFor="cis-sub-company-number" className="text-xs">Company Number</Label>
+                <Input
+                  id="cis-sub-company-number"
+                  value={subCompanyNumber}
+                  onChange={(event) => setSubCompanyNumber(event.target.value)}
+                  maxLength={10}
+                  className="h-8"
+                />
+              </div>
+            ) : (
+              <div className="space-y-1">
+                <Label htmlFor="cis-sub-nino" className="text-xs">National Insurance Number</Label>
+                <Input
+                  id="cis-sub-nino"
+                  value={subNationalInsurance}
+                  onChange={(event) => setSubNationalInsurance(event.target.value)}
+                  maxLength={13}
+                  className="h-8"
+                />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="cis-sub-verification" className="text-xs">Verification Status</Label>
+              <Select value={subVerificationStatus} onValueChange={setSubVerificationStatus}>
+                <SelectTrigger id="cis-sub-verification" className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CIS_VERIFICATION_STATUSES.map(status => (
+                    <SelectItem key={status} value={status}>{CIS_VERIFICATION_STATUS_CONFIG[status].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="cis-sub-verification-number" className="text-xs">Verification Number</Label>
+              <Input
+                id="cis-sub-verification-number"
+                value={subVerificationNumber}
+                onChange={(event) => setSubVerificationNumber(event.target.value)}
+                placeholder="V1234567890"
+                maxLength={20}
+                className="h-8"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingSubcontractor(null)} disabled={isSavingSubcontractor}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveSubcontractor} disabled={isSavingSubcontractor}>
+              {isSavingSubcontractor && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Subcontractor
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,362 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { showToast } from '@/lib/toast'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Loader2, Mail, Pencil, Phone, Plus, Trash2, Users } from 'lucide-react'
+import {
+  CLIENT_CONTACT_ROLES,
+  CLIENT_CONTACT_ROLE_CONFIG,
+  TEMPLATE_CATEGORIES,
+  TEMPLATE_CATEGORY_LABELS,
+  isClientContactRole,
+  type ClientContactRoleValue,
+  type ClientContactSummary,
+  type TemplateCategoryValue
+} from '@/lib/client-contacts'
+
+interface ClientContactsCardProps {
+  clientId: string
+  // Bump to reload, e.g. after contacts are seeded from Companies House
+  refreshKey?: number
+  onPrimaryContactChanged?: () => void
+}
+
+/**
+ * Client contacts card for the client detail view
+ *
+ * Features:
+ * - Everyone we deal with at the client, with their role
+ * - Per-contact opt-ins by email template category, used to pick recipients when emailing
+ * - Making a contact primary updates the client's main contact details
+ */
+export function ClientContactsCard({ clientId, refreshKey, onPrimaryContactChanged }: ClientContactsCardProps) {
+  const [contacts, setContacts] = useState<ClientContactSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  // Contact dialog state
+  const [editingContact, setEditingContact] = useState<ClientContactSummary | 'new' | null>(null)
+  const [name, setName] = useState('')
+  const [email, setEmail] = useState('')
+  const [phone, setPhone] = useState('')
+  const [role, setRole] = useState<ClientContactRoleValue>('BOOKKEEPING')
+  const [jobTitle, setJobTitle] = useState('')
+  const [emailOptIns, setEmailOptIns] = useState<TemplateCategoryValue[]>([])
+  const [isActive, setIsActive] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [removingContactId, setRemovingContactId] = useState<string | null>(null)
+
+  const fetchContacts = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/clients/${clientId}/contacts`)
+      if (response.ok) {
+        const data = await response.json()
+        setContacts(data.data.contacts)
+      }
+    } catch (error) {
+      console.error('Error fetching client contacts:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [clientId])
+
+  useEffect(() => {
+    fetchContacts()
+  }, [fetchContacts, refreshKey])
+
+  const openContactDialog = (contact: ClientContactSummary | 'new') => {
+    const existing = contact === 'new' ? null : contact
+    setName(existing?.name || '')
+    setEmail(existing?.email || '')
+    setPhone(existing?.phone || '')
+    setRole(existing?.role || 'BOOKKEEPING')
+    setJobTitle(existing?.jobTitle || '')
+    setEmailOptIns(existing?.emailOptIns || CLIENT_CONTACT_ROLE_CONFIG.BOOKKEEPING.defaultOptIns)
+    setIsActive(existing?.isActive ?? true)
+    setEditingContact(contact)
+  }
+
+  const handleRoleChange = (value: string) => {
+    if (!isClientContactRole(value)) return
+    setRole(value)
+    // New contacts start with the role's usual opt-ins; existing opt-ins are left alone
+    if (editingContact === 'new') {
+      setEmailOptIns(CLIENT_CONTACT_ROLE_CONFIG[value].defaultOptIns)
+    }
+  }
+
+  const toggleOptIn = (category: TemplateCategoryValue, checked: boolean) => {
+    setEmailOptIns(current => checked
+      ? [...current, category]
+      : current.filter(value => value !== category))
+  }
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      showToast.error('Please enter the contact name')
+      return
+    }
+
+    const isNew = editingContact === 'new'
+    const wasPrimary = !isNew && (editingContact as ClientContactSummary).role === 'PRIMARY'
+    const url = isNew
+      ? `/api/clients/${clientId}/contacts`
+      : `/api/clients/${clientId}/contacts/${(editingContact as ClientContactSummary).id}`
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(url, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim(),
+          email: email.trim() || null,
+          phone: phone.trim() || null,
+          role,
+          jobTitle: jobTitle.trim() || null,
+          emailOptIns,
+          isActive
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        showToast.error(data.details?.[0]?.message || data.error || 'Failed to save contact')
+        return
+      }
+
+      showToast.success(data.message || 'Contact saved')
+      setEditingContact(null)
+      fetchContacts()
+      if (role === 'PRIMARY' || wasPrimary) {
+        onPrimaryContactChanged?.()
+      }
+    } catch (error) {
+      console.error('Error saving client contact:', error)
+      showToast.error('Failed to save contact')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRemove = async (contact: ClientContactSummary) => {
+    setRemovingContactId(contact.id)
+    try {
+      const response = await fetch(`/api/clients/${clientId}/contacts/${contact.id}`, {
+        method: 'DELETE'
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        showToast.error(data.error || 'Failed to remove contact')
+        return
+      }
+
+      showToast.success(data.message || 'Contact removed')
+      fetchContacts()
+    } catch (error) {
+      console.error('Error removing client contact:', error)
+      showToast.error('Failed to remove contact')
+    } finally {
+      setRemovingContactId(null)
+    }
+  }
+
+  const editingPrimary = editingContact !== 'new' && editingContact?.role === 'PRIMARY'
+
+  return (
+    <Card className="shadow-professional">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-base md:text-lg flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Contacts
+            </CardTitle>
+            <CardDescription>Who receives which emails at this client</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => openContactDialog('new')}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Contact
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : contacts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No contacts recorded yet</p>
+        ) : (
+          <div className="space-y-2">
+            {contacts.map(contact => {
+              const roleConfig = CLIENT_CONTACT_ROLE_CONFIG[contact.role]
+              return (
+                <div
+                  key={contact.id}
+                  className={`flex items-start justify-between p-2 rounded-lg border text-xs ${contact.isActive ? '' : 'opacity-60'}`}
+                >
+                  <div className="space-y-1 min-w-0">
+                    <p className="font-medium text-sm">
+                      {contact.name}
+                      {contact.jobTitle && <span className="text-muted-foreground font-normal"> · {contact.jobTitle}</span>}
+                      {!contact.isActive && <Badge variant="outline" className="ml-2 text-xs">Inactive</Badge>}
+                    </p>
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <Mail className="h-3 w-3" />
+                        {contact.email || 'No email'}
+                      </span>
+                      {contact.phone && (
+                        <span className="flex items-center gap-1">
+                          <Phone className="h-3 w-3" />
+                          {contact.phone}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-muted-foreground">
+                      {contact.emailOptIns.length === TEMPLATE_CATEGORIES.length
+                        ? 'Receives all emails'
+                        : contact.emailOptIns.length === 0
+                          ? 'Opted out of all emails'
+                          : `Receives: ${contact.emailOptIns.map(category => TEMPLATE_CATEGORY_LABELS[category]).join(', ')}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Badge variant="outline" className={`text-xs ${roleConfig.color}`}>{roleConfig.label}</Badge>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openContactDialog(contact)}
+                      className="h-6 w-6 p-0"
+                      title="Edit contact"
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    {contact.role !== 'PRIMARY' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemove(contact)}
+                        disabled={removingContactId === contact.id}
+                        className="h-6 w-6 p-0 text-red-600 hover:text-red-700"
+                        title="Remove contact"
+                      >
+                        {removingContactId === contact.id ? (
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                        ) : (
+                          <Trash2 className="h-3 w-3" />
+                        )}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      {/* Contact Dialog */}
+      <Dialog open={!!editingContact} onOpenChange={(open) => !open && setEditingContact(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingContact === 'new' ? 'Add Contact' : 'Edit Contact'}</DialogTitle>
+            <DialogDescription>
+              Emails sent from a template go to the contacts opted in to its category.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="contact-name" className="text-xs">Name</Label>
+              <Input id="contact-name" value={name} onChange={(event) => setName(event.target.value)} className="h-8" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="contact-email" className="text-xs">Email</Label>
+              <Input id="contact-email" type="email" value={email} onChange={(event) => setEmail(event.target.value)} className="h-8" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="contact-phone" className="text-xs">Phone</Label>
+              <Input id="contact-phone" value={phone} onChange={(event) => setPhone(event.target.value)} className="h-8" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="contact-role" className="text-xs">Role</Label>
+              <Select value={role} onValueChange={handleRoleChange} disabled={editingPrimary}>
+                <SelectTrigger id="contact-role" className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CLIENT_CONTACT_ROLES.map(value => (
+                    <SelectItem key={value} value={value} disabled={editingContact === 'new' && value === 'PRIMARY'}>
+                      {CLIENT_CONTACT_ROLE_CONFIG[value].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="contact-job-title" className="text-xs">Job Title</Label>
+              <Input id="contact-job-title" value={jobTitle} onChange={(event) => setJobTitle(event.target.value)} className="h-8" />
+            </div>
+            <p className="col-span-2 text-xs text-muted-foreground">
+              {editingPrimary
+                ? 'To change the primary contact, edit another contact and make it primary.'
+                : CLIENT_CONTACT_ROLE_CONFIG[role].description}
+            </p>
+
+            <div className="space-y-2 col-span-2">
+              <Label className="text-xs">Receives emails about</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {TEMPLATE_CATEGORIES.map(category => (
+                  <div key={category} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`contact-opt-in-${category}`}
+                      checked={emailOptIns.includes(category)}
+                      onCheckedChange={(checked) => toggleOptIn(category, checked === true)}
+                    />
+                    <Label htmlFor={`contact-opt-in-${category}`} className="text-xs font-normal">
+                      {TEMPLATE_CATEGORY_LABELS[category]}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {!editingPrimary && (
+              <div className="flex items-center gap-2 col-span-2">
+                <Checkbox id="contact-active" checked={isActive} onCheckedChange={(checked) => setIsActive(checked === true)} />
+                <Label htmlFor="contact-active" className="text-sm font-normal">Active - include when emailing</Label>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingContact(null)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Contact
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
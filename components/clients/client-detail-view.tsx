@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { showToast } from '@/lib/toast'
+import { usePermissions } from '@/lib/hooks/usePermissions'
 import { CTFilingSummary } from './ct-filing-summary'
 import { 
   ArrowLeft, 
@@ -29,11 +30,18 @@ import { Separator } from '@/components/ui/separator'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 
 import { CTStatusManager } from './ct-status-manager'
+import { ClientContactsCard } from './client-contacts-card'
+import { ClientDocumentsCard } from './client-documents-card'
+import { ClientMessagingCard } from './client-messaging-card'
+import { ClientSignaturesCard } from './client-signatures-card'
+import { ClientEmailThreadsCard } from './client-email-threads-card'
+import { PayrollScheduleCard } from './payroll-schedule-card'
+import { CisSchemeCard } from './cis-scheme-card'
+import { ClientFeeBudgetsCard } from './client-fee-budgets-card'
 import { ActivityLogViewer } from '@/components/activity/activity-log-viewer'
 
 interface ClientDetailViewProps {
   client: any // Full client object with relations
-  currentUser: any
 }
 
 // Enhanced type definitions for Companies House data
@@ -77,9 +85,11 @@ interface PSCData {
  * - Recent activity and communications
  * - Quick action buttons
  */
-export function ClientDetailView({ client, currentUser }: ClientDetailViewProps) {
+export function ClientDetailView({ client }: ClientDetailViewProps) {
   const router = useRouter()
+  const { can } = usePermissions()
   const [isRefreshing, setIsRefreshing] = useState(false)
+  const [contactsRefreshKey, setContactsRefreshKey] = useState(0)
   const [showActivityLogModal, setShowActivityLogModal] = useState(false)
 
   const formatDate = (dateString: string | null) => {
@@ -209,12 +219,19 @@ export function ClientDetailView({ client, currentUser }: ClientDetailViewProps)
       
       if (response.ok) {
         const result = await response.json()
-        if (result.changed) {
+        const seededCount = result.seededContacts?.length || 0
+        if (result.changed || seededCount > 0) {
           router.refresh()
+        }
+        if (result.changed) {
           showToast.success(`Contact name updated to: ${result.changes.newContactName}`)
         } else {
           showToast.info('Contact name already matches director name')
         }
+        if (seededCount > 0) {
+          setContactsRefreshKey(key => key + 1)
+          showToast.success(`Added ${seededCount} director contact${seededCount === 1 ? '' : 's'} from Companies House`)
+        }
       } else {
         const error = await response.json()
         showToast.error(error.error || 'Failed to refresh contact name')
@@ -250,7 +267,7 @@ export function ClientDetailView({ client, currentUser }: ClientDetailViewProps)
                   <FileText className="h-4 w-4 mr-2" />
                   Filing History
                 </Button>
-                {client.companyNumber && (
+                {client.companyNumber && can('clients.refresh') && (
                   <Button
                     variant="outline"
                     onClick={handleRefreshCompaniesHouse}
@@ -261,7 +278,7 @@ export function ClientDetailView({ client, currentUser }: ClientDetailViewProps)
                     Refresh CH Data
                   </Button>
                 )}
-                {(currentUser.role === 'MANAGER' || currentUser.role === 'PARTNER') && (
+                {can('clients.edit') && (
                   <Button
                     onClick={() => router.push(`/dashboard/clients/${client.id}/edit`)}
                     className="btn-primary"
@@ -531,10 +548,7 @@ export function ClientDetailView({ client, currentUser }: ClientDetailViewProps)
               </Card>
 
               {/* 🎯 CT Status Management */}
-              <CTStatusManager 
-                client={client} 
-                currentUser={currentUser}
-              />
+              <CTStatusManager client={client} />
 
               {/* VAT Information - Only show if VAT enabled */}
               {client.isVatEnabled && (
@@ -760,6 +774,36 @@ export function ClientDetailView({ client, currentUser }: ClientDetailViewProps)
                 />
               )}
 
+              {/* Contacts - who receives which emails */}
+              <ClientContactsCard
+                clientId={client.id}
+                refreshKey={contactsRefreshKey}
+                onPrimaryContactChanged={() => router.refresh()}
+              />
+
+              {/* Text Messages - SMS/WhatsApp consent and texts sent to the client */}
+              <ClientMessagingCard clientId={client.id} />
+
+              {/* Client Documents - files received through the upload portal */}
+              <ClientDocumentsCard clientId={client.id} />
+
+              {/* E-Signatures - accounts approvals and engagement letters sent for signature */}
+              <ClientSignaturesCard clientId={client.id} />
+
+              {/* Email Conversations - emails sent to the client with their replies */}
+              <ClientEmailThreadsCard clientId={client.id} />
+
+              {/* Payroll Schedule - Only show for clients with payroll services */}
+              {client.requiresPayroll && (
+                <PayrollScheduleCard clientId={client.id} />
+              )}
+
+              {/* CIS - contractor scheme, subcontractors and monthly returns */}
+              <CisSchemeCard clientId={client.id} />
+
+              {/* Fee Budgets - fees per job for the recoverability report */}
+              <ClientFeeBudgetsCard clientId={client.id} />
+
               {/* Companies House Data - Only show if company number exists */}
               {client.companyNumber && (
                 <Card className="shadow-professional">
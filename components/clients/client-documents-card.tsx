@@ -0,0 +1,306 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { showToast } from '@/lib/toast'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Copy, Download, FileText, Link2, Loader2, Upload, XCircle } from 'lucide-react'
+
+interface ClientDocumentsCardProps {
+  clientId: string
+}
+
+interface ClientDocument {
+  id: string
+  fileName: string
+  fileSize: number
+  category: string
+  workflowType: string | null
+  uploadedByName: string | null
+  notes: string | null
+  createdAt: string
+}
+
+interface PortalLink {
+  id: string
+  workflowType: string
+  expiresAt: string
+  createdAt: string
+  createdBy: { id: string; name: string } | null
+  documentCount: number
+  isActive: boolean
+}
+
+interface PortalWorkflow {
+  workflowType: string
+  workflowId: string
+  periodLabel: string
+  currentStage: string
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  BANK_STATEMENT: 'Bank Statement',
+  RECEIPT: 'Receipt / Invoice',
+  ACCOUNTS_PACK: 'Accounts Pack',
+  ENGAGEMENT_LETTER: 'Engagement Letter',
+  SIGNED_DOCUMENT: 'Signed Document',
+  OTHER: 'Other'
+}
+
+const WORKFLOW_LABELS: Record<string, string> = {
+  VAT: 'VAT',
+  LTD: 'Ltd Accounts',
+  NON_LTD: 'Non-Ltd Accounts'
+}
+
+/**
+ * Client documents card for the client detail view
+ * 
+ * Features:
+ * - Files received through the client document portal
+ * - Create upload links (magic links) for open VAT quarters / accounts workflows
+ * - Revoke active links
+ */
+export function ClientDocumentsCard({ clientId }: ClientDocumentsCardProps) {
+  const [documents, setDocuments] = useState<ClientDocument[]>([])
+  const [links, setLinks] = useState<PortalLink[]>([])
+  const [workflows, setWorkflows] = useState<PortalWorkflow[]>([])
+  const [selectedWorkflow, setSelectedWorkflow] = useState('')
+  const [newLinkUrl, setNewLinkUrl] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isCreating, setIsCreating] = useState(false)
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [documentsResponse, linksResponse] = await Promise.all([
+        fetch(`/api/clients/${clientId}/documents`),
+        fetch(`/api/clients/${clientId}/portal-links`)
+      ])
+
+      if (documentsResponse.ok) {
+        const data = await documentsResponse.json()
+        setDocuments(data.data.documents)
+      }
+      if (linksResponse.ok) {
+        const data = await linksResponse.json()
+        setLinks(data.data.links)
+        setWorkflows(data.data.workflows)
+      }
+    } catch (error) {
+      console.error('Error fetching client documents:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [clientId])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-GB', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
+  const formatFileSize = (bytes: number) => {
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  }
+
+  const handleCreateLink = async () => {
+    const workflow = workflows.find(w => `${w.workflowType}:${w.workflowId}` === selectedWorkflow)
+    if (!workflow) {
+      showToast.error('Please choose the work this upload link is for')
+      return
+    }
+
+    setIsCreating(true)
+    try {
+      const response = await fetch(`/api/clients/${clientId}/portal-links`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          workflowType: workflow.workflowType,
+          workflowId: workflow.workflowId
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        showToast.error(data.error || 'Failed to create upload link')
+        return
+      }
+
+      setNewLinkUrl(data.data.url)
+      showToast.success('Upload link created')
+      fetchData()
+    } catch (error) {
+      console.error('Error creating upload link:', error)
+      showToast.error('Error creating upload link')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleCopyLink = async () => {
+    if (!newLinkUrl) return
+    try {
+      await navigator.clipboard.writeText(newLinkUrl)
+      showToast.success('Link copied to clipboard')
+    } catch (error) {
+      showToast.error('Could not copy link')
+    }
+  }
+
+  const handleRevokeLink = async (linkId: string) => {
+    try {
+      const response = await fetch(`/api/clients/${clientId}/portal-links/${linkId}`, {
+        method: 'DELETE'
+      })
+
+      if (response.ok) {
+        showToast.success('Upload link revoked')
+        fetchData()
+      } else {
+        const error = await response.json()
+        showToast.error(error.error || 'Failed to revoke upload link')
+      }
+    } catch (error) {
+      console.error('Error revoking upload link:', error)
+      showToast.error('Error revoking upload link')
+    }
+  }
+
+  const activeLinks = links.filter(link => link.isActive)
+
+  return (
+    <Card className="shadow-professional">
+      <CardHeader>
+        <CardTitle className="text-base md:text-lg flex items-center gap-2">
+          <Upload className="h-5 w-5 text-primary" />
+          Client Documents
+        </CardTitle>
+        <CardDescription>Paperwork received through the client upload portal</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {/* Create upload link */}
+            {workflows.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Select value={selectedWorkflow} onValueChange={setSelectedWorkflow}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Select work for upload link" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {workflows.map(workflow => (
+                        <SelectItem
+                          key={`${workflow.workflowType}:${workflow.workflowId}`}
+                          value={`${workflow.workflowType}:${workflow.workflowId}`}
+                        >
+                          {workflow.periodLabel}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleCreateLink}
+                    disabled={isCreating || !selectedWorkflow}
+                  >
+                    {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4 mr-2" />}
+                    {!isCreating && 'Create Link'}
+                  </Button>
+                </div>
+                {newLinkUrl && (
+                  <div className="flex items-center gap-2 rounded-md border border-primary/20 bg-primary/5 p-2">
+                    <code className="text-xs flex-1 truncate">{newLinkUrl}</code>
+                    <Button variant="ghost" size="sm" onClick={handleCopyLink}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+                {newLinkUrl && (
+                  <p className="text-xs text-muted-foreground">
+                    Copy this link now and send it to the client - it will not be shown again.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Active links */}
+            {activeLinks.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-xs font-medium text-muted-foreground">Active upload links</p>
+                {activeLinks.map(link => (
+                  <div key={link.id} className="flex items-center justify-between p-2 rounded-sm border border-border">
+                    <div className="min-w-0">
+                      <p className="text-sm">
+                        {WORKFLOW_LABELS[link.workflowType] || link.workflowType} • {link.documentCount} file{link.documentCount === 1 ? '' : 's'}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Created by {link.createdBy?.name || 'Unknown'} • Expires {formatDateTime(link.expiresAt)}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => handleRevokeLink(link.id)}>
+                      <XCircle className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Received documents */}
+            {documents.length > 0 ? (
+              <div className="space-y-2">
+                <p className="text-xs font-medium text-muted-foreground">Received files</p>
+                {documents.map(document => (
+                  <div key={document.id} className="flex items-start gap-3 p-2 rounded-sm border border-border">
+                    <FileText className="h-4 w-4 text-muted-foreground mt-0.5" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{document.fileName}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {document.uploadedByName || 'Client'} • {formatDateTime(document.createdAt)} • {formatFileSize(document.fileSize)}
+                      </p>
+                      {document.notes && (
+                        <p className="text-xs text-muted-foreground mt-1 italic">{document.notes}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline" className="text-xs">
+                        {CATEGORY_LABELS[document.category] || document.category}
+                      </Badge>
+                      <Button variant="ghost" size="sm" asChild>
+                        <a href={`/api/clients/${clientId}/documents/${document.id}`}>
+                          <Download className="h-4 w-4" />
+                        </a>
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-6">
+                <FileText className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
+                <p className="text-sm text-muted-foreground">No documents received yet</p>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
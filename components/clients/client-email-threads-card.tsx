@@ -0,0 +1,187 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ChevronDown, ChevronRight, Download, Loader2, Mail, MailOpen, Paperclip } from 'lucide-react'
+import type { EmailThread } from '@/lib/inbound-email'
+
+interface ClientEmailThreadsCardProps {
+  clientId: string
+}
+
+// How many threads to show before "Show all"
+const COLLAPSED_THREAD_COUNT = 5
+
+/**
+ * Client email threads card for the client detail view
+ * 
+ * Features:
+ * - Emails sent to the client, with the client's replies threaded underneath
+ * - Replies show who sent them and any attached files for download
+ * - Most recently active conversation first
+ */
+export function ClientEmailThreadsCard({ clientId }: ClientEmailThreadsCardProps) {
+  const [threads, setThreads] = useState<EmailThread[]>([])
+  const [expandedThreadId, setExpandedThreadId] = useState<string | null>(null)
+  const [showAll, setShowAll] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+
+  const fetchThreads = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/clients/${clientId}/email-threads`)
+      if (response.ok) {
+        const data = await response.json()
+        setThreads(data.data.threads)
+      }
+    } catch (error) {
+      console.error('Error fetching email threads:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [clientId])
+
+  useEffect(() => {
+    fetchThreads()
+  }, [fetchThreads])
+
+  const formatDateTime = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-GB', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
+  const formatFileSize = (bytes: number) => {
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  }
+
+  // Outbound emails are stored as HTML - show them as plain text inside the thread
+  const toPlainText = (content: string) => {
+    return content
+      .replace(/<style[\s\S]*?<\/style>/gi, '')
+      .replace(/<br\s*\/?>|<\/p>|<\/div>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&amp;/g, '&')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+  }
+
+  const visibleThreads = showAll ? threads : threads.slice(0, COLLAPSED_THREAD_COUNT)
+  const totalReplies = threads.reduce((sum, thread) => sum + thread.replyCount, 0)
+
+  return (
+    <Card className="shadow-professional">
+      <CardHeader>
+        <CardTitle className="text-base md:text-lg flex items-center gap-2">
+          <Mail className="h-5 w-5 text-primary" />
+          Email Conversations
+          {totalReplies > 0 && (
+            <Badge variant="secondary" className="text-xs">
+              {totalReplies} repl{totalReplies === 1 ? 'y' : 'ies'}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>Emails sent to the client and the replies they sent back</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : threads.length === 0 ? (
+          <div className="text-center py-6">
+            <Mail className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
+            <p className="text-sm text-muted-foreground">No emails with this client yet</p>
+          </div>
+        ) : (
+          <>
+            {visibleThreads.map(thread => {
+              const isExpanded = expandedThreadId === thread.id
+
+              return (
+                <div key={thread.id} className="rounded-sm border border-border">
+                  <button
+                    type="button"
+                    className="w-full flex items-center gap-2 p-2 text-left hover:bg-muted/50"
+                    onClick={() => setExpandedThreadId(isExpanded ? null : thread.id)}
+                  >
+                    {isExpanded
+                      ? <ChevronDown className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                      : <ChevronRight className="h-4 w-4 text-muted-foreground flex-shrink-0" />}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{thread.subject}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {thread.messages.length} message{thread.messages.length === 1 ? '' : 's'} • {formatDateTime(thread.lastMessageAt)}
+                      </p>
+                    </div>
+                    {thread.replyCount > 0 && (
+                      <Badge variant="outline" className="text-xs bg-green-50 text-green-700 border-green-200">
+                        Replied
+                      </Badge>
+                    )}
+                  </button>
+
+                  {isExpanded && (
+                    <div className="border-t border-border p-2 space-y-2">
+                      {thread.messages.map(message => (
+                        <div
+                          key={message.id}
+                          className={`rounded-sm p-2 ${message.direction === 'inbound' ? 'bg-green-50 border border-green-200 ml-4' : 'bg-muted/50 mr-4'}`}
+                        >
+                          <div className="flex items-center gap-2 mb-1">
+                            {message.direction === 'inbound'
+                              ? <MailOpen className="h-3 w-3 text-green-700" />
+                              : <Mail className="h-3 w-3 text-muted-foreground" />}
+                            <p className="text-xs font-medium flex-1 truncate">
+                              {message.direction === 'inbound'
+                                ? `${message.fromName || message.fromEmail} replied`
+                                : `${message.fromName || 'Numericalz'} to ${message.toEmail}`}
+                            </p>
+                            <span className="text-xs text-muted-foreground">{formatDateTime(message.at)}</span>
+                          </div>
+                          <p className="text-xs whitespace-pre-wrap line-clamp-[12]">
+                            {message.direction === 'inbound' ? message.content : toPlainText(message.content)}
+                          </p>
+                          {message.attachments.length > 0 && (
+                            <div className="mt-2 space-y-1">
+                              {message.attachments.map(attachment => (
+                                <div key={attachment.id} className="flex items-center gap-2">
+                                  <Paperclip className="h-3 w-3 text-muted-foreground" />
+                                  <span className="text-xs flex-1 truncate">
+                                    {attachment.fileName} • {formatFileSize(attachment.fileSize)}
+                                  </span>
+                                  <Button variant="ghost" size="sm" className="h-6 px-2" asChild>
+                                    <a href={`/api/clients/${clientId}/email-threads/attachments/${attachment.id}`}>
+                                      <Download className="h-3 w-3" />
+                                    </a>
+                                  </Button>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+
+            {threads.length > COLLAPSED_THREAD_COUNT && (
+              <Button variant="ghost" size="sm" className="w-full" onClick={() => setShowAll(!showAll)}>
+                {showAll ? 'Show fewer' : `Show all ${threads.length} conversations`}
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
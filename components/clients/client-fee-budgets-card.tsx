@@ -0,0 +1,222 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Loader2, PoundSterling, Save } from 'lucide-react'
+import { showToast } from '@/lib/toast'
+import { usePermissions } from '@/lib/hooks/usePermissions'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ASSIGNABLE_WORK_TYPES, WORK_TYPE_LABELS, type AssignableWorkType } from '@/lib/assignment-engine'
+
+interface ClientFeeBudgetsCardProps {
+  clientId: string
+}
+
+interface FeeBudget {
+  workType: string
+  fee: number
+  budgetMinutes: number | null
+  updatedByName: string | null
+  updatedAt: string
+}
+
+// Fee and budgeted hours as typed, blank for no budget
+type BudgetForm = Record<AssignableWorkType, { fee: string; hours: string }>
+
+const EMPTY_FORM: BudgetForm = {
+  VAT: { fee: '', hours: '' },
+  LTD_ACCOUNTS: { fee: '', hours: '' },
+  NON_LTD_ACCOUNTS: { fee: '', hours: '' }
+}
+
+const PER_JOB_LABELS: Record<AssignableWorkType, string> = {
+  VAT: 'per quarter',
+  LTD_ACCOUNTS: 'per year',
+  NON_LTD_ACCOUNTS: 'per year'
+}
+
+/**
+ * Fee budgets card for the client detail view - needs time.view_all, and time.manage_fees to edit
+ *
+ * What the client pays for each kind of job and the time that allows for, which the
+ * recoverability report measures time cost against.
+ */
+export function ClientFeeBudgetsCard({ clientId }: ClientFeeBudgetsCardProps) {
+  const { can } = usePermissions()
+  const canView = can('time.view_all')
+  const canEdit = can('time.manage_fees')
+
+  const [budgets, setBudgets] = useState<FeeBudget[]>([])
+  const [form, setForm] = useState<BudgetForm>(EMPTY_FORM)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const applyBudgets = useCallback((loaded: FeeBudget[]) => {
+    setBudgets(loaded)
+    const next: BudgetForm = { ...EMPTY_FORM }
+    for (const budget of loaded) {
+      if (!(ASSIGNABLE_WORK_TYPES as readonly string[]).includes(budget.workType)) continue
+      next[budget.workType as AssignableWorkType] = {
+        fee: budget.fee.toString(),
+        hours: budget.budgetMinutes !== null ? (budget.budgetMinutes / 60).toString() : ''
+      }
+    }
+    setForm(next)
+  }, [])
+
+  const fetchBudgets = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/clients/${clientId}/fee-budgets`)
+      if (response.ok) {
+        const data = await response.json()
+        applyBudgets(data.budgets)
+      }
+    } catch (error) {
+      console.error('Error fetching fee budgets:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [clientId, applyBudgets])
+
+  useEffect(() => {
+    if (canView) {
+      fetchBudgets()
+    }
+  }, [canView, fetchBudgets])
+
+  const saveBudgets = async () => {
+    const payload = []
+    for (const workType of ASSIGNABLE_WORK_TYPES) {
+      const { fee, hours } = form[workType]
+      const feeValue = fee.trim() === '' ? null : Number(fee)
+      const hoursValue = hours.trim() === '' ? null : Number(hours)
+      if ((feeValue !== null && (isNaN(feeValue) || feeValue < 0)) || (hoursValue !== null && (isNaN(hoursValue) || hoursValue < 0))) {
+        showToast.error(`Check the ${WORK_TYPE_LABELS[workType]} fee and hours`)
+        return
+      }
+      if (feeValue === null && hoursValue !== null) {
+        showToast.error(`Set a ${WORK_TYPE_LABELS[workType]} fee to go with the budgeted hours`)
+        return
+      }
+      payload.push({
+        workType,
+        fee: feeValue,
+        budgetMinutes: hoursValue !== null ? Math.round(hoursValue * 60) : null
+      })
+    }
+
+    try {
+      setIsSaving(true)
+      const response = await fetch(`/api/clients/${clientId}/fee-budgets`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ budgets: payload })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        showToast.error(data.error || 'Failed to save fee budgets')
+        return
+      }
+
+      applyBudgets(data.budgets)
+      showToast.success('Fee budgets saved')
+    } catch (error) {
+      console.error('Error saving fee budgets:', error)
+      showToast.error('Error saving fee budgets')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (!canView) return null
+
+  const lastUpdated = budgets.reduce<FeeBudget | null>(
+    (latest, budget) => !latest || budget.updatedAt > latest.updatedAt ? budget : latest,
+    null
+  )
+
+  return (
+    <Card className="shadow-professional">
+      <CardHeader>
+        <CardTitle className="text-base md:text-lg flex items-center gap-2">
+          <PoundSterling className="h-5 w-5" />
+          Fee Budgets
+        </CardTitle>
+        <CardDescription>
+          What the client pays for each job and the time it allows for
+          {lastUpdated?.updatedByName && ` - last changed by ${lastUpdated.updatedByName}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Work</TableHead>
+                  <TableHead>Fee (£)</TableHead>
+                  <TableHead>Budget (hours)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ASSIGNABLE_WORK_TYPES.map(workType => (
+                  <TableRow key={workType}>
+                    <TableCell>
+                      <div className="font-medium">{WORK_TYPE_LABELS[workType]}</div>
+                      <div className="text-xs text-muted-foreground">{PER_JOB_LABELS[workType]}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        className="h-8 w-32"
+                        placeholder="No fee set"
+                        value={form[workType].fee}
+                        disabled={!canEdit}
+                        onChange={(event) => setForm(current => ({
+                          ...current,
+                          [workType]: { ...current[workType], fee: event.target.value }
+                        }))}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.25"
+                        className="h-8 w-32"
+                        value={form[workType].hours}
+                        disabled={!canEdit}
+                        onChange={(event) => setForm(current => ({
+                          ...current,
+                          [workType]: { ...current[workType], hours: event.target.value }
+                        }))}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {canEdit && (
+              <div className="flex justify-end">
+                <Button size="sm" onClick={saveBudgets} disabled={isSaving}>
+                  {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                  Save Fee Budgets
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
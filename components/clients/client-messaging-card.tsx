@@ -0,0 +1,360 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { showToast } from '@/lib/toast'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Loader2, MessageSquare, Send } from 'lucide-react'
+import {
+  MAX_TEXT_MESSAGE_LENGTH,
+  MESSAGE_DELIVERY_STATUS_CONFIG,
+  MESSAGING_CHANNELS,
+  MESSAGING_CHANNEL_CONFIG,
+  countSmsSegments,
+  isMessagingChannel,
+  type ClientMessageSummary,
+  type MessagingChannel
+} from '@/lib/messaging'
+
+interface ClientMessagingCardProps {
+  clientId: string
+}
+
+interface MessagingConsent {
+  contactPhone: string | null
+  smsConsent: boolean
+  whatsappConsent: boolean
+  updatedAt: string | null
+  updatedBy: string | null
+}
+
+interface TextTemplateOption {
+  id: string
+  name: string
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-GB', {
+    timeZone: 'Europe/London',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+
+/**
+ * Text messaging card for the client detail view
+ *
+ * Features:
+ * - SMS and WhatsApp consent, recorded with who changed it and when
+ * - Send a text to the main contact's phone, typed or from a template's SMS text
+ * - Recent texts with their delivery status from the provider
+ */
+export function ClientMessagingCard({ clientId }: ClientMessagingCardProps) {
+  const [messages, setMessages] = useState<ClientMessageSummary[]>([])
+  const [consent, setConsent] = useState<MessagingConsent | null>(null)
+  const [templates, setTemplates] = useState<TextTemplateOption[]>([])
+  const [messagingEnabled, setMessagingEnabled] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [savingConsent, setSavingConsent] = useState(false)
+
+  // Send dialog state
+  const [showSendDialog, setShowSendDialog] = useState(false)
+  const [channel, setChannel] = useState<MessagingChannel>('SMS')
+  const [templateId, setTemplateId] = useState<string>('none')
+  const [body, setBody] = useState('')
+  const [isPreviewing, setIsPreviewing] = useState(false)
+  const [isSending, setIsSending] = useState(false)
+
+  const fetchMessages = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/clients/${clientId}/messages`)
+      if (response.ok) {
+        const data = await response.json()
+        setMessages(data.data.messages)
+        setConsent(data.data.consent)
+        setTemplates(data.data.templates)
+        setMessagingEnabled(data.data.messagingEnabled)
+      }
+    } catch (error) {
+      console.error('Error fetching client messages:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [clientId])
+
+  useEffect(() => {
+    fetchMessages()
+  }, [fetchMessages])
+
+  const handleConsentChange = async (field: 'smsConsent' | 'whatsappConsent', checked: boolean) => {
+    if (!consent) return
+
+    setSavingConsent(true)
+    try {
+      const response = await fetch(`/api/clients/${clientId}/messaging-consent`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          smsConsent: consent.smsConsent,
+          whatsappConsent: consent.whatsappConsent,
+          [field]: checked
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        showToast.error(data.error || 'Failed to update consent')
+        return
+      }
+
+      setConsent(current => current ? { ...current, ...data.data.consent } : current)
+      showToast.success(data.message || 'Consent updated')
+    } catch (error) {
+      console.error('Error updating messaging consent:', error)
+      showToast.error('Failed to update consent')
+    } finally {
+      setSavingConsent(false)
+    }
+  }
+
+  const openSendDialog = () => {
+    setChannel(consent?.smsConsent ? 'SMS' : 'WHATSAPP')
+    setTemplateId('none')
+    setBody('')
+    setShowSendDialog(true)
+  }
+
+  const handleTemplateChange = async (value: string) => {
+    setTemplateId(value)
+    if (value === 'none') return
+
+    setIsPreviewing(true)
+    try {
+      const response = await fetch(`/api/clients/${clientId}/messages?previewTemplateId=${value}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        showToast.error(data.error || 'Failed to load template')
+        return
+      }
+
+      setBody(data.data.preview || '')
+    } catch (error) {
+      console.error('Error previewing text template:', error)
+      showToast.error('Failed to load template')
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  const handleSend = async () => {
+    if (!body.trim()) {
+      showToast.error('Please enter a message')
+      return
+    }
+
+    setIsSending(true)
+    try {
+      const response = await fetch(`/api/clients/${clientId}/messages`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          channel,
+          templateId: templateId === 'none' ? null : templateId,
+          body: body.trim()
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        showToast.error(data.details?.[0]?.message || data.error || 'Failed to send message')
+        fetchMessages()
+        return
+      }
+
+      showToast.success(data.message || 'Message sent')
+      setShowSendDialog(false)
+      fetchMessages()
+    } catch (error) {
+      console.error('Error sending client message:', error)
+      showToast.error('Failed to send message')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const consentedChannels = consent
+    ? MESSAGING_CHANNELS.filter(value => value === 'SMS' ? consent.smsConsent : consent.whatsappConsent)
+    : []
+  const { characters, segments } = countSmsSegments(body)
+
+  return (
+    <Card className="shadow-professional">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-base md:text-lg flex items-center gap-2">
+              <MessageSquare className="h-5 w-5" />
+              Text Messages
+            </CardTitle>
+            <CardDescription>
+              SMS and WhatsApp to {consent?.contactPhone || 'the main contact phone'}
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={openSendDialog}
+            disabled={!messagingEnabled || consentedChannels.length === 0 || !consent?.contactPhone}
+            title={!messagingEnabled ? 'Text messaging is not configured' : undefined}
+          >
+            <Send className="h-4 w-4 mr-2" />
+            Send Text
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : consent && (
+          <>
+            <div className="space-y-2">
+              {MESSAGING_CHANNELS.map(value => {
+                const field = value === 'SMS' ? 'smsConsent' : 'whatsappConsent'
+                return (
+                  <div key={value} className="flex items-center justify-between">
+                    <Label htmlFor={`consent-${value}`} className="text-sm">
+                      {MESSAGING_CHANNEL_CONFIG[value].consentLabel}
+                    </Label>
+                    <Switch
+                      id={`consent-${value}`}
+                      checked={consent[field]}
+                      onCheckedChange={(checked) => handleConsentChange(field, checked)}
+                      disabled={savingConsent}
+                    />
+                  </div>
+                )
+              })}
+              {consent.updatedAt && (
+                <p className="text-xs text-muted-foreground">
+                  Last changed by {consent.updatedBy || 'Unknown'} on {formatDateTime(consent.updatedAt)}
+                </p>
+              )}
+              {!consent.contactPhone && (
+                <p className="text-xs text-orange-600">Add a phone number to the main contact to send texts</p>
+              )}
+            </div>
+
+            {messages.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No texts sent yet</p>
+            ) : (
+              <div className="space-y-2">
+                {messages.map(message => {
+                  const statusConfig = message.deliveryStatus ? MESSAGE_DELIVERY_STATUS_CONFIG[message.deliveryStatus] : null
+                  return (
+                    <div key={message.id} className="p-2 rounded-lg border text-xs space-y-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-muted-foreground">
+                          {MESSAGING_CHANNEL_CONFIG[message.channel].label} · {formatDateTime(message.sentAt || message.createdAt)}
+                          {' · '}{message.sentByName || 'Automated'}
+                          {message.templateName && ` · ${message.templateName}`}
+                        </span>
+                        {statusConfig && (
+                          <Badge variant="outline" className={`text-xs ${statusConfig.color}`}>{statusConfig.label}</Badge>
+                        )}
+                      </div>
+                      <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                      {message.deliveryError && <p className="text-red-600">{message.deliveryError}</p>}
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      {/* Send Text Dialog */}
+      <Dialog open={showSendDialog} onOpenChange={setShowSendDialog}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Send Text</DialogTitle>
+            <DialogDescription>
+              Sent to {consent?.contactPhone} and logged in the client&apos;s communication history.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="text-channel" className="text-xs">Channel</Label>
+              <Select value={channel} onValueChange={(value) => isMessagingChannel(value) && setChannel(value)}>
+                <SelectTrigger id="text-channel" className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {consentedChannels.map(value => (
+                    <SelectItem key={value} value={value}>{MESSAGING_CHANNEL_CONFIG[value].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="text-template" className="text-xs">Template</Label>
+              <Select value={templateId} onValueChange={handleTemplateChange}>
+                <SelectTrigger id="text-template" className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No template</SelectItem>
+                  {templates.map(template => (
+                    <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="text-body" className="text-xs">Message</Label>
+              <Textarea
+                id="text-body"
+                value={body}
+                onChange={(event) => setBody(event.target.value)}
+                rows={5}
+                maxLength={MAX_TEXT_MESSAGE_LENGTH}
+                disabled={isPreviewing}
+              />
+              <p className="text-xs text-muted-foreground text-right">
+                {characters}/{MAX_TEXT_MESSAGE_LENGTH}{channel === 'SMS' && ` · ${segments} segment${segments === 1 ? '' : 's'}`}
+              </p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowSendDialog(false)} disabled={isSending}>
+              Cancel
+            </Button>
+            <Button onClick={handleSend} disabled={isSending || isPreviewing || !body.trim()}>
+              {isSending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Send
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
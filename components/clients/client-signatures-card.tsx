@@ -0,0 +1,403 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { showToast } from '@/lib/toast'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Download, FileSignature, Loader2, Send, XCircle } from 'lucide-react'
+import {
+  OPEN_SIGNATURE_STATUSES,
+  SIGNATURE_DOCUMENT_TYPES,
+  SIGNATURE_DOCUMENT_TYPE_CONFIG,
+  SIGNATURE_REQUEST_STATUS_CONFIG,
+  isSignatureDocumentType,
+  type SignatureDocumentType,
+  type SignatureRequestSummary
+} from '@/lib/e-signature'
+
+interface ClientSignaturesCardProps {
+  clientId: string
+}
+
+interface SignatureWorkflow {
+  workflowType: 'LTD' | 'NON_LTD'
+  workflowId: string
+  periodLabel: string
+  currentStage: string
+  readyForSignature: boolean
+}
+
+interface PdfDocument {
+  id: string
+  fileName: string
+  category: string
+  workflowId: string | null
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-GB', {
+    timeZone: 'Europe/London',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+
+/**
+ * E-signature card for the client detail view
+ *
+ * Features:
+ * - Send an accounts approval pack or engagement letter for signature
+ * - Accounts packs move the workflow to Sent to Client, and to Approved by Client once signed
+ * - Request status with the signed copy to download, and cancel for requests not yet signed
+ */
+export function ClientSignaturesCard({ clientId }: ClientSignaturesCardProps) {
+  const [requests, setRequests] = useState<SignatureRequestSummary[]>([])
+  const [workflows, setWorkflows] = useState<SignatureWorkflow[]>([])
+  const [documents, setDocuments] = useState<PdfDocument[]>([])
+  const [defaultSigner, setDefaultSigner] = useState({ name: '', email: '' })
+  const [signingEnabled, setSigningEnabled] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [cancellingId, setCancellingId] = useState<string | null>(null)
+
+  // Send dialog state
+  const [showSendDialog, setShowSendDialog] = useState(false)
+  const [documentType, setDocumentType] = useState<SignatureDocumentType>('ACCOUNTS_APPROVAL')
+  const [workflowId, setWorkflowId] = useState('')
+  const [title, setTitle] = useState('')
+  const [message, setMessage] = useState('')
+  const [signerName, setSignerName] = useState('')
+  const [signerEmail, setSignerEmail] = useState('')
+  const [existingDocumentId, setExistingDocumentId] = useState('upload')
+  const [file, setFile] = useState<File | null>(null)
+  const [isSending, setIsSending] = useState(false)
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/clients/${clientId}/signature-requests`)
+      if (response.ok) {
+        const data = await response.json()
+        setRequests(data.data.requests)
+        setWorkflows(data.data.workflows)
+        setDocuments(data.data.documents)
+        setDefaultSigner({ name: data.data.signer.name || '', email: data.data.signer.email || '' })
+        setSigningEnabled(data.data.signingEnabled)
+      }
+    } catch (error) {
+      console.error('Error fetching signature requests:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [clientId])
+
+  useEffect(() => {
+    fetchRequests()
+  }, [fetchRequests])
+
+  const readyWorkflows = workflows.filter(workflow => workflow.readyForSignature)
+
+  const defaultTitle = (type: SignatureDocumentType, workflow?: SignatureWorkflow) =>
+    type === 'ACCOUNTS_APPROVAL' && workflow
+      ? `${workflow.periodLabel} - approval`
+      : SIGNATURE_DOCUMENT_TYPE_CONFIG[type].label
+
+  const openSendDialog = () => {
+    const type: SignatureDocumentType = readyWorkflows.length > 0 ? 'ACCOUNTS_APPROVAL' : 'ENGAGEMENT_LETTER'
+    setDocumentType(type)
+    setWorkflowId(readyWorkflows[0]?.workflowId || '')
+    setTitle(defaultTitle(type, readyWorkflows[0]))
+    setMessage('')
+    setSignerName(defaultSigner.name)
+    setSignerEmail(defaultSigner.email)
+    setExistingDocumentId('upload')
+    setFile(null)
+    setShowSendDialog(true)
+  }
+
+  const handleDocumentTypeChange = (value: string) => {
+    if (!isSignatureDocumentType(value)) return
+    setDocumentType(value)
+    setTitle(defaultTitle(value, readyWorkflows.find(workflow => workflow.workflowId === workflowId)))
+  }
+
+  const handleWorkflowChange = (value: string) => {
+    setWorkflowId(value)
+    setTitle(defaultTitle(documentType, readyWorkflows.find(workflow => workflow.workflowId === value)))
+  }
+
+  const handleSend = async () => {
+    const workflow = readyWorkflows.find(candidate => candidate.workflowId === workflowId)
+    if (documentType === 'ACCOUNTS_APPROVAL' && !workflow) {
+      showToast.error('Choose the accounts workflow this approval is for')
+      return
+    }
+    if (existingDocumentId === 'upload' && !file) {
+      showToast.error('Choose the PDF to be signed')
+      return
+    }
+
+    const formData = new FormData()
+    formData.append('documentType', documentType)
+    if (documentType === 'ACCOUNTS_APPROVAL' && workflow) {
+      formData.append('workflowType', workflow.workflowType)
+      formData.append('workflowId', workflow.workflowId)
+    }
+    formData.append('title', title)
+    formData.append('message', message)
+    formData.append('signerName', signerName)
+    formData.append('signerEmail', signerEmail)
+    if (existingDocumentId === 'upload' && file) {
+      formData.append('file', file)
+    } else {
+      formData.append('documentId', existingDocumentId)
+    }
+
+    setIsSending(true)
+    try {
+      const response = await fetch(`/api/clients/${clientId}/signature-requests`, {
+        method: 'POST',
+        body: formData
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        showToast.error(data.details?.[0]?.message || data.error || 'Failed to send for signature')
+        return
+      }
+
+      showToast.success(data.message || 'Sent for signature')
+      setShowSendDialog(false)
+      fetchRequests()
+    } catch (error) {
+      console.error('Error sending for signature:', error)
+      showToast.error('Failed to send for signature')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  const handleCancel = async (requestId: string) => {
+    setCancellingId(requestId)
+    try {
+      const response = await fetch(`/api/clients/${clientId}/signature-requests/${requestId}`, {
+        method: 'DELETE'
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        showToast.error(data.error || 'Failed to cancel signature request')
+        return
+      }
+
+      showToast.success(data.message || 'Signature request cancelled')
+      fetchRequests()
+    } catch (error) {
+      console.error('Error cancelling signature request:', error)
+      showToast.error('Failed to cancel signature request')
+    } finally {
+      setCancellingId(null)
+    }
+  }
+
+  return (
+    <Card className="shadow-professional">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-base md:text-lg flex items-center gap-2">
+              <FileSignature className="h-5 w-5" />
+              E-Signatures
+            </CardTitle>
+            <CardDescription>
+              Accounts approvals and engagement letters sent for signature
+            </CardDescription>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={openSendDialog}
+            disabled={!signingEnabled}
+            title={!signingEnabled ? 'E-signature is not configured' : undefined}
+          >
+            <Send className="h-4 w-4 mr-2" />
+            Send for Signature
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing sent for signature yet</p>
+        ) : (
+          requests.map(request => {
+            const statusConfig = SIGNATURE_REQUEST_STATUS_CONFIG[request.status]
+            const isOpen = OPEN_SIGNATURE_STATUSES.includes(request.status)
+            return (
+              <div key={request.id} className="p-2 rounded-lg border text-xs space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium truncate">{request.title}</span>
+                  <Badge variant="outline" className={`text-xs ${statusConfig.color}`}>{statusConfig.label}</Badge>
+                </div>
+                <p className="text-muted-foreground">
+                  {SIGNATURE_DOCUMENT_TYPE_CONFIG[request.documentType].label} · {request.signerName} ({request.signerEmail})
+                  {' · '}sent {formatDateTime(request.sentAt)}{request.sentByName && ` by ${request.sentByName}`}
+                </p>
+                {request.signedAt && <p className="text-green-700">Signed {formatDateTime(request.signedAt)}</p>}
+                {request.declinedAt && (
+                  <p className="text-red-600">
+                    Declined {formatDateTime(request.declinedAt)}{request.declineReason && ` - ${request.declineReason}`}
+                  </p>
+                )}
+                <div className="flex items-center gap-1">
+                  {request.document && (
+                    <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" asChild>
+                      <a href={`/api/clients/${clientId}/documents/${request.document.id}`}>
+                        <Download className="h-3 w-3 mr-1" />
+                        Sent copy
+                      </a>
+                    </Button>
+                  )}
+                  {request.signedDocument && (
+                    <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" asChild>
+                      <a href={`/api/clients/${clientId}/documents/${request.signedDocument.id}`}>
+                        <Download className="h-3 w-3 mr-1" />
+                        Signed copy
+                      </a>
+                    </Button>
+                  )}
+                  {isOpen && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs ml-auto"
+                      onClick={() => handleCancel(request.id)}
+                      disabled={cancellingId === request.id}
+                    >
+                      {cancellingId === request.id
+                        ? <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                        : <XCircle className="h-3 w-3 mr-1" />}
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )
+          })
+        )}
+      </CardContent>
+
+      {/* Send for Signature Dialog */}
+      <Dialog open={showSendDialog} onOpenChange={setShowSendDialog}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Send for Signature</DialogTitle>
+            <DialogDescription>
+              The client signs online. Signed accounts are stored with the workflow and moved to Approved by Client.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="signature-type" className="text-xs">Document</Label>
+              <Select value={documentType} onValueChange={handleDocumentTypeChange}>
+                <SelectTrigger id="signature-type" className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SIGNATURE_DOCUMENT_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{SIGNATURE_DOCUMENT_TYPE_CONFIG[type].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {documentType === 'ACCOUNTS_APPROVAL' && (
+              <div className="space-y-1">
+                <Label htmlFor="signature-workflow" className="text-xs">Accounts</Label>
+                <Select value={workflowId} onValueChange={handleWorkflowChange}>
+                  <SelectTrigger id="signature-workflow" className="h-8">
+                    <SelectValue placeholder="No accounts ready" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {readyWorkflows.map(workflow => (
+                      <SelectItem key={workflow.workflowId} value={workflow.workflowId}>{workflow.periodLabel}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {documentType === 'ACCOUNTS_APPROVAL' && readyWorkflows.length === 0 && (
+              <p className="text-xs text-orange-600 col-span-2">
+                Accounts can be sent once the workflow reaches Review Done
+              </p>
+            )}
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="signature-title" className="text-xs">Title</Label>
+              <Input id="signature-title" className="h-8" value={title} onChange={(e) => setTitle(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="signature-signer-name" className="text-xs">Signer name</Label>
+              <Input id="signature-signer-name" className="h-8" value={signerName} onChange={(e) => setSignerName(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="signature-signer-email" className="text-xs">Signer email</Label>
+              <Input id="signature-signer-email" type="email" className="h-8" value={signerEmail} onChange={(e) => setSignerEmail(e.target.value)} />
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="signature-document" className="text-xs">PDF</Label>
+              <Select value={existingDocumentId} onValueChange={setExistingDocumentId}>
+                <SelectTrigger id="signature-document" className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="upload">Upload a PDF</SelectItem>
+                  {documents.map(document => (
+                    <SelectItem key={document.id} value={document.id}>{document.fileName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {existingDocumentId === 'upload' && (
+                <Input
+                  type="file"
+                  accept="application/pdf,.pdf"
+                  className="h-8 text-xs"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                />
+              )}
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="signature-message" className="text-xs">Message to the signer (optional)</Label>
+              <Textarea id="signature-message" rows={3} value={message} onChange={(e) => setMessage(e.target.value)} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowSendDialog(false)} disabled={isSending}>
+              Cancel
+            </Button>
+            <Button onClick={handleSend} disabled={isSending || !title.trim() || !signerName.trim() || !signerEmail.trim()}>
+              {isSending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Send
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
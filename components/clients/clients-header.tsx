@@ -2,12 +2,12 @@
 
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
-import { useSession } from 'next-auth/react'
 import { Plus, Search, Filter, Download, Settings } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card } from '@/components/ui/card'
 import { showToast } from '@/lib/toast'
+import { usePermissions } from '@/lib/hooks/usePermissions'
 import { Badge } from '@/components/ui/badge'
 import { 
   Select, 
@@ -78,7 +78,7 @@ export function ClientsHeader({
 }: ClientsHeaderProps) {
   const router = useRouter()
   const [isExporting, setIsExporting] = useState(false)
-  const { data: session } = useSession()
+  const { can } = usePermissions()
 
   // Users are now passed as props from parent component
 
@@ -147,7 +147,7 @@ export function ClientsHeader({
           </p>
         </div>
         <div className="flex items-center gap-2">
-          {session?.user?.role === 'PARTNER' && (
+          {can('clients.export') && (
             <Button
               variant="outline"
               size="sm"
@@ -6,6 +6,7 @@ import { useRouter } from 'next/navigation'
 import { showToast } from '@/lib/toast'
 import { debounce } from '@/lib/utils'
 import { useUsers, type User as UserType } from '@/lib/hooks/useUsers'
+import { usePermissions } from '@/lib/hooks/usePermissions'
 import {
   Eye,
   Edit,
@@ -59,6 +60,7 @@ import {
 import { BulkOperations } from './bulk-operations'
 import { Badge } from '@/components/ui/badge'
 import { ActivityLogViewer } from '@/components/activity/activity-log-viewer'
+import { EMAIL_SUPPRESSION_REASON_CONFIG, type ContactEmailSuppression } from '@/lib/email-suppression'
 
 interface Client {
   id: string
@@ -99,6 +101,8 @@ interface Client {
   isActive: boolean
   isVatEnabled: boolean
   createdAt: string
+  // Set when the contact email is on the suppression list (bounced, spam complaint or unsubscribed)
+  contactEmailSuppression?: ContactEmailSuppression | null
 }
 
 
@@ -172,12 +176,14 @@ const SortableHeader = ({ column, children, className = "", onSort }: SortableHe
  */
 export function ClientsTable({ searchQuery, filters, advancedFilter, onClientCountsUpdate }: ClientsTableProps) {
   const { data: session } = useSession()
+  const { can } = usePermissions()
+  const canBulkEdit = can('clients.assign') || can('clients.resign') || can('clients.refresh')
   const router = useRouter()
   const [clients, setClients] = useState<Client[]>([])
   const [loading, setLoading] = useState(true)
   
   // Use centralized user fetching hook with includeSelf option
-  const { users, loading: usersLoading, error: usersError } = useUsers({ includeSelf: true })
+  const { users, loading: usersLoading, error: usersError } = useUsers({ includeSelf: true, scope: 'team' })
   const [totalClientCount, setTotalClientCount] = useState(0)
   const [sortBy, setSortBy] = useState<string>('companyName')
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc')
@@ -468,7 +474,7 @@ export function ClientsTable({ searchQuery, filters, advancedFilter, onClientCou
   return (
     <>
       {/* Bulk Operations */}
-      {(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') && (
+      {canBulkEdit && (
         <BulkOperations
           selectedClients={selectedClients}
           onClearSelection={handleClearSelection}
@@ -483,7 +489,7 @@ export function ClientsTable({ searchQuery, filters, advancedFilter, onClientCou
             <Table className="table-fixed w-full">
               <TableHeader>
                 <TableRow className="border-b">
-                  {(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') && (
+                  {canBulkEdit && (
                     <TableHead className="w-12 p-2">
                       <Checkbox
                         checked={selectedClients.length === clients.length && clients.length > 0}
@@ -536,7 +542,7 @@ export function ClientsTable({ searchQuery, filters, advancedFilter, onClientCou
                 ) : (
                   clients.map((client) => (
                     <TableRow key={client.id} className="hover:bg-muted/50 h-12">
-                      {(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') && (
+                      {canBulkEdit && (
                         <TableCell className="p-2">
                           <Checkbox
                             checked={selectedClients.includes(client.id)}
@@ -567,6 +573,15 @@ export function ClientsTable({ searchQuery, filters, advancedFilter, onClientCou
                           >
                             <Clock className="h-3 w-3 text-muted-foreground group-hover:text-primary flex-shrink-0" />
                           </button>
+                          {client.contactEmailSuppression && (
+                            <Badge
+                              variant="outline"
+                              className="text-[10px] px-1 py-0 bg-red-50 text-red-700 border-red-200 whitespace-nowrap"
+                              title={`${client.contactEmail}: ${EMAIL_SUPPRESSION_REASON_CONFIG[client.contactEmailSuppression.reason].description}. Emails to this address are not sent.`}
+                            >
+                              Contact email invalid
+                            </Badge>
+                          )}
                         </div>
                       </TableCell>
                       <TableCell className="text-center p-2">
@@ -631,33 +646,35 @@ export function ClientsTable({ searchQuery, filters, advancedFilter, onClientCou
                               <Clock className="h-4 w-4" />
                               View Log
                             </DropdownMenuItem>
-                            {(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') && (
-                              <>
-                                <DropdownMenuItem 
-                                  onClick={() => router.push(`/dashboard/clients/${client.id}/edit`)}
-                                  className="flex items-center gap-2 cursor-pointer"
-                                >
-                                  <Edit className="h-4 w-4" />
-                                  Edit Client
-                                </DropdownMenuItem>
-                                <DropdownMenuSeparator />
-                                <DropdownMenuItem 
-                                  onClick={() => handleRefreshCompaniesHouse(client)}
-                                  className="flex items-center gap-2 cursor-pointer"
-                                >
-                                  <RefreshCw className="h-4 w-4" />
-                                  Refresh from Companies House
-                                </DropdownMenuItem>
-                                {client.isActive && (
-                                  <DropdownMenuItem 
-                                    onClick={() => handleResignClient(client)}
-                                    className="flex items-center gap-2 cursor-pointer text-red-600 focus:text-red-600"
-                                  >
-                                    <UserX className="h-4 w-4" />
-                                    Resign Client
-                                  </DropdownMenuItem>
-                                )}
-                              </>
+                            {can('clients.edit') && (
+                              <DropdownMenuItem 
+                                onClick={() => router.push(`/dashboard/clients/${client.id}/edit`)}
+                                className="flex items-center gap-2 cursor-pointer"
+                              >
+                                <Edit className="h-4 w-4" />
+                                Edit Client
+                              </DropdownMenuItem>
+                            )}
+                            {(can('clients.refresh') || (client.isActive && can('clients.resign'))) && (
+                              <DropdownMenuSeparator />
+                            )}
+                            {can('clients.refresh') && (
+                              <DropdownMenuItem 
+                                onClick={() => handleRefreshCompaniesHouse(client)}
+                                className="flex items-center gap-2 cursor-pointer"
+                              >
+                                <RefreshCw className="h-4 w-4" />
+                                Refresh from Companies House
+                              </DropdownMenuItem>
+                            )}
+                            {client.isActive && can('clients.resign') && (
+                              <DropdownMenuItem 
+                                onClick={() => handleResignClient(client)}
+                                className="flex items-center gap-2 cursor-pointer text-red-600 focus:text-red-600"
+                              >
+                                <UserX className="h-4 w-4" />
+                                Resign Client
+                              </DropdownMenuItem>
                             )}
                           </DropdownMenuContent>
                         </DropdownMenu>
@@ -0,0 +1,619 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { useUsers } from '@/lib/hooks/useUsers'
+import { usePermissions } from '@/lib/hooks/usePermissions'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  ArrowUpDown,
+  Building,
+  CheckCircle,
+  ChevronDown,
+  ChevronRight,
+  Plus,
+  RefreshCw,
+  Search,
+  Undo2,
+  User,
+} from 'lucide-react'
+import { showToast } from '@/lib/toast'
+import { DeadlinesBulkOperations } from './deadlines-bulk-operations'
+import {
+  CS_COMPLETED_STAGES,
+  CS_MILESTONE_FIELDS,
+  CS_WORKFLOW_STAGE_ORDER,
+  CS_WORKFLOW_STAGES,
+  isConfirmationStatementStage,
+  type ConfirmationStatementStage
+} from '@/lib/confirmation-statement-workflow'
+
+interface AssignedUser {
+  id: string
+  name: string
+  email: string
+  role: string
+}
+
+interface ConfirmationStatementWorkflow {
+  id: string
+  statementDate: string
+  filingDueDate: string
+  currentStage: string
+  isCompleted: boolean
+  assignedUser?: AssignedUser | null
+  [milestoneField: string]: unknown
+}
+
+interface ConfirmationStatementClient {
+  id: string
+  clientCode: string
+  companyName: string
+  companyNumber?: string | null
+  nextConfirmationDue: string
+  lastConfirmationMadeUpTo?: string | null
+  ltdCompanyAssignedUser?: AssignedUser | null
+  currentConfirmationStatementWorkflow: ConfirmationStatementWorkflow
+}
+
+const STAGE_OPTIONS = CS_WORKFLOW_STAGE_ORDER.map(stage => ({
+  value: stage,
+  label: CS_WORKFLOW_STAGES[stage].label
+}))
+
+const formatDate = (date?: string | null) => {
+  if (!date) return '—'
+  return new Date(date).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' })
+}
+
+const getDaysUntilDue = (workflow: ConfirmationStatementWorkflow) => {
+  if (workflow.isCompleted) {
+    return { label: 'Filed', color: 'text-green-600' }
+  }
+
+  const days = Math.ceil((new Date(workflow.filingDueDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24))
+
+  if (days < 0) return { label: `${Math.abs(days)}d overdue`, color: 'text-red-600 font-medium' }
+  if (days === 0) return { label: 'Due today', color: 'text-red-600 font-medium' }
+  if (days <= 14) return { label: `${days}d left`, color: 'text-orange-600' }
+  return { label: `${days}d left`, color: 'text-muted-foreground' }
+}
+
+/**
+ * Confirmation statements deadlines table
+ *
+ * Features:
+ * - One row per Ltd company showing its current confirmation statement workflow
+ * - Assigned-to-me / all filter, stage filter and search
+ * - Stage and assignment updates with milestone timeline
+ * - Undo filing to reopen a completed statement
+ * - Bulk assign and bulk stage updates (workflow.bulk_update)
+ */
+export function ConfirmationStatementsTable() {
+  const { can } = usePermissions()
+  const router = useRouter()
+  const { users } = useUsers({ scope: 'team' })
+
+  const [clients, setClients] = useState<ConfirmationStatementClient[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filter, setFilter] = useState<'all' | 'assigned_to_me'>('assigned_to_me')
+  const [stageFilter, setStageFilter] = useState<string>('all')
+  const [searchTerm, setSearchTerm] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [sortField, setSortField] = useState<'filingDue' | 'clientCode' | 'companyName'>('filingDue')
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc')
+  const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set())
+  const [selectedWorkflows, setSelectedWorkflows] = useState<string[]>([])
+
+  // Update dialog state
+  const [updateClient, setUpdateClient] = useState<ConfirmationStatementClient | null>(null)
+  const [selectedStage, setSelectedStage] = useState<string>('')
+  const [selectedAssignee, setSelectedAssignee] = useState<string>('unassigned')
+  const [updateNotes, setUpdateNotes] = useState('')
+  const [updating, setUpdating] = useState(false)
+  const [undoingWorkflowId, setUndoingWorkflowId] = useState<string | null>(null)
+
+  const canBulkEdit = can('workflow.bulk_update')
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm), 300)
+    return () => clearTimeout(timeout)
+  }, [searchTerm])
+
+  const fetchClients = useCallback(async () => {
+    try {
+      setLoading(true)
+
+      const params = new URLSearchParams({
+        limit: '500',
+        assignedFilter: filter,
+        workflowStageFilter: stageFilter,
+        sortField,
+        sortOrder
+      })
+      if (debouncedSearch) {
+        params.append('searchTerm', debouncedSearch)
+      }
+
+      const response = await fetch(`/api/clients/confirmation-statements?${params.toString()}`)
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to fetch confirmation statements')
+      }
+
+      setClients(data.clients || [])
+    } catch (error) {
+      console.error('Error fetching confirmation statements:', error)
+      showToast.error('Failed to fetch confirmation statements')
+    } finally {
+      setLoading(false)
+    }
+  }, [filter, stageFilter, debouncedSearch, sortField, sortOrder])
+
+  useEffect(() => {
+    fetchClients()
+  }, [fetchClients])
+
+  const handleSort = (field: typeof sortField) => {
+    if (sortField === field) {
+      setSortOrder(prev => prev === 'asc' ? 'desc' : 'asc')
+    } else {
+      setSortField(field)
+      setSortOrder('asc')
+    }
+  }
+
+  const toggleRow = (workflowId: string) => {
+    setExpandedRows(prev => {
+      const next = new Set(prev)
+      if (next.has(workflowId)) {
+        next.delete(workflowId)
+      } else {
+        next.add(workflowId)
+      }
+      return next
+    })
+  }
+
+  const handleSelectWorkflow = (workflowId: string, checked: boolean) => {
+    setSelectedWorkflows(prev => checked ? [...prev, workflowId] : prev.filter(id => id !== workflowId))
+  }
+
+  const handleSelectAll = (checked: boolean) => {
+    setSelectedWorkflows(checked ? clients.map(client => client.currentConfirmationStatementWorkflow.id) : [])
+  }
+
+  const openUpdateDialog = (client: ConfirmationStatementClient) => {
+    setUpdateClient(client)
+    setSelectedStage('')
+    setSelectedAssignee(client.currentConfirmationStatementWorkflow.assignedUser?.id || 'unassigned')
+    setUpdateNotes('')
+  }
+
+  const updateWorkflow = async (workflowId: string, payload: Record<string, unknown>) => {
+    const response = await fetch(`/api/clients/confirmation-statements/${workflowId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload)
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to update confirmation statement')
+    }
+
+    return data
+  }
+
+  const handleSubmitUpdate = async () => {
+    if (!updateClient) return
+
+    const workflow = updateClient.currentConfirmationStatementWorkflow
+    const assignedUserId = selectedAssignee === 'unassigned' ? null : selectedAssignee
+    const payload: Record<string, unknown> = { notes: updateNotes || undefined }
+
+    if (selectedStage && selectedStage !== workflow.currentStage) {
+      payload.currentStage = selectedStage
+    }
+    if (assignedUserId !== (workflow.assignedUser?.id || null)) {
+      payload.assignedUserId = assignedUserId
+    }
+
+    if (payload.currentStage === undefined && payload.assignedUserId === undefined) {
+      showToast.error('Select a new stage or assignee')
+      return
+    }
+
+    setUpdating(true)
+    try {
+      await updateWorkflow(workflow.id, payload)
+      showToast.success('Confirmation statement updated')
+      setUpdateClient(null)
+      fetchClients()
+    } catch (error) {
+      showToast.error(error instanceof Error ? error.message : 'Failed to update confirmation statement')
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  const handleUndoFiling = async (client: ConfirmationStatementClient) => {
+    const workflow = client.currentConfirmationStatementWorkflow
+
+    setUndoingWorkflowId(workflow.id)
+    try {
+      await updateWorkflow(workflow.id, {
+        currentStage: 'CLIENT_CONFIRMED',
+        notes: 'Filing undone - confirmation statement reopened'
+      })
+      showToast.success(`Reopened confirmation statement for ${client.companyName}`)
+      fetchClients()
+    } catch (error) {
+      showToast.error(error instanceof Error ? error.message : 'Failed to undo filing')
+    } finally {
+      setUndoingWorkflowId(null)
+    }
+  }
+
+  const renderStageBadge = (stage: string) => {
+    const config = isConfirmationStatementStage(stage) ? CS_WORKFLOW_STAGES[stage] : null
+    return (
+      <Badge variant="outline" className={`text-xs px-1 py-0 h-5 ${config?.color || ''}`} title={config?.label || stage}>
+        {config?.shortLabel || stage}
+      </Badge>
+    )
+  }
+
+  const renderTimeline = (workflow: ConfirmationStatementWorkflow) => (
+    <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3 p-3">
+      {CS_WORKFLOW_STAGE_ORDER.map((stage: ConfirmationStatementStage) => {
+        const milestone = CS_MILESTONE_FIELDS[stage]
+        if (!milestone) return null
+
+        const date = workflow[milestone.dateField] as string | null | undefined
+        const userName = workflow[milestone.nameField] as string | null | undefined
+
+        return (
+          <div key={stage} className="text-xs">
+            <div className={`font-medium ${date ? 'text-green-700' : 'text-muted-foreground'}`}>
+              {CS_WORKFLOW_STAGES[stage].shortLabel}
+            </div>
+            <div className="text-muted-foreground">
+              {date ? `${formatDate(date)}${userName ? ` by ${userName}` : ''}` : 'Pending'}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+
+  const columnCount = canBulkEdit ? 9 : 8
+
+  const SortableHeader = ({ field, children, className }: { field: typeof sortField, children: React.ReactNode, className?: string }) => (
+    <TableHead className={className}>
+      <button onClick={() => handleSort(field)} className="flex items-center gap-1 mx-auto hover:text-foreground">
+        {children}
+        <ArrowUpDown className="h-3 w-3" />
+      </button>
+    </TableHead>
+  )
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="relative w-64">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search clients..."
+            value={searchTerm}
+            onChange={(event) => setSearchTerm(event.target.value)}
+            className="pl-8"
+          />
+        </div>
+
+        <Select value={filter} onValueChange={(value) => setFilter(value as 'all' | 'assigned_to_me')}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="assigned_to_me">Assigned to me</SelectItem>
+            <SelectItem value="all">All clients</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-2">
+          <Label htmlFor="cs-stage-filter" className="text-sm font-medium whitespace-nowrap">
+            Filter by Stage:
+          </Label>
+          <Select value={stageFilter} onValueChange={setStageFilter}>
+            <SelectTrigger id="cs-stage-filter" className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Stages</SelectItem>
+              <SelectItem value="not_started">Not Started</SelectItem>
+              {STAGE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+              <SelectItem value="completed">Completed</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Button variant="outline" size="sm" onClick={fetchClients} disabled={loading} className="ml-auto flex items-center gap-2">
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Bulk Operations */}
+      <DeadlinesBulkOperations
+        selectedItems={selectedWorkflows}
+        users={users}
+        onClearSelection={() => setSelectedWorkflows([])}
+        onRefreshData={fetchClients}
+        type="confirmation"
+        stageOptions={STAGE_OPTIONS}
+      />
+
+      {/* Table */}
+      <Card>
+        <CardContent className="p-0">
+          <Table className="table-fixed w-full">
+            <TableHeader>
+              <TableRow className="border-b">
+                {canBulkEdit && (
+                  <TableHead className="w-12 p-2 text-center">
+                    <Checkbox
+                      checked={selectedWorkflows.length > 0 && selectedWorkflows.length === clients.length}
+                      onCheckedChange={(checked) => handleSelectAll(checked as boolean)}
+                      aria-label="Select all confirmation statements"
+                    />
+                  </TableHead>
+                )}
+                <TableHead className="w-8" />
+                <SortableHeader field="clientCode" className="w-16 text-center">Code</SortableHeader>
+                <SortableHeader field="companyName" className="w-48">Company Name</SortableHeader>
+                <TableHead className="w-24 text-center">Statement Date</TableHead>
+                <SortableHeader field="filingDue" className="w-24 text-center">Filing Due</SortableHeader>
+                <TableHead className="w-24 text-center">Assigned</TableHead>
+                <TableHead className="w-24 text-center">Status</TableHead>
+                <TableHead className="w-24 text-center">Update</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody className="table-compact">
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="text-center py-8">
+                    <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2" />
+                    Loading confirmation statements...
+                  </TableCell>
+                </TableRow>
+              ) : clients.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="text-center py-8">
+                    <div className="space-y-2">
+                      <Building className="h-12 w-12 mx-auto text-muted-foreground" />
+                      <p className="text-muted-foreground">No confirmation statements found</p>
+                      <p className="text-xs text-muted-foreground">
+                        {filter === 'assigned_to_me' ? 'No confirmation statements assigned to you' : 'No Ltd companies have a confirmation statement due'}
+                      </p>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                clients.map((client) => {
+                  const workflow = client.currentConfirmationStatementWorkflow
+                  const due = getDaysUntilDue(workflow)
+                  const isExpanded = expandedRows.has(workflow.id)
+                  const isFiled = CS_COMPLETED_STAGES.includes(workflow.currentStage)
+
+                  return (
+                    <React.Fragment key={workflow.id}>
+                      <TableRow className="hover:bg-muted/50 h-10">
+                        {canBulkEdit && (
+                          <TableCell className="p-2 text-center">
+                            <Checkbox
+                              checked={selectedWorkflows.includes(workflow.id)}
+                              onCheckedChange={(checked) => handleSelectWorkflow(workflow.id, checked as boolean)}
+                              aria-label={`Select ${client.companyName}`}
+                            />
+                          </TableCell>
+                        )}
+                        <TableCell className="p-1 text-center">
+                          <button onClick={() => toggleRow(workflow.id)} title="Show milestones">
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </button>
+                        </TableCell>
+                        <TableCell className="font-mono text-xs p-1 text-center">
+                          {client.clientCode}
+                        </TableCell>
+                        <TableCell className="font-medium p-1">
+                          <button
+                            onClick={() => router.push(`/dashboard/clients/${client.id}`)}
+                            className="max-w-[180px] truncate text-xs hover:text-primary transition-colors cursor-pointer text-left"
+                            title={`View ${client.companyName} details`}
+                          >
+                            {client.companyName}
+                          </button>
+                          {client.companyNumber && (
+                            <div className="text-xs text-muted-foreground">{client.companyNumber}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs p-1 text-center">
+                          {formatDate(workflow.statementDate)}
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          <div className="text-xs">
+                            <div className="font-medium">{formatDate(workflow.filingDueDate)}</div>
+                            <div className={`text-xs ${due.color}`}>{due.label}</div>
+                          </div>
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          {workflow.assignedUser ? (
+                            <div className="flex items-center justify-center gap-1 text-xs">
+                              <User className="h-3 w-3 text-blue-600" />
+                              <span className="text-blue-600 font-medium max-w-[80px] truncate" title={workflow.assignedUser.name}>
+                                {workflow.assignedUser.name}
+                              </span>
+                            </div>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">Unassigned</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          {renderStageBadge(workflow.currentStage)}
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          {isFiled ? (
+                            <div className="flex items-center justify-center gap-2">
+                              <CheckCircle className="h-4 w-4 text-green-600" />
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleUndoFiling(client)}
+                                disabled={undoingWorkflowId === workflow.id}
+                                className="h-6 w-6 p-0 text-orange-600 hover:text-orange-700 hover:bg-orange-50"
+                                title="Undo filing (reopen workflow)"
+                              >
+                                {undoingWorkflowId === workflow.id ? (
+                                  <RefreshCw className="h-3 w-3 animate-spin" />
+                                ) : (
+                                  <Undo2 className="h-3 w-3" />
+                                )}
+                              </Button>
+                            </div>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openUpdateDialog(client)}
+                              className="flex items-center gap-1 h-6 px-2 text-xs mx-auto"
+                            >
+                              <Plus className="h-3 w-3" />
+                              Update
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow className="bg-muted/30">
+                          <TableCell colSpan={columnCount} className="p-0">
+                            {renderTimeline(workflow)}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  )
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Update Dialog */}
+      <Dialog open={!!updateClient} onOpenChange={(open) => !open && setUpdateClient(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Update Confirmation Statement</DialogTitle>
+            <DialogDescription>
+              {updateClient?.companyName} — statement date {formatDate(updateClient?.currentConfirmationStatementWorkflow.statementDate)}, due {formatDate(updateClient?.currentConfirmationStatementWorkflow.filingDueDate)}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Current Stage</Label>
+              <div>{updateClient && renderStageBadge(updateClient.currentConfirmationStatementWorkflow.currentStage)}</div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="cs-stage">New Stage</Label>
+              <Select value={selectedStage} onValueChange={setSelectedStage}>
+                <SelectTrigger id="cs-stage">
+                  <SelectValue placeholder="Keep current stage" />
+                </SelectTrigger>
+                <SelectContent>
+                  {STAGE_OPTIONS
+                    .filter(option => option.value !== updateClient?.currentConfirmationStatementWorkflow.currentStage)
+                    .map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="cs-assignee">Assigned To</Label>
+              <Select value={selectedAssignee} onValueChange={setSelectedAssignee}>
+                <SelectTrigger id="cs-assignee">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unassigned">Unassigned</SelectItem>
+                  {users.map(user => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {user.name} <span className="text-xs text-muted-foreground">({user.role})</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="cs-notes">Comments</Label>
+              <Textarea
+                id="cs-notes"
+                value={updateNotes}
+                onChange={(event) => setUpdateNotes(event.target.value)}
+                placeholder="Optional notes for the history log"
+                rows={3}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setUpdateClient(null)} disabled={updating}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmitUpdate} disabled={updating}>
+              {updating ? 'Updating...' : 'Update'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
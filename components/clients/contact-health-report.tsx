@@ -0,0 +1,188 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { CheckCircle, MailCheck, Pencil, RefreshCw } from 'lucide-react'
+import { showToast } from '@/lib/toast'
+import { EMAIL_SUPPRESSION_REASON_CONFIG, type ContactHealthReportRow } from '@/lib/email-suppression'
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-GB', {
+    timeZone: 'Europe/London',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+
+/**
+ * Contact health report
+ *
+ * Clients whose contact email is on the suppression list. Until the address is fixed, chases and
+ * bulk emails to these clients are skipped.
+ *
+ * Features:
+ * - Why each address is suppressed (bounce, spam complaint, unsubscribe) and the provider's reason
+ * - Links to edit the client's contact details
+ * - Lift a suppression when the client confirms the address works
+ */
+export function ContactHealthReport() {
+  const [rows, setRows] = useState<ContactHealthReportRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [liftingId, setLiftingId] = useState<string | null>(null)
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/clients/contact-health')
+      const data = await response.json()
+
+      if (!response.ok) {
+        showToast.error(data.error || 'Failed to load contact health report')
+        return
+      }
+
+      setRows(data.data.rows)
+    } catch (error) {
+      console.error('Error fetching contact health report:', error)
+      showToast.error('Error loading contact health report')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchReport()
+  }, [fetchReport])
+
+  const handleLift = async (row: ContactHealthReportRow) => {
+    if (!confirm(`Allow emails to ${row.email} again? Only do this if the client has confirmed the address works.`)) return
+
+    try {
+      setLiftingId(row.suppressionId)
+      const response = await fetch(`/api/communication/suppressions/${row.suppressionId}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        showToast.error(data.error || 'Failed to lift suppression')
+        return
+      }
+
+      showToast.success(data.message)
+      await fetchReport()
+    } catch (error) {
+      console.error('Error lifting suppression:', error)
+      showToast.error('Error lifting suppression')
+    } finally {
+      setLiftingId(null)
+    }
+  }
+
+  if (loading && rows.length === 0) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: 4 }).map((_, index) => <Skeleton key={index} className="h-12 w-full" />)}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={fetchReport} variant="outline" size="sm" disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="text-center py-8">
+          <CheckCircle className="h-8 w-8 text-green-600 mx-auto mb-2" />
+          <p className="text-sm text-muted-foreground">Every active client&apos;s contact email is deliverable</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Client</TableHead>
+                <TableHead>Contact email</TableHead>
+                <TableHead className="w-32">Problem</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead className="w-40">Last event</TableHead>
+                <TableHead className="w-32">Assigned to</TableHead>
+                <TableHead className="w-32">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.flatMap(row => row.clients.map((client, index) => {
+                const reasonConfig = EMAIL_SUPPRESSION_REASON_CONFIG[row.reason]
+
+                return (
+                  <TableRow key={`${row.suppressionId}:${client.id}`} className="hover:bg-muted/50">
+                    <TableCell>
+                      <Link href={`/dashboard/clients/${client.id}`} className="font-medium text-sm hover:text-primary">
+                        {client.companyName}
+                      </Link>
+                      <div className="text-xs text-muted-foreground">
+                        {client.clientCode || 'N/A'} • {client.contactName}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm font-mono">{row.email}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={reasonConfig.color} title={reasonConfig.description}>
+                        {reasonConfig.label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-xs line-clamp-2" title={row.detail || undefined}>{row.detail || '-'}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {row.source === 'MANUAL' ? 'Added manually' : `Reported by ${row.source.charAt(0) + row.source.slice(1).toLowerCase()}`}
+                        {row.eventCount > 1 && ` • ${row.eventCount} times`}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">{formatDateTime(row.lastEventAt)}</TableCell>
+                    <TableCell className="text-sm">{client.assignedUser?.name || 'Unassigned'}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        <Button variant="ghost" size="sm" asChild title="Edit contact details">
+                          <Link href={`/dashboard/clients/${client.id}/edit`}>
+                            <Pencil className="h-4 w-4" />
+                          </Link>
+                        </Button>
+                        {/* The suppression is per address, so offer lifting once per address */}
+                        {index === 0 && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleLift(row)}
+                            disabled={liftingId !== null}
+                            title="Address confirmed working - allow emails again"
+                          >
+                            <MailCheck className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )
+              }))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -11,6 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { AlertTriangle, CheckCircle, Clock, FileText, Calendar, Settings } from 'lucide-react'
 import { getCTTrackingSummary, type CTStatus, type CTDueSource } from '@/lib/ct-tracking'
 import { useToast } from '@/hooks/use-toast'
+import { usePermissions } from '@/lib/hooks/usePermissions'
 
 interface CTStatusManagerProps {
   client: {
@@ -25,15 +26,11 @@ interface CTStatusManagerProps {
     lastCTStatusUpdate?: Date | string | null
     ctStatusUpdatedBy?: string | null
   }
-  currentUser: {
-    id: string
-    name: string
-    role: string
-  }
   onUpdate?: () => void
 }
 
-export function CTStatusManager({ client, currentUser, onUpdate }: CTStatusManagerProps) {
+export function CTStatusManager({ client, onUpdate }: CTStatusManagerProps) {
+  const { can } = usePermissions()
   const [isLoading, setIsLoading] = useState(false)
   const [showMarkFiledDialog, setShowMarkFiledDialog] = useState(false)
   const [showManualDialog, setShowManualDialog] = useState(false)
@@ -133,8 +130,8 @@ export function CTStatusManager({ client, currentUser, onUpdate }: CTStatusManag
     }
   }
 
-  // Only show to managers and partners
-  if (currentUser.role !== 'MANAGER' && currentUser.role !== 'PARTNER') {
+  // Only show to users who can edit clients
+  if (!can('clients.edit')) {
     return null
   }
 
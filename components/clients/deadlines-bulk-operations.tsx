@@ -24,9 +24,10 @@ import { Label } from '@/components/ui/label'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Separator } from '@/components/ui/separator'
-import { Users, Mail, UserPlus, AlertTriangle, Loader2, X } from 'lucide-react'
+import { Users, Mail, UserPlus, AlertTriangle, Loader2, X, ArrowRight } from 'lucide-react'
 import { showToast } from '@/lib/toast'
 import { processEmailVariables } from '@/lib/email-variables'
+import { usePermissions } from '@/lib/hooks/usePermissions'
 
 interface User {
   id: string
@@ -47,16 +48,18 @@ interface DeadlinesBulkOperationsProps {
   users: User[]
   onClearSelection: () => void
   onRefreshData: () => void
-  type: 'vat' | 'ltd' | 'non-ltd'  // Specify which type of deadlines table
+  type: 'vat' | 'ltd' | 'non-ltd' | 'confirmation' | 'self-assessment' | 'payroll' | 'cis'  // Specify which type of deadlines table
+  stageOptions?: Array<{ value: string; label: string }>  // Enables bulk stage updates when provided
 }
 
 /**
  * Bulk operations component for deadlines tables (VAT and Ltd)
  * 
  * Features:
- * - Partner and Manager access control
+ * - Shown to users with workflow.bulk_update
  * - Bulk assign users to VAT quarters or Ltd workflows
  * - Bulk email sending with template selection
+ * - Optional bulk stage updates (confirmation statements, self assessment)
  * - Confirmation dialogs for actions
  * - Selection count display
  * - Extensible for future bulk operations
@@ -66,13 +69,17 @@ export function DeadlinesBulkOperations({
   users, 
   onClearSelection, 
   onRefreshData,
-  type 
+  type,
+  stageOptions
 }: DeadlinesBulkOperationsProps) {
   const [selectedUserId, setSelectedUserId] = useState<string>('')
   const [showAssignModal, setShowAssignModal] = useState(false)
+  const [selectedStage, setSelectedStage] = useState<string>('')
+  const [showStageModal, setShowStageModal] = useState(false)
   const [showEmailModal, setShowEmailModal] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const { data: session } = useSession()
+  const { can } = usePermissions()
 
   // Email modal state
   const [emailTemplates, setEmailTemplates] = useState<EmailTemplate[]>([])
@@ -96,13 +103,30 @@ export function DeadlinesBulkOperations({
   }>>([])
   const [loadingClients, setLoadingClients] = useState(false)
 
-  // Only show for partners and managers
-  if ((session?.user?.role !== 'PARTNER' && session?.user?.role !== 'MANAGER') || selectedItems.length === 0) {
+  // Only show to users who can bulk update workflows
+  if (!can('workflow.bulk_update') || selectedItems.length === 0) {
     return null
   }
 
-  const entityName = type === 'vat' ? 'VAT quarter' : type === 'non-ltd' ? 'Non-Ltd workflow' : 'Ltd workflow'
-  const entityNamePlural = type === 'vat' ? 'VAT quarters' : type === 'non-ltd' ? 'Non-Ltd workflows' : 'Ltd workflows'
+  const entityName = type === 'vat' ? 'VAT quarter' : type === 'non-ltd' ? 'Non-Ltd workflow' : type === 'confirmation' ? 'confirmation statement' : type === 'self-assessment' ? 'self assessment return' : type === 'payroll' ? 'payroll run' : type === 'cis' ? 'CIS return' : 'Ltd workflow'
+  const entityNamePlural = type === 'vat' ? 'VAT quarters' : type === 'non-ltd' ? 'Non-Ltd workflows' : type === 'confirmation' ? 'confirmation statements' : type === 'self-assessment' ? 'self assessment returns' : type === 'payroll' ? 'payroll runs' : type === 'cis' ? 'CIS returns' : 'Ltd workflows'
+
+  // VAT, confirmation statement, self assessment, payroll and CIS tables select workflow records; Ltd/Non-Ltd tables select clients
+  const bulkEndpoint = type === 'vat'
+    ? '/api/vat-quarters/bulk'
+    : type === 'non-ltd'
+    ? '/api/clients/non-ltd-deadlines/bulk'
+    : type === 'confirmation'
+    ? '/api/clients/confirmation-statements/bulk'
+    : type === 'self-assessment'
+    ? '/api/clients/self-assessment/bulk'
+    : type === 'payroll'
+    ? '/api/clients/payroll/bulk'
+    : type === 'cis'
+    ? '/api/clients/cis/bulk'
+    : '/api/clients/ltd-deadlines/bulk'
+  const selectionKey = type === 'vat' ? 'quarterIds' : type === 'payroll' ? 'runIds' : type === 'cis' ? 'returnIds' : type === 'confirmation' || type === 'self-assessment' ? 'workflowIds' : 'clientIds'
+  const supportsEmail = type !== 'confirmation' && type !== 'self-assessment' && type !== 'payroll' && type !== 'cis'
 
   const handleBulkAssign = async () => {
     if (!selectedUserId) {
@@ -112,19 +136,13 @@ export function DeadlinesBulkOperations({
 
     setIsLoading(true)
     try {
-      const endpoint = type === 'vat' 
-        ? '/api/vat-quarters/bulk'
-        : type === 'non-ltd'
-        ? '/api/clients/non-ltd-deadlines/bulk'
-        : '/api/clients/ltd-deadlines/bulk'
-
-      const response = await fetch(endpoint, {
+      const response = await fetch(bulkEndpoint, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          [type === 'vat' ? 'quarterIds' : 'clientIds']: selectedItems,
+          [selectionKey]: selectedItems,
           operation: 'assign',
           assignedUserId: selectedUserId
         })
@@ -149,6 +167,44 @@ export function DeadlinesBulkOperations({
     }
   }
 
+  const handleBulkStageUpdate = async () => {
+    if (!selectedStage) {
+      showToast.error('Please select a stage')
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const response = await fetch(bulkEndpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          [selectionKey]: selectedItems,
+          operation: 'stage',
+          stage: selectedStage
+        })
+      })
+
+      const data = await response.json()
+
+      if (response.ok) {
+        showToast.success(data.message || `Updated ${selectedItems.length} ${entityNamePlural}`)
+        onClearSelection()
+        onRefreshData()
+        setSelectedStage('')
+        setShowStageModal(false)
+      } else {
+        showToast.error(data.error || `Failed to update ${entityNamePlural}`)
+      }
+    } catch (error) {
+      showToast.error(`Failed to update ${entityNamePlural}`)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   // Fetch email templates when modal opens
   const fetchEmailTemplates = async () => {
     setLoadingTemplates(true)
@@ -417,17 +473,33 @@ export function DeadlinesBulkOperations({
                 Assign User
               </Button>
 
+              {/* Bulk Stage Button */}
+              {stageOptions && stageOptions.length > 0 && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setShowStageModal(true)}
+                  disabled={isLoading}
+                  className="flex items-center gap-2"
+                >
+                  <ArrowRight className="h-4 w-4" />
+                  Update Stage
+                </Button>
+              )}
+
               {/* Bulk Email Button */}
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={handleEmailModalOpen}
-                disabled={isLoading}
-                className="flex items-center gap-2"
-              >
-                <Mail className="h-4 w-4" />
-                Send Email
-              </Button>
+              {supportsEmail && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={handleEmailModalOpen}
+                  disabled={isLoading}
+                  className="flex items-center gap-2"
+                >
+                  <Mail className="h-4 w-4" />
+                  Send Email
+                </Button>
+              )}
 
               {/* Clear Selection */}
               <Button
@@ -511,6 +583,55 @@ export function DeadlinesBulkOperations({
         </DialogContent>
       </Dialog>
 
+      {/* Bulk Stage Modal */}
+      {stageOptions && (
+        <Dialog open={showStageModal} onOpenChange={setShowStageModal}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <ArrowRight className="h-5 w-5 text-blue-600" />
+                Update {entityNamePlural}
+              </DialogTitle>
+              <DialogDescription>
+                Move all {selectedItems.length} selected {entityNamePlural} to a new stage.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <Label htmlFor="stage-select">Select Stage</Label>
+              <Select value={selectedStage} onValueChange={setSelectedStage}>
+                <SelectTrigger id="stage-select">
+                  <SelectValue placeholder="Choose a stage" />
+                </SelectTrigger>
+                <SelectContent>
+                  {stageOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => setShowStageModal(false)}
+                disabled={isLoading}
+              >
+                Cancel
+              </Button>
+              <Button
+                onClick={handleBulkStageUpdate}
+                disabled={!selectedStage || isLoading}
+              >
+                {isLoading ? 'Updating...' : `Update ${selectedItems.length} ${entityNamePlural}`}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+
       {/* Bulk Email Modal */}
       <Dialog open={showEmailModal} onOpenChange={setShowEmailModal}>
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -0,0 +1,383 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Building2,
+  ChevronDown,
+  ChevronRight,
+  DatabaseZap,
+  RefreshCw,
+  Search,
+  Users,
+} from 'lucide-react'
+import { showToast } from '@/lib/toast'
+import { usePermissions } from '@/lib/hooks/usePermissions'
+import {
+  formatNatureOfControl,
+  formatOfficerName,
+  formatOfficerRole
+} from '@/lib/officers'
+
+interface Appointment {
+  id: string
+  clientId: string
+  officerRole: string
+  appointedOn: string | null
+  resignedOn: string | null
+  isActive: boolean
+  firstSeenAt: string
+  client: {
+    id: string
+    clientCode: string
+    companyName: string
+    companyNumber: string | null
+    companyType: string
+  }
+}
+
+interface Officer {
+  id: string
+  name: string
+  dateOfBirthMonth: number | null
+  dateOfBirthYear: number | null
+  nationality: string | null
+  occupation: string | null
+  countryOfResidence: string | null
+  activeCompanyCount: number
+  appointments: Appointment[]
+  pscRecords: { clientId: string; naturesOfControl: string[] }[]
+}
+
+const formatDate = (dateString: string | null) => {
+  if (!dateString) return '—'
+  return new Date(dateString).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' })
+}
+
+const formatDateOfBirth = (month: number | null, year: number | null) => {
+  if (!year) return null
+  if (!month) return String(year)
+  return new Date(year, month - 1, 1).toLocaleDateString('en-GB', { month: 'short', year: 'numeric' })
+}
+
+/**
+ * Directors across all client companies
+ *
+ * Features:
+ * - One row per person, even when they are a director of several client companies
+ * - Expandable appointment history with appointed and resigned dates per company
+ * - PSC natures of control shown against the company they apply to
+ * - Filters for status, role and multi-company directors
+ * - Rebuild officer records from stored Companies House data (clients.refresh)
+ */
+export function DirectorsTable() {
+  const { can } = usePermissions()
+  const router = useRouter()
+
+  const [officers, setOfficers] = useState<Officer[]>([])
+  const [totalCount, setTotalCount] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState<'active' | 'all'>('active')
+  const [roleFilter, setRoleFilter] = useState<'directors' | 'all'>('directors')
+  const [multipleOnly, setMultipleOnly] = useState(false)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set())
+  const [rebuilding, setRebuilding] = useState(false)
+
+  const canRebuild = can('clients.refresh')
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm), 300)
+    return () => clearTimeout(timeout)
+  }, [searchTerm])
+
+  const fetchOfficers = useCallback(async () => {
+    try {
+      setLoading(true)
+
+      const params = new URLSearchParams({
+        limit: '500',
+        statusFilter,
+        roleFilter,
+        multipleOnly: String(multipleOnly)
+      })
+      if (debouncedSearch) {
+        params.append('searchTerm', debouncedSearch)
+      }
+
+      const response = await fetch(`/api/officers?${params.toString()}`)
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to fetch directors')
+      }
+
+      setOfficers(data.officers || [])
+      setTotalCount(data.pagination?.totalCount || 0)
+    } catch (error) {
+      console.error('Error fetching directors:', error)
+      showToast.error('Failed to fetch directors')
+    } finally {
+      setLoading(false)
+    }
+  }, [statusFilter, roleFilter, multipleOnly, debouncedSearch])
+
+  useEffect(() => {
+    fetchOfficers()
+  }, [fetchOfficers])
+
+  const toggleRow = (officerId: string) => {
+    setExpandedRows(prev => {
+      const next = new Set(prev)
+      if (next.has(officerId)) {
+        next.delete(officerId)
+      } else {
+        next.add(officerId)
+      }
+      return next
+    })
+  }
+
+  const handleRebuild = async () => {
+    setRebuilding(true)
+    try {
+      const response = await fetch('/api/officers/sync', { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to rebuild officer records')
+      }
+
+      showToast.success(data.message || 'Officer records rebuilt')
+      fetchOfficers()
+    } catch (error) {
+      showToast.error(error instanceof Error ? error.message : 'Failed to rebuild officer records')
+    } finally {
+      setRebuilding(false)
+    }
+  }
+
+  const renderAppointments = (officer: Officer) => (
+    <div className="p-3 space-y-2">
+      {officer.appointments.map(appointment => {
+        const psc = officer.pscRecords.find(record => record.clientId === appointment.clientId)
+
+        return (
+          <div key={appointment.id} className="flex flex-wrap items-center justify-between gap-2 p-2 rounded-lg border bg-background text-xs">
+            <div className="flex items-center gap-2 min-w-0">
+              <Building2 className="h-4 w-4 text-muted-foreground shrink-0" />
+              <button
+                onClick={() => router.push(`/dashboard/clients/${appointment.client.id}`)}
+                className="font-medium truncate hover:text-primary transition-colors text-left"
+                title={`View ${appointment.client.companyName} details`}
+              >
+                {appointment.client.companyName}
+              </button>
+              <span className="font-mono text-muted-foreground">{appointment.client.clientCode}</span>
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-muted-foreground">
+              <span>{formatOfficerRole(appointment.officerRole)}</span>
+              <span>Appointed {formatDate(appointment.appointedOn)}</span>
+              {appointment.resignedOn && <span>Resigned {formatDate(appointment.resignedOn)}</span>}
+              <Badge
+                variant="outline"
+                className={`text-xs px-1 py-0 h-5 ${appointment.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'}`}
+              >
+                {appointment.isActive ? 'Active' : 'Resigned'}
+              </Badge>
+            </div>
+            {psc && psc.naturesOfControl.length > 0 && (
+              <div className="w-full text-muted-foreground">
+                PSC: {psc.naturesOfControl.map(nature => formatNatureOfControl(nature)).join(', ')}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="relative w-64">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search director or company..."
+            value={searchTerm}
+            onChange={(event) => setSearchTerm(event.target.value)}
+            className="pl-8 h-9"
+          />
+        </div>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as 'active' | 'all')}>
+          <SelectTrigger className="w-44 h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="active">Current appointments</SelectItem>
+            <SelectItem value="all">Including resigned</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={roleFilter} onValueChange={(value) => setRoleFilter(value as 'directors' | 'all')}>
+          <SelectTrigger className="w-40 h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="directors">Directors</SelectItem>
+            <SelectItem value="all">All officers</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="directors-multiple-only"
+            checked={multipleOnly}
+            onCheckedChange={(checked) => setMultipleOnly(checked === true)}
+          />
+          <Label htmlFor="directors-multiple-only" className="text-sm font-normal">
+            Several client companies only
+          </Label>
+        </div>
+        <div className="ml-auto flex items-center gap-2">
+          {canRebuild && (
+            <Button variant="outline" size="sm" onClick={handleRebuild} disabled={rebuilding} className="flex items-center gap-2">
+              <DatabaseZap className={`h-4 w-4 ${rebuilding ? 'animate-pulse' : ''}`} />
+              Rebuild from Stored Data
+            </Button>
+          )}
+          <Button variant="outline" size="sm" onClick={fetchOfficers} disabled={loading} className="flex items-center gap-2">
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {/* Table */}
+      <Card>
+        <CardContent className="p-0">
+          <Table className="table-fixed w-full">
+            <TableHeader>
+              <TableRow className="border-b">
+                <TableHead className="w-8" />
+                <TableHead className="w-56">Name</TableHead>
+                <TableHead className="w-28 text-center">Date of Birth</TableHead>
+                <TableHead className="w-32">Nationality</TableHead>
+                <TableHead className="w-40">Occupation</TableHead>
+                <TableHead className="w-32 text-center">Companies</TableHead>
+                <TableHead className="w-24 text-center">PSC</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody className="table-compact">
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8">
+                    <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2" />
+                    Loading directors...
+                  </TableCell>
+                </TableRow>
+              ) : officers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8">
+                    <div className="space-y-2">
+                      <Users className="h-12 w-12 mx-auto text-muted-foreground" />
+                      <p className="text-muted-foreground">No directors found</p>
+                      <p className="text-xs text-muted-foreground">
+                        Officers are imported when a client&apos;s Companies House data is refreshed
+                      </p>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                officers.map((officer) => {
+                  const isExpanded = expandedRows.has(officer.id)
+                  const resignedCount = officer.appointments.filter(appointment => !appointment.isActive).length
+
+                  return (
+                    <React.Fragment key={officer.id}>
+                      <TableRow className="hover:bg-muted/50 h-10">
+                        <TableCell className="p-1 text-center">
+                          <button onClick={() => toggleRow(officer.id)} title="Show appointments">
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </button>
+                        </TableCell>
+                        <TableCell className="font-medium p-1 text-xs">
+                          <div className="truncate" title={officer.name}>{formatOfficerName(officer.name)}</div>
+                        </TableCell>
+                        <TableCell className="p-1 text-center text-xs text-muted-foreground">
+                          {formatDateOfBirth(officer.dateOfBirthMonth, officer.dateOfBirthYear) || '—'}
+                        </TableCell>
+                        <TableCell className="p-1 text-xs text-muted-foreground truncate">
+                          {officer.nationality || '—'}
+                        </TableCell>
+                        <TableCell className="p-1 text-xs text-muted-foreground truncate">
+                          {officer.occupation || '—'}
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          <div className="flex items-center justify-center gap-1">
+                            <Badge
+                              variant="outline"
+                              className={`text-xs px-1 py-0 h-5 ${officer.activeCompanyCount > 1 ? 'bg-purple-100 text-purple-800' : ''}`}
+                            >
+                              {officer.activeCompanyCount} active
+                            </Badge>
+                            {resignedCount > 0 && (
+                              <span className="text-xs text-muted-foreground">+{resignedCount} past</span>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          {officer.pscRecords.length > 0 ? (
+                            <Badge variant="outline" className="text-xs px-1 py-0 h-5 bg-blue-100 text-blue-800">
+                              PSC
+                            </Badge>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow className="bg-muted/30">
+                          <TableCell colSpan={7} className="p-0">
+                            {renderAppointments(officer)}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  )
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {!loading && totalCount > officers.length && (
+        <p className="text-xs text-muted-foreground text-center">
+          Showing {officers.length} of {totalCount} - refine the search to narrow the list
+        </p>
+      )}
+    </div>
+  )
+}
@@ -1,20 +1,84 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { 
+import { Skeleton } from '@/components/ui/skeleton'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select'
+import {
   Building,
   Calendar,
   CheckCircle,
-  AlertCircle,
-  Clock,
   Download,
   PoundSterling,
   TrendingUp,
-  Receipt
+  Receipt,
+  ChevronRight,
+  ChevronDown,
+  Calculator,
+  UserCheck,
+  Send,
+  RefreshCw,
+  Undo2
 } from 'lucide-react'
+import { showToast } from '@/lib/toast'
+import {
+  CT_WORKFLOW_STAGE_ORDER,
+  CT_WORKFLOW_STAGES,
+  getCTWorkflowStageLabel,
+  isCTWorkflowStage,
+  type CTWorkflowStage
+} from '@/lib/ct-tracking'
+
+interface CTWorkflow {
+  id: string
+  periodStart: string
+  periodEnd: string
+  paymentDueDate: string
+  filingDueDate: string
+  currentStage: string
+  isCompleted: boolean
+  hmrcSubmissionReference?: string | null
+  assignedUser?: {
+    id: string
+    name: string
+    email: string
+    role: string
+  } | null
+
+  // Milestone dates
+  computationStartedDate?: string
+  computationStartedByUserName?: string
+  partnerReviewDate?: string
+  partnerReviewByUserName?: string
+  sentToClientDate?: string
+  sentToClientByUserName?: string
+  clientApprovedDate?: string
+  clientApprovedByUserName?: string
+  filedToHMRCDate?: string
+  filedToHMRCByUserName?: string
+  clientSelfFilingDate?: string
+  clientSelfFilingByUserName?: string
+
+  workflowHistory?: {
+    id: string
+    fromStage?: string
+    toStage: string
+    stageChangedAt: string
+    daysInPreviousStage?: number
+    userName: string
+    userRole: string
+    notes?: string
+  }[]
+}
 
 interface CTFilingHistoryProps {
   clientId: string
@@ -25,6 +89,15 @@ interface CTFilingHistoryProps {
   corporationTaxDue: string
 }
 
+/**
+ * Corporation tax filing history for a limited company
+ *
+ * Features:
+ * - One CT600 workflow per accounting period with its payment and filing deadlines
+ * - Stage updates and undo for filed periods
+ * - HMRC submission reference capture
+ * - Milestones and workflow history per period
+ */
 export function CTFilingHistory({
   clientId,
   clientCode,
@@ -33,7 +106,97 @@ export function CTFilingHistory({
   yearEndDate,
   corporationTaxDue
 }: CTFilingHistoryProps) {
-  const formatDate = (dateString?: string) => {
+  const [loading, setLoading] = useState(true)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+  const [ctWorkflows, setCTWorkflows] = useState<CTWorkflow[]>([])
+  const [expandedWorkflows, setExpandedWorkflows] = useState<Set<string>>(new Set())
+  const [referenceDrafts, setReferenceDrafts] = useState<Record<string, string>>({})
+  const [summary, setSummary] = useState({
+    totalWorkflows: 0,
+    completedWorkflows: 0,
+    activeWorkflows: 0
+  })
+
+  useEffect(() => {
+    fetchCTFilingHistory()
+  }, [clientId])
+
+  const fetchCTFilingHistory = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/clients/${clientId}/ct-filing-history`)
+      const data = await response.json()
+
+      if (data.success) {
+        setCTWorkflows(data.data.workflows || [])
+        setSummary({
+          totalWorkflows: data.data.totalWorkflows || 0,
+          completedWorkflows: data.data.completedWorkflows || 0,
+          activeWorkflows: data.data.activeWorkflows || 0
+        })
+      } else {
+        showToast.error('Failed to fetch corporation tax history')
+      }
+    } catch (error) {
+      console.error('Error fetching corporation tax history:', error)
+      showToast.error('Failed to fetch corporation tax history')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateWorkflow = async (
+    workflow: CTWorkflow,
+    updates: { currentStage?: CTWorkflowStage; hmrcSubmissionReference?: string | null; notes?: string },
+    successMessage: string
+  ) => {
+    try {
+      setUpdatingId(workflow.id)
+      const response = await fetch(`/api/clients/${clientId}/ct-workflow/${workflow.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates)
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        showToast.error(data.error || 'Failed to update CT600 workflow')
+        return
+      }
+
+      showToast.success(successMessage)
+      await fetchCTFilingHistory()
+    } catch (error) {
+      console.error('Error updating CT600 workflow:', error)
+      showToast.error('Failed to update CT600 workflow')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const handleStageChange = (workflow: CTWorkflow, stage: string) => {
+    if (!isCTWorkflowStage(stage) || stage === workflow.currentStage) return
+    updateWorkflow(workflow, { currentStage: stage }, `Moved to ${getCTWorkflowStageLabel(stage)}`)
+  }
+
+  const handleUndoFiling = (workflow: CTWorkflow) => {
+    updateWorkflow(
+      workflow,
+      { currentStage: 'APPROVED_BY_CLIENT', notes: 'CT600 filing undone' },
+      'CT600 filing undone'
+    )
+  }
+
+  const handleSaveReference = (workflow: CTWorkflow) => {
+    const reference = (referenceDrafts[workflow.id] ?? '').trim()
+    updateWorkflow(
+      workflow,
+      { hmrcSubmissionReference: reference || null },
+      'HMRC reference saved'
+    )
+  }
+
+  const formatDate = (dateString?: string | null) => {
     if (!dateString) return '-'
     try {
       return new Date(dateString).toLocaleDateString('en-GB', {
@@ -46,33 +209,224 @@ export function CTFilingHistory({
     }
   }
 
-  // Calculate CT deadline status
-  const getCTDeadlineStatus = () => {
-    if (!corporationTaxDue) return null
-    
-    const today = new Date()
-    const ctDeadline = new Date(corporationTaxDue)
-    const daysLeft = Math.ceil((ctDeadline.getTime() - today.getTime()) / (1000 * 60 * 60 * 24))
-    
-    return {
-      daysLeft,
-      isOverdue: daysLeft < 0,
-      isDueSoon: daysLeft >= 0 && daysLeft <= 30
+  const formatDateTime = (dateString?: string) => {
+    if (!dateString) return '-'
+    try {
+      return new Date(dateString).toLocaleString('en-GB', {
+        day: '2-digit',
+        month: 'short',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+      })
+    } catch {
+      return '-'
+    }
+  }
+
+  const getDaysLeft = (dateString?: string | null) => {
+    if (!dateString) return null
+    return Math.ceil((new Date(dateString).getTime() - Date.now()) / (1000 * 60 * 60 * 24))
+  }
+
+  const renderDaysLeft = (daysLeft: number | null) => {
+    if (daysLeft === null) return null
+    return (
+      <p className={`text-xs ${
+        daysLeft < 0 ? 'text-red-600' :
+        daysLeft <= 30 ? 'text-amber-600' :
+        'text-green-600'
+      }`}>
+        {daysLeft < 0
+          ? `${Math.abs(daysLeft)} days overdue`
+          : `${daysLeft} days remaining`
+        }
+      </p>
+    )
+  }
+
+  const getStatusBadge = (workflow: CTWorkflow) => {
+    if (workflow.isCompleted) {
+      return <Badge className="bg-green-100 text-green-800">Filed</Badge>
+    }
+
+    const daysLeft = getDaysLeft(workflow.filingDueDate) ?? 0
+    if (daysLeft < 0) {
+      return <Badge className="bg-red-100 text-red-800">Overdue</Badge>
+    }
+    if (daysLeft <= 30) {
+      return <Badge className="bg-amber-100 text-amber-800">Due Soon</Badge>
+    }
+
+    return <Badge className="bg-blue-100 text-blue-800">In Progress</Badge>
+  }
+
+  const getStageBadge = (stage: string) => {
+    const color = isCTWorkflowStage(stage) ? CT_WORKFLOW_STAGES[stage].color : ''
+    return (
+      <Badge variant="outline" className={`text-xs ${color}`}>
+        {getCTWorkflowStageLabel(stage)}
+      </Badge>
+    )
+  }
+
+  const toggleWorkflowExpansion = (workflowId: string) => {
+    const newExpanded = new Set(expandedWorkflows)
+    if (newExpanded.has(workflowId)) {
+      newExpanded.delete(workflowId)
+    } else {
+      newExpanded.add(workflowId)
+    }
+    setExpandedWorkflows(newExpanded)
+  }
+
+  const renderMilestones = (workflow: CTWorkflow) => {
+    const milestones = [
+      {
+        id: 'COMPUTATION_IN_PROGRESS',
+        date: workflow.computationStartedDate,
+        user: workflow.computationStartedByUserName,
+        label: 'Computation Started',
+        icon: <Calculator className="h-3 w-3" />
+      },
+      {
+        id: 'REVIEW_BY_PARTNER',
+        date: workflow.partnerReviewDate,
+        user: workflow.partnerReviewByUserName,
+        label: 'Partner Review',
+        icon: <UserCheck className="h-3 w-3" />
+      },
+      {
+        id: 'SENT_TO_CLIENT',
+        date: workflow.sentToClientDate,
+        user: workflow.sentToClientByUserName,
+        label: 'Sent to Client',
+        icon: <Send className="h-3 w-3" />
+      },
+      {
+        id: 'APPROVED_BY_CLIENT',
+        date: workflow.clientApprovedDate,
+        user: workflow.clientApprovedByUserName,
+        label: 'Client Approved',
+        icon: <CheckCircle className="h-3 w-3" />
+      },
+      {
+        id: 'FILED_TO_HMRC',
+        date: workflow.filedToHMRCDate,
+        user: workflow.filedToHMRCByUserName,
+        label: 'CT600 Filed to HMRC',
+        icon: <Receipt className="h-3 w-3" />
+      },
+      {
+        id: 'CLIENT_SELF_FILING',
+        date: workflow.clientSelfFilingDate,
+        user: workflow.clientSelfFilingByUserName,
+        label: 'Client Self-Filing',
+        icon: <Building className="h-3 w-3" />
+      }
+    ]
+
+    const completedMilestones = milestones.filter(m => m.date)
+
+    if (completedMilestones.length === 0) {
+      return <p className="text-sm text-muted-foreground">No milestones completed yet</p>
     }
+
+    return (
+      <div className="space-y-2">
+        {completedMilestones.map((milestone) => (
+          <div key={milestone.id} className="flex items-center gap-2 text-sm">
+            <div className="flex items-center gap-1 text-muted-foreground">
+              {milestone.icon}
+              <span>{milestone.label}:</span>
+            </div>
+            <span className="font-medium">{formatDate(milestone.date)}</span>
+            {milestone.user && (
+              <span className="text-muted-foreground">by {milestone.user}</span>
+            )}
+          </div>
+        ))}
+      </div>
+    )
   }
 
-  const ctStatus = getCTDeadlineStatus()
+  const renderWorkflowHistory = (workflow: CTWorkflow) => {
+    if (!workflow.workflowHistory || workflow.workflowHistory.length === 0) {
+      return <p className="text-sm text-muted-foreground">No workflow history available</p>
+    }
+
+    return (
+      <div className="space-y-3">
+        {workflow.workflowHistory.map((entry) => (
+          <div key={entry.id} className="flex items-start gap-3 p-3 bg-muted/50 rounded-lg">
+            <div className="flex-shrink-0 w-2 h-2 bg-primary rounded-full mt-2" />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2 mb-1">
+                <span className="text-sm font-medium">
+                  {getCTWorkflowStageLabel(entry.toStage)}
+                </span>
+                {!!entry.daysInPreviousStage && (
+                  <Badge variant="outline" className="text-xs">
+                    {entry.daysInPreviousStage} days
+                  </Badge>
+                )}
+              </div>
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <span>{formatDateTime(entry.stageChangedAt)}</span>
+                <span>•</span>
+                <span>{entry.userName}</span>
+                <span>•</span>
+                <Badge variant="outline" className="text-xs">
+                  {entry.userRole}
+                </Badge>
+              </div>
+              {entry.notes && (
+                <p className="text-sm mt-1 text-muted-foreground">{entry.notes}</p>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  // The open period drives the headline deadlines; fall back to the client record
+  const currentWorkflow = ctWorkflows.find(workflow => !workflow.isCompleted)
+  const periodEnd = currentWorkflow?.periodEnd || yearEndDate
+  const filingDue = currentWorkflow?.filingDueDate || corporationTaxDue
+  const paymentDue = currentWorkflow?.paymentDueDate || (yearEndDate
+    ? (() => {
+        const date = new Date(yearEndDate)
+        date.setMonth(date.getMonth() + 9)
+        date.setDate(date.getDate() + 1)
+        return date.toISOString()
+      })()
+    : undefined)
+
+  if (loading && ctWorkflows.length === 0) {
+    return (
+      <div className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Skeleton className="h-24" />
+          <Skeleton className="h-24" />
+          <Skeleton className="h-24" />
+          <Skeleton className="h-24" />
+        </div>
+        <Skeleton className="h-64" />
+      </div>
+    )
+  }
 
   return (
     <div className="space-y-6">
       {/* Current CT Period Information */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card>
           <CardContent className="p-4">
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm text-muted-foreground">Accounting Period End</p>
-                <p className="text-lg font-bold">{formatDate(yearEndDate)}</p>
+                <p className="text-lg font-bold">{formatDate(periodEnd)}</p>
               </div>
               <Calendar className="h-8 w-8 text-muted-foreground" />
             </div>
@@ -83,19 +437,8 @@ export function CTFilingHistory({
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm text-muted-foreground">CT600 Due Date</p>
-                <p className="text-lg font-bold">{formatDate(corporationTaxDue)}</p>
-                {ctStatus && (
-                  <p className={`text-xs ${
-                    ctStatus.isOverdue ? 'text-red-600' : 
-                    ctStatus.isDueSoon ? 'text-amber-600' : 
-                    'text-green-600'
-                  }`}>
-                    {ctStatus.isOverdue 
-                      ? `${Math.abs(ctStatus.daysLeft)} days overdue`
-                      : `${ctStatus.daysLeft} days remaining`
-                    }
-                  </p>
-                )}
+                <p className="text-lg font-bold">{formatDate(filingDue)}</p>
+                {renderDaysLeft(getDaysLeft(filingDue))}
               </div>
               <Receipt className="h-8 w-8 text-muted-foreground" />
             </div>
@@ -106,18 +449,27 @@ export function CTFilingHistory({
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm text-muted-foreground">Payment Due</p>
-                <p className="text-lg font-bold">
-                  {yearEndDate 
-                    ? formatDate(new Date(new Date(yearEndDate).setMonth(new Date(yearEndDate).getMonth() + 9)).toISOString())
-                    : '-'
-                  }
-                </p>
-                <p className="text-xs text-muted-foreground">9 months after year end</p>
+                <p className="text-lg font-bold">{formatDate(paymentDue)}</p>
+                <p className="text-xs text-muted-foreground">9 months and 1 day after period end</p>
               </div>
               <PoundSterling className="h-8 w-8 text-muted-foreground" />
             </div>
           </CardContent>
         </Card>
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">CT600 Periods</p>
+                <p className="text-lg font-bold">{summary.totalWorkflows}</p>
+                <p className="text-xs text-muted-foreground">
+                  {summary.completedWorkflows} filed
+                </p>
+              </div>
+              <TrendingUp className="h-8 w-8 text-muted-foreground" />
+            </div>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Important CT Information */}
@@ -147,47 +499,176 @@ export function CTFilingHistory({
         </CardContent>
       </Card>
 
-      {/* Placeholder for Historical CT Data */}
+      {/* CT600 Filing History */}
       <Card>
         <CardHeader>
-          <CardTitle className="text-lg flex items-center gap-2">
-            <TrendingUp className="h-5 w-5" />
-            Corporation Tax Filing History
-          </CardTitle>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <TrendingUp className="h-5 w-5" />
+              Corporation Tax Filing History
+            </CardTitle>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={fetchCTFilingHistory}
+              disabled={loading}
+            >
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Refresh
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
-          <div className="text-center py-12">
-            <Building className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
-            <p className="text-lg font-medium mb-2">Corporation Tax Tracking Coming Soon</p>
-            <p className="text-sm text-muted-foreground max-w-md mx-auto">
-              Historical corporation tax filing data will be displayed here once the tracking system is implemented.
-              This will include CT600 submissions, payment records, and HMRC confirmations.
-            </p>
-          </div>
+          {ctWorkflows.length === 0 ? (
+            <div className="text-center py-12">
+              <Building className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+              <p className="text-lg font-medium mb-2">No CT600 Periods</p>
+              <p className="text-sm text-muted-foreground max-w-md mx-auto">
+                No accounting period could be determined for this client yet. Set the year end or
+                corporation tax period to start tracking CT600 filings.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {ctWorkflows.map((workflow) => {
+                const isExpanded = expandedWorkflows.has(workflow.id)
+                const isUpdating = updatingId === workflow.id
+                const referenceDraft = referenceDrafts[workflow.id] ?? workflow.hmrcSubmissionReference ?? ''
 
-          {/* Sample Data Structure Preview */}
-          <div className="mt-8 p-4 bg-muted/50 rounded-lg">
-            <p className="text-sm font-medium mb-2">Expected Features:</p>
-            <ul className="text-sm text-muted-foreground space-y-1">
-              <li>• CT600 filing history and submission dates</li>
-              <li>• Tax computation tracking</li>
-              <li>• Payment records and confirmations</li>
-              <li>• HMRC reference numbers</li>
-              <li>• Loss carry forward/back tracking</li>
-              <li>• R&D claims and other reliefs</li>
-              <li>• Workflow stages (computation, review, filing, payment)</li>
-            </ul>
-          </div>
+                return (
+                  <Card key={workflow.id} className="border-l-4 border-l-primary/20">
+                    <CardContent className="p-4">
+                      <div className="flex items-center justify-between">
+                        <div className="flex-1">
+                          <div className="flex items-center gap-3 mb-2">
+                            <h3 className="font-medium">
+                              Period {formatDate(workflow.periodStart)} – {formatDate(workflow.periodEnd)}
+                            </h3>
+                            {getStatusBadge(workflow)}
+                            {getStageBadge(workflow.currentStage)}
+                          </div>
+
+                          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+                            <div>
+                              <p className="text-muted-foreground">Payment Due</p>
+                              <p className="font-medium">{formatDate(workflow.paymentDueDate)}</p>
+                            </div>
+                            <div>
+                              <p className="text-muted-foreground">CT600 Due</p>
+                              <p className="font-medium">{formatDate(workflow.filingDueDate)}</p>
+                            </div>
+                            <div>
+                              <p className="text-muted-foreground">Assigned To</p>
+                              <p className="font-medium">{workflow.assignedUser?.name || 'Unassigned'}</p>
+                            </div>
+                            <div>
+                              <p className="text-muted-foreground">Filed</p>
+                              <p className="font-medium">
+                                {formatDate(workflow.filedToHMRCDate || workflow.clientSelfFilingDate)}
+                              </p>
+                            </div>
+                            <div>
+                              <p className="text-muted-foreground">HMRC Reference</p>
+                              <p className="font-medium">{workflow.hmrcSubmissionReference || '-'}</p>
+                            </div>
+                          </div>
+
+                          <div className="mt-3 flex flex-wrap items-center gap-2">
+                            {workflow.isCompleted ? (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleUndoFiling(workflow)}
+                                disabled={isUpdating}
+                              >
+                                <Undo2 className="mr-2 h-4 w-4" />
+                                Undo Filing
+                              </Button>
+                            ) : (
+                              <Select
+                                value={workflow.currentStage}
+                                onValueChange={(stage) => handleStageChange(workflow, stage)}
+                                disabled={isUpdating}
+                              >
+                                <SelectTrigger className="w-64 h-8 text-sm">
+                                  <SelectValue placeholder="Update stage" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {CT_WORKFLOW_STAGE_ORDER.map((stage) => (
+                                    <SelectItem key={stage} value={stage}>
+                                      {CT_WORKFLOW_STAGES[stage].label}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            )}
+                          </div>
+                        </div>
+
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => toggleWorkflowExpansion(workflow.id)}
+                          className="ml-4"
+                        >
+                          {isExpanded ? (
+                            <ChevronDown className="h-4 w-4" />
+                          ) : (
+                            <ChevronRight className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </div>
+
+                      {isExpanded && (
+                        <div className="mt-4 pt-4 border-t space-y-4">
+                          <div>
+                            <h4 className="font-medium mb-2">HMRC Submission Reference</h4>
+                            <div className="flex items-center gap-2">
+                              <Input
+                                value={referenceDraft}
+                                onChange={(e) => setReferenceDrafts(prev => ({ ...prev, [workflow.id]: e.target.value }))}
+                                placeholder="e.g. IRmark or submission receipt"
+                                className="max-w-sm h-8 text-sm"
+                                maxLength={100}
+                              />
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleSaveReference(workflow)}
+                                disabled={isUpdating || referenceDraft === (workflow.hmrcSubmissionReference ?? '')}
+                              >
+                                Save
+                              </Button>
+                            </div>
+                          </div>
+
+                          <div>
+                            <h4 className="font-medium mb-2">Milestones</h4>
+                            {renderMilestones(workflow)}
+                          </div>
+
+                          <div>
+                            <h4 className="font-medium mb-2">Workflow History</h4>
+                            {renderWorkflowHistory(workflow)}
+                          </div>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                )
+              })}
+            </div>
+          )}
         </CardContent>
       </Card>
 
       {/* Export Button */}
       <div className="flex justify-end">
-        <Button variant="outline" size="sm" disabled>
+        <Button variant="outline" size="sm" disabled={ctWorkflows.length === 0}>
           <Download className="mr-2 h-4 w-4" />
           Export CT History
         </Button>
       </div>
     </div>
   )
-} 
\ No newline at end of file
+}
@@ -5,6 +5,7 @@ import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import { showToast } from '@/lib/toast'
 import { debounce } from '@/lib/utils'
+import { usePermissions } from '@/lib/hooks/usePermissions'
 import {
   Eye,
   Edit,
@@ -143,6 +144,8 @@ function SortableHeader({ children, sortKey, currentSort, sortOrder, onSort, cla
  */
 export function LegacyClientsTable({ searchQuery, filters }: LegacyClientsTableProps) {
   const { data: session } = useSession()
+  const { can } = usePermissions()
+  const canBulkEdit = can('clients.assign') || can('clients.resign') || can('clients.refresh')
   const router = useRouter()
   const [clients, setClients] = useState<Client[]>([])
   const [users, setUsers] = useState<User[]>([])
@@ -204,10 +207,10 @@ export function LegacyClientsTable({ searchQuery, filters }: LegacyClientsTableP
   }, [searchQuery, filters, sortBy, sortOrder, session?.user?.id])
 
   useEffect(() => {
-    if (session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') {
+    if (canBulkEdit) {
       fetchUsers()
     }
-  }, [session])
+  }, [canBulkEdit])
 
   // Debounced fetch effect - separate from the debounced function to avoid dependency issues
   useEffect(() => {
@@ -357,7 +360,7 @@ export function LegacyClientsTable({ searchQuery, filters }: LegacyClientsTableP
   return (
     <>
       {/* Bulk Operations */}
-      {(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') && (
+      {canBulkEdit && (
         <BulkOperations
           selectedClients={selectedClients}
           onClearSelection={handleClearSelection}
@@ -372,7 +375,7 @@ export function LegacyClientsTable({ searchQuery, filters }: LegacyClientsTableP
           <table className="table-fixed-layout">
             <thead>
               <tr className="table-header-row">
-                {(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') && (
+                {canBulkEdit && (
                   <th className="table-header-cell w-12">
                     <Checkbox
                       checked={isAllSelected}
@@ -416,7 +419,7 @@ export function LegacyClientsTable({ searchQuery, filters }: LegacyClientsTableP
             <tbody>
               {clients.map((client) => (
                 <tr key={client.id} className="table-body-row">
-                  {(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') && (
+                  {canBulkEdit && (
                     <td className="table-body-cell">
                       <Checkbox
                         checked={selectedClients.includes(client.id)}
@@ -543,15 +546,17 @@ export function LegacyClientsTable({ searchQuery, filters }: LegacyClientsTableP
                           <Eye className="h-4 w-4" />
                           View Details
                         </DropdownMenuItem>
-                        {(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') &&
+                        {can('clients.edit') && (
+                          <DropdownMenuItem 
+                            onClick={() => router.push(`/dashboard/clients/${client.id}/edit`)}
+                            className="flex items-center gap-2 cursor-pointer"
+                          >
+                            <Edit className="h-4 w-4" />
+                            Edit Client
+                          </DropdownMenuItem>
+                        )}
+                        {can('clients.refresh') && (
                           <>
-                            <DropdownMenuItem 
-                              onClick={() => router.push(`/dashboard/clients/${client.id}/edit`)}
-                              className="flex items-center gap-2 cursor-pointer"
-                            >
-                              <Edit className="h-4 w-4" />
-                              Edit Client
-                            </DropdownMenuItem>
                             <DropdownMenuSeparator />
                             <DropdownMenuItem 
                               onClick={() => handleRefreshCompaniesHouse(client)}
@@ -561,7 +566,7 @@ export function LegacyClientsTable({ searchQuery, filters }: LegacyClientsTableP
                               Refresh from Companies House
                             </DropdownMenuItem>
                           </>
-                        }
+                        )}
                       </DropdownMenuContent>
                     </DropdownMenu>
                   </td>
@@ -598,15 +603,17 @@ export function LegacyClientsTable({ searchQuery, filters }: LegacyClientsTableP
                         <Eye className="h-4 w-4" />
                         View Details
                       </DropdownMenuItem>
-                      {(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') && (
+                      {can('clients.edit') && (
+                        <DropdownMenuItem 
+                          onClick={() => router.push(`/dashboard/clients/${client.id}/edit`)}
+                          className="flex items-center gap-2 cursor-pointer"
+                        >
+                          <Edit className="h-4 w-4" />
+                          Edit Client
+                        </DropdownMenuItem>
+                      )}
+                      {can('clients.refresh') && (
                         <>
-                          <DropdownMenuItem 
-                            onClick={() => router.push(`/dashboard/clients/${client.id}/edit`)}
-                            className="flex items-center gap-2 cursor-pointer"
-                          >
-                            <Edit className="h-4 w-4" />
-                            Edit Client
-                          </DropdownMenuItem>
                           <DropdownMenuSeparator />
                           <DropdownMenuItem 
                             onClick={() => handleRefreshCompaniesHouse(client)}
@@ -4,6 +4,7 @@ import React, { useState, useEffect, useCallback, useMemo } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { useUsers, type User as UserType } from '@/lib/hooks/useUsers'
+import { usePermissions } from '@/lib/hooks/usePermissions'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
 import { Button } from '@/components/ui/button'
@@ -83,6 +84,8 @@ import { validateStageTransition, getSelectableStages } from '@/lib/workflow-val
 import { SendEmailModal } from './send-email-modal'
 import { DeadlinesBulkOperations } from './deadlines-bulk-operations'
 import { LtdCompaniesHeader } from './ltd-companies-header'
+import { NextChaseIndicator, type NextChaseInfo } from './next-chase-indicator'
+import { WorkflowTimeCard } from './workflow-time-card'
 
 
 interface LtdAccountsWorkflow {
@@ -125,6 +128,8 @@ interface LtdAccountsWorkflow {
   filedToCompaniesHouseByUserName?: string
   filedToHMRCDate?: string
   filedToHMRCByUserName?: string
+  // Next automated chase (only while waiting on paperwork)
+  nextChase?: NextChaseInfo | null
 }
 
 interface LtdClient {
@@ -219,6 +224,8 @@ export function LtdCompaniesDeadlinesTable({
   focusWorkflowId 
 }: LtdCompaniesDeadlinesTableProps = {}) {
   const { data: session } = useSession()
+  const { can } = usePermissions()
+  const canBulkEdit = can('workflow.bulk_update')
   const router = useRouter()
   const searchParams = useSearchParams()
   
@@ -241,7 +248,7 @@ export function LtdCompaniesDeadlinesTable({
   const [loading, setLoading] = useState(true)
   
   // Use centralized user fetching hook
-  const { users, loading: usersLoading, error: usersError } = useUsers()
+  const { users, loading: usersLoading, error: usersError } = useUsers({ scope: 'team' })
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set())
   const [updateModalOpen, setUpdateModalOpen] = useState(false)
   const [selectedClient, setSelectedClient] = useState<LtdClient | null>(null)
@@ -425,9 +432,8 @@ export function LtdCompaniesDeadlinesTable({
       return
     }
 
-    // Only allow managers and partners
-    if (session?.user?.role !== 'MANAGER' && session?.user?.role !== 'PARTNER') {
-      showToast.error('Only managers and partners can refresh Companies House data')
+    if (!can('clients.refresh')) {
+      showToast.error('You do not have permission to refresh Companies House data')
       return
     }
 
@@ -1087,6 +1093,9 @@ export function LtdCompaniesDeadlinesTable({
 
       if (data.success) {
         showToast.success('Workflow updated successfully')
+        if (data.warning) {
+          showToast.warning(data.warning)
+        }
         setUpdateModalOpen(false)
         setSelectedStage(undefined)
         setUpdateComments('')
@@ -1153,6 +1162,9 @@ export function LtdCompaniesDeadlinesTable({
 
       if (data.success) {
         showToast.success('Workflow updated successfully')
+        if (data.warning) {
+          showToast.warning(data.warning)
+        }
         setUpdateModalOpen(false)
         setSelectedStage(undefined)
         setUpdateComments('')
@@ -1358,9 +1370,8 @@ export function LtdCompaniesDeadlinesTable({
       return
     }
 
-    // Only allow managers and partners
-    if (session?.user?.role !== 'MANAGER' && session?.user?.role !== 'PARTNER') {
-      showToast.error('Only managers and partners can refresh Companies House data')
+    if (!can('clients.refresh')) {
+      showToast.error('You do not have permission to refresh Companies House data')
       return
     }
 
@@ -1630,8 +1641,8 @@ export function LtdCompaniesDeadlinesTable({
                   <Table className="table-fixed w-full">
                     <TableHeader>
                       <TableRow className="border-b">
-                        {/* Bulk selection checkbox column - only for managers and partners */}
-                        {(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') && (
+                        {/* Bulk selection checkbox column - only for users who can bulk update */}
+                        {canBulkEdit && (
                           <TableHead className="w-12 p-2 text-center">
                             <Checkbox
                               checked={selectedClients.length > 0 && selectedClients.length === sortedFilteredClients.length}
@@ -1656,14 +1667,14 @@ export function LtdCompaniesDeadlinesTable({
                   <TableBody className="table-compact">
                     {loading ? (
                       <TableRow>
-                        <TableCell colSpan={(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') ? 12 : 11} className="text-center py-8">
+                        <TableCell colSpan={canBulkEdit ? 12 : 11} className="text-center py-8">
                           <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2" />
                           Loading Ltd companies...
                         </TableCell>
                       </TableRow>
                     ) : sortedFilteredClients.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') ? 12 : 11} className="text-center py-8">
+                        <TableCell colSpan={canBulkEdit ? 12 : 11} className="text-center py-8">
                           <div className="space-y-2">
                             <Building className="h-12 w-12 mx-auto text-muted-foreground" />
                             <p className="text-muted-foreground">No Ltd companies found</p>
@@ -1685,8 +1696,8 @@ export function LtdCompaniesDeadlinesTable({
                         <React.Fragment key={client.id}>
                           {/* Main Row */}
                           <TableRow className="hover:bg-muted/50 h-10">
-                            {/* Bulk selection checkbox - only for managers and partners */}
-                            {(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') && (
+                            {/* Bulk selection checkbox - only for users who can bulk update */}
+                            {canBulkEdit && (
                               <TableCell className="p-2 text-center">
                                 <Checkbox
                                   checked={selectedClients.includes(client.id)}
@@ -1780,6 +1791,7 @@ export function LtdCompaniesDeadlinesTable({
                                   </span>
                                 </div>
                               </Badge>
+                              <NextChaseIndicator nextChase={client.currentLtdAccountsWorkflow?.nextChase} />
                             </TableCell>
                             <TableCell className="p-1 text-center">
                               {client.currentLtdAccountsWorkflow?.isCompleted || 
@@ -1909,7 +1921,7 @@ export function LtdCompaniesDeadlinesTable({
                           {/* Expanded Row - Workflow Timeline */}
                           {expandedRows.has(rowKey) && (
                             <TableRow>
-                              <TableCell colSpan={(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') ? 12 : 11} className="p-0">
+                              <TableCell colSpan={canBulkEdit ? 12 : 11} className="p-0">
                                 <div className="bg-muted/20 p-4 border-t">
                                   <h4 className="font-medium mb-3 flex items-center gap-2">
                                     <Briefcase className="h-4 w-4" />
@@ -1999,7 +2011,7 @@ export function LtdCompaniesDeadlinesTable({
 
       {/* Update Modal - Full Workflow Functionality */}
       <Dialog open={updateModalOpen} onOpenChange={setUpdateModalOpen}>
-        <DialogContent className="sm:max-w-md">
+        <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Update Ltd Company Workflow</DialogTitle>
             <DialogDescription>
@@ -2032,6 +2044,11 @@ export function LtdCompaniesDeadlinesTable({
               </div>
             )}
 
+            {/* Time - timer, manual entries and budget against actual */}
+            {selectedClient?.currentLtdAccountsWorkflow && (
+              <WorkflowTimeCard workType="LTD_ACCOUNTS" workflowId={selectedClient.currentLtdAccountsWorkflow.id} />
+            )}
+
             {/* Workflow Stage Selection */}
             <div className="space-y-2">
               <Label htmlFor="stage-select">Update Workflow Stage</Label>
@@ -2047,9 +2064,9 @@ export function LtdCompaniesDeadlinesTable({
                     const isCompletedStage = currentStageIndex !== -1 && stageIndex < currentStageIndex
                     const isCurrentStage = stage.key === selectedClient?.currentLtdAccountsWorkflow?.currentStage
                     
-                    // Role-based restrictions for SUBMISSION_APPROVED_PARTNER
+                    // Only users who can complete partner review may approve the submission
                     const isRestrictedStage = stage.key === 'SUBMISSION_APPROVED_PARTNER'
-                    const canAccessRestrictedStage = session?.user?.role === 'MANAGER' || session?.user?.role === 'PARTNER'
+                    const canAccessRestrictedStage = can('workflow.advance.partner_review')
                     
                     // Skip restricted stages for non-authorized users
                     if (isRestrictedStage && !canAccessRestrictedStage) {
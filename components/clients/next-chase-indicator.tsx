@@ -0,0 +1,55 @@
+'use client'
+
+import { Mail, MessageSquare, AlertTriangle } from 'lucide-react'
+
+export interface NextChaseInfo {
+  stepOrder: number
+  totalSteps: number
+  action: 'EMAIL_CLIENT' | 'SMS_CLIENT' | 'WHATSAPP_CLIENT' | 'ESCALATE_TO_PARTNER'
+  dueDate: string
+  isOverdue: boolean
+}
+
+interface NextChaseIndicatorProps {
+  nextChase?: NextChaseInfo | null
+}
+
+/**
+ * Compact "next chase due" line shown under the workflow status in the deadline tables
+ * Rendered only when an active chase sequence has a step scheduled for the workflow
+ */
+export function NextChaseIndicator({ nextChase }: NextChaseIndicatorProps) {
+  if (!nextChase) return null
+
+  const dueDate = new Date(nextChase.dueDate)
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+  const isDueToday = !nextChase.isOverdue && dueDate <= new Date(today.getTime() + 24 * 60 * 60 * 1000 - 1)
+  const isEscalation = nextChase.action === 'ESCALATE_TO_PARTNER'
+
+  const label = isEscalation ? 'Escalate' : `Chase ${nextChase.stepOrder}/${nextChase.totalSteps}`
+  const dateLabel = isDueToday
+    ? 'today'
+    : dueDate.toLocaleDateString('en-GB', { day: '2-digit', month: 'short' })
+  const color = nextChase.isOverdue
+    ? 'text-red-600'
+    : isDueToday
+      ? 'text-orange-600'
+      : 'text-muted-foreground'
+
+  return (
+    <div
+      className={`flex items-center justify-center gap-1 mt-1 text-[10px] ${color}`}
+      title={`Next automated ${isEscalation ? 'partner escalation' : 'chase'} due ${dueDate.toLocaleDateString('en-GB')}`}
+    >
+      {isEscalation ? (
+        <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+      ) : nextChase.action === 'EMAIL_CLIENT' ? (
+        <Mail className="h-3 w-3 flex-shrink-0" />
+      ) : (
+        <MessageSquare className="h-3 w-3 flex-shrink-0" />
+      )}
+      <span className="truncate">{label} · {dateLabel}</span>
+    </div>
+  )
+}
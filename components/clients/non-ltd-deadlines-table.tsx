@@ -4,6 +4,7 @@ import React, { useState, useEffect, useCallback, useMemo } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { useUsers, type User as UserType } from '@/lib/hooks/useUsers'
+import { usePermissions } from '@/lib/hooks/usePermissions'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
 import { Button } from '@/components/ui/button'
@@ -211,6 +212,8 @@ export function NonLtdDeadlinesTable({
   focusWorkflowId 
 }: NonLtdDeadlinesTableProps = {}) {
   const { data: session } = useSession()
+  const { can } = usePermissions()
+  const canBulkEdit = can('workflow.bulk_update')
   const router = useRouter()
   const searchParams = useSearchParams()
   
@@ -233,7 +236,7 @@ export function NonLtdDeadlinesTable({
   const [loading, setLoading] = useState(true)
   
   // Use centralized user fetching hook
-  const { users, loading: usersLoading, error: usersError } = useUsers()
+  const { users, loading: usersLoading, error: usersError } = useUsers({ scope: 'team' })
   const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set())
   const [updateModalOpen, setUpdateModalOpen] = useState(false)
   const [selectedClient, setSelectedClient] = useState<NonLtdClient | null>(null)
@@ -939,6 +942,9 @@ export function NonLtdDeadlinesTable({
 
       if (data.success) {
         showToast.success('Workflow updated successfully')
+        if (data.warning) {
+          showToast.warning(data.warning)
+        }
         setUpdateModalOpen(false)
         setSelectedStage('')
         setUpdateComments('')
@@ -1010,6 +1016,9 @@ export function NonLtdDeadlinesTable({
 
       if (data.success) {
         showToast.success('Workflow updated successfully')
+        if (data.warning) {
+          showToast.warning(data.warning)
+        }
         setUpdateModalOpen(false)
         setSelectedStage('')
         setUpdateComments('')
@@ -1395,8 +1404,8 @@ export function NonLtdDeadlinesTable({
                   <Table className="table-fixed w-full">
                     <TableHeader>
                       <TableRow className="border-b">
-                        {/* Bulk selection checkbox column - only for managers and partners */}
-                        {(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') && (
+                        {/* Bulk selection checkbox column - only for users who can bulk update */}
+                        {canBulkEdit && (
                           <TableHead className="w-12 p-2 text-center">
                             <Checkbox
                               checked={selectedClients.length > 0 && selectedClients.length === sortedFilteredClients.length}
@@ -1418,14 +1427,14 @@ export function NonLtdDeadlinesTable({
                   <TableBody className="table-compact">
                     {loading ? (
                       <TableRow>
-                        <TableCell colSpan={(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') ? 9 : 8} className="text-center py-8">
+                        <TableCell colSpan={canBulkEdit ? 9 : 8} className="text-center py-8">
                           <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2" />
                           Loading non-Ltd companies...
                         </TableCell>
                       </TableRow>
                     ) : sortedFilteredClients.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') ? 9 : 8} className="text-center py-8">
+                        <TableCell colSpan={canBulkEdit ? 9 : 8} className="text-center py-8">
                           <div className="space-y-2">
                             <Building className="h-12 w-12 mx-auto text-muted-foreground" />
                             <p className="text-muted-foreground">No non-Ltd companies found</p>
@@ -1445,8 +1454,8 @@ export function NonLtdDeadlinesTable({
                         <React.Fragment key={client.id}>
                           {/* Main Row */}
                           <TableRow className="hover:bg-muted/50 h-10">
-                            {/* Bulk selection checkbox - only for managers and partners */}
-                            {(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') && (
+                            {/* Bulk selection checkbox - only for users who can bulk update */}
+                            {canBulkEdit && (
                               <TableCell className="p-2 text-center">
                                 <Checkbox
                                   checked={selectedClients.includes(client.id)}
@@ -1637,7 +1646,7 @@ export function NonLtdDeadlinesTable({
                           {/* Expanded Row - Workflow Timeline */}
                           {expandedRows.has(rowKey) && (
                             <TableRow>
-                              <TableCell colSpan={(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') ? 9 : 8} className="p-0">
+                              <TableCell colSpan={canBulkEdit ? 9 : 8} className="p-0">
                                 <div className="bg-muted/20 p-4 border-t">
                                   <h4 className="font-medium mb-3 flex items-center gap-2">
                                     <Briefcase className="h-4 w-4" />
@@ -1775,9 +1784,9 @@ export function NonLtdDeadlinesTable({
                     const isCompletedStage = currentStageIndex !== -1 && stageIndex < currentStageIndex
                     const isCurrentStage = stage.key === selectedClient?.currentNonLtdAccountsWorkflow?.currentStage
                     
-                    // Role-based restrictions for SUBMISSION_APPROVED_PARTNER
+                    // Only users who can complete partner review may approve the submission
                     const isRestrictedStage = stage.key === 'SUBMISSION_APPROVED_PARTNER'
-                    const canAccessRestrictedStage = session?.user?.role === 'MANAGER' || session?.user?.role === 'PARTNER'
+                    const canAccessRestrictedStage = can('workflow.advance.partner_review')
                     
                     // Skip restricted stages for non-authorized users
                     if (isRestrictedStage && !canAccessRestrictedStage) {
@@ -1,7 +1,6 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { useSession } from 'next-auth/react'
 import { 
   Dialog, 
   DialogContent, 
@@ -25,9 +24,11 @@ import {
   Building
 } from 'lucide-react'
 import { showToast } from '@/lib/toast'
+import { usePermissions } from '@/lib/hooks/usePermissions'
 import { getNextNonLtdStages, getNonLtdStageDisplayName } from '@/lib/non-ltd-workflow-utils'
 import { NonLtdAccountsWorkflowStage } from '@prisma/client'
 import { format } from 'date-fns'
+import { WorkflowTimeCard } from './workflow-time-card'
 
 interface NonLtdWorkflowModalProps {
   workflow: {
@@ -74,7 +75,7 @@ export function NonLtdWorkflowModal({
   onClose,
   onUpdate
 }: NonLtdWorkflowModalProps) {
-  const { data: session } = useSession()
+  const { can } = usePermissions()
   const [loading, setLoading] = useState(false)
   const [selectedStage, setSelectedStage] = useState<NonLtdAccountsWorkflowStage | ''>('')
   const [notes, setNotes] = useState('')
@@ -190,6 +191,9 @@ export function NonLtdWorkflowModal({
             </CardContent>
           </Card>
 
+          {/* Time - timer, manual entries and budget against actual */}
+          <WorkflowTimeCard workType="NON_LTD_ACCOUNTS" workflowId={workflow.id} />
+
           {/* Workflow Status */}
           <Card>
             <CardHeader>
@@ -277,7 +281,7 @@ export function NonLtdWorkflowModal({
           </Card>
 
           {/* Stage Update */}
-          {session?.user.role === 'MANAGER' || session?.user.role === 'PARTNER' ? (
+          {can('workflow.advance.non_ltd') ? (
             <Card>
               <CardHeader>
                 <CardTitle className="text-lg">Update Workflow Stage</CardTitle>
@@ -0,0 +1,112 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { History, Loader2 } from 'lucide-react'
+import {
+  OFFICER_CHANGE_LABELS,
+  describeOfficerChange,
+  isOfficerChangeType
+} from '@/lib/officers'
+
+interface OfficerChange {
+  id: string
+  changeType: string
+  personName: string
+  officerRole: string | null
+  effectiveDate: string | null
+  detectedAt: string
+  client: {
+    id: string
+    clientCode: string
+    companyName: string
+  }
+}
+
+interface OfficerChangesCardProps {
+  days?: number
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' })
+}
+
+/**
+ * Officer and PSC changes picked up by Companies House refreshes
+ *
+ * Features:
+ * - Appointments, resignations and PSC changes across all clients, newest first
+ * - Effective date from Companies House alongside the date we detected it
+ */
+export function OfficerChangesCard({ days = 30 }: OfficerChangesCardProps) {
+  const [changes, setChanges] = useState<OfficerChange[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  const fetchChanges = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/officers/changes?days=${days}`)
+      if (response.ok) {
+        const data = await response.json()
+        setChanges(data.changes || [])
+      }
+    } catch (error) {
+      console.error('Error fetching officer changes:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [days])
+
+  useEffect(() => {
+    fetchChanges()
+  }, [fetchChanges])
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base md:text-lg flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Recent Changes
+        </CardTitle>
+        <CardDescription>Detected on Companies House refreshes in the last {days} days</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No officer or PSC changes detected</p>
+        ) : (
+          <div className="space-y-2">
+            {changes.map(change => {
+              if (!isOfficerChangeType(change.changeType)) return null
+              const config = OFFICER_CHANGE_LABELS[change.changeType]
+
+              return (
+                <div key={change.id} className="flex items-start justify-between gap-3 p-2 rounded-lg border text-xs">
+                  <div className="min-w-0">
+                    <p className="font-medium">
+                      {describeOfficerChange({ ...change, changeType: change.changeType })}
+                    </p>
+                    <p className="text-muted-foreground">
+                      <Link href={`/dashboard/clients/${change.client.id}`} className="hover:text-primary">
+                        {change.client.companyName}
+                      </Link>
+                      {change.effectiveDate && ` · effective ${formatDate(change.effectiveDate)}`}
+                      {` · detected ${formatDate(change.detectedAt)}`}
+                    </p>
+                  </div>
+                  <Badge variant="outline" className={`text-xs shrink-0 ${config.color}`}>
+                    {config.label}
+                  </Badge>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
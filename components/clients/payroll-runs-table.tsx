@@ -0,0 +1,685 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { useUsers } from '@/lib/hooks/useUsers'
+import { usePermissions } from '@/lib/hooks/usePermissions'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  ArrowUpDown,
+  Banknote,
+  CheckCircle,
+  ChevronDown,
+  ChevronRight,
+  Plus,
+  RefreshCw,
+  Search,
+  Undo2,
+  User,
+} from 'lucide-react'
+import { showToast } from '@/lib/toast'
+import { DeadlinesBulkOperations } from './deadlines-bulk-operations'
+import {
+  PAY_FREQUENCIES,
+  PAY_FREQUENCY_LABELS,
+  PAYROLL_MILESTONE_FIELDS,
+  PAYROLL_RUN_STAGE_ORDER,
+  PAYROLL_RUN_STAGES,
+  isPayFrequency,
+  isPayrollRunStage,
+  type PayrollRunStage
+} from '@/lib/payroll-workflow'
+
+interface AssignedUser {
+  id: string
+  name: string
+  email: string
+  role: string
+}
+
+interface PayrollRun {
+  id: string
+  payFrequency: string
+  payDate: string
+  periodStart: string
+  periodEnd: string
+  taxYear: string
+  taxMonth: number
+  fpsDueDate: string
+  epsDueDate: string
+  payeDueDate: string
+  epsRequired: boolean
+  currentStage: string
+  isCompleted: boolean
+  fpsSubmissionReference?: string | null
+  assignedUser?: AssignedUser | null
+  client: {
+    id: string
+    clientCode: string
+    companyName: string
+  }
+  schedule: {
+    id: string
+    payeReference?: string | null
+    employeeCount?: number | null
+  }
+  [milestoneField: string]: unknown
+}
+
+const STAGE_OPTIONS = PAYROLL_RUN_STAGE_ORDER.map(stage => ({
+  value: stage,
+  label: PAYROLL_RUN_STAGES[stage].label
+}))
+
+const formatDate = (date?: string | null) => {
+  if (!date) return '—'
+  return new Date(date).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' })
+}
+
+const getDaysUntilDue = (run: PayrollRun) => {
+  if (run.isCompleted) {
+    return { label: 'Submitted', color: 'text-green-600' }
+  }
+
+  const days = Math.ceil((new Date(run.fpsDueDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24))
+
+  if (days < 0) return { label: `${Math.abs(days)}d overdue`, color: 'text-red-600 font-medium' }
+  if (days === 0) return { label: 'Due today', color: 'text-red-600 font-medium' }
+  if (days <= 3) return { label: `${days}d left`, color: 'text-orange-600' }
+  return { label: `${days}d left`, color: 'text-muted-foreground' }
+}
+
+/**
+ * Payroll (RTI) runs table
+ *
+ * Features:
+ * - One row per generated payroll run, outstanding runs first
+ * - Pay date, FPS due date, EPS (19th) and PAYE payment (22nd) deadlines for the tax month
+ * - Assigned-to-me / all filter, stage and pay frequency filters and search
+ * - Stage, assignment, FPS reference and EPS updates with milestone timeline
+ * - Reopen a submitted run
+ * - Bulk assign and bulk stage updates (workflow.bulk_update)
+ */
+export function PayrollRunsTable() {
+  const { can } = usePermissions()
+  const router = useRouter()
+  const { users } = useUsers({ scope: 'team' })
+
+  const [runs, setRuns] = useState<PayrollRun[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filter, setFilter] = useState<'all' | 'assigned_to_me'>('assigned_to_me')
+  const [stageFilter, setStageFilter] = useState<string>('all')
+  const [frequencyFilter, setFrequencyFilter] = useState<string>('all')
+  const [searchTerm, setSearchTerm] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc')
+  const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set())
+  const [selectedRuns, setSelectedRuns] = useState<string[]>([])
+
+  // Update dialog state
+  const [updateRun, setUpdateRun] = useState<PayrollRun | null>(null)
+  const [selectedStage, setSelectedStage] = useState<string>('')
+  const [selectedAssignee, setSelectedAssignee] = useState<string>('unassigned')
+  const [updateReference, setUpdateReference] = useState('')
+  const [updateEpsRequired, setUpdateEpsRequired] = useState(false)
+  const [updateNotes, setUpdateNotes] = useState('')
+  const [updating, setUpdating] = useState(false)
+  const [reopeningRunId, setReopeningRunId] = useState<string | null>(null)
+
+  const canBulkEdit = can('workflow.bulk_update')
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm), 300)
+    return () => clearTimeout(timeout)
+  }, [searchTerm])
+
+  const fetchRuns = useCallback(async () => {
+    try {
+      setLoading(true)
+
+      const params = new URLSearchParams({
+        limit: '500',
+        assignedFilter: filter,
+        workflowStageFilter: stageFilter,
+        frequencyFilter,
+        sortOrder
+      })
+      if (debouncedSearch) {
+        params.append('searchTerm', debouncedSearch)
+      }
+
+      const response = await fetch(`/api/clients/payroll?${params.toString()}`)
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to fetch payroll runs')
+      }
+
+      setRuns(data.runs || [])
+    } catch (error) {
+      console.error('Error fetching payroll runs:', error)
+      showToast.error('Failed to fetch payroll runs')
+    } finally {
+      setLoading(false)
+    }
+  }, [filter, stageFilter, frequencyFilter, debouncedSearch, sortOrder])
+
+  useEffect(() => {
+    fetchRuns()
+  }, [fetchRuns])
+
+  const toggleRow = (runId: string) => {
+    setExpandedRows(prev => {
+      const next = new Set(prev)
+      if (next.has(runId)) {
+        next.delete(runId)
+      } else {
+        next.add(runId)
+      }
+      return next
+    })
+  }
+
+  const handleSelectRun = (runId: string, checked: boolean) => {
+    setSelectedRuns(prev => checked ? [...prev, runId] : prev.filter(id => id !== runId))
+  }
+
+  const handleSelectAll = (checked: boolean) => {
+    setSelectedRuns(checked ? runs.map(run => run.id) : [])
+  }
+
+  const openUpdateDialog = (run: PayrollRun) => {
+    setUpdateRun(run)
+    setSelectedStage('')
+    setSelectedAssignee(run.assignedUser?.id || 'unassigned')
+    setUpdateReference(run.fpsSubmissionReference || '')
+    setUpdateEpsRequired(run.epsRequired)
+    setUpdateNotes('')
+  }
+
+  const updatePayrollRun = async (runId: string, payload: Record<string, unknown>) => {
+    const response = await fetch(`/api/clients/payroll/${runId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload)
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to update payroll run')
+    }
+
+    return data
+  }
+
+  const handleSubmitUpdate = async () => {
+    if (!updateRun) return
+
+    const assignedUserId = selectedAssignee === 'unassigned' ? null : selectedAssignee
+    const payload: Record<string, unknown> = { notes: updateNotes || undefined }
+
+    if (selectedStage && selectedStage !== updateRun.currentStage) {
+      payload.currentStage = selectedStage
+    }
+    if (assignedUserId !== (updateRun.assignedUser?.id || null)) {
+      payload.assignedUserId = assignedUserId
+    }
+    if (updateReference.trim() !== (updateRun.fpsSubmissionReference || '')) {
+      payload.fpsSubmissionReference = updateReference.trim() || null
+    }
+    if (updateEpsRequired !== updateRun.epsRequired) {
+      payload.epsRequired = updateEpsRequired
+    }
+
+    if (
+      payload.currentStage === undefined &&
+      payload.assignedUserId === undefined &&
+      payload.fpsSubmissionReference === undefined &&
+      payload.epsRequired === undefined
+    ) {
+      showToast.error('No changes to save')
+      return
+    }
+
+    setUpdating(true)
+    try {
+      await updatePayrollRun(updateRun.id, payload)
+      showToast.success('Payroll run updated')
+      setUpdateRun(null)
+      fetchRuns()
+    } catch (error) {
+      showToast.error(error instanceof Error ? error.message : 'Failed to update payroll run')
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  const handleReopen = async (run: PayrollRun) => {
+    setReopeningRunId(run.id)
+    try {
+      await updatePayrollRun(run.id, {
+        currentStage: 'APPROVED_BY_CLIENT',
+        notes: 'Submission undone - payroll run reopened'
+      })
+      showToast.success(`Reopened ${formatDate(run.payDate)} payroll for ${run.client.companyName}`)
+      fetchRuns()
+    } catch (error) {
+      showToast.error(error instanceof Error ? error.message : 'Failed to reopen payroll run')
+    } finally {
+      setReopeningRunId(null)
+    }
+  }
+
+  const renderStageBadge = (stage: string) => {
+    const config = isPayrollRunStage(stage) ? PAYROLL_RUN_STAGES[stage] : null
+    return (
+      <Badge variant="outline" className={`text-xs px-1 py-0 h-5 ${config?.color || ''}`} title={config?.label || stage}>
+        {config?.shortLabel || stage}
+      </Badge>
+    )
+  }
+
+  const renderTimeline = (run: PayrollRun) => (
+    <div className="space-y-2 p-3">
+      <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+        <span>Pay period {formatDate(run.periodStart)} – {formatDate(run.periodEnd)}</span>
+        <span>Tax month {run.taxMonth} of {run.taxYear}</span>
+        {run.schedule.payeReference && <span>PAYE ref {run.schedule.payeReference}</span>}
+        {run.schedule.employeeCount != null && <span>{run.schedule.employeeCount} employees</span>}
+        {run.fpsSubmissionReference && <span>FPS ref {run.fpsSubmissionReference}</span>}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+        {PAYROLL_RUN_STAGE_ORDER.map((stage: PayrollRunStage) => {
+          const milestone = PAYROLL_MILESTONE_FIELDS[stage]
+          if (!milestone || (stage === 'EPS_SUBMITTED' && !run.epsRequired)) return null
+
+          const date = run[milestone.dateField] as string | null | undefined
+          const userName = run[milestone.nameField] as string | null | undefined
+
+          return (
+            <div key={stage} className="text-xs">
+              <div className={`font-medium ${date ? 'text-green-700' : 'text-muted-foreground'}`}>
+                {PAYROLL_RUN_STAGES[stage].shortLabel}
+              </div>
+              <div className="text-muted-foreground">
+                {date ? `${formatDate(date)}${userName ? ` by ${userName}` : ''}` : 'Pending'}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+
+  const columnCount = canBulkEdit ? 10 : 9
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="relative w-64">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search clients or PAYE ref..."
+            value={searchTerm}
+            onChange={(event) => setSearchTerm(event.target.value)}
+            className="pl-8"
+          />
+        </div>
+
+        <Select value={filter} onValueChange={(value) => setFilter(value as 'all' | 'assigned_to_me')}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="assigned_to_me">Assigned to me</SelectItem>
+            <SelectItem value="all">All runs</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-2">
+          <Label htmlFor="payroll-stage-filter" className="text-sm font-medium whitespace-nowrap">
+            Filter by Stage:
+          </Label>
+          <Select value={stageFilter} onValueChange={setStageFilter}>
+            <SelectTrigger id="payroll-stage-filter" className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Stages</SelectItem>
+              <SelectItem value="not_started">Not Started</SelectItem>
+              {STAGE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+              <SelectItem value="completed">Completed</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Select value={frequencyFilter} onValueChange={setFrequencyFilter}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All frequencies</SelectItem>
+            {PAY_FREQUENCIES.map(frequency => (
+              <SelectItem key={frequency} value={frequency}>{PAY_FREQUENCY_LABELS[frequency]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Button variant="outline" size="sm" onClick={fetchRuns} disabled={loading} className="ml-auto flex items-center gap-2">
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Bulk Operations */}
+      <DeadlinesBulkOperations
+        selectedItems={selectedRuns}
+        users={users}
+        onClearSelection={() => setSelectedRuns([])}
+        onRefreshData={fetchRuns}
+        type="payroll"
+        stageOptions={STAGE_OPTIONS}
+      />
+
+      {/* Table */}
+      <Card>
+        <CardContent className="p-0">
+          <Table className="table-fixed w-full">
+            <TableHeader>
+              <TableRow className="border-b">
+                {canBulkEdit && (
+                  <TableHead className="w-12 p-2 text-center">
+                    <Checkbox
+                      checked={selectedRuns.length > 0 && selectedRuns.length === runs.length}
+                      onCheckedChange={(checked) => handleSelectAll(checked as boolean)}
+                      aria-label="Select all payroll runs"
+                    />
+                  </TableHead>
+                )}
+                <TableHead className="w-8" />
+                <TableHead className="w-16 text-center">Code</TableHead>
+                <TableHead className="w-48">Client Name</TableHead>
+                <TableHead className="w-24 text-center">
+                  <button
+                    onClick={() => setSortOrder(prev => prev === 'asc' ? 'desc' : 'asc')}
+                    className="flex items-center gap-1 mx-auto hover:text-foreground"
+                  >
+                    Pay Date
+                    <ArrowUpDown className="h-3 w-3" />
+                  </button>
+                </TableHead>
+                <TableHead className="w-24 text-center">FPS Due</TableHead>
+                <TableHead className="w-28 text-center">EPS / PAYE Due</TableHead>
+                <TableHead className="w-24 text-center">Assigned</TableHead>
+                <TableHead className="w-24 text-center">Status</TableHead>
+                <TableHead className="w-24 text-center">Update</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody className="table-compact">
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="text-center py-8">
+                    <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2" />
+                    Loading payroll runs...
+                  </TableCell>
+                </TableRow>
+              ) : runs.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="text-center py-8">
+                    <div className="space-y-2">
+                      <Banknote className="h-12 w-12 mx-auto text-muted-foreground" />
+                      <p className="text-muted-foreground">No payroll runs found</p>
+                      <p className="text-xs text-muted-foreground">
+                        {filter === 'assigned_to_me' ? 'No payroll runs assigned to you' : 'Set up a payroll schedule on a payroll client to generate runs'}
+                      </p>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                runs.map((run) => {
+                  const due = getDaysUntilDue(run)
+                  const isExpanded = expandedRows.has(run.id)
+
+                  return (
+                    <React.Fragment key={run.id}>
+                      <TableRow className="hover:bg-muted/50 h-10">
+                        {canBulkEdit && (
+                          <TableCell className="p-2 text-center">
+                            <Checkbox
+                              checked={selectedRuns.includes(run.id)}
+                              onCheckedChange={(checked) => handleSelectRun(run.id, checked as boolean)}
+                              aria-label={`Select ${run.client.companyName} ${formatDate(run.payDate)}`}
+                            />
+                          </TableCell>
+                        )}
+                        <TableCell className="p-1 text-center">
+                          <button onClick={() => toggleRow(run.id)} title="Show milestones">
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </button>
+                        </TableCell>
+                        <TableCell className="font-mono text-xs p-1 text-center">
+                          {run.client.clientCode}
+                        </TableCell>
+                        <TableCell className="font-medium p-1">
+                          <button
+                            onClick={() => router.push(`/dashboard/clients/${run.client.id}`)}
+                            className="max-w-[180px] truncate text-xs hover:text-primary transition-colors cursor-pointer text-left"
+                            title={`View ${run.client.companyName} details`}
+                          >
+                            {run.client.companyName}
+                          </button>
+                          {run.schedule.payeReference && (
+                            <div className="text-xs text-muted-foreground">PAYE {run.schedule.payeReference}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          <div className="text-xs">
+                            <div className="font-medium">{formatDate(run.payDate)}</div>
+                            <div className="text-muted-foreground">
+                              {isPayFrequency(run.payFrequency) ? PAY_FREQUENCY_LABELS[run.payFrequency] : run.payFrequency}
+                            </div>
+                          </div>
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          <div className="text-xs">
+                            <div className="font-medium">{formatDate(run.fpsDueDate)}</div>
+                            <div className={`text-xs ${due.color}`}>{due.label}</div>
+                          </div>
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          <div className="text-xs text-muted-foreground">
+                            <div>{run.epsRequired ? `EPS ${formatDate(run.epsDueDate)}` : 'No EPS'}</div>
+                            <div>PAYE {formatDate(run.payeDueDate)}</div>
+                          </div>
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          {run.assignedUser ? (
+                            <div className="flex items-center justify-center gap-1 text-xs">
+                              <User className="h-3 w-3 text-blue-600" />
+                              <span className="text-blue-600 font-medium max-w-[80px] truncate" title={run.assignedUser.name}>
+                                {run.assignedUser.name}
+                              </span>
+                            </div>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">Unassigned</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          {renderStageBadge(run.currentStage)}
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          {run.isCompleted ? (
+                            <div className="flex items-center justify-center gap-2">
+                              <CheckCircle className="h-4 w-4 text-green-600" />
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleReopen(run)}
+                                disabled={reopeningRunId === run.id}
+                                className="h-6 w-6 p-0 text-orange-600 hover:text-orange-700 hover:bg-orange-50"
+                                title="Undo submission (reopen run)"
+                              >
+                                {reopeningRunId === run.id ? (
+                                  <RefreshCw className="h-3 w-3 animate-spin" />
+                                ) : (
+                                  <Undo2 className="h-3 w-3" />
+                                )}
+                              </Button>
+                            </div>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openUpdateDialog(run)}
+                              className="flex items-center gap-1 h-6 px-2 text-xs mx-auto"
+                            >
+                              <Plus className="h-3 w-3" />
+                              Update
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow className="bg-muted/30">
+                          <TableCell colSpan={columnCount} className="p-0">
+                            {renderTimeline(run)}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  )
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Update Dialog */}
+      <Dialog open={!!updateRun} onOpenChange={(open) => !open && setUpdateRun(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Update Payroll Run</DialogTitle>
+            <DialogDescription>
+              {updateRun?.client.companyName} — paid {formatDate(updateRun?.payDate)}, FPS due {formatDate(updateRun?.fpsDueDate)}, PAYE payment due {formatDate(updateRun?.payeDueDate)}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Current Stage</Label>
+              <div>{updateRun && renderStageBadge(updateRun.currentStage)}</div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="payroll-stage">New Stage</Label>
+              <Select value={selectedStage} onValueChange={setSelectedStage}>
+                <SelectTrigger id="payroll-stage">
+                  <SelectValue placeholder="Keep current stage" />
+                </SelectTrigger>
+                <SelectContent>
+                  {STAGE_OPTIONS
+                    .filter(option => option.value !== updateRun?.currentStage)
+                    .map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="payroll-assignee">Assigned To</Label>
+              <Select value={selectedAssignee} onValueChange={setSelectedAssignee}>
+                <SelectTrigger id="payroll-assignee">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unassigned">Unassigned</SelectItem>
+                  {users.map(user => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {user.name} <span className="text-xs text-muted-foreground">({user.role})</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="payroll-reference">FPS Submission Reference</Label>
+              <Input
+                id="payroll-reference"
+                value={updateReference}
+                onChange={(event) => setUpdateReference(event.target.value)}
+                placeholder="Optional HMRC correlation ID"
+                maxLength={100}
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="payroll-eps-required"
+                checked={updateEpsRequired}
+                onCheckedChange={(checked) => setUpdateEpsRequired(checked === true)}
+              />
+              <Label htmlFor="payroll-eps-required" className="text-sm font-normal">
+                EPS required for this tax month (due {formatDate(updateRun?.epsDueDate)})
+              </Label>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="payroll-notes">Comments</Label>
+              <Textarea
+                id="payroll-notes"
+                value={updateNotes}
+                onChange={(event) => setUpdateNotes(event.target.value)}
+                placeholder="Optional notes for the history log"
+                rows={3}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setUpdateRun(null)} disabled={updating}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmitUpdate} disabled={updating}>
+              {updating ? 'Updating...' : 'Update'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,325 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { showToast } from '@/lib/toast'
+import { useUsers } from '@/lib/hooks/useUsers'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Banknote, Loader2, Pencil } from 'lucide-react'
+import {
+  PAY_FREQUENCIES,
+  PAY_FREQUENCY_LABELS,
+  PAYROLL_RUN_STAGES,
+  isPayFrequency,
+  isPayrollRunStage
+} from '@/lib/payroll-workflow'
+
+interface PayrollScheduleCardProps {
+  clientId: string
+}
+
+interface PayrollRunSummary {
+  id: string
+  payDate: string
+  fpsDueDate: string
+  payeDueDate: string
+  currentStage: string
+  isCompleted: boolean
+  assignedUser: { id: string; name: string } | null
+}
+
+interface PayrollSchedule {
+  id: string
+  payFrequency: string
+  firstPayDate: string
+  payeReference: string | null
+  accountsOfficeReference: string | null
+  employeeCount: number | null
+  epsRequired: boolean
+  isActive: boolean
+  assignedUser: { id: string; name: string } | null
+  payrollRuns: PayrollRunSummary[]
+}
+
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' })
+}
+
+/**
+ * Payroll schedule card for the client detail view (payroll clients only)
+ *
+ * Features:
+ * - Set up or edit the pay frequency, first pay date, PAYE references and EPS requirement
+ * - Default assignee for generated runs
+ * - Recent and upcoming runs with FPS and PAYE payment due dates
+ */
+export function PayrollScheduleCard({ clientId }: PayrollScheduleCardProps) {
+  const { users } = useUsers({ scope: 'team' })
+  const [schedule, setSchedule] = useState<PayrollSchedule | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isEditing, setIsEditing] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Form state
+  const [payFrequency, setPayFrequency] = useState<string>('MONTHLY')
+  const [firstPayDate, setFirstPayDate] = useState('')
+  const [payeReference, setPayeReference] = useState('')
+  const [accountsOfficeReference, setAccountsOfficeReference] = useState('')
+  const [employeeCount, setEmployeeCount] = useState('')
+  const [epsRequired, setEpsRequired] = useState(false)
+  const [isActive, setIsActive] = useState(true)
+  const [assignedUserId, setAssignedUserId] = useState('unassigned')
+
+  const fetchSchedule = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/clients/${clientId}/payroll-schedule`)
+      if (response.ok) {
+        const data = await response.json()
+        setSchedule(data.data.schedule)
+      }
+    } catch (error) {
+      console.error('Error fetching payroll schedule:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [clientId])
+
+  useEffect(() => {
+    fetchSchedule()
+  }, [fetchSchedule])
+
+  const startEditing = () => {
+    setPayFrequency(schedule?.payFrequency || 'MONTHLY')
+    setFirstPayDate(schedule ? schedule.firstPayDate.slice(0, 10) : '')
+    setPayeReference(schedule?.payeReference || '')
+    setAccountsOfficeReference(schedule?.accountsOfficeReference || '')
+    setEmployeeCount(schedule?.employeeCount != null ? String(schedule.employeeCount) : '')
+    setEpsRequired(schedule?.epsRequired || false)
+    setIsActive(schedule?.isActive ?? true)
+    setAssignedUserId(schedule?.assignedUser?.id || 'unassigned')
+    setIsEditing(true)
+  }
+
+  const handleSave = async () => {
+    if (!firstPayDate) {
+      showToast.error('Please enter the first pay date')
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await fetch(`/api/clients/${clientId}/payroll-schedule`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          payFrequency,
+          firstPayDate,
+          payeReference: payeReference.trim() || null,
+          accountsOfficeReference: accountsOfficeReference.trim() || null,
+          employeeCount: employeeCount ? parseInt(employeeCount) : null,
+          epsRequired,
+          isActive,
+          assignedUserId: assignedUserId === 'unassigned' ? null : assignedUserId
+        })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        showToast.error(data.error || 'Failed to save payroll schedule')
+        return
+      }
+
+      showToast.success(data.message || 'Payroll schedule saved')
+      setIsEditing(false)
+      fetchSchedule()
+    } catch (error) {
+      console.error('Error saving payroll schedule:', error)
+      showToast.error('Failed to save payroll schedule')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const renderForm = () => (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="payroll-frequency" className="text-xs">Pay Frequency</Label>
+          <Select value={payFrequency} onValueChange={setPayFrequency}>
+            <SelectTrigger id="payroll-frequency" className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAY_FREQUENCIES.map(frequency => (
+                <SelectItem key={frequency} value={frequency}>{PAY_FREQUENCY_LABELS[frequency]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="payroll-first-pay-date" className="text-xs">First Pay Date</Label>
+          <Input
+            id="payroll-first-pay-date"
+            type="date"
+            value={firstPayDate}
+            onChange={(event) => setFirstPayDate(event.target.value)}
+            className="h-8"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="payroll-paye-ref" className="text-xs">PAYE Reference</Label>
+          <Input
+            id="payroll-paye-ref"
+            value={payeReference}
+            onChange={(event) => setPayeReference(event.target.value)}
+            placeholder="123/AB45678"
+            maxLength={20}
+            className="h-8"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="payroll-aor" className="text-xs">Accounts Office Reference</Label>
+          <Input
+            id="payroll-aor"
+            value={accountsOfficeReference}
+            onChange={(event) => setAccountsOfficeReference(event.target.value)}
+            placeholder="123PA00045678"
+            maxLength={20}
+            className="h-8"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="payroll-employees" className="text-xs">Employees</Label>
+          <Input
+            id="payroll-employees"
+            type="number"
+            min={0}
+            value={employeeCount}
+            onChange={(event) => setEmployeeCount(event.target.value)}
+            className="h-8"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="payroll-assignee" className="text-xs">Default Assignee</Label>
+          <Select value={assignedUserId} onValueChange={setAssignedUserId}>
+            <SelectTrigger id="payroll-assignee" className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="unassigned">Client assignee</SelectItem>
+              {users.map(user => (
+                <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox id="payroll-eps" checked={epsRequired} onCheckedChange={(checked) => setEpsRequired(checked === true)} />
+        <Label htmlFor="payroll-eps" className="text-sm font-normal">EPS required each month</Label>
+      </div>
+      <div className="flex items-center gap-2">
+        <Checkbox id="payroll-active" checked={isActive} onCheckedChange={(checked) => setIsActive(checked === true)} />
+        <Label htmlFor="payroll-active" className="text-sm font-normal">Generate payroll runs</Label>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={() => setIsEditing(false)} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Save Schedule
+        </Button>
+      </div>
+    </div>
+  )
+
+  return (
+    <Card className="shadow-professional">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-base md:text-lg flex items-center gap-2">
+              <Banknote className="h-5 w-5" />
+              Payroll
+            </CardTitle>
+            <CardDescription>Pay schedule and RTI submissions</CardDescription>
+          </div>
+          {schedule && !isEditing && (
+            <Button variant="outline" size="sm" onClick={startEditing}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : isEditing ? (
+          renderForm()
+        ) : !schedule ? (
+          <div className="text-center py-4 space-y-3">
+            <p className="text-sm text-muted-foreground">No payroll schedule set up yet</p>
+            <Button size="sm" onClick={startEditing}>Set Up Payroll Schedule</Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <p className="text-xs text-muted-foreground">Frequency</p>
+                <p className="font-medium">
+                  {isPayFrequency(schedule.payFrequency) ? PAY_FREQUENCY_LABELS[schedule.payFrequency] : schedule.payFrequency}
+                  {!schedule.isActive && <Badge variant="outline" className="ml-2 text-xs">Paused</Badge>}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">PAYE Reference</p>
+                <p className="font-medium">{schedule.payeReference || '—'}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Employees</p>
+                <p className="font-medium">{schedule.employeeCount ?? '—'}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Default Assignee</p>
+                <p className="font-medium">{schedule.assignedUser?.name || 'Client assignee'}</p>
+              </div>
+            </div>
+
+            {schedule.payrollRuns.length > 0 && (
+              <div className="space-y-2">
+                {schedule.payrollRuns.map(run => {
+                  const stage = isPayrollRunStage(run.currentStage) ? PAYROLL_RUN_STAGES[run.currentStage] : null
+                  return (
+                    <div key={run.id} className="flex items-center justify-between p-2 rounded-lg border text-xs">
+                      <div>
+                        <p className="font-medium">Paid {formatDate(run.payDate)}</p>
+                        <p className="text-muted-foreground">
+                          FPS {formatDate(run.fpsDueDate)} · PAYE {formatDate(run.payeDueDate)}
+                          {run.assignedUser && ` · ${run.assignedUser.name}`}
+                        </p>
+                      </div>
+                      <Badge variant="outline" className={`text-xs ${stage?.color || ''}`}>
+                        {stage?.shortLabel || run.currentStage}
+                      </Badge>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
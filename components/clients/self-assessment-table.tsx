@@ -0,0 +1,672 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { useUsers } from '@/lib/hooks/useUsers'
+import { usePermissions } from '@/lib/hooks/usePermissions'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  ArrowUpDown,
+  CheckCircle,
+  ChevronDown,
+  ChevronRight,
+  Plus,
+  RefreshCw,
+  Search,
+  Undo2,
+  User,
+} from 'lucide-react'
+import { showToast } from '@/lib/toast'
+import { DeadlinesBulkOperations } from './deadlines-bulk-operations'
+import {
+  SA_COMPLETED_STAGES,
+  SA_MILESTONE_FIELDS,
+  SA_WORKFLOW_STAGE_ORDER,
+  SA_WORKFLOW_STAGES,
+  isSelfAssessmentStage,
+  type SelfAssessmentStage
+} from '@/lib/self-assessment-workflow'
+
+interface AssignedUser {
+  id: string
+  name: string
+  email: string
+  role: string
+}
+
+interface SelfAssessmentWorkflow {
+  id: string
+  taxYear: string
+  taxYearEnd: string
+  paperFilingDueDate: string
+  onlineFilingDueDate: string
+  firstPaymentOnAccountDueDate: string
+  secondPaymentOnAccountDueDate: string
+  paymentsOnAccountRequired: boolean
+  currentStage: string
+  isCompleted: boolean
+  hmrcSubmissionReference?: string | null
+  assignedUser?: AssignedUser | null
+  [milestoneField: string]: unknown
+}
+
+interface SelfAssessmentClient {
+  id: string
+  clientCode: string
+  companyName: string
+  companyType: string
+  utrNumber?: string | null
+  nonLtdCompanyAssignedUser?: AssignedUser | null
+  currentSelfAssessmentWorkflow: SelfAssessmentWorkflow
+}
+
+const STAGE_OPTIONS = SA_WORKFLOW_STAGE_ORDER.map(stage => ({
+  value: stage,
+  label: SA_WORKFLOW_STAGES[stage].label
+}))
+
+const formatDate = (date?: string | null) => {
+  if (!date) return '—'
+  return new Date(date).toLocaleDateString('en-GB', { day: '2-digit', month: 'short', year: 'numeric' })
+}
+
+const getDaysUntilDue = (workflow: SelfAssessmentWorkflow) => {
+  if (workflow.isCompleted) {
+    return { label: 'Filed', color: 'text-green-600' }
+  }
+
+  const days = Math.ceil((new Date(workflow.onlineFilingDueDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24))
+
+  if (days < 0) return { label: `${Math.abs(days)}d overdue`, color: 'text-red-600 font-medium' }
+  if (days === 0) return { label: 'Due today', color: 'text-red-600 font-medium' }
+  if (days <= 30) return { label: `${days}d left`, color: 'text-orange-600' }
+  return { label: `${days}d left`, color: 'text-muted-foreground' }
+}
+
+/**
+ * Self assessment (SA100) deadlines table
+ *
+ * Features:
+ * - One row per individual / sole trader client showing its outstanding tax year
+ * - Online (31 Jan) and paper (31 Oct) deadlines plus payments on account
+ * - Assigned-to-me / all filter, stage filter and search
+ * - Stage, assignment, HMRC reference and payments on account updates with milestone timeline
+ * - Undo filing to reopen a completed return
+ * - Bulk assign and bulk stage updates (workflow.bulk_update)
+ */
+export function SelfAssessmentTable() {
+  const { can } = usePermissions()
+  const router = useRouter()
+  const { users } = useUsers({ scope: 'team' })
+
+  const [clients, setClients] = useState<SelfAssessmentClient[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filter, setFilter] = useState<'all' | 'assigned_to_me'>('assigned_to_me')
+  const [stageFilter, setStageFilter] = useState<string>('all')
+  const [searchTerm, setSearchTerm] = useState('')
+  const [debouncedSearch, setDebouncedSearch] = useState('')
+  const [sortField, setSortField] = useState<'clientCode' | 'companyName'>('clientCode')
+  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('asc')
+  const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set())
+  const [selectedWorkflows, setSelectedWorkflows] = useState<string[]>([])
+
+  // Update dialog state
+  const [updateClient, setUpdateClient] = useState<SelfAssessmentClient | null>(null)
+  const [selectedStage, setSelectedStage] = useState<string>('')
+  const [selectedAssignee, setSelectedAssignee] = useState<string>('unassigned')
+  const [updateReference, setUpdateReference] = useState('')
+  const [updatePaymentsOnAccount, setUpdatePaymentsOnAccount] = useState(false)
+  const [updateNotes, setUpdateNotes] = useState('')
+  const [updating, setUpdating] = useState(false)
+  const [undoingWorkflowId, setUndoingWorkflowId] = useState<string | null>(null)
+
+  const canBulkEdit = can('workflow.bulk_update')
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchTerm), 300)
+    return () => clearTimeout(timeout)
+  }, [searchTerm])
+
+  const fetchClients = useCallback(async () => {
+    try {
+      setLoading(true)
+
+      const params = new URLSearchParams({
+        limit: '500',
+        assignedFilter: filter,
+        workflowStageFilter: stageFilter,
+        sortField,
+        sortOrder
+      })
+      if (debouncedSearch) {
+        params.append('searchTerm', debouncedSearch)
+      }
+
+      const response = await fetch(`/api/clients/self-assessment?${params.toString()}`)
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to fetch self assessment returns')
+      }
+
+      setClients(data.clients || [])
+    } catch (error) {
+      console.error('Error fetching self assessment returns:', error)
+      showToast.error('Failed to fetch self assessment returns')
+    } finally {
+      setLoading(false)
+    }
+  }, [filter, stageFilter, debouncedSearch, sortField, sortOrder])
+
+  useEffect(() => {
+    fetchClients()
+  }, [fetchClients])
+
+  const handleSort = (field: typeof sortField) => {
+    if (sortField === field) {
+      setSortOrder(prev => prev === 'asc' ? 'desc' : 'asc')
+    } else {
+      setSortField(field)
+      setSortOrder('asc')
+    }
+  }
+
+  const toggleRow = (workflowId: string) => {
+    setExpandedRows(prev => {
+      const next = new Set(prev)
+      if (next.has(workflowId)) {
+        next.delete(workflowId)
+      } else {
+        next.add(workflowId)
+      }
+      return next
+    })
+  }
+
+  const handleSelectWorkflow = (workflowId: string, checked: boolean) => {
+    setSelectedWorkflows(prev => checked ? [...prev, workflowId] : prev.filter(id => id !== workflowId))
+  }
+
+  const handleSelectAll = (checked: boolean) => {
+    setSelectedWorkflows(checked ? clients.map(client => client.currentSelfAssessmentWorkflow.id) : [])
+  }
+
+  const openUpdateDialog = (client: SelfAssessmentClient) => {
+    setUpdateClient(client)
+    setSelectedStage('')
+    setSelectedAssignee(client.currentSelfAssessmentWorkflow.assignedUser?.id || 'unassigned')
+    setUpdateReference(client.currentSelfAssessmentWorkflow.hmrcSubmissionReference || '')
+    setUpdatePaymentsOnAccount(client.currentSelfAssessmentWorkflow.paymentsOnAccountRequired)
+    setUpdateNotes('')
+  }
+
+  const updateWorkflow = async (workflowId: string, payload: Record<string, unknown>) => {
+    const response = await fetch(`/api/clients/self-assessment/${workflowId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload)
+    })
+    const data = await response.json()
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to update self assessment return')
+    }
+
+    return data
+  }
+
+  const handleSubmitUpdate = async () => {
+    if (!updateClient) return
+
+    const workflow = updateClient.currentSelfAssessmentWorkflow
+    const assignedUserId = selectedAssignee === 'unassigned' ? null : selectedAssignee
+    const payload: Record<string, unknown> = { notes: updateNotes || undefined }
+
+    if (selectedStage && selectedStage !== workflow.currentStage) {
+      payload.currentStage = selectedStage
+    }
+    if (assignedUserId !== (workflow.assignedUser?.id || null)) {
+      payload.assignedUserId = assignedUserId
+    }
+    if (updateReference.trim() !== (workflow.hmrcSubmissionReference || '')) {
+      payload.hmrcSubmissionReference = updateReference.trim() || null
+    }
+    if (updatePaymentsOnAccount !== workflow.paymentsOnAccountRequired) {
+      payload.paymentsOnAccountRequired = updatePaymentsOnAccount
+    }
+
+    if (
+      payload.currentStage === undefined &&
+      payload.assignedUserId === undefined &&
+      payload.hmrcSubmissionReference === undefined &&
+      payload.paymentsOnAccountRequired === undefined
+    ) {
+      showToast.error('No changes to save')
+      return
+    }
+
+    setUpdating(true)
+    try {
+      await updateWorkflow(workflow.id, payload)
+      showToast.success('Self assessment return updated')
+      setUpdateClient(null)
+      fetchClients()
+    } catch (error) {
+      showToast.error(error instanceof Error ? error.message : 'Failed to update self assessment return')
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  const handleUndoFiling = async (client: SelfAssessmentClient) => {
+    const workflow = client.currentSelfAssessmentWorkflow
+
+    setUndoingWorkflowId(workflow.id)
+    try {
+      await updateWorkflow(workflow.id, {
+        currentStage: 'APPROVED_BY_CLIENT',
+        notes: 'Filing undone - self assessment return reopened'
+      })
+      showToast.success(`Reopened ${workflow.taxYear} self assessment for ${client.companyName}`)
+      fetchClients()
+    } catch (error) {
+      showToast.error(error instanceof Error ? error.message : 'Failed to undo filing')
+    } finally {
+      setUndoingWorkflowId(null)
+    }
+  }
+
+  const renderStageBadge = (stage: string) => {
+    const config = isSelfAssessmentStage(stage) ? SA_WORKFLOW_STAGES[stage] : null
+    return (
+      <Badge variant="outline" className={`text-xs px-1 py-0 h-5 ${config?.color || ''}`} title={config?.label || stage}>
+        {config?.shortLabel || stage}
+      </Badge>
+    )
+  }
+
+  const renderTimeline = (workflow: SelfAssessmentWorkflow) => (
+    <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-3 p-3">
+      {SA_WORKFLOW_STAGE_ORDER.map((stage: SelfAssessmentStage) => {
+        const milestone = SA_MILESTONE_FIELDS[stage]
+        if (!milestone) return null
+
+        const date = workflow[milestone.dateField] as string | null | undefined
+        const userName = workflow[milestone.nameField] as string | null | undefined
+
+        return (
+          <div key={stage} className="text-xs">
+            <div className={`font-medium ${date ? 'text-green-700' : 'text-muted-foreground'}`}>
+              {SA_WORKFLOW_STAGES[stage].shortLabel}
+            </div>
+            <div className="text-muted-foreground">
+              {date ? `${formatDate(date)}${userName ? ` by ${userName}` : ''}` : 'Pending'}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+
+  const columnCount = canBulkEdit ? 10 : 9
+
+  const SortableHeader = ({ field, children, className }: { field: typeof sortField, children: React.ReactNode, className?: string }) => (
+    <TableHead className={className}>
+      <button onClick={() => handleSort(field)} className="flex items-center gap-1 mx-auto hover:text-foreground">
+        {children}
+        <ArrowUpDown className="h-3 w-3" />
+      </button>
+    </TableHead>
+  )
+
+  return (
+    <div className="space-y-4">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="relative w-64">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search clients..."
+            value={searchTerm}
+            onChange={(event) => setSearchTerm(event.target.value)}
+            className="pl-8"
+          />
+        </div>
+
+        <Select value={filter} onValueChange={(value) => setFilter(value as 'all' | 'assigned_to_me')}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="assigned_to_me">Assigned to me</SelectItem>
+            <SelectItem value="all">All clients</SelectItem>
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-2">
+          <Label htmlFor="sa-stage-filter" className="text-sm font-medium whitespace-nowrap">
+            Filter by Stage:
+          </Label>
+          <Select value={stageFilter} onValueChange={setStageFilter}>
+            <SelectTrigger id="sa-stage-filter" className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Stages</SelectItem>
+              <SelectItem value="not_started">Not Started</SelectItem>
+              {STAGE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+              <SelectItem value="completed">Completed</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Button variant="outline" size="sm" onClick={fetchClients} disabled={loading} className="ml-auto flex items-center gap-2">
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {/* Bulk Operations */}
+      <DeadlinesBulkOperations
+        selectedItems={selectedWorkflows}
+        users={users}
+        onClearSelection={() => setSelectedWorkflows([])}
+        onRefreshData={fetchClients}
+        type="self-assessment"
+        stageOptions={STAGE_OPTIONS}
+      />
+
+      {/* Table */}
+      <Card>
+        <CardContent className="p-0">
+          <Table className="table-fixed w-full">
+            <TableHeader>
+              <TableRow className="border-b">
+                {canBulkEdit && (
+                  <TableHead className="w-12 p-2 text-center">
+                    <Checkbox
+                      checked={selectedWorkflows.length > 0 && selectedWorkflows.length === clients.length}
+                      onCheckedChange={(checked) => handleSelectAll(checked as boolean)}
+                      aria-label="Select all self assessment returns"
+                    />
+                  </TableHead>
+                )}
+                <TableHead className="w-8" />
+                <SortableHeader field="clientCode" className="w-16 text-center">Code</SortableHeader>
+                <SortableHeader field="companyName" className="w-48">Client Name</SortableHeader>
+                <TableHead className="w-20 text-center">Tax Year</TableHead>
+                <TableHead className="w-24 text-center">Online Due</TableHead>
+                <TableHead className="w-28 text-center">Payments on Account</TableHead>
+                <TableHead className="w-24 text-center">Assigned</TableHead>
+                <TableHead className="w-24 text-center">Status</TableHead>
+                <TableHead className="w-24 text-center">Update</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody className="table-compact">
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="text-center py-8">
+                    <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2" />
+                    Loading self assessment returns...
+                  </TableCell>
+                </TableRow>
+              ) : clients.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={columnCount} className="text-center py-8">
+                    <div className="space-y-2">
+                      <User className="h-12 w-12 mx-auto text-muted-foreground" />
+                      <p className="text-muted-foreground">No self assessment returns found</p>
+                      <p className="text-xs text-muted-foreground">
+                        {filter === 'assigned_to_me' ? 'No self assessment returns assigned to you' : 'No individual or sole trader clients found'}
+                      </p>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : (
+                clients.map((client) => {
+                  const workflow = client.currentSelfAssessmentWorkflow
+                  const due = getDaysUntilDue(workflow)
+                  const isExpanded = expandedRows.has(workflow.id)
+                  const isFiled = SA_COMPLETED_STAGES.includes(workflow.currentStage)
+
+                  return (
+                    <React.Fragment key={workflow.id}>
+                      <TableRow className="hover:bg-muted/50 h-10">
+                        {canBulkEdit && (
+                          <TableCell className="p-2 text-center">
+                            <Checkbox
+                              checked={selectedWorkflows.includes(workflow.id)}
+                              onCheckedChange={(checked) => handleSelectWorkflow(workflow.id, checked as boolean)}
+                              aria-label={`Select ${client.companyName}`}
+                            />
+                          </TableCell>
+                        )}
+                        <TableCell className="p-1 text-center">
+                          <button onClick={() => toggleRow(workflow.id)} title="Show milestones">
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </button>
+                        </TableCell>
+                        <TableCell className="font-mono text-xs p-1 text-center">
+                          {client.clientCode}
+                        </TableCell>
+                        <TableCell className="font-medium p-1">
+                          <button
+                            onClick={() => router.push(`/dashboard/clients/${client.id}`)}
+                            className="max-w-[180px] truncate text-xs hover:text-primary transition-colors cursor-pointer text-left"
+                            title={`View ${client.companyName} details`}
+                          >
+                            {client.companyName}
+                          </button>
+                          {client.utrNumber && (
+                            <div className="text-xs text-muted-foreground">UTR {client.utrNumber}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs p-1 text-center">
+                          {workflow.taxYear}
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          <div className="text-xs">
+                            <div className="font-medium">{formatDate(workflow.onlineFilingDueDate)}</div>
+                            <div className={`text-xs ${due.color}`}>{due.label}</div>
+                          </div>
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          {workflow.paymentsOnAccountRequired ? (
+                            <div className="text-xs text-muted-foreground">
+                              <div>{formatDate(workflow.firstPaymentOnAccountDueDate)}</div>
+                              <div>{formatDate(workflow.secondPaymentOnAccountDueDate)}</div>
+                            </div>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">Not required</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          {workflow.assignedUser ? (
+                            <div className="flex items-center justify-center gap-1 text-xs">
+                              <User className="h-3 w-3 text-blue-600" />
+                              <span className="text-blue-600 font-medium max-w-[80px] truncate" title={workflow.assignedUser.name}>
+                                {workflow.assignedUser.name}
+                              </span>
+                            </div>
+                          ) : (
+                            <span className="text-xs text-muted-foreground">Unassigned</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          {renderStageBadge(workflow.currentStage)}
+                        </TableCell>
+                        <TableCell className="p-1 text-center">
+                          {isFiled ? (
+                            <div className="flex items-center justify-center gap-2">
+                              <CheckCircle className="h-4 w-4 text-green-600" />
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleUndoFiling(client)}
+                                disabled={undoingWorkflowId === workflow.id}
+                                className="h-6 w-6 p-0 text-orange-600 hover:text-orange-700 hover:bg-orange-50"
+                                title="Undo filing (reopen workflow)"
+                              >
+                                {undoingWorkflowId === workflow.id ? (
+                                  <RefreshCw className="h-3 w-3 animate-spin" />
+                                ) : (
+                                  <Undo2 className="h-3 w-3" />
+                                )}
+                              </Button>
+                            </div>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openUpdateDialog(client)}
+                              className="flex items-center gap-1 h-6 px-2 text-xs mx-auto"
+                            >
+                              <Plus className="h-3 w-3" />
+                              Update
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow className="bg-muted/30">
+                          <TableCell colSpan={columnCount} className="p-0">
+                            {renderTimeline(workflow)}
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
+                  )
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Update Dialog */}
+      <Dialog open={!!updateClient} onOpenChange={(open) => !open && setUpdateClient(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Update Self Assessment</DialogTitle>
+            <DialogDescription>
+              {updateClient?.companyName} — tax year {updateClient?.currentSelfAssessmentWorkflow.taxYear}, online return due {formatDate(updateClient?.currentSelfAssessmentWorkflow.onlineFilingDueDate)} (paper {formatDate(updateClient?.currentSelfAssessmentWorkflow.paperFilingDueDate)})
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Current Stage</Label>
+              <div>{updateClient && renderStageBadge(updateClient.currentSelfAssessmentWorkflow.currentStage)}</div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="sa-stage">New Stage</Label>
+              <Select value={selectedStage} onValueChange={setSelectedStage}>
+                <SelectTrigger id="sa-stage">
+                  <SelectValue placeholder="Keep current stage" />
+                </SelectTrigger>
+                <SelectContent>
+                  {STAGE_OPTIONS
+                    .filter(option => option.value !== updateClient?.currentSelfAssessmentWorkflow.currentStage)
+                    .map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="sa-assignee">Assigned To</Label>
+              <Select value={selectedAssignee} onValueChange={setSelectedAssignee}>
+                <SelectTrigger id="sa-assignee">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unassigned">Unassigned</SelectItem>
+                  {users.map(user => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {user.name} <span className="text-xs text-muted-foreground">({user.role})</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="sa-reference">HMRC Submission Reference</Label>
+              <Input
+                id="sa-reference"
+                value={updateReference}
+                onChange={(event) => setUpdateReference(event.target.value)}
+                placeholder="Optional IRmark or submission receipt"
+                maxLength={100}
+              />
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="sa-payments-on-account"
+                checked={updatePaymentsOnAccount}
+                onCheckedChange={(checked) => setUpdatePaymentsOnAccount(checked === true)}
+              />
+              <Label htmlFor="sa-payments-on-account" className="text-sm font-normal">
+                Payments on account required (31 Jan and 31 Jul)
+              </Label>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="sa-notes">Comments</Label>
+              <Textarea
+                id="sa-notes"
+                value={updateNotes}
+                onChange={(event) => setUpdateNotes(event.target.value)}
+                placeholder="Optional notes for the history log"
+                rows={3}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setUpdateClient(null)} disabled={updating}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmitUpdate} disabled={updating}>
+              {updating ? 'Updating...' : 'Update'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
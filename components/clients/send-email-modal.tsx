@@ -1,14 +1,27 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Label } from '@/components/ui/label'
+import { Input } from '@/components/ui/input'
+import { Switch } from '@/components/ui/switch'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Card, CardContent } from '@/components/ui/card'
-import { Mail, Send, Eye, RefreshCw } from 'lucide-react'
+import { Mail, Send, Eye, RefreshCw, Clock, Users, Paperclip, Download } from 'lucide-react'
 import { useSession } from 'next-auth/react'
 import { processEmailVariables } from '@/lib/email-variables'
+import {
+  CLIENT_CONTACT_ROLE_CONFIG,
+  TEMPLATE_CATEGORY_LABELS,
+  contactReceivesCategory,
+  isTemplateCategory,
+  selectRecipientContacts,
+  type ClientContactSummary
+} from '@/lib/client-contacts'
+import { DOCUMENT_PACK_TYPE_CONFIG, type DocumentPackSummary, type DocumentPackWorkflowType } from '@/lib/document-packs'
 import { toast } from '@/hooks/use-toast'
 
 interface EmailTemplate {
@@ -17,6 +30,7 @@ interface EmailTemplate {
   subject: string
   htmlContent: string
   category: string
+  publishedVersionId?: string | null
 }
 
 interface SendEmailModalProps {
@@ -42,11 +56,31 @@ export function SendEmailModal({
   const [isLoading, setIsLoading] = useState(false)
   const [previewSubject, setPreviewSubject] = useState('')
   const [previewContent, setPreviewContent] = useState('')
+  // Optional London date/time to send at instead of straight away
+  const [scheduleSend, setScheduleSend] = useState(false)
+  const [scheduledDate, setScheduledDate] = useState('')
+  const [scheduledTime, setScheduledTime] = useState('09:00')
   
   // 🔧 FIX: Add state for fresh client data to ensure latest email is used
   const [freshClientData, setFreshClientData] = useState<any>(null)
   const [isFetchingFreshData, setIsFetchingFreshData] = useState(false)
 
+  // Client contacts, and the ones this email goes to - pre-selected from their opt-ins
+  const [contacts, setContacts] = useState<ClientContactSummary[]>([])
+  const [selectedContactIds, setSelectedContactIds] = useState<string[]>([])
+
+  // Approval packs generated for this workflow, attached unless unticked
+  const [documentPacks, setDocumentPacks] = useState<DocumentPackSummary[]>([])
+  const [selectedPackIds, setSelectedPackIds] = useState<string[]>([])
+  const [isGeneratingPack, setIsGeneratingPack] = useState(false)
+
+  // Non-Ltd workflows are opened with workflowType 'ltd' too; only they have a year end date
+  const packWorkflowType: DocumentPackWorkflowType | null = !workflowData?.id
+    ? null
+    : workflowType === 'vat'
+      ? 'VAT'
+      : workflowData.yearEndDate && !workflowData.filingPeriodEnd ? 'NON_LTD' : 'LTD'
+
   // Fetch email templates
   useEffect(() => {
     const fetchTemplates = async () => {
@@ -101,6 +135,91 @@ export function SendEmailModal({
     fetchFreshClientData()
   }, [open, client?.id])
 
+  useEffect(() => {
+    const fetchContacts = async () => {
+      if (!open || !client?.id) return
+
+      try {
+        const response = await fetch(`/api/clients/${client.id}/contacts`)
+        if (response.ok) {
+          const data = await response.json()
+          setContacts(data.data.contacts || [])
+        }
+      } catch (error) {
+        console.warn('Could not fetch client contacts:', error)
+      }
+    }
+
+    fetchContacts()
+  }, [open, client?.id])
+
+  const fetchDocumentPacks = useCallback(async () => {
+    if (!client?.id || !workflowData?.id) return
+
+    try {
+      const response = await fetch(`/api/clients/${client.id}/document-packs?workflowId=${workflowData.id}`)
+      if (response.ok) {
+        const data = await response.json()
+        const packs: DocumentPackSummary[] = data.packs || []
+        setDocumentPacks(packs)
+        setSelectedPackIds(packs.map(pack => pack.id))
+      }
+    } catch (error) {
+      console.warn('Could not fetch document packs:', error)
+    }
+  }, [client?.id, workflowData?.id])
+
+  useEffect(() => {
+    if (open) {
+      fetchDocumentPacks()
+    }
+  }, [open, fetchDocumentPacks])
+
+  const handleGeneratePack = async () => {
+    if (!packWorkflowType) return
+
+    try {
+      setIsGeneratingPack(true)
+      const response = await fetch(`/api/clients/${client.id}/document-packs`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workflowType: packWorkflowType, workflowId: workflowData.id })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to generate document pack')
+      }
+      await fetchDocumentPacks()
+      toast({ title: "Pack generated", description: data.pack.fileName })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to generate document pack",
+        variant: "destructive"
+      })
+    } finally {
+      setIsGeneratingPack(false)
+    }
+  }
+
+  const togglePack = (packId: string, checked: boolean) => {
+    setSelectedPackIds(current => checked
+      ? [...current, packId]
+      : current.filter(id => id !== packId))
+  }
+
+  // Choosing a template selects the contacts opted in to its category
+  useEffect(() => {
+    if (!selectedTemplate) return
+    setSelectedContactIds(selectRecipientContacts(contacts, selectedTemplate.category).map(contact => contact.id))
+  }, [selectedTemplate, contacts])
+
+  const toggleContact = (contactId: string, checked: boolean) => {
+    setSelectedContactIds(current => checked
+      ? [...current, contactId]
+      : current.filter(id => id !== contactId))
+  }
+
   // Handle template selection
   const handleTemplateSelect = (templateId: string) => {
     const template = templates.find(t => t.id === templateId)
@@ -113,6 +232,17 @@ export function SendEmailModal({
   // Use fresh client data if available, otherwise fall back to original
   const activeClient = freshClientData || client
 
+  // Clients without contact records are emailed at their contact email, as before
+  const usesContacts = contacts.length > 0
+  const selectedContacts = contacts.filter(contact => selectedContactIds.includes(contact.id))
+  const recipientSummary = usesContacts
+    ? selectedContacts.map(contact => contact.email).join(', ')
+    : activeClient?.contactEmail
+  const hasRecipients = usesContacts ? selectedContacts.length > 0 : !!activeClient?.contactEmail
+  const categoryLabel = selectedTemplate && isTemplateCategory(selectedTemplate.category)
+    ? TEMPLATE_CATEGORY_LABELS[selectedTemplate.category]
+    : selectedTemplate?.category
+
   const generatePreview = (template: EmailTemplate) => {
     if (!activeClient || !template) return
 
@@ -203,10 +333,19 @@ export function SendEmailModal({
   }
 
   const handleSendEmail = async () => {
-    if (!selectedTemplate || !activeClient?.contactEmail) {
+    if (!selectedTemplate || !hasRecipients) {
+      toast({
+        title: "Error",
+        description: "Please select a template and at least one recipient with an email address",
+        variant: "destructive"
+      })
+      return
+    }
+
+    if (scheduleSend && (!scheduledDate || !scheduledTime)) {
       toast({
         title: "Error",
-        description: "Please select a template and ensure client has an email address",
+        description: "Please choose a date and time to send the email",
         variant: "destructive"
       })
       return
@@ -221,18 +360,24 @@ export function SendEmailModal({
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          to: activeClient.contactEmail,
+          ...(usesContacts ? { contactIds: selectedContactIds } : { to: activeClient.contactEmail }),
           subject: previewSubject,
           htmlContent: previewContent,
           clientId: activeClient.id,
-          templateId: selectedTemplate.id
+          templateId: selectedTemplate.id,
+          templateVersionId: selectedTemplate.publishedVersionId || undefined,
+          scheduledFor: scheduleSend ? { date: scheduledDate, time: scheduledTime } : undefined,
+          attachmentIds: selectedPackIds.length > 0 ? selectedPackIds : undefined
         })
       })
 
       if (response.ok) {
+        const result = await response.json()
         toast({
-          title: "Success",
-          description: `Email sent successfully to ${activeClient.contactEmail}`,
+          title: result.queued ? "Email queued" : "Success",
+          description: result.queued
+            ? `${result.message} (${recipientSummary})`
+            : `Email sent successfully to ${recipientSummary}`,
           variant: "default"
         })
         onOpenChange(false)
@@ -240,6 +385,8 @@ export function SendEmailModal({
         setSelectedTemplate(null)
         setPreviewContent('')
         setPreviewSubject('')
+        setScheduleSend(false)
+        setScheduledDate('')
       } else {
         const error = await response.json()
         throw new Error(error.message || 'Failed to send email')
@@ -265,7 +412,7 @@ export function SendEmailModal({
             Send Email to {activeClient?.companyName}
           </DialogTitle>
           <DialogDescription>
-            Select a template and preview the email before sending to {activeClient?.contactEmail}
+            Select a template, check who it goes to and preview the email before sending
           </DialogDescription>
         </DialogHeader>
 
@@ -291,6 +438,100 @@ export function SendEmailModal({
             </Select>
           </div>
 
+          {/* Recipients */}
+          {selectedTemplate && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Users className="h-4 w-4" />
+                <Label>Recipients</Label>
+              </div>
+              {usesContacts ? (
+                <div className="space-y-2 rounded-md border p-3">
+                  {contacts.map(contact => {
+                    const optedIn = contactReceivesCategory(contact, selectedTemplate.category)
+                    const canEmail = contact.isActive && !!contact.email
+                    return (
+                      <div key={contact.id} className={`flex items-center gap-3 text-sm ${canEmail ? '' : 'opacity-60'}`}>
+                        <Checkbox
+                          id={`recipient-${contact.id}`}
+                          checked={selectedContactIds.includes(contact.id)}
+                          onCheckedChange={(checked) => toggleContact(contact.id, checked === true)}
+                          disabled={!canEmail || isLoading}
+                        />
+                        <Label htmlFor={`recipient-${contact.id}`} className="flex-1 font-normal">
+                          <span className="font-medium">{contact.name}</span>
+                          <span className="text-muted-foreground"> · {contact.email || 'No email address'}</span>
+                        </Label>
+                        {canEmail && !optedIn && (
+                          <span className="text-xs text-muted-foreground">Not opted in to {categoryLabel}</span>
+                        )}
+                        <Badge variant="outline" className={`text-xs ${CLIENT_CONTACT_ROLE_CONFIG[contact.role].color}`}>
+                          {CLIENT_CONTACT_ROLE_CONFIG[contact.role].label}
+                        </Badge>
+                      </div>
+                    )
+                  })}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">{activeClient?.contactEmail || 'This client has no email address'}</p>
+              )}
+            </div>
+          )}
+
+          {/* Attachments */}
+          {selectedTemplate && packWorkflowType && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <Paperclip className="h-4 w-4" />
+                  <Label>Attachments</Label>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleGeneratePack}
+                  disabled={isGeneratingPack || isLoading}
+                  className="h-7 text-xs"
+                >
+                  <RefreshCw className={`h-3 w-3 mr-1 ${isGeneratingPack ? 'animate-spin' : ''}`} />
+                  {documentPacks.length > 0 ? 'Regenerate pack' : 'Generate approval pack'}
+                </Button>
+              </div>
+              {documentPacks.length > 0 ? (
+                <div className="space-y-2 rounded-md border p-3">
+                  {documentPacks.map(pack => (
+                    <div key={pack.id} className="flex items-center gap-3 text-sm">
+                      <Checkbox
+                        id={`pack-${pack.id}`}
+                        checked={selectedPackIds.includes(pack.id)}
+                        onCheckedChange={(checked) => togglePack(pack.id, checked === true)}
+                        disabled={isLoading}
+                      />
+                      <Label htmlFor={`pack-${pack.id}`} className="flex-1 font-normal">
+                        <span className="font-medium">{pack.fileName}</span>
+                        <span className="text-muted-foreground"> · {Math.max(1, Math.round(pack.fileSize / 1024))} KB</span>
+                      </Label>
+                      <Badge variant="outline" className="text-xs">
+                        {DOCUMENT_PACK_TYPE_CONFIG[pack.packType].label}
+                      </Badge>
+                      <a
+                        href={`/api/clients/${activeClient.id}/document-packs/${pack.id}`}
+                        className="text-muted-foreground hover:text-foreground"
+                        title="Download"
+                      >
+                        <Download className="h-4 w-4" />
+                      </a>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  No approval pack yet - one is generated when the workflow is sent to the client.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Email Preview */}
           {selectedTemplate && (
             <div className="space-y-4">
@@ -323,6 +564,45 @@ export function SendEmailModal({
               </Card>
             </div>
           )}
+
+          {/* Scheduling */}
+          {selectedTemplate && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="schedule-send"
+                  checked={scheduleSend}
+                  onCheckedChange={setScheduleSend}
+                  disabled={isLoading}
+                />
+                <Label htmlFor="schedule-send">Send later</Label>
+              </div>
+              {scheduleSend && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="schedule-date" className="text-sm">Date</Label>
+                    <Input
+                      id="schedule-date"
+                      type="date"
+                      value={scheduledDate}
+                      onChange={(e) => setScheduledDate(e.target.value)}
+                      disabled={isLoading}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="schedule-time" className="text-sm">Time (UK)</Label>
+                    <Input
+                      id="schedule-time"
+                      type="time"
+                      value={scheduledTime}
+                      onChange={(e) => setScheduledTime(e.target.value)}
+                      disabled={isLoading}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Actions */}
@@ -336,7 +616,7 @@ export function SendEmailModal({
           </Button>
           <Button 
             onClick={handleSendEmail}
-            disabled={!selectedTemplate || !activeClient?.contactEmail || isLoading}
+            disabled={!selectedTemplate || !hasRecipients || isLoading}
             className="flex items-center gap-2"
           >
             {isLoading ? (
@@ -344,6 +624,11 @@ export function SendEmailModal({
                 <RefreshCw className="h-4 w-4 animate-spin" />
                 Sending...
               </>
+            ) : scheduleSend ? (
+              <>
+                <Clock className="h-4 w-4" />
+                Schedule Email
+              </>
             ) : (
               <>
                 <Send className="h-4 w-4" />
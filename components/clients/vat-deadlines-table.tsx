@@ -4,6 +4,7 @@ import React, { useState, useEffect, useCallback, useMemo } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { useUsers, type User as UserType } from '@/lib/hooks/useUsers'
+import { usePermissions } from '@/lib/hooks/usePermissions'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { PageLayout, PageHeader, PageContent } from '@/components/layout/page-layout'
 import { Button } from '@/components/ui/button'
@@ -83,9 +84,11 @@ import { AdvancedFilterModal } from './advanced-filter-modal'
 import { WorkflowSkipWarningDialog } from '@/components/ui/workflow-skip-warning-dialog'
 import { validateStageTransition, getSelectableStages } from '@/lib/workflow-validation'
 import { SendEmailModal } from './send-email-modal'
+import { VATReturnModal } from './vat-return-modal'
 import { DeadlinesBulkOperations } from './deadlines-bulk-operations'
 import { WorkflowStageDistribution } from './workflow-stage-distribution'
 import { VATDeadlineHeader } from './vat-deadline-header'
+import { NextChaseIndicator, type NextChaseInfo } from './next-chase-indicator'
 import debounce from 'lodash/debounce'
 
 interface VATQuarter {
@@ -117,6 +120,8 @@ interface VATQuarter {
   clientApprovedByUserName?: string
   filedToHMRCDate?: string
   filedToHMRCByUserName?: string
+  // Next automated chase (only while waiting on paperwork)
+  nextChase?: NextChaseInfo | null
 }
 
 interface VATClient {
@@ -277,6 +282,8 @@ export function VATDeadlinesTable({
   focusWorkflowId 
 }: VATDeadlinesTableProps = {}) {
   const { data: session } = useSession()
+  const { can } = usePermissions()
+  const canBulkEdit = can('workflow.bulk_update')
   const router = useRouter()
   const searchParams = useSearchParams()
   
@@ -305,7 +312,7 @@ export function VATDeadlinesTable({
   const [loading, setLoading] = useState(true)
   
   // Use centralized user fetching hook
-  const { users, loading: usersLoading, error: usersError } = useUsers()
+  const { users, loading: usersLoading, error: usersError } = useUsers({ scope: 'team' })
   const [expandedRows, setExpandedRows] = useState<Record<string, boolean>>({})
   const [updateModalOpen, setUpdateModalOpen] = useState(false)
   const [selectedClient, setSelectedClient] = useState<VATClient | null>(null)
@@ -333,6 +340,9 @@ export function VATDeadlinesTable({
   const [sendEmailModalOpen, setSendEmailModalOpen] = useState(false)
   const [emailClient, setEmailClient] = useState<VATClient | null>(null)
   const [emailQuarter, setEmailQuarter] = useState<VATQuarter | null>(null)
+  const [vatReturnModalOpen, setVatReturnModalOpen] = useState(false)
+  const [vatReturnClient, setVatReturnClient] = useState<VATClient | null>(null)
+  const [vatReturnQuarter, setVatReturnQuarter] = useState<VATQuarter | null>(null)
 
   // Advanced filter state
   const [showAdvancedFilter, setShowAdvancedFilter] = useState(false)
@@ -430,6 +440,21 @@ export function VATDeadlinesTable({
     fetchVATClients()
   }, [fetchVATClients])
 
+  // Result of the HMRC connect redirect (see /api/hmrc/vat/callback)
+  useEffect(() => {
+    const hmrcStatus = searchParams.get('hmrc')
+    if (!hmrcStatus) return
+
+    if (hmrcStatus === 'connected') {
+      showToast.success('Connected to HMRC')
+    } else if (hmrcStatus === 'denied') {
+      showToast.error('HMRC access was not granted')
+    } else {
+      showToast.error('Failed to connect to HMRC. Please try again.')
+    }
+    router.replace('/dashboard/clients/vat-dt')
+  }, [searchParams, router])
+
   // PERFORMANCE: Memoize filtering operations with smaller dataset
   const filteredVATClients = useMemo(() => {
     if (!vatClients || vatClients.length === 0) return []
@@ -1152,6 +1177,9 @@ export function VATDeadlinesTable({
 
       if (data.success) {
         showToast.success('Update completed successfully')
+        if (data.warning) {
+          showToast.warning(data.warning)
+        }
         setUpdateModalOpen(false)
         setSelectedStage(undefined)
         setSelectedQuarter(null)
@@ -1249,6 +1277,9 @@ export function VATDeadlinesTable({
 
       if (data.success) {
         showToast.success('Update completed successfully')
+        if (data.warning) {
+          showToast.warning(data.warning)
+        }
         setUpdateModalOpen(false)
         setSelectedStage(undefined)
         setSelectedQuarter(null)
@@ -1588,8 +1619,8 @@ export function VATDeadlinesTable({
       <Table>
         <TableHeader>
           <TableRow className="border-b">
-            {/* Bulk selection checkbox column - only for managers and partners */}
-            {(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') && (
+            {/* Bulk selection checkbox column - only for users who can bulk update */}
+            {canBulkEdit && (
               <TableHead className="w-12 p-2 text-center">
                 <Checkbox
                   checked={getQuarterSelectionForMonth(monthNumber).length > 0 && getQuarterSelectionForMonth(monthNumber).length === getClientsForMonth(monthNumber).filter(client => {
@@ -1629,8 +1660,8 @@ export function VATDeadlinesTable({
                 id={`vat-client-${client.id}`}
                 className="hover:bg-muted/50 h-14"
               >
-                {/* Bulk selection checkbox - only for managers and partners */}
-                {(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') && (
+                {/* Bulk selection checkbox - only for users who can bulk update */}
+                {canBulkEdit && (
                   <TableCell className="p-2 text-center">
                     {monthQuarter ? (
                       isCalculatedQuarter(monthQuarter.id) ? (
@@ -1695,6 +1726,7 @@ export function VATDeadlinesTable({
                       </span>
                     </div>
                   </Badge>
+                  <NextChaseIndicator nextChase={monthQuarter?.nextChase} />
                 </TableCell>
                 <TableCell className="p-2 text-center">
                   {isApplicable ? (
@@ -1783,6 +1815,18 @@ export function VATDeadlinesTable({
                           <Mail className="h-4 w-4" />
                           Send Mail
                         </DropdownMenuItem>
+                        <DropdownMenuItem 
+                          onClick={() => {
+                            setVatReturnClient(client)
+                            setVatReturnQuarter(monthQuarter)
+                            setVatReturnModalOpen(true)
+                          }}
+                          className="flex items-center gap-2 cursor-pointer"
+                          disabled={!monthQuarter || monthQuarter.id.startsWith('calculated-') || monthQuarter.id === 'pending'}
+                        >
+                          <Building className="h-4 w-4" />
+                          HMRC VAT Return
+                        </DropdownMenuItem>
                       </DropdownMenuContent>
                     </DropdownMenu>
                   ) : (
@@ -1794,7 +1838,7 @@ export function VATDeadlinesTable({
               {/* Expanded Row - Workflow Timeline */}
               {expandedRows[rowKey] && isApplicable && (
                 <TableRow>
-                  <TableCell colSpan={(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') ? 10 : 9} className="p-0">
+                  <TableCell colSpan={canBulkEdit ? 10 : 9} className="p-0">
                     {renderWorkflowTimeline(client, monthQuarter)}
                   </TableCell>
                 </TableRow>
@@ -2507,6 +2551,16 @@ export function VATDeadlinesTable({
         workflowData={emailQuarter}
         workflowType="vat"
       />
+
+      {/* HMRC VAT Return Modal */}
+      <VATReturnModal
+        open={vatReturnModalOpen}
+        onOpenChange={setVatReturnModalOpen}
+        vatQuarterId={vatReturnQuarter?.id || null}
+        companyName={vatReturnClient?.companyName || ''}
+        quarterPeriod={vatReturnQuarter?.quarterPeriod || ''}
+        onSubmitted={() => fetchVATClients(true)}
+      />
     </>
   )
 } // Production deployment fix - Thu Jul 17 13:34:57 IST 2025
@@ -0,0 +1,437 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { AlertCircle, CheckCircle, Link2, RefreshCw, Undo2, Wrench, X } from 'lucide-react'
+import { showToast } from '@/lib/toast'
+import { formatQuarterPeriodForDisplay, VAT_QUARTER_GROUPS, VAT_WORKFLOW_STAGE_NAMES } from '@/lib/vat-workflow'
+import { collectHMRCDeviceInfo } from '@/lib/hmrc-device-info'
+import {
+  VAT_RECONCILIATION_ISSUE_CONFIG,
+  VAT_RECONCILIATION_ISSUE_TYPES,
+  VAT_RECONCILIATION_STATUS_CONFIG,
+  isVATReconciliationIssueType,
+  isVATReconciliationStatus
+} from '@/lib/vat-reconciliation'
+
+interface ReconciliationIssue {
+  id: string
+  issueType: string
+  periodKey: string | null
+  hmrcPeriodStart: string
+  hmrcPeriodEnd: string
+  hmrcDueDate: string | null
+  hmrcStatus: string
+  hmrcReceivedDate: string | null
+  quarterPeriod: string | null
+  suggestedQuarterGroup: string | null
+  status: string
+  detectedAt: string
+  lastSeenAt: string
+  resolvedAt: string | null
+  resolvedByUserName: string | null
+  resolution: string | null
+  client: {
+    id: string
+    clientCode: string
+    companyName: string
+    vatQuarterGroup: string | null
+  }
+  vatQuarter: {
+    id: string
+    quarterPeriod: string
+    currentStage: string
+    isCompleted: boolean
+  } | null
+}
+
+interface LastRun {
+  ranAt: string
+  ranBy: string
+  clientsChecked: number
+  newIssues: number
+  openIssues: number
+  autoResolved: number
+  errors: Array<{ clientId: string; companyName: string; error: string }>
+}
+
+const formatGroup = (group: string | null) =>
+  group ? VAT_QUARTER_GROUPS[group as keyof typeof VAT_QUARTER_GROUPS] || group : 'Not set'
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-GB', { timeZone: 'Europe/London' })
+
+/**
+ * VAT Reconciliation Report
+ *
+ * Fix-up report for differences between HMRC's VAT obligations and our quarters.
+ *
+ * Features:
+ * - Open, resolved and dismissed issues filtered by status and issue type
+ * - HMRC period alongside our quarter and the quarter group HMRC's dates imply
+ * - One-click correction per issue, confirmed with a description of what will change
+ * - Dismiss and reopen for issues that are expected (e.g. non-standard stagger)
+ * - Run reconciliation on demand, with the last full run summary
+ */
+export function VATReconciliationReport() {
+  const [issues, setIssues] = useState<ReconciliationIssue[]>([])
+  const [lastRun, setLastRun] = useState<LastRun | null>(null)
+  const [connected, setConnected] = useState(true)
+  const [loading, setLoading] = useState(true)
+  const [running, setRunning] = useState(false)
+  const [statusFilter, setStatusFilter] = useState<string>('OPEN')
+  const [typeFilter, setTypeFilter] = useState<string>('all')
+  const [confirmIssue, setConfirmIssue] = useState<ReconciliationIssue | null>(null)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+
+  const fetchIssues = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({ status: statusFilter })
+      if (typeFilter !== 'all') params.set('issueType', typeFilter)
+
+      const response = await fetch(`/api/vat-quarters/reconciliation?${params}`)
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load reconciliation issues')
+      }
+
+      setIssues(result.data.issues)
+      setLastRun(result.data.lastRun)
+      setConnected(result.data.connected)
+    } catch (error) {
+      console.error('Error loading reconciliation issues:', error)
+      showToast.error(error instanceof Error ? error.message : 'Failed to load reconciliation issues')
+    } finally {
+      setLoading(false)
+    }
+  }, [statusFilter, typeFilter])
+
+  useEffect(() => {
+    fetchIssues()
+  }, [fetchIssues])
+
+  const handleRun = async () => {
+    try {
+      setRunning(true)
+      const response = await fetch('/api/vat-quarters/reconciliation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ device: collectHMRCDeviceInfo() })
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to run reconciliation')
+      }
+
+      showToast.success(result.message)
+      if (result.data.errors.length > 0) {
+        showToast.error(`${result.data.errors.length} clients could not be checked`)
+      }
+      await fetchIssues()
+    } catch (error) {
+      console.error('Error running reconciliation:', error)
+      showToast.error(error instanceof Error ? error.message : 'Failed to run reconciliation')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const handleAction = async (issue: ReconciliationIssue, action: 'fix' | 'dismiss' | 'reopen') => {
+    try {
+      setUpdatingId(issue.id)
+      const response = await fetch(`/api/vat-quarters/reconciliation/${issue.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action })
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to update issue')
+      }
+
+      showToast.success(result.message)
+      setConfirmIssue(null)
+      await fetchIssues()
+    } catch (error) {
+      console.error('Error updating reconciliation issue:', error)
+      showToast.error(error instanceof Error ? error.message : 'Failed to update issue')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const confirmConfig = confirmIssue && isVATReconciliationIssueType(confirmIssue.issueType)
+    ? VAT_RECONCILIATION_ISSUE_CONFIG[confirmIssue.issueType]
+    : null
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="OPEN">Open</SelectItem>
+              <SelectItem value="RESOLVED">Resolved</SelectItem>
+              <SelectItem value="DISMISSED">Dismissed</SelectItem>
+              <SelectItem value="all">All statuses</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={typeFilter} onValueChange={setTypeFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All issue types</SelectItem>
+              {VAT_RECONCILIATION_ISSUE_TYPES.map(type => (
+                <SelectItem key={type} value={type}>{VAT_RECONCILIATION_ISSUE_CONFIG[type].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center gap-3">
+          {lastRun && (
+            <span className="text-xs text-muted-foreground">
+              Last run {new Date(lastRun.ranAt).toLocaleString('en-GB', { timeZone: 'Europe/London' })} by {lastRun.ranBy}
+              {' '}({lastRun.clientsChecked} clients{lastRun.errors.length > 0 ? `, ${lastRun.errors.length} failed` : ''})
+            </span>
+          )}
+          <Button onClick={handleRun} disabled={running || !connected} className="flex items-center gap-2">
+            <RefreshCw className={`h-4 w-4 ${running ? 'animate-spin' : ''}`} />
+            {running ? 'Checking HMRC...' : 'Run Reconciliation'}
+          </Button>
+        </div>
+      </div>
+
+      {!connected && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-blue-800 flex items-center justify-between gap-2">
+          <span>The practice is not connected to HMRC, so obligations cannot be checked.</span>
+          <Button asChild size="sm" variant="outline">
+            <a href="/api/hmrc/vat/connect">
+              <Link2 className="h-4 w-4 mr-1" />
+              Connect to HMRC
+            </a>
+          </Button>
+        </div>
+      )}
+
+      {lastRun && lastRun.errors.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+          <p className="font-medium flex items-center gap-2">
+            <AlertCircle className="h-4 w-4" />
+            Some clients could not be checked on the last run
+          </p>
+          <ul className="mt-1 list-disc list-inside text-xs">
+            {lastRun.errors.slice(0, 5).map(error => (
+              <li key={error.clientId}>{error.companyName}: {error.error}</li>
+            ))}
+            {lastRun.errors.length > 5 && <li>and {lastRun.errors.length - 5} more</li>}
+          </ul>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="space-y-2">
+          {[...Array(5)].map((_, i) => <Skeleton key={i} className="h-12 w-full" />)}
+        </div>
+      ) : issues.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <CheckCircle className="h-8 w-8 mx-auto mb-2 text-green-600" />
+          {statusFilter === 'OPEN' ? 'No open issues. Our quarters match HMRC.' : 'No issues found.'}
+        </div>
+      ) : (
+        <div className="border rounded-lg overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Client</TableHead>
+                <TableHead>Issue</TableHead>
+                <TableHead>HMRC Period</TableHead>
+                <TableHead>Our Quarter</TableHead>
+                <TableHead>Quarter Group</TableHead>
+                <TableHead>Detected</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {issues.map(issue => {
+                const issueConfig = isVATReconciliationIssueType(issue.issueType)
+                  ? VAT_RECONCILIATION_ISSUE_CONFIG[issue.issueType]
+                  : null
+                const statusConfig = isVATReconciliationStatus(issue.status)
+                  ? VAT_RECONCILIATION_STATUS_CONFIG[issue.status]
+                  : null
+                const groupDiffers = issue.suggestedQuarterGroup
+                  && issue.suggestedQuarterGroup !== issue.client.vatQuarterGroup
+
+                return (
+                  <TableRow key={issue.id}>
+                    <TableCell>
+                      <Link href={`/dashboard/clients/${issue.client.id}`} className="font-medium hover:underline">
+                        {issue.client.companyName}
+                      </Link>
+                      <div className="text-xs text-muted-foreground">{issue.client.clientCode}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-col gap-1 items-start">
+                        {issueConfig && <Badge className={issueConfig.color}>{issueConfig.label}</Badge>}
+                        {statusFilter === 'all' && statusConfig && (
+                          <Badge variant="outline" className={statusConfig.color}>{statusConfig.label}</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">{formatQuarterPeriodForDisplay(`${issue.hmrcPeriodStart}_to_${issue.hmrcPeriodEnd}`)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {issue.hmrcPeriodStart} to {issue.hmrcPeriodEnd}
+                        {issue.periodKey && ` (${issue.periodKey})`}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {issue.hmrcStatus === 'F'
+                          ? `Fulfilled${issue.hmrcReceivedDate ? ` ${issue.hmrcReceivedDate}` : ''}`
+                          : `Open, due ${issue.hmrcDueDate}`}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {issue.vatQuarter ? (
+                        <>
+                          <div className="text-sm">{formatQuarterPeriodForDisplay(issue.vatQuarter.quarterPeriod)}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {VAT_WORKFLOW_STAGE_NAMES[issue.vatQuarter.currentStage as keyof typeof VAT_WORKFLOW_STAGE_NAMES] || issue.vatQuarter.currentStage}
+                          </div>
+                        </>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">
+                          {issue.quarterPeriod ? formatQuarterPeriodForDisplay(issue.quarterPeriod) : 'None'}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">{formatGroup(issue.client.vatQuarterGroup)}</div>
+                      {groupDiffers && (
+                        <div className="text-xs text-amber-600">HMRC: {formatGroup(issue.suggestedQuarterGroup)}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {formatDate(issue.detectedAt)}
+                      {issue.resolution && (
+                        <div className="mt-1 text-foreground">
+                          {issue.resolution}
+                          {issue.resolvedByUserName && ` (${issue.resolvedByUserName})`}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {issue.status === 'OPEN' && issueConfig && (
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            size="sm"
+                            onClick={() => setConfirmIssue(issue)}
+                            disabled={updatingId === issue.id}
+                            className="h-7 px-2 text-xs flex items-center gap-1"
+                          >
+                            <Wrench className="h-3 w-3" />
+                            {issueConfig.fixLabel}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleAction(issue, 'dismiss')}
+                            disabled={updatingId === issue.id}
+                            className="h-7 px-2 text-xs"
+                            title="Dismiss"
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      )}
+                      {issue.status === 'DISMISSED' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleAction(issue, 'reopen')}
+                          disabled={updatingId === issue.id}
+                          className="h-7 px-2 text-xs flex items-center gap-1 ml-auto"
+                        >
+                          <Undo2 className="h-3 w-3" />
+                          Reopen
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Dialog open={!!confirmIssue} onOpenChange={(open) => !open && setConfirmIssue(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{confirmConfig?.fixLabel}</DialogTitle>
+            <DialogDescription>
+              {confirmIssue?.client.companyName} - HMRC period {confirmIssue?.hmrcPeriodStart} to {confirmIssue?.hmrcPeriodEnd}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 text-sm">
+            <p>{confirmConfig?.fixDescription}.</p>
+            {confirmIssue && confirmIssue.issueType !== 'FULFILLED_BUT_OPEN'
+              && confirmIssue.suggestedQuarterGroup
+              && confirmIssue.suggestedQuarterGroup !== confirmIssue.client.vatQuarterGroup && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-amber-800">
+                The client&apos;s quarter group will change from {formatGroup(confirmIssue.client.vatQuarterGroup)} to {formatGroup(confirmIssue.suggestedQuarterGroup)}, so future quarters follow HMRC&apos;s periods.
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirmIssue(null)} disabled={!!updatingId}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => confirmIssue && handleAction(confirmIssue, 'fix')}
+              disabled={!!updatingId}
+              className="flex items-center gap-2"
+            >
+              {updatingId ? <RefreshCw className="h-4 w-4 animate-spin" /> : <Wrench className="h-4 w-4" />}
+              Apply Correction
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,445 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  AlertCircle,
+  Building,
+  CheckCircle,
+  Link2,
+  RefreshCw,
+  Save,
+  Send
+} from 'lucide-react'
+import { showToast } from '@/lib/toast'
+import { usePermissions } from '@/lib/hooks/usePermissions'
+import { formatQuarterPeriodForDisplay } from '@/lib/vat-workflow'
+import {
+  VAT_RETURN_BOXES,
+  VAT_RETURN_STATUS_CONFIG,
+  calculateVATReturnTotals,
+  isVATRepayment,
+  isVATReturnStatus,
+  validateVATReturnBoxes,
+  type VATReturnBoxes,
+  type VATReturnBoxField
+} from '@/lib/vat-return'
+import type { VATObligation } from '@/lib/hmrc-api'
+import { collectHMRCDeviceInfo } from '@/lib/hmrc-device-info'
+
+interface VATReturnRecord extends VATReturnBoxes {
+  id: string
+  periodKey: string | null
+  status: string
+  preparedDate: string | null
+  preparedByUserName: string | null
+  submittedDate: string | null
+  submittedByUserName: string | null
+  processingDate: string | null
+  formBundleNumber: string | null
+  paymentIndicator: string | null
+  chargeRefNumber: string | null
+  lastError: string | null
+}
+
+interface VATReturnData {
+  vatReturn: VATReturnRecord | null
+  connected: boolean
+  hasVatNumber: boolean
+  // The quarter is client approved
+  readyToSubmit: boolean
+  obligations: VATObligation[]
+  matchedObligation: VATObligation | null
+  hmrcError: string | null
+}
+
+interface VATReturnModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  vatQuarterId: string | null
+  companyName: string
+  quarterPeriod: string
+  onSubmitted?: () => void
+}
+
+type BoxInputs = Record<VATReturnBoxField, string>
+
+const EMPTY_INPUTS = VAT_RETURN_BOXES.reduce((inputs, { field }) => {
+  inputs[field] = ''
+  return inputs
+}, {} as BoxInputs)
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP' }).format(amount)
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-GB', { timeZone: 'Europe/London' })
+
+/**
+ * VAT Return Modal
+ *
+ * Prepares and submits a quarter's nine-box return to HMRC through Making Tax Digital.
+ *
+ * Features:
+ * - HMRC connection status with a link for managers to connect
+ * - Obligation period picker, defaulting to the period that matches the quarter
+ * - Nine-box entry with box 3 and box 5 calculated as you type
+ * - Draft saving, and submission behind the client declaration once the client has approved
+ *   the quarter (needs vat.submit_to_hmrc)
+ * - HMRC receipt shown once submitted
+ */
+export function VATReturnModal({
+  open,
+  onOpenChange,
+  vatQuarterId,
+  companyName,
+  quarterPeriod,
+  onSubmitted
+}: VATReturnModalProps) {
+  const { can } = usePermissions()
+  const [data, setData] = useState<VATReturnData | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [inputs, setInputs] = useState<BoxInputs>(EMPTY_INPUTS)
+  const [periodKey, setPeriodKey] = useState<string>('')
+  const [declaration, setDeclaration] = useState(false)
+
+  const fetchReturn = useCallback(async () => {
+    if (!vatQuarterId) return
+
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/vat-quarters/${vatQuarterId}/hmrc-return`)
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load VAT return')
+      }
+
+      const returnData: VATReturnData = result.data
+      setData(returnData)
+
+      const saved = returnData.vatReturn
+      setInputs(VAT_RETURN_BOXES.reduce((values, { field }) => {
+        values[field] = saved ? String(saved[field]) : ''
+        return values
+      }, {} as BoxInputs))
+      setPeriodKey(saved?.periodKey || returnData.matchedObligation?.periodKey || '')
+      setDeclaration(false)
+    } catch (error) {
+      console.error('Error loading VAT return:', error)
+      showToast.error(error instanceof Error ? error.message : 'Failed to load VAT return')
+    } finally {
+      setLoading(false)
+    }
+  }, [vatQuarterId])
+
+  useEffect(() => {
+    if (open) {
+      fetchReturn()
+    } else {
+      setData(null)
+    }
+  }, [open, fetchReturn])
+
+  const enteredBoxes = {
+    vatDueSales: Number(inputs.vatDueSales) || 0,
+    vatDueAcquisitions: Number(inputs.vatDueAcquisitions) || 0,
+    vatReclaimedCurrPeriod: Number(inputs.vatReclaimedCurrPeriod) || 0,
+    totalValueSalesExVAT: Number(inputs.totalValueSalesExVAT) || 0,
+    totalValuePurchasesExVAT: Number(inputs.totalValuePurchasesExVAT) || 0,
+    totalValueGoodsSuppliedExVAT: Number(inputs.totalValueGoodsSuppliedExVAT) || 0,
+    totalAcquisitionsExVAT: Number(inputs.totalAcquisitionsExVAT) || 0
+  }
+  const boxes = calculateVATReturnTotals(enteredBoxes)
+  const validationErrors = validateVATReturnBoxes(boxes)
+
+  const vatReturn = data?.vatReturn
+  const isSubmitted = vatReturn?.status === 'SUBMITTED'
+  const canSubmit = can('vat.submit_to_hmrc')
+  const openObligations = (data?.obligations || []).filter(obligation => obligation.status === 'O')
+
+  const handleSave = async (): Promise<boolean> => {
+    if (!vatQuarterId) return false
+
+    try {
+      setSaving(true)
+      const response = await fetch(`/api/vat-quarters/${vatQuarterId}/hmrc-return`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ periodKey: periodKey || null, ...enteredBoxes })
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to save VAT return')
+      }
+
+      setData(prev => prev ? { ...prev, vatReturn: result.data } : prev)
+      return true
+    } catch (error) {
+      console.error('Error saving VAT return:', error)
+      showToast.error(error instanceof Error ? error.message : 'Failed to save VAT return')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSaveDraft = async () => {
+    if (await handleSave()) {
+      showToast.success('VAT return saved')
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (!vatQuarterId) return
+
+    // Always submit exactly what is on screen
+    if (!(await handleSave())) return
+
+    try {
+      setSubmitting(true)
+      const response = await fetch(`/api/vat-quarters/${vatQuarterId}/hmrc-return/submit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ declaration: true, device: collectHMRCDeviceInfo() })
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to submit VAT return')
+      }
+
+      setData(prev => prev ? { ...prev, vatReturn: result.data.vatReturn } : prev)
+      showToast.success('VAT return submitted to HMRC')
+      onSubmitted?.()
+    } catch (error) {
+      console.error('Error submitting VAT return:', error)
+      showToast.error(error instanceof Error ? error.message : 'Failed to submit VAT return')
+      fetchReturn()
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const statusConfig = vatReturn && isVATReturnStatus(vatReturn.status)
+    ? VAT_RETURN_STATUS_CONFIG[vatReturn.status]
+    : null
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Building className="h-5 w-5" />
+            HMRC VAT Return
+            {statusConfig && (
+              <Badge className={statusConfig.color}>{statusConfig.label}</Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            {companyName} - {formatQuarterPeriodForDisplay(quarterPeriod)}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !data ? (
+          <div className="space-y-3">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-64 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {!data.hasVatNumber && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800 flex items-start gap-2">
+                <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                Add the client&apos;s VAT registration number before preparing a return.
+              </div>
+            )}
+
+            {!data.connected ? (
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-blue-800 flex items-center justify-between gap-2">
+                <span>The practice is not connected to HMRC, so obligations cannot be loaded and returns cannot be submitted.</span>
+                <Button asChild size="sm" variant="outline">
+                  <a href="/api/hmrc/vat/connect">
+                    <Link2 className="h-4 w-4 mr-1" />
+                    Connect to HMRC
+                  </a>
+                </Button>
+              </div>
+            ) : data.hmrcError ? (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800 flex items-start gap-2">
+                <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                {data.hmrcError}
+              </div>
+            ) : null}
+
+            {isSubmitted && vatReturn ? (
+              <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800 space-y-1">
+                <p className="font-medium flex items-center gap-2">
+                  <CheckCircle className="h-4 w-4" />
+                  Submitted to HMRC
+                </p>
+                <p>Form bundle number: <span className="font-mono">{vatReturn.formBundleNumber}</span></p>
+                {vatReturn.processingDate && <p>Processed: {formatDateTime(vatReturn.processingDate)}</p>}
+                {vatReturn.chargeRefNumber && <p>Charge reference: <span className="font-mono">{vatReturn.chargeRefNumber}</span></p>}
+                {vatReturn.paymentIndicator && <p>Payment method: {vatReturn.paymentIndicator === 'DD' ? 'Direct Debit' : 'Bank payment'}</p>}
+                {vatReturn.submittedByUserName && <p>Submitted by {vatReturn.submittedByUserName}</p>}
+              </div>
+            ) : vatReturn?.status === 'FAILED' && vatReturn.lastError ? (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800">
+                <p className="font-medium">Last submission failed</p>
+                <p>{vatReturn.lastError}</p>
+              </div>
+            ) : null}
+
+            <div className="space-y-2">
+              <Label>HMRC obligation period</Label>
+              {isSubmitted || openObligations.length === 0 ? (
+                <Input
+                  value={periodKey}
+                  onChange={(e) => setPeriodKey(e.target.value.toUpperCase())}
+                  placeholder="Period key, e.g. 24A1"
+                  maxLength={4}
+                  disabled={isSubmitted}
+                />
+              ) : (
+                <Select value={periodKey} onValueChange={setPeriodKey}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select the open obligation" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {openObligations.map(obligation => (
+                      <SelectItem key={obligation.periodKey} value={obligation.periodKey}>
+                        {formatQuarterPeriodForDisplay(`${obligation.start}_to_${obligation.end}`)} (due {obligation.due})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {data.connected && !data.hmrcError && !data.matchedObligation && (
+                <p className="text-xs text-amber-600">HMRC has no obligation with exactly this quarter&apos;s dates.</p>
+              )}
+            </div>
+
+            <div className="border rounded-lg divide-y">
+              {VAT_RETURN_BOXES.map(({ field, box, label, wholePounds, calculated }) => (
+                <div key={field} className="flex items-center gap-3 p-2">
+                  <span className="w-14 text-xs font-medium text-muted-foreground">Box {box}</span>
+                  <Label htmlFor={`vat-box-${field}`} className="flex-1 text-sm font-normal">{label}</Label>
+                  {calculated ? (
+                    <span className="w-40 text-right font-mono text-sm">{formatCurrency(boxes[field])}</span>
+                  ) : (
+                    <Input
+                      id={`vat-box-${field}`}
+                      type="number"
+                      step={wholePounds ? '1' : '0.01'}
+                      value={inputs[field]}
+                      onChange={(e) => setInputs(prev => ({ ...prev, [field]: e.target.value }))}
+                      className="w-40 text-right font-mono"
+                      disabled={isSubmitted}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              {isVATRepayment(boxes)
+                ? `Repayment due to the client: ${formatCurrency(boxes.netVatDue)}`
+                : `Payment due to HMRC: ${formatCurrency(boxes.netVatDue)}`}
+            </p>
+
+            {!isSubmitted && validationErrors.length > 0 && (
+              <ul className="text-xs text-red-600 list-disc list-inside">
+                {validationErrors.map(error => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+
+            {!isSubmitted && !data.readyToSubmit && (
+              <p className="text-sm text-muted-foreground">
+                The return can be submitted once the client has approved it. Move the quarter to Client Approved first.
+              </p>
+            )}
+
+            {!isSubmitted && (
+              <div className="flex items-start gap-2 bg-muted/50 rounded-lg p-3">
+                <Checkbox
+                  id="vat-return-declaration"
+                  checked={declaration}
+                  onCheckedChange={(checked) => setDeclaration(checked === true)}
+                />
+                <Label htmlFor="vat-return-declaration" className="text-sm font-normal leading-snug">
+                  The client has confirmed that the information in this return is true and complete to the best of
+                  their knowledge, and understands that submitting a false return can lead to prosecution.
+                </Label>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {data && !isSubmitted && (
+            <>
+              <Button
+                variant="outline"
+                onClick={handleSaveDraft}
+                disabled={saving || submitting || !data.hasVatNumber || validationErrors.length > 0}
+                className="flex items-center gap-2"
+              >
+                <Save className="h-4 w-4" />
+                Save Draft
+              </Button>
+              {canSubmit && (
+                <Button
+                  onClick={handleSubmit}
+                  disabled={
+                    saving || submitting || !declaration || !periodKey || !data.readyToSubmit ||
+                    !data.connected || !data.hasVatNumber || validationErrors.length > 0
+                  }
+                  className="flex items-center gap-2"
+                >
+                  {submitting ? (
+                    <>
+                      <RefreshCw className="h-4 w-4 animate-spin" />
+                      Submitting...
+                    </>
+                  ) : (
+                    <>
+                      <Send className="h-4 w-4" />
+                      Submit to HMRC
+                    </>
+                  )}
+                </Button>
+              )}
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
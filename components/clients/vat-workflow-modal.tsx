@@ -78,6 +78,7 @@ import {
 } from 'lucide-react'
 import { showToast } from '@/lib/toast'
 import { VAT_WORKFLOW_STAGE_NAMES, SELECTABLE_VAT_WORKFLOW_STAGES, calculateTotalFilingDays, calculateStageDurations, getVATWorkflowProgressSummary } from '@/lib/vat-workflow'
+import { WorkflowTimeCard } from './workflow-time-card'
 
 interface VATWorkflowModalProps {
   isOpen: boolean
@@ -263,6 +264,9 @@ export function VATWorkflowModal({
 
       if (data.success) {
         showToast.success(data.message || 'Workflow updated successfully')
+        if (data.warning) {
+          showToast.warning(data.warning)
+        }
         onUpdate(data.data.vatQuarter)
         onClose()
       } else {
@@ -413,6 +417,9 @@ export function VATWorkflowModal({
             </CardContent>
           </Card>
 
+          {/* Time - timer, manual entries and budget against actual */}
+          <WorkflowTimeCard workType="VAT" workflowId={vatQuarter.id} />
+
           {/* Current Status */}
           <Card>
             <CardHeader>
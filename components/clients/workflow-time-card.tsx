@@ -0,0 +1,293 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Loader2, Play, Plus, Square, Timer } from 'lucide-react'
+import { showToast } from '@/lib/toast'
+import { usePermissions } from '@/lib/hooks/usePermissions'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import type { AssignableWorkType } from '@/lib/assignment-engine'
+import {
+  entryMinutes,
+  formatMinutes,
+  formatMoney,
+  recoverabilityClass,
+  type JobTime,
+  type TimeEntryRow
+} from '@/lib/time-tracking'
+
+interface WorkflowTimeCardProps {
+  workType: AssignableWorkType
+  workflowId: string
+}
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+/**
+ * Time on one VAT quarter or accounts workflow, for the workflow modals
+ *
+ * Features:
+ * - Start and stop a timer on the job (starting one elsewhere stops it)
+ * - Add time after the event
+ * - Time so far against the client's budget; fee, cost and recoverability with time.view_all
+ */
+export function WorkflowTimeCard({ workType, workflowId }: WorkflowTimeCardProps) {
+  const { can } = usePermissions()
+  const [job, setJob] = useState<JobTime | null>(null)
+  const [timer, setTimer] = useState<TimeEntryRow | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isBusy, setIsBusy] = useState(false)
+  const [now, setNow] = useState(() => new Date())
+
+  // Manual entry
+  const [showAddTime, setShowAddTime] = useState(false)
+  const [date, setDate] = useState(today)
+  const [hours, setHours] = useState('')
+  const [description, setDescription] = useState('')
+
+  const fetchTime = useCallback(async () => {
+    try {
+      const [jobResponse, timerResponse] = await Promise.all([
+        fetch(`/api/time-entries/job?workType=${workType}&workflowId=${workflowId}`),
+        fetch('/api/time-entries/timer')
+      ])
+      if (jobResponse.ok) {
+        const data = await jobResponse.json()
+        setJob(data.job)
+      }
+      if (timerResponse.ok) {
+        const data = await timerResponse.json()
+        setTimer(data.timer)
+      }
+    } catch (error) {
+      console.error('Error fetching job time:', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [workType, workflowId])
+
+  useEffect(() => {
+    fetchTime()
+  }, [fetchTime])
+
+  const timingThisJob = timer?.workType === workType && timer.workflowId === workflowId
+
+  // Keep the running time current
+  useEffect(() => {
+    if (!timingThisJob) return
+    const interval = setInterval(() => setNow(new Date()), 30000)
+    return () => clearInterval(interval)
+  }, [timingThisJob])
+
+  const startTimer = async () => {
+    try {
+      setIsBusy(true)
+      const response = await fetch('/api/time-entries/timer', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workType, workflowId })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        showToast.error(data.error || 'Failed to start timer')
+        return
+      }
+
+      showToast.success(data.message)
+      setTimer(data.timer)
+      setNow(new Date())
+      fetchTime()
+    } catch (error) {
+      console.error('Error starting timer:', error)
+      showToast.error('Error starting timer')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const stopTimer = async () => {
+    try {
+      setIsBusy(true)
+      const response = await fetch('/api/time-entries/timer', { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        showToast.error(data.error || 'Failed to stop timer')
+        return
+      }
+
+      showToast.success(data.message)
+      setTimer(null)
+      fetchTime()
+    } catch (error) {
+      console.error('Error stopping timer:', error)
+      showToast.error('Error stopping timer')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const addTime = async () => {
+    const minutes = Math.round(Number(hours) * 60)
+    if (!minutes || minutes < 1) {
+      showToast.error('Enter the hours spent, e.g. 1.5')
+      return
+    }
+
+    try {
+      setIsBusy(true)
+      const response = await fetch('/api/time-entries', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workType, workflowId, date, minutes, description: description.trim() || null })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        showToast.error(data.error || 'Failed to add time')
+        return
+      }
+
+      showToast.success(`${formatMinutes(minutes)} added`)
+      setShowAddTime(false)
+      setHours('')
+      setDescription('')
+      setDate(today())
+      fetchTime()
+    } catch (error) {
+      console.error('Error adding time:', error)
+      showToast.error('Error adding time')
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const canSeeFees = can('time.view_all')
+  const runningMinutes = timer && timingThisJob ? entryMinutes(timer, now) : 0
+  // The job's figures already include the running timer up to when they were loaded
+  const actualMinutes = job ? job.actualMinutes : 0
+  const budgetUsed = job?.budgetMinutes ? Math.min(Math.round((actualMinutes / job.budgetMinutes) * 100), 100) : null
+  const overBudget = !!job?.budgetMinutes && actualMinutes > job.budgetMinutes
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <Timer className="h-5 w-5" />
+            Time
+          </span>
+          <span className="flex items-center gap-2">
+            {timingThisJob ? (
+              <Button size="sm" variant="destructive" onClick={stopTimer} disabled={isBusy}>
+                {isBusy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Square className="h-4 w-4 mr-2" />}
+                Stop ({formatMinutes(runningMinutes)})
+              </Button>
+            ) : (
+              <Button size="sm" onClick={startTimer} disabled={isBusy || isLoading}>
+                {isBusy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+                Start Timer
+              </Button>
+            )}
+            <Button size="sm" variant="outline" onClick={() => setShowAddTime(current => !current)} disabled={isBusy}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Time
+            </Button>
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {timer && !timingThisJob && (
+          <p className="text-xs text-muted-foreground">
+            Your timer is running on {timer.companyName} ({timer.periodLabel}). Starting one here will stop it.
+          </p>
+        )}
+
+        {showAddTime && (
+          <div className="grid grid-cols-2 gap-3 rounded-md border p-3">
+            <div className="space-y-1">
+              <Label htmlFor={`time-date-${workflowId}`}>Date</Label>
+              <Input id={`time-date-${workflowId}`} type="date" max={today()} value={date} onChange={(event) => setDate(event.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`time-hours-${workflowId}`}>Hours</Label>
+              <Input
+                id={`time-hours-${workflowId}`}
+                type="number"
+                min={0}
+                step="0.25"
+                placeholder="e.g. 1.5"
+                value={hours}
+                onChange={(event) => setHours(event.target.value)}
+              />
+            </div>
+            <div className="col-span-2 space-y-1">
+              <Label htmlFor={`time-description-${workflowId}`}>What for</Label>
+              <Input
+                id={`time-description-${workflowId}`}
+                placeholder="Optional"
+                value={description}
+                onChange={(event) => setDescription(event.target.value)}
+              />
+            </div>
+            <div className="col-span-2 flex justify-end">
+              <Button size="sm" onClick={addTime} disabled={isBusy}>
+                {isBusy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+                Add
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading || !job ? (
+          <div className="flex items-center justify-center py-4 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="text-sm font-medium text-muted-foreground">Time Spent</Label>
+                <p className={`font-medium ${overBudget ? 'text-red-600' : ''}`}>{formatMinutes(actualMinutes)}</p>
+              </div>
+              <div>
+                <Label className="text-sm font-medium text-muted-foreground">Budget</Label>
+                <p className="font-medium">{job.budgetMinutes !== null ? formatMinutes(job.budgetMinutes) : 'Not set'}</p>
+              </div>
+              {canSeeFees && (
+                <>
+                  <div>
+                    <Label className="text-sm font-medium text-muted-foreground">Fee / Cost</Label>
+                    <p className="font-medium">
+                      {job.fee !== null ? formatMoney(job.fee) : 'No fee'} / {formatMoney(job.cost)}
+                    </p>
+                  </div>
+                  <div>
+                    <Label className="text-sm font-medium text-muted-foreground">Recoverability</Label>
+                    <p className={`font-medium ${recoverabilityClass(job.recoverability)}`}>
+                      {job.recoverability !== null ? `${job.recoverability}%` : '-'}
+                    </p>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {budgetUsed !== null && (
+              <Progress value={budgetUsed} className={overBudget ? 'bg-red-200' : undefined} />
+            )}
+
+            {job.byUser.length > 0 && (
+              <div className="text-sm text-muted-foreground">
+                {job.byUser.map(user => `${user.name} ${formatMinutes(user.minutes)}`).join(' · ')}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
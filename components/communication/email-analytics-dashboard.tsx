@@ -0,0 +1,288 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { AlertTriangle, CheckCircle, MousePointerClick, MailOpen, Phone, RefreshCw, Send } from 'lucide-react'
+import { showToast } from '@/lib/toast'
+import {
+  NEVER_OPENS_MIN_CHASES,
+  type EmailAnalyticsGranularity,
+  type EmailEngagementAnalytics,
+  type EmailEngagementBreakdownRow
+} from '@/lib/email-analytics'
+
+const PERIODS = [
+  { value: '30', label: 'Last 30 days', granularity: 'week' },
+  { value: '90', label: 'Last 90 days', granularity: 'week' },
+  { value: '180', label: 'Last 6 months', granularity: 'month' },
+  { value: '365', label: 'Last 12 months', granularity: 'month' }
+] as const
+
+// Today's London date minus the given number of days, as YYYY-MM-DD
+const londonDate = (daysAgo = 0) =>
+  new Intl.DateTimeFormat('en-CA', { timeZone: 'Europe/London' })
+    .format(new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000))
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-GB', {
+    timeZone: 'Europe/London',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric'
+  })
+
+function BreakdownTable({ rows, labelHeading }: { rows: EmailEngagementBreakdownRow[]; labelHeading: string }) {
+  if (rows.length === 0) {
+    return <div className="text-center py-8 text-sm text-muted-foreground">No emails sent in this period</div>
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{labelHeading}</TableHead>
+            <TableHead className="w-20 text-right">Sent</TableHead>
+            <TableHead className="w-40">Delivered</TableHead>
+            <TableHead className="w-40">Opened</TableHead>
+            <TableHead className="w-40">Clicked</TableHead>
+            <TableHead className="w-20 text-right">Bounced</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.key}>
+              <TableCell className="font-medium text-sm">{row.label}</TableCell>
+              <TableCell className="text-right text-sm">{row.sent}</TableCell>
+              {[row.deliveryRate, row.openRate, row.clickRate].map((rate, index) => (
+                <TableCell key={index}>
+                  <div className="flex items-center gap-2">
+                    <Progress value={rate} className="h-2 flex-1" />
+                    <span className="text-xs w-12 text-right">{rate}%</span>
+                  </div>
+                </TableCell>
+              ))}
+              <TableCell className={`text-right text-sm ${row.bounced > 0 ? 'text-red-600' : ''}`}>{row.bounced}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
+/**
+ * Email Analytics Dashboard
+ *
+ * Engagement with the emails we send, worked out from the Brevo and Resend event timeline.
+ *
+ * Features:
+ * - Delivery, open and click rates for the period
+ * - Breakdown by template, template category, sender and week or month
+ * - Clients who never open chase emails, with their phone number so staff can call instead
+ */
+export function EmailAnalyticsDashboard() {
+  const [period, setPeriod] = useState<string>('90')
+  const [granularity, setGranularity] = useState<EmailAnalyticsGranularity>('week')
+  const [analytics, setAnalytics] = useState<EmailEngagementAnalytics | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const fetchAnalytics = useCallback(async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({
+        from: londonDate(parseInt(period)),
+        to: londonDate(),
+        granularity
+      })
+      const response = await fetch(`/api/communication/analytics?${params.toString()}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        showToast.error(data.error || 'Failed to fetch email analytics')
+        return
+      }
+
+      setAnalytics(data.analytics)
+    } catch (error) {
+      console.error('Error fetching email analytics:', error)
+      showToast.error('Failed to fetch email analytics')
+    } finally {
+      setLoading(false)
+    }
+  }, [period, granularity])
+
+  useEffect(() => {
+    fetchAnalytics()
+  }, [fetchAnalytics])
+
+  const handlePeriodChange = (value: string) => {
+    setPeriod(value)
+    const preset = PERIODS.find(option => option.value === value)
+    if (preset) setGranularity(preset.granularity)
+  }
+
+  const totals = analytics?.totals
+  const summaryCards = totals ? [
+    { title: 'Emails Sent', value: totals.sent.toLocaleString('en-GB'), note: `${totals.bounced} bounced`, icon: <Send className="h-4 w-4 text-muted-foreground" /> },
+    { title: 'Delivery Rate', value: `${totals.deliveryRate}%`, note: `${totals.delivered} delivered`, icon: <CheckCircle className="h-4 w-4 text-green-600" /> },
+    { title: 'Open Rate', value: `${totals.openRate}%`, note: `${totals.opened} opened`, icon: <MailOpen className="h-4 w-4 text-emerald-600" /> },
+    { title: 'Click Rate', value: `${totals.clickRate}%`, note: `${totals.clicked} clicked a link`, icon: <MousePointerClick className="h-4 w-4 text-purple-600" /> }
+  ] : []
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Select value={period} onValueChange={handlePeriodChange}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PERIODS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={granularity} onValueChange={(value) => setGranularity(value as EmailAnalyticsGranularity)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="week">By week</SelectItem>
+              <SelectItem value="month">By month</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Button onClick={fetchAnalytics} variant="outline" size="sm" disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {loading && !analytics ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {Array.from({ length: 4 }).map((_, index) => <Skeleton key={index} className="h-28" />)}
+        </div>
+      ) : analytics && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {summaryCards.map(card => (
+              <Card key={card.title}>
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                  <CardTitle className="text-sm font-medium">{card.title}</CardTitle>
+                  {card.icon}
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{card.value}</div>
+                  <p className="text-xs text-muted-foreground">{card.note}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Engagement Breakdown</CardTitle>
+              <CardDescription>
+                Delivery is a share of emails sent; open and click rates are a share of emails delivered. Opens are under-counted when recipients block images.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Tabs defaultValue="time">
+                <TabsList>
+                  <TabsTrigger value="time">Over time</TabsTrigger>
+                  <TabsTrigger value="template">By template</TabsTrigger>
+                  <TabsTrigger value="category">By category</TabsTrigger>
+                  <TabsTrigger value="sender">By sender</TabsTrigger>
+                </TabsList>
+                <TabsContent value="time">
+                  <BreakdownTable rows={analytics.overTime} labelHeading={granularity === 'week' ? 'Week' : 'Month'} />
+                </TabsContent>
+                <TabsContent value="template">
+                  <BreakdownTable rows={analytics.byTemplate} labelHeading="Template" />
+                </TabsContent>
+                <TabsContent value="category">
+                  <BreakdownTable rows={analytics.byCategory} labelHeading="Template category" />
+                </TabsContent>
+                <TabsContent value="sender">
+                  <BreakdownTable rows={analytics.bySender} labelHeading="Sent by" />
+                </TabsContent>
+              </Tabs>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5 text-amber-600" />
+                Clients Who Never Open Chase Emails
+              </CardTitle>
+              <CardDescription>
+                Sent {NEVER_OPENS_MIN_CHASES} or more chase emails in this period and opened none of them - phone instead.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {analytics.neverOpens.length === 0 ? (
+                <div className="text-center py-8 text-sm text-muted-foreground">
+                  Every chased client opened at least one chase email
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Client</TableHead>
+                        <TableHead>Contact</TableHead>
+                        <TableHead className="w-32">Phone</TableHead>
+                        <TableHead className="w-28 text-right">Chases unopened</TableHead>
+                        <TableHead className="w-32">Last chased</TableHead>
+                        <TableHead className="w-32">Assigned to</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {analytics.neverOpens.map(client => (
+                        <TableRow key={client.clientId}>
+                          <TableCell>
+                            <Link href={`/dashboard/clients/${client.clientId}`} className="font-medium text-sm hover:text-primary">
+                              {client.companyName}
+                            </Link>
+                            <div className="text-xs text-muted-foreground">{client.clientCode || 'N/A'}</div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="text-sm">{client.contactName}</div>
+                            <div className="text-xs text-muted-foreground">{client.contactEmail}</div>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {client.contactPhone ? (
+                              <a href={`tel:${client.contactPhone}`} className="flex items-center gap-1 hover:text-primary">
+                                <Phone className="h-3 w-3" />
+                                {client.contactPhone}
+                              </a>
+                            ) : (
+                              <span className="text-muted-foreground">No phone</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right text-sm">{client.chaseEmailsSent}</TableCell>
+                          <TableCell className="text-sm">{formatDate(client.lastChaseSentAt)}</TableCell>
+                          <TableCell className="text-sm">{client.assignedUserName || 'Unassigned'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,94 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Badge } from '@/components/ui/badge'
+import { Loader2 } from 'lucide-react'
+import { EMAIL_EVENT_CONFIG, type EmailEventTimelineEntry } from '@/lib/email-analytics'
+
+interface EmailEventTimelineProps {
+  emailLogId: string
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-GB', {
+    timeZone: 'Europe/London',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  })
+
+/**
+ * Email Event Timeline
+ *
+ * Every delivery event the provider reported for one email, oldest first.
+ *
+ * Features:
+ * - Delivered, opened, clicked, bounced and complaint events with their London time
+ * - The clicked link or bounce reason where the provider gave one
+ */
+export function EmailEventTimeline({ emailLogId }: EmailEventTimelineProps) {
+  const [events, setEvents] = useState<EmailEventTimelineEntry[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchEvents = async () => {
+      try {
+        setLoading(true)
+        const response = await fetch(`/api/communication/history/${emailLogId}/events`)
+        const data = await response.json()
+        if (!cancelled && response.ok) {
+          setEvents(data.events)
+        }
+      } catch (error) {
+        console.error('Error fetching email events:', error)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchEvents()
+    return () => { cancelled = true }
+  }, [emailLogId])
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading events...
+      </div>
+    )
+  }
+
+  if (events.length === 0) {
+    return <div className="text-sm text-muted-foreground">No delivery events received from the provider yet</div>
+  }
+
+  return (
+    <ol className="space-y-2 border-l pl-4">
+      {events.map(event => {
+        const config = EMAIL_EVENT_CONFIG[event.eventType]
+        return (
+          <li key={event.id} className="relative">
+            <span className="absolute -left-[21px] top-1.5 h-2 w-2 rounded-full bg-muted-foreground" />
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="outline" className={config.color}>{config.label}</Badge>
+              <span className="text-xs text-muted-foreground">{formatDateTime(event.occurredAt)}</span>
+              <span className="text-xs text-muted-foreground capitalize">via {event.provider.toLowerCase()}</span>
+            </div>
+            {event.link && (
+              <div className="text-xs mt-1 truncate" title={event.link}>{event.link}</div>
+            )}
+            {event.reason && (
+              <div className="text-xs mt-1 text-red-600">{event.reason}</div>
+            )}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
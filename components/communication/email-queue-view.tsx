@@ -0,0 +1,260 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Eye, RefreshCw, RotateCcw, XCircle } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  EMAIL_QUEUE_STATUS_CONFIG,
+  EMAIL_QUEUE_VIEWS,
+  EMAIL_QUEUE_VIEW_LABELS,
+  canCancelQueuedEmail,
+  canResendQueuedEmail,
+  type EmailQueueCounts,
+  type EmailQueueItemSummary,
+  type EmailQueueView as QueueView
+} from '@/lib/email-queue'
+
+interface EmailQueueViewProps {
+  currentUserId?: string
+  canManageAll: boolean
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-GB', {
+    timeZone: 'Europe/London',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+
+/**
+ * Email Queue View
+ *
+ * Outbound emails that have not gone out yet, or that the queue gave up on.
+ *
+ * Features:
+ * - Pending (due now or waiting to retry), scheduled and dead-letter views with counts
+ * - Attempts, next attempt time and the last provider error for each email
+ * - Cancel a pending or scheduled email before it is sent
+ * - Resend a dead-lettered email with a fresh set of attempts
+ */
+export function EmailQueueView({ currentUserId, canManageAll }: EmailQueueViewProps) {
+  const [view, setView] = useState<QueueView>('pending')
+  const [items, setItems] = useState<EmailQueueItemSummary[]>([])
+  const [counts, setCounts] = useState<EmailQueueCounts | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [actionId, setActionId] = useState<string | null>(null)
+  const [previewItem, setPreviewItem] = useState<EmailQueueItemSummary | null>(null)
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/communication/queue?view=${view}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load email queue')
+        return
+      }
+
+      setItems(data.items)
+      setCounts(data.counts)
+    } catch (error) {
+      console.error('Error fetching email queue:', error)
+      toast.error('Error loading email queue')
+    } finally {
+      setLoading(false)
+    }
+  }, [view])
+
+  useEffect(() => {
+    fetchQueue()
+  }, [fetchQueue])
+
+  const handleAction = async (item: EmailQueueItemSummary, action: 'cancel' | 'resend') => {
+    const recipient = item.recipients[0]?.email || 'the recipient'
+    const prompt = action === 'cancel'
+      ? `Cancel this email to ${recipient}? It will not be sent.`
+      : `Resend this email to ${recipient}?`
+    if (!confirm(prompt)) return
+
+    try {
+      setActionId(item.id)
+      const response = await fetch(`/api/communication/queue/${item.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to update queued email')
+        return
+      }
+
+      toast.success(data.message)
+      await fetchQueue()
+    } catch (error) {
+      console.error('Error updating queued email:', error)
+      toast.error('Error updating queued email')
+    } finally {
+      setActionId(null)
+    }
+  }
+
+  // Anyone can manage the emails they queued; Partners and Managers can manage every email
+  const canManage = (item: EmailQueueItemSummary) => canManageAll || (!!currentUserId && item.createdById === currentUserId)
+
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+          <div className="flex gap-2">
+            {EMAIL_QUEUE_VIEWS.map(queueView => (
+              <Button
+                key={queueView}
+                variant={view === queueView ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setView(queueView)}
+              >
+                {EMAIL_QUEUE_VIEW_LABELS[queueView]}
+                {counts && (
+                  <Badge variant="secondary" className="ml-2">{counts[queueView]}</Badge>
+                )}
+              </Button>
+            ))}
+          </div>
+          <Button onClick={fetchQueue} variant="outline" size="sm" disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </div>
+
+        {loading && items.length === 0 ? (
+          <div className="flex items-center justify-center py-8">
+            <RefreshCw className="h-6 w-6 animate-spin mr-2" />
+            Loading queue...
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No {EMAIL_QUEUE_VIEW_LABELS[view].toLowerCase()} emails.
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-24">Status</TableHead>
+                  <TableHead className="w-40">
+                    {view === 'scheduled' ? 'Send at' : view === 'dead_letter' ? 'Gave up' : 'Next attempt'}
+                  </TableHead>
+                  <TableHead className="w-48">To</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead className="w-24">Attempts</TableHead>
+                  <TableHead className="w-32">Queued by</TableHead>
+                  <TableHead className="w-32">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map(item => {
+                  const statusConfig = EMAIL_QUEUE_STATUS_CONFIG[item.status]
+                  const when = view === 'scheduled'
+                    ? item.scheduledFor
+                    : view === 'dead_letter' ? item.deadLetteredAt : item.nextAttemptAt
+
+                  return (
+                    <TableRow key={item.id} className="hover:bg-muted/50">
+                      <TableCell>
+                        <Badge variant="outline" className={statusConfig.color}>{statusConfig.label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{when ? formatDateTime(when) : '-'}</TableCell>
+                      <TableCell>
+                        <div className="space-y-1">
+                          <div className="font-medium text-sm">
+                            {item.recipients.map(recipient => recipient.email).join(', ')}
+                          </div>
+                          {item.client && (
+                            <div className="text-xs text-muted-foreground">
+                              {item.client.clientCode} - {item.client.companyName}
+                            </div>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium text-sm">{item.subject}</div>
+                        {item.lastError && (
+                          <div className="text-xs text-red-600 mt-1 line-clamp-2" title={item.lastError}>
+                            {item.lastService && <span className="capitalize">{item.lastService}: </span>}
+                            {item.lastError}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{item.attempts} / {item.maxAttempts}</TableCell>
+                      <TableCell className="text-sm">{item.createdByName || 'System'}</TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setPreviewItem(item)}
+                            title="Preview email"
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          {canManage(item) && canCancelQueuedEmail(item.status) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleAction(item, 'cancel')}
+                              disabled={actionId !== null}
+                              title="Cancel email"
+                              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                            >
+                              <XCircle className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {canManage(item) && canResendQueuedEmail(item.status) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleAction(item, 'resend')}
+                              disabled={actionId !== null}
+                              title="Resend email"
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <Dialog open={previewItem !== null} onOpenChange={(open) => !open && setPreviewItem(null)}>
+          <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{previewItem?.subject}</DialogTitle>
+            </DialogHeader>
+            {previewItem && (
+              <div
+                className="border rounded-lg p-4 bg-background max-h-[70vh] overflow-y-auto"
+                dangerouslySetInnerHTML={{ __html: previewItem.htmlContent }}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,48 @@
+'use client'
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Textarea } from '@/components/ui/textarea'
+import { MAX_TEXT_MESSAGE_LENGTH, countSmsSegments } from '@/lib/messaging'
+
+interface SmsTextCardProps {
+  value: string
+  onChange: (value: string) => void
+}
+
+/**
+ * SMS Text Card
+ *
+ * The short text variant of an email template, sent when the template is used for an SMS or
+ * WhatsApp message. Uses the same {{variables}} as the email.
+ *
+ * Features:
+ * - Character count and the number of SMS segments the text will be billed as
+ * - Warns when emoji or other non-GSM characters shrink the segment size
+ */
+export function SmsTextCard({ value, onChange }: SmsTextCardProps) {
+  const { characters, segments, unicode } = countSmsSegments(value)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>SMS / WhatsApp Text</CardTitle>
+        <CardDescription>
+          Optional. A short version of this email for clients who have agreed to texts - leave it empty if the template is email only.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="Hi {{client.contactName}}, we're still waiting on your paperwork for {{vat.quarterPeriod}}. Thanks, {{user.name}}"
+          rows={4}
+          maxLength={MAX_TEXT_MESSAGE_LENGTH}
+        />
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>{unicode ? 'Contains emoji or special characters - 70 characters per segment' : 'Variables are filled in before sending, so the final length varies'}</span>
+          <span>{characters}/{MAX_TEXT_MESSAGE_LENGTH} · {segments} segment{segments === 1 ? '' : 's'}</span>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,38 @@
+'use client'
+
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { AlertTriangle } from 'lucide-react'
+
+interface TemplateErrorsAlertProps {
+  errors: string[]
+}
+
+/**
+ * Template Errors Alert
+ *
+ * Lists the problems validateEmailTemplateFields found in a template being edited,
+ * so they can be fixed before saving rather than discovered when the email goes out.
+ *
+ * Features:
+ * - One line per error, with the field and line number
+ * - Renders nothing when the template is valid
+ */
+export function TemplateErrorsAlert({ errors }: TemplateErrorsAlertProps) {
+  if (errors.length === 0) return null
+
+  return (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {errors.length === 1 ? '1 template error' : `${errors.length} template errors`}
+      </AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc pl-4 space-y-1 text-sm">
+          {errors.map(error => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  )
+}
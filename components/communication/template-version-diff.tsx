@@ -0,0 +1,80 @@
+'use client'
+
+import { useMemo } from 'react'
+import { Badge } from '@/components/ui/badge'
+import {
+  diffTemplateVersions,
+  type EmailTemplateVersionSummary,
+  type TemplateDiffLine
+} from '@/lib/email-template-versions'
+
+interface TemplateVersionDiffProps {
+  before: EmailTemplateVersionSummary
+  after: EmailTemplateVersionSummary
+}
+
+const FIELD_LABELS = {
+  subject: 'Subject',
+  htmlContent: 'Content',
+  textContent: 'Plain text',
+  smsContent: 'SMS text'
+} as const
+
+const LINE_STYLES: Record<TemplateDiffLine['type'], string> = {
+  same: 'text-muted-foreground',
+  added: 'bg-green-50 text-green-900',
+  removed: 'bg-red-50 text-red-900 line-through decoration-red-300'
+}
+
+const LINE_MARKERS: Record<TemplateDiffLine['type'], string> = {
+  same: ' ',
+  added: '+',
+  removed: '-'
+}
+
+/**
+ * Template Version Diff
+ *
+ * Line-by-line comparison of two template versions, one section per field.
+ *
+ * Features:
+ * - HTML content split into one line per paragraph so small wording changes stand out
+ * - Added lines in green, removed lines in red
+ * - Unchanged fields collapsed to a single note
+ */
+export function TemplateVersionDiff({ before, after }: TemplateVersionDiffProps) {
+  const diff = useMemo(() => diffTemplateVersions(before, after), [before, after])
+
+  return (
+    <div className="space-y-4">
+      {(Object.keys(FIELD_LABELS) as Array<keyof typeof FIELD_LABELS>).map(field => {
+        const lines = diff[field]
+        const added = lines.filter(line => line.type === 'added').length
+        const removed = lines.filter(line => line.type === 'removed').length
+
+        return (
+          <div key={field} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <h4 className="text-sm font-medium">{FIELD_LABELS[field]}</h4>
+              {added > 0 && <Badge className="bg-green-100 text-green-800">+{added}</Badge>}
+              {removed > 0 && <Badge className="bg-red-100 text-red-800">-{removed}</Badge>}
+            </div>
+
+            {added === 0 && removed === 0 ? (
+              <p className="text-xs text-muted-foreground">No changes</p>
+            ) : (
+              <div className="border rounded-lg overflow-x-auto font-mono text-xs">
+                {lines.map((line, index) => (
+                  <div key={index} className={`flex gap-2 px-3 py-1 ${LINE_STYLES[line.type]}`}>
+                    <span className="select-none w-3 shrink-0">{LINE_MARKERS[line.type]}</span>
+                    <span className="whitespace-pre-wrap break-all">{line.text}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
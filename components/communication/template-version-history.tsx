@@ -0,0 +1,278 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Eye, RotateCcw, Upload } from 'lucide-react'
+import { toast } from 'sonner'
+import { TemplateVersionDiff } from '@/components/communication/template-version-diff'
+import {
+  EMAIL_TEMPLATE_VERSION_STATUS_CONFIG,
+  type EmailTemplateVersionSummary
+} from '@/lib/email-template-versions'
+
+interface TemplateVersionHistoryProps {
+  templateId: string
+  canManage: boolean
+  initialVersionId?: string | null
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-GB', {
+    timeZone: 'Europe/London',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+
+/**
+ * Template Version History
+ *
+ * Every saved version of a template, with a diff between any two versions and one-click rollback.
+ *
+ * Features:
+ * - Version list with status, author, time, change note and emails sent
+ * - Compare any version against any other (defaults to the version before it)
+ * - Preview the exact wording of a version
+ * - Publish a draft or roll back to an earlier version (managers and partners)
+ */
+export function TemplateVersionHistory({ templateId, canManage, initialVersionId }: TemplateVersionHistoryProps) {
+  const [versions, setVersions] = useState<EmailTemplateVersionSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selectedId, setSelectedId] = useState<string | null>(initialVersionId || null)
+  const [compareId, setCompareId] = useState<string | null>(null)
+  const [actionId, setActionId] = useState<string | null>(null)
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/communication/templates/${templateId}/versions`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load version history')
+        return
+      }
+
+      setVersions(data.versions)
+    } catch (error) {
+      console.error('Error fetching template versions:', error)
+      toast.error('Error loading version history')
+    } finally {
+      setLoading(false)
+    }
+  }, [templateId])
+
+  useEffect(() => {
+    fetchVersions()
+  }, [fetchVersions])
+
+  const selected = versions.find(version => version.id === selectedId) || versions[0] || null
+  const selectedIndex = selected ? versions.indexOf(selected) : -1
+  // Versions are newest first, so the one after the selected version in the list came before it
+  const compareWith = versions.find(version => version.id === compareId) || versions[selectedIndex + 1] || null
+
+  const selectVersion = (versionId: string) => {
+    setSelectedId(versionId)
+    setCompareId(null)
+  }
+
+  const handleAction = async (version: EmailTemplateVersionSummary, action: 'publish' | 'rollback') => {
+    const prompt = action === 'publish'
+      ? `Publish version ${version.version}? Emails will use this wording from now on.`
+      : `Roll back to version ${version.version}? Its wording will be published as a new version.`
+    if (!confirm(prompt)) return
+
+    try {
+      setActionId(version.id)
+      const response = await fetch(`/api/communication/templates/${templateId}/versions/${version.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to update template version')
+        return
+      }
+
+      toast.success(data.message)
+      setSelectedId(data.version.id)
+      setCompareId(null)
+      await fetchVersions()
+    } catch (error) {
+      console.error('Error updating template version:', error)
+      toast.error('Error updating template version')
+    } finally {
+      setActionId(null)
+    }
+  }
+
+  if (loading && versions.length === 0) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-48 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Versions</CardTitle>
+          <CardDescription>
+            Every saved version of this template. Sent emails are linked to the version they used.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Saved by</TableHead>
+                <TableHead>Change note</TableHead>
+                <TableHead className="text-right">Emails sent</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {versions.map(version => {
+                const statusConfig = EMAIL_TEMPLATE_VERSION_STATUS_CONFIG[version.status]
+
+                return (
+                  <TableRow
+                    key={version.id}
+                    className={version.id === selected?.id ? 'bg-muted/50' : undefined}
+                  >
+                    <TableCell className="font-medium">v{version.version}</TableCell>
+                    <TableCell>
+                      <Badge className={statusConfig.color}>{statusConfig.label}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">{version.createdByName}</div>
+                      <div className="text-xs text-muted-foreground">{formatDateTime(version.createdAt)}</div>
+                      {version.publishedAt && version.publishedByName && version.publishedAt !== version.createdAt && (
+                        <div className="text-xs text-muted-foreground">
+                          Published by {version.publishedByName}, {formatDateTime(version.publishedAt)}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm max-w-xs">
+                      {version.changeNote || <span className="text-muted-foreground">-</span>}
+                    </TableCell>
+                    <TableCell className="text-right">{version.emailCount}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => selectVersion(version.id)}>
+                          <Eye className="h-4 w-4 mr-1" />
+                          View
+                        </Button>
+                        {canManage && version.status === 'DRAFT' && (
+                          <Button
+                            size="sm"
+                            onClick={() => handleAction(version, 'publish')}
+                            disabled={actionId !== null}
+                          >
+                            <Upload className="h-4 w-4 mr-1" />
+                            Publish
+                          </Button>
+                        )}
+                        {canManage && version.status === 'SUPERSEDED' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleAction(version, 'rollback')}
+                            disabled={actionId !== null}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Roll back
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Version {selected.version}</CardTitle>
+            <CardDescription>
+              {selected.restoredFromVersion
+                ? `Restored from version ${selected.restoredFromVersion}`
+                : `Saved by ${selected.createdByName} on ${formatDateTime(selected.createdAt)}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Tabs defaultValue="changes">
+              <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                <TabsList>
+                  <TabsTrigger value="changes">Changes</TabsTrigger>
+                  <TabsTrigger value="preview">Preview</TabsTrigger>
+                </TabsList>
+
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-muted-foreground">Compared with</span>
+                  <Select
+                    value={compareWith?.id || ''}
+                    onValueChange={setCompareId}
+                    disabled={versions.length < 2}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue placeholder="No other version" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.filter(version => version.id !== selected.id).map(version => (
+                        <SelectItem key={version.id} value={version.id}>
+                          Version {version.version}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <TabsContent value="changes">
+                {compareWith ? (
+                  <TemplateVersionDiff before={compareWith} after={selected} />
+                ) : (
+                  <p className="text-sm text-muted-foreground">This is the first version - there is nothing to compare it with.</p>
+                )}
+              </TabsContent>
+
+              <TabsContent value="preview" className="space-y-4">
+                <div>
+                  <div className="text-sm font-medium mb-1">Subject</div>
+                  <div className="text-sm p-3 bg-muted rounded-lg">{selected.subject}</div>
+                </div>
+                <div>
+                  <div className="text-sm font-medium mb-1">Content</div>
+                  <div
+                    className="border rounded-lg p-4 bg-background max-h-96 overflow-y-auto"
+                    dangerouslySetInnerHTML={{ __html: selected.htmlContent }}
+                  />
+                </div>
+              </TabsContent>
+            </Tabs>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
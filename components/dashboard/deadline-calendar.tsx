@@ -15,7 +15,10 @@ import {
   Filter,
   Download,
   Receipt,
-  Calculator
+  Calculator,
+  Banknote,
+  HardHat,
+  Plane
 } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -33,6 +36,7 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip'
+import { LEAVE_TYPE_LABELS, describeWorkingDays, isFullTime, type LeaveType } from '@/lib/staff-leave'
 
 interface DeadlineItem {
   id: string
@@ -40,7 +44,7 @@ interface DeadlineItem {
   clientName: string
   companyNumber?: string
   dueDate: Date
-  type: 'accounts' | 'confirmation' | 'corporation-tax' | 'vat'
+  type: 'accounts' | 'confirmation' | 'corporation-tax' | 'vat' | 'self-assessment' | 'payroll' | 'cis'
   assignedUser?: {
     id: string
     name: string
@@ -51,12 +55,24 @@ interface DeadlineItem {
   completedDate?: Date
 }
 
+interface CalendarLeave {
+  id: string
+  userId: string
+  userName: string
+  type: string
+  // YYYY-MM-DD, inclusive
+  startDate: string
+  endDate: string
+}
+
 interface DeadlineCalendarProps {
   deadlines: DeadlineItem[]
   users: Array<{
     id: string
     name: string
+    workingDays?: number[]
   }>
+  leave?: CalendarLeave[]
   userRole: string
   currentUserId: string
   currentUserName: string
@@ -66,7 +82,11 @@ type ViewType = 'month' | 'week' | 'list'
 type ScopeType = 'my' | 'company'
 type StatusFilterType = 'all' | 'due'
 
-export function DeadlineCalendar({ deadlines, users, userRole, currentUserId, currentUserName }: DeadlineCalendarProps) {
+// Local calendar day as YYYY-MM-DD, to compare with leave dates
+const toDayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+export function DeadlineCalendar({ deadlines, users, leave = [], userRole, currentUserId, currentUserName }: DeadlineCalendarProps) {
   const [currentDate, setCurrentDate] = useState(new Date())
   const [view, setView] = useState<ViewType>('month')
   const [selectedUser, setSelectedUser] = useState<string>('all')
@@ -111,6 +131,51 @@ export function DeadlineCalendar({ deadlines, users, userRole, currentUserId, cu
     })
   }, [deadlines, selectedUser, selectedType, scope, currentUserId, canFilterByUser, statusFilter])
 
+  // Leave for the same people as the deadlines on show
+  const focusedUserId = scope === 'my' ? currentUserId : selectedUser !== 'all' ? selectedUser : null
+  const filteredLeave = useMemo(() => {
+    return focusedUserId ? leave.filter(range => range.userId === focusedUserId) : leave
+  }, [leave, focusedUserId])
+
+  // Days off in a part-time pattern are shown when looking at one person
+  const focusedWorkingDays = useMemo(() => {
+    const workingDays = users.find(user => user.id === focusedUserId)?.workingDays
+    return workingDays && !isFullTime(workingDays) ? workingDays : null
+  }, [users, focusedUserId])
+
+  const getLeaveForDay = (date: Date) => {
+    const key = toDayKey(date)
+    return filteredLeave.filter(range => range.startDate <= key && range.endDate >= key)
+  }
+
+  const isNonWorkingDay = (date: Date) => !!focusedWorkingDays && !focusedWorkingDays.includes(date.getDay())
+
+  const formatLeaveDate = (day: string) => new Date(`${day}T00:00:00`).toLocaleDateString('en-GB')
+
+  const renderLeaveChip = (range: CalendarLeave, compact: boolean) => (
+    <TooltipProvider key={range.id}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <div className={`text-xs px-1 py-0.5 rounded border border-dashed bg-slate-50 text-slate-700 border-slate-300 ${compact ? '' : 'p-2'}`}>
+            <div className="flex items-center gap-1">
+              <Plane className="h-3 w-3 shrink-0" />
+              <span className="truncate">{range.userName}</span>
+            </div>
+          </div>
+        </TooltipTrigger>
+        <TooltipContent>
+          <div className="text-sm">
+            <div className="font-medium">{range.userName}</div>
+            <div className="text-muted-foreground">
+              {LEAVE_TYPE_LABELS[range.type as LeaveType] || range.type}: {formatLeaveDate(range.startDate)}
+              {range.endDate !== range.startDate && ` to ${formatLeaveDate(range.endDate)}`}
+            </div>
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+
   // Generate calendar days for month view
   const monthDays = useMemo(() => {
     const year = currentDate.getFullYear()
@@ -235,6 +300,21 @@ export function DeadlineCalendar({ deadlines, users, userRole, currentUserId, cu
         normal: 'bg-orange-100 text-orange-800 border-orange-200',
         urgent: 'bg-orange-200 text-orange-900 border-orange-300',
         overdue: 'bg-red-100 text-red-800 border-red-200'
+      },
+      'self-assessment': {
+        normal: 'bg-teal-100 text-teal-800 border-teal-200',
+        urgent: 'bg-teal-200 text-teal-900 border-teal-300',
+        overdue: 'bg-red-100 text-red-800 border-red-200'
+      },
+      'payroll': {
+        normal: 'bg-pink-100 text-pink-800 border-pink-200',
+        urgent: 'bg-pink-200 text-pink-900 border-pink-300',
+        overdue: 'bg-red-100 text-red-800 border-red-200'
+      },
+      'cis': {
+        normal: 'bg-amber-100 text-amber-800 border-amber-200',
+        urgent: 'bg-amber-200 text-amber-900 border-amber-300',
+        overdue: 'bg-red-100 text-red-800 border-red-200'
       }
     }
 
@@ -255,6 +335,12 @@ export function DeadlineCalendar({ deadlines, users, userRole, currentUserId, cu
         return Receipt
       case 'vat':
         return Calculator
+      case 'self-assessment':
+        return User
+      case 'payroll':
+        return Banknote
+      case 'cis':
+        return HardHat
       default:
         return FileText
     }
@@ -287,10 +373,19 @@ export function DeadlineCalendar({ deadlines, users, userRole, currentUserId, cu
             !day.isCurrentMonth ? 'opacity-50' : ''
           } ${day.isToday ? 'bg-blue-50' : ''}`}
         >
-          <div className="text-sm font-medium mb-1">
+          <div className="text-sm font-medium mb-1 flex items-center justify-between">
             {day.date.getDate()}
+            {isNonWorkingDay(day.date) && (
+              <span className="text-[10px] font-normal text-muted-foreground">Not working</span>
+            )}
           </div>
           <div className="space-y-1">
+            {getLeaveForDay(day.date).slice(0, 2).map(range => renderLeaveChip(range, true))}
+            {getLeaveForDay(day.date).length > 2 && (
+              <div className="text-xs text-muted-foreground">
+                +{getLeaveForDay(day.date).length - 2} more away
+              </div>
+            )}
             {day.deadlines.slice(0, 3).map(deadline => {
               const Icon = getTypeIcon(deadline.type)
               return (
@@ -313,7 +408,10 @@ export function DeadlineCalendar({ deadlines, users, userRole, currentUserId, cu
                           {deadline.type === 'accounts' ? 'Annual Accounts' : 
                            deadline.type === 'confirmation' ? 'Confirmation Statement' :
                            deadline.type === 'corporation-tax' ? 'Corporation Tax' :
-                           deadline.type === 'vat' ? 'VAT Return' : deadline.type}
+                           deadline.type === 'vat' ? 'VAT Return' :
+                           deadline.type === 'self-assessment' ? 'Self Assessment' :
+                           deadline.type === 'payroll' ? 'Payroll (FPS)' :
+                           deadline.type === 'cis' ? 'CIS300' : deadline.type}
                         </div>
                         <div className="text-muted-foreground">
                           Due: {formatDate(deadline.dueDate)}
@@ -364,9 +462,13 @@ export function DeadlineCalendar({ deadlines, users, userRole, currentUserId, cu
             }`}>
               {day.date.getDate()}
             </div>
+            {isNonWorkingDay(day.date) && (
+              <div className="text-xs text-muted-foreground">Not working</div>
+            )}
           </div>
           
           <div className="space-y-1 min-h-[300px]">
+            {getLeaveForDay(day.date).map(range => renderLeaveChip(range, false))}
             {day.deadlines.map(deadline => {
               const Icon = getTypeIcon(deadline.type)
               return (
@@ -380,7 +482,10 @@ export function DeadlineCalendar({ deadlines, users, userRole, currentUserId, cu
                       {deadline.type === 'accounts' ? 'Annual Accounts' : 
                        deadline.type === 'confirmation' ? 'Confirmation Statement' :
                        deadline.type === 'corporation-tax' ? 'Corporation Tax' :
-                       deadline.type === 'vat' ? 'VAT Return' : deadline.type}
+                       deadline.type === 'vat' ? 'VAT Return' :
+                       deadline.type === 'self-assessment' ? 'Self Assessment' :
+                       deadline.type === 'payroll' ? 'Payroll (FPS)' :
+                           deadline.type === 'cis' ? 'CIS300' : deadline.type}
                     </div>
                     {deadline.assignedUser && (
                       <div className="flex items-center gap-1 text-xs opacity-80">
@@ -434,7 +539,10 @@ export function DeadlineCalendar({ deadlines, users, userRole, currentUserId, cu
                             {deadline.type === 'accounts' ? 'Annual Accounts' : 
                              deadline.type === 'confirmation' ? 'Confirmation Statement' :
                              deadline.type === 'corporation-tax' ? 'Corporation Tax' :
-                             deadline.type === 'vat' ? 'VAT Return' : deadline.type}
+                             deadline.type === 'vat' ? 'VAT Return' :
+                             deadline.type === 'self-assessment' ? 'Self Assessment' :
+                             deadline.type === 'payroll' ? 'Payroll (FPS)' :
+                           deadline.type === 'cis' ? 'CIS300' : deadline.type}
                             {deadline.companyNumber && ` • ${deadline.companyNumber}`}
                           </div>
                         </div>
@@ -487,6 +595,11 @@ export function DeadlineCalendar({ deadlines, users, userRole, currentUserId, cu
               : 'Track all company client deadlines: accounts, confirmations, corporation tax, and VAT returns'
             }
           </p>
+          {focusedWorkingDays && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Works {describeWorkingDays(focusedWorkingDays)}
+            </p>
+          )}
         </div>
         
         <div className="flex items-center gap-2">
@@ -584,6 +697,9 @@ export function DeadlineCalendar({ deadlines, users, userRole, currentUserId, cu
               <SelectItem value="confirmation">Confirmations</SelectItem>
               <SelectItem value="corporation-tax">Corporation Tax</SelectItem>
               <SelectItem value="vat">VAT Returns</SelectItem>
+              <SelectItem value="self-assessment">Self Assessment</SelectItem>
+              <SelectItem value="payroll">Payroll</SelectItem>
+              <SelectItem value="cis">CIS</SelectItem>
             </SelectContent>
           </Select>
 
@@ -14,7 +14,9 @@ import { TeamWorkloadWidget } from './widgets/team-workload-widget'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { useRouter } from 'next/navigation'
+import type { TeamSummary } from '@/lib/teams'
 import { 
   Crown,
   Shield,
@@ -37,6 +39,11 @@ export function ManagerDashboard({ userId }: ManagerDashboardProps) {
   const router = useRouter()
   const [loading, setLoading] = useState(true)
   const [lastUpdated, setLastUpdated] = useState<string>('')
+  const [teams, setTeams] = useState<TeamSummary[]>([])
+  const [selectedTeamId, setSelectedTeamId] = useState<string>('all')
+
+  // Widgets cover every team the manager works in until one is picked
+  const teamId = selectedTeamId === 'all' ? undefined : selectedTeamId
 
   // Enhanced navigation handlers for unassigned clients
   const handleUnassignedNavigation = (type: 'ltd' | 'nonLtd' | 'vat') => {
@@ -53,6 +60,22 @@ export function ManagerDashboard({ userId }: ManagerDashboardProps) {
     }
   }
 
+  useEffect(() => {
+    const fetchTeams = async () => {
+      try {
+        const response = await fetch('/api/teams?mine=true')
+        const data = await response.json()
+        if (data.success) {
+          setTeams(data.teams)
+        }
+      } catch (error) {
+        console.error('Error fetching teams:', error)
+      }
+    }
+
+    fetchTeams()
+  }, [])
+
   useEffect(() => {
     // Simulate loading for consistency
     const timer = setTimeout(() => {
@@ -96,8 +119,25 @@ export function ManagerDashboard({ userId }: ManagerDashboardProps) {
               Team management and workflow oversight
             </p>
           </div>
-          <div className="text-xs text-muted-foreground">
-            Last updated: {lastUpdated}
+          <div className="flex items-center gap-3">
+            {teams.length > 0 && (
+              <Select value={selectedTeamId} onValueChange={setSelectedTeamId}>
+                <SelectTrigger className="w-48 h-8 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All my teams</SelectItem>
+                  {teams.map(team => (
+                    <SelectItem key={team.id} value={team.id}>
+                      {team.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <div className="text-xs text-muted-foreground">
+              Last updated: {lastUpdated}
+            </div>
           </div>
         </div>
 
@@ -111,13 +151,13 @@ export function ManagerDashboard({ userId }: ManagerDashboardProps) {
         {/* Row 2: Client Overview, Monthly Deadlines, Unassigned Clients */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           <Card>
-            <ClientOverviewWidget />
+            <ClientOverviewWidget teamId={teamId} />
           </Card>
           <Card>
-            <MonthlyDeadlinesWidget />
+            <MonthlyDeadlinesWidget teamId={teamId} />
           </Card>
           <Card>
-            <UnassignedClientsWidget onNavigate={handleUnassignedNavigation} />
+            <UnassignedClientsWidget onNavigate={handleUnassignedNavigation} teamId={teamId} />
           </Card>
         </div>
 
@@ -130,14 +170,14 @@ export function ManagerDashboard({ userId }: ManagerDashboardProps) {
             <PendingToChaseWidget userRole="MANAGER" userId={userId} />
           </Card>
           <Card>
-            <UpcomingDeadlinesWidget />
+            <UpcomingDeadlinesWidget teamId={teamId} />
           </Card>
         </div>
 
         {/* Row 4: Team Workload (Single Column) */}
         <div className="grid grid-cols-1 gap-6">
           <Card>
-            <TeamWorkloadWidget />
+            <TeamWorkloadWidget teamId={teamId} />
           </Card>
         </div>
       </div>
@@ -22,13 +22,24 @@ import {
   Crown,
   Shield,
   User,
-  Wrench
+  Wrench,
+  Repeat,
+  FileCheck,
+  UserRoundCheck,
+  Banknote,
+  MailWarning,
+  ShieldCheck,
+  Wand2,
+  Plane,
+  Timer,
+  PoundSterling
 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
 import { LondonTime } from '@/components/ui/london-time'
 import { NotificationIcon } from '@/components/notifications/notification-icon'
 import { NotificationSidebar } from '@/components/notifications/notification-sidebar'
+import { usePermissions } from '@/lib/hooks/usePermissions'
 
 /**
  * Dashboard navigation component
@@ -38,11 +49,12 @@ import { NotificationSidebar } from '@/components/notifications/notification-sid
  * - Official Numericalz logo only (no text)
  * - London time display below logo
  * - Collapsible menu sections
- * - Role-based navigation items
+ * - Permission-based navigation items
  * - Non-scrollable compact design
  */
 export function DashboardNavigation() {
   const { data: session, update } = useSession()
+  const { can } = usePermissions()
   const pathname = usePathname()
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
   const [currentUserName, setCurrentUserName] = useState<string>('')
@@ -135,10 +147,15 @@ export function DashboardNavigation() {
             href: '/dashboard/clients',
             icon: Building2,
           },
-          ...(session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER' ? [{
+          ...(can('clients.view_inactive') ? [{
             name: 'Inactive Clients',
             href: '/dashboard/clients/inactive',
             icon: Building2,
+          }] : []),
+          ...(can('clients.contact_health') ? [{
+            name: 'Contact Health',
+            href: '/dashboard/clients/contact-health',
+            icon: MailWarning,
           }] : [])
         ]
       },
@@ -157,6 +174,21 @@ export function DashboardNavigation() {
             href: '/dashboard/clients/non-ltd-companies',
             icon: Building2,
           },
+          {
+            name: 'Confirmation Statements',
+            href: '/dashboard/clients/confirmation-statements',
+            icon: FileCheck,
+          },
+          {
+            name: 'Self Assessment',
+            href: '/dashboard/clients/self-assessment',
+            icon: UserRoundCheck,
+          },
+          {
+            name: 'Payroll',
+            href: '/dashboard/clients/payroll',
+            icon: Banknote,
+          },
           {
             name: 'Directors',
             href: '/dashboard/accounts/directors',
@@ -179,11 +211,16 @@ export function DashboardNavigation() {
             href: '/dashboard/clients/vat-dt',
             icon: Calendar,
           },
-          {
+          ...(can('vat.analytics') ? [{
             name: 'VAT Analytics',
             href: '/dashboard/clients/vat-analytics',
             icon: BarChart3,
-          }
+          }] : []),
+          ...(can('vat.reconciliation') ? [{
+            name: 'VAT Reconciliation',
+            href: '/dashboard/clients/vat-reconciliation',
+            icon: FileCheck,
+          }] : [])
         ]
       },
       {
@@ -198,28 +235,38 @@ export function DashboardNavigation() {
           }
         ]
       },
-      ...(session?.user?.role === 'PARTNER' ? [{
+      {
         id: 'communication',
         title: 'Communication',
         icon: Mail,
         items: [
-          {
+          ...(can('templates.edit') ? [{
             name: 'Email Templates',
             href: '/dashboard/communication/templates',
             icon: Mail,
-          },
-          {
+          }] : []),
+          ...(can('communication.history.manage') ? [{
             name: 'Email History',
             href: '/dashboard/communication/history',
             icon: Mail,
-          },
-          {
+          }] : []),
+          ...(can('chase_sequences.manage') ? [{
+            name: 'Chase Sequences',
+            href: '/dashboard/communication/chase-sequences',
+            icon: Repeat,
+          }] : []),
+          ...(can('communication.analytics') ? [{
+            name: 'Email Analytics',
+            href: '/dashboard/communication/analytics',
+            icon: BarChart3,
+          }] : []),
+          ...(can('settings.manage') ? [{
             name: 'Communication Settings',
             href: '/dashboard/communication/settings',
             icon: Settings,
-          }
+          }] : [])
         ]
-      }] : []),
+      },
       {
         id: 'tools',
         title: 'Tools & Utilities',
@@ -234,44 +281,64 @@ export function DashboardNavigation() {
       }
     ]
 
-    // Add staff section for Partner
-    if (session?.user?.role === 'PARTNER') {
-      structure.push({
-        id: 'staff',
-        title: 'Staff Management',
-        icon: Users,
-        items: [
-          {
-            name: 'Users',
-            href: '/dashboard/staff',
-            icon: Users,
-          },
-          {
-            name: 'Workload',
-            href: '/dashboard/staff/workload',
-            icon: BarChart3,
-          }
-        ]
-      })
-    }
+    structure.push({
+      id: 'staff',
+      title: 'Staff Management',
+      icon: Users,
+      items: [
+        ...(can('users.manage') ? [{
+          name: 'Users',
+          href: '/dashboard/staff',
+          icon: Users,
+        }] : []),
+        ...(can('users.workload') ? [{
+          name: 'Workload',
+          href: '/dashboard/staff/workload',
+          icon: BarChart3,
+        }] : []),
+        {
+          name: 'Leave',
+          href: '/dashboard/staff/leave',
+          icon: Plane,
+        },
+        {
+          name: 'Timesheet',
+          href: '/dashboard/staff/timesheet',
+          icon: Timer,
+        },
+        ...(can('time.view_all') ? [{
+          name: 'Recoverability',
+          href: '/dashboard/staff/recoverability',
+          icon: PoundSterling,
+        }] : []),
+        ...(can('workflow.auto_assign') ? [{
+          name: 'Auto-Assign',
+          href: '/dashboard/staff/assignments',
+          icon: Wand2,
+        }] : []),
+        ...(can('permissions.manage') ? [{
+          name: 'Permissions',
+          href: '/dashboard/staff/permissions',
+          icon: ShieldCheck,
+        }] : [])
+      ]
+    })
 
-    // Add settings section for Partner and Manager
-    if (session?.user?.role === 'PARTNER' || session?.user?.role === 'MANAGER') {
-      structure.push({
-        id: 'settings',
-        title: 'Settings',
-        icon: Settings,
-        items: [
-          {
-            name: 'System Settings',
-            href: '/dashboard/settings',
-            icon: Settings,
-          }
-        ]
-      })
-    }
+    structure.push({
+      id: 'settings',
+      title: 'Settings',
+      icon: Settings,
+      items: [
+        ...(can('settings.manage') ? [{
+          name: 'System Settings',
+          href: '/dashboard/settings',
+          icon: Settings,
+        }] : [])
+      ]
+    })
 
-    return structure
+    // Hide sections the user's permissions leave empty
+    return structure.filter(section => section.items.length > 0)
   }
 
   const navigationStructure = getNavigationStructure()
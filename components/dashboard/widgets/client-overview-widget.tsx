@@ -16,7 +16,12 @@ interface ClientCounts {
   vat: number
 }
 
-export function ClientOverviewWidget() {
+interface ClientOverviewWidgetProps {
+  // Narrow the widget to one team
+  teamId?: string
+}
+
+export function ClientOverviewWidget({ teamId }: ClientOverviewWidgetProps = {}) {
   const [clientCounts, setClientCounts] = useState<ClientCounts | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -26,7 +31,7 @@ export function ClientOverviewWidget() {
       setLoading(true)
       setError(null)
       
-      const response = await fetch('/api/dashboard/widgets/client-overview', {
+      const response = await fetch(`/api/dashboard/widgets/client-overview${teamId ? `?teamId=${teamId}` : ''}`, {
         cache: 'no-store',
         headers: {
           'Cache-Control': 'no-cache, no-store, must-revalidate',
@@ -51,7 +56,7 @@ export function ClientOverviewWidget() {
 
   useEffect(() => {
     fetchClientCounts()
-  }, [])
+  }, [teamId])
 
   if (loading) {
     return (
@@ -22,7 +22,12 @@ interface MonthlyDeadlinesData {
   monthName: string
 }
 
-export function MonthlyDeadlinesWidget() {
+interface MonthlyDeadlinesWidgetProps {
+  // Narrow the widget to one team
+  teamId?: string
+}
+
+export function MonthlyDeadlinesWidget({ teamId }: MonthlyDeadlinesWidgetProps = {}) {
   const [data, setData] = useState<MonthlyDeadlinesData | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -32,7 +37,7 @@ export function MonthlyDeadlinesWidget() {
       setLoading(true)
       setError(null)
       
-      const response = await fetch('/api/dashboard/widgets/monthly-deadlines', {
+      const response = await fetch(`/api/dashboard/widgets/monthly-deadlines${teamId ? `?teamId=${teamId}` : ''}`, {
         cache: 'no-store',
         headers: {
           'Cache-Control': 'no-cache, no-store, must-revalidate',
@@ -57,7 +62,7 @@ export function MonthlyDeadlinesWidget() {
 
   useEffect(() => {
     fetchMonthlyDeadlines()
-  }, [])
+  }, [teamId])
 
   if (loading) {
     return (
@@ -32,7 +32,12 @@ interface TeamWorkloadData {
 type SortField = 'name' | 'vatClients' | 'accountsClients'
 type SortDirection = 'asc' | 'desc'
 
-export function TeamWorkloadWidget() {
+interface TeamWorkloadWidgetProps {
+  // Narrow the widget to one team
+  teamId?: string
+}
+
+export function TeamWorkloadWidget({ teamId }: TeamWorkloadWidgetProps = {}) {
   const [data, setData] = useState<TeamWorkloadData | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -44,7 +49,7 @@ export function TeamWorkloadWidget() {
       setLoading(true)
       setError(null)
       
-      const response = await fetch('/api/dashboard/widgets/team-workload', {
+      const response = await fetch(`/api/dashboard/widgets/team-workload${teamId ? `?teamId=${teamId}` : ''}`, {
         headers: {
           'Cache-Control': 'no-cache'
         }
@@ -71,7 +76,7 @@ export function TeamWorkloadWidget() {
 
   useEffect(() => {
     fetchTeamWorkload()
-  }, [])
+  }, [teamId])
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
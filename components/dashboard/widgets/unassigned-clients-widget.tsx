@@ -12,17 +12,19 @@ interface UnassignedCounts {
 }
 
 interface UnassignedClientsWidgetProps {
+  // Narrow the counts to one team
+  teamId?: string
   onNavigate: (type: 'ltd' | 'nonLtd' | 'vat') => void
 }
 
-export function UnassignedClientsWidget({ onNavigate }: UnassignedClientsWidgetProps) {
+export function UnassignedClientsWidget({ onNavigate, teamId }: UnassignedClientsWidgetProps) {
   const [unassignedCounts, setUnassignedCounts] = useState<UnassignedCounts | null>(null)
   const [loading, setLoading] = useState(true)
 
   const fetchUnassignedClients = async () => {
     try {
       setLoading(true)
-      const response = await fetch('/api/dashboard/widgets/unassigned-clients', {
+      const response = await fetch(`/api/dashboard/widgets/unassigned-clients${teamId ? `?teamId=${teamId}` : ''}`, {
         cache: 'no-store',
         headers: {
           'Cache-Control': 'no-cache, no-store, must-revalidate',
@@ -45,7 +47,7 @@ export function UnassignedClientsWidget({ onNavigate }: UnassignedClientsWidgetP
 
   useEffect(() => {
     fetchUnassignedClients()
-  }, [])
+  }, [teamId])
 
   if (loading) {
     return (
@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { Calendar, Receipt, FileText } from 'lucide-react'
+import { Calendar, Receipt, FileText, Banknote, HardHat } from 'lucide-react'
 
 interface DeadlineBreakdown {
   vat: {
@@ -19,16 +19,35 @@ interface DeadlineBreakdown {
     days60: number
     days90: number
   }
+  payroll: {
+    days7: number
+    days15: number
+    days30: number
+    days60: number
+    days90: number
+  }
+  cis: {
+    days7: number
+    days15: number
+    days30: number
+    days60: number
+    days90: number
+  }
+}
+
+interface UpcomingDeadlinesWidgetProps {
+  // Narrow the widget to one team
+  teamId?: string
 }
 
-export function UpcomingDeadlinesWidget() {
+export function UpcomingDeadlinesWidget({ teamId }: UpcomingDeadlinesWidgetProps = {}) {
   const [deadlineBreakdown, setDeadlineBreakdown] = useState<DeadlineBreakdown | null>(null)
   const [loading, setLoading] = useState(true)
 
   const fetchDeadlines = async () => {
     try {
       setLoading(true)
-      const response = await fetch('/api/dashboard/widgets/upcoming-deadlines', {
+      const response = await fetch(`/api/dashboard/widgets/upcoming-deadlines${teamId ? `?teamId=${teamId}` : ''}`, {
         cache: 'no-store',
         headers: {
           'Cache-Control': 'no-cache, no-store, must-revalidate',
@@ -51,7 +70,7 @@ export function UpcomingDeadlinesWidget() {
 
   useEffect(() => {
     fetchDeadlines()
-  }, [])
+  }, [teamId])
 
   if (loading) {
     return (
@@ -134,8 +153,12 @@ export function UpcomingDeadlinesWidget() {
     ...row,
     vatCount: deadlineBreakdown.vat[row.key as keyof typeof deadlineBreakdown.vat],
     accountsCount: deadlineBreakdown.accounts[row.key as keyof typeof deadlineBreakdown.accounts],
+    payrollCount: deadlineBreakdown.payroll[row.key as keyof typeof deadlineBreakdown.payroll],
+    cisCount: deadlineBreakdown.cis[row.key as keyof typeof deadlineBreakdown.cis],
     total: deadlineBreakdown.vat[row.key as keyof typeof deadlineBreakdown.vat] + 
-           deadlineBreakdown.accounts[row.key as keyof typeof deadlineBreakdown.accounts]
+           deadlineBreakdown.accounts[row.key as keyof typeof deadlineBreakdown.accounts] +
+           deadlineBreakdown.payroll[row.key as keyof typeof deadlineBreakdown.payroll] +
+           deadlineBreakdown.cis[row.key as keyof typeof deadlineBreakdown.cis]
   }))
 
   const grandTotal = totals.reduce((sum, row) => sum + row.total, 0)
@@ -157,7 +180,7 @@ export function UpcomingDeadlinesWidget() {
         ) : (
           <div className="space-y-3">
             {/* Table Header */}
-            <div className="grid grid-cols-4 gap-2 pb-2 border-b border-gray-200">
+            <div className="grid grid-cols-6 gap-2 pb-2 border-b border-gray-200">
               <div className="text-sm font-medium text-gray-700">Period</div>
               <div className="text-center text-sm font-medium text-blue-700 flex items-center justify-center gap-1">
                 <Receipt className="h-3 w-3" />
@@ -167,13 +190,21 @@ export function UpcomingDeadlinesWidget() {
                 <FileText className="h-3 w-3" />
                 Accounts
               </div>
+              <div className="text-center text-sm font-medium text-pink-700 flex items-center justify-center gap-1">
+                <Banknote className="h-3 w-3" />
+                Payroll
+              </div>
+              <div className="text-center text-sm font-medium text-amber-700 flex items-center justify-center gap-1">
+                <HardHat className="h-3 w-3" />
+                CIS
+              </div>
               <div className="text-center text-sm font-medium text-gray-700">Total</div>
             </div>
             
             {/* Table Rows */}
             <div className="space-y-1">
               {totals.map((row, index) => (
-                <div key={row.key} className={`grid grid-cols-4 gap-2 p-2 rounded-lg border ${row.bgColor} ${row.borderColor}`}>
+                <div key={row.key} className={`grid grid-cols-6 gap-2 p-2 rounded-lg border ${row.bgColor} ${row.borderColor}`}>
                   <div className={`text-sm font-medium ${row.color}`}>
                     {row.label}
                   </div>
@@ -187,6 +218,16 @@ export function UpcomingDeadlinesWidget() {
                       {row.accountsCount}
                     </span>
                   </div>
+                  <div className="text-center">
+                    <span className={`font-bold ${row.payrollCount > 0 ? 'text-pink-700' : 'text-gray-400'}`}>
+                      {row.payrollCount}
+                    </span>
+                  </div>
+                  <div className="text-center">
+                    <span className={`font-bold ${row.cisCount > 0 ? 'text-amber-700' : 'text-gray-400'}`}>
+                      {row.cisCount}
+                    </span>
+                  </div>
                   <div className="text-center">
                     <span className={`font-bold ${row.total > 0 ? 'text-gray-900' : 'text-gray-400'}`}>
                       {row.total}
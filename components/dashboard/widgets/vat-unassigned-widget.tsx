@@ -114,6 +114,12 @@ export function VATUnassignedWidget({ compact = false }: VATUnassignedWidgetProp
           title: 'Success',
           description: data.message
         })
+        if (data.warning) {
+          toast({
+            title: 'Assignee on leave',
+            description: data.warning
+          })
+        }
         // Refresh the list
         await fetchUnassignedClients()
       } else {
@@ -0,0 +1,273 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { AlertTriangle, CheckCircle, FileText, Loader2, Upload, X } from 'lucide-react'
+
+interface ClientUploadPortalProps {
+  token: string
+}
+
+interface PortalDetails {
+  companyName: string
+  periodLabel: string
+  dueDate: string
+  expiresAt: string
+  categories: Record<string, string>
+}
+
+/**
+ * Client-facing upload form for a document portal magic link
+ * 
+ * Features:
+ * - Validates the link before showing the form
+ * - Multi-file selection with per-file removal
+ * - Document category and optional notes for the accountant
+ */
+export function ClientUploadPortal({ token }: ClientUploadPortalProps) {
+  const [details, setDetails] = useState<PortalDetails | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [files, setFiles] = useState<File[]>([])
+  const [name, setName] = useState('')
+  const [email, setEmail] = useState('')
+  const [category, setCategory] = useState('BANK_STATEMENT')
+  const [notes, setNotes] = useState('')
+  const [isUploading, setIsUploading] = useState(false)
+  const [uploadError, setUploadError] = useState<string | null>(null)
+  const [uploadedCount, setUploadedCount] = useState(0)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    const loadDetails = async () => {
+      try {
+        const response = await fetch(`/api/portal/${token}`)
+        const data = await response.json()
+
+        if (!response.ok) {
+          setLoadError(data.error || 'This upload link is not valid')
+          return
+        }
+
+        setDetails(data.data)
+      } catch (error) {
+        setLoadError('Unable to load this upload link. Please try again later.')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadDetails()
+  }, [token])
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-GB', {
+      day: '2-digit',
+      month: 'long',
+      year: 'numeric'
+    })
+  }
+
+  const formatFileSize = (bytes: number) => {
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || [])
+    setFiles(prev => [...prev, ...selected])
+    setUploadError(null)
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  const removeFile = (index: number) => {
+    setFiles(prev => prev.filter((_, i) => i !== index))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (files.length === 0) {
+      setUploadError('Please choose at least one file to upload')
+      return
+    }
+
+    setIsUploading(true)
+    setUploadError(null)
+
+    try {
+      const formData = new FormData()
+      files.forEach(file => formData.append('files', file))
+      formData.append('name', name)
+      formData.append('email', email)
+      formData.append('category', category)
+      formData.append('notes', notes)
+
+      const response = await fetch(`/api/portal/${token}`, {
+        method: 'POST',
+        body: formData,
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setUploadError(data.error || 'Upload failed. Please try again.')
+        return
+      }
+
+      setUploadedCount(prev => prev + data.data.uploaded.length)
+      setFiles([])
+      setNotes('')
+    } catch (error) {
+      setUploadError('Upload failed. Please check your connection and try again.')
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="py-12 flex justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (loadError || !details) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center space-y-3">
+          <AlertTriangle className="h-8 w-8 text-amber-600 mx-auto" />
+          <p className="text-sm text-muted-foreground">{loadError}</p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{details.companyName}</CardTitle>
+        <CardDescription>
+          {details.periodLabel} • Link valid until {formatDate(details.expiresAt)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {uploadedCount > 0 && (
+          <div className="mb-4 flex items-start gap-2 rounded-md border border-green-200 bg-green-50 p-3">
+            <CheckCircle className="h-4 w-4 text-green-600 mt-0.5" />
+            <p className="text-sm text-green-800">
+              Thank you - {uploadedCount} file{uploadedCount === 1 ? '' : 's'} received. You can upload more below if needed.
+            </p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="portal-name">Your name</Label>
+              <Input
+                id="portal-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Jane Smith"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="portal-email">Your email</Label>
+              <Input
+                id="portal-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="jane@example.com"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Document type</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(details.categories).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Files</Label>
+            <div
+              className="rounded-md border border-dashed p-6 text-center cursor-pointer hover:bg-muted/50"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload className="h-6 w-6 text-muted-foreground mx-auto mb-2" />
+              <p className="text-sm text-muted-foreground">Click to choose PDFs, photos or spreadsheets</p>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                className="hidden"
+                onChange={handleFileChange}
+              />
+            </div>
+            {files.length > 0 && (
+              <div className="space-y-2">
+                {files.map((file, index) => (
+                  <div key={`${file.name}-${index}`} className="flex items-center justify-between rounded-sm border p-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                      <span className="text-sm truncate">{file.name}</span>
+                      <span className="text-xs text-muted-foreground flex-shrink-0">{formatFileSize(file.size)}</span>
+                    </div>
+                    <Button type="button" variant="ghost" size="sm" onClick={() => removeFile(index)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="portal-notes">Notes for your accountant (optional)</Label>
+            <Textarea
+              id="portal-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+            />
+          </div>
+
+          {uploadError && (
+            <p className="text-sm text-red-600">{uploadError}</p>
+          )}
+
+          <Button type="submit" className="w-full" disabled={isUploading || files.length === 0}>
+            {isUploading ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Uploading...
+              </>
+            ) : (
+              <>
+                <Upload className="h-4 w-4 mr-2" />
+                Upload {files.length > 0 ? `${files.length} file${files.length === 1 ? '' : 's'}` : 'files'}
+              </>
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,269 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Loader2, RefreshCw, Wand2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Switch } from '@/components/ui/switch'
+import { Label } from '@/components/ui/label'
+import {
+  ASSIGNABLE_WORK_TYPES,
+  WORK_TYPE_LABELS,
+  type AssignableWorkType,
+  type AssignmentProposal
+} from '@/lib/assignment-engine'
+
+interface AssignmentProposalsProps {
+  // Whether the user can turn auto-apply on and off
+  canChangeSettings: boolean
+}
+
+const proposalKey = (proposal: AssignmentProposal) => `${proposal.workType}:${proposal.workflowId}`
+
+/**
+ * Suggested assignees for unassigned work
+ * Each row can take the suggestion or one of the ranked alternatives before it is applied.
+ */
+export function AssignmentProposals({ canChangeSettings }: AssignmentProposalsProps) {
+  const [proposals, setProposals] = useState<AssignmentProposal[]>([])
+  const [autoApply, setAutoApply] = useState(false)
+  const [workType, setWorkType] = useState<AssignableWorkType | 'all'>('all')
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [chosenUsers, setChosenUsers] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [applying, setApplying] = useState(false)
+
+  const fetchProposals = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/assignments${workType !== 'all' ? `?workType=${workType}` : ''}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load assignment suggestions')
+        return
+      }
+
+      setProposals(data.proposals)
+      setAutoApply(data.autoApply)
+      setSelected(new Set(
+        (data.proposals as AssignmentProposal[]).filter(proposal => proposal.recommended).map(proposalKey)
+      ))
+      setChosenUsers({})
+    } catch (error) {
+      console.error('Error loading assignment suggestions:', error)
+      toast.error('Error loading assignment suggestions')
+    } finally {
+      setLoading(false)
+    }
+  }, [workType])
+
+  useEffect(() => {
+    fetchProposals()
+  }, [fetchProposals])
+
+  const toggleSelected = (key: string, checked: boolean) => {
+    setSelected(current => {
+      const next = new Set(current)
+      if (checked) {
+        next.add(key)
+      } else {
+        next.delete(key)
+      }
+      return next
+    })
+  }
+
+  const applySelected = async () => {
+    const items = proposals
+      .filter(proposal => selected.has(proposalKey(proposal)))
+      .map(proposal => ({
+        workType: proposal.workType,
+        workflowId: proposal.workflowId,
+        userId: chosenUsers[proposalKey(proposal)] || proposal.recommended?.userId
+      }))
+    if (items.length === 0) return
+
+    try {
+      setApplying(true)
+      const response = await fetch('/api/assignments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to assign work')
+        return
+      }
+
+      toast.success(data.message)
+      for (const skipped of data.skipped as Array<{ companyName: string; reason: string }>) {
+        toast.warning(`${skipped.companyName || 'Item'} skipped: ${skipped.reason}`)
+      }
+      fetchProposals()
+    } catch (error) {
+      console.error('Error assigning work:', error)
+      toast.error('Error assigning work')
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  const updateAutoApply = async (enabled: boolean) => {
+    try {
+      const response = await fetch('/api/assignments/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ autoApply: enabled })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to update auto-apply')
+        return
+      }
+
+      setAutoApply(data.autoApply)
+      toast.success(data.autoApply ? 'Scheduled runs will assign work automatically' : 'Suggestions will wait for review')
+    } catch (error) {
+      console.error('Error updating auto-apply:', error)
+      toast.error('Error updating auto-apply')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Wand2 className="h-5 w-5" />
+              Suggested Assignments
+            </CardTitle>
+            <CardDescription>
+              Unassigned VAT quarters and accounts workflows, earliest due first. Suggestions weigh open
+              workload, skills, leave before the deadline and who did the client&apos;s previous period.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <Switch
+              id="auto-apply"
+              checked={autoApply}
+              disabled={!canChangeSettings}
+              onCheckedChange={updateAutoApply}
+            />
+            <Label htmlFor="auto-apply" className="text-sm">Auto-apply</Label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <Select value={workType} onValueChange={(value) => setWorkType(value as AssignableWorkType | 'all')}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All work</SelectItem>
+              {ASSIGNABLE_WORK_TYPES.map(type => (
+                <SelectItem key={type} value={type}>{WORK_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={fetchProposals} disabled={loading}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Refresh
+            </Button>
+            <Button onClick={applySelected} disabled={applying || selected.size === 0}>
+              {applying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Wand2 className="h-4 w-4 mr-2" />}
+              Assign Selected ({selected.size})
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Working out suggestions...
+          </div>
+        ) : proposals.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">Nothing is waiting to be assigned</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10" />
+                <TableHead>Client</TableHead>
+                <TableHead>Work</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead className="w-56">Assign To</TableHead>
+                <TableHead>Why</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {proposals.map(proposal => {
+                const key = proposalKey(proposal)
+                const options = proposal.recommended ? [proposal.recommended, ...proposal.alternatives] : []
+                const chosen = options.find(option => option.userId === chosenUsers[key]) || proposal.recommended
+
+                return (
+                  <TableRow key={key}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selected.has(key)}
+                        disabled={!proposal.recommended}
+                        onCheckedChange={(checked) => toggleSelected(key, checked === true)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{proposal.companyName}</div>
+                      <div className="text-xs text-muted-foreground">{proposal.clientCode}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{WORK_TYPE_LABELS[proposal.workType]}</Badge>
+                      <div className="text-xs text-muted-foreground mt-1">{proposal.periodLabel}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {new Date(proposal.dueDate).toLocaleDateString('en-GB')}
+                    </TableCell>
+                    <TableCell>
+                      {proposal.recommended ? (
+                        <Select
+                          value={chosen?.userId}
+                          onValueChange={(value) => setChosenUsers(current => ({ ...current, [key]: value }))}
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {options.map((option, index) => (
+                              <SelectItem key={option.userId} value={option.userId}>
+                                {option.name} ({option.score}){index === 0 ? ' - suggested' : ''}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">Nobody available</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground max-w-md">
+                      {chosen ? chosen.reasons.join('; ') : proposal.explanation}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
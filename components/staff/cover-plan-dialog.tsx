@@ -0,0 +1,198 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Loader2, ShieldCheck } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { WORK_TYPE_LABELS, type AssignmentProposal } from '@/lib/assignment-engine'
+
+interface CoverPlanPreview {
+  userName: string
+  startDate: string
+  endDate: string
+  coversUntil: string
+  proposals: AssignmentProposal[]
+}
+
+interface CoverPlanDialogProps {
+  // The leave to cover; null keeps the dialog closed
+  leaveId: string | null
+  onClose: () => void
+  onCreated: () => void
+}
+
+/**
+ * Review suggested cover for someone's due-soon work, then hand it over in one go
+ */
+export function CoverPlanDialog({ leaveId, onClose, onCreated }: CoverPlanDialogProps) {
+  const [preview, setPreview] = useState<CoverPlanPreview | null>(null)
+  const [choices, setChoices] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(false)
+  const [creating, setCreating] = useState(false)
+
+  useEffect(() => {
+    if (!leaveId) return
+
+    const fetchPreview = async () => {
+      try {
+        setLoading(true)
+        setPreview(null)
+        setChoices({})
+        const response = await fetch(`/api/cover-plans/preview?leaveId=${leaveId}`)
+        const data = await response.json()
+
+        if (!response.ok) {
+          toast.error(data.error || 'Failed to work out cover')
+          onClose()
+          return
+        }
+
+        setPreview(data.preview)
+      } catch (error) {
+        console.error('Error loading cover plan:', error)
+        toast.error('Error working out cover')
+        onClose()
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchPreview()
+  }, [leaveId, onClose])
+
+  const createPlan = async () => {
+    if (!leaveId) return
+
+    try {
+      setCreating(true)
+      const response = await fetch('/api/cover-plans', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ leaveId, choices })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to put cover in place')
+        return
+      }
+
+      toast.success(data.message)
+      for (const skipped of data.skipped as Array<{ companyName: string; reason: string }>) {
+        toast.warning(`${skipped.companyName} not covered: ${skipped.reason}`)
+      }
+      onCreated()
+      onClose()
+    } catch (error) {
+      console.error('Error creating cover plan:', error)
+      toast.error('Error putting cover in place')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString('en-GB', { timeZone: 'UTC' })
+  const coverable = preview?.proposals.filter(proposal => proposal.recommended) || []
+
+  return (
+    <Dialog open={!!leaveId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Cover Plan</DialogTitle>
+          <DialogDescription>
+            {preview
+              ? `${preview.userName} is away ${formatDate(preview.startDate)} to ${formatDate(preview.endDate)}. ` +
+                `Their open work due by ${formatDate(preview.coversUntil)} goes to cover and comes back to them when they return.`
+              : 'Working out who can cover...'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !preview ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Working out cover...
+          </div>
+        ) : preview.proposals.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            Nothing of theirs is due before {formatDate(preview.coversUntil)}
+          </p>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Work</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead className="w-56">Cover</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.proposals.map(proposal => {
+                  const options = proposal.recommended ? [proposal.recommended, ...proposal.alternatives] : []
+                  const chosen = options.find(option => option.userId === choices[proposal.workflowId]) || proposal.recommended
+
+                  return (
+                    <TableRow key={`${proposal.workType}:${proposal.workflowId}`}>
+                      <TableCell>
+                        <div className="font-medium">{proposal.companyName}</div>
+                        <div className="text-xs text-muted-foreground">{proposal.clientCode}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{WORK_TYPE_LABELS[proposal.workType]}</Badge>
+                        <div className="text-xs text-muted-foreground mt-1">{proposal.periodLabel}</div>
+                      </TableCell>
+                      <TableCell className="text-sm">{formatDate(proposal.dueDate)}</TableCell>
+                      <TableCell>
+                        {chosen ? (
+                          <Select
+                            value={chosen.userId}
+                            onValueChange={(value) => setChoices(current => ({ ...current, [proposal.workflowId]: value }))}
+                          >
+                            <SelectTrigger className="h-8" title={chosen.reasons.join('; ')}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {options.map((option, index) => (
+                                <SelectItem key={option.userId} value={option.userId}>
+                                  {option.name} ({option.score}){index === 0 ? ' - suggested' : ''}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">{proposal.explanation}</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={createPlan} disabled={creating || loading || coverable.length === 0}>
+            {creating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ShieldCheck className="h-4 w-4 mr-2" />}
+            Hand Over {coverable.length} Item{coverable.length === 1 ? '' : 's'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,127 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2, Undo2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { WORK_TYPE_LABELS, isAssignableWorkType } from '@/lib/assignment-engine'
+
+export interface CoverPlanRow {
+  id: string
+  startDate: string
+  endDate: string
+  createdByName: string
+  user: { id: string; name: string }
+  items: Array<{
+    id: string
+    workType: string
+    companyName: string
+    periodLabel: string
+    dueDate: string
+    coverUserName: string
+  }>
+}
+
+interface CoverPlansListProps {
+  plans: CoverPlanRow[]
+  // Whether the user can give work back early
+  canRevert: boolean
+  onReverted: () => void
+}
+
+/**
+ * Cover in place while people are away
+ * Work goes back automatically the day after their leave ends.
+ */
+export function CoverPlansList({ plans, canRevert, onReverted }: CoverPlansListProps) {
+  const [revertingId, setRevertingId] = useState<string | null>(null)
+
+  const revertPlan = async (plan: CoverPlanRow) => {
+    try {
+      setRevertingId(plan.id)
+      const response = await fetch(`/api/cover-plans/${plan.id}/revert`, { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to give work back')
+        return
+      }
+
+      toast.success(data.message)
+      onReverted()
+    } catch (error) {
+      console.error('Error reverting cover plan:', error)
+      toast.error('Error giving work back')
+    } finally {
+      setRevertingId(null)
+    }
+  }
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString('en-GB', { timeZone: 'UTC' })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Cover In Place</CardTitle>
+        <CardDescription>
+          Work handed over while people are away. It goes back to them the day after their leave ends.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {plans.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">Nobody&apos;s work is being covered</p>
+        ) : plans.map(plan => (
+          <div key={plan.id} className="space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <div className="font-medium">{plan.user.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  Away {formatDate(plan.startDate)} to {formatDate(plan.endDate)} - set up by {plan.createdByName}
+                </div>
+              </div>
+              {canRevert && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => revertPlan(plan)}
+                  disabled={revertingId === plan.id}
+                >
+                  {revertingId === plan.id ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Undo2 className="h-4 w-4 mr-2" />}
+                  Give Work Back Now
+                </Button>
+              )}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Work</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead>Covered By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plan.items.map(item => (
+                  <TableRow key={item.id}>
+                    <TableCell className="font-medium">{item.companyName}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {isAssignableWorkType(item.workType) ? WORK_TYPE_LABELS[item.workType] : item.workType}
+                      </Badge>
+                      <div className="text-xs text-muted-foreground mt-1">{item.periodLabel}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">{formatDate(item.dueDate)}</TableCell>
+                    <TableCell className="text-sm">{item.coverUserName}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
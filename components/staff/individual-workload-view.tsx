@@ -16,7 +16,8 @@ import {
   AlertTriangle,
   Calendar,
   Eye,
-  Settings
+  Settings,
+  Plane
 } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import {
@@ -35,6 +36,7 @@ import {
 } from '@/components/ui/dropdown-menu'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
+import { LEAVE_TYPE_LABELS, describeWorkingDays, findLeaveOn, isFullTime, type LeaveType } from '@/lib/staff-leave'
 
 interface WorkloadAssignment {
   id: string
@@ -56,7 +58,16 @@ interface WorkloadData {
     name: string
     email: string
     role: string
+    workingDays: number[]
   }
+  // Current and upcoming leave
+  leave: Array<{
+    id: string
+    type: string
+    startDate: string
+    endDate: string
+    isCovered: boolean
+  }>
   vatClients: WorkloadAssignment[]
   ltdCompanies: WorkloadAssignment[]
   nonLtdCompanies: WorkloadAssignment[]
@@ -165,6 +176,8 @@ export function IndividualWorkloadView({ workloadData }: IndividualWorkloadViewP
     }
   }
 
+  const formatLeaveDate = (dateString: string) => new Date(dateString).toLocaleDateString('en-GB', { timeZone: 'UTC' })
+
   const handleViewClient = (clientId: string) => {
     router.push(`/dashboard/clients/${clientId}`)
   }
@@ -316,6 +329,11 @@ export function IndividualWorkloadView({ workloadData }: IndividualWorkloadViewP
                       {dueInfo.label}
                     </div>
                   )}
+                  {!assignment.isCompleted && assignment.dueDate && findLeaveOn(workloadData.leave, new Date(assignment.dueDate)) && (
+                    <div className="text-xs text-red-600 font-medium">
+                      Due while away
+                    </div>
+                  )}
                 </TableCell>
                 <TableCell>
                   <Badge variant="outline" className={`text-xs ${status.color}`}>
@@ -425,6 +443,33 @@ export function IndividualWorkloadView({ workloadData }: IndividualWorkloadViewP
                 <div>
                   <h2 className="text-xl font-bold">{workloadData.user.name}</h2>
                   <p className="text-sm text-muted-foreground">{workloadData.user.email}</p>
+                  {(workloadData.leave.length > 0 || !isFullTime(workloadData.user.workingDays)) && (
+                    <div className="flex flex-wrap items-center gap-2 mt-2">
+                      {workloadData.leave.slice(0, 3).map(range => (
+                        <Badge key={range.id} variant="outline" className="text-xs">
+                          <Plane className="h-3 w-3 mr-1" />
+                          {LEAVE_TYPE_LABELS[range.type as LeaveType] || range.type}: {formatLeaveDate(range.startDate)}
+                          {range.endDate !== range.startDate && ` to ${formatLeaveDate(range.endDate)}`}
+                          {range.isCovered && ' (covered)'}
+                        </Badge>
+                      ))}
+                      {!isFullTime(workloadData.user.workingDays) && (
+                        <Badge variant="outline" className="text-xs">
+                          Part-time: {describeWorkingDays(workloadData.user.workingDays)}
+                        </Badge>
+                      )}
+                      {workloadData.leave.some(range => !range.isCovered) && (
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0 text-xs"
+                          onClick={() => router.push(`/dashboard/staff/leave?userId=${workloadData.user.id}`)}
+                        >
+                          Plan cover
+                        </Button>
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -0,0 +1,384 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import { Loader2, PoundSterling, RefreshCw, Save } from 'lucide-react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { WORK_TYPE_LABELS } from '@/lib/assignment-engine'
+import { USER_ROLE_LABELS, isUserRoleValue } from '@/lib/permissions'
+import {
+  formatMinutes,
+  formatMoney,
+  recoverabilityClass,
+  type RecoverabilityReport as Report
+} from '@/lib/time-tracking'
+
+interface StaffCostRate {
+  id: string
+  name: string
+  role: string
+  hourlyCostRate: number | null
+}
+
+interface RecoverabilityReportProps {
+  // Active staff and their rates, when the user can change them (time.manage_fees)
+  costRates: StaffCostRate[] | null
+}
+
+const toDateParam = (date: Date) => date.toISOString().slice(0, 10)
+
+/**
+ * Time cost against fee for jobs due in a date range, by client, staff member and job
+ */
+export function RecoverabilityReport({ costRates }: RecoverabilityReportProps) {
+  const router = useRouter()
+  const [from, setFrom] = useState(() => {
+    const date = new Date()
+    date.setFullYear(date.getFullYear() - 1)
+    date.setDate(date.getDate() + 1)
+    return toDateParam(date)
+  })
+  const [to, setTo] = useState(() => toDateParam(new Date()))
+  const [report, setReport] = useState<Report | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [rates, setRates] = useState<Record<string, string>>(() => Object.fromEntries(
+    (costRates || []).map(user => [user.id, user.hourlyCostRate?.toString() ?? ''])
+  ))
+  const [savingRateId, setSavingRateId] = useState<string | null>(null)
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/time-entries/recoverability?from=${from}&to=${to}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load recoverability')
+        return
+      }
+
+      setReport(data.report)
+    } catch (error) {
+      console.error('Error loading recoverability:', error)
+      toast.error('Error loading recoverability')
+    } finally {
+      setLoading(false)
+    }
+  }, [from, to])
+
+  useEffect(() => {
+    fetchReport()
+  }, [fetchReport])
+
+  const saveRate = async (user: StaffCostRate) => {
+    const value = rates[user.id]?.trim() ?? ''
+    const hourlyCostRate = value === '' ? null : Number(value)
+    if (hourlyCostRate !== null && (isNaN(hourlyCostRate) || hourlyCostRate < 0)) {
+      toast.error(`Check ${user.name}'s rate`)
+      return
+    }
+
+    try {
+      setSavingRateId(user.id)
+      const response = await fetch(`/api/users/${user.id}/cost-rate`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ hourlyCostRate })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save cost rate')
+        return
+      }
+
+      toast.success(hourlyCostRate === null
+        ? `${user.name}'s cost rate cleared`
+        : `${user.name}'s cost rate set to ${formatMoney(hourlyCostRate)} an hour`)
+      fetchReport()
+    } catch (error) {
+      console.error('Error saving cost rate:', error)
+      toast.error('Error saving cost rate')
+    } finally {
+      setSavingRateId(null)
+    }
+  }
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString('en-GB', { timeZone: 'UTC' })
+  const percent = (value: number | null) => (
+    <span className={`font-medium ${recoverabilityClass(value)}`}>{value !== null ? `${value}%` : '-'}</span>
+  )
+  const missingRates = report?.staff.filter(member => !member.hourlyCostRate) || []
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-end justify-between gap-4 flex-wrap">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <PoundSterling className="h-5 w-5" />
+                Recoverability
+              </CardTitle>
+              <CardDescription>
+                Fees against the cost of the time spent on jobs due between these dates. Only jobs with a
+                fee budget count towards recoverability.
+              </CardDescription>
+            </div>
+            <div className="flex items-end gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="recoverability-from">Due from</Label>
+                <Input id="recoverability-from" type="date" value={from} max={to} onChange={(event) => setFrom(event.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="recoverability-to">To</Label>
+                <Input id="recoverability-to" type="date" value={to} min={from} onChange={(event) => setTo(event.target.value)} />
+              </div>
+              <Button variant="outline" size="icon" onClick={fetchReport} disabled={loading}>
+                <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading || !report ? (
+            <div className="flex items-center justify-center py-8 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin mr-2" />
+              Working out recoverability...
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                <div>
+                  <Label className="text-sm font-medium text-muted-foreground">Jobs</Label>
+                  <p className="text-2xl font-bold">{report.totals.jobs}</p>
+                </div>
+                <div>
+                  <Label className="text-sm font-medium text-muted-foreground">Time</Label>
+                  <p className="text-2xl font-bold">{formatMinutes(report.totals.minutes)}</p>
+                </div>
+                <div>
+                  <Label className="text-sm font-medium text-muted-foreground">Fees</Label>
+                  <p className="text-2xl font-bold">{formatMoney(report.totals.fee)}</p>
+                </div>
+                <div>
+                  <Label className="text-sm font-medium text-muted-foreground">Time Cost</Label>
+                  <p className="text-2xl font-bold">{formatMoney(report.totals.cost)}</p>
+                </div>
+                <div>
+                  <Label className="text-sm font-medium text-muted-foreground">Recoverability</Label>
+                  <p className="text-2xl">{percent(report.totals.recoverability)}</p>
+                </div>
+              </div>
+
+              {missingRates.length > 0 && (
+                <p className="text-sm text-amber-600">
+                  No cost rate for {missingRates.map(member => member.name).join(', ')}, so their time costs nothing here.
+                </p>
+              )}
+
+              <Tabs defaultValue="clients" className="space-y-4">
+                <TabsList>
+                  <TabsTrigger value="clients">By Client</TabsTrigger>
+                  <TabsTrigger value="staff">By Staff</TabsTrigger>
+                  <TabsTrigger value="jobs">By Job</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="clients">
+                  {report.clients.length === 0 ? (
+                    <p className="text-sm text-muted-foreground py-8 text-center">No time recorded on jobs due in this period</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Client</TableHead>
+                          <TableHead className="text-right">Jobs</TableHead>
+                          <TableHead className="text-right">Time</TableHead>
+                          <TableHead className="text-right">Fees</TableHead>
+                          <TableHead className="text-right">Time Cost</TableHead>
+                          <TableHead className="text-right">Recoverability</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {report.clients.map(client => (
+                          <TableRow
+                            key={client.clientId}
+                            className="cursor-pointer"
+                            onClick={() => router.push(`/dashboard/clients/${client.clientId}`)}
+                          >
+                            <TableCell>
+                              <div className="font-medium">{client.companyName}</div>
+                              <div className="text-xs text-muted-foreground">{client.clientCode}</div>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {client.jobs}
+                              {client.unbudgetedJobs > 0 && (
+                                <Badge variant="outline" className="ml-2">{client.unbudgetedJobs} without a fee</Badge>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">{formatMinutes(client.minutes)}</TableCell>
+                            <TableCell className="text-right">{formatMoney(client.fee)}</TableCell>
+                            <TableCell className="text-right">{formatMoney(client.cost)}</TableCell>
+                            <TableCell className="text-right">{percent(client.recoverability)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </TabsContent>
+
+                <TabsContent value="staff">
+                  {report.staff.length === 0 ? (
+                    <p className="text-sm text-muted-foreground py-8 text-center">No time recorded on jobs due in this period</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Staff Member</TableHead>
+                          <TableHead className="text-right">Jobs</TableHead>
+                          <TableHead className="text-right">Time</TableHead>
+                          <TableHead className="text-right">Share of Fees</TableHead>
+                          <TableHead className="text-right">Time Cost</TableHead>
+                          <TableHead className="text-right">Recoverability</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {report.staff.map(member => (
+                          <TableRow
+                            key={member.userId}
+                            className="cursor-pointer"
+                            onClick={() => router.push(`/dashboard/staff/timesheet?userId=${member.userId}`)}
+                          >
+                            <TableCell>
+                              <div className="font-medium">{member.name}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {member.hourlyCostRate ? `${formatMoney(member.hourlyCostRate)} an hour` : 'No cost rate'}
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-right">{member.jobs}</TableCell>
+                            <TableCell className="text-right">{formatMinutes(member.minutes)}</TableCell>
+                            <TableCell className="text-right">{formatMoney(member.fee)}</TableCell>
+                            <TableCell className="text-right">{formatMoney(member.cost)}</TableCell>
+                            <TableCell className="text-right">{percent(member.recoverability)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </TabsContent>
+
+                <TabsContent value="jobs">
+                  {report.jobs.length === 0 ? (
+                    <p className="text-sm text-muted-foreground py-8 text-center">No time recorded on jobs due in this period</p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Client</TableHead>
+                          <TableHead>Work</TableHead>
+                          <TableHead>Due</TableHead>
+                          <TableHead className="text-right">Time / Budget</TableHead>
+                          <TableHead className="text-right">Fee</TableHead>
+                          <TableHead className="text-right">Time Cost</TableHead>
+                          <TableHead className="text-right">Recoverability</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {report.jobs.map(job => (
+                          <TableRow key={`${job.workType}:${job.workflowId}`}>
+                            <TableCell>
+                              <div className="font-medium">{job.companyName}</div>
+                              <div className="text-xs text-muted-foreground">{job.clientCode}</div>
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="outline">{WORK_TYPE_LABELS[job.workType]}</Badge>
+                              <div className="text-xs text-muted-foreground mt-1">{job.periodLabel}</div>
+                            </TableCell>
+                            <TableCell className="text-sm">{formatDate(job.dueDate)}</TableCell>
+                            <TableCell className="text-right">
+                              <span className={job.budgetMinutes !== null && job.minutes > job.budgetMinutes ? 'text-red-600 font-medium' : ''}>
+                                {formatMinutes(job.minutes)}
+                              </span>
+                              <span className="text-muted-foreground">
+                                {' / '}{job.budgetMinutes !== null ? formatMinutes(job.budgetMinutes) : '-'}
+                              </span>
+                            </TableCell>
+                            <TableCell className="text-right">{job.fee !== null ? formatMoney(job.fee) : 'No fee'}</TableCell>
+                            <TableCell className="text-right">{formatMoney(job.cost)}</TableCell>
+                            <TableCell className="text-right">{percent(job.recoverability)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+                </TabsContent>
+              </Tabs>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {costRates && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Cost Rates</CardTitle>
+            <CardDescription>
+              What an hour of each person&apos;s time costs the firm. Changing a rate changes past figures too.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Staff Member</TableHead>
+                  <TableHead className="w-48">Hourly Cost (£)</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {costRates.map(user => (
+                  <TableRow key={user.id}>
+                    <TableCell>
+                      <div className="font-medium">{user.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {isUserRoleValue(user.role) ? USER_ROLE_LABELS[user.role] : user.role}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        className="h-8"
+                        placeholder="Not set"
+                        value={rates[user.id] ?? ''}
+                        onChange={(event) => setRates(current => ({ ...current, [user.id]: event.target.value }))}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => saveRate(user)}
+                        disabled={savingRateId === user.id}
+                      >
+                        {savingRateId === user.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
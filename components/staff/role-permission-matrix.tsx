@@ -0,0 +1,205 @@
+'use client'
+
+import { Fragment, useState, useEffect, useCallback } from 'react'
+import { Loader2, RotateCcw, Save } from 'lucide-react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  PERMISSION_CONFIG,
+  PERMISSION_GROUPS,
+  PERMISSIONS,
+  USER_ROLE_LABELS,
+  USER_ROLE_VALUES,
+  isLockedPermission,
+  type Permission,
+  type UserRoleValue
+} from '@/lib/permissions'
+
+type RolePermissionState = Record<UserRoleValue, Permission[]>
+
+const EMPTY_STATE: RolePermissionState = { PARTNER: [], MANAGER: [], STAFF: [] }
+
+/**
+ * Role to permission matrix
+ * Each role column is saved on its own; unticking a default shows the role as customised.
+ */
+export function RolePermissionMatrix() {
+  const [saved, setSaved] = useState<RolePermissionState>(EMPTY_STATE)
+  const [draft, setDraft] = useState<RolePermissionState>(EMPTY_STATE)
+  const [loading, setLoading] = useState(true)
+  const [savingRole, setSavingRole] = useState<UserRoleValue | null>(null)
+
+  const fetchMatrix = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/permissions')
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load role permissions')
+        return
+      }
+
+      const next = { ...EMPTY_STATE }
+      for (const summary of data.roles as Array<{ role: UserRoleValue; permissions: Permission[] }>) {
+        next[summary.role] = summary.permissions
+      }
+      setSaved(next)
+      setDraft(next)
+    } catch (error) {
+      console.error('Error loading role permissions:', error)
+      toast.error('Error loading role permissions')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchMatrix()
+  }, [fetchMatrix])
+
+  const togglePermission = (role: UserRoleValue, permission: Permission, granted: boolean) => {
+    setDraft(current => ({
+      ...current,
+      [role]: granted
+        ? PERMISSIONS.filter(p => p === permission || current[role].includes(p))
+        : current[role].filter(p => p !== permission)
+    }))
+  }
+
+  const isDirty = (role: UserRoleValue) =>
+    draft[role].length !== saved[role].length || draft[role].some(permission => !saved[role].includes(permission))
+
+  const isCustomised = (role: UserRoleValue) =>
+    draft[role].length !== DEFAULT_ROLE_PERMISSIONS[role].length ||
+    draft[role].some(permission => !DEFAULT_ROLE_PERMISSIONS[role].includes(permission))
+
+  const resetToDefaults = (role: UserRoleValue) => {
+    setDraft(current => ({ ...current, [role]: [...DEFAULT_ROLE_PERMISSIONS[role]] }))
+  }
+
+  const saveRole = async (role: UserRoleValue) => {
+    try {
+      setSavingRole(role)
+      const response = await fetch('/api/permissions', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ role, permissions: draft[role] })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save role permissions')
+        return
+      }
+
+      setSaved(current => ({ ...current, [role]: data.role.permissions }))
+      setDraft(current => ({ ...current, [role]: data.role.permissions }))
+      toast.success(`${USER_ROLE_LABELS[role]} permissions saved`)
+    } catch (error) {
+      console.error('Error saving role permissions:', error)
+      toast.error('Error saving role permissions')
+    } finally {
+      setSavingRole(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Role Permissions</CardTitle>
+        <CardDescription>
+          What every partner, manager and staff member can do. Changes apply as soon as they are saved.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Loading permissions...
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Permission</TableHead>
+                {USER_ROLE_VALUES.map(role => (
+                  <TableHead key={role} className="w-40 text-center">
+                    <div className="flex flex-col items-center gap-1">
+                      <span>{USER_ROLE_LABELS[role]}</span>
+                      {isCustomised(role) && <Badge variant="outline" className="text-xs">Customised</Badge>}
+                    </div>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {PERMISSION_GROUPS.map(group => (
+                <Fragment key={group}>
+                  <TableRow className="bg-muted/50 hover:bg-muted/50">
+                    <TableCell colSpan={USER_ROLE_VALUES.length + 1} className="font-medium text-sm">
+                      {group}
+                    </TableCell>
+                  </TableRow>
+                  {PERMISSIONS.filter(permission => PERMISSION_CONFIG[permission].group === group).map(permission => (
+                    <TableRow key={permission}>
+                      <TableCell>
+                        <div className="text-sm font-medium">{PERMISSION_CONFIG[permission].label}</div>
+                        <div className="text-xs text-muted-foreground">{PERMISSION_CONFIG[permission].description}</div>
+                      </TableCell>
+                      {USER_ROLE_VALUES.map(role => (
+                        <TableCell key={role} className="text-center">
+                          <Checkbox
+                            checked={draft[role].includes(permission)}
+                            disabled={isLockedPermission(role, permission) || savingRole === role}
+                            onCheckedChange={checked => togglePermission(role, permission, checked === true)}
+                            aria-label={`${PERMISSION_CONFIG[permission].label} for ${USER_ROLE_LABELS[role]}`}
+                          />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </Fragment>
+              ))}
+              <TableRow className="hover:bg-transparent">
+                <TableCell />
+                {USER_ROLE_VALUES.map(role => (
+                  <TableCell key={role} className="text-center">
+                    <div className="flex flex-col items-center gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => saveRole(role)}
+                        disabled={!isDirty(role) || savingRole !== null}
+                      >
+                        {savingRole === role ? (
+                          <Loader2 className="h-4 w-4 animate-spin mr-1" />
+                        ) : (
+                          <Save className="h-4 w-4 mr-1" />
+                        )}
+                        Save
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => resetToDefaults(role)}
+                        disabled={!isCustomised(role) || savingRole !== null}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Defaults
+                      </Button>
+                    </div>
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
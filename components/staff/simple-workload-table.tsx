@@ -41,6 +41,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 import { Badge } from '@/components/ui/badge'
+import { LEAVE_TYPE_LABELS, describeWorkingDays, isFullTime, type LeaveType } from '@/lib/staff-leave'
 import { Button } from '@/components/ui/button'
 
 interface WorkloadCounts {
@@ -58,7 +59,16 @@ interface WorkloadData {
   nonLtdCompanies: WorkloadCounts
   contractors: WorkloadCounts
   subContractors: WorkloadCounts
+  payrollRuns: WorkloadCounts
+  cisReturns: WorkloadCounts
   total: WorkloadCounts
+  workingDays: number[]
+  // Leave now or in the next four weeks
+  nextLeave: {
+    type: string
+    startDate: string
+    endDate: string
+  } | null
 }
 
 interface SimpleWorkloadTableProps {
@@ -76,6 +86,8 @@ export function SimpleWorkloadTable({ workloadData }: SimpleWorkloadTableProps)
       nonLtdCompanies: { active: 0, inactive: 0 },
       contractors: { active: 0, inactive: 0 },
       subContractors: { active: 0, inactive: 0 },
+      payrollRuns: { active: 0, inactive: 0 },
+      cisReturns: { active: 0, inactive: 0 },
       total: { active: 0, inactive: 0 }
     }
     
@@ -90,6 +102,10 @@ export function SimpleWorkloadTable({ workloadData }: SimpleWorkloadTableProps)
       totals.contractors.inactive += member.contractors.inactive
       totals.subContractors.active += member.subContractors.active
       totals.subContractors.inactive += member.subContractors.inactive
+      totals.payrollRuns.active += member.payrollRuns.active
+      totals.payrollRuns.inactive += member.payrollRuns.inactive
+      totals.cisReturns.active += member.cisReturns.active
+      totals.cisReturns.inactive += member.cisReturns.inactive
       totals.total.active += member.total.active
       totals.total.inactive += member.total.inactive
     })
@@ -111,6 +127,8 @@ export function SimpleWorkloadTable({ workloadData }: SimpleWorkloadTableProps)
     }
   }
 
+  const formatLeaveDate = (date: string) => new Date(date).toLocaleDateString('en-GB', { timeZone: 'UTC' })
+
   const formatCount = (counts: WorkloadCounts, type: string) => {
     if (counts.inactive === 0) {
       return <span className="font-medium">{counts.active}</span>
@@ -121,6 +139,8 @@ export function SimpleWorkloadTable({ workloadData }: SimpleWorkloadTableProps)
 This includes:
 • Workflows in "Not Started" stage
 • Workflows in "Waiting for Year End" stage
+• Payroll runs waiting for payroll data
+• CIS returns waiting for payment details
 • Clients assigned but without workflows yet`
 
     return (
@@ -180,6 +200,8 @@ This includes:
                 <TableHead className="w-24 text-center">Non-Ltd</TableHead>
                 <TableHead className="w-24 text-center">Contractors</TableHead>
                 <TableHead className="w-24 text-center">Sub-C</TableHead>
+                <TableHead className="w-24 text-center">Payroll</TableHead>
+                <TableHead className="w-24 text-center">CIS</TableHead>
                 <TableHead className="w-24 text-center font-bold bg-blue-100">Total</TableHead>
                 <TableHead className="w-16 text-center">Actions</TableHead>
               </TableRow>
@@ -197,6 +219,26 @@ This includes:
                         <div className="text-xs text-muted-foreground truncate-text" title={member.email}>
                           {member.email}
                         </div>
+                        {(member.nextLeave || !isFullTime(member.workingDays)) && (
+                          <div className="flex flex-wrap gap-1 mt-1">
+                            {member.nextLeave && (
+                              <Badge
+                                variant="outline"
+                                className="text-xs"
+                                title={LEAVE_TYPE_LABELS[member.nextLeave.type as LeaveType] || member.nextLeave.type}
+                              >
+                                {new Date(member.nextLeave.startDate) <= new Date()
+                                  ? `Away until ${formatLeaveDate(member.nextLeave.endDate)}`
+                                  : `Away from ${formatLeaveDate(member.nextLeave.startDate)}`}
+                              </Badge>
+                            )}
+                            {!isFullTime(member.workingDays) && (
+                              <Badge variant="outline" className="text-xs">
+                                Part-time: {describeWorkingDays(member.workingDays)}
+                              </Badge>
+                            )}
+                          </div>
+                        )}
                       </div>
                     </div>
                   </TableCell>
@@ -215,6 +257,12 @@ This includes:
                   <TableCell className="text-center">
                     {formatCount(member.subContractors, 'Sub-Contractor')}
                   </TableCell>
+                  <TableCell className="text-center">
+                    {formatCount(member.payrollRuns, 'Payroll Run')}
+                  </TableCell>
+                  <TableCell className="text-center">
+                    {formatCount(member.cisReturns, 'CIS Return')}
+                  </TableCell>
                   <TableCell className="text-center font-bold bg-blue-100">
                     {formatCount(member.total, 'Total')}
                   </TableCell>
@@ -278,6 +326,12 @@ This includes:
                 <TableCell className="text-center font-bold">
                   {formatCount(teamTotals.subContractors, 'Sub-Contractor')}
                 </TableCell>
+                <TableCell className="text-center font-bold">
+                  {formatCount(teamTotals.payrollRuns, 'Payroll Run')}
+                </TableCell>
+                <TableCell className="text-center font-bold">
+                  {formatCount(teamTotals.cisReturns, 'CIS Return')}
+                </TableCell>
                 <TableCell className="text-center font-bold bg-blue-200">
                   {formatCount(teamTotals.total, 'Total')}
                 </TableCell>
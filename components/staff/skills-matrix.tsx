@@ -0,0 +1,145 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  ASSIGNABLE_WORK_TYPES,
+  SKILL_LEVEL_LABELS,
+  SKILL_LEVELS,
+  WORK_TYPE_LABELS,
+  type AssignableWorkType,
+  type SkillLevel
+} from '@/lib/assignment-engine'
+import { USER_ROLE_LABELS, isUserRoleValue } from '@/lib/permissions'
+
+interface SkillRow {
+  id: string
+  name: string
+  role: string
+  skills: Record<AssignableWorkType, SkillLevel>
+}
+
+/**
+ * Skill levels per work type
+ * Changes save straight away.
+ */
+export function SkillsMatrix() {
+  const [users, setUsers] = useState<SkillRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [savingUserId, setSavingUserId] = useState<string | null>(null)
+
+  const fetchSkills = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/assignments/skills')
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load skills')
+        return
+      }
+
+      setUsers(data.users)
+    } catch (error) {
+      console.error('Error loading skills:', error)
+      toast.error('Error loading skills')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchSkills()
+  }, [fetchSkills])
+
+  const updateSkill = async (user: SkillRow, workType: AssignableWorkType, level: SkillLevel) => {
+    try {
+      setSavingUserId(user.id)
+      const response = await fetch('/api/assignments/skills', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: user.id, skills: { [workType]: level } })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save skill')
+        return
+      }
+
+      setUsers(current => current.map(row =>
+        row.id === user.id ? { ...row, skills: { ...row.skills, [workType]: level } } : row
+      ))
+    } catch (error) {
+      console.error('Error saving skill:', error)
+      toast.error('Error saving skill')
+    } finally {
+      setSavingUserId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Skills</CardTitle>
+        <CardDescription>
+          Once anyone has a level for a type of work, only people with a level are suggested for it.
+          Partners are only suggested for work they have a level for.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Loading skills...
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Team Member</TableHead>
+                {ASSIGNABLE_WORK_TYPES.map(workType => (
+                  <TableHead key={workType} className="w-44">{WORK_TYPE_LABELS[workType]}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map(user => (
+                <TableRow key={user.id}>
+                  <TableCell>
+                    <div className="font-medium">{user.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {isUserRoleValue(user.role) ? USER_ROLE_LABELS[user.role] : user.role}
+                    </div>
+                  </TableCell>
+                  {ASSIGNABLE_WORK_TYPES.map(workType => (
+                    <TableCell key={workType}>
+                      <Select
+                        value={String(user.skills[workType])}
+                        disabled={savingUserId === user.id}
+                        onValueChange={(value) => updateSkill(user, workType, Number(value) as SkillLevel)}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SKILL_LEVELS.map(level => (
+                            <SelectItem key={level} value={String(level)}>{SKILL_LEVEL_LABELS[level]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
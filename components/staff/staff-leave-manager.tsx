@@ -0,0 +1,391 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Loader2, Plane, Plus, ShieldCheck, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useUsers } from '@/lib/hooks/useUsers'
+import {
+  DEFAULT_WORKING_DAYS,
+  LEAVE_TYPES,
+  LEAVE_TYPE_LABELS,
+  WEEKDAY_LABELS,
+  WEEKDAY_ORDER,
+  describeWorkingDays,
+  type LeaveType
+} from '@/lib/staff-leave'
+import { CoverPlanDialog } from './cover-plan-dialog'
+import { CoverPlansList, type CoverPlanRow } from './cover-plans-list'
+
+interface LeaveRow {
+  id: string
+  type: LeaveType
+  startDate: string
+  endDate: string
+  notes: string | null
+  coverPlans: Array<{ id: string; _count: { items: number } }>
+}
+
+interface StaffLeaveManagerProps {
+  currentUserId: string
+  // Whose leave to show first
+  initialUserId: string
+  // users.manage - record leave and working patterns for other people
+  canManageOthers: boolean
+  // clients.assign - hand someone's work to cover while they are away
+  canCoverWork: boolean
+}
+
+const EMPTY_FORM = { type: 'HOLIDAY' as LeaveType, startDate: '', endDate: '', notes: '' }
+
+/**
+ * Leave, working patterns and cover for the team
+ */
+export function StaffLeaveManager({ currentUserId, initialUserId, canManageOthers, canCoverWork }: StaffLeaveManagerProps) {
+  const { users } = useUsers({ includeSelf: true, scope: 'all', autoFetch: canManageOthers })
+  const [selectedUserId, setSelectedUserId] = useState(initialUserId)
+  const [leave, setLeave] = useState<LeaveRow[]>([])
+  const [workingDays, setWorkingDays] = useState<number[]>(DEFAULT_WORKING_DAYS)
+  const [coverPlans, setCoverPlans] = useState<CoverPlanRow[]>([])
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [coverLeaveId, setCoverLeaveId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [savingPattern, setSavingPattern] = useState(false)
+
+  const fetchLeave = useCallback(async () => {
+    try {
+      setLoading(true)
+      const [leaveResponse, patternResponse] = await Promise.all([
+        fetch(`/api/users/${selectedUserId}/leave`),
+        fetch(`/api/users/${selectedUserId}/working-days`)
+      ])
+      const [leaveData, patternData] = await Promise.all([leaveResponse.json(), patternResponse.json()])
+
+      if (!leaveResponse.ok || !patternResponse.ok) {
+        toast.error(leaveData.error || patternData.error || 'Failed to load leave')
+        return
+      }
+
+      setLeave(leaveData.leave)
+      setWorkingDays(patternData.workingDays)
+    } catch (error) {
+      console.error('Error loading leave:', error)
+      toast.error('Error loading leave')
+    } finally {
+      setLoading(false)
+    }
+  }, [selectedUserId])
+
+  const fetchCoverPlans = useCallback(async () => {
+    try {
+      const response = await fetch('/api/cover-plans?status=ACTIVE')
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load cover plans')
+        return
+      }
+
+      setCoverPlans(data.plans)
+    } catch (error) {
+      console.error('Error loading cover plans:', error)
+      toast.error('Error loading cover plans')
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchLeave()
+  }, [fetchLeave])
+
+  useEffect(() => {
+    fetchCoverPlans()
+  }, [fetchCoverPlans])
+
+  const refreshAll = useCallback(() => {
+    fetchLeave()
+    fetchCoverPlans()
+  }, [fetchLeave, fetchCoverPlans])
+
+  const closeCoverDialog = useCallback(() => setCoverLeaveId(null), [])
+
+  const addLeave = async () => {
+    if (!form.startDate || !form.endDate) {
+      toast.error('Choose when the leave starts and ends')
+      return
+    }
+
+    try {
+      setSaving(true)
+      const response = await fetch(`/api/users/${selectedUserId}/leave`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, notes: form.notes || null })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to record leave')
+        return
+      }
+
+      toast.success('Leave recorded')
+      setForm(EMPTY_FORM)
+      fetchLeave()
+    } catch (error) {
+      console.error('Error recording leave:', error)
+      toast.error('Error recording leave')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeLeave = async (row: LeaveRow) => {
+    const hasCover = row.coverPlans.length > 0
+    if (!confirm(hasCover
+      ? 'Remove this leave? Work handed over for it goes back straight away.'
+      : 'Remove this leave?')) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/users/${selectedUserId}/leave/${row.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to remove leave')
+        return
+      }
+
+      toast.success('Leave removed')
+      refreshAll()
+    } catch (error) {
+      console.error('Error removing leave:', error)
+      toast.error('Error removing leave')
+    }
+  }
+
+  const toggleWorkingDay = (day: number, checked: boolean) => {
+    setWorkingDays(current => checked ? [...current, day] : current.filter(value => value !== day))
+  }
+
+  const saveWorkingDays = async () => {
+    try {
+      setSavingPattern(true)
+      const response = await fetch(`/api/users/${selectedUserId}/working-days`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workingDays })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.details?.workingDays?.[0] || data.error || 'Failed to save working pattern')
+        return
+      }
+
+      setWorkingDays(data.workingDays)
+      toast.success(`Working pattern saved: ${describeWorkingDays(data.workingDays)}`)
+    } catch (error) {
+      console.error('Error saving working pattern:', error)
+      toast.error('Error saving working pattern')
+    } finally {
+      setSavingPattern(false)
+    }
+  }
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString('en-GB', { timeZone: 'UTC' })
+  const today = new Date().toISOString().slice(0, 10)
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Plane className="h-5 w-5" />
+                Leave
+              </CardTitle>
+              <CardDescription>
+                Holiday and sickness show on the calendar, warn when work due during them is assigned
+                and keep the assignment engine from suggesting people who are away.
+              </CardDescription>
+            </div>
+            {canManageOthers && (
+              <Select value={selectedUserId} onValueChange={setSelectedUserId}>
+                <SelectTrigger className="w-56 shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {!users.some(user => user.id === currentUserId) && (
+                    <SelectItem value={currentUserId}>Me</SelectItem>
+                  )}
+                  {users.map(user => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {user.id === currentUserId ? `${user.name} (me)` : user.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-3 md:grid-cols-[10rem_10rem_10rem_1fr_auto] items-end">
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select value={form.type} onValueChange={(value) => setForm(current => ({ ...current, type: value as LeaveType }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LEAVE_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{LEAVE_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="leave-start">From</Label>
+              <Input
+                id="leave-start"
+                type="date"
+                value={form.startDate}
+                onChange={(event) => setForm(current => ({
+                  ...current,
+                  startDate: event.target.value,
+                  endDate: current.endDate || event.target.value
+                }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="leave-end">To</Label>
+              <Input
+                id="leave-end"
+                type="date"
+                value={form.endDate}
+                min={form.startDate || undefined}
+                onChange={(event) => setForm(current => ({ ...current, endDate: event.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="leave-notes">Notes</Label>
+              <Input
+                id="leave-notes"
+                value={form.notes}
+                maxLength={500}
+                placeholder="Optional"
+                onChange={(event) => setForm(current => ({ ...current, notes: event.target.value }))}
+              />
+            </div>
+            <Button onClick={addLeave} disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Add Leave
+            </Button>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin mr-2" />
+              Loading leave...
+            </div>
+          ) : leave.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4 text-center">No current or upcoming leave</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead>Cover</TableHead>
+                  <TableHead className="w-48 text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {leave.map(row => {
+                  const activePlan = row.coverPlans[0]
+                  const isCurrent = row.startDate.slice(0, 10) <= today
+
+                  return (
+                    <TableRow key={row.id}>
+                      <TableCell>
+                        <Badge variant={row.type === 'SICKNESS' ? 'destructive' : 'outline'}>
+                          {LEAVE_TYPE_LABELS[row.type]}
+                        </Badge>
+                        {isCurrent && <Badge variant="secondary" className="ml-2">Away now</Badge>}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {formatDate(row.startDate)}
+                        {row.endDate !== row.startDate && ` to ${formatDate(row.endDate)}`}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{row.notes || '-'}</TableCell>
+                      <TableCell className="text-sm">
+                        {activePlan
+                          ? `${activePlan._count.items} item${activePlan._count.items === 1 ? '' : 's'} covered`
+                          : <span className="text-muted-foreground">None</span>}
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        {canCoverWork && !activePlan && (
+                          <Button variant="outline" size="sm" onClick={() => setCoverLeaveId(row.id)}>
+                            <ShieldCheck className="h-4 w-4 mr-2" />
+                            Cover Plan
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => removeLeave(row)}>
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Remove leave</span>
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Working Pattern</CardTitle>
+          <CardDescription>
+            Part-time staff get work in proportion to the days they work, and their days off show on
+            the calendar. Currently: {describeWorkingDays(workingDays)}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-center gap-4">
+          {WEEKDAY_ORDER.map(day => (
+            <div key={day} className="flex items-center gap-2">
+              <Checkbox
+                id={`working-day-${day}`}
+                checked={workingDays.includes(day)}
+                disabled={!canManageOthers}
+                onCheckedChange={(checked) => toggleWorkingDay(day, checked === true)}
+              />
+              <Label htmlFor={`working-day-${day}`} className="text-sm">{WEEKDAY_LABELS[day]}</Label>
+            </div>
+          ))}
+          {canManageOthers && (
+            <Button variant="outline" size="sm" onClick={saveWorkingDays} disabled={savingPattern || workingDays.length === 0}>
+              {savingPattern && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Pattern
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <CoverPlansList plans={coverPlans} canRevert={canCoverWork} onReverted={refreshAll} />
+
+      <CoverPlanDialog leaveId={coverLeaveId} onClose={closeCoverDialog} onCreated={refreshAll} />
+    </div>
+  )
+}
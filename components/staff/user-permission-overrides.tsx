@@ -0,0 +1,256 @@
+'use client'
+
+import { Fragment, useState, useEffect, useCallback } from 'react'
+import { Loader2, Save } from 'lucide-react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  PERMISSION_CONFIG,
+  PERMISSION_GROUPS,
+  PERMISSIONS,
+  isLockedPermission,
+  isUserRoleValue,
+  USER_ROLE_LABELS,
+  type Permission
+} from '@/lib/permissions'
+
+interface PermissionUser {
+  id: string
+  name: string
+  email: string
+  role: string
+}
+
+interface UserPermissionOverridesProps {
+  users: PermissionUser[]
+}
+
+type OverrideChoice = 'ROLE' | 'GRANT' | 'WITHHOLD'
+
+interface OverrideDraft {
+  choice: OverrideChoice
+  reason: string
+}
+
+interface UserPermissionDetails {
+  userId: string
+  name: string
+  role: string
+  rolePermissions: Permission[]
+  permissions: Permission[]
+  overrides: Array<{ permission: Permission; granted: boolean; reason: string | null }>
+}
+
+function toDrafts(details: UserPermissionDetails): Partial<Record<Permission, OverrideDraft>> {
+  const drafts: Partial<Record<Permission, OverrideDraft>> = {}
+  for (const override of details.overrides) {
+    drafts[override.permission] = {
+      choice: override.granted ? 'GRANT' : 'WITHHOLD',
+      reason: override.reason || ''
+    }
+  }
+  return drafts
+}
+
+/**
+ * Per-user permission overrides
+ * Anything left on "Role default" follows the user's role, including later changes to it.
+ */
+export function UserPermissionOverrides({ users }: UserPermissionOverridesProps) {
+  const [selectedUserId, setSelectedUserId] = useState<string>('')
+  const [details, setDetails] = useState<UserPermissionDetails | null>(null)
+  const [drafts, setDrafts] = useState<Partial<Record<Permission, OverrideDraft>>>({})
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const fetchDetails = useCallback(async (userId: string) => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/users/${userId}/permissions`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load user permissions')
+        return
+      }
+
+      setDetails(data.user)
+      setDrafts(toDrafts(data.user))
+    } catch (error) {
+      console.error('Error loading user permissions:', error)
+      toast.error('Error loading user permissions')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (selectedUserId) {
+      fetchDetails(selectedUserId)
+    } else {
+      setDetails(null)
+      setDrafts({})
+    }
+  }, [selectedUserId, fetchDetails])
+
+  const updateDraft = (permission: Permission, update: Partial<OverrideDraft>) => {
+    setDrafts(current => {
+      const next = { choice: 'ROLE' as OverrideChoice, reason: '', ...current[permission], ...update }
+      if (next.choice === 'ROLE') {
+        const { [permission]: _removed, ...rest } = current
+        return rest
+      }
+      return { ...current, [permission]: next }
+    })
+  }
+
+  const saveOverrides = async () => {
+    if (!details) return
+
+    try {
+      setSaving(true)
+      const overrides = PERMISSIONS.flatMap(permission => {
+        const draft = drafts[permission]
+        if (!draft || draft.choice === 'ROLE') return []
+        return [{ permission, granted: draft.choice === 'GRANT', reason: draft.reason.trim() || null }]
+      })
+
+      const response = await fetch(`/api/users/${details.userId}/permissions`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ overrides })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save user permissions')
+        return
+      }
+
+      setDetails(data.user)
+      setDrafts(toDrafts(data.user))
+      toast.success(`Permissions saved for ${data.user.name}`)
+    } catch (error) {
+      console.error('Error saving user permissions:', error)
+      toast.error('Error saving user permissions')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const roleLabel = (role: string) => isUserRoleValue(role) ? USER_ROLE_LABELS[role] : role
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Individual Overrides</CardTitle>
+        <CardDescription>
+          Grant a team member a permission their role doesn&apos;t have, or withhold one it does.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+          <Select value={selectedUserId} onValueChange={setSelectedUserId}>
+            <SelectTrigger className="w-full sm:w-80">
+              <SelectValue placeholder="Choose a team member" />
+            </SelectTrigger>
+            <SelectContent>
+              {users.map(user => (
+                <SelectItem key={user.id} value={user.id}>
+                  {user.name} ({roleLabel(user.role)})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {details && (
+            <Button onClick={saveOverrides} disabled={saving || loading} className="sm:ml-auto">
+              {saving ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Save className="h-4 w-4 mr-1" />}
+              Save overrides
+            </Button>
+          )}
+        </div>
+
+        {loading && (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin mr-2" />
+            Loading permissions...
+          </div>
+        )}
+
+        {!loading && details && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Permission</TableHead>
+                <TableHead className="w-32">{roleLabel(details.role)} role</TableHead>
+                <TableHead className="w-44">Override</TableHead>
+                <TableHead>Reason</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {PERMISSION_GROUPS.map(group => (
+                <Fragment key={group}>
+                  <TableRow className="bg-muted/50 hover:bg-muted/50">
+                    <TableCell colSpan={4} className="font-medium text-sm">{group}</TableCell>
+                  </TableRow>
+                  {PERMISSIONS.filter(permission => PERMISSION_CONFIG[permission].group === group).map(permission => {
+                    const draft = drafts[permission]
+                    const locked = isLockedPermission(details.role, permission)
+                    return (
+                      <TableRow key={permission}>
+                        <TableCell>
+                          <div className="text-sm font-medium">{PERMISSION_CONFIG[permission].label}</div>
+                          <div className="text-xs text-muted-foreground">{PERMISSION_CONFIG[permission].description}</div>
+                        </TableCell>
+                        <TableCell>
+                          {details.rolePermissions.includes(permission) ? (
+                            <Badge variant="secondary">Granted</Badge>
+                          ) : (
+                            <Badge variant="outline">Not granted</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={draft?.choice || 'ROLE'}
+                            onValueChange={value => updateDraft(permission, { choice: value as OverrideChoice })}
+                            disabled={locked || saving}
+                          >
+                            <SelectTrigger className="h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="ROLE">Role default</SelectItem>
+                              <SelectItem value="GRANT">Grant</SelectItem>
+                              <SelectItem value="WITHHOLD">Withhold</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          {draft && (
+                            <Input
+                              value={draft.reason}
+                              onChange={event => updateDraft(permission, { reason: event.target.value })}
+                              placeholder="Why (optional)"
+                              maxLength={500}
+                              className="h-8"
+                              disabled={saving}
+                            />
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
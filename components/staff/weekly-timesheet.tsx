@@ -0,0 +1,311 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { ChevronLeft, ChevronRight, Clock, Loader2, Square, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { useUsers } from '@/lib/hooks/useUsers'
+import { WORK_TYPE_LABELS } from '@/lib/assignment-engine'
+import {
+  entryMinutes,
+  formatMinutes,
+  getWeekDays,
+  getWeekStart,
+  type TimeEntryRow,
+  type WeeklyTimesheet as Timesheet
+} from '@/lib/time-tracking'
+
+interface WeeklyTimesheetProps {
+  currentUserId: string
+  // Whose timesheet to show first
+  initialUserId: string
+  // time.view_all - see and correct other people's time
+  canViewOthers: boolean
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const toDateParam = (date: Date) => date.toISOString().slice(0, 10)
+
+/**
+ * A week of time by job and day, with the entries behind it
+ * Time is recorded from the VAT and accounts workflow windows, by timer or after the event.
+ */
+export function WeeklyTimesheet({ currentUserId, initialUserId, canViewOthers }: WeeklyTimesheetProps) {
+  const { users } = useUsers({ includeSelf: true, scope: 'all', autoFetch: canViewOthers })
+  const [selectedUserId, setSelectedUserId] = useState(initialUserId)
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()))
+  const [timesheet, setTimesheet] = useState<Timesheet | null>(null)
+  const [timer, setTimer] = useState<TimeEntryRow | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [stopping, setStopping] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  const viewingSelf = selectedUserId === currentUserId
+
+  const fetchTimesheet = useCallback(async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/time-entries?userId=${selectedUserId}&week=${toDateParam(weekStart)}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to load timesheet')
+        return
+      }
+
+      setTimesheet(data.timesheet)
+    } catch (error) {
+      console.error('Error loading timesheet:', error)
+      toast.error('Error loading timesheet')
+    } finally {
+      setLoading(false)
+    }
+  }, [selectedUserId, weekStart])
+
+  const fetchTimer = useCallback(async () => {
+    try {
+      const response = await fetch('/api/time-entries/timer')
+      if (response.ok) {
+        const data = await response.json()
+        setTimer(data.timer)
+      }
+    } catch (error) {
+      console.error('Error loading timer:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchTimesheet()
+  }, [fetchTimesheet])
+
+  useEffect(() => {
+    fetchTimer()
+  }, [fetchTimer])
+
+  const stopTimer = async () => {
+    try {
+      setStopping(true)
+      const response = await fetch('/api/time-entries/timer', { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to stop timer')
+        return
+      }
+
+      toast.success(data.message)
+      setTimer(null)
+      fetchTimesheet()
+    } catch (error) {
+      console.error('Error stopping timer:', error)
+      toast.error('Error stopping timer')
+    } finally {
+      setStopping(false)
+    }
+  }
+
+  const deleteEntry = async (entry: TimeEntryRow) => {
+    if (!confirm(`Delete ${formatMinutes(entryMinutes(entry))} on ${entry.companyName}?`)) {
+      return
+    }
+
+    try {
+      setDeletingId(entry.id)
+      const response = await fetch(`/api/time-entries/${entry.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to delete time')
+        return
+      }
+
+      toast.success('Time deleted')
+      if (entry.id === timer?.id) setTimer(null)
+      fetchTimesheet()
+    } catch (error) {
+      console.error('Error deleting time:', error)
+      toast.error('Error deleting time')
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  const days = getWeekDays(weekStart)
+  const isThisWeek = weekStart.getTime() === getWeekStart(new Date()).getTime()
+  const formatDay = (date: Date) => date.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short', timeZone: 'UTC' })
+  const formatTime = (date: string) => new Date(date).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', timeZone: 'Europe/London' })
+  const cell = (minutes: number) => minutes > 0 ? formatMinutes(minutes) : <span className="text-muted-foreground">-</span>
+
+  return (
+    <div className="space-y-6">
+      {viewingSelf && timer && (
+        <Card className="border-primary/40 bg-primary/5">
+          <CardContent className="flex items-center justify-between gap-4 py-4">
+            <div className="flex items-center gap-2 text-sm">
+              <Clock className="h-4 w-4 text-primary" />
+              <span>
+                Timer running on <span className="font-medium">{timer.companyName}</span> ({WORK_TYPE_LABELS[timer.workType]}, {timer.periodLabel})
+                since {formatTime(timer.startedAt)}
+              </span>
+            </div>
+            <Button size="sm" variant="destructive" onClick={stopTimer} disabled={stopping}>
+              {stopping ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Square className="h-4 w-4 mr-2" />}
+              Stop
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Clock className="h-5 w-5" />
+                Week of {formatDay(weekStart)}
+              </CardTitle>
+              <CardDescription>
+                Time recorded against VAT returns and accounts. Start a timer or add time from a workflow&apos;s window.
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              {canViewOthers && (
+                <Select value={selectedUserId} onValueChange={setSelectedUserId}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {!users.some(user => user.id === currentUserId) && (
+                      <SelectItem value={currentUserId}>Me</SelectItem>
+                    )}
+                    {users.map(user => (
+                      <SelectItem key={user.id} value={user.id}>
+                        {user.id === currentUserId ? `${user.name} (me)` : user.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button variant="outline" size="icon" onClick={() => setWeekStart(new Date(weekStart.getTime() - 7 * DAY_MS))}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setWeekStart(getWeekStart(new Date()))} disabled={isThisWeek}>
+                This Week
+              </Button>
+              <Button variant="outline" size="icon" onClick={() => setWeekStart(new Date(weekStart.getTime() + 7 * DAY_MS))}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading || !timesheet ? (
+            <div className="flex items-center justify-center py-8 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin mr-2" />
+              Loading timesheet...
+            </div>
+          ) : timesheet.rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">No time recorded this week</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Job</TableHead>
+                  {days.map(day => (
+                    <TableHead key={day.toISOString()} className="text-right">{formatDay(day)}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {timesheet.rows.map(row => (
+                  <TableRow key={`${row.workType}:${row.workflowId}`}>
+                    <TableCell>
+                      <div className="font-medium">{row.companyName}</div>
+                      <div className="text-xs text-muted-foreground flex items-center gap-2 mt-1">
+                        <Badge variant="outline">{WORK_TYPE_LABELS[row.workType]}</Badge>
+                        {row.periodLabel}
+                      </div>
+                    </TableCell>
+                    {row.minutesByDay.map((minutes, index) => (
+                      <TableCell key={index} className="text-right text-sm">{cell(minutes)}</TableCell>
+                    ))}
+                    <TableCell className="text-right font-medium">{formatMinutes(row.totalMinutes)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell className="font-medium">Total</TableCell>
+                  {timesheet.totalsByDay.map((minutes, index) => (
+                    <TableCell key={index} className="text-right font-medium">{cell(minutes)}</TableCell>
+                  ))}
+                  <TableCell className="text-right font-bold">{formatMinutes(timesheet.totalMinutes)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {timesheet && timesheet.entries.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Entries</CardTitle>
+            <CardDescription>Each timer and manual entry behind the week&apos;s totals</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Day</TableHead>
+                  <TableHead>Job</TableHead>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {timesheet.entries.map(entry => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-sm">{formatDay(new Date(entry.startedAt))}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{entry.companyName}</div>
+                      <div className="text-xs text-muted-foreground">{WORK_TYPE_LABELS[entry.workType]} - {entry.periodLabel}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {formatMinutes(entryMinutes(entry))}
+                      <div className="text-xs text-muted-foreground">
+                        {entry.isManual
+                          ? 'Added manually'
+                          : entry.endedAt
+                            ? `${formatTime(entry.startedAt)} to ${formatTime(entry.endedAt)}`
+                            : `Running since ${formatTime(entry.startedAt)}`}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{entry.description || '-'}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteEntry(entry)}
+                        disabled={deletingId === entry.id}
+                      >
+                        {deletingId === entry.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
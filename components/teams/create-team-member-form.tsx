@@ -1,8 +1,8 @@
 'use client'
 
-import { useState } from 'react'
-import { useSession } from 'next-auth/react'
+import { useEffect, useState } from 'react'
 import { showToast } from '@/lib/toast'
+import { usePermissions } from '@/lib/hooks/usePermissions'
 import { UserPlus, Save, X, Crown, Shield, User } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -19,6 +19,7 @@ import {
   DialogTitle,
   DialogDescription,
 } from '@/components/ui/dialog'
+import type { TeamSummary } from '@/lib/teams'
 
 interface CreateTeamMemberFormProps {
   onSuccess: () => void
@@ -26,7 +27,7 @@ interface CreateTeamMemberFormProps {
 }
 
 export function CreateTeamMemberForm({ onSuccess, onCancel }: CreateTeamMemberFormProps) {
-  const { data: session } = useSession()
+  const { can } = usePermissions()
   const [isLoading, setIsLoading] = useState(false)
   const [formData, setFormData] = useState({
     name: '',
@@ -34,6 +35,28 @@ export function CreateTeamMemberForm({ onSuccess, onCancel }: CreateTeamMemberFo
     password: '',
     role: 'STAFF'
   })
+  const [teams, setTeams] = useState<TeamSummary[]>([])
+  const [teamId, setTeamId] = useState('none')
+
+  useEffect(() => {
+    const fetchTeams = async () => {
+      try {
+        const response = await fetch('/api/teams?mine=true')
+        const data = await response.json()
+        if (data.success) {
+          setTeams(data.teams)
+          // New people usually join the team of whoever adds them
+          if (data.teams.length === 1) {
+            setTeamId(data.teams[0].id)
+          }
+        }
+      } catch (error) {
+        console.error('Error fetching teams:', error)
+      }
+    }
+
+    fetchTeams()
+  }, [])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -55,7 +78,10 @@ export function CreateTeamMemberForm({ onSuccess, onCancel }: CreateTeamMemberFo
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(formData),
+        body: JSON.stringify({
+          ...formData,
+          teamIds: teamId === 'none' ? [] : [teamId]
+        }),
       })
 
       const data = await response.json()
@@ -98,8 +124,8 @@ export function CreateTeamMemberForm({ onSuccess, onCancel }: CreateTeamMemberFo
       }
     ]
 
-    // Only PARTNER users can create other PARTNER users
-    if (session?.user?.role === 'PARTNER') {
+    // Creating a partner needs users.manage_senior
+    if (can('users.manage_senior')) {
       options.push({
         value: 'PARTNER',
         label: 'Partner',
@@ -210,6 +236,25 @@ export function CreateTeamMemberForm({ onSuccess, onCancel }: CreateTeamMemberFo
           )}
         </div>
 
+        {teams.length > 0 && (
+          <div className="space-y-2">
+            <Label htmlFor="team">Team</Label>
+            <Select value={teamId} onValueChange={setTeamId}>
+              <SelectTrigger id="team" className="input-field">
+                <SelectValue placeholder="Select team" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No team</SelectItem>
+                {teams.map((team) => (
+                  <SelectItem key={team.id} value={team.id}>
+                    {team.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
         <div className="flex justify-end gap-3 pt-4">
           <Button
             type="button"
@@ -1,8 +1,8 @@
 'use client'
 
 import { useState } from 'react'
-import { useSession } from 'next-auth/react'
 import { showToast } from '@/lib/toast'
+import { usePermissions } from '@/lib/hooks/usePermissions'
 import { Edit, Save, X, Crown, Shield, User } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -35,7 +35,7 @@ interface EditStaffMemberFormProps {
 }
 
 export function EditStaffMemberForm({ user, onSuccess, onCancel }: EditStaffMemberFormProps) {
-  const { data: session } = useSession()
+  const { can } = usePermissions()
   const [isLoading, setIsLoading] = useState(false)
   const [formData, setFormData] = useState({
     name: user.name,
@@ -102,8 +102,8 @@ export function EditStaffMemberForm({ user, onSuccess, onCancel }: EditStaffMemb
       }
     ]
 
-    // Only PARTNER users can edit PARTNER role
-    if (session?.user?.role === 'PARTNER') {
+    // Giving the partner role needs users.manage_senior
+    if (can('users.manage_senior')) {
       options.push({
         value: 'PARTNER',
         label: 'Partner',
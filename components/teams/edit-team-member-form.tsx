@@ -3,6 +3,7 @@
 import { useState } from 'react'
 import { useSession } from 'next-auth/react'
 import { showToast } from '@/lib/toast'
+import { usePermissions } from '@/lib/hooks/usePermissions'
 import { Save, X, User, Mail, Shield, Key, AlertTriangle, Crown } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -33,6 +34,7 @@ interface EditTeamMemberFormProps {
 
 export function EditTeamMemberForm({ user, onSuccess, onCancel }: EditTeamMemberFormProps) {
   const { data: session } = useSession()
+  const { can } = usePermissions()
   const [formData, setFormData] = useState({
     name: user.name,
     email: user.email,
@@ -125,8 +127,8 @@ export function EditTeamMemberForm({ user, onSuccess, onCancel }: EditTeamMember
       }
     ]
 
-    // Only PARTNER users can edit PARTNER role
-    if (session?.user?.role === 'PARTNER') {
+    // Giving the partner role needs users.manage_senior
+    if (can('users.manage_senior')) {
       options.push({
         value: 'PARTNER',
         label: 'Partner',
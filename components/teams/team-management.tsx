@@ -1,9 +1,9 @@
 'use client'
 
 import React, { useState, useEffect } from 'react'
-import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
 import { showToast } from '@/lib/toast'
+import { usePermissions } from '@/lib/hooks/usePermissions'
 import { 
   Users, 
   UserPlus, 
@@ -58,6 +58,7 @@ import {
 import { Badge } from '@/components/ui/badge'
 import { CreateTeamMemberForm } from './create-team-member-form'
 import { EditTeamMemberForm } from './edit-team-member-form'
+import { TeamStructure } from './team-structure'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
@@ -81,7 +82,7 @@ interface TeamManagementProps {
 }
 
 export function TeamManagement({ users: initialUsers }: TeamManagementProps) {
-  const { data: session } = useSession()
+  const { can } = usePermissions()
   const router = useRouter()
   const [users, setUsers] = useState<StaffMember[]>(initialUsers)
   const [showCreateForm, setShowCreateForm] = useState(false)
@@ -214,18 +215,12 @@ export function TeamManagement({ users: initialUsers }: TeamManagementProps) {
   }
 
   const canDeleteUser = (user: StaffMember) => {
-    // PARTNER can delete any account including other PARTNERs
-    if (session?.user?.role === 'PARTNER') {
-      return true
+    if (!can('users.manage')) {
+      return false
     }
-    
-    // MANAGER can delete STAFF accounts only
-    if (session?.user?.role === 'MANAGER') {
-      return user.role === 'STAFF'
-    }
-    
-    // STAFF cannot delete any accounts
-    return false
+
+    // Without users.manage_senior only STAFF accounts can be deleted
+    return can('users.manage_senior') || user.role === 'STAFF'
   }
 
   // Filter users based on search and filter criteria
@@ -610,6 +605,9 @@ export function TeamManagement({ users: initialUsers }: TeamManagementProps) {
             </CardContent>
           </Card>
 
+          {/* Teams */}
+          <TeamStructure users={users} />
+
           {/* Create Team Member Dialog */}
           <Dialog open={showCreateForm} onOpenChange={setShowCreateForm}>
             <DialogContent className="max-w-md">
@@ -0,0 +1,518 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import { showToast } from '@/lib/toast'
+import { Building2, Edit, Loader2, Network, Plus, Search, Trash2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { usePermissions } from '@/lib/hooks/usePermissions'
+import { TEAM_NAME_MAX_LENGTH, type TeamSummary } from '@/lib/teams'
+
+interface TeamPerson {
+  id: string
+  name: string
+  isActive: boolean
+}
+
+interface TeamStructureProps {
+  users: TeamPerson[]
+}
+
+interface TeamDraft {
+  name: string
+  description: string
+  leadId: string
+  memberIds: string[]
+  isActive: boolean
+}
+
+interface PortfolioClient {
+  id: string
+  clientCode: string | null
+  companyName: string
+}
+
+const EMPTY_DRAFT: TeamDraft = { name: '', description: '', leadId: 'none', memberIds: [], isActive: true }
+
+/**
+ * Teams, their leads and members, and each team's client portfolio
+ * Team leads can change their own portfolio; everything else needs teams.manage.
+ */
+export function TeamStructure({ users }: TeamStructureProps) {
+  const { data: session } = useSession()
+  const { can } = usePermissions()
+  const canManage = can('teams.manage')
+
+  const [teams, setTeams] = useState<TeamSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  const [editingTeam, setEditingTeam] = useState<TeamSummary | null>(null)
+  const [showTeamForm, setShowTeamForm] = useState(false)
+  const [draft, setDraft] = useState<TeamDraft>(EMPTY_DRAFT)
+  const [teamToDelete, setTeamToDelete] = useState<TeamSummary | null>(null)
+
+  const [portfolioTeam, setPortfolioTeam] = useState<TeamSummary | null>(null)
+  const [portfolioClients, setPortfolioClients] = useState<PortfolioClient[]>([])
+  const [loadingPortfolio, setLoadingPortfolio] = useState(false)
+  const [clientSearch, setClientSearch] = useState('')
+  const [searchResults, setSearchResults] = useState<PortfolioClient[]>([])
+
+  const activeUsers = users.filter(user => user.isActive)
+
+  const fetchTeams = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/teams${canManage ? '?includeInactive=true' : ''}`)
+      const data = await response.json()
+      if (data.success) {
+        setTeams(data.teams)
+      }
+    } catch (error) {
+      console.error('Error fetching teams:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [canManage])
+
+  useEffect(() => {
+    fetchTeams()
+  }, [fetchTeams])
+
+  const openTeamForm = (team: TeamSummary | null) => {
+    setEditingTeam(team)
+    setDraft(team ? {
+      name: team.name,
+      description: team.description || '',
+      leadId: team.lead?.id || 'none',
+      memberIds: team.members.map(member => member.id),
+      isActive: team.isActive
+    } : EMPTY_DRAFT)
+    setShowTeamForm(true)
+  }
+
+  const toggleMember = (userId: string, checked: boolean) => {
+    setDraft(prev => ({
+      ...prev,
+      memberIds: checked
+        ? [...prev.memberIds, userId]
+        : prev.memberIds.filter(id => id !== userId)
+    }))
+  }
+
+  const handleSaveTeam = async () => {
+    if (!draft.name.trim()) {
+      showToast.error('Please enter a team name')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const response = await fetch(editingTeam ? `/api/teams/${editingTeam.id}` : '/api/teams', {
+        method: editingTeam ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: draft.name,
+          description: draft.description || null,
+          leadId: draft.leadId === 'none' ? null : draft.leadId,
+          memberIds: draft.memberIds,
+          ...(editingTeam ? { isActive: draft.isActive } : {})
+        })
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        showToast.success(editingTeam ? 'Team updated' : 'Team created')
+        setShowTeamForm(false)
+        fetchTeams()
+      } else {
+        showToast.error(data.error || 'Failed to save team')
+      }
+    } catch (error) {
+      showToast.error('Failed to save team')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteTeam = async () => {
+    if (!teamToDelete) return
+
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/teams/${teamToDelete.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (response.ok) {
+        showToast.success(data.message || 'Team deleted')
+        setTeamToDelete(null)
+        fetchTeams()
+      } else {
+        showToast.error(data.error || 'Failed to delete team')
+      }
+    } catch (error) {
+      showToast.error('Failed to delete team')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const fetchPortfolio = async (teamId: string) => {
+    setLoadingPortfolio(true)
+    try {
+      const response = await fetch(`/api/teams/${teamId}/clients`)
+      const data = await response.json()
+      if (data.success) {
+        setPortfolioClients(data.clients)
+      }
+    } catch (error) {
+      console.error('Error fetching team clients:', error)
+    } finally {
+      setLoadingPortfolio(false)
+    }
+  }
+
+  const openPortfolio = (team: TeamSummary) => {
+    setPortfolioTeam(team)
+    setPortfolioClients([])
+    setClientSearch('')
+    setSearchResults([])
+    fetchPortfolio(team.id)
+  }
+
+  const handleClientSearch = async () => {
+    if (!clientSearch.trim()) return
+
+    try {
+      const params = new URLSearchParams({ search: clientSearch.trim(), active: 'true', limit: '10' })
+      const response = await fetch(`/api/clients?${params}`)
+      const data = await response.json()
+      if (data.success) {
+        setSearchResults(data.clients)
+      }
+    } catch (error) {
+      console.error('Error searching clients:', error)
+    }
+  }
+
+  const updatePortfolio = async (changes: { addClientIds?: string[]; removeClientIds?: string[] }) => {
+    if (!portfolioTeam) return
+
+    setSaving(true)
+    try {
+      const response = await fetch(`/api/teams/${portfolioTeam.id}/clients`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        fetchPortfolio(portfolioTeam.id)
+        fetchTeams()
+      } else {
+        showToast.error(data.error || 'Failed to update team clients')
+      }
+    } catch (error) {
+      showToast.error('Failed to update team clients')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const canEditPortfolio = (team: TeamSummary) => canManage || team.lead?.id === session?.user?.id
+
+  if (!loading && teams.length === 0 && !canManage) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Network className="h-5 w-5" />
+              Teams
+            </CardTitle>
+            <CardDescription>
+              Team leads and members see their own team's people and clients on the dashboard
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button onClick={() => openTeamForm(null)} variant="outline" className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              New Team
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground py-4">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading teams...
+          </div>
+        ) : teams.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">
+            No teams yet. Everyone sees the whole firm until teams are set up.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Team</TableHead>
+                <TableHead>Lead</TableHead>
+                <TableHead>Members</TableHead>
+                <TableHead>Clients</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {teams.map(team => (
+                <TableRow key={team.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{team.name}</span>
+                      {!team.isActive && <Badge variant="secondary">Inactive</Badge>}
+                    </div>
+                    {team.description && (
+                      <p className="text-xs text-muted-foreground">{team.description}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{team.lead?.name || '—'}</TableCell>
+                  <TableCell className="text-sm">
+                    {team.members.length > 0 ? team.members.map(member => member.name).join(', ') : '—'}
+                  </TableCell>
+                  <TableCell className="text-sm">{team.clientCount}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex items-center justify-end gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => openPortfolio(team)}>
+                        <Building2 className="h-4 w-4" />
+                      </Button>
+                      {canManage && (
+                        <>
+                          <Button variant="ghost" size="sm" onClick={() => openTeamForm(team)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setTeamToDelete(team)}>
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Create / Edit Team Dialog */}
+      <Dialog open={showTeamForm} onOpenChange={setShowTeamForm}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingTeam ? 'Edit Team' : 'New Team'}</DialogTitle>
+            <DialogDescription>
+              The lead and members see this team&apos;s people and clients on their dashboard.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="team-name">Name *</Label>
+              <Input
+                id="team-name"
+                value={draft.name}
+                maxLength={TEAM_NAME_MAX_LENGTH}
+                onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. VAT Team"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="team-description">Description</Label>
+              <Textarea
+                id="team-description"
+                value={draft.description}
+                onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+                rows={2}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Team Lead</Label>
+              <Select value={draft.leadId} onValueChange={(value) => setDraft(prev => ({ ...prev, leadId: value }))}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select lead" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No lead</SelectItem>
+                  {activeUsers.map(user => (
+                    <SelectItem key={user.id} value={user.id}>{user.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Members</Label>
+              <div className="max-h-48 overflow-y-auto border rounded-md p-2 space-y-2">
+                {activeUsers.map(user => (
+                  <label key={user.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={draft.memberIds.includes(user.id)}
+                      onCheckedChange={(checked) => toggleMember(user.id, checked === true)}
+                    />
+                    {user.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {editingTeam && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="team-active">Active</Label>
+                <Switch
+                  id="team-active"
+                  checked={draft.isActive}
+                  onCheckedChange={(checked) => setDraft(prev => ({ ...prev, isActive: checked }))}
+                />
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowTeamForm(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveTeam} disabled={saving}>
+              {saving ? 'Saving...' : editingTeam ? 'Save Team' : 'Create Team'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Team Dialog */}
+      <Dialog open={!!teamToDelete} onOpenChange={(open) => !open && setTeamToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Team</DialogTitle>
+            <DialogDescription>
+              Delete <strong>{teamToDelete?.name}</strong>? Its {teamToDelete?.clientCount || 0} client(s) leave
+              the team portfolio but keep their assigned users.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTeamToDelete(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDeleteTeam} disabled={saving}>
+              {saving ? 'Deleting...' : 'Delete Team'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Team Portfolio Dialog */}
+      <Dialog open={!!portfolioTeam} onOpenChange={(open) => !open && setPortfolioTeam(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Building2 className="h-5 w-5" />
+              {portfolioTeam?.name} Clients
+            </DialogTitle>
+            <DialogDescription>
+              Clients in this team&apos;s portfolio. Adding a client from another team moves it across.
+            </DialogDescription>
+          </DialogHeader>
+
+          {portfolioTeam && canEditPortfolio(portfolioTeam) && (
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <Input
+                  value={clientSearch}
+                  onChange={(e) => setClientSearch(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleClientSearch()}
+                  placeholder="Search clients to add..."
+                />
+                <Button variant="outline" onClick={handleClientSearch}>
+                  <Search className="h-4 w-4" />
+                </Button>
+              </div>
+              {searchResults.length > 0 && (
+                <div className="border rounded-md divide-y max-h-40 overflow-y-auto">
+                  {searchResults
+                    .filter(client => !portfolioClients.some(existing => existing.id === client.id))
+                    .map(client => (
+                      <div key={client.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                        <span>{client.clientCode} — {client.companyName}</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={saving}
+                          onClick={() => updatePortfolio({ addClientIds: [client.id] })}
+                        >
+                          <Plus className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="border rounded-md divide-y max-h-64 overflow-y-auto">
+            {loadingPortfolio ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground p-3">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading clients...
+              </div>
+            ) : portfolioClients.length === 0 ? (
+              <p className="text-sm text-muted-foreground p-3">No clients in this team&apos;s portfolio</p>
+            ) : (
+              portfolioClients.map(client => (
+                <div key={client.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <span>{client.clientCode} — {client.companyName}</span>
+                  {portfolioTeam && canEditPortfolio(portfolioTeam) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={saving}
+                      onClick={() => updatePortfolio({ removeClientIds: [client.id] })}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPortfolioTeam(null)}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -1,7 +1,7 @@
 import { db } from '@/lib/db'
 
 interface ActivityLogData {
-  userId: string
+  userId?: string // Omitted for client/system-triggered events (e.g. client portal uploads)
   action: string
   clientId?: string
   details?: any
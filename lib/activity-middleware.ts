@@ -62,6 +62,14 @@ export const ComprehensiveActivityTypes = {
   CLIENT_RESIGNED: 'CLIENT_RESIGNED',
   CLIENT_REACTIVATED: 'CLIENT_REACTIVATED',
   CLIENT_COMPANIES_HOUSE_REFRESH: 'CLIENT_COMPANIES_HOUSE_REFRESH',
+  CLIENT_CONTACT_ADDED: 'CLIENT_CONTACT_ADDED',
+  CLIENT_CONTACT_UPDATED: 'CLIENT_CONTACT_UPDATED',
+  CLIENT_CONTACT_REMOVED: 'CLIENT_CONTACT_REMOVED',
+  CLIENT_CONTACTS_SEEDED: 'CLIENT_CONTACTS_SEEDED',
+
+  // Officers & PSCs
+  OFFICER_CHANGES_DETECTED: 'OFFICER_CHANGES_DETECTED',
+  OFFICERS_REBUILT: 'OFFICERS_REBUILT',
 
   // Workflow Management - Ltd Companies
   LTD_WORKFLOW_CREATED: 'LTD_WORKFLOW_CREATED',
@@ -84,6 +92,54 @@ export const ComprehensiveActivityTypes = {
   NON_LTD_ACCOUNTS_FILED: 'NON_LTD_ACCOUNTS_FILED',
   NON_LTD_ACCOUNTS_FILING_UNDONE: 'NON_LTD_ACCOUNTS_FILING_UNDONE',
 
+  // Workflow Management - Confirmation Statements
+  CONFIRMATION_STATEMENT_WORKFLOW_STAGE_CHANGED: 'CONFIRMATION_STATEMENT_WORKFLOW_STAGE_CHANGED',
+  CONFIRMATION_STATEMENT_WORKFLOW_ASSIGNED: 'CONFIRMATION_STATEMENT_WORKFLOW_ASSIGNED',
+  CONFIRMATION_STATEMENT_WORKFLOW_UNASSIGNED: 'CONFIRMATION_STATEMENT_WORKFLOW_UNASSIGNED',
+  CONFIRMATION_STATEMENT_FILED: 'CONFIRMATION_STATEMENT_FILED',
+  CONFIRMATION_STATEMENT_FILING_UNDONE: 'CONFIRMATION_STATEMENT_FILING_UNDONE',
+  BULK_CONFIRMATION_STATEMENT_OPERATION: 'BULK_CONFIRMATION_STATEMENT_OPERATION',
+
+  // Workflow Management - Corporation Tax (CT600)
+  CT_WORKFLOW_STAGE_CHANGED: 'CT_WORKFLOW_STAGE_CHANGED',
+  CT_WORKFLOW_ASSIGNED: 'CT_WORKFLOW_ASSIGNED',
+  CT_WORKFLOW_UNASSIGNED: 'CT_WORKFLOW_UNASSIGNED',
+  CT600_FILED: 'CT600_FILED',
+  CT600_FILING_UNDONE: 'CT600_FILING_UNDONE',
+
+  // Workflow Management - Self Assessment (SA100)
+  SELF_ASSESSMENT_WORKFLOW_STAGE_CHANGED: 'SELF_ASSESSMENT_WORKFLOW_STAGE_CHANGED',
+  SELF_ASSESSMENT_WORKFLOW_ASSIGNED: 'SELF_ASSESSMENT_WORKFLOW_ASSIGNED',
+  SELF_ASSESSMENT_WORKFLOW_UNASSIGNED: 'SELF_ASSESSMENT_WORKFLOW_UNASSIGNED',
+  SELF_ASSESSMENT_FILED: 'SELF_ASSESSMENT_FILED',
+  SELF_ASSESSMENT_FILING_UNDONE: 'SELF_ASSESSMENT_FILING_UNDONE',
+  BULK_SELF_ASSESSMENT_OPERATION: 'BULK_SELF_ASSESSMENT_OPERATION',
+
+  // Workflow Management - Payroll (RTI)
+  PAYROLL_SCHEDULE_CREATED: 'PAYROLL_SCHEDULE_CREATED',
+  PAYROLL_SCHEDULE_UPDATED: 'PAYROLL_SCHEDULE_UPDATED',
+  PAYROLL_RUN_STAGE_CHANGED: 'PAYROLL_RUN_STAGE_CHANGED',
+  PAYROLL_RUN_ASSIGNED: 'PAYROLL_RUN_ASSIGNED',
+  PAYROLL_RUN_UNASSIGNED: 'PAYROLL_RUN_UNASSIGNED',
+  PAYROLL_RUN_COMPLETED: 'PAYROLL_RUN_COMPLETED',
+  PAYROLL_RUN_REOPENED: 'PAYROLL_RUN_REOPENED',
+  BULK_PAYROLL_OPERATION: 'BULK_PAYROLL_OPERATION',
+
+  // Workflow Management - CIS
+  CIS_SCHEME_CREATED: 'CIS_SCHEME_CREATED',
+  CIS_SCHEME_UPDATED: 'CIS_SCHEME_UPDATED',
+  CIS_SUBCONTRACTOR_ADDED: 'CIS_SUBCONTRACTOR_ADDED',
+  CIS_SUBCONTRACTOR_UPDATED: 'CIS_SUBCONTRACTOR_UPDATED',
+  CIS_SUBCONTRACTOR_VERIFIED: 'CIS_SUBCONTRACTOR_VERIFIED',
+  CIS_SUBCONTRACTOR_REMOVED: 'CIS_SUBCONTRACTOR_REMOVED',
+  CIS_PAYMENTS_UPDATED: 'CIS_PAYMENTS_UPDATED',
+  CIS_RETURN_STAGE_CHANGED: 'CIS_RETURN_STAGE_CHANGED',
+  CIS_RETURN_ASSIGNED: 'CIS_RETURN_ASSIGNED',
+  CIS_RETURN_UNASSIGNED: 'CIS_RETURN_UNASSIGNED',
+  CIS_RETURN_SUBMITTED: 'CIS_RETURN_SUBMITTED',
+  CIS_RETURN_REOPENED: 'CIS_RETURN_REOPENED',
+  BULK_CIS_OPERATION: 'BULK_CIS_OPERATION',
+
   // Workflow Management - VAT
   VAT_QUARTER_CREATED: 'VAT_QUARTER_CREATED',
   VAT_QUARTER_UPDATED: 'VAT_QUARTER_UPDATED',
@@ -92,6 +148,29 @@ export const ComprehensiveActivityTypes = {
   VAT_QUARTER_COMPLETED: 'VAT_QUARTER_COMPLETED',
   VAT_QUARTER_CLIENT_SELF_FILING: 'VAT_QUARTER_CLIENT_SELF_FILING',
   VAT_RETURN_FILED: 'VAT_RETURN_FILED',
+  VAT_RETURN_PREPARED: 'VAT_RETURN_PREPARED',
+  VAT_RETURN_SUBMITTED_TO_HMRC: 'VAT_RETURN_SUBMITTED_TO_HMRC',
+  VAT_RETURN_SUBMISSION_FAILED: 'VAT_RETURN_SUBMISSION_FAILED',
+  VAT_RECONCILIATION_RUN: 'VAT_RECONCILIATION_RUN',
+  VAT_RECONCILIATION_ISSUE_FIXED: 'VAT_RECONCILIATION_ISSUE_FIXED',
+  VAT_RECONCILIATION_ISSUE_DISMISSED: 'VAT_RECONCILIATION_ISSUE_DISMISSED',
+  VAT_RECONCILIATION_ISSUE_REOPENED: 'VAT_RECONCILIATION_ISSUE_REOPENED',
+
+  // Workflow Management - Assignment Engine
+  WORKFLOW_AUTO_ASSIGNED: 'WORKFLOW_AUTO_ASSIGNED',
+  AUTO_ASSIGNMENT_SETTINGS_UPDATED: 'AUTO_ASSIGNMENT_SETTINGS_UPDATED',
+  USER_SKILLS_UPDATED: 'USER_SKILLS_UPDATED',
+  STAFF_LEAVE_RECORDED: 'STAFF_LEAVE_RECORDED',
+  STAFF_LEAVE_REMOVED: 'STAFF_LEAVE_REMOVED',
+  WORKING_PATTERN_UPDATED: 'WORKING_PATTERN_UPDATED',
+  COVER_PLAN_CREATED: 'COVER_PLAN_CREATED',
+  COVER_PLAN_REVERTED: 'COVER_PLAN_REVERTED',
+
+  // Workflow Management - Time Tracking
+  TIME_ENTRY_CREATED: 'TIME_ENTRY_CREATED',
+  TIME_ENTRY_DELETED: 'TIME_ENTRY_DELETED',
+  CLIENT_FEE_BUDGETS_UPDATED: 'CLIENT_FEE_BUDGETS_UPDATED',
+  USER_COST_RATE_UPDATED: 'USER_COST_RATE_UPDATED',
 
   // User Management
   USER_CREATED: 'USER_CREATED',
@@ -101,6 +180,11 @@ export const ComprehensiveActivityTypes = {
   USER_DEACTIVATED: 'USER_DEACTIVATED',
   USER_ROLE_CHANGED: 'USER_ROLE_CHANGED',
   USER_PERMISSIONS_CHANGED: 'USER_PERMISSIONS_CHANGED',
+  ROLE_PERMISSIONS_CHANGED: 'ROLE_PERMISSIONS_CHANGED',
+  TEAM_CREATED: 'TEAM_CREATED',
+  TEAM_UPDATED: 'TEAM_UPDATED',
+  TEAM_DELETED: 'TEAM_DELETED',
+  TEAM_PORTFOLIO_UPDATED: 'TEAM_PORTFOLIO_UPDATED',
 
   // Data Operations
   DATA_EXPORTED: 'DATA_EXPORTED',
@@ -119,6 +203,27 @@ export const ComprehensiveActivityTypes = {
   EMAIL_SENT: 'EMAIL_SENT',
   NOTIFICATION_SENT: 'NOTIFICATION_SENT',
   REMINDER_SENT: 'REMINDER_SENT',
+  CHASE_SEQUENCE_CREATED: 'CHASE_SEQUENCE_CREATED',
+  CHASE_SEQUENCE_UPDATED: 'CHASE_SEQUENCE_UPDATED',
+  CHASE_SEQUENCE_DELETED: 'CHASE_SEQUENCE_DELETED',
+  AUTOMATED_CHASE_SENT: 'AUTOMATED_CHASE_SENT',
+  AUTOMATED_CHASE_ESCALATED: 'AUTOMATED_CHASE_ESCALATED',
+  EMAIL_TEMPLATE_DRAFT_SAVED: 'EMAIL_TEMPLATE_DRAFT_SAVED',
+  EMAIL_TEMPLATE_PUBLISHED: 'EMAIL_TEMPLATE_PUBLISHED',
+  EMAIL_TEMPLATE_ROLLED_BACK: 'EMAIL_TEMPLATE_ROLLED_BACK',
+  EMAIL_SCHEDULED: 'EMAIL_SCHEDULED',
+  EMAIL_QUEUE_CANCELLED: 'EMAIL_QUEUE_CANCELLED',
+  EMAIL_QUEUE_RESENT: 'EMAIL_QUEUE_RESENT',
+  CLIENT_EMAIL_RECEIVED: 'CLIENT_EMAIL_RECEIVED',
+  CONTACT_EMAIL_SUPPRESSED: 'CONTACT_EMAIL_SUPPRESSED',
+  EMAIL_SUPPRESSION_LIFTED: 'EMAIL_SUPPRESSION_LIFTED',
+  TEXT_MESSAGE_SENT: 'TEXT_MESSAGE_SENT',
+  MESSAGING_CONSENT_UPDATED: 'MESSAGING_CONSENT_UPDATED',
+  SIGNATURE_REQUEST_SENT: 'SIGNATURE_REQUEST_SENT',
+  SIGNATURE_REQUEST_CANCELLED: 'SIGNATURE_REQUEST_CANCELLED',
+  SIGNATURE_REQUEST_SIGNED: 'SIGNATURE_REQUEST_SIGNED',
+  SIGNATURE_REQUEST_DECLINED: 'SIGNATURE_REQUEST_DECLINED',
+  DOCUMENT_PACK_GENERATED: 'DOCUMENT_PACK_GENERATED',
 
   // Reports & Analytics
   REPORT_GENERATED: 'REPORT_GENERATED',
@@ -134,8 +239,13 @@ export const ComprehensiveActivityTypes = {
   FILE_UPLOADED: 'FILE_UPLOADED',
   FILE_DOWNLOADED: 'FILE_DOWNLOADED',
   FILE_DELETED: 'FILE_DELETED',
+  CLIENT_PORTAL_LINK_CREATED: 'CLIENT_PORTAL_LINK_CREATED',
+  CLIENT_PORTAL_LINK_REVOKED: 'CLIENT_PORTAL_LINK_REVOKED',
+  CLIENT_DOCUMENTS_UPLOADED: 'CLIENT_DOCUMENTS_UPLOADED',
 
   // API Operations
+  HMRC_VAT_CONNECTED: 'HMRC_VAT_CONNECTED',
+  HMRC_VAT_DISCONNECTED: 'HMRC_VAT_DISCONNECTED',
   API_ACCESS: 'API_ACCESS',
   API_ERROR: 'API_ERROR',
   RATE_LIMIT_EXCEEDED: 'RATE_LIMIT_EXCEEDED'
@@ -0,0 +1,164 @@
+/**
+ * Assignment Engine Client-Safe Utilities
+ *
+ * Scores the people who could pick up an unassigned VAT quarter or accounts workflow. Each
+ * candidate gets points for spare capacity (open work per working day compared with the busiest
+ * person in the pool, so part-time staff aren't loaded like full-time staff), for their skill at the work type and for continuity with the client, and loses points for
+ * leave before the deadline. People on leave on the due date, or without the skill when the firm
+ * records skills for that work type, are left out. lib/assignment-service loads the data and
+ * applies the results.
+ */
+
+export const ASSIGNABLE_WORK_TYPES = ['VAT', 'LTD_ACCOUNTS', 'NON_LTD_ACCOUNTS'] as const
+
+export type AssignableWorkType = typeof ASSIGNABLE_WORK_TYPES[number]
+
+export const WORK_TYPE_LABELS: Record<AssignableWorkType, string> = {
+  VAT: 'VAT',
+  LTD_ACCOUNTS: 'Ltd accounts',
+  NON_LTD_ACCOUNTS: 'Non-Ltd accounts'
+}
+
+// 0 means no skill recorded
+export const SKILL_LEVELS = [0, 1, 2, 3] as const
+
+export type SkillLevel = typeof SKILL_LEVELS[number]
+
+export const SKILL_LEVEL_LABELS: Record<SkillLevel, string> = {
+  0: 'None',
+  1: 'Learning',
+  2: 'Competent',
+  3: 'Expert'
+}
+
+// Maximum points for each factor
+export const SCORE_WEIGHTS = {
+  capacity: 40,
+  skill: 30,
+  continuity: 30,
+  // Taken off per day of leave between now and the deadline, up to maxLeavePenalty
+  leavePerDay: 5,
+  maxLeavePenalty: 30
+} as const
+
+export function isAssignableWorkType(value: unknown): value is AssignableWorkType {
+  return typeof value === 'string' && (ASSIGNABLE_WORK_TYPES as readonly string[]).includes(value)
+}
+
+export interface CandidateFactors {
+  userId: string
+  name: string
+  // Incomplete VAT quarters and accounts workflows already assigned
+  openItems: number
+  // Days a week they work
+  workingDaysPerWeek: number
+  skillLevel: SkillLevel
+  // Handled the client's previous quarter or year of this work
+  isPreviousAssignee: boolean
+  // The client's assigned user for this work type
+  isClientAssignee: boolean
+  leaveDaysBeforeDue: number
+  onLeaveOnDueDate: boolean
+}
+
+export interface CandidateScore {
+  userId: string
+  name: string
+  score: number
+  reasons: string[]
+}
+
+export interface ExcludedCandidate {
+  userId: string
+  name: string
+  reason: string
+}
+
+export interface AssignmentProposal {
+  workType: AssignableWorkType
+  workflowId: string
+  clientId: string
+  clientCode: string
+  companyName: string
+  periodLabel: string
+  dueDate: string
+  recommended: CandidateScore | null
+  // Everyone else who could take it, best first
+  alternatives: CandidateScore[]
+  excluded: ExcludedCandidate[]
+  explanation: string
+}
+
+/**
+ * Rank candidates for one piece of work
+ * @param skillsTracked - Whether anyone has a skill recorded for this work type; when nobody
+ *                        does, skills are ignored rather than ruling everyone out
+ */
+export function scoreCandidates(
+  workType: AssignableWorkType,
+  candidates: CandidateFactors[],
+  skillsTracked: boolean
+): { ranked: CandidateScore[]; excluded: ExcludedCandidate[] } {
+  const ranked: CandidateScore[] = []
+  const excluded: ExcludedCandidate[] = []
+  // Open items scaled to a five-day week
+  const loadOf = (candidate: CandidateFactors) => candidate.openItems * 5 / Math.max(1, candidate.workingDaysPerWeek)
+  const busiest = Math.max(1, ...candidates.map(loadOf))
+
+  for (const candidate of candidates) {
+    if (candidate.onLeaveOnDueDate) {
+      excluded.push({ userId: candidate.userId, name: candidate.name, reason: 'On leave on the due date' })
+      continue
+    }
+    if (skillsTracked && candidate.skillLevel === 0) {
+      excluded.push({ userId: candidate.userId, name: candidate.name, reason: `No ${WORK_TYPE_LABELS[workType]} skill recorded` })
+      continue
+    }
+
+    const reasons: string[] = []
+    let score = SCORE_WEIGHTS.capacity * (1 - loadOf(candidate) / busiest)
+    reasons.push(`${candidate.openItems} open item${candidate.openItems === 1 ? '' : 's'} (busiest has ${Math.round(busiest)})`)
+    if (candidate.workingDaysPerWeek < 5) {
+      reasons.push(`Works ${candidate.workingDaysPerWeek} day${candidate.workingDaysPerWeek === 1 ? '' : 's'} a week`)
+    }
+
+    if (skillsTracked) {
+      score += SCORE_WEIGHTS.skill * (candidate.skillLevel / 3)
+      reasons.push(`${SKILL_LEVEL_LABELS[candidate.skillLevel]} at ${WORK_TYPE_LABELS[workType]}`)
+    }
+
+    if (candidate.isPreviousAssignee) {
+      score += SCORE_WEIGHTS.continuity
+      reasons.push(workType === 'VAT' ? 'Did the previous quarter' : 'Did the previous year')
+    } else if (candidate.isClientAssignee) {
+      score += SCORE_WEIGHTS.continuity * 0.6
+      reasons.push('Assigned to the client')
+    }
+
+    if (candidate.leaveDaysBeforeDue > 0) {
+      score -= Math.min(SCORE_WEIGHTS.maxLeavePenalty, candidate.leaveDaysBeforeDue * SCORE_WEIGHTS.leavePerDay)
+      reasons.push(`${candidate.leaveDaysBeforeDue} day${candidate.leaveDaysBeforeDue === 1 ? '' : 's'} of leave before the deadline`)
+    }
+
+    ranked.push({ userId: candidate.userId, name: candidate.name, score: Math.round(score), reasons })
+  }
+
+  // Ties go to the less busy person, then alphabetically so runs are repeatable
+  const loads = new Map(candidates.map(candidate => [candidate.userId, loadOf(candidate)]))
+  ranked.sort((a, b) =>
+    b.score - a.score ||
+    (loads.get(a.userId) ?? 0) - (loads.get(b.userId) ?? 0) ||
+    a.name.localeCompare(b.name)
+  )
+
+  return { ranked, excluded }
+}
+
+/**
+ * One-line reason for a choice, as written to the activity log and workflow history
+ */
+export function explainChoice(chosen: CandidateScore, others: CandidateScore[]): string {
+  const runnerUp = others.find(other => other.userId !== chosen.userId)
+  return `${chosen.name} scored ${chosen.score}: ${chosen.reasons.join('; ')}` +
+    (runnerUp ? `. Next best: ${runnerUp.name} (${runnerUp.score})` : '. No other candidates')
+}
@@ -0,0 +1,585 @@
+/**
+ * Assignment Engine Server-Side Utilities
+ *
+ * Loads unassigned VAT quarters and accounts workflows, the people who could take them with their
+ * open workload, skills and leave, and ranks them with lib/assignment-engine. Applying an
+ * assignment writes a workflow history entry and an activity log entry that explain the choice,
+ * and sends the usual assignment email. The same ranking suggests cover for someone's work while
+ * they are on leave (lib/cover-plan-service).
+ */
+
+import { Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+import { logActivity } from '@/lib/activity-logger'
+import { AssignmentNotificationService } from '@/lib/assignment-notifications'
+import {
+  ASSIGNABLE_WORK_TYPES,
+  explainChoice,
+  scoreCandidates,
+  type AssignableWorkType,
+  type AssignmentProposal,
+  type CandidateScore,
+  type SkillLevel
+} from '@/lib/assignment-engine'
+import { countLeaveWorkingDays, isOnLeave } from '@/lib/staff-leave'
+import { getLeaveBetween } from '@/lib/staff-leave-service'
+import { teamClientWhere, teamUserWhere, type TeamScope } from '@/lib/team-service'
+
+const AUTO_APPLY_SETTING = 'assignment_engine_auto_apply'
+
+// Most proposals worked out in one go
+const DEFAULT_PROPOSAL_LIMIT = 200
+
+export interface AssignmentActor {
+  id: string
+  name: string
+  email: string
+  role: string
+}
+
+export const SYSTEM_ACTOR: AssignmentActor = {
+  id: 'system',
+  name: 'Assignment Engine',
+  email: 'system@numericalz.com',
+  role: 'SYSTEM'
+}
+
+/**
+ * Whether scheduled runs and VAT quarter auto-creation assign work without review
+ */
+export async function isAutoApplyEnabled(): Promise<boolean> {
+  const setting = await db.settings.findUnique({ where: { key: AUTO_APPLY_SETTING } })
+  return setting?.value === 'true'
+}
+
+export async function setAutoApplyEnabled(enabled: boolean) {
+  await db.settings.upsert({
+    where: { key: AUTO_APPLY_SETTING },
+    update: { value: String(enabled) },
+    create: { key: AUTO_APPLY_SETTING, value: String(enabled) }
+  })
+}
+
+export interface UserSkillRow {
+  id: string
+  name: string
+  role: string
+  skills: Record<AssignableWorkType, SkillLevel>
+}
+
+const NO_SKILLS: Record<AssignableWorkType, SkillLevel> = { VAT: 0, LTD_ACCOUNTS: 0, NON_LTD_ACCOUNTS: 0 }
+
+export async function getSkillMatrix(): Promise<UserSkillRow[]> {
+  const users = await db.user.findMany({
+    where: { isActive: true },
+    select: { id: true, name: true, role: true, skills: { select: { workType: true, level: true } } },
+    orderBy: [{ role: 'asc' }, { name: 'asc' }]
+  })
+
+  return users.map(user => ({
+    id: user.id,
+    name: user.name,
+    role: user.role,
+    skills: user.skills.reduce(
+      (skills, skill) => ({ ...skills, [skill.workType]: skill.level as SkillLevel }),
+      { ...NO_SKILLS }
+    )
+  }))
+}
+
+/**
+ * Set a user's skill levels - level 0 removes the skill
+ */
+export async function setUserSkills(userId: string, skills: Partial<Record<AssignableWorkType, SkillLevel>>) {
+  await db.$transaction(
+    Object.entries(skills).map(([workType, level]) => level
+      ? db.userSkill.upsert({
+          where: { userId_workType: { userId, workType } },
+          update: { level },
+          create: { userId, workType, level }
+        })
+      : db.userSkill.deleteMany({ where: { userId, workType } })
+    )
+  )
+}
+
+export interface WorkItem {
+  workType: AssignableWorkType
+  workflowId: string
+  clientId: string
+  clientCode: string
+  companyName: string
+  clientTeamId: string | null
+  // The client's assigned user for this work type
+  clientAssigneeId: string | null
+  periodLabel: string
+  dueDate: Date
+}
+
+export interface WorkFilter {
+  workType?: AssignableWorkType
+  workflowIds?: string[]
+  limit?: number
+}
+
+const WORK_CLIENT_SELECT = {
+  id: true,
+  clientCode: true,
+  companyName: true,
+  teamId: true,
+  assignedUserId: true,
+  ltdCompanyAssignedUserId: true,
+  nonLtdCompanyAssignedUserId: true
+} satisfies Prisma.ClientSelect
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-GB', { timeZone: 'Europe/London' })
+
+interface WorkQuery {
+  // Null for unassigned work
+  assignedUserId: string | null
+  dueBefore?: Date
+  clientWhere?: Prisma.ClientWhereInput
+}
+
+/**
+ * Incomplete VAT quarters and accounts workflows, earliest due first
+ */
+async function findWork(filter: WorkFilter, query: WorkQuery): Promise<WorkItem[]> {
+  const workTypes = filter.workType ? [filter.workType] : ASSIGNABLE_WORK_TYPES
+  const take = filter.limit ?? DEFAULT_PROPOSAL_LIMIT
+  const where = {
+    assignedUserId: query.assignedUserId,
+    isCompleted: false,
+    client: { isActive: true, ...query.clientWhere },
+    ...(filter.workflowIds ? { id: { in: filter.workflowIds } } : {})
+  }
+  const dueBefore = query.dueBefore ? { lte: query.dueBefore } : undefined
+  const work: WorkItem[] = []
+
+  if (workTypes.includes('VAT')) {
+    const quarters = await db.vATQuarter.findMany({
+      where: { ...where, filingDueDate: dueBefore },
+      select: { id: true, quarterPeriod: true, filingDueDate: true, client: { select: WORK_CLIENT_SELECT } },
+      orderBy: { filingDueDate: 'asc' },
+      take
+    })
+    work.push(...quarters.map(quarter => ({
+      workType: 'VAT' as const,
+      workflowId: quarter.id,
+      clientId: quarter.client.id,
+      clientCode: quarter.client.clientCode,
+      companyName: quarter.client.companyName,
+      clientTeamId: quarter.client.teamId,
+      clientAssigneeId: quarter.client.assignedUserId,
+      periodLabel: quarter.quarterPeriod,
+      dueDate: quarter.filingDueDate
+    })))
+  }
+
+  if (workTypes.includes('LTD_ACCOUNTS')) {
+    const workflows = await db.ltdAccountsWorkflow.findMany({
+      where: { ...where, accountsDueDate: dueBefore },
+      select: { id: true, filingPeriodEnd: true, accountsDueDate: true, client: { select: WORK_CLIENT_SELECT } },
+      orderBy: { accountsDueDate: 'asc' },
+      take
+    })
+    work.push(...workflows.map(workflow => ({
+      workType: 'LTD_ACCOUNTS' as const,
+      workflowId: workflow.id,
+      clientId: workflow.client.id,
+      clientCode: workflow.client.clientCode,
+      companyName: workflow.client.companyName,
+      clientTeamId: workflow.client.teamId,
+      clientAssigneeId: workflow.client.ltdCompanyAssignedUserId || workflow.client.assignedUserId,
+      periodLabel: `Year ended ${formatDate(workflow.filingPeriodEnd)}`,
+      dueDate: workflow.accountsDueDate
+    })))
+  }
+
+  if (workTypes.includes('NON_LTD_ACCOUNTS')) {
+    const workflows = await db.nonLtdAccountsWorkflow.findMany({
+      where: { ...where, filingDueDate: dueBefore },
+      select: { id: true, yearEndDate: true, filingDueDate: true, client: { select: WORK_CLIENT_SELECT } },
+      orderBy: { filingDueDate: 'asc' },
+      take
+    })
+    work.push(...workflows.map(workflow => ({
+      workType: 'NON_LTD_ACCOUNTS' as const,
+      workflowId: workflow.id,
+      clientId: workflow.client.id,
+      clientCode: workflow.client.clientCode,
+      companyName: workflow.client.companyName,
+      clientTeamId: workflow.client.teamId,
+      clientAssigneeId: workflow.client.nonLtdCompanyAssignedUserId || workflow.client.assignedUserId,
+      periodLabel: `Year ended ${formatDate(workflow.yearEndDate)}`,
+      dueDate: workflow.filingDueDate
+    })))
+  }
+
+  return work
+    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime())
+    .slice(0, take)
+}
+
+/**
+ * A person's incomplete VAT quarters and accounts workflows due on or before a date
+ */
+export async function getDueWorkFor(userId: string, dueBefore: Date): Promise<WorkItem[]> {
+  return findWork({}, { assignedUserId: userId, dueBefore })
+}
+
+/**
+ * Who handled each client's most recent quarter or year of this work
+ */
+async function getPreviousAssignees(workType: AssignableWorkType, clientIds: string[]): Promise<Map<string, string>> {
+  if (clientIds.length === 0) return new Map()
+
+  const where = { clientId: { in: clientIds }, assignedUserId: { not: null } }
+  const select = { clientId: true, assignedUserId: true }
+  const previous = workType === 'VAT'
+    ? await db.vATQuarter.findMany({ where, select, orderBy: { quarterEndDate: 'desc' }, distinct: ['clientId'] })
+    : workType === 'LTD_ACCOUNTS'
+      ? await db.ltdAccountsWorkflow.findMany({ where, select, orderBy: { filingPeriodEnd: 'desc' }, distinct: ['clientId'] })
+      : await db.nonLtdAccountsWorkflow.findMany({ where, select, orderBy: { yearEndDate: 'desc' }, distinct: ['clientId'] })
+
+  return new Map(previous.map(item => [item.clientId, item.assignedUserId as string]))
+}
+
+interface PoolMember {
+  id: string
+  name: string
+  role: string
+  // Same counts as the team workload widget
+  openItems: number
+  workingDays: number[]
+  skills: Map<string, number>
+  teamIds: Set<string>
+}
+
+async function getCandidatePool(scope?: TeamScope): Promise<PoolMember[]> {
+  const openWork = { isCompleted: false, client: { isActive: true } }
+  const users = await db.user.findMany({
+    where: { isActive: true, ...(scope ? teamUserWhere(scope) : {}) },
+    select: {
+      id: true,
+      name: true,
+      role: true,
+      workingDays: true,
+      skills: { select: { workType: true, level: true } },
+      teamMemberships: { select: { teamId: true } },
+      ledTeams: { select: { id: true } },
+      _count: {
+        select: {
+          assignedVATQuarters: { where: openWork },
+          assignedLtdAccountsWorkflows: { where: openWork },
+          assignedNonLtdAccountsWorkflows: { where: openWork }
+        }
+      }
+    }
+  })
+
+  return users.map(user => ({
+    id: user.id,
+    name: user.name,
+    role: user.role,
+    openItems: user._count.assignedVATQuarters +
+      user._count.assignedLtdAccountsWorkflows +
+      user._count.assignedNonLtdAccountsWorkflows,
+    workingDays: user.workingDays,
+    skills: new Map(user.skills.map(skill => [skill.workType, skill.level])),
+    teamIds: new Set([
+      ...user.teamMemberships.map(membership => membership.teamId),
+      ...user.ledTeams.map(team => team.id)
+    ])
+  }))
+}
+
+/**
+ * Partners only pick up work types they have a skill recorded for
+ */
+function isEligible(member: PoolMember, workType: AssignableWorkType): boolean {
+  return member.role !== 'PARTNER' || (member.skills.get(workType) ?? 0) > 0
+}
+
+/**
+ * Suggested assignees for unassigned work
+ * @param scope - Only work for the scope's clients, and only the scope's people as candidates
+ */
+export async function proposeAssignments(filter: WorkFilter & { scope?: TeamScope } = {}): Promise<AssignmentProposal[]> {
+  const work = await findWork(filter, {
+    assignedUserId: null,
+    clientWhere: filter.scope ? teamClientWhere(filter.scope) : {}
+  })
+  return rankWork(work, { scope: filter.scope })
+}
+
+/**
+ * Suggested cover for work someone can't do while they are away
+ */
+export async function proposeCover(work: WorkItem[], absentUserId: string): Promise<AssignmentProposal[]> {
+  return rankWork(work, { excludeUserIds: [absentUserId] })
+}
+
+/**
+ * Rank candidates for each piece of work
+ * Each suggestion counts towards that person's workload for the rest of the batch, so a run
+ * spreads work rather than handing everything to whoever is quietest right now.
+ */
+async function rankWork(
+  work: WorkItem[],
+  options: { scope?: TeamScope; excludeUserIds?: string[] }
+): Promise<AssignmentProposal[]> {
+  if (work.length === 0) return []
+
+  const pool = (await getCandidatePool(options.scope))
+    .filter(member => !options.excludeUserIds?.includes(member.id))
+  const today = new Date()
+  const latestDue = new Date(Math.max(today.getTime(), ...work.map(item => item.dueDate.getTime())))
+  const leave = await getLeaveBetween(pool.map(member => member.id), today, latestDue)
+
+  const previousAssignees = new Map<AssignableWorkType, Map<string, string>>()
+  for (const workType of ASSIGNABLE_WORK_TYPES) {
+    const clientIds = work.filter(item => item.workType === workType).map(item => item.clientId)
+    previousAssignees.set(workType, await getPreviousAssignees(workType, clientIds))
+  }
+
+  const openItems = new Map(pool.map(member => [member.id, member.openItems]))
+  const proposals: AssignmentProposal[] = []
+
+  for (const item of work) {
+    let candidates = pool.filter(member => isEligible(member, item.workType))
+    // Work for a team's client stays within the team when the team has anyone eligible
+    if (item.clientTeamId) {
+      const teamCandidates = candidates.filter(member => member.teamIds.has(item.clientTeamId as string))
+      if (teamCandidates.length > 0) {
+        candidates = teamCandidates
+      }
+    }
+
+    const previousAssigneeId = previousAssignees.get(item.workType)?.get(item.clientId)
+    const skillsTracked = pool.some(member => (member.skills.get(item.workType) ?? 0) > 0)
+
+    const { ranked, excluded } = scoreCandidates(item.workType, candidates.map(member => {
+      const memberLeave = leave.filter(range => range.userId === member.id)
+      return {
+        userId: member.id,
+        name: member.name,
+        openItems: openItems.get(member.id) ?? 0,
+        workingDaysPerWeek: member.workingDays.length,
+        skillLevel: (member.skills.get(item.workType) ?? 0) as SkillLevel,
+        isPreviousAssignee: previousAssigneeId === member.id,
+        isClientAssignee: item.clientAssigneeId === member.id,
+        leaveDaysBeforeDue: countLeaveWorkingDays(memberLeave, today, item.dueDate, member.workingDays),
+        onLeaveOnDueDate: isOnLeave(memberLeave, item.dueDate)
+      }
+    }), skillsTracked)
+
+    const [recommended = null, ...alternatives] = ranked
+    if (recommended) {
+      openItems.set(recommended.userId, (openItems.get(recommended.userId) ?? 0) + 1)
+    }
+
+    proposals.push({
+      workType: item.workType,
+      workflowId: item.workflowId,
+      clientId: item.clientId,
+      clientCode: item.clientCode,
+      companyName: item.companyName,
+      periodLabel: item.periodLabel,
+      dueDate: item.dueDate.toISOString(),
+      recommended,
+      alternatives,
+      excluded,
+      explanation: recommended
+        ? explainChoice(recommended, alternatives)
+        : excluded.length > 0
+          ? `Nobody available: ${excluded.map(person => `${person.name} (${person.reason.toLowerCase()})`).join(', ')}`
+          : 'Nobody eligible for this work'
+    })
+  }
+
+  return proposals
+}
+
+export interface AppliedAssignment {
+  workType: AssignableWorkType
+  workflowId: string
+  clientId: string
+  companyName: string
+  periodLabel: string
+  assigneeId: string
+  assigneeName: string
+  explanation: string
+}
+
+export interface AssignmentRunResult {
+  assigned: AppliedAssignment[]
+  skipped: Array<{ workflowId: string; companyName: string; reason: string }>
+}
+
+/**
+ * Move an open workflow to a new assignee only if it is still with the expected one, and record
+ * the history entry
+ * @param fromUserId - Who it should be with now; null for unassigned work
+ * @returns False when someone reassigned or completed it in the meantime
+ */
+export async function reassignWorkflow(
+  workType: AssignableWorkType,
+  workflowId: string,
+  fromUserId: string | null,
+  userId: string,
+  actor: AssignmentActor,
+  notes: string
+): Promise<boolean> {
+  const history = {
+    stageChangedAt: new Date(),
+    userId: actor === SYSTEM_ACTOR ? null : actor.id,
+    userName: actor.name,
+    userEmail: actor.email,
+    userRole: actor.role,
+    notes
+  }
+
+  return db.$transaction(async (tx) => {
+    if (workType === 'VAT') {
+      const { count } = await tx.vATQuarter.updateMany({
+        where: { id: workflowId, assignedUserId: fromUserId, isCompleted: false },
+        data: { assignedUserId: userId }
+      })
+      if (count === 0) return false
+      const quarter = await tx.vATQuarter.findUniqueOrThrow({ where: { id: workflowId }, select: { currentStage: true } })
+      await tx.vATWorkflowHistory.create({
+        data: { vatQuarterId: workflowId, fromStage: quarter.currentStage, toStage: quarter.currentStage, ...history }
+      })
+      return true
+    }
+
+    if (workType === 'LTD_ACCOUNTS') {
+      const { count } = await tx.ltdAccountsWorkflow.updateMany({
+        where: { id: workflowId, assignedUserId: fromUserId, isCompleted: false },
+        data: { assignedUserId: userId }
+      })
+      if (count === 0) return false
+      const workflow = await tx.ltdAccountsWorkflow.findUniqueOrThrow({ where: { id: workflowId }, select: { currentStage: true } })
+      await tx.ltdAccountsWorkflowHistory.create({
+        data: { ltdAccountsWorkflowId: workflowId, fromStage: workflow.currentStage, toStage: workflow.currentStage, ...history }
+      })
+      return true
+    }
+
+    const { count } = await tx.nonLtdAccountsWorkflow.updateMany({
+      where: { id: workflowId, assignedUserId: fromUserId, isCompleted: false },
+      data: { assignedUserId: userId }
+    })
+    if (count === 0) return false
+    const workflow = await tx.nonLtdAccountsWorkflow.findUniqueOrThrow({ where: { id: workflowId }, select: { currentStage: true } })
+    await tx.nonLtdAccountsWorkflowHistory.create({
+      data: { nonLtdAccountsWorkflowId: workflowId, fromStage: workflow.currentStage, toStage: workflow.currentStage, ...history }
+    })
+    return true
+  })
+}
+
+export function sendAssignmentEmail(
+  work: { workType: AssignableWorkType; workflowId: string; clientId: string },
+  userId: string,
+  actor: AssignmentActor,
+  previousAssigneeName?: string
+) {
+  const context = { assignedBy: actor }
+  const sent = work.workType === 'VAT'
+    ? AssignmentNotificationService.sendVATAssignmentNotification(work.clientId, work.workflowId, userId, context, previousAssigneeName)
+    : work.workType === 'LTD_ACCOUNTS'
+      ? AssignmentNotificationService.sendLtdAssignmentNotification(work.clientId, userId, context, previousAssigneeName)
+      : AssignmentNotificationService.sendNonLtdAssignmentNotification(work.clientId, userId, context, previousAssigneeName)
+
+  sent.catch(emailError => {
+    console.error('❌ Failed to send assignment notification email:', emailError)
+  })
+}
+
+/**
+ * Apply chosen candidates from proposals
+ * @param actor - Who applied them; omitted for scheduled runs
+ */
+export async function applyProposals(
+  choices: Array<{ proposal: AssignmentProposal; candidate: CandidateScore }>,
+  actor?: AssignmentActor
+): Promise<AssignmentRunResult> {
+  const appliedBy = actor || SYSTEM_ACTOR
+  const result: AssignmentRunResult = { assigned: [], skipped: [] }
+
+  for (const { proposal, candidate } of choices) {
+    const others = [proposal.recommended, ...proposal.alternatives]
+      .filter((other): other is CandidateScore => !!other && other.userId !== candidate.userId)
+    const explanation = explainChoice(candidate, others)
+
+    const assigned = await reassignWorkflow(
+      proposal.workType,
+      proposal.workflowId,
+      null,
+      candidate.userId,
+      appliedBy,
+      `Assigned to ${candidate.name} by the assignment engine. ${explanation}`
+    )
+    if (!assigned) {
+      result.skipped.push({ workflowId: proposal.workflowId, companyName: proposal.companyName, reason: 'Already assigned' })
+      continue
+    }
+
+    await logActivity({
+      action: 'WORKFLOW_AUTO_ASSIGNED',
+      userId: actor?.id,
+      clientId: proposal.clientId,
+      details: {
+        workType: proposal.workType,
+        workflowId: proposal.workflowId,
+        companyName: proposal.companyName,
+        periodLabel: proposal.periodLabel,
+        assigneeId: candidate.userId,
+        assigneeName: candidate.name,
+        score: candidate.score,
+        reasons: candidate.reasons,
+        alternatives: others.slice(0, 3).map(other => ({ name: other.name, score: other.score })),
+        excluded: proposal.excluded,
+        followedRecommendation: proposal.recommended?.userId === candidate.userId,
+        appliedBy: appliedBy.name,
+        explanation
+      }
+    })
+
+    sendAssignmentEmail(proposal, candidate.userId, appliedBy)
+
+    result.assigned.push({
+      workType: proposal.workType,
+      workflowId: proposal.workflowId,
+      clientId: proposal.clientId,
+      companyName: proposal.companyName,
+      periodLabel: proposal.periodLabel,
+      assigneeId: candidate.userId,
+      assigneeName: candidate.name,
+      explanation
+    })
+  }
+
+  return result
+}
+
+/**
+ * Assign every matching piece of unassigned work to its top candidate
+ * Work nobody can take is reported as skipped.
+ */
+export async function autoAssignUnassignedWork(filter: WorkFilter = {}): Promise<AssignmentRunResult> {
+  const proposals = await proposeAssignments(filter)
+  const result = await applyProposals(
+    proposals
+      .filter(proposal => proposal.recommended)
+      .map(proposal => ({ proposal, candidate: proposal.recommended as CandidateScore }))
+  )
+
+  for (const proposal of proposals.filter(proposal => !proposal.recommended)) {
+    result.skipped.push({ workflowId: proposal.workflowId, companyName: proposal.companyName, reason: proposal.explanation })
+  }
+
+  return result
+}
@@ -1,5 +1,9 @@
 import { db } from '@/lib/db'
-import { emailService } from '@/lib/email-service'
+import { enqueueEmail, processEmailQueue } from '@/lib/email-queue-service'
+import { resolvePublishedTemplateVersionId } from '@/lib/email-template-version-service'
+import { describeSuppressedRecipients, getActiveSuppressions } from '@/lib/email-suppression-service'
+import { normaliseSuppressedEmail, type EmailSuppressionReasonValue } from '@/lib/email-suppression'
+import { selectRecipientContacts, TEMPLATE_CATEGORY_LABELS, isTemplateCategory } from '@/lib/client-contacts'
 import { processEmailVariables } from '@/lib/email-variables'
 import { logActivityEnhanced } from '@/lib/activity-middleware'
 import type { NextRequest } from 'next/server'
@@ -40,9 +44,95 @@ interface BulkEmailResult {
     success: boolean
     message?: string
     error?: string
+    recipients?: string[]
+    queueItemIds?: string[]
   }>
 }
 
+interface BulkRecipient {
+  email: string
+  name: string
+}
+
+interface ClientBulkRecipients {
+  recipients: BulkRecipient[]
+  // Why nobody can be emailed, when recipients is empty
+  error?: string
+}
+
+/**
+ * Who each client's copy goes to: the contacts opted in to the template's category, minus any
+ * on the suppression list. Clients without contact records fall back to their contact email.
+ */
+async function getBulkRecipients(
+  clients: Array<{ id: string; companyName: string; contactEmail: string | null }>,
+  templateCategory: string
+): Promise<Map<string, ClientBulkRecipients>> {
+  const contacts = await db.clientContact.findMany({
+    where: { clientId: { in: clients.map(client => client.id) } }
+  })
+
+  const candidatesByClient = new Map<string, BulkRecipient[]>()
+  for (const client of clients) {
+    const clientContacts = contacts.filter(contact => contact.clientId === client.id)
+    candidatesByClient.set(client.id, clientContacts.length > 0
+      ? selectRecipientContacts(clientContacts, templateCategory).map(contact => ({ email: contact.email!, name: contact.name }))
+      : client.contactEmail ? [{ email: client.contactEmail, name: client.companyName }] : [])
+  }
+
+  // Recipients whose address bounced, complained or unsubscribed are skipped, not queued
+  const suppressions = await getActiveSuppressions(Array.from(candidatesByClient.values()).flat().map(recipient => recipient.email))
+  const categoryLabel = isTemplateCategory(templateCategory) ? TEMPLATE_CATEGORY_LABELS[templateCategory] : templateCategory
+
+  const byClient = new Map<string, ClientBulkRecipients>()
+  for (const client of clients) {
+    const candidates = candidatesByClient.get(client.id)!
+    const recipients: BulkRecipient[] = []
+    const suppressed: Array<BulkRecipient & { reason: EmailSuppressionReasonValue }> = []
+
+    for (const candidate of candidates) {
+      const suppression = suppressions.get(normaliseSuppressedEmail(candidate.email))
+      if (suppression) {
+        suppressed.push({ ...candidate, reason: suppression.reason })
+      } else {
+        recipients.push(candidate)
+      }
+    }
+
+    let error: string | undefined
+    if (recipients.length === 0) {
+      if (suppressed.length > 0) {
+        error = describeSuppressedRecipients(suppressed)
+      } else if (contacts.some(contact => contact.clientId === client.id)) {
+        error = `No contact opted in to ${categoryLabel} emails`
+      } else {
+        error = 'No contact email available'
+      }
+    }
+
+    byClient.set(client.id, { recipients, error })
+  }
+
+  return byClient
+}
+
+/**
+ * Send as much of a queued batch as the rate limit and time budget allow; the rest
+ * stays on the queue and goes out on the next queue run
+ */
+async function sendQueuedBatch(results: BulkEmailResult['results']) {
+  const queueItemIds = results.flatMap(result => result.queueItemIds || [])
+  if (queueItemIds.length === 0) return
+
+  const run = await processEmailQueue({ ids: queueItemIds, limit: queueItemIds.length })
+
+  results.forEach(result => {
+    if (result.queueItemIds && result.queueItemIds.length > 0) {
+      result.message = result.queueItemIds.every(id => run.sentIds.includes(id)) ? 'Email sent successfully' : 'Email queued for sending'
+    }
+  })
+}
+
 export async function sendBulkVATEmails({
   quarters,
   templateId,
@@ -52,7 +142,7 @@ export async function sendBulkVATEmails({
 }: BulkVATEmailParams): Promise<BulkEmailResult> {
   let successCount = 0
   let errorCount = 0
-  const results = []
+  const results: BulkEmailResult['results'] = []
 
   // Get email template
   const template = await db.emailTemplate.findUnique({
@@ -63,103 +153,104 @@ export async function sendBulkVATEmails({
     throw new Error('Email template not found')
   }
 
+  // Every email in the batch is pinned to the version that was live when the batch started
+  const templateVersionId = await resolvePublishedTemplateVersionId(template)
+
+  const recipientsByClient = await getBulkRecipients(quarters.map(quarter => quarter.client), template.category)
+
   // Process each quarter
   for (const quarter of quarters) {
     try {
-      // Check if client has email
-      if (!quarter.client.contactEmail) {
+      const { recipients, error: recipientError } = recipientsByClient.get(quarter.client.id)!
+      if (recipients.length === 0) {
         results.push({
           quarterId: quarter.id,
           clientCode: quarter.client.clientCode,
           companyName: quarter.client.companyName,
           success: false,
-          error: 'No contact email available'
+          error: recipientError
         })
         errorCount++
         continue
       }
 
-      // Prepare email variables
-      const emailVariables = {
-        CLIENT_NAME: quarter.client.companyName,
-        CLIENT_CODE: quarter.client.clientCode,
-        VAT_QUARTER_PERIOD: quarter.quarterPeriod,
-        ASSIGNED_USER_NAME: quarter.assignedUser?.name || 'Unassigned',
-        CONTACT_EMAIL: quarter.client.contactEmail,
-        CURRENT_DATE: new Date().toLocaleDateString('en-GB'),
-        CURRENT_YEAR: new Date().getFullYear().toString()
-      }
+      const queueItemIds: string[] = []
+      for (const recipient of recipients) {
+        // Prepare email variables
+        const emailVariables = {
+          CLIENT_NAME: quarter.client.companyName,
+          CLIENT_CODE: quarter.client.clientCode,
+          VAT_QUARTER_PERIOD: quarter.quarterPeriod,
+          ASSIGNED_USER_NAME: quarter.assignedUser?.name || 'Unassigned',
+          CONTACT_EMAIL: recipient.email,
+          CURRENT_DATE: new Date().toLocaleDateString('en-GB'),
+          CURRENT_YEAR: new Date().getFullYear().toString()
+        }
 
-      // Replace template variables
-      let emailSubject = customSubject || template.subject || `VAT Quarter ${quarter.quarterPeriod} - ${quarter.client.companyName}`
-      let emailBody = customMessage || template.htmlContent || ''
+        // Replace template variables
+        let emailSubject = customSubject || template.subject || `VAT Quarter ${quarter.quarterPeriod} - ${quarter.client.companyName}`
+        let emailBody = customMessage || template.htmlContent || ''
 
-      // Replace variables in subject and body
-      Object.entries(emailVariables).forEach(([key, value]) => {
-        const placeholder = `{{${key}}}`
-        emailSubject = emailSubject.replace(new RegExp(placeholder, 'g'), value)
-        emailBody = emailBody.replace(new RegExp(placeholder, 'g'), value)
-      })
+        // Replace variables in subject and body
+        Object.entries(emailVariables).forEach(([key, value]) => {
+          const placeholder = `{{${key}}}`
+          emailSubject = emailSubject.replace(new RegExp(placeholder, 'g'), value)
+          emailBody = emailBody.replace(new RegExp(placeholder, 'g'), value)
+        })
 
-      // 🔧 GMAIL OPTIMIZATION: Optimize email content to prevent clipping
-      const optimizedHtmlContent = await createOptimizedEmailTemplate(emailBody, {
-        subject: emailSubject,
-        companyName: 'Numericalz'
-      })
+        // 🔧 GMAIL OPTIMIZATION: Optimize email content to prevent clipping
+        const optimizedHtmlContent = await createOptimizedEmailTemplate(emailBody, {
+          subject: emailSubject,
+          companyName: 'Numericalz'
+        })
+
+        // Analyze email content for optimization insights
+        const analysis = analyzeEmailContent(optimizedHtmlContent)
+        if (!analysis.isOptimal) {
+          console.warn(`📧 Bulk VAT Email: ${analysis.suggestions.join(', ')}`)
+        }
 
-      // Analyze email content for optimization insights
-      const analysis = analyzeEmailContent(optimizedHtmlContent)
-      if (!analysis.isOptimal) {
-        console.warn(`📧 Bulk VAT Email: ${analysis.suggestions.join(', ')}`)
+        // Queue email - sent below, throttled to the provider rate limit and retried on failure
+        const { queueItemId } = await enqueueEmail({
+          to: [recipient],
+          subject: emailSubject,
+          htmlContent: optimizedHtmlContent,
+          emailType: 'VAT_BULK_EMAIL',
+          clientId: quarter.client.id,
+          workflowType: 'VAT',
+          workflowId: quarter.id,
+          templateId: templateId,
+          templateVersionId,
+          templateData: emailVariables
+        })
+        queueItemIds.push(queueItemId)
       }
 
-      // Send email
-      const emailResult = await emailService.sendEmail({
-        to: [{ email: quarter.client.contactEmail, name: quarter.client.companyName }],
-        subject: emailSubject,
-        htmlContent: optimizedHtmlContent,
-        emailType: 'VAT_BULK_EMAIL',
+      // Log email activity
+      await logActivityEnhanced(request, {
+        action: 'VAT_BULK_EMAIL_SENT',
         clientId: quarter.client.id,
-        workflowType: 'VAT',
-        workflowId: quarter.id,
-        templateId: templateId,
-        templateData: emailVariables
+        details: {
+          recipientEmail: recipients.map(recipient => recipient.email).join(', '),
+          templateName: template.name,
+          templateId: template.id,
+          quarterPeriod: quarter.quarterPeriod,
+          queueItemIds,
+          bulkOperation: true,
+          emailType: 'VAT_BULK_NOTIFICATION'
+        }
       })
 
-      if (emailResult.success) {
-        // Log email activity
-        await logActivityEnhanced(request, {
-          action: 'VAT_BULK_EMAIL_SENT',
-          clientId: quarter.client.id,
-          details: {
-            recipientEmail: quarter.client.contactEmail,
-            templateName: template.name,
-            templateId: template.id,
-            quarterPeriod: quarter.quarterPeriod,
-            messageId: emailResult.messageId,
-            bulkOperation: true,
-            emailType: 'VAT_BULK_NOTIFICATION'
-          }
-        })
-
-        results.push({
-          quarterId: quarter.id,
-          clientCode: quarter.client.clientCode,
-          companyName: quarter.client.companyName,
-          success: true,
-          message: 'Email sent successfully'
-        })
-        successCount++
-      } else {
-        results.push({
-          quarterId: quarter.id,
-          clientCode: quarter.client.clientCode,
-          companyName: quarter.client.companyName,
-          success: false,
-          error: emailResult.error || 'Failed to send email'
-        })
-        errorCount++
-      }
+      results.push({
+        quarterId: quarter.id,
+        clientCode: quarter.client.clientCode,
+        companyName: quarter.client.companyName,
+        success: true,
+        message: 'Email queued for sending',
+        recipients: recipients.map(recipient => recipient.email),
+        queueItemIds
+      })
+      successCount++
     } catch (error) {
       console.error(`Error sending email for quarter ${quarter.id}:`, error)
       results.push({
@@ -173,6 +264,8 @@ export async function sendBulkVATEmails({
     }
   }
 
+  await sendQueuedBatch(results)
+
   return {
     totalProcessed: quarters.length,
     successCount,
@@ -223,7 +316,7 @@ export async function sendBulkLtdEmails({
 }: BulkLtdEmailParams): Promise<BulkEmailResult> {
   let successCount = 0
   let errorCount = 0
-  const results = []
+  const results: BulkEmailResult['results'] = []
 
   // Get email template
   const template = await db.emailTemplate.findUnique({
@@ -234,131 +327,132 @@ export async function sendBulkLtdEmails({
     throw new Error('Email template not found')
   }
 
+  // Every email in the batch is pinned to the version that was live when the batch started
+  const templateVersionId = await resolvePublishedTemplateVersionId(template)
+
+  const recipientsByClient = await getBulkRecipients(clients, template.category)
+
   // Process each client
   for (const client of clients) {
     try {
-      // Check if client has email
-      if (!client.contactEmail) {
+      const { recipients, error: recipientError } = recipientsByClient.get(client.id)!
+      if (recipients.length === 0) {
         results.push({
           quarterId: client.id, // Using client ID as the identifier
           clientCode: client.clientCode,
           companyName: client.companyName,
           success: false,
-          error: 'No contact email available'
+          error: recipientError
         })
         errorCount++
         continue
       }
 
-      // Prepare comprehensive email data using the proper variable system
-      const emailData = {
-        client: {
-          companyName: client.companyName || '',
-          clientCode: client.clientCode || '',
-          companyNumber: client.companyNumber || '',
-          vatNumber: client.vatNumber || '',
-          contactName: client.contactName || '',
-          email: client.contactEmail || '',
-          phone: client.phone || '',
-          assignedUser: client.assignedUser
-        },
-        user: client.assignedUser ? {
-          name: client.assignedUser.name || '',
-          email: client.assignedUser.email || ''
-        } : null,
-        workflow: {
-          currentStage: client.currentStage || '',
-          workflowType: 'LTD',
-          isCompleted: client.isCompleted || false
-        },
-        accounts: {
-          filingPeriod: client.filingPeriodStart && client.filingPeriodEnd ? 
-            `${client.filingPeriodStart}_to_${client.filingPeriodEnd}` : '',
-          yearEndDate: client.nextYearEnd ? new Date(client.nextYearEnd) : null,
-          accountsDueDate: client.nextAccountsDue ? new Date(client.nextAccountsDue) : null,
-          corporationTaxDueDate: client.nextCorporationTaxDue ? new Date(client.nextCorporationTaxDue) : null,
-          confirmationStatementDueDate: client.nextConfirmationDue ? new Date(client.nextConfirmationDue) : null,
-          daysUntilAccountsDue: client.nextAccountsDue ? Math.ceil((new Date(client.nextAccountsDue).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24)) : null,
-          daysUntilCTDue: client.nextCorporationTaxDue ? Math.ceil((new Date(client.nextCorporationTaxDue).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24)) : null,
-          daysUntilCSDue: client.nextConfirmationDue ? Math.ceil((new Date(client.nextConfirmationDue).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24)) : null,
-          isAccountsOverdue: client.nextAccountsDue ? new Date() > new Date(client.nextAccountsDue) : false,
-          isCTOverdue: client.nextCorporationTaxDue ? new Date() > new Date(client.nextCorporationTaxDue) : false,
-          isCSOverdue: client.nextConfirmationDue ? new Date() > new Date(client.nextConfirmationDue) : false,
-          currentStage: client.currentStage || '',
-          isCompleted: client.isCompleted || false,
-          assignedUser: client.assignedUser
-        },
-        system: {
-          currentDate: new Date(),
-          companyName: 'Numericalz'
+      const queueItemIds: string[] = []
+      for (const recipient of recipients) {
+        // Prepare comprehensive email data using the proper variable system, addressed to this contact
+        const emailData = {
+          client: {
+            companyName: client.companyName || '',
+            clientCode: client.clientCode || '',
+            companyNumber: client.companyNumber || '',
+            vatNumber: client.vatNumber || '',
+            contactName: recipient.email === client.contactEmail ? client.contactName || recipient.name : recipient.name,
+            email: recipient.email,
+            phone: client.phone || '',
+            assignedUser: client.assignedUser
+          },
+          user: client.assignedUser ? {
+            name: client.assignedUser.name || '',
+            email: client.assignedUser.email || ''
+          } : null,
+          workflow: {
+            currentStage: client.currentStage || '',
+            workflowType: 'LTD',
+            isCompleted: client.isCompleted || false
+          },
+          accounts: {
+            filingPeriod: client.filingPeriodStart && client.filingPeriodEnd ? 
+              `${client.filingPeriodStart}_to_${client.filingPeriodEnd}` : '',
+            yearEndDate: client.nextYearEnd ? new Date(client.nextYearEnd) : null,
+            accountsDueDate: client.nextAccountsDue ? new Date(client.nextAccountsDue) : null,
+            corporationTaxDueDate: client.nextCorporationTaxDue ? new Date(client.nextCorporationTaxDue) : null,
+            confirmationStatementDueDate: client.nextConfirmationDue ? new Date(client.nextConfirmationDue) : null,
+            daysUntilAccountsDue: client.nextAccountsDue ? Math.ceil((new Date(client.nextAccountsDue).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24)) : null,
+            daysUntilCTDue: client.nextCorporationTaxDue ? Math.ceil((new Date(client.nextCorporationTaxDue).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24)) : null,
+            daysUntilCSDue: client.nextConfirmationDue ? Math.ceil((new Date(client.nextConfirmationDue).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24)) : null,
+            isAccountsOverdue: client.nextAccountsDue ? new Date() > new Date(client.nextAccountsDue) : false,
+            isCTOverdue: client.nextCorporationTaxDue ? new Date() > new Date(client.nextCorporationTaxDue) : false,
+            isCSOverdue: client.nextConfirmationDue ? new Date() > new Date(client.nextConfirmationDue) : false,
+            currentStage: client.currentStage || '',
+            isCompleted: client.isCompleted || false,
+            assignedUser: client.assignedUser
+          },
+          system: {
+            currentDate: new Date(),
+            companyName: 'Numericalz'
+          }
         }
-      }
 
-      // Use the comprehensive variable processing system
-      const emailSubject = customSubject || template.subject || `Accounts Filing - ${client.companyName}`
-      const emailBody = customMessage || template.htmlContent || ''
+        // Use the comprehensive variable processing system
+        const emailSubject = customSubject || template.subject || `Accounts Filing - ${client.companyName}`
+        const emailBody = customMessage || template.htmlContent || ''
       
-      const processedSubject = processEmailVariables(emailSubject, emailData)
-      const processedBody = processEmailVariables(emailBody, emailData)
+        const processedSubject = processEmailVariables(emailSubject, emailData)
+        const processedBody = processEmailVariables(emailBody, emailData)
 
-      // 🔧 GMAIL OPTIMIZATION: Optimize email content to prevent clipping
-      const optimizedHtmlContent = await createOptimizedEmailTemplate(processedBody, {
-        subject: processedSubject,
-        companyName: 'Numericalz'
-      })
+        // 🔧 GMAIL OPTIMIZATION: Optimize email content to prevent clipping
+        const optimizedHtmlContent = await createOptimizedEmailTemplate(processedBody, {
+          subject: processedSubject,
+          companyName: 'Numericalz'
+        })
+
+        // Analyze email content for optimization insights
+        const analysis = analyzeEmailContent(optimizedHtmlContent)
+        if (!analysis.isOptimal) {
+          console.warn(`📧 Bulk LTD Email: ${analysis.suggestions.join(', ')}`)
+        }
 
-      // Analyze email content for optimization insights
-      const analysis = analyzeEmailContent(optimizedHtmlContent)
-      if (!analysis.isOptimal) {
-        console.warn(`📧 Bulk LTD Email: ${analysis.suggestions.join(', ')}`)
+        // Queue email - sent below, throttled to the provider rate limit and retried on failure
+        const { queueItemId } = await enqueueEmail({
+          to: [recipient],
+          subject: processedSubject,
+          htmlContent: optimizedHtmlContent,
+          emailType: 'LTD_BULK_EMAIL',
+          clientId: client.id,
+          workflowType: 'LTD',
+          workflowId: client.id,
+          templateId: templateId,
+          templateVersionId,
+          templateData: emailData
+        })
+        queueItemIds.push(queueItemId)
       }
 
-      // Send email
-      const emailResult = await emailService.sendEmail({
-        to: [{ email: client.contactEmail, name: client.companyName }],
-        subject: processedSubject,
-        htmlContent: optimizedHtmlContent,
-        emailType: 'LTD_BULK_EMAIL',
+      // Log email activity
+      await logActivityEnhanced(request, {
+        action: 'LTD_BULK_EMAIL_SENT',
         clientId: client.id,
-        workflowType: 'LTD',
-        workflowId: client.id,
-        templateId: templateId,
-        templateData: emailData
+        details: {
+          recipientEmail: recipients.map(recipient => recipient.email).join(', '),
+          templateName: template.name,
+          templateId: template.id,
+          queueItemIds,
+          bulkOperation: true,
+          emailType: 'LTD_BULK_NOTIFICATION'
+        }
       })
 
-      if (emailResult.success) {
-        // Log email activity
-        await logActivityEnhanced(request, {
-          action: 'LTD_BULK_EMAIL_SENT',
-          clientId: client.id,
-          details: {
-            recipientEmail: client.contactEmail,
-            templateName: template.name,
-            templateId: template.id,
-            messageId: emailResult.messageId,
-            bulkOperation: true,
-            emailType: 'LTD_BULK_NOTIFICATION'
-          }
-        })
-
-        results.push({
-          quarterId: client.id,
-          clientCode: client.clientCode,
-          companyName: client.companyName,
-          success: true,
-          message: 'Email sent successfully'
-        })
-        successCount++
-      } else {
-        results.push({
-          quarterId: client.id,
-          clientCode: client.clientCode,
-          companyName: client.companyName,
-          success: false,
-          error: emailResult.error || 'Failed to send email'
-        })
-        errorCount++
-      }
+      results.push({
+        quarterId: client.id,
+        clientCode: client.clientCode,
+        companyName: client.companyName,
+        success: true,
+        message: 'Email queued for sending',
+        recipients: recipients.map(recipient => recipient.email),
+        queueItemIds
+      })
+      successCount++
     } catch (error) {
       console.error(`Error sending email for client ${client.id}:`, error)
       results.push({
@@ -372,6 +466,8 @@ export async function sendBulkLtdEmails({
     }
   }
 
+  await sendQueuedBatch(results)
+
   return {
     totalProcessed: clients.length,
     successCount,
@@ -0,0 +1,930 @@
+/**
+ * Automated Chase Sequences
+ *
+ * Configurable chase cadences per workflow type (e.g. day 0, +7, +14, escalate
+ * to partner at +21). The daily automation run sends the next due step for every
+ * workflow that is still waiting on paperwork:
+ *
+ * - PAPERWORK_PENDING_CHASE: step 1 is sent and the workflow moves to PAPERWORK_CHASED
+ * - PAPERWORK_CHASED: later steps are due relative to chaseStartedDate
+ * - Any later stage: the sequence stops automatically
+ *
+ * Chase and escalation emails go on the email queue rather than being sent
+ * inline, so a large run fits in one request. Every chase is recorded in
+ * EmailLog (or Communication, for SMS and WhatsApp steps) with
+ * workflowType/workflowId and the chaseStepId that produced it.
+ * Each step is claimed in ChaseSend before it goes out, so overlapping runs
+ * can't send it twice; a step that fails is retried on later runs until it has
+ * been tried MAX_CHASE_SEND_ATTEMPTS times. Text steps go by email instead
+ * for clients who haven't agreed to that channel.
+ */
+
+import { addDays } from 'date-fns'
+import { Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+import { enqueueEmail } from '@/lib/email-queue-service'
+import { resolvePublishedTemplateVersionId } from '@/lib/email-template-version-service'
+import { processEmailVariables } from '@/lib/email-variables'
+import { createOptimizedEmailTemplate } from '@/lib/email-optimization'
+import { logActivity } from '@/lib/activity-logger'
+import { createNotification } from '@/lib/in-app-notifications'
+import { MessagingError, messagingService } from '@/lib/messaging-service'
+import { MESSAGING_CHANNEL_CONFIG, type MessagingChannel } from '@/lib/messaging'
+import { getRecipientContacts } from '@/lib/client-contact-service'
+import { TEMPLATE_CATEGORY_LABELS } from '@/lib/client-contacts'
+import { describeSuppressedRecipients, filterSuppressedRecipients } from '@/lib/email-suppression-service'
+import { calculateDaysBetween } from '@/lib/vat-workflow'
+
+export const CHASE_WORKFLOW_TYPES = ['VAT', 'LTD', 'NON_LTD'] as const
+export type ChaseWorkflowType = typeof CHASE_WORKFLOW_TYPES[number]
+
+export const CHASE_WORKFLOW_TYPE_LABELS: Record<ChaseWorkflowType, string> = {
+  VAT: 'VAT Returns',
+  LTD: 'Ltd Company Accounts',
+  NON_LTD: 'Non-Ltd Accounts'
+}
+
+export const CHASE_STEP_ACTIONS = ['EMAIL_CLIENT', 'SMS_CLIENT', 'WHATSAPP_CLIENT', 'ESCALATE_TO_PARTNER'] as const
+export type ChaseStepActionType = typeof CHASE_STEP_ACTIONS[number]
+
+// Steps that text the client rather than email them
+const TEXT_CHASE_CHANNELS: Partial<Record<ChaseStepActionType, MessagingChannel>> = {
+  SMS_CLIENT: 'SMS',
+  WHATSAPP_CLIENT: 'WHATSAPP'
+}
+
+// Chasing only happens while a workflow is waiting on paperwork
+const ACTIVE_CHASE_STAGES = ['PAPERWORK_PENDING_CHASE', 'PAPERWORK_CHASED'] as const
+
+// A step that has failed this many times is given up on and the sequence moves on
+export const MAX_CHASE_SEND_ATTEMPTS = 3
+
+// A claim this old belongs to a run that stopped part way through a send
+const CHASE_SEND_CLAIM_TIMEOUT_MS = 60 * 60 * 1000
+
+const CHASE_SYSTEM_USER_NAME = 'System (Automated Chase)'
+const CHASE_SYSTEM_USER_EMAIL = 'system@numericalz.com'
+const PLACEHOLDER_CONTACT_EMAIL = 'contact@tobeupdated.com'
+
+export interface ChaseStepInput {
+  dayOffset: number
+  action: ChaseStepActionType
+  templateId?: string | null
+}
+
+export interface NextChase {
+  stepOrder: number
+  totalSteps: number
+  action: ChaseStepActionType
+  dueDate: Date
+  isOverdue: boolean
+}
+
+export interface ChaseRunSummary {
+  processed: number
+  sent: number
+  escalated: number
+  skipped: number
+  errors: number
+  details: Array<{
+    workflowType: ChaseWorkflowType
+    workflowId: string
+    clientCode: string
+    stepOrder: number
+    success: boolean
+    message: string
+  }>
+}
+
+interface ChaseWorkflowState {
+  id: string
+  currentStage: string
+  chaseStartedDate: Date | string | null
+}
+
+type ActiveChaseSequence = NonNullable<Awaited<ReturnType<typeof getActiveChaseSequence>>>
+type ChaseStep = ActiveChaseSequence['steps'][number]
+
+interface ChaseTarget {
+  workflowType: ChaseWorkflowType
+  workflowId: string
+  currentStage: string
+  chaseStartedDate: Date | null
+  periodLabel: string
+  client: {
+    id: string
+    clientCode: string
+    companyName: string
+    companyNumber: string | null
+    companyType: string | null
+    vatNumber: string | null
+    contactName: string
+    contactEmail: string
+  }
+  assignedUser: { id: string; name: string; email: string } | null
+  templateData: {
+    vat?: Record<string, unknown>
+    accounts?: Record<string, unknown>
+  }
+}
+
+// Shape returned by the chase sequence API routes
+export const chaseSequenceInclude = {
+  steps: {
+    orderBy: { stepOrder: 'asc' as const },
+    include: {
+      template: {
+        select: { id: true, name: true, subject: true, isActive: true }
+      }
+    }
+  },
+  creator: {
+    select: { id: true, name: true, email: true }
+  }
+}
+
+export function isChaseWorkflowType(value: string): value is ChaseWorkflowType {
+  return (CHASE_WORKFLOW_TYPES as readonly string[]).includes(value)
+}
+
+/**
+ * Validate a list of steps before saving a sequence
+ *
+ * @returns an error message, or null if the steps are valid
+ */
+export async function validateChaseSteps(steps: ChaseStepInput[]): Promise<string | null> {
+  if (steps.length === 0) {
+    return 'A chase sequence needs at least one step'
+  }
+
+  if (steps[0]!.action !== 'EMAIL_CLIENT') {
+    return 'The first step must email the client'
+  }
+
+  for (let i = 1; i < steps.length; i++) {
+    if (steps[i]!.dayOffset <= steps[i - 1]!.dayOffset) {
+      return 'Each step must be scheduled later than the previous step'
+    }
+  }
+
+  const missingTemplate = steps.find(step => step.action !== 'ESCALATE_TO_PARTNER' && !step.templateId)
+  if (missingTemplate) {
+    return 'Every client email, SMS and WhatsApp step needs a template'
+  }
+
+  const templateIds = Array.from(new Set(steps.map(step => step.templateId).filter(Boolean))) as string[]
+  if (templateIds.length > 0) {
+    const templates = await db.emailTemplate.findMany({
+      where: { id: { in: templateIds }, isActive: true, category: 'CHASE_REMINDERS' },
+      select: { id: true, smsContent: true }
+    })
+    if (templates.length !== templateIds.length) {
+      return 'Templates must be active templates from the Chase Reminders category'
+    }
+
+    const withoutSmsText = new Set(templates.filter(template => !template.smsContent?.trim()).map(template => template.id))
+    if (steps.some(step => TEXT_CHASE_CHANNELS[step.action] && step.templateId && withoutSmsText.has(step.templateId))) {
+      return 'SMS and WhatsApp steps need a template with SMS text'
+    }
+  }
+
+  return null
+}
+
+/**
+ * Get the active chase sequence for a workflow type (most recently updated wins)
+ */
+export async function getActiveChaseSequence(workflowType: ChaseWorkflowType) {
+  return db.chaseSequence.findFirst({
+    where: { workflowType, isActive: true },
+    orderBy: { updatedAt: 'desc' },
+    include: {
+      steps: {
+        orderBy: { stepOrder: 'asc' },
+        include: {
+          template: {
+            select: { id: true, name: true, category: true, subject: true, htmlContent: true, smsContent: true, isActive: true, publishedVersionId: true }
+          }
+        }
+      }
+    }
+  })
+}
+
+/**
+ * Work out which step of a sequence is due next for a workflow
+ *
+ * A workflow already in PAPERWORK_CHASED counts step 1 as done (it may have
+ * been chased manually), so later steps are measured from chaseStartedDate.
+ */
+export function calculateNextChase(
+  steps: Array<{ id: string; stepOrder: number; dayOffset: number; action: ChaseStepActionType }>,
+  workflow: ChaseWorkflowState,
+  sentStepIds: Set<string>,
+  now: Date = new Date()
+): NextChase | null {
+  if (!(ACTIVE_CHASE_STAGES as readonly string[]).includes(workflow.currentStage) || steps.length === 0) {
+    return null
+  }
+
+  const firstStep = steps[0]!
+
+  if (workflow.currentStage === 'PAPERWORK_PENDING_CHASE' || !workflow.chaseStartedDate) {
+    if (workflow.currentStage === 'PAPERWORK_CHASED') {
+      // Chased without a recorded start date - nothing to anchor the cadence to
+      return null
+    }
+    return {
+      stepOrder: firstStep.stepOrder,
+      totalSteps: steps.length,
+      action: firstStep.action,
+      dueDate: now,
+      isOverdue: false
+    }
+  }
+
+  const chaseStarted = new Date(workflow.chaseStartedDate)
+  const nextStep = steps.slice(1).find(step => !sentStepIds.has(step.id))
+  if (!nextStep) {
+    return null
+  }
+
+  const dueDate = addDays(chaseStarted, nextStep.dayOffset - firstStep.dayOffset)
+  return {
+    stepOrder: nextStep.stepOrder,
+    totalSteps: steps.length,
+    action: nextStep.action,
+    dueDate,
+    isOverdue: calculateDaysBetween(dueDate, now) > 0
+  }
+}
+
+/**
+ * Load the step ids of a sequence that are finished with for each workflow - sent, being
+ * sent, or failed MAX_CHASE_SEND_ATTEMPTS times. Other failed steps are retried on the next run.
+ */
+async function getSentStepIds(
+  workflowType: ChaseWorkflowType,
+  stepIds: string[],
+  workflowIds: string[]
+): Promise<Map<string, Set<string>>> {
+  const sent = new Map<string, Set<string>>()
+  if (stepIds.length === 0 || workflowIds.length === 0) {
+    return sent
+  }
+
+  const sends = await db.chaseSend.findMany({
+    where: {
+      workflowType,
+      workflowId: { in: workflowIds },
+      chaseStepId: { in: stepIds },
+      OR: [
+        { status: { not: 'FAILED' } },
+        { attempts: { gte: MAX_CHASE_SEND_ATTEMPTS } }
+      ]
+    },
+    select: { workflowId: true, chaseStepId: true }
+  })
+
+  for (const send of sends) {
+    const stepSet = sent.get(send.workflowId) || new Set<string>()
+    stepSet.add(send.chaseStepId)
+    sent.set(send.workflowId, stepSet)
+  }
+
+  return sent
+}
+
+/**
+ * Claim a step for a workflow before sending it
+ * A step can be claimed the first time, after a failure with attempts to spare, or when
+ * an earlier run's claim has timed out.
+ *
+ * @returns false if the step is sent, being sent by another run, or given up on
+ */
+async function claimChaseSend(target: ChaseTarget, step: ChaseStep, now: Date): Promise<boolean> {
+  try {
+    await db.chaseSend.create({
+      data: {
+        chaseStepId: step.id,
+        workflowType: target.workflowType,
+        workflowId: target.workflowId,
+        status: 'SENDING',
+        lastAttemptAt: now
+      }
+    })
+    return true
+  } catch (error) {
+    if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+      throw error
+    }
+  }
+
+  const { count } = await db.chaseSend.updateMany({
+    where: {
+      chaseStepId: step.id,
+      workflowId: target.workflowId,
+      attempts: { lt: MAX_CHASE_SEND_ATTEMPTS },
+      OR: [
+        { status: 'FAILED' },
+        { status: 'SENDING', lastAttemptAt: { lt: new Date(now.getTime() - CHASE_SEND_CLAIM_TIMEOUT_MS) } }
+      ]
+    },
+    data: { status: 'SENDING', attempts: { increment: 1 }, lastAttemptAt: now }
+  })
+  return count > 0
+}
+
+async function recordChaseSendResult(
+  target: ChaseTarget,
+  step: ChaseStep,
+  result: { success: boolean; message: string }
+): Promise<void> {
+  await db.chaseSend.updateMany({
+    where: { chaseStepId: step.id, workflowId: target.workflowId },
+    data: result.success
+      ? { status: 'SENT', lastError: null }
+      : { status: 'FAILED', lastError: result.message }
+  })
+}
+
+/**
+ * Calculate the next chase due for a page of workflows (used by the deadline tables)
+ *
+ * @returns map of workflowId to the next chase, or null when nothing is scheduled
+ */
+export async function getNextChaseDueMap(
+  workflowType: ChaseWorkflowType,
+  workflows: ChaseWorkflowState[]
+): Promise<Map<string, NextChase | null>> {
+  const result = new Map<string, NextChase | null>()
+  const chasable = workflows.filter(workflow =>
+    (ACTIVE_CHASE_STAGES as readonly string[]).includes(workflow.currentStage)
+  )
+  if (chasable.length === 0) {
+    return result
+  }
+
+  const sequence = await getActiveChaseSequence(workflowType)
+  if (!sequence || sequence.steps.length === 0) {
+    return result
+  }
+
+  const sentStepIds = await getSentStepIds(
+    workflowType,
+    sequence.steps.map(step => step.id),
+    chasable.map(workflow => workflow.id)
+  )
+
+  const now = new Date()
+  for (const workflow of chasable) {
+    result.set(
+      workflow.id,
+      calculateNextChase(sequence.steps, workflow, sentStepIds.get(workflow.id) || new Set(), now)
+    )
+  }
+
+  return result
+}
+
+/**
+ * Load every workflow of a type that is currently waiting on paperwork
+ */
+async function loadChaseTargets(workflowType: ChaseWorkflowType, now: Date): Promise<ChaseTarget[]> {
+  const clientSelect = {
+    id: true,
+    clientCode: true,
+    companyName: true,
+    companyNumber: true,
+    companyType: true,
+    vatNumber: true,
+    contactName: true,
+    contactEmail: true,
+    isActive: true
+  }
+  const assignedUserSelect = { select: { id: true, name: true, email: true } }
+  const stageFilter = { in: [...ACTIVE_CHASE_STAGES] }
+
+  if (workflowType === 'VAT') {
+    const quarters = await db.vATQuarter.findMany({
+      where: {
+        currentStage: stageFilter,
+        isCompleted: false,
+        quarterEndDate: { lte: now },
+        client: { isActive: true }
+      },
+      include: { client: { select: clientSelect }, assignedUser: assignedUserSelect }
+    })
+
+    return quarters.map(quarter => ({
+      workflowType,
+      workflowId: quarter.id,
+      currentStage: quarter.currentStage,
+      chaseStartedDate: quarter.chaseStartedDate,
+      periodLabel: quarter.quarterPeriod,
+      client: quarter.client,
+      assignedUser: quarter.assignedUser,
+      templateData: {
+        vat: {
+          quarterPeriod: quarter.quarterPeriod,
+          quarterStartDate: quarter.quarterStartDate,
+          quarterEndDate: quarter.quarterEndDate,
+          filingDueDate: quarter.filingDueDate,
+          quarterGroup: quarter.quarterGroup,
+          daysUntilDue: calculateDaysBetween(now, quarter.filingDueDate),
+          isOverdue: quarter.filingDueDate < now
+        }
+      }
+    }))
+  }
+
+  if (workflowType === 'LTD') {
+    const workflows = await db.ltdAccountsWorkflow.findMany({
+      where: {
+        currentStage: stageFilter,
+        isCompleted: false,
+        client: { isActive: true }
+      },
+      include: { client: { select: clientSelect }, assignedUser: assignedUserSelect }
+    })
+
+    return workflows.map(workflow => ({
+      workflowType,
+      workflowId: workflow.id,
+      currentStage: workflow.currentStage,
+      chaseStartedDate: workflow.chaseStartedDate,
+      periodLabel: `Year end ${workflow.filingPeriodEnd.toLocaleDateString('en-GB')}`,
+      client: workflow.client,
+      assignedUser: workflow.assignedUser,
+      templateData: {
+        accounts: {
+          yearEndDate: workflow.filingPeriodEnd,
+          accountsDueDate: workflow.accountsDueDate,
+          corporationTaxDueDate: workflow.ctDueDate,
+          confirmationStatementDueDate: workflow.csDueDate,
+          daysUntilAccountsDue: calculateDaysBetween(now, workflow.accountsDueDate),
+          isAccountsOverdue: workflow.accountsDueDate < now
+        }
+      }
+    }))
+  }
+
+  const workflows = await db.nonLtdAccountsWorkflow.findMany({
+    where: {
+      currentStage: stageFilter,
+      isCompleted: false,
+      client: { isActive: true }
+    },
+    include: { client: { select: clientSelect }, assignedUser: assignedUserSelect }
+  })
+
+  return workflows.map(workflow => ({
+    workflowType,
+    workflowId: workflow.id,
+    currentStage: workflow.currentStage,
+    chaseStartedDate: workflow.chaseStartedDate,
+    periodLabel: `Year end ${workflow.yearEndDate.toLocaleDateString('en-GB')}`,
+    client: workflow.client,
+    assignedUser: workflow.assignedUser,
+    templateData: {
+      accounts: {
+        yearEndDate: workflow.yearEndDate,
+        accountsDueDate: workflow.filingDueDate,
+        daysUntilAccountsDue: calculateDaysBetween(now, workflow.filingDueDate),
+        isAccountsOverdue: workflow.filingDueDate < now
+      }
+    }
+  }))
+}
+
+/**
+ * Read a workflow's stage as it is now, so a chase isn't sent once paperwork has arrived
+ * @returns null if the workflow is completed or gone
+ */
+async function getCurrentChaseStage(target: ChaseTarget): Promise<string | null> {
+  const where = { id: target.workflowId, isCompleted: false }
+  const select = { currentStage: true }
+
+  const workflow = target.workflowType === 'VAT'
+    ? await db.vATQuarter.findFirst({ where, select })
+    : target.workflowType === 'LTD'
+      ? await db.ltdAccountsWorkflow.findFirst({ where, select })
+      : await db.nonLtdAccountsWorkflow.findFirst({ where, select })
+
+  return workflow?.currentStage ?? null
+}
+
+/**
+ * Move a workflow from PAPERWORK_PENDING_CHASE to PAPERWORK_CHASED after the
+ * first automated chase. History entries have no userId and are attributed to the system.
+ * The stage only changes if it is still PAPERWORK_PENDING_CHASE, so a workflow that has
+ * moved on in the meantime (e.g. paperwork uploaded through the portal) is left alone.
+ */
+async function markChaseStarted(target: ChaseTarget, now: Date): Promise<void> {
+  const notes = 'Chase started automatically by chase sequence'
+  const where = { id: target.workflowId, currentStage: 'PAPERWORK_PENDING_CHASE' as const }
+  const milestoneData = {
+    currentStage: 'PAPERWORK_CHASED' as const,
+    chaseStartedDate: now,
+    chaseStartedByUserId: null,
+    chaseStartedByUserName: CHASE_SYSTEM_USER_NAME
+  }
+  const historyData = {
+    fromStage: 'PAPERWORK_PENDING_CHASE' as const,
+    toStage: 'PAPERWORK_CHASED' as const,
+    stageChangedAt: now,
+    userId: null,
+    userName: CHASE_SYSTEM_USER_NAME,
+    userEmail: CHASE_SYSTEM_USER_EMAIL,
+    userRole: 'SYSTEM',
+    notes
+  }
+
+  if (target.workflowType === 'VAT') {
+    await db.$transaction(async (tx) => {
+      const { count } = await tx.vATQuarter.updateMany({ where, data: milestoneData })
+      if (count === 0) return
+
+      const lastHistory = await tx.vATWorkflowHistory.findFirst({
+        where: { vatQuarterId: target.workflowId },
+        orderBy: { createdAt: 'desc' }
+      })
+      await tx.vATWorkflowHistory.create({
+        data: {
+          vatQuarterId: target.workflowId,
+          ...historyData,
+          daysInPreviousStage: lastHistory ? calculateDaysBetween(lastHistory.createdAt, now) : null
+        }
+      })
+    })
+    return
+  }
+
+  if (target.workflowType === 'LTD') {
+    await db.$transaction(async (tx) => {
+      const { count } = await tx.ltdAccountsWorkflow.updateMany({ where, data: milestoneData })
+      if (count === 0) return
+
+      const lastHistory = await tx.ltdAccountsWorkflowHistory.findFirst({
+        where: { ltdAccountsWorkflowId: target.workflowId },
+        orderBy: { createdAt: 'desc' }
+      })
+      await tx.ltdAccountsWorkflowHistory.create({
+        data: {
+          ltdAccountsWorkflowId: target.workflowId,
+          ...historyData,
+          daysInPreviousStage: lastHistory ? calculateDaysBetween(lastHistory.createdAt, now) : null
+        }
+      })
+    })
+    return
+  }
+
+  await db.$transaction(async (tx) => {
+    const { count } = await tx.nonLtdAccountsWorkflow.updateMany({ where, data: milestoneData })
+    if (count === 0) return
+
+    const lastHistory = await tx.nonLtdAccountsWorkflowHistory.findFirst({
+      where: { nonLtdAccountsWorkflowId: target.workflowId },
+      orderBy: { createdAt: 'desc' }
+    })
+    await tx.nonLtdAccountsWorkflowHistory.create({
+      data: {
+        nonLtdAccountsWorkflowId: target.workflowId,
+        ...historyData,
+        daysInPreviousStage: lastHistory ? calculateDaysBetween(lastHistory.createdAt, now) : null
+      }
+    })
+  })
+}
+
+/**
+ * Render a template for a chase target using the standard email variables
+ */
+async function renderChaseTemplate(
+  template: { subject: string; htmlContent: string },
+  target: ChaseTarget
+): Promise<{ subject: string; htmlContent: string }> {
+  const variableData = {
+    client: target.client,
+    user: target.assignedUser,
+    workflow: { currentStage: target.currentStage },
+    vat: target.templateData.vat,
+    accounts: target.templateData.accounts
+  }
+
+  const subject = processEmailVariables(template.subject, variableData)
+  const body = processEmailVariables(template.htmlContent, variableData)
+  const htmlContent = await createOptimizedEmailTemplate(body, {
+    subject,
+    companyName: 'Numericalz'
+  })
+
+  return { subject, htmlContent }
+}
+
+/**
+ * Send a client chase email for one step
+ * Goes to the contacts opted in to the template's category (the client's contact email when
+ * there are no contact records), skipping addresses on the suppression list.
+ */
+async function sendClientChase(target: ChaseTarget, step: ChaseStep): Promise<{ success: boolean; message: string }> {
+  if (!step.template || !step.template.isActive) {
+    return { success: false, message: 'Chase template is missing or inactive' }
+  }
+
+  const contacts = (await getRecipientContacts(target.client.id, step.template.category))
+    .filter(contact => contact.email.trim() && contact.email.trim() !== PLACEHOLDER_CONTACT_EMAIL)
+  if (contacts.length === 0) {
+    return target.client.contactEmail?.trim() && target.client.contactEmail.trim() !== PLACEHOLDER_CONTACT_EMAIL
+      ? { success: false, message: `No contact opted in to ${TEMPLATE_CATEGORY_LABELS[step.template.category]} emails` }
+      : { success: false, message: 'No contact email available' }
+  }
+
+  const { deliverable, suppressed } = await filterSuppressedRecipients(
+    contacts.map(contact => ({ email: contact.email.trim(), name: contact.name || target.client.companyName }))
+  )
+  if (deliverable.length === 0) {
+    return { success: false, message: describeSuppressedRecipients(suppressed) }
+  }
+
+  const { subject, htmlContent } = await renderChaseTemplate(step.template, target)
+
+  await enqueueEmail({
+    to: deliverable,
+    subject,
+    htmlContent,
+    emailType: 'CHASE_REMINDER',
+    clientId: target.client.id,
+    workflowType: target.workflowType,
+    workflowId: target.workflowId,
+    templateId: step.template.id,
+    templateVersionId: await resolvePublishedTemplateVersionId(step.template),
+    templateData: { stepOrder: step.stepOrder, dayOffset: step.dayOffset },
+    chaseStepId: step.id
+  })
+
+  const queuedFor = deliverable.map(recipient => recipient.email).join(', ')
+  const skippedNote = suppressed.length > 0 ? ` (${describeSuppressedRecipients(suppressed)})` : ''
+  return { success: true, message: `Chase ${step.stepOrder} queued for ${queuedFor}${skippedNote}` }
+}
+
+/**
+ * Text the client for an SMS or WhatsApp step, or email them the same template if they
+ * haven't agreed to texts on that channel or have no mobile number
+ */
+async function sendClientTextChase(
+  target: ChaseTarget,
+  step: ChaseStep,
+  channel: MessagingChannel
+): Promise<{ success: boolean; message: string }> {
+  const channelLabel = MESSAGING_CHANNEL_CONFIG[channel].label
+
+  if (!step.template || !step.template.isActive) {
+    return { success: false, message: 'Chase template is missing or inactive' }
+  }
+  if (!step.template.smsContent?.trim()) {
+    return { success: false, message: 'Chase template has no SMS text' }
+  }
+
+  const body = processEmailVariables(step.template.smsContent, {
+    client: target.client,
+    user: target.assignedUser,
+    workflow: { currentStage: target.currentStage },
+    vat: target.templateData.vat,
+    accounts: target.templateData.accounts
+  }).trim()
+
+  try {
+    const result = await messagingService.sendClientMessage({
+      clientId: target.client.id,
+      channel,
+      body,
+      templateId: step.template.id,
+      workflowType: target.workflowType,
+      workflowId: target.workflowId,
+      chaseStepId: step.id
+    })
+
+    if (!result.success) {
+      return { success: false, message: result.error || `Failed to send chase ${channelLabel}` }
+    }
+    return { success: true, message: `Chase ${step.stepOrder} sent by ${channelLabel}` }
+  } catch (error) {
+    if (!(error instanceof MessagingError)) throw error
+
+    const emailResult = await sendClientChase(target, step)
+    return emailResult.success
+      ? { success: true, message: `${emailResult.message} (${channelLabel} not possible: ${error.message})` }
+      : emailResult
+  }
+}
+
+/**
+ * Escalate an unanswered chase to every active partner (in-app + email)
+ */
+async function escalateChaseToPartners(
+  target: ChaseTarget,
+  step: ChaseStep,
+  sequence: ActiveChaseSequence
+): Promise<{ success: boolean; message: string }> {
+  const partners = await db.user.findMany({
+    where: { role: 'PARTNER', isActive: true },
+    select: { id: true, name: true, email: true }
+  })
+
+  if (partners.length === 0) {
+    return { success: false, message: 'No active partners to escalate to' }
+  }
+
+  const daysChasing = target.chaseStartedDate ? calculateDaysBetween(target.chaseStartedDate, new Date()) : step.dayOffset
+  const title = `Chase escalation: ${target.client.companyName}`
+  const message = `${target.client.companyName} (${target.client.clientCode}) has not sent paperwork for ${target.periodLabel} after ${daysChasing} days of chasing.`
+
+  let subject = `Chase Escalation - ${target.client.companyName} (${target.client.clientCode})`
+  let htmlContent = `
+    <h2>Paperwork chase escalated</h2>
+    <p>${message}</p>
+    <ul>
+      <li><strong>Workflow:</strong> ${CHASE_WORKFLOW_TYPE_LABELS[target.workflowType]}</li>
+      <li><strong>Period:</strong> ${target.periodLabel}</li>
+      <li><strong>Assigned to:</strong> ${target.assignedUser?.name || 'Unassigned'}</li>
+      <li><strong>Sequence:</strong> ${sequence.name}</li>
+    </ul>
+    <p>Please contact the client directly.</p>
+  `
+
+  if (step.template && step.template.isActive) {
+    const rendered = await renderChaseTemplate(step.template, target)
+    subject = rendered.subject
+    htmlContent = rendered.htmlContent
+  } else {
+    // The queue sends the document as is, so the default body needs the standard layout
+    htmlContent = await createOptimizedEmailTemplate(htmlContent, { subject, companyName: 'Numericalz' })
+  }
+
+  for (const partner of partners) {
+    await createNotification({
+      userId: partner.id,
+      category: target.workflowType === 'VAT' ? 'VAT' : 'ACCOUNTS',
+      type: 'CHASE_ESCALATION',
+      title,
+      message,
+      clientId: target.client.id,
+      relatedId: target.workflowId,
+      metadata: JSON.stringify({
+        workflowType: target.workflowType,
+        sequenceId: sequence.id,
+        stepOrder: step.stepOrder
+      })
+    }).catch(error => {
+      console.error('❌ Failed to create chase escalation notification:', error)
+    })
+
+    await enqueueEmail({
+      to: [{ email: partner.email, name: partner.name }],
+      subject,
+      htmlContent,
+      emailType: 'CHASE_ESCALATION',
+      clientId: target.client.id,
+      workflowType: target.workflowType,
+      workflowId: target.workflowId,
+      templateId: step.template?.id,
+      chaseStepId: step.id
+    })
+  }
+
+  return { success: true, message: `Escalated to ${partners.length} partner${partners.length === 1 ? '' : 's'}` }
+}
+
+/**
+ * Run every active chase sequence once (called daily by the automation endpoint)
+ * Sends at most one step per workflow per run. Emails are queued and go out with the next queue run.
+ */
+export async function runChaseSequences(now: Date = new Date()): Promise<ChaseRunSummary> {
+  const summary: ChaseRunSummary = { processed: 0, sent: 0, escalated: 0, skipped: 0, errors: 0, details: [] }
+
+  for (const workflowType of CHASE_WORKFLOW_TYPES) {
+    const sequence = await getActiveChaseSequence(workflowType)
+    if (!sequence || sequence.steps.length === 0) {
+      console.log(`🔄 No active chase sequence for ${workflowType}, skipping`)
+      continue
+    }
+
+    const targets = await loadChaseTargets(workflowType, now)
+    const sentStepIds = await getSentStepIds(
+      workflowType,
+      sequence.steps.map(step => step.id),
+      targets.map(target => target.workflowId)
+    )
+
+    console.log(`🔄 Chase sequence "${sequence.name}": ${targets.length} ${workflowType} workflows waiting on paperwork`)
+
+    for (const target of targets) {
+      summary.processed++
+
+      const nextChase = calculateNextChase(
+        sequence.steps,
+        { id: target.workflowId, currentStage: target.currentStage, chaseStartedDate: target.chaseStartedDate },
+        sentStepIds.get(target.workflowId) || new Set(),
+        now
+      )
+      if (!nextChase || nextChase.dueDate > now) {
+        summary.skipped++
+        continue
+      }
+
+      const step = sequence.steps.find(s => s.stepOrder === nextChase.stepOrder)!
+      let claimed = false
+      let recorded = false
+
+      try {
+        // The workflow may have moved on since the targets were loaded (e.g. a portal upload)
+        const currentStage = await getCurrentChaseStage(target)
+        if (!currentStage || !(ACTIVE_CHASE_STAGES as readonly string[]).includes(currentStage)) {
+          summary.skipped++
+          continue
+        }
+        target.currentStage = currentStage
+
+        claimed = await claimChaseSend(target, step, now)
+        if (!claimed) {
+          summary.skipped++
+          continue
+        }
+
+        const textChannel = TEXT_CHASE_CHANNELS[step.action]
+        const result = step.action === 'ESCALATE_TO_PARTNER'
+          ? await escalateChaseToPartners(target, step, sequence)
+          : textChannel
+            ? await sendClientTextChase(target, step, textChannel)
+            : await sendClientChase(target, step)
+
+        await recordChaseSendResult(target, step, result)
+        recorded = true
+
+        summary.details.push({
+          workflowType,
+          workflowId: target.workflowId,
+          clientCode: target.client.clientCode,
+          stepOrder: step.stepOrder,
+          ...result
+        })
+
+        if (!result.success) {
+          summary.errors++
+          continue
+        }
+
+        if (target.currentStage === 'PAPERWORK_PENDING_CHASE') {
+          await markChaseStarted(target, now)
+        }
+
+        if (step.action === 'ESCALATE_TO_PARTNER') {
+          summary.escalated++
+        } else {
+          summary.sent++
+        }
+
+        await logActivity({
+          action: step.action === 'ESCALATE_TO_PARTNER' ? 'AUTOMATED_CHASE_ESCALATED' : 'AUTOMATED_CHASE_SENT',
+          clientId: target.client.id,
+          details: {
+            workflowType,
+            workflowId: target.workflowId,
+            period: target.periodLabel,
+            sequenceId: sequence.id,
+            sequenceName: sequence.name,
+            stepOrder: step.stepOrder,
+            totalSteps: sequence.steps.length,
+            action: step.action,
+            message: result.message
+          }
+        })
+      } catch (error) {
+        console.error(`❌ Chase step ${step.stepOrder} failed for ${workflowType} workflow ${target.workflowId}:`, error)
+        // A send that went out stays sent even if the bookkeeping after it fails
+        if (claimed && !recorded) {
+          await recordChaseSendResult(target, step, {
+            success: false,
+            message: error instanceof Error ? error.message : 'Unknown error'
+          }).catch(recordError => {
+            console.error('❌ Failed to record chase send failure:', recordError)
+          })
+        }
+        summary.errors++
+        summary.details.push({
+          workflowType,
+          workflowId: target.workflowId,
+          clientCode: target.client.clientCode,
+          stepOrder: step.stepOrder,
+          success: false,
+          message: error instanceof Error ? error.message : 'Unknown error'
+        })
+      }
+    }
+  }
+
+  console.log(`✅ Chase run complete: ${summary.sent} sent, ${summary.escalated} escalated, ${summary.errors} errors`)
+  return summary
+}
@@ -0,0 +1,79 @@
+/**
+ * CIS Workflow Server-Side Utilities
+ *
+ * Monthly CIS300 returns are generated from each active contractor scheme within a rolling window,
+ * so they appear on the Sub Contractors page and deadlines calendar without anyone creating them by hand.
+ */
+
+import { db } from '@/lib/db'
+import { getCisReturnPeriodsInWindow } from '@/lib/cis-workflow'
+
+/**
+ * Create any missing returns for a scheme within the generation window
+ * Existing returns are left untouched so their progress is never reset
+ * @returns Number of returns created
+ */
+export async function generateCisReturns(schemeId: string, today: Date = new Date()): Promise<number> {
+  const scheme = await db.cisScheme.findUnique({
+    where: { id: schemeId },
+    include: {
+      client: {
+        select: {
+          isActive: true,
+          assignedUserId: true,
+          ltdCompanyAssignedUserId: true,
+          nonLtdCompanyAssignedUserId: true
+        }
+      }
+    }
+  })
+
+  if (!scheme || !scheme.isActive || !scheme.client.isActive) {
+    return 0
+  }
+
+  const periods = getCisReturnPeriodsInWindow(scheme.registeredFrom, today)
+
+  if (periods.length === 0) {
+    return 0
+  }
+
+  // Default assignee: the scheme's assignee, then the client's workflow assignees
+  const assignedUserId = scheme.assignedUserId
+    || scheme.client.ltdCompanyAssignedUserId
+    || scheme.client.nonLtdCompanyAssignedUserId
+    || scheme.client.assignedUserId
+
+  const result = await db.cisReturn.createMany({
+    data: periods.map(period => ({
+      schemeId: scheme.id,
+      clientId: scheme.clientId,
+      ...period,
+      assignedUserId,
+      isCompleted: false
+    })),
+    skipDuplicates: true
+  })
+
+  return result.count
+}
+
+/**
+ * Generate returns for every active scheme of an active client
+ */
+export async function generateAllCisReturns(today: Date = new Date()): Promise<number> {
+  const schemes = await db.cisScheme.findMany({
+    where: {
+      isActive: true,
+      client: { isActive: true }
+    },
+    select: { id: true }
+  })
+
+  let created = 0
+  for (const scheme of schemes) {
+    created += await generateCisReturns(scheme.id, today)
+  }
+
+  return created
+}
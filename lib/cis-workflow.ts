@@ -0,0 +1,247 @@
+/**
+ * CIS (Construction Industry Scheme) Workflow Client-Safe Utilities
+ *
+ * Contractor clients file a CIS300 monthly return for each tax month (6th to 5th), due by the 19th
+ * after the tax month ends. Deductions from subcontractor payments depend on HMRC verification:
+ * - Gross payment status: 0%
+ * - Registered (net): 20%
+ * - Unmatched or not yet verified: 30% (higher rate)
+ * Deductions apply to the labour element only (gross payment less materials).
+ */
+
+import { addDays, addMonths, startOfDay, subDays } from 'date-fns'
+import { getPayrollTaxPeriod } from '@/lib/payroll-workflow'
+
+// How far ahead (by due date) returns are generated - always covers the tax month in progress
+export const CIS_RETURN_HORIZON_DAYS = 45
+
+// How far back (by due date) returns are generated when a scheme is first set up
+export const CIS_RETURN_BACKFILL_DAYS = 31
+
+export const CIS_VERIFICATION_STATUSES = ['UNVERIFIED', 'GROSS', 'NET', 'UNMATCHED'] as const
+
+export type CisVerificationStatus = typeof CIS_VERIFICATION_STATUSES[number]
+
+export const CIS_VERIFICATION_STATUS_CONFIG: Record<CisVerificationStatus, { label: string; deductionRate: number; color: string }> = {
+  UNVERIFIED: { label: 'Not verified', deductionRate: 30, color: 'bg-gray-100 text-gray-800' },
+  GROSS: { label: 'Gross (0%)', deductionRate: 0, color: 'bg-green-100 text-green-800' },
+  NET: { label: 'Net (20%)', deductionRate: 20, color: 'bg-blue-100 text-blue-800' },
+  UNMATCHED: { label: 'Unmatched (30%)', deductionRate: 30, color: 'bg-red-100 text-red-800' }
+}
+
+export const CIS_DEDUCTION_RATES = [0, 20, 30] as const
+
+export const CIS_BUSINESS_TYPES = ['SOLE_TRADER', 'PARTNERSHIP', 'COMPANY', 'TRUST'] as const
+
+export type CisBusinessType = typeof CIS_BUSINESS_TYPES[number]
+
+export const CIS_BUSINESS_TYPE_LABELS: Record<CisBusinessType, string> = {
+  SOLE_TRADER: 'Sole trader',
+  PARTNERSHIP: 'Partnership',
+  COMPANY: 'Company',
+  TRUST: 'Trust'
+}
+
+// CIS Return Stage Order (sequential progression)
+export const CIS_RETURN_STAGE_ORDER = [
+  'WAITING_FOR_DATA',
+  'DATA_RECEIVED',
+  'PROCESSING',
+  'REVIEW_BY_MANAGER',
+  'SENT_TO_CLIENT',
+  'APPROVED_BY_CLIENT',
+  'SUBMITTED_TO_HMRC'
+] as const
+
+export type CisReturnStage = typeof CIS_RETURN_STAGE_ORDER[number]
+
+export const CIS_RETURN_STAGES: Record<CisReturnStage, { label: string; shortLabel: string; color: string }> = {
+  WAITING_FOR_DATA: {
+    label: 'Waiting for payment details',
+    shortLabel: 'Waiting',
+    color: 'bg-gray-100 text-gray-800'
+  },
+  DATA_RECEIVED: {
+    label: 'Payment details received',
+    shortLabel: 'Data received',
+    color: 'bg-yellow-100 text-yellow-800'
+  },
+  PROCESSING: {
+    label: 'Preparing return',
+    shortLabel: 'Processing',
+    color: 'bg-blue-100 text-blue-800'
+  },
+  REVIEW_BY_MANAGER: {
+    label: 'Review by manager',
+    shortLabel: 'Review',
+    color: 'bg-indigo-100 text-indigo-800'
+  },
+  SENT_TO_CLIENT: {
+    label: 'Sent to client for approval',
+    shortLabel: 'With client',
+    color: 'bg-cyan-100 text-cyan-800'
+  },
+  APPROVED_BY_CLIENT: {
+    label: 'Approved by client',
+    shortLabel: 'Approved',
+    color: 'bg-teal-100 text-teal-800'
+  },
+  SUBMITTED_TO_HMRC: {
+    label: 'CIS300 submitted to HMRC',
+    shortLabel: 'Submitted',
+    color: 'bg-green-100 text-green-800'
+  }
+}
+
+/**
+ * Milestone field mapping for each stage (date, user id and user name fields)
+ */
+export const CIS_MILESTONE_FIELDS: Partial<Record<CisReturnStage, { dateField: string; userField: string; nameField: string }>> = {
+  DATA_RECEIVED: {
+    dateField: 'dataReceivedDate',
+    userField: 'dataReceivedByUserId',
+    nameField: 'dataReceivedByUserName'
+  },
+  PROCESSING: {
+    dateField: 'processingStartedDate',
+    userField: 'processingStartedByUserId',
+    nameField: 'processingStartedByUserName'
+  },
+  REVIEW_BY_MANAGER: {
+    dateField: 'managerReviewDate',
+    userField: 'managerReviewByUserId',
+    nameField: 'managerReviewByUserName'
+  },
+  SENT_TO_CLIENT: {
+    dateField: 'sentToClientDate',
+    userField: 'sentToClientByUserId',
+    nameField: 'sentToClientByUserName'
+  },
+  APPROVED_BY_CLIENT: {
+    dateField: 'clientApprovedDate',
+    userField: 'clientApprovedByUserId',
+    nameField: 'clientApprovedByUserName'
+  },
+  SUBMITTED_TO_HMRC: {
+    dateField: 'submittedDate',
+    userField: 'submittedByUserId',
+    nameField: 'submittedByUserName'
+  }
+}
+
+export interface CisReturnPeriod {
+  taxYear: string
+  taxMonth: number
+  periodStart: Date
+  periodEnd: Date
+  dueDate: Date
+}
+
+export function isCisReturnStage(stage: string): stage is CisReturnStage {
+  return (CIS_RETURN_STAGE_ORDER as readonly string[]).includes(stage)
+}
+
+export function isCisVerificationStatus(value: string): value is CisVerificationStatus {
+  return (CIS_VERIFICATION_STATUSES as readonly string[]).includes(value)
+}
+
+export function isCisBusinessType(value: string): value is CisBusinessType {
+  return (CIS_BUSINESS_TYPES as readonly string[]).includes(value)
+}
+
+export function getCisReturnStageLabel(stage: string): string {
+  return isCisReturnStage(stage) ? CIS_RETURN_STAGES[stage].label : stage
+}
+
+export function isCisReturnComplete(stage: string): boolean {
+  return stage === 'SUBMITTED_TO_HMRC'
+}
+
+/**
+ * Deduction rate for a subcontractor's verification status
+ */
+export function getCisDeductionRate(verificationStatus: string): number {
+  return isCisVerificationStatus(verificationStatus)
+    ? CIS_VERIFICATION_STATUS_CONFIG[verificationStatus].deductionRate
+    : 30
+}
+
+/**
+ * Deduction on the labour element of a payment, rounded down to the penny
+ */
+export function calculateCisDeduction(grossAmount: number, materialsAmount: number, deductionRate: number): number {
+  const labourPence = Math.max(0, Math.round(grossAmount * 100) - Math.round(materialsAmount * 100))
+  return Math.floor(labourPence * deductionRate / 100) / 100
+}
+
+/**
+ * Tax month a date falls in, with its CIS300 due date
+ */
+export function getCisReturnPeriod(date: Date): CisReturnPeriod {
+  const { taxYear, taxMonth, taxMonthEnd } = getPayrollTaxPeriod(date)
+
+  return {
+    taxYear,
+    taxMonth,
+    periodStart: new Date(taxMonthEnd.getFullYear(), taxMonthEnd.getMonth() - 1, 6),
+    periodEnd: taxMonthEnd,
+    dueDate: new Date(taxMonthEnd.getFullYear(), taxMonthEnd.getMonth(), 19)
+  }
+}
+
+/**
+ * Tax months of a scheme whose returns fall due within the generation window
+ * Months before the scheme's registration date are skipped
+ */
+export function getCisReturnPeriodsInWindow(registeredFrom: Date, today: Date = new Date()): CisReturnPeriod[] {
+  const from = subDays(startOfDay(today), CIS_RETURN_BACKFILL_DAYS)
+  const to = addDays(startOfDay(today), CIS_RETURN_HORIZON_DAYS)
+  const firstPeriod = getCisReturnPeriod(startOfDay(registeredFrom))
+  const periods: CisReturnPeriod[] = []
+
+  for (let period = firstPeriod; period.dueDate <= to; period = getCisReturnPeriod(addMonths(period.periodStart, 1))) {
+    if (period.dueDate >= from) {
+      periods.push(period)
+    }
+  }
+
+  return periods
+}
+
+/**
+ * Build the milestone update for a stage change
+ * Moving backwards clears the milestones of the stages being undone
+ */
+export function getCisReturnMilestoneUpdate(
+  newStage: CisReturnStage,
+  userId: string | null,
+  userName: string,
+  currentStage?: string
+): Record<string, Date | string | null> {
+  const updateData: Record<string, Date | string | null> = {}
+  const milestone = CIS_MILESTONE_FIELDS[newStage]
+
+  if (milestone) {
+    updateData[milestone.dateField] = new Date()
+    updateData[milestone.userField] = userId
+    updateData[milestone.nameField] = userName
+  }
+
+  if (currentStage) {
+    const currentIndex = CIS_RETURN_STAGE_ORDER.indexOf(currentStage as CisReturnStage)
+    const newIndex = CIS_RETURN_STAGE_ORDER.indexOf(newStage)
+
+    if (currentIndex > newIndex) {
+      CIS_RETURN_STAGE_ORDER.slice(newIndex + 1, currentIndex + 1).forEach(futureStage => {
+        const futureMilestone = CIS_MILESTONE_FIELDS[futureStage]
+        if (futureMilestone) {
+          updateData[futureMilestone.dateField] = null
+          updateData[futureMilestone.userField] = null
+          updateData[futureMilestone.nameField] = null
+        }
+      })
+    }
+  }
+
+  return updateData
+}
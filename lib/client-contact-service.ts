@@ -0,0 +1,313 @@
+/**
+ * Client Contacts Server-Side Utilities
+ *
+ * Keeps the PRIMARY contact and Client.contactName/contactEmail/contactPhone in step in both
+ * directions, and picks the contacts an email should go to from their template category opt-ins.
+ */
+
+import { db } from '@/lib/db'
+import { formatOfficerName, formatOfficerRole } from '@/lib/officers'
+import {
+  CLIENT_CONTACT_ROLE_CONFIG,
+  selectRecipientContacts,
+  type ClientContactRoleValue,
+  type ClientContactSummary,
+  type TemplateCategoryValue
+} from '@/lib/client-contacts'
+
+export class ClientContactError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'ClientContactError'
+  }
+}
+
+export interface ClientContactInput {
+  name: string
+  email?: string | null
+  phone?: string | null
+  role: ClientContactRoleValue
+  jobTitle?: string | null
+  emailOptIns?: TemplateCategoryValue[]
+  isActive?: boolean
+  notes?: string | null
+}
+
+export interface RecipientContact {
+  contactId: string | null
+  name: string
+  email: string
+  role: ClientContactRoleValue
+}
+
+type ClientContactRecord = Awaited<ReturnType<typeof db.clientContact.findMany>>[number]
+
+function toContactSummary(contact: ClientContactRecord): ClientContactSummary {
+  return {
+    id: contact.id,
+    name: contact.name,
+    email: contact.email,
+    phone: contact.phone,
+    role: contact.role as ClientContactRoleValue,
+    jobTitle: contact.jobTitle,
+    emailOptIns: contact.emailOptIns as TemplateCategoryValue[],
+    source: contact.source,
+    isActive: contact.isActive,
+    notes: contact.notes
+  }
+}
+
+/**
+ * A client's contacts, primary first then by role and name
+ */
+export async function getClientContacts(clientId: string): Promise<ClientContactSummary[]> {
+  const contacts = await db.clientContact.findMany({
+    where: { clientId },
+    orderBy: [{ role: 'asc' }, { name: 'asc' }]
+  })
+  return contacts.map(toContactSummary)
+}
+
+/**
+ * Create or update the PRIMARY contact from the client record, after the client is created or edited
+ */
+export async function syncPrimaryContactFromClient(client: {
+  id: string
+  contactName: string
+  contactEmail: string
+  contactPhone: string | null
+}) {
+  const primary = await db.clientContact.findFirst({ where: { clientId: client.id, role: 'PRIMARY' } })
+
+  if (!primary) {
+    return db.clientContact.create({
+      data: {
+        clientId: client.id,
+        name: client.contactName,
+        email: client.contactEmail || null,
+        phone: client.contactPhone,
+        role: 'PRIMARY',
+        emailOptIns: CLIENT_CONTACT_ROLE_CONFIG.PRIMARY.defaultOptIns,
+        source: 'CLIENT_RECORD'
+      }
+    })
+  }
+
+  if (primary.name === client.contactName && primary.email === client.contactEmail && primary.phone === client.contactPhone) {
+    return primary
+  }
+
+  return db.clientContact.update({
+    where: { id: primary.id },
+    data: {
+      name: client.contactName,
+      email: client.contactEmail || null,
+      phone: client.contactPhone
+    }
+  })
+}
+
+/**
+ * Copy the primary contact's details onto the client record, which the rest of the app still reads
+ */
+async function mirrorPrimaryContactToClient(contact: ClientContactRecord) {
+  await db.client.update({
+    where: { id: contact.clientId },
+    data: {
+      contactName: contact.name,
+      contactEmail: contact.email!,
+      contactPhone: contact.phone
+    }
+  })
+}
+
+/**
+ * Add a contact to a client
+ * @throws ClientContactError when the client already has a primary contact
+ */
+export async function createClientContact(clientId: string, input: ClientContactInput) {
+  if (input.role === 'PRIMARY') {
+    throw new ClientContactError('This client already has a primary contact - edit a contact and make it primary instead')
+  }
+
+  const contact = await db.clientContact.create({
+    data: {
+      clientId,
+      name: input.name,
+      email: input.email || null,
+      phone: input.phone || null,
+      role: input.role,
+      jobTitle: input.jobTitle || null,
+      emailOptIns: input.emailOptIns ?? CLIENT_CONTACT_ROLE_CONFIG[input.role].defaultOptIns,
+      isActive: input.isActive ?? true,
+      notes: input.notes || null,
+      source: 'MANUAL'
+    }
+  })
+
+  return toContactSummary(contact)
+}
+
+/**
+ * Update a contact. Making a contact primary hands its old role to the previous primary, and
+ * changes to the primary contact are copied onto the client record.
+ * @throws ClientContactError when the change would leave the client without an emailable primary contact
+ */
+export async function updateClientContact(clientId: string, contactId: string, input: ClientContactInput) {
+  const existing = await db.clientContact.findFirst({ where: { id: contactId, clientId } })
+  if (!existing) {
+    throw new ClientContactError('Contact not found', 404)
+  }
+
+  if (existing.role === 'PRIMARY' && input.role !== 'PRIMARY') {
+    throw new ClientContactError('Make another contact primary first')
+  }
+  if (input.role === 'PRIMARY') {
+    if (!input.email) {
+      throw new ClientContactError('The primary contact needs an email address')
+    }
+    if (input.isActive === false) {
+      throw new ClientContactError('The primary contact cannot be made inactive')
+    }
+  }
+
+  const contact = await db.$transaction(async (tx) => {
+    if (input.role === 'PRIMARY' && existing.role !== 'PRIMARY') {
+      await tx.clientContact.updateMany({
+        where: { clientId, role: 'PRIMARY' },
+        data: { role: existing.role }
+      })
+    }
+
+    return tx.clientContact.update({
+      where: { id: contactId },
+      data: {
+        name: input.name,
+        email: input.email || null,
+        phone: input.phone || null,
+        role: input.role,
+        jobTitle: input.jobTitle || null,
+        ...(input.emailOptIns !== undefined && { emailOptIns: input.emailOptIns }),
+        ...(input.isActive !== undefined && { isActive: input.isActive }),
+        notes: input.notes || null
+      }
+    })
+  })
+
+  if (contact.role === 'PRIMARY') {
+    await mirrorPrimaryContactToClient(contact)
+  }
+
+  return { contact: toContactSummary(contact), previousRole: existing.role as ClientContactRoleValue }
+}
+
+/**
+ * Remove a contact
+ * @throws ClientContactError for the primary contact, which the client record depends on
+ */
+export async function deleteClientContact(clientId: string, contactId: string) {
+  const contact = await db.clientContact.findFirst({ where: { id: contactId, clientId } })
+  if (!contact) {
+    throw new ClientContactError('Contact not found', 404)
+  }
+  if (contact.role === 'PRIMARY') {
+    throw new ClientContactError('The primary contact cannot be removed - make another contact primary first')
+  }
+
+  await db.clientContact.delete({ where: { id: contactId } })
+  return toContactSummary(contact)
+}
+
+/**
+ * Who a client email of this template category goes to
+ * Clients without any contact records fall back to Client.contactEmail.
+ */
+export async function getRecipientContacts(
+  clientId: string,
+  category: string | null | undefined
+): Promise<RecipientContact[]> {
+  const [contacts, client] = await Promise.all([
+    db.clientContact.findMany({ where: { clientId } }),
+    db.client.findUnique({ where: { id: clientId }, select: { contactName: true, contactEmail: true } })
+  ])
+
+  if (contacts.length === 0) {
+    return client?.contactEmail
+      ? [{ contactId: null, name: client.contactName, email: client.contactEmail, role: 'PRIMARY' }]
+      : []
+  }
+
+  return selectRecipientContacts(contacts.map(toContactSummary), category).map(contact => ({
+    contactId: contact.id,
+    name: contact.name,
+    email: contact.email!,
+    role: contact.role
+  }))
+}
+
+/**
+ * Add a DIRECTOR contact for each serving director/LLP member and individual PSC that isn't
+ * already a contact. Companies House has no email addresses, so staff fill those in afterwards.
+ * Reads the officer and PSC records, so run it after syncClientOfficers.
+ * @returns The contacts that were added
+ */
+export async function seedContactsFromCompaniesHouse(clientId: string): Promise<ClientContactSummary[]> {
+  const [appointments, pscs, existing] = await Promise.all([
+    db.officerAppointment.findMany({
+      where: { clientId, isActive: true },
+      include: { officer: { select: { id: true, name: true } } },
+      orderBy: { appointedOn: 'asc' }
+    }),
+    db.personWithSignificantControl.findMany({
+      where: { clientId, isActive: true, kind: { startsWith: 'individual' } },
+      orderBy: { notifiedOn: 'asc' }
+    }),
+    db.clientContact.findMany({ where: { clientId }, select: { officerId: true, pscId: true } })
+  ])
+
+  const seededOfficerIds = new Set(existing.flatMap(contact => contact.officerId ? [contact.officerId] : []))
+  const seededPscIds = new Set(existing.flatMap(contact => contact.pscId ? [contact.pscId] : []))
+  const defaultOptIns = CLIENT_CONTACT_ROLE_CONFIG.DIRECTOR.defaultOptIns
+
+  const toCreate: Array<{ name: string; jobTitle: string; officerId: string | null; pscId: string | null }> = []
+
+  for (const appointment of appointments) {
+    const isDirector = appointment.officerRole.includes('director') || appointment.officerRole.includes('member')
+    if (!isDirector || seededOfficerIds.has(appointment.officerId)) continue
+
+    seededOfficerIds.add(appointment.officerId)
+    toCreate.push({
+      name: formatOfficerName(appointment.officer.name),
+      jobTitle: formatOfficerRole(appointment.officerRole),
+      officerId: appointment.officerId,
+      pscId: null
+    })
+  }
+
+  for (const psc of pscs) {
+    // A PSC who is also a director was added above
+    if (seededPscIds.has(psc.id) || (psc.officerId && seededOfficerIds.has(psc.officerId))) continue
+
+    toCreate.push({
+      name: psc.name,
+      jobTitle: 'Person with significant control',
+      officerId: psc.officerId,
+      pscId: psc.id
+    })
+  }
+
+  const created = []
+  for (const contact of toCreate) {
+    created.push(await db.clientContact.create({
+      data: {
+        clientId,
+        ...contact,
+        role: 'DIRECTOR',
+        emailOptIns: defaultOptIns,
+        source: 'COMPANIES_HOUSE'
+      }
+    }))
+  }
+
+  return created.map(toContactSummary)
+}
@@ -0,0 +1,121 @@
+/**
+ * Client Contacts Client-Safe Utilities
+ *
+ * A client can have several contacts, each with a role and the template categories they want
+ * email about. The PRIMARY contact mirrors Client.contactName/contactEmail/contactPhone, so code that
+ * only knows about the single contact keeps working.
+ */
+
+export const CLIENT_CONTACT_ROLES = ['PRIMARY', 'BOOKKEEPING', 'DIRECTOR', 'BILLING'] as const
+
+export type ClientContactRoleValue = typeof CLIENT_CONTACT_ROLES[number]
+
+export const TEMPLATE_CATEGORIES = [
+  'GENERAL',
+  'VAT_WORKFLOW',
+  'ACCOUNTS_WORKFLOW',
+  'CHASE_REMINDERS',
+  'DEADLINE_NOTIFICATIONS',
+  'COMPLETION_NOTIFICATIONS',
+  'QUERY_REQUESTS',
+  'APPROVAL_REQUESTS',
+  'FILING_CONFIRMATIONS',
+  'WELCOME_ONBOARDING',
+  'MARKETING',
+  'SYSTEM_NOTIFICATIONS'
+] as const
+
+export type TemplateCategoryValue = typeof TEMPLATE_CATEGORIES[number]
+
+export const TEMPLATE_CATEGORY_LABELS: Record<TemplateCategoryValue, string> = {
+  GENERAL: 'General',
+  VAT_WORKFLOW: 'VAT Workflow',
+  ACCOUNTS_WORKFLOW: 'Accounts Workflow',
+  CHASE_REMINDERS: 'Chase Reminders',
+  DEADLINE_NOTIFICATIONS: 'Deadline Notifications',
+  COMPLETION_NOTIFICATIONS: 'Completion Notifications',
+  QUERY_REQUESTS: 'Query Requests',
+  APPROVAL_REQUESTS: 'Approval Requests',
+  FILING_CONFIRMATIONS: 'Filing Confirmations',
+  WELCOME_ONBOARDING: 'Welcome & Onboarding',
+  MARKETING: 'Marketing',
+  SYSTEM_NOTIFICATIONS: 'System Notifications'
+}
+
+export const CLIENT_CONTACT_ROLE_CONFIG: Record<ClientContactRoleValue, {
+  label: string
+  description: string
+  color: string
+  // Opt-ins a new contact with this role starts with
+  defaultOptIns: TemplateCategoryValue[]
+}> = {
+  PRIMARY: {
+    label: 'Primary',
+    description: 'Main point of contact - receives everything unless opted out',
+    color: 'bg-blue-100 text-blue-800',
+    defaultOptIns: [...TEMPLATE_CATEGORIES]
+  },
+  BOOKKEEPING: {
+    label: 'Bookkeeping',
+    description: 'Prepares the records - chased for paperwork and queries',
+    color: 'bg-green-100 text-green-800',
+    defaultOptIns: ['VAT_WORKFLOW', 'ACCOUNTS_WORKFLOW', 'CHASE_REMINDERS', 'DEADLINE_NOTIFICATIONS', 'QUERY_REQUESTS']
+  },
+  DIRECTOR: {
+    label: 'Director',
+    description: 'Approves and signs - receives approvals and filing confirmations',
+    color: 'bg-purple-100 text-purple-800',
+    defaultOptIns: ['APPROVAL_REQUESTS', 'FILING_CONFIRMATIONS', 'COMPLETION_NOTIFICATIONS', 'DEADLINE_NOTIFICATIONS']
+  },
+  BILLING: {
+    label: 'Billing',
+    description: 'Accounts payable - receives fee and invoice emails',
+    color: 'bg-amber-100 text-amber-800',
+    defaultOptIns: ['GENERAL']
+  }
+}
+
+export interface ClientContactSummary {
+  id: string
+  name: string
+  email: string | null
+  phone: string | null
+  role: ClientContactRoleValue
+  jobTitle: string | null
+  emailOptIns: TemplateCategoryValue[]
+  source: string
+  isActive: boolean
+  notes: string | null
+}
+
+export function isClientContactRole(value: unknown): value is ClientContactRoleValue {
+  return typeof value === 'string' && (CLIENT_CONTACT_ROLES as readonly string[]).includes(value)
+}
+
+export function isTemplateCategory(value: unknown): value is TemplateCategoryValue {
+  return typeof value === 'string' && (TEMPLATE_CATEGORIES as readonly string[]).includes(value)
+}
+
+/**
+ * Whether a contact should get email of this category - email with no template goes to the primary only
+ */
+export function contactReceivesCategory(
+  contact: Pick<ClientContactSummary, 'email' | 'role' | 'emailOptIns' | 'isActive'>,
+  category: string | null | undefined
+): boolean {
+  if (!contact.isActive || !contact.email) return false
+  if (!category) return contact.role === 'PRIMARY'
+  return (contact.emailOptIns as string[]).includes(category)
+}
+
+/**
+ * Contacts to email for a template category, primary first
+ */
+export function selectRecipientContacts<T extends Pick<ClientContactSummary, 'email' | 'role' | 'emailOptIns' | 'isActive'>>(
+  contacts: T[],
+  category: string | null | undefined
+): T[] {
+  return contacts
+    .filter(contact => contactReceivesCategory(contact, category))
+    .sort((a, b) => CLIENT_CONTACT_ROLES.indexOf(a.role) - CLIENT_CONTACT_ROLES.indexOf(b.role))
+}
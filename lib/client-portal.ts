@@ -0,0 +1,513 @@
+/**
+ * Client Document Portal
+ *
+ * Tokenised, unauthenticated upload links ("magic links") that let a client
+ * send bank statements and receipts for a specific VAT quarter or accounts
+ * workflow. The first upload against a workflow that is waiting on paperwork
+ * moves it to PAPERWORK_RECEIVED with a history entry attributed to the client.
+ *
+ * SECURITY NOTES:
+ * - Only a SHA-256 hash of the token is stored; the raw token is returned once
+ * - Links expire and can be revoked by staff
+ * - File type and size are validated against ALLOWED_FILE_TYPES / MAX_FILE_SIZE
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import { db } from '@/lib/db'
+import { logActivity } from '@/lib/activity-logger'
+import { createNotification } from '@/lib/in-app-notifications'
+import { calculateDaysBetween } from '@/lib/vat-workflow'
+
+export const PORTAL_WORKFLOW_TYPES = ['VAT', 'LTD', 'NON_LTD'] as const
+export type PortalWorkflowType = typeof PORTAL_WORKFLOW_TYPES[number]
+
+export const DOCUMENT_CATEGORIES = {
+  BANK_STATEMENT: 'Bank Statement',
+  RECEIPT: 'Receipt / Invoice',
+  OTHER: 'Other'
+} as const
+
+export type DocumentCategory = keyof typeof DOCUMENT_CATEGORIES
+
+// Stages in which an upload counts as "paperwork received"
+// Stages shared by the VAT, Ltd and non-Ltd workflow enums
+const AWAITING_PAPERWORK_STAGES = ['PAPERWORK_PENDING_CHASE', 'PAPERWORK_CHASED'] as const
+
+type AwaitingPaperworkStage = typeof AWAITING_PAPERWORK_STAGES[number]
+
+function isAwaitingPaperwork(stage: string): stage is AwaitingPaperworkStage {
+  return (AWAITING_PAPERWORK_STAGES as readonly string[]).includes(stage)
+}
+
+const DEFAULT_LINK_EXPIRY_DAYS = 30
+const MAX_LINK_EXPIRY_DAYS = 90
+const MAX_FILES_PER_UPLOAD = 20
+
+const DEFAULT_ALLOWED_FILE_TYPES = 'pdf,jpg,jpeg,png,heic,csv,xls,xlsx,doc,docx'
+const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB
+
+export interface PortalWorkflowSummary {
+  workflowType: PortalWorkflowType
+  workflowId: string
+  periodLabel: string
+  currentStage: string
+  dueDate: Date
+}
+
+export interface ResolvedPortalLink {
+  id: string
+  clientId: string
+  companyName: string
+  contactName: string
+  workflow: PortalWorkflowSummary
+  expiresAt: Date
+}
+
+export class PortalLinkError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'PortalLinkError'
+  }
+}
+
+/**
+ * Hash a raw portal token for storage/lookup
+ */
+export function hashPortalToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Build the public portal URL for a raw token
+ */
+export function getPortalUrl(token: string): string {
+  const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000'
+  return `${baseUrl}/portal/${token}`
+}
+
+export function isPortalWorkflowType(value: unknown): value is PortalWorkflowType {
+  return typeof value === 'string' && (PORTAL_WORKFLOW_TYPES as readonly string[]).includes(value)
+}
+
+/**
+ * Load a workflow for a client and summarise it for the portal
+ * Returns null if the workflow does not exist or belongs to another client
+ */
+export async function getPortalWorkflowSummary(
+  clientId: string,
+  workflowType: PortalWorkflowType,
+  workflowId: string
+): Promise<PortalWorkflowSummary | null> {
+  if (workflowType === 'VAT') {
+    const quarter = await db.vATQuarter.findFirst({
+      where: { id: workflowId, clientId },
+      select: { id: true, quarterEndDate: true, filingDueDate: true, currentStage: true }
+    })
+    if (!quarter) return null
+    return {
+      workflowType,
+      workflowId: quarter.id,
+      periodLabel: `VAT quarter ending ${formatPortalDate(quarter.quarterEndDate)}`,
+      currentStage: quarter.currentStage,
+      dueDate: quarter.filingDueDate
+    }
+  }
+
+  if (workflowType === 'LTD') {
+    const workflow = await db.ltdAccountsWorkflow.findFirst({
+      where: { id: workflowId, clientId },
+      select: { id: true, filingPeriodEnd: true, accountsDueDate: true, currentStage: true }
+    })
+    if (!workflow) return null
+    return {
+      workflowType,
+      workflowId: workflow.id,
+      periodLabel: `Annual accounts for year ending ${formatPortalDate(workflow.filingPeriodEnd)}`,
+      currentStage: workflow.currentStage,
+      dueDate: workflow.accountsDueDate
+    }
+  }
+
+  const workflow = await db.nonLtdAccountsWorkflow.findFirst({
+    where: { id: workflowId, clientId },
+    select: { id: true, yearEndDate: true, filingDueDate: true, currentStage: true }
+  })
+  if (!workflow) return null
+  return {
+    workflowType,
+    workflowId: workflow.id,
+    periodLabel: `Accounts for year ending ${formatPortalDate(workflow.yearEndDate)}`,
+    currentStage: workflow.currentStage,
+    dueDate: workflow.filingDueDate
+  }
+}
+
+/**
+ * Create a new portal link for a workflow
+ * Returns the raw token - it is not recoverable afterwards
+ */
+export async function createPortalLink(params: {
+  clientId: string
+  workflowType: PortalWorkflowType
+  workflowId: string
+  createdByUserId: string
+  expiresInDays?: number
+}) {
+  const workflow = await getPortalWorkflowSummary(params.clientId, params.workflowType, params.workflowId)
+  if (!workflow) {
+    throw new PortalLinkError('Workflow not found for this client', 404)
+  }
+
+  const expiryDays = Math.min(
+    Math.max(params.expiresInDays || DEFAULT_LINK_EXPIRY_DAYS, 1),
+    MAX_LINK_EXPIRY_DAYS
+  )
+  const expiresAt = new Date(Date.now() + expiryDays * 24 * 60 * 60 * 1000)
+
+  const token = randomBytes(32).toString('base64url')
+
+  const link = await db.clientPortalLink.create({
+    data: {
+      tokenHash: hashPortalToken(token),
+      clientId: params.clientId,
+      workflowType: params.workflowType,
+      workflowId: params.workflowId,
+      expiresAt,
+      createdByUserId: params.createdByUserId
+    }
+  })
+
+  return { link, token, url: getPortalUrl(token), workflow }
+}
+
+/**
+ * Resolve a raw token to an active portal link
+ * Throws PortalLinkError for unknown, revoked or expired links
+ */
+export async function resolvePortalLink(token: string): Promise<ResolvedPortalLink> {
+  if (!token || token.length < 20) {
+    throw new PortalLinkError('Invalid upload link', 404)
+  }
+
+  const link = await db.clientPortalLink.findUnique({
+    where: { tokenHash: hashPortalToken(token) },
+    include: {
+      client: {
+        select: { id: true, companyName: true, contactName: true, isActive: true }
+      }
+    }
+  })
+
+  if (!link || !link.client.isActive) {
+    throw new PortalLinkError('Invalid upload link', 404)
+  }
+  if (link.revokedAt) {
+    throw new PortalLinkError('This upload link has been withdrawn. Please contact us for a new link.', 410)
+  }
+  if (link.expiresAt < new Date()) {
+    throw new PortalLinkError('This upload link has expired. Please contact us for a new link.', 410)
+  }
+
+  const workflowType = isPortalWorkflowType(link.workflowType) ? link.workflowType : null
+  const workflow = workflowType
+    ? await getPortalWorkflowSummary(link.clientId, workflowType, link.workflowId)
+    : null
+
+  if (!workflow) {
+    throw new PortalLinkError('The work this link was created for no longer exists', 410)
+  }
+
+  return {
+    id: link.id,
+    clientId: link.clientId,
+    companyName: link.client.companyName,
+    contactName: link.client.contactName,
+    workflow,
+    expiresAt: link.expiresAt
+  }
+}
+
+/**
+ * Validate an uploaded file against configured size and type limits
+ */
+export function validatePortalFile(file: File): string | null {
+  const maxSize = parseInt(process.env.MAX_FILE_SIZE || '', 10) || DEFAULT_MAX_FILE_SIZE
+  const allowedTypes = (process.env.ALLOWED_FILE_TYPES || DEFAULT_ALLOWED_FILE_TYPES)
+    .split(',')
+    .map(type => type.trim().toLowerCase())
+    .filter(Boolean)
+
+  const extension = path.extname(file.name).replace('.', '').toLowerCase()
+
+  if (!extension || !allowedTypes.includes(extension)) {
+    return `${file.name}: file type not allowed (allowed: ${allowedTypes.join(', ')})`
+  }
+  if (file.size === 0) {
+    return `${file.name}: file is empty`
+  }
+  if (file.size > maxSize) {
+    return `${file.name}: file is larger than ${Math.round(maxSize / (1024 * 1024))}MB`
+  }
+  return null
+}
+
+/**
+ * Store uploaded files for a portal link and advance the workflow
+ */
+export async function saveClientUploads(
+  portalLink: ResolvedPortalLink,
+  files: File[],
+  uploader: { name?: string; email?: string; category?: string; notes?: string }
+) {
+  if (files.length === 0) {
+    throw new PortalLinkError('Please choose at least one file to upload')
+  }
+  if (files.length > MAX_FILES_PER_UPLOAD) {
+    throw new PortalLinkError(`You can upload up to ${MAX_FILES_PER_UPLOAD} files at a time`)
+  }
+
+  const validationErrors = files.map(validatePortalFile).filter((error): error is string => !!error)
+  if (validationErrors.length > 0) {
+    throw new PortalLinkError(validationErrors.join('; '))
+  }
+
+  const category = uploader.category && uploader.category in DOCUMENT_CATEGORIES
+    ? uploader.category
+    : 'OTHER'
+
+  const uploadDir = path.join(
+    process.env.UPLOAD_DIR || './uploads',
+    'client-documents',
+    portalLink.clientId
+  )
+  await mkdir(uploadDir, { recursive: true })
+
+  const documents = []
+  for (const file of files) {
+    const storedName = `${Date.now()}-${randomBytes(6).toString('hex')}-${sanitiseFileName(file.name)}`
+    const filePath = path.join(uploadDir, storedName)
+    await writeFile(filePath, Buffer.from(await file.arrayBuffer()))
+
+    documents.push(await db.clientDocument.create({
+      data: {
+        fileName: file.name,
+        filePath,
+        fileSize: file.size,
+        mimeType: file.type || 'application/octet-stream',
+        category,
+        clientId: portalLink.clientId,
+        workflowType: portalLink.workflow.workflowType,
+        workflowId: portalLink.workflow.workflowId,
+        portalLinkId: portalLink.id,
+        uploadedByName: uploader.name?.trim() || null,
+        uploadedByEmail: uploader.email?.trim() || null,
+        notes: uploader.notes?.trim() || null
+      }
+    }))
+  }
+
+  await db.clientPortalLink.update({
+    where: { id: portalLink.id },
+    data: { lastAccessedAt: new Date() }
+  })
+
+  const uploaderName = uploader.name?.trim() || portalLink.contactName || 'Client'
+  const stageAdvanced = await markPaperworkReceivedByClient(
+    portalLink.workflow,
+    uploaderName,
+    uploader.email?.trim() || '',
+    documents.length
+  )
+
+  await logActivity({
+    action: 'CLIENT_DOCUMENTS_UPLOADED',
+    clientId: portalLink.clientId,
+    details: {
+      companyName: portalLink.companyName,
+      workflowType: portalLink.workflow.workflowType,
+      workflowId: portalLink.workflow.workflowId,
+      period: portalLink.workflow.periodLabel,
+      fileCount: documents.length,
+      fileNames: documents.map(document => document.fileName),
+      uploadedBy: uploaderName,
+      stageAdvanced
+    }
+  })
+
+  await notifyAssigneeOfUpload(portalLink, documents.length, stageAdvanced).catch(error => {
+    console.error('❌ Failed to send client upload notification:', error)
+    // Don't fail the upload if notifications fail
+  })
+
+  return { documents, stageAdvanced }
+}
+
+/**
+ * Move a workflow that is waiting on paperwork to PAPERWORK_RECEIVED
+ * History entries have no userId and are attributed to the client by name. The stage only
+ * changes if it is still the one we read, so a move by staff in the meantime is left alone.
+ *
+ * @returns true if the stage was changed
+ */
+async function markPaperworkReceivedByClient(
+  workflow: PortalWorkflowSummary,
+  clientName: string,
+  clientEmail: string,
+  fileCount: number
+): Promise<boolean> {
+  const fromStage = workflow.currentStage
+  if (!isAwaitingPaperwork(fromStage)) {
+    return false
+  }
+
+  const now = new Date()
+  const attributedName = `${clientName} (Client)`
+  const notes = `Paperwork uploaded by client via document portal (${fileCount} file${fileCount === 1 ? '' : 's'})`
+  const milestoneData = {
+    paperworkReceivedDate: now,
+    paperworkReceivedByUserId: null,
+    paperworkReceivedByUserName: attributedName
+  }
+  const historyData = {
+    fromStage,
+    toStage: 'PAPERWORK_RECEIVED' as const,
+    stageChangedAt: now,
+    userId: null,
+    userName: attributedName,
+    userEmail: clientEmail,
+    userRole: 'CLIENT',
+    notes
+  }
+
+  if (workflow.workflowType === 'VAT') {
+    return db.$transaction(async (tx) => {
+      const { count } = await tx.vATQuarter.updateMany({
+        where: { id: workflow.workflowId, currentStage: fromStage },
+        data: { currentStage: 'PAPERWORK_RECEIVED', ...milestoneData }
+      })
+      if (count === 0) return false
+
+      const lastHistory = await tx.vATWorkflowHistory.findFirst({
+        where: { vatQuarterId: workflow.workflowId },
+        orderBy: { createdAt: 'desc' }
+      })
+      await tx.vATWorkflowHistory.create({
+        data: {
+          ...historyData,
+          vatQuarterId: workflow.workflowId,
+          daysInPreviousStage: lastHistory ? calculateDaysBetween(lastHistory.createdAt, now) : null
+        }
+      })
+      return true
+    })
+  }
+
+  if (workflow.workflowType === 'LTD') {
+    return db.$transaction(async (tx) => {
+      const { count } = await tx.ltdAccountsWorkflow.updateMany({
+        where: { id: workflow.workflowId, currentStage: fromStage },
+        data: { currentStage: 'PAPERWORK_RECEIVED', ...milestoneData }
+      })
+      if (count === 0) return false
+
+      const lastHistory = await tx.ltdAccountsWorkflowHistory.findFirst({
+        where: { ltdAccountsWorkflowId: workflow.workflowId },
+        orderBy: { createdAt: 'desc' }
+      })
+      await tx.ltdAccountsWorkflowHistory.create({
+        data: {
+          ...historyData,
+          ltdAccountsWorkflowId: workflow.workflowId,
+          daysInPreviousStage: lastHistory ? calculateDaysBetween(lastHistory.createdAt, now) : null
+        }
+      })
+      return true
+    })
+  }
+
+  return db.$transaction(async (tx) => {
+    const { count } = await tx.nonLtdAccountsWorkflow.updateMany({
+      where: { id: workflow.workflowId, currentStage: fromStage },
+      data: { currentStage: 'PAPERWORK_RECEIVED', ...milestoneData }
+    })
+    if (count === 0) return false
+
+    const lastHistory = await tx.nonLtdAccountsWorkflowHistory.findFirst({
+      where: { nonLtdAccountsWorkflowId: workflow.workflowId },
+      orderBy: { createdAt: 'desc' }
+    })
+    await tx.nonLtdAccountsWorkflowHistory.create({
+      data: {
+        ...historyData,
+        nonLtdAccountsWorkflowId: workflow.workflowId,
+        daysInPreviousStage: lastHistory ? calculateDaysBetween(lastHistory.createdAt, now) : null
+      }
+    })
+    return true
+  })
+}
+
+/**
+ * Let the workflow assignee know the client has uploaded paperwork
+ */
+async function notifyAssigneeOfUpload(
+  portalLink: ResolvedPortalLink,
+  fileCount: number,
+  stageAdvanced: boolean
+) {
+  const { workflowType, workflowId } = portalLink.workflow
+
+  const assignedUserId = workflowType === 'VAT'
+    ? (await db.vATQuarter.findUnique({ where: { id: workflowId }, select: { assignedUserId: true } }))?.assignedUserId
+    : workflowType === 'LTD'
+      ? (await db.ltdAccountsWorkflow.findUnique({ where: { id: workflowId }, select: { assignedUserId: true } }))?.assignedUserId
+      : (await db.nonLtdAccountsWorkflow.findUnique({ where: { id: workflowId }, select: { assignedUserId: true } }))?.assignedUserId
+
+  if (!assignedUserId) return
+
+  await createNotification({
+    userId: assignedUserId,
+    category: workflowType === 'VAT' ? 'VAT' : 'ACCOUNTS',
+    type: 'CLIENT_DOCUMENTS_UPLOADED',
+    title: 'Client Paperwork Uploaded',
+    message: `${portalLink.companyName} uploaded ${fileCount} file${fileCount === 1 ? '' : 's'} for ${portalLink.workflow.periodLabel}${stageAdvanced ? ' - moved to Paperwork Received' : ''}`,
+    clientId: portalLink.clientId,
+    relatedId: workflowId
+  })
+}
+
+/**
+ * Whether a user is assigned to a client, its company accounts or any of its VAT quarters
+ * Users without clients.view_all only see documents for clients they are assigned to.
+ */
+export async function isAssignedToClient(clientId: string, userId: string): Promise<boolean> {
+  const client = await db.client.findFirst({
+    where: {
+      id: clientId,
+      OR: [
+        { assignedUserId: userId },
+        { ltdCompanyAssignedUserId: userId },
+        { nonLtdCompanyAssignedUserId: userId },
+        { vatQuartersWorkflow: { some: { assignedUserId: userId } } }
+      ]
+    },
+    select: { id: true }
+  })
+  return !!client
+}
+
+export function sanitiseFileName(fileName: string): string {
+  const base = path.basename(fileName).replace(/[^a-zA-Z0-9._-]/g, '_')
+  return base.slice(-100) || 'upload'
+}
+
+function formatPortalDate(date: Date): string {
+  return date.toLocaleDateString('en-GB', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'Europe/London'
+  })
+}
@@ -0,0 +1,174 @@
+/**
+ * Confirmation Statement Workflow Client-Safe Utilities
+ *
+ * Confirmation statements are filed with Companies House at least once every 12 months:
+ * - Statement date: the made-up-to date (end of the review period)
+ * - Filing due: 14 days after the statement date (this is Client.nextConfirmationDue)
+ */
+
+import { addDays, subDays, isValid } from 'date-fns'
+
+export const CS_FILING_WINDOW_DAYS = 14
+
+// Confirmation Statement Workflow Stage Order (sequential progression)
+export const CS_WORKFLOW_STAGE_ORDER = [
+  'WAITING_FOR_STATEMENT_DATE',
+  'DETAILS_REVIEW_PENDING',
+  'CONFIRMATION_REQUESTED',
+  'CLIENT_CONFIRMED',
+  'CHANGES_FILED',
+  'FILED_TO_COMPANIES_HOUSE',
+  'CLIENT_SELF_FILING'
+] as const
+
+export type ConfirmationStatementStage = typeof CS_WORKFLOW_STAGE_ORDER[number]
+
+// Stages that close the workflow
+export const CS_COMPLETED_STAGES: readonly string[] = ['FILED_TO_COMPANIES_HOUSE', 'CLIENT_SELF_FILING']
+
+export const CS_WORKFLOW_STAGES: Record<ConfirmationStatementStage, { label: string; shortLabel: string; color: string }> = {
+  WAITING_FOR_STATEMENT_DATE: {
+    label: 'Waiting for statement date',
+    shortLabel: 'Waiting',
+    color: 'bg-gray-100 text-gray-800'
+  },
+  DETAILS_REVIEW_PENDING: {
+    label: 'Review Companies House details',
+    shortLabel: 'Review details',
+    color: 'bg-amber-100 text-amber-800'
+  },
+  CONFIRMATION_REQUESTED: {
+    label: 'Confirmation requested from client',
+    shortLabel: 'Requested',
+    color: 'bg-orange-100 text-orange-800'
+  },
+  CLIENT_CONFIRMED: {
+    label: 'Client confirmed details',
+    shortLabel: 'Confirmed',
+    color: 'bg-blue-100 text-blue-800'
+  },
+  CHANGES_FILED: {
+    label: 'Officer / PSC / share changes filed',
+    shortLabel: 'Changes filed',
+    color: 'bg-indigo-100 text-indigo-800'
+  },
+  FILED_TO_COMPANIES_HOUSE: {
+    label: 'Filed to Companies House',
+    shortLabel: 'Filed',
+    color: 'bg-green-100 text-green-800'
+  },
+  CLIENT_SELF_FILING: {
+    label: 'Client self-filing',
+    shortLabel: 'Self-filing',
+    color: 'bg-emerald-100 text-emerald-800'
+  }
+}
+
+/**
+ * Milestone field mapping for each stage (date, user id and user name fields)
+ */
+export const CS_MILESTONE_FIELDS: Partial<Record<ConfirmationStatementStage, { dateField: string; userField: string; nameField: string }>> = {
+  DETAILS_REVIEW_PENDING: {
+    dateField: 'reviewStartedDate',
+    userField: 'reviewStartedByUserId',
+    nameField: 'reviewStartedByUserName'
+  },
+  CONFIRMATION_REQUESTED: {
+    dateField: 'confirmationRequestedDate',
+    userField: 'confirmationRequestedByUserId',
+    nameField: 'confirmationRequestedByUserName'
+  },
+  CLIENT_CONFIRMED: {
+    dateField: 'clientConfirmedDate',
+    userField: 'clientConfirmedByUserId',
+    nameField: 'clientConfirmedByUserName'
+  },
+  CHANGES_FILED: {
+    dateField: 'changesFiledDate',
+    userField: 'changesFiledByUserId',
+    nameField: 'changesFiledByUserName'
+  },
+  FILED_TO_COMPANIES_HOUSE: {
+    dateField: 'filedDate',
+    userField: 'filedByUserId',
+    nameField: 'filedByUserName'
+  },
+  CLIENT_SELF_FILING: {
+    dateField: 'clientSelfFilingDate',
+    userField: 'clientSelfFilingByUserId',
+    nameField: 'clientSelfFilingByUserName'
+  }
+}
+
+export function isConfirmationStatementStage(stage: string): stage is ConfirmationStatementStage {
+  return (CS_WORKFLOW_STAGE_ORDER as readonly string[]).includes(stage)
+}
+
+export function getConfirmationStatementStageLabel(stage: string): string {
+  return isConfirmationStatementStage(stage) ? CS_WORKFLOW_STAGES[stage].label : stage
+}
+
+/**
+ * Derive the statement (made-up-to) date from the Companies House due date
+ */
+export function calculateStatementDate(filingDueDate: Date): Date {
+  if (!isValid(filingDueDate)) {
+    throw new Error('Invalid confirmation statement due date provided')
+  }
+  return subDays(filingDueDate, CS_FILING_WINDOW_DAYS)
+}
+
+/**
+ * Calculate the filing due date for a statement date (14 days later)
+ */
+export function calculateConfirmationStatementDue(statementDate: Date): Date {
+  if (!isValid(statementDate)) {
+    throw new Error('Invalid statement date provided')
+  }
+  return addDays(statementDate, CS_FILING_WINDOW_DAYS)
+}
+
+/**
+ * Initial stage for a new workflow: staff start reviewing once the statement date arrives
+ */
+export function getInitialConfirmationStatementStage(statementDate: Date, today: Date = new Date()): ConfirmationStatementStage {
+  return today >= statementDate ? 'DETAILS_REVIEW_PENDING' : 'WAITING_FOR_STATEMENT_DATE'
+}
+
+/**
+ * Build the milestone update for a stage change
+ * Moving backwards clears the milestones of the stages being undone
+ */
+export function getConfirmationStatementMilestoneUpdate(
+  newStage: ConfirmationStatementStage,
+  userId: string | null,
+  userName: string,
+  currentStage?: string
+): Record<string, Date | string | null> {
+  const updateData: Record<string, Date | string | null> = {}
+  const milestone = CS_MILESTONE_FIELDS[newStage]
+
+  if (milestone) {
+    updateData[milestone.dateField] = new Date()
+    updateData[milestone.userField] = userId
+    updateData[milestone.nameField] = userName
+  }
+
+  if (currentStage) {
+    const currentIndex = CS_WORKFLOW_STAGE_ORDER.indexOf(currentStage as ConfirmationStatementStage)
+    const newIndex = CS_WORKFLOW_STAGE_ORDER.indexOf(newStage)
+
+    if (currentIndex > newIndex) {
+      CS_WORKFLOW_STAGE_ORDER.slice(newIndex + 1, currentIndex + 1).forEach(futureStage => {
+        const futureMilestone = CS_MILESTONE_FIELDS[futureStage]
+        if (futureMilestone) {
+          updateData[futureMilestone.dateField] = null
+          updateData[futureMilestone.userField] = null
+          updateData[futureMilestone.nameField] = null
+        }
+      })
+    }
+  }
+
+  return updateData
+}
@@ -0,0 +1,285 @@
+/**
+ * Cover Plan Server-Side Utilities
+ *
+ * While someone is on leave, their incomplete VAT quarters and accounts workflows that fall due
+ * before they are back (plus COVER_PLAN_BUFFER_DAYS) are handed to the best available colleague,
+ * ranked by the assignment engine. Each handover is recorded on the plan so it can go back to them
+ * when they return - either from the leave page or from the daily scheduled run. Work the cover
+ * person finished, or that someone else reassigned in the meantime, stays where it is.
+ */
+
+import { db } from '@/lib/db'
+import { logActivity } from '@/lib/activity-logger'
+import {
+  explainChoice,
+  type AssignableWorkType,
+  type AssignmentProposal,
+  type CandidateScore
+} from '@/lib/assignment-engine'
+import {
+  getDueWorkFor,
+  proposeCover,
+  reassignWorkflow,
+  sendAssignmentEmail,
+  SYSTEM_ACTOR,
+  type AssignmentActor
+} from '@/lib/assignment-service'
+import { COVER_PLAN_BUFFER_DAYS, toLeaveDay } from '@/lib/staff-leave'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export class CoverPlanError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'CoverPlanError'
+  }
+}
+
+export interface CoverPlanPreview {
+  leaveId: string
+  userId: string
+  userName: string
+  startDate: string
+  endDate: string
+  // Work due up to this date is included
+  coversUntil: string
+  proposals: AssignmentProposal[]
+}
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-GB', { timeZone: 'UTC' })
+
+const COVER_PLAN_INCLUDE = {
+  user: { select: { id: true, name: true } },
+  items: { orderBy: { dueDate: 'asc' as const } }
+}
+
+/**
+ * Suggested cover for each piece of work due while someone is on leave
+ */
+export async function previewCoverPlan(leaveId: string): Promise<CoverPlanPreview> {
+  const leave = await db.staffLeave.findUnique({
+    where: { id: leaveId },
+    include: { user: { select: { id: true, name: true } } }
+  })
+  if (!leave) {
+    throw new CoverPlanError('Leave not found', 404)
+  }
+  if (leave.endDate < toLeaveDay(new Date())) {
+    throw new CoverPlanError('This leave has already finished')
+  }
+
+  const existing = await db.coverPlan.findFirst({ where: { leaveId, status: 'ACTIVE' }, select: { id: true } })
+  if (existing) {
+    throw new CoverPlanError('Cover is already in place for this leave', 409)
+  }
+
+  const coversUntil = new Date(leave.endDate.getTime() + COVER_PLAN_BUFFER_DAYS * DAY_MS)
+  const work = await getDueWorkFor(leave.userId, coversUntil)
+
+  return {
+    leaveId: leave.id,
+    userId: leave.user.id,
+    userName: leave.user.name,
+    startDate: leave.startDate.toISOString(),
+    endDate: leave.endDate.toISOString(),
+    coversUntil: coversUntil.toISOString(),
+    proposals: await proposeCover(work, leave.userId)
+  }
+}
+
+/**
+ * Hand someone's due-soon work to cover while they are on leave
+ * @param choices - Cover picked instead of the suggestion, keyed by workflow id
+ */
+export async function createCoverPlan(
+  leaveId: string,
+  actor: AssignmentActor,
+  choices: Record<string, string> = {}
+) {
+  const preview = await previewCoverPlan(leaveId)
+  const withCover = preview.proposals
+    .map(proposal => {
+      const options = [proposal.recommended, ...proposal.alternatives].filter((option): option is CandidateScore => !!option)
+      const candidate = options.find(option => option.userId === choices[proposal.workflowId]) || proposal.recommended
+      return { proposal, candidate, others: options.filter(option => option.userId !== candidate?.userId) }
+    })
+
+  if (withCover.length === 0) {
+    throw new CoverPlanError(`${preview.userName} has nothing due before ${formatDate(new Date(preview.coversUntil))}`)
+  }
+
+  const plan = await db.coverPlan.create({
+    data: {
+      userId: preview.userId,
+      leaveId,
+      startDate: new Date(preview.startDate),
+      endDate: new Date(preview.endDate),
+      createdById: actor === SYSTEM_ACTOR ? null : actor.id,
+      createdByName: actor.name
+    }
+  })
+
+  const skipped: Array<{ workflowId: string; companyName: string; reason: string }> = []
+
+  for (const { proposal, candidate, others } of withCover) {
+    if (!candidate) {
+      skipped.push({ workflowId: proposal.workflowId, companyName: proposal.companyName, reason: proposal.explanation })
+      continue
+    }
+
+    const explanation = explainChoice(candidate, others)
+    const moved = await reassignWorkflow(
+      proposal.workType,
+      proposal.workflowId,
+      preview.userId,
+      candidate.userId,
+      actor,
+      `Covering for ${preview.userName}, on leave until ${formatDate(new Date(preview.endDate))}. ` +
+        `Goes back to ${preview.userName} when they return. ${explanation}`
+    )
+    if (!moved) {
+      skipped.push({ workflowId: proposal.workflowId, companyName: proposal.companyName, reason: 'Reassigned or completed in the meantime' })
+      continue
+    }
+
+    await db.coverPlanItem.create({
+      data: {
+        coverPlanId: plan.id,
+        workType: proposal.workType,
+        workflowId: proposal.workflowId,
+        clientId: proposal.clientId,
+        companyName: proposal.companyName,
+        periodLabel: proposal.periodLabel,
+        dueDate: new Date(proposal.dueDate),
+        coverUserId: candidate.userId,
+        coverUserName: candidate.name
+      }
+    })
+
+    sendAssignmentEmail(proposal, candidate.userId, actor, preview.userName)
+  }
+
+  const created = await db.coverPlan.findUniqueOrThrow({ where: { id: plan.id }, include: COVER_PLAN_INCLUDE })
+  if (created.items.length === 0) {
+    await db.coverPlan.delete({ where: { id: plan.id } })
+    throw new CoverPlanError(`None of ${preview.userName}'s work could be covered: ${skipped.map(item => `${item.companyName} (${item.reason})`).join(', ')}`)
+  }
+
+  await logActivity({
+    action: 'COVER_PLAN_CREATED',
+    userId: actor === SYSTEM_ACTOR ? undefined : actor.id,
+    details: {
+      coverPlanId: plan.id,
+      absentUserId: preview.userId,
+      absentUserName: preview.userName,
+      startDate: preview.startDate.slice(0, 10),
+      endDate: preview.endDate.slice(0, 10),
+      items: created.items.map(item => ({
+        workType: item.workType,
+        companyName: item.companyName,
+        periodLabel: item.periodLabel,
+        coverUserName: item.coverUserName
+      })),
+      skipped
+    }
+  })
+
+  return { plan: created, skipped }
+}
+
+/**
+ * Give covered work back to the person who was away
+ * Items the cover person completed, or that were reassigned again during cover, are left alone
+ * and noted on the plan.
+ * @param actor - Who brought them back early; omitted for the scheduled run
+ */
+export async function revertCoverPlan(coverPlanId: string, actor: AssignmentActor = SYSTEM_ACTOR) {
+  const plan = await db.coverPlan.findUnique({ where: { id: coverPlanId }, include: COVER_PLAN_INCLUDE })
+  if (!plan) {
+    throw new CoverPlanError('Cover plan not found', 404)
+  }
+  if (plan.status !== 'ACTIVE') {
+    throw new CoverPlanError('This cover plan has already been reverted', 409)
+  }
+
+  let returned = 0
+  for (const item of plan.items.filter(item => !item.revertedAt && !item.revertNote)) {
+    const moved = await reassignWorkflow(
+      item.workType as AssignableWorkType,
+      item.workflowId,
+      item.coverUserId,
+      plan.userId,
+      actor,
+      `Back to ${plan.user.name} after cover by ${item.coverUserName}.`
+    )
+
+    await db.coverPlanItem.update({
+      where: { id: item.id },
+      data: moved
+        ? { revertedAt: new Date() }
+        : { revertNote: 'Completed or reassigned during cover, so left where it is' }
+    })
+
+    if (moved) {
+      returned++
+      sendAssignmentEmail(
+        { workType: item.workType as AssignableWorkType, workflowId: item.workflowId, clientId: item.clientId },
+        plan.userId,
+        actor,
+        item.coverUserName
+      )
+    }
+  }
+
+  const reverted = await db.coverPlan.update({
+    where: { id: plan.id },
+    data: { status: 'REVERTED', revertedAt: new Date() },
+    include: COVER_PLAN_INCLUDE
+  })
+
+  await logActivity({
+    action: 'COVER_PLAN_REVERTED',
+    userId: actor === SYSTEM_ACTOR ? undefined : actor.id,
+    details: {
+      coverPlanId: plan.id,
+      absentUserId: plan.userId,
+      absentUserName: plan.user.name,
+      returned,
+      leftWithCover: plan.items.length - returned,
+      revertedBy: actor.name
+    }
+  })
+
+  return reverted
+}
+
+/**
+ * Revert every active cover plan whose leave has finished
+ */
+export async function revertFinishedCoverPlans() {
+  const plans = await db.coverPlan.findMany({
+    where: { status: 'ACTIVE', endDate: { lt: toLeaveDay(new Date()) } },
+    select: { id: true }
+  })
+
+  const results = []
+  for (const plan of plans) {
+    results.push(await revertCoverPlan(plan.id))
+  }
+  return results
+}
+
+/**
+ * Cover plans, newest first
+ */
+export async function getCoverPlans(filter: { status?: string; userId?: string } = {}) {
+  return db.coverPlan.findMany({
+    where: {
+      ...(filter.status ? { status: filter.status } : {}),
+      ...(filter.userId ? { userId: filter.userId } : {})
+    },
+    include: COVER_PLAN_INCLUDE,
+    orderBy: { startDate: 'desc' },
+    take: 50
+  })
+}
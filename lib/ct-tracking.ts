@@ -259,4 +259,109 @@ export function getCTTrackingSummary(data: Partial<CTTrackingData>): {
       'Period not set',
     warnings
   }
-} 
\ No newline at end of file
+} 
+/**
+ * CT600 workflow stages (one CorporationTaxWorkflow per accounting period)
+ */
+export const CT_WORKFLOW_STAGE_ORDER = [
+  'WAITING_FOR_PERIOD_END',
+  'COMPUTATION_IN_PROGRESS',
+  'REVIEW_BY_PARTNER',
+  'SENT_TO_CLIENT',
+  'APPROVED_BY_CLIENT',
+  'FILED_TO_HMRC',
+  'CLIENT_SELF_FILING'
+] as const
+
+export type CTWorkflowStage = typeof CT_WORKFLOW_STAGE_ORDER[number]
+
+export const CT_COMPLETED_STAGES: readonly string[] = ['FILED_TO_HMRC', 'CLIENT_SELF_FILING']
+
+export const CT_WORKFLOW_STAGES: Record<CTWorkflowStage, { label: string; color: string }> = {
+  WAITING_FOR_PERIOD_END: { label: 'Waiting for period end', color: 'bg-gray-100 text-gray-800' },
+  COMPUTATION_IN_PROGRESS: { label: 'Computation in progress', color: 'bg-blue-100 text-blue-800' },
+  REVIEW_BY_PARTNER: { label: 'Review by partner', color: 'bg-indigo-100 text-indigo-800' },
+  SENT_TO_CLIENT: { label: 'Sent to client for approval', color: 'bg-cyan-100 text-cyan-800' },
+  APPROVED_BY_CLIENT: { label: 'Approved by client', color: 'bg-teal-100 text-teal-800' },
+  FILED_TO_HMRC: { label: 'CT600 filed to HMRC', color: 'bg-green-100 text-green-800' },
+  CLIENT_SELF_FILING: { label: 'Client self-filing', color: 'bg-emerald-100 text-emerald-800' }
+}
+
+export const CT_MILESTONE_FIELDS: Partial<Record<CTWorkflowStage, { dateField: string; userField: string; nameField: string }>> = {
+  COMPUTATION_IN_PROGRESS: {
+    dateField: 'computationStartedDate',
+    userField: 'computationStartedByUserId',
+    nameField: 'computationStartedByUserName'
+  },
+  REVIEW_BY_PARTNER: {
+    dateField: 'partnerReviewDate',
+    userField: 'partnerReviewByUserId',
+    nameField: 'partnerReviewByUserName'
+  },
+  SENT_TO_CLIENT: {
+    dateField: 'sentToClientDate',
+    userField: 'sentToClientByUserId',
+    nameField: 'sentToClientByUserName'
+  },
+  APPROVED_BY_CLIENT: {
+    dateField: 'clientApprovedDate',
+    userField: 'clientApprovedByUserId',
+    nameField: 'clientApprovedByUserName'
+  },
+  FILED_TO_HMRC: {
+    dateField: 'filedToHMRCDate',
+    userField: 'filedToHMRCByUserId',
+    nameField: 'filedToHMRCByUserName'
+  },
+  CLIENT_SELF_FILING: {
+    dateField: 'clientSelfFilingDate',
+    userField: 'clientSelfFilingByUserId',
+    nameField: 'clientSelfFilingByUserName'
+  }
+}
+
+export function isCTWorkflowStage(stage: string): stage is CTWorkflowStage {
+  return (CT_WORKFLOW_STAGE_ORDER as readonly string[]).includes(stage)
+}
+
+export function getCTWorkflowStageLabel(stage: string): string {
+  return isCTWorkflowStage(stage) ? CT_WORKFLOW_STAGES[stage].label : stage
+}
+
+/**
+ * Build the milestone update for a CT workflow stage change
+ * Moving backwards clears the milestones of the stages being undone
+ */
+export function getCTMilestoneUpdate(
+  newStage: CTWorkflowStage,
+  userId: string | null,
+  userName: string,
+  currentStage?: string
+): Record<string, Date | string | null> {
+  const updateData: Record<string, Date | string | null> = {}
+  const milestone = CT_MILESTONE_FIELDS[newStage]
+
+  if (milestone) {
+    updateData[milestone.dateField] = new Date()
+    updateData[milestone.userField] = userId
+    updateData[milestone.nameField] = userName
+  }
+
+  if (currentStage) {
+    const currentIndex = CT_WORKFLOW_STAGE_ORDER.indexOf(currentStage as CTWorkflowStage)
+    const newIndex = CT_WORKFLOW_STAGE_ORDER.indexOf(newStage)
+
+    if (currentIndex > newIndex) {
+      CT_WORKFLOW_STAGE_ORDER.slice(newIndex + 1, currentIndex + 1).forEach(futureStage => {
+        const futureMilestone = CT_MILESTONE_FIELDS[futureStage]
+        if (futureMilestone) {
+          updateData[futureMilestone.dateField] = null
+          updateData[futureMilestone.userField] = null
+          updateData[futureMilestone.nameField] = null
+        }
+      })
+    }
+  }
+
+  return updateData
+}
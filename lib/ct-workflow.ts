@@ -0,0 +1,195 @@
+/**
+ * Corporation Tax (CT600) Workflow Service
+ *
+ * Tracks CT600 work per accounting period instead of a single status on the client row:
+ * - Period start/end from the client's CT period, falling back to calculateCTPeriod
+ * - Payment due 9 months and 1 day after period end
+ * - CT600 filing due 12 months after period end (or the manual override)
+ *
+ * Client.corporationTaxStatus is kept in sync for the client's current period so existing
+ * screens that read it keep working.
+ */
+
+import { db } from '@/lib/db'
+import {
+  calculateCorporationTaxFilingDeadline,
+  calculateCorporationTaxPaymentDeadline
+} from '@/lib/deadline-utils'
+import {
+  calculateCTPeriod,
+  CT_COMPLETED_STAGES,
+  getCTMilestoneUpdate,
+  getCTWorkflowStageLabel,
+  type CTWorkflowStage
+} from '@/lib/ct-tracking'
+
+export interface CTWorkflowActor {
+  id: string | null
+  name: string
+  email: string
+  role: string
+}
+
+interface CTPeriodSource {
+  corporationTaxPeriodStart: Date | null
+  corporationTaxPeriodEnd: Date | null
+  lastAccountsMadeUpTo: Date | null
+  nextYearEnd: Date | null
+}
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000
+
+function isSameDay(a: Date, b: Date): boolean {
+  return Math.abs(a.getTime() - b.getTime()) < ONE_DAY_MS
+}
+
+/**
+ * Resolve the client's current CT accounting period
+ * Priority: stored CT period → calculateCTPeriod(last accounts) → next year end
+ */
+export function resolveCurrentCTPeriod(client: CTPeriodSource): { periodStart: Date; periodEnd: Date } | null {
+  if (client.corporationTaxPeriodStart && client.corporationTaxPeriodEnd) {
+    return {
+      periodStart: new Date(client.corporationTaxPeriodStart),
+      periodEnd: new Date(client.corporationTaxPeriodEnd)
+    }
+  }
+
+  const { periodStart, periodEnd } = calculateCTPeriod(client.lastAccountsMadeUpTo)
+  if (periodStart && periodEnd) {
+    return { periodStart, periodEnd }
+  }
+
+  if (client.nextYearEnd) {
+    const end = new Date(client.nextYearEnd)
+    const start = new Date(end)
+    start.setFullYear(start.getFullYear() - 1)
+    start.setDate(start.getDate() + 1)
+    return { periodStart: start, periodEnd: end }
+  }
+
+  return null
+}
+
+/**
+ * Make sure a CT workflow exists for the client's current accounting period
+ * @returns The workflow, or null when the client has no CT period to track
+ */
+export async function ensureCurrentCTWorkflow(clientId: string) {
+  const client = await db.client.findUnique({
+    where: { id: clientId },
+    select: {
+      id: true,
+      companyType: true,
+      corporationTaxPeriodStart: true,
+      corporationTaxPeriodEnd: true,
+      lastAccountsMadeUpTo: true,
+      nextYearEnd: true,
+      manualCTDueOverride: true,
+      ctDueSource: true,
+      ltdCompanyAssignedUserId: true
+    }
+  })
+
+  if (!client || client.companyType !== 'LIMITED_COMPANY') {
+    return null
+  }
+
+  const period = resolveCurrentCTPeriod(client)
+  if (!period) {
+    return null
+  }
+
+  const filingDueDate = client.ctDueSource === 'MANUAL' && client.manualCTDueOverride
+    ? client.manualCTDueOverride
+    : calculateCorporationTaxFilingDeadline(period.periodEnd)
+
+  return db.corporationTaxWorkflow.upsert({
+    where: {
+      clientId_periodEnd: {
+        clientId: client.id,
+        periodEnd: period.periodEnd
+      }
+    },
+    update: {},
+    create: {
+      clientId: client.id,
+      periodStart: period.periodStart,
+      periodEnd: period.periodEnd,
+      paymentDueDate: calculateCorporationTaxPaymentDeadline(period.periodEnd),
+      filingDueDate,
+      assignedUserId: client.ltdCompanyAssignedUserId
+    }
+  })
+}
+
+/**
+ * Move a CT workflow to a new stage, recording history and syncing the client status
+ */
+export async function updateCTWorkflowStage(
+  workflowId: string,
+  newStage: CTWorkflowStage,
+  actor: CTWorkflowActor,
+  notes?: string
+) {
+  const workflow = await db.corporationTaxWorkflow.findUnique({
+    where: { id: workflowId },
+    include: {
+      client: {
+        select: {
+          id: true,
+          corporationTaxPeriodEnd: true
+        }
+      },
+      workflowHistory: {
+        orderBy: { stageChangedAt: 'desc' },
+        take: 1
+      }
+    }
+  })
+
+  if (!workflow) {
+    throw new Error('Corporation tax workflow not found')
+  }
+
+  const isCompleted = CT_COMPLETED_STAGES.includes(newStage)
+  const lastChange = workflow.workflowHistory[0]?.stageChangedAt || workflow.createdAt
+  const isCurrentClientPeriod = !!workflow.client.corporationTaxPeriodEnd &&
+    isSameDay(workflow.client.corporationTaxPeriodEnd, workflow.periodEnd)
+
+  const [updated] = await db.$transaction([
+    db.corporationTaxWorkflow.update({
+      where: { id: workflow.id },
+      data: {
+        currentStage: newStage,
+        isCompleted,
+        ...getCTMilestoneUpdate(newStage, actor.id, actor.name, workflow.currentStage)
+      }
+    }),
+    db.corporationTaxWorkflowHistory.create({
+      data: {
+        corporationTaxWorkflowId: workflow.id,
+        fromStage: workflow.currentStage,
+        toStage: newStage,
+        daysInPreviousStage: Math.floor((Date.now() - lastChange.getTime()) / ONE_DAY_MS),
+        userId: actor.id,
+        userName: actor.name,
+        userEmail: actor.email,
+        userRole: actor.role,
+        notes: notes || `Stage updated to ${getCTWorkflowStageLabel(newStage)}`
+      }
+    }),
+    ...(isCurrentClientPeriod ? [
+      db.client.update({
+        where: { id: workflow.client.id },
+        data: {
+          corporationTaxStatus: isCompleted ? 'FILED' : 'PENDING',
+          lastCTStatusUpdate: new Date(),
+          ctStatusUpdatedBy: actor.id
+        }
+      })
+    ] : [])
+  ])
+
+  return { previousStage: workflow.currentStage, workflow: updated }
+}
@@ -2,15 +2,18 @@
  * Deadline Utilities Library
  * 
  * This library provides utilities for calculating deadlines and managing assignments
- * across different types of work (VAT, Accounts, Corporation Tax, Confirmation Statements).
+ * across different types of work (VAT, Accounts, Corporation Tax, Confirmation Statements, Self Assessment, Payroll, CIS).
  * 
  * CRITICAL SYSTEM ARCHITECTURE NOTES:
  * 
  * 1. ASSIGNMENT SYSTEM ARCHITECTURE (Post-Cleanup):
  *    - VAT: Uses QUARTER-LEVEL ASSIGNMENTS ONLY via VATQuarter.assignedUserId
  *    - Accounts: Uses Ltd company assignments + general assignment fallback
- *    - Corporation Tax: Uses Ltd company assignments + general assignment fallback
- *    - Confirmation Statements: Uses general assignment only
+ *    - Corporation Tax: Uses CorporationTaxWorkflow assignment + Ltd company assignments + general assignment fallback
+ *    - Confirmation Statements: Uses ConfirmationStatementWorkflow assignment + general assignment fallback
+ *    - Self Assessment: Uses SelfAssessmentWorkflow assignment + Non-Ltd assignments + general assignment fallback
+ *    - Payroll: Uses PayrollRun assignment + general assignment fallback
+ *    - CIS: Uses CisReturn assignment + general assignment fallback
  * 
  * 2. VAT ASSIGNMENT LOGIC (Simplified):
  *    - NO client-level VAT assignments (Client.vatAssignedUserId REMOVED)
@@ -20,14 +23,18 @@
  * 
  * 3. ASSIGNMENT PRIORITY SYSTEM:
  *    - VAT: VATQuarter.assignedUser ONLY (no fallback)
- *    - Accounts/CT: Client.ltdCompanyAssignedUser → Client.assignedUser
- *    - Confirmation: Client.assignedUser ONLY
+ *    - Accounts: Client.ltdCompanyAssignedUser → Client.assignedUser
+ *    - CT: CorporationTaxWorkflow.assignedUser → Client.ltdCompanyAssignedUser → Client.assignedUser
+ *    - Confirmation: ConfirmationStatementWorkflow.assignedUser → Client.assignedUser
+ *    - Self Assessment: SelfAssessmentWorkflow.assignedUser → Client.nonLtdCompanyAssignedUser → Client.assignedUser
+ *    - Payroll: PayrollRun.assignedUser → Client.assignedUser
+ *    - CIS: CisReturn.assignedUser → Client.assignedUser
  * 
  * 4. BUSINESS LOGIC RULES:
  *    - Each deadline type has specific assignment logic
  *    - VAT assignments are completely independent from other work types
  *    - Accounts and Corporation Tax share the same assignment logic
- *    - Confirmation statements use general client assignment only
+ *    - Confirmation statements prefer the matching workflow's assignee
  * 
  * 5. REMOVED FEATURES (Do NOT re-add):
  *    - Client.vatAssignedUserId field references (cleaned up)
@@ -48,10 +55,51 @@ import { format, parseISO, isValid, addDays, isBefore, isAfter, addYears, setMon
 import { db } from '@/lib/db'
 import { getLondonDateStart } from '@/lib/london-time'
 
+// Helper function to find the confirmation statement workflow for a due date
+// Companies House dates can drift by a day across timezones, so match within one day
+function findConfirmationStatementWorkflow(client: any, dueDate: Date) {
+  return client.confirmationStatementWorkflows?.find((w: any) => {
+    if (!w.filingDueDate) return false
+    return Math.abs(new Date(w.filingDueDate).getTime() - dueDate.getTime()) <= 24 * 60 * 60 * 1000
+  })
+}
+
+// Helper function to find the CT600 workflow whose filing deadline matches a due date
+function findCorporationTaxWorkflow(client: any, dueDate: Date) {
+  return client.corporationTaxWorkflows?.find((w: any) => {
+    if (!w.filingDueDate) return false
+    return Math.abs(new Date(w.filingDueDate).getTime() - dueDate.getTime()) <= 24 * 60 * 60 * 1000
+  })
+}
+
+// Helper function to find the SA100 workflow whose online filing deadline matches a due date
+function findSelfAssessmentWorkflow(client: any, dueDate: Date) {
+  return client.selfAssessmentWorkflows?.find((w: any) => {
+    if (!w.onlineFilingDueDate) return false
+    return Math.abs(new Date(w.onlineFilingDueDate).getTime() - dueDate.getTime()) <= 24 * 60 * 60 * 1000
+  })
+}
+
+// Helper function to find the payroll run whose FPS deadline matches a due date
+function findPayrollRun(client: any, dueDate: Date) {
+  return client.payrollRuns?.find((r: any) => {
+    if (!r.fpsDueDate) return false
+    return Math.abs(new Date(r.fpsDueDate).getTime() - dueDate.getTime()) <= 24 * 60 * 60 * 1000
+  })
+}
+
+// Helper function to find the CIS return whose CIS300 deadline matches a due date
+function findCisReturn(client: any, dueDate: Date) {
+  return client.cisReturns?.find((r: any) => {
+    if (!r.dueDate) return false
+    return Math.abs(new Date(r.dueDate).getTime() - dueDate.getTime()) <= 24 * 60 * 60 * 1000
+  })
+}
+
 // Helper function to check if a deadline is completed
 function checkCompletionStatus(
   client: any,
-  type: 'accounts' | 'confirmation' | 'corporation-tax' | 'vat',
+  type: 'accounts' | 'confirmation' | 'corporation-tax' | 'vat' | 'self-assessment' | 'payroll' | 'cis',
   dueDate: Date
 ): { isCompleted: boolean; completedDate?: Date } {
   const today = new Date()
@@ -96,10 +144,47 @@ function checkCompletionStatus(
       }
       
     case 'confirmation':
+      // Check if the confirmation statement workflow for this period is filed
+      const confirmationWorkflow = findConfirmationStatementWorkflow(client, dueDate)
+      const confirmationCompletedDate = confirmationWorkflow?.filedDate || confirmationWorkflow?.clientSelfFilingDate
+      return {
+        isCompleted: confirmationWorkflow?.isCompleted || confirmationWorkflow?.currentStage === 'FILED_TO_COMPANIES_HOUSE' || confirmationWorkflow?.currentStage === 'CLIENT_SELF_FILING' || false,
+        completedDate: confirmationCompletedDate ? new Date(confirmationCompletedDate) : undefined
+      }
+
     case 'corporation-tax':
-      // For now, assume not completed unless specifically marked
-      // TODO: Add completion tracking for CS and CT when workflow is implemented
-      return { isCompleted: false }
+      // Check if the CT600 workflow for this period is filed
+      const ctWorkflow = findCorporationTaxWorkflow(client, dueDate)
+      const ctCompletedDate = ctWorkflow?.filedToHMRCDate || ctWorkflow?.clientSelfFilingDate
+      return {
+        isCompleted: ctWorkflow?.isCompleted || ctWorkflow?.currentStage === 'FILED_TO_HMRC' || ctWorkflow?.currentStage === 'CLIENT_SELF_FILING' || false,
+        completedDate: ctCompletedDate ? new Date(ctCompletedDate) : undefined
+      }
+
+    case 'self-assessment':
+      // Check if the SA100 workflow for this tax year is filed
+      const saWorkflow = findSelfAssessmentWorkflow(client, dueDate)
+      const saCompletedDate = saWorkflow?.filedToHMRCDate || saWorkflow?.clientSelfFilingDate
+      return {
+        isCompleted: saWorkflow?.isCompleted || saWorkflow?.currentStage === 'FILED_TO_HMRC' || saWorkflow?.currentStage === 'CLIENT_SELF_FILING' || false,
+        completedDate: saCompletedDate ? new Date(saCompletedDate) : undefined
+      }
+
+    case 'payroll':
+      // Check if the payroll run paid on this date has been submitted (FPS, plus EPS when required)
+      const payrollRun = findPayrollRun(client, dueDate)
+      return {
+        isCompleted: payrollRun?.isCompleted || false,
+        completedDate: payrollRun?.fpsSubmittedDate ? new Date(payrollRun.fpsSubmittedDate) : undefined
+      }
+
+    case 'cis':
+      // Check if the CIS300 return for the tax month has been submitted
+      const cisReturn = findCisReturn(client, dueDate)
+      return {
+        isCompleted: cisReturn?.isCompleted || false,
+        completedDate: cisReturn?.submittedDate ? new Date(cisReturn.submittedDate) : undefined
+      }
       
     default:
       return { isCompleted: false }
@@ -226,7 +311,7 @@ export interface DeadlineItem {
   clientName: string
   companyNumber?: string
   dueDate: Date
-  type: 'accounts' | 'confirmation' | 'corporation-tax' | 'vat'
+  type: 'accounts' | 'confirmation' | 'corporation-tax' | 'vat' | 'self-assessment' | 'payroll' | 'cis'
   assignedUser?: {
     id: string
     name: string
@@ -255,10 +340,24 @@ export interface DeadlineItem {
  *    - Priority 1: Client.ltdCompanyAssignedUser (Ltd company-specific assignment)
  *    - Priority 2: Client.assignedUser (General client assignment fallback)
  *    - This allows different users to handle Ltd vs Non-Ltd company work
+ *    - Corporation tax first checks the matching CorporationTaxWorkflow.assignedUser
  * 
- * 3. CONFIRMATION STATEMENT ASSIGNMENTS (Simple):
- *    - Uses Client.assignedUser ONLY (general client assignment)
- *    - No special assignment logic needed for confirmation statements
+ * 3. CONFIRMATION STATEMENT ASSIGNMENTS (2-Tier System):
+ *    - Priority 1: ConfirmationStatementWorkflow.assignedUser for the matching period
+ *    - Priority 2: Client.assignedUser (General client assignment fallback)
+ * 
+ * 4. SELF ASSESSMENT ASSIGNMENTS (3-Tier System):
+ *    - Priority 1: SelfAssessmentWorkflow.assignedUser for the matching tax year
+ *    - Priority 2: Client.nonLtdCompanyAssignedUser (Non-Ltd specific assignment)
+ *    - Priority 3: Client.assignedUser (General client assignment fallback)
+ * 
+ * 5. PAYROLL ASSIGNMENTS (2-Tier System):
+ *    - Priority 1: PayrollRun.assignedUser for the matching pay date
+ *    - Priority 2: Client.assignedUser (General client assignment fallback)
+ * 
+ * 6. CIS ASSIGNMENTS (2-Tier System):
+ *    - Priority 1: CisReturn.assignedUser for the matching tax month
+ *    - Priority 2: Client.assignedUser (General client assignment fallback)
  * 
  * REMOVED LOGIC (Do NOT re-add):
  * - VAT fallback to Client.vatAssignedUser (REMOVED in cleanup)
@@ -267,7 +366,7 @@ export interface DeadlineItem {
  * 
  * @param client Client object with assignment data
  * @param dueDate Deadline due date
- * @param type Type of deadline (vat, accounts, corporation-tax, confirmation)
+ * @param type Type of deadline (vat, accounts, corporation-tax, confirmation, self-assessment, payroll, cis)
  * @param today Current date for calculations
  * @param assignedUser Override assignment (rarely used)
  * @param vatQuarter VAT quarter object for quarter-level assignment (VAT only)
@@ -276,7 +375,7 @@ export interface DeadlineItem {
 function createDeadlineItem(
   client: any,
   dueDate: Date,
-  type: 'accounts' | 'confirmation' | 'corporation-tax' | 'vat',
+  type: 'accounts' | 'confirmation' | 'corporation-tax' | 'vat' | 'self-assessment' | 'payroll' | 'cis',
   today: Date,
   assignedUser?: {
     id: string
@@ -307,20 +406,64 @@ function createDeadlineItem(
     // Priority 1: Ltd company-specific assignment (ltdCompanyAssignedUser)
     // Priority 2: General client assignment (assignedUser)
     // This allows specialization where different users handle Ltd vs Non-Ltd work
-    if (client.ltdCompanyAssignedUser) {
+    // CT periods with their own workflow assignee take precedence over both
+    const ctWorkflow = type === 'corporation-tax' ? findCorporationTaxWorkflow(client, dueDate) : null
+    if (ctWorkflow?.assignedUser) {
+      finalAssignedUser = ctWorkflow.assignedUser
+    } else if (client.ltdCompanyAssignedUser) {
       finalAssignedUser = client.ltdCompanyAssignedUser
     } else if (client.assignedUser) {
       finalAssignedUser = client.assignedUser
     }
     // If both are null, deadline remains unassigned
     
+  } else if (type === 'self-assessment') {
+    // SELF ASSESSMENT ASSIGNMENT LOGIC (3-Tier System):
+    // Priority 1: Workflow-level assignment for the matching tax year
+    // Priority 2: Non-Ltd specific assignment (nonLtdCompanyAssignedUser)
+    // Priority 3: General client assignment (assignedUser)
+    const saWorkflow = findSelfAssessmentWorkflow(client, dueDate)
+    if (saWorkflow?.assignedUser) {
+      finalAssignedUser = saWorkflow.assignedUser
+    } else if (client.nonLtdCompanyAssignedUser) {
+      finalAssignedUser = client.nonLtdCompanyAssignedUser
+    } else if (client.assignedUser) {
+      finalAssignedUser = client.assignedUser
+    }
+    
+  } else if (type === 'payroll') {
+    // PAYROLL ASSIGNMENT LOGIC (2-Tier System):
+    // Priority 1: Run-level assignment for the matching pay date
+    // Priority 2: General client assignment (assignedUser)
+    const payrollRun = findPayrollRun(client, dueDate)
+    if (payrollRun?.assignedUser) {
+      finalAssignedUser = payrollRun.assignedUser
+    } else if (client.assignedUser) {
+      finalAssignedUser = client.assignedUser
+    }
+    
+  } else if (type === 'cis') {
+    // CIS ASSIGNMENT LOGIC (2-Tier System):
+    // Priority 1: Return-level assignment for the matching tax month
+    // Priority 2: General client assignment (assignedUser)
+    const cisReturn = findCisReturn(client, dueDate)
+    if (cisReturn?.assignedUser) {
+      finalAssignedUser = cisReturn.assignedUser
+    } else if (client.assignedUser) {
+      finalAssignedUser = client.assignedUser
+    }
+    
   } else {
-    // CONFIRMATION STATEMENT ASSIGNMENT LOGIC (Simple):
-    // Uses general client assignment only - no special logic needed
-    if (client.assignedUser) {
+    // CONFIRMATION STATEMENT ASSIGNMENT LOGIC (2-Tier System):
+    // Priority 1: Workflow-level assignment for the matching statement period
+    // Priority 2: General client assignment (assignedUser)
+    const confirmationWorkflow = findConfirmationStatementWorkflow(client, dueDate)
+    if (confirmationWorkflow?.assignedUser) {
+      finalAssignedUser = confirmationWorkflow.assignedUser
+    } else if (client.assignedUser) {
       finalAssignedUser = client.assignedUser
     }
-    // If assignedUser is null, deadline remains unassigned
+    // If both are null, deadline remains unassigned
   }
   
   return {
@@ -338,6 +481,38 @@ function createDeadlineItem(
   }
 }
 
+/**
+ * Deadline item for one SA100 tax year (online filing deadline, 31st January)
+ * Clients can have several open tax years, so the ID includes the tax year
+ */
+function createSelfAssessmentDeadlineItem(client: any, workflow: any, today: Date): DeadlineItem {
+  return {
+    ...createDeadlineItem(client, new Date(workflow.onlineFilingDueDate), 'self-assessment', today),
+    id: `${client.id}-self-assessment-${workflow.taxYear}`
+  }
+}
+
+/**
+ * Deadline item for one payroll run (FPS due on or before the pay date)
+ * Weekly and 4-weekly clients have several runs a month, so the ID includes the run
+ */
+function createPayrollDeadlineItem(client: any, run: any, today: Date): DeadlineItem {
+  return {
+    ...createDeadlineItem(client, new Date(run.fpsDueDate), 'payroll', today),
+    id: `${client.id}-payroll-${run.id}`
+  }
+}
+
+/**
+ * Deadline item for one monthly CIS300 return (due by the 19th after the tax month ends)
+ */
+function createCisDeadlineItem(client: any, cisReturn: any, today: Date): DeadlineItem {
+  return {
+    ...createDeadlineItem(client, new Date(cisReturn.dueDate), 'cis', today),
+    id: `${client.id}-cis-${cisReturn.id}`
+  }
+}
+
 export async function getAllDeadlines(): Promise<DeadlineItem[]> {
   try {
     // Fetch all clients with their assigned users and due dates
@@ -367,6 +542,12 @@ export async function getAllDeadlines(): Promise<DeadlineItem[]> {
             name: true
           }
         },
+        nonLtdCompanyAssignedUser: {
+          select: {
+            id: true,
+            name: true
+          }
+        },
         ltdAccountsWorkflows: {
           select: {
             filingPeriodEnd: true,
@@ -381,6 +562,98 @@ export async function getAllDeadlines(): Promise<DeadlineItem[]> {
             }
           }
         },
+        corporationTaxWorkflows: {
+          select: {
+            filingDueDate: true,
+            isCompleted: true,
+            filedToHMRCDate: true,
+            clientSelfFilingDate: true,
+            currentStage: true,
+            assignedUser: {
+              select: {
+                id: true,
+                name: true
+              }
+            }
+          }
+        },
+        selfAssessmentWorkflows: {
+          select: {
+            taxYear: true,
+            onlineFilingDueDate: true,
+            isCompleted: true,
+            filedToHMRCDate: true,
+            clientSelfFilingDate: true,
+            currentStage: true,
+            assignedUser: {
+              select: {
+                id: true,
+                name: true
+              }
+            }
+          }
+        },
+        // Returns accumulate monthly, so only the last year is considered
+        cisReturns: {
+          where: {
+            dueDate: {
+              gte: subMonths(new Date(), 12)
+            },
+            scheme: {
+              isActive: true
+            }
+          },
+          select: {
+            id: true,
+            dueDate: true,
+            isCompleted: true,
+            submittedDate: true,
+            currentStage: true,
+            assignedUser: {
+              select: {
+                id: true,
+                name: true
+              }
+            }
+          }
+        },
+        // Runs accumulate weekly for some clients, so only the last year is considered
+        payrollRuns: {
+          where: {
+            payDate: {
+              gte: subMonths(new Date(), 12)
+            }
+          },
+          select: {
+            id: true,
+            payDate: true,
+            fpsDueDate: true,
+            isCompleted: true,
+            fpsSubmittedDate: true,
+            currentStage: true,
+            assignedUser: {
+              select: {
+                id: true,
+                name: true
+              }
+            }
+          }
+        },
+        confirmationStatementWorkflows: {
+          select: {
+            filingDueDate: true,
+            isCompleted: true,
+            filedDate: true,
+            clientSelfFilingDate: true,
+            currentStage: true,
+            assignedUser: {
+              select: {
+                id: true,
+                name: true
+              }
+            }
+          }
+        },
         vatQuartersWorkflow: {
           select: {
             quarterEndDate: true,
@@ -427,6 +700,21 @@ export async function getAllDeadlines(): Promise<DeadlineItem[]> {
         deadlines.push(createDeadlineItem(client, new Date(client.nextVatReturnDue), 'vat', today, null, vatQuarter))
       }
       
+      // Self assessment deadlines come from the per-tax-year SA100 workflows
+      client.selfAssessmentWorkflows?.forEach((workflow: any) => {
+        deadlines.push(createSelfAssessmentDeadlineItem(client, workflow, today))
+      })
+      
+      // Payroll deadlines come from the generated payroll runs
+      client.payrollRuns?.forEach((run: any) => {
+        deadlines.push(createPayrollDeadlineItem(client, run, today))
+      })
+      
+      // CIS deadlines come from the generated monthly CIS300 returns
+      client.cisReturns?.forEach((cisReturn: any) => {
+        deadlines.push(createCisDeadlineItem(client, cisReturn, today))
+      })
+      
       // Create workflow-based deadlines only if official deadlines don't exist
       if (!client.nextAccountsDue && client.ltdAccountsWorkflows) {
         client.ltdAccountsWorkflows.forEach((workflow: any) => {
@@ -466,6 +754,7 @@ export async function getDeadlinesForUser(userId: string): Promise<DeadlineItem[
         OR: [
           { assignedUserId: userId },
           { ltdCompanyAssignedUserId: userId },
+          { nonLtdCompanyAssignedUserId: userId },
           { 
             ltdAccountsWorkflows: {
               some: {
@@ -479,6 +768,41 @@ export async function getDeadlinesForUser(userId: string): Promise<DeadlineItem[
                 assignedUserId: userId
               }
             }
+          },
+          {
+            confirmationStatementWorkflows: {
+              some: {
+                assignedUserId: userId
+              }
+            }
+          },
+          {
+            corporationTaxWorkflows: {
+              some: {
+                assignedUserId: userId
+              }
+            }
+          },
+          {
+            selfAssessmentWorkflows: {
+              some: {
+                assignedUserId: userId
+              }
+            }
+          },
+          {
+            payrollRuns: {
+              some: {
+                assignedUserId: userId
+              }
+            }
+          },
+          {
+            cisReturns: {
+              some: {
+                assignedUserId: userId
+              }
+            }
           }
         ]
       },
@@ -503,6 +827,12 @@ export async function getDeadlinesForUser(userId: string): Promise<DeadlineItem[
             name: true
           }
         },
+        nonLtdCompanyAssignedUser: {
+          select: {
+            id: true,
+            name: true
+          }
+        },
         ltdAccountsWorkflows: {
           select: {
             filingPeriodEnd: true,
@@ -517,6 +847,98 @@ export async function getDeadlinesForUser(userId: string): Promise<DeadlineItem[
             }
           }
         },
+        corporationTaxWorkflows: {
+          select: {
+            filingDueDate: true,
+            isCompleted: true,
+            filedToHMRCDate: true,
+            clientSelfFilingDate: true,
+            currentStage: true,
+            assignedUser: {
+              select: {
+                id: true,
+                name: true
+              }
+            }
+          }
+        },
+        selfAssessmentWorkflows: {
+          select: {
+            taxYear: true,
+            onlineFilingDueDate: true,
+            isCompleted: true,
+            filedToHMRCDate: true,
+            clientSelfFilingDate: true,
+            currentStage: true,
+            assignedUser: {
+              select: {
+                id: true,
+                name: true
+              }
+            }
+          }
+        },
+        // Returns accumulate monthly, so only the last year is considered
+        cisReturns: {
+          where: {
+            dueDate: {
+              gte: subMonths(new Date(), 12)
+            },
+            scheme: {
+              isActive: true
+            }
+          },
+          select: {
+            id: true,
+            dueDate: true,
+            isCompleted: true,
+            submittedDate: true,
+            currentStage: true,
+            assignedUser: {
+              select: {
+                id: true,
+                name: true
+              }
+            }
+          }
+        },
+        // Runs accumulate weekly for some clients, so only the last year is considered
+        payrollRuns: {
+          where: {
+            payDate: {
+              gte: subMonths(new Date(), 12)
+            }
+          },
+          select: {
+            id: true,
+            payDate: true,
+            fpsDueDate: true,
+            isCompleted: true,
+            fpsSubmittedDate: true,
+            currentStage: true,
+            assignedUser: {
+              select: {
+                id: true,
+                name: true
+              }
+            }
+          }
+        },
+        confirmationStatementWorkflows: {
+          select: {
+            filingDueDate: true,
+            isCompleted: true,
+            filedDate: true,
+            clientSelfFilingDate: true,
+            currentStage: true,
+            assignedUser: {
+              select: {
+                id: true,
+                name: true
+              }
+            }
+          }
+        },
         vatQuartersWorkflow: {
           select: {
             quarterEndDate: true,
@@ -579,6 +1001,33 @@ export async function getDeadlinesForUser(userId: string): Promise<DeadlineItem[
         }
       }
       
+      // Self assessment deadlines come from the per-tax-year SA100 workflows
+      client.selfAssessmentWorkflows?.forEach((workflow: any) => {
+        const deadline = createSelfAssessmentDeadlineItem(client, workflow, today)
+        // Only include if this user is assigned to this deadline
+        if (deadline.assignedUser?.id === userId) {
+          deadlines.push(deadline)
+        }
+      })
+      
+      // Payroll deadlines come from the generated payroll runs
+      client.payrollRuns?.forEach((run: any) => {
+        const deadline = createPayrollDeadlineItem(client, run, today)
+        // Only include if this user is assigned to this deadline
+        if (deadline.assignedUser?.id === userId) {
+          deadlines.push(deadline)
+        }
+      })
+      
+      // CIS deadlines come from the generated monthly CIS300 returns
+      client.cisReturns?.forEach((cisReturn: any) => {
+        const deadline = createCisDeadlineItem(client, cisReturn, today)
+        // Only include if this user is assigned to this deadline
+        if (deadline.assignedUser?.id === userId) {
+          deadlines.push(deadline)
+        }
+      })
+      
       // Create workflow-based deadlines only if official deadlines don't exist
       if (!client.nextAccountsDue && client.ltdAccountsWorkflows) {
         client.ltdAccountsWorkflows.forEach((workflow: any) => {
@@ -647,6 +1096,12 @@ export async function getDeadlinesInDateRange(startDate: Date, endDate: Date): P
             name: true
           }
         },
+        nonLtdCompanyAssignedUser: {
+          select: {
+            id: true,
+            name: true
+          }
+        },
         ltdAccountsWorkflows: {
           select: {
             filingPeriodEnd: true,
@@ -661,6 +1116,98 @@ export async function getDeadlinesInDateRange(startDate: Date, endDate: Date): P
             }
           }
         },
+        corporationTaxWorkflows: {
+          select: {
+            filingDueDate: true,
+            isCompleted: true,
+            filedToHMRCDate: true,
+            clientSelfFilingDate: true,
+            currentStage: true,
+            assignedUser: {
+              select: {
+                id: true,
+                name: true
+              }
+            }
+          }
+        },
+        selfAssessmentWorkflows: {
+          select: {
+            taxYear: true,
+            onlineFilingDueDate: true,
+            isCompleted: true,
+            filedToHMRCDate: true,
+            clientSelfFilingDate: true,
+            currentStage: true,
+            assignedUser: {
+              select: {
+                id: true,
+                name: true
+              }
+            }
+          }
+        },
+        // Returns accumulate monthly, so only the last year is considered
+        cisReturns: {
+          where: {
+            dueDate: {
+              gte: subMonths(new Date(), 12)
+            },
+            scheme: {
+              isActive: true
+            }
+          },
+          select: {
+            id: true,
+            dueDate: true,
+            isCompleted: true,
+            submittedDate: true,
+            currentStage: true,
+            assignedUser: {
+              select: {
+                id: true,
+                name: true
+              }
+            }
+          }
+        },
+        // Runs accumulate weekly for some clients, so only the last year is considered
+        payrollRuns: {
+          where: {
+            payDate: {
+              gte: subMonths(new Date(), 12)
+            }
+          },
+          select: {
+            id: true,
+            payDate: true,
+            fpsDueDate: true,
+            isCompleted: true,
+            fpsSubmittedDate: true,
+            currentStage: true,
+            assignedUser: {
+              select: {
+                id: true,
+                name: true
+              }
+            }
+          }
+        },
+        confirmationStatementWorkflows: {
+          select: {
+            filingDueDate: true,
+            isCompleted: true,
+            filedDate: true,
+            clientSelfFilingDate: true,
+            currentStage: true,
+            assignedUser: {
+              select: {
+                id: true,
+                name: true
+              }
+            }
+          }
+        },
         vatQuartersWorkflow: {
           select: {
             quarterEndDate: true,
@@ -719,6 +1266,30 @@ export async function getDeadlinesInDateRange(startDate: Date, endDate: Date): P
         }
       }
       
+      // Self assessment deadlines come from the per-tax-year SA100 workflows
+      client.selfAssessmentWorkflows?.forEach((workflow: any) => {
+        const dueDate = new Date(workflow.onlineFilingDueDate)
+        if (dueDate >= startDate && dueDate <= endDate) {
+          deadlines.push(createSelfAssessmentDeadlineItem(client, workflow, today))
+        }
+      })
+      
+      // Payroll deadlines come from the generated payroll runs
+      client.payrollRuns?.forEach((run: any) => {
+        const dueDate = new Date(run.fpsDueDate)
+        if (dueDate >= startDate && dueDate <= endDate) {
+          deadlines.push(createPayrollDeadlineItem(client, run, today))
+        }
+      })
+      
+      // CIS deadlines come from the generated monthly CIS300 returns
+      client.cisReturns?.forEach((cisReturn: any) => {
+        const dueDate = new Date(cisReturn.dueDate)
+        if (dueDate >= startDate && dueDate <= endDate) {
+          deadlines.push(createCisDeadlineItem(client, cisReturn, today))
+        }
+      })
+      
       // Create workflow-based deadlines only if official deadlines don't exist
       if (!client.nextAccountsDue && client.ltdAccountsWorkflows) {
         client.ltdAccountsWorkflows.forEach((workflow: any) => {
@@ -0,0 +1,532 @@
+/**
+ * Document Pack Service
+ *
+ * Generates the branded approval pack for a VAT quarter or accounts workflow - a cover letter with
+ * the period, deadlines and figures, laid out with the firm's BrandingSettings logo, colours and
+ * email signature. Packs are stored as EmailAttachments against the workflow (emailLogId empty)
+ * until they are attached to an email to the client.
+ *
+ * generateDocumentPackForStage is called by the workflow routes on every stage change and only
+ * does anything when the workflow enters its DOCUMENT_PACK_TRIGGER_STAGES stage.
+ */
+
+import { randomBytes } from 'crypto'
+import { mkdir, unlink, writeFile } from 'fs/promises'
+import path from 'path'
+import { db } from '@/lib/db'
+import { sanitiseFileName } from '@/lib/client-portal'
+import { VAT_RETURN_BOXES, isVATRepayment } from '@/lib/vat-return'
+import { PdfDocument } from '@/lib/pdf-document'
+import {
+  APPROVAL_RESPONSE_DAYS,
+  DOCUMENT_PACK_TRIGGER_STAGES,
+  DOCUMENT_PACK_TYPE_CONFIG,
+  getDocumentPackType,
+  type DocumentPackSummary,
+  type DocumentPackType,
+  type DocumentPackWorkflowType
+} from '@/lib/document-packs'
+
+export class DocumentPackError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'DocumentPackError'
+  }
+}
+
+interface PackBranding {
+  firmName: string
+  // Raw JPEG/PNG bytes, embedded when a pack is rendered
+  logo: Buffer | null
+  primaryColor: string
+  secondaryColor: string
+  signatureLines: string[]
+  contactLine: string
+}
+
+interface PackTableRow {
+  label: string
+  value: string
+  emphasis?: boolean
+}
+
+interface PackContent {
+  fileName: string
+  recipient: string[]
+  title: string
+  subtitle: string
+  greeting: string
+  paragraphs: string[]
+  tables: Array<{ heading: string; rows: PackTableRow[] }>
+  closing: string
+}
+
+const LOGO_FETCH_TIMEOUT_MS = 5000
+const PAGE_MARGIN = 50
+const TEXT_COLOR = '#1f2937'
+const ROW_SHADE = '#f3f4f6'
+
+const formatPackDate = (date: Date) =>
+  date.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'Europe/London' })
+
+const formatMoney = (value: number, wholePounds = false) =>
+  new Intl.NumberFormat('en-GB', {
+    style: 'currency',
+    currency: 'GBP',
+    minimumFractionDigits: wholePounds ? 0 : 2,
+    maximumFractionDigits: wholePounds ? 0 : 2
+  }).format(value)
+
+// The email signature is HTML; the letter needs its text, one line per line
+function signatureToLines(html: string): string[] {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+}
+
+async function fetchLogo(logoUrl: string | null): Promise<Buffer | null> {
+  if (!logoUrl) return null
+
+  try {
+    const response = await fetch(logoUrl, { signal: AbortSignal.timeout(LOGO_FETCH_TIMEOUT_MS) })
+    if (!response.ok) {
+      console.warn(`⚠️ Could not fetch logo for document pack: ${response.status}`)
+      return null
+    }
+    return Buffer.from(await response.arrayBuffer())
+  } catch (error) {
+    console.warn('⚠️ Could not fetch logo for document pack:', error)
+    return null
+  }
+}
+
+async function loadPackBranding(): Promise<PackBranding> {
+  const settings = await db.brandingSettings.findFirst({ orderBy: { id: 'desc' } })
+  const firmName = settings?.firmName || 'Numericalz'
+
+  return {
+    firmName,
+    logo: await fetchLogo(settings?.logoUrl || null),
+    primaryColor: settings?.primaryColor || '#2563eb',
+    secondaryColor: settings?.secondaryColor || '#64748b',
+    signatureLines: settings?.emailSignature ? signatureToLines(settings.emailSignature) : [firmName],
+    contactLine: [settings?.address, settings?.phoneNumber, settings?.websiteUrl].filter(Boolean).join('  ·  ')
+  }
+}
+
+/**
+ * Lay out a pack as an A4 letter
+ */
+async function renderDocumentPack(content: PackContent, branding: PackBranding): Promise<Buffer> {
+  const pdf = await PdfDocument.create()
+  const contentWidth = pdf.pageWidth - PAGE_MARGIN * 2
+  const right = pdf.pageWidth - PAGE_MARGIN
+  const footerTop = pdf.pageHeight - 50
+  let y = 0
+
+  const drawPageFrame = () => {
+    pdf.rect(0, 0, pdf.pageWidth, 8, branding.primaryColor)
+    y = 40
+    if (pdf.pageCount > 1) {
+      pdf.text(branding.firmName, PAGE_MARGIN, y, { font: 'bold', size: 10, color: branding.primaryColor })
+      pdf.text(content.title, right, y, { size: 9, color: branding.secondaryColor, align: 'right' })
+      y += 25
+    }
+  }
+
+  const ensureSpace = (height: number) => {
+    if (y + height > footerTop - 10) {
+      pdf.addPage()
+      drawPageFrame()
+    }
+  }
+
+  const paragraph = (text: string, options: { size?: number; font?: 'regular' | 'bold'; color?: string; gap?: number } = {}) => {
+    const size = options.size ?? 10
+    const leading = size * 1.45
+    for (const line of pdf.wrapText(text, contentWidth, size, options.font)) {
+      ensureSpace(leading)
+      y += leading
+      pdf.text(line, PAGE_MARGIN, y, { size, font: options.font, color: options.color ?? TEXT_COLOR })
+    }
+    y += options.gap ?? 6
+  }
+
+  drawPageFrame()
+
+  // Letterhead - logo on the left, firm name and contact details on the right
+  const logoHeight = 48
+  const logo = branding.logo ? await pdf.embedImage(branding.logo) : null
+  if (branding.logo && !logo) {
+    console.warn('⚠️ Logo is not a JPEG or PNG - document pack generated without it')
+  }
+  if (logo) {
+    const logoWidth = Math.min(180, (logo.width / logo.height) * logoHeight)
+    pdf.image(logo, PAGE_MARGIN, y - 10, logoWidth, (logoWidth / logo.width) * logo.height)
+  }
+  pdf.text(branding.firmName, right, y + 4, { font: 'bold', size: 16, color: branding.primaryColor, align: 'right' })
+  for (const line of pdf.wrapText(branding.contactLine, 260, 8)) {
+    y += 11
+    pdf.text(line, right, y + 4, { size: 8, color: branding.secondaryColor, align: 'right' })
+  }
+  y = Math.max(y + 20, 40 + logoHeight)
+  pdf.line(PAGE_MARGIN, y, right, y, branding.primaryColor, 1)
+  y += 25
+
+  // Recipient and date
+  pdf.text(formatPackDate(new Date()), right, y, { size: 10, color: TEXT_COLOR, align: 'right' })
+  content.recipient.forEach((line, index) => {
+    pdf.text(line, PAGE_MARGIN, y, { size: 10, font: index === 0 ? 'bold' : 'regular', color: TEXT_COLOR })
+    y += 14
+  })
+  y += 16
+
+  paragraph(content.title, { size: 16, font: 'bold', color: branding.primaryColor, gap: 0 })
+  paragraph(content.subtitle, { size: 11, color: branding.secondaryColor, gap: 14 })
+
+  paragraph(content.greeting, { gap: 4 })
+  content.paragraphs.forEach(text => paragraph(text))
+
+  for (const table of content.tables) {
+    ensureSpace(40)
+    y += 12
+    pdf.text(table.heading, PAGE_MARGIN, y, { font: 'bold', size: 11, color: branding.primaryColor })
+    y += 6
+
+    table.rows.forEach((row, index) => {
+      const labelLines = pdf.wrapText(row.label, contentWidth - 150, 9.5, row.emphasis ? 'bold' : 'regular')
+      const rowHeight = 8 + labelLines.length * 13
+      ensureSpace(rowHeight)
+      if (index % 2 === 0) {
+        pdf.rect(PAGE_MARGIN, y, contentWidth, rowHeight, ROW_SHADE)
+      }
+      labelLines.forEach((line, lineIndex) => {
+        pdf.text(line, PAGE_MARGIN + 8, y + 15 + lineIndex * 13, {
+          size: 9.5,
+          font: row.emphasis ? 'bold' : 'regular',
+          color: TEXT_COLOR
+        })
+      })
+      pdf.text(row.value, right - 8, y + 15, { size: 9.5, font: row.emphasis ? 'bold' : 'regular', color: TEXT_COLOR, align: 'right' })
+      y += rowHeight
+    })
+    y += 8
+  }
+
+  y += 6
+  paragraph(content.closing, { gap: 14 })
+  paragraph('Kind regards,', { gap: 4 })
+  branding.signatureLines.forEach((line, index) => paragraph(line, { font: index === 0 ? 'bold' : 'regular', gap: 0 }))
+
+  // Footers go on last so each shows the page count
+  const pages = pdf.pageCount
+  const footerY = pdf.pageHeight - 40
+  for (let page = 1; page <= pages; page++) {
+    pdf.setPage(page)
+    pdf.line(PAGE_MARGIN, footerY, right, footerY, branding.secondaryColor, 0.5)
+    pdf.text(pdf.wrapText(branding.contactLine || branding.firmName, contentWidth - 80, 7.5)[0] ?? '', PAGE_MARGIN, footerY + 14, { size: 7.5, color: branding.secondaryColor })
+    pdf.text(`Page ${page} of ${pages}`, right, footerY + 14, { size: 7.5, color: branding.secondaryColor, align: 'right' })
+  }
+
+  return await pdf.toBuffer()
+}
+
+function addressLines(client: { companyName: string; contactName: string; registeredOfficeAddress: string | null }): string[] {
+  const lines = [client.companyName]
+  if (client.contactName && client.contactName !== client.companyName) {
+    lines.push(`For the attention of ${client.contactName}`)
+  }
+  if (client.registeredOfficeAddress) {
+    lines.push(...client.registeredOfficeAddress.split(/,|\n/).map(part => part.trim()).filter(Boolean))
+  }
+  return lines
+}
+
+const greetingFor = (contactName: string) => `Dear ${contactName.trim() || 'Sir or Madam'},`
+
+function approvalDeadline(dueDate: Date): Date {
+  const requested = new Date(Date.now() + APPROVAL_RESPONSE_DAYS * 24 * 60 * 60 * 1000)
+  return requested < dueDate ? requested : dueDate
+}
+
+async function buildVatPackContent(workflowId: string): Promise<{ clientId: string; content: PackContent }> {
+  const quarter = await db.vATQuarter.findUnique({
+    where: { id: workflowId },
+    include: {
+      vatReturn: true,
+      client: { select: { id: true, companyName: true, contactName: true, registeredOfficeAddress: true, vatNumber: true } }
+    }
+  })
+  if (!quarter) {
+    throw new DocumentPackError('VAT quarter not found', 404)
+  }
+
+  const { client, vatReturn } = quarter
+  const periodLabel = `${formatPackDate(quarter.quarterStartDate)} to ${formatPackDate(quarter.quarterEndDate)}`
+  const repayment = vatReturn ? isVATRepayment(vatReturn) : false
+
+  const summary: PackTableRow[] = [
+    { label: 'Return period', value: periodLabel },
+    { label: 'VAT registration number', value: vatReturn?.vrn || client.vatNumber || 'Not recorded' },
+    { label: 'Please approve by', value: formatPackDate(approvalDeadline(quarter.filingDueDate)) },
+    { label: 'HMRC filing and payment deadline', value: formatPackDate(quarter.filingDueDate), emphasis: true }
+  ]
+  if (vatReturn) {
+    summary.push({
+      label: repayment ? 'VAT repayable to you by HMRC' : 'VAT payable to HMRC',
+      value: formatMoney(vatReturn.netVatDue),
+      emphasis: true
+    })
+  }
+
+  const tables = [{ heading: 'Summary', rows: summary }]
+  if (vatReturn) {
+    tables.push({
+      heading: 'VAT return figures',
+      rows: VAT_RETURN_BOXES.map(box => ({
+        label: `Box ${box.box} - ${box.label}`,
+        value: formatMoney(vatReturn[box.field], box.wholePounds),
+        emphasis: box.field === 'netVatDue'
+      }))
+    })
+  }
+
+  return {
+    clientId: client.id,
+    content: {
+      fileName: `${client.companyName} VAT return ${quarter.quarterPeriod} - approval.pdf`,
+      recipient: addressLines(client),
+      title: 'VAT return for your approval',
+      subtitle: `Quarter ending ${formatPackDate(quarter.quarterEndDate)}`,
+      greeting: greetingFor(client.contactName),
+      paragraphs: [
+        `We have prepared your VAT return for the period ${periodLabel}. A summary of the return is set out below.`,
+        vatReturn
+          ? repayment
+            ? `The return shows a repayment of ${formatMoney(Math.abs(vatReturn.netVatDue))} due to you, which HMRC will normally pay within 30 days of the return being filed.`
+            : `The return shows ${formatMoney(vatReturn.netVatDue)} payable to HMRC. Payment must reach HMRC by ${formatPackDate(quarter.filingDueDate)}, so please allow time for it to clear.`
+          : 'The figures will follow separately with the working papers.',
+        'Please check the figures carefully. We can only file the return once you have confirmed that it is correct and complete.'
+      ],
+      tables,
+      closing: `Please reply to confirm your approval by ${formatPackDate(approvalDeadline(quarter.filingDueDate))}, or let us know if anything needs to change.`
+    }
+  }
+}
+
+async function buildAccountsPackContent(
+  workflowType: 'LTD' | 'NON_LTD',
+  workflowId: string
+): Promise<{ clientId: string; content: PackContent }> {
+  const clientSelect = { id: true, companyName: true, contactName: true, registeredOfficeAddress: true, companyNumber: true }
+
+  if (workflowType === 'LTD') {
+    const workflow = await db.ltdAccountsWorkflow.findUnique({
+      where: { id: workflowId },
+      include: { client: { select: clientSelect } }
+    })
+    if (!workflow) {
+      throw new DocumentPackError('Accounts workflow not found', 404)
+    }
+
+    const { client } = workflow
+    const periodLabel = `${formatPackDate(workflow.filingPeriodStart)} to ${formatPackDate(workflow.filingPeriodEnd)}`
+    const deadline = workflow.accountsDueDate < workflow.ctDueDate ? workflow.accountsDueDate : workflow.ctDueDate
+
+    return {
+      clientId: client.id,
+      content: {
+        fileName: `${client.companyName} accounts ${workflow.filingPeriodEnd.toISOString().slice(0, 10)} - approval.pdf`,
+        recipient: addressLines(client),
+        title: 'Annual accounts for your approval',
+        subtitle: `Year ended ${formatPackDate(workflow.filingPeriodEnd)}`,
+        greeting: greetingFor(client.contactName),
+        paragraphs: [
+          `We have completed the statutory accounts and corporation tax return for ${client.companyName} for the period ${periodLabel}. The accounts are sent with this letter for your review.`,
+          'As a director you are responsible for the accounts. Please read them carefully and let us know if anything is incomplete or incorrect before approving them.'
+        ],
+        tables: [{
+          heading: 'Key dates',
+          rows: [
+            { label: 'Accounting period', value: periodLabel },
+            ...(client.companyNumber ? [{ label: 'Company number', value: client.companyNumber }] : []),
+            { label: 'Please approve by', value: formatPackDate(approvalDeadline(deadline)) },
+            { label: 'Accounts due at Companies House', value: formatPackDate(workflow.accountsDueDate), emphasis: true },
+            { label: 'Corporation tax payment due', value: formatPackDate(workflow.ctDueDate) },
+            { label: 'Confirmation statement due', value: formatPackDate(workflow.csDueDate) }
+          ]
+        }],
+        closing: `Once you have approved the accounts we will file them with Companies House and the corporation tax return with HMRC. Please approve by ${formatPackDate(approvalDeadline(deadline))}.`
+      }
+    }
+  }
+
+  const workflow = await db.nonLtdAccountsWorkflow.findUnique({
+    where: { id: workflowId },
+    include: { client: { select: clientSelect } }
+  })
+  if (!workflow) {
+    throw new DocumentPackError('Accounts workflow not found', 404)
+  }
+
+  const { client } = workflow
+  return {
+    clientId: client.id,
+    content: {
+      fileName: `${client.companyName} accounts ${workflow.yearEndDate.toISOString().slice(0, 10)} - approval.pdf`,
+      recipient: addressLines(client),
+      title: 'Accounts for your approval',
+      subtitle: `Year ended ${formatPackDate(workflow.yearEndDate)}`,
+      greeting: greetingFor(client.contactName),
+      paragraphs: [
+        `We have completed your accounts for the year ended ${formatPackDate(workflow.yearEndDate)}, which are sent with this letter for your review.`,
+        'The figures will be used for your self assessment tax return, so please check them carefully and let us know if anything is incomplete or incorrect.'
+      ],
+      tables: [{
+        heading: 'Key dates',
+        rows: [
+          { label: 'Year end', value: formatPackDate(workflow.yearEndDate) },
+          { label: 'Please approve by', value: formatPackDate(approvalDeadline(workflow.filingDueDate)) },
+          { label: 'Tax return filing and payment deadline', value: formatPackDate(workflow.filingDueDate), emphasis: true }
+        ]
+      }],
+      closing: `Please approve the accounts by ${formatPackDate(approvalDeadline(workflow.filingDueDate))} so that we can file your return on time.`
+    }
+  }
+}
+
+function toSummary(attachment: {
+  id: string
+  packType: string | null
+  workflowType: string | null
+  workflowId: string | null
+  fileName: string
+  fileSize: number
+  createdAt: Date
+}): DocumentPackSummary {
+  return {
+    id: attachment.id,
+    packType: attachment.packType as DocumentPackType,
+    workflowType: attachment.workflowType as DocumentPackWorkflowType,
+    workflowId: attachment.workflowId!,
+    fileName: attachment.fileName,
+    fileSize: attachment.fileSize,
+    createdAt: attachment.createdAt.toISOString()
+  }
+}
+
+/**
+ * Generate (or regenerate) the approval pack for a workflow
+ * A pack that hasn't been emailed yet is replaced; copies already attached to emails are kept.
+ * @param expectedClientId - When given, the workflow must belong to this client
+ */
+export async function generateDocumentPack(
+  workflowType: DocumentPackWorkflowType,
+  workflowId: string,
+  expectedClientId?: string
+): Promise<DocumentPackSummary> {
+  const packType = getDocumentPackType(workflowType)
+  const { clientId, content } = workflowType === 'VAT'
+    ? await buildVatPackContent(workflowId)
+    : await buildAccountsPackContent(workflowType, workflowId)
+
+  if (expectedClientId && clientId !== expectedClientId) {
+    throw new DocumentPackError('Workflow not found for this client', 404)
+  }
+
+  const branding = await loadPackBranding()
+
+  const pdf = await renderDocumentPack(content, branding)
+
+  const uploadDir = path.join(process.env.UPLOAD_DIR || './uploads', 'document-packs', clientId)
+  await mkdir(uploadDir, { recursive: true })
+  const storedName = `${Date.now()}-${randomBytes(6).toString('hex')}-${sanitiseFileName(content.fileName)}`
+  const filePath = path.join(uploadDir, storedName)
+  await writeFile(filePath, pdf)
+
+  const previous = await db.emailAttachment.findMany({
+    where: { clientId, workflowType, workflowId, packType, emailLogId: null }
+  })
+
+  const attachment = await db.emailAttachment.create({
+    data: {
+      fileName: content.fileName,
+      filePath,
+      fileSize: pdf.length,
+      mimeType: 'application/pdf',
+      clientId,
+      workflowType,
+      workflowId,
+      packType
+    }
+  })
+
+  for (const old of previous) {
+    await db.emailAttachment.delete({ where: { id: old.id } })
+    // Emailed copies point at the same file
+    const stillUsed = await db.emailAttachment.count({ where: { filePath: old.filePath } })
+    if (stillUsed === 0) {
+      await unlink(old.filePath).catch(() => undefined)
+    }
+  }
+
+  console.log(`📄 Generated ${DOCUMENT_PACK_TYPE_CONFIG[packType].label} for ${workflowType} workflow ${workflowId}`)
+  return toSummary(attachment)
+}
+
+/**
+ * Generate the workflow's pack if it has just entered its trigger stage
+ * @returns the pack, or null when the stage doesn't call for one
+ */
+export async function generateDocumentPackForStage(
+  workflowType: DocumentPackWorkflowType,
+  workflowId: string,
+  stage: string
+): Promise<DocumentPackSummary | null> {
+  if (DOCUMENT_PACK_TRIGGER_STAGES[workflowType] !== stage) {
+    return null
+  }
+  return generateDocumentPack(workflowType, workflowId)
+}
+
+/**
+ * Packs waiting to be emailed for a client, newest first, optionally for one workflow
+ */
+export async function getDocumentPacks(clientId: string, workflowId?: string): Promise<DocumentPackSummary[]> {
+  const packs = await db.emailAttachment.findMany({
+    where: {
+      clientId,
+      packType: { not: null },
+      emailLogId: null,
+      ...(workflowId ? { workflowId } : {})
+    },
+    orderBy: { createdAt: 'desc' }
+  })
+  return packs.map(toSummary)
+}
+
+/**
+ * Check pack ids picked in the send email modal belong to the client
+ * @throws DocumentPackError when any of them doesn't
+ */
+export async function resolveDocumentPacks(clientId: string, attachmentIds: string[]) {
+  if (attachmentIds.length === 0) return []
+
+  const packs = await db.emailAttachment.findMany({
+    where: { id: { in: attachmentIds }, clientId, packType: { not: null }, emailLogId: null }
+  })
+  if (packs.length !== new Set(attachmentIds).size) {
+    throw new DocumentPackError('One or more attachments are no longer available. Please refresh and try again.')
+  }
+  return packs
+}
@@ -0,0 +1,49 @@
+/**
+ * Document Pack Client-Safe Utilities
+ *
+ * Branded PDF cover letters and summaries generated when a workflow is sent to the client for
+ * approval - VAT returns at EMAILED_TO_CLIENT, accounts at SENT_TO_CLIENT_HELLO_SIGN. Packs are
+ * stored as EmailAttachments against the workflow and offered as attachments when the client is
+ * emailed.
+ */
+
+export const DOCUMENT_PACK_TYPES = ['VAT_RETURN_APPROVAL', 'ACCOUNTS_APPROVAL'] as const
+
+export type DocumentPackType = typeof DOCUMENT_PACK_TYPES[number]
+
+export const DOCUMENT_PACK_WORKFLOW_TYPES = ['VAT', 'LTD', 'NON_LTD'] as const
+
+export type DocumentPackWorkflowType = typeof DOCUMENT_PACK_WORKFLOW_TYPES[number]
+
+export const DOCUMENT_PACK_TYPE_CONFIG: Record<DocumentPackType, { label: string }> = {
+  VAT_RETURN_APPROVAL: { label: 'VAT return approval pack' },
+  ACCOUNTS_APPROVAL: { label: 'Accounts approval pack' }
+}
+
+// Entering this stage generates the workflow's pack
+export const DOCUMENT_PACK_TRIGGER_STAGES: Record<DocumentPackWorkflowType, string> = {
+  VAT: 'EMAILED_TO_CLIENT',
+  LTD: 'SENT_TO_CLIENT_HELLO_SIGN',
+  NON_LTD: 'SENT_TO_CLIENT_HELLO_SIGN'
+}
+
+// Days the client is asked to approve within, counted from the date on the letter
+export const APPROVAL_RESPONSE_DAYS = 7
+
+export interface DocumentPackSummary {
+  id: string
+  packType: DocumentPackType
+  workflowType: DocumentPackWorkflowType
+  workflowId: string
+  fileName: string
+  fileSize: number
+  createdAt: string
+}
+
+export function isDocumentPackWorkflowType(value: unknown): value is DocumentPackWorkflowType {
+  return typeof value === 'string' && (DOCUMENT_PACK_WORKFLOW_TYPES as readonly string[]).includes(value)
+}
+
+export function getDocumentPackType(workflowType: DocumentPackWorkflowType): DocumentPackType {
+  return workflowType === 'VAT' ? 'VAT_RETURN_APPROVAL' : 'ACCOUNTS_APPROVAL'
+}
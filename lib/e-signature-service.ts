@@ -0,0 +1,758 @@
+/**
+ * E-Signature Service
+ *
+ * Sends documents to clients for signature and applies the provider's callbacks. An
+ * ESignatureProvider holds the envelope:
+ *
+ * - MockESignatureProvider: keeps envelopes in memory for local development and testing, with
+ *   viewed/signed/declined simulated through /api/webhooks/e-signature/mock
+ *
+ * A real provider (HelloSign, DocuSign...) implements the same interface and is selected with
+ * E_SIGNATURE_PROVIDER. Left unset, the mock is used outside production and signing is off in
+ * production.
+ *
+ * For accounts approval requests the workflow stage follows the envelope: sending moves
+ * REVIEW_DONE_HELLO_SIGN to SENT_TO_CLIENT_HELLO_SIGN, and signing stores the signed PDF against the
+ * workflow and moves it to APPROVED_BY_CLIENT with a history entry attributed to the signer.
+ */
+
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import path from 'path'
+import type { LtdAccountsWorkflowStage, NonLtdAccountsWorkflowStage } from '@prisma/client'
+import { db } from '@/lib/db'
+import { logActivity } from '@/lib/activity-logger'
+import { createNotification } from '@/lib/in-app-notifications'
+import { getPortalWorkflowSummary, sanitiseFileName } from '@/lib/client-portal'
+import { calculateDaysBetween } from '@/lib/vat-workflow'
+import { generateDocumentPackForStage } from '@/lib/document-pack-service'
+import {
+  MAX_SIGNATURE_DOCUMENT_SIZE,
+  OPEN_SIGNATURE_STATUSES,
+  SIGNATURE_DOCUMENT_TYPE_CONFIG,
+  SIGNATURE_READY_STAGES,
+  SIGNED_DOCUMENT_CATEGORY,
+  isSignatureEvent,
+  type SignatureDocumentType,
+  type SignatureEvent,
+  type SignatureRequestStatusValue,
+  type SignatureRequestSummary,
+  type SignatureWorkflowType
+} from '@/lib/e-signature'
+
+// Stages that exist on both Ltd and Non-Ltd accounts workflows
+type AccountsWorkflowStage = LtdAccountsWorkflowStage & NonLtdAccountsWorkflowStage
+
+export class ESignatureError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'ESignatureError'
+  }
+}
+
+interface CreateEnvelopeParams {
+  title: string
+  message?: string | null
+  signer: { name: string; email: string }
+  file: { name: string; mimeType: string; content: Buffer }
+  callbackUrl?: string
+}
+
+export interface ProviderSignatureEvent {
+  providerRequestId: string
+  event: SignatureEvent
+  reason?: string | null
+  occurredAt?: Date
+}
+
+export interface ESignatureProvider {
+  readonly name: string
+  createEnvelope(params: CreateEnvelopeParams): Promise<{ providerRequestId: string }>
+  cancelEnvelope(providerRequestId: string): Promise<void>
+  downloadSignedDocument(providerRequestId: string): Promise<{ fileName: string; content: Buffer }>
+  /**
+   * Verify and decode a webhook delivery
+   * @returns null for deliveries that aren't about a signature (provider pings, test events)
+   * @throws ESignatureError with status 401 when the delivery isn't signed by the provider
+   */
+  parseWebhook(rawBody: string, headers: Headers): ProviderSignatureEvent | null
+}
+
+export const MOCK_SIGNATURE_HEADER = 'x-esignature-signature'
+
+/**
+ * HMAC-SHA256 of the raw mock webhook body, hex encoded
+ */
+export function signMockWebhookPayload(rawBody: string, secret: string): string {
+  return createHmac('sha256', secret).update(rawBody).digest('hex')
+}
+
+export interface MockEnvelope {
+  providerRequestId: string
+  title: string
+  signerName: string
+  signerEmail: string
+  fileName: string
+  sentAt: string
+  cancelled: boolean
+}
+
+// Kept on globalThis so envelopes survive hot reloads in development
+const mockEnvelopeStore = globalThis as unknown as {
+  mockSignatureEnvelopes?: Map<string, MockEnvelope & { content: Buffer }>
+}
+const MOCK_ENVELOPE_LIMIT = 50
+
+class MockESignatureProvider implements ESignatureProvider {
+  readonly name = 'MOCK'
+
+  private get envelopes() {
+    if (!mockEnvelopeStore.mockSignatureEnvelopes) {
+      mockEnvelopeStore.mockSignatureEnvelopes = new Map()
+    }
+    return mockEnvelopeStore.mockSignatureEnvelopes
+  }
+
+  async createEnvelope(params: CreateEnvelopeParams) {
+    const providerRequestId = `mock_${randomUUID()}`
+
+    // Oldest envelopes go first once the store is full
+    if (this.envelopes.size >= MOCK_ENVELOPE_LIMIT) {
+      const oldest = this.envelopes.keys().next().value
+      if (oldest) this.envelopes.delete(oldest)
+    }
+
+    this.envelopes.set(providerRequestId, {
+      providerRequestId,
+      title: params.title,
+      signerName: params.signer.name,
+      signerEmail: params.signer.email,
+      fileName: params.file.name,
+      content: params.file.content,
+      sentAt: new Date().toISOString(),
+      cancelled: false
+    })
+    console.log(`✍️ [mock e-signature] "${params.title}" sent to ${params.signer.email}`)
+
+    return { providerRequestId }
+  }
+
+  async cancelEnvelope(providerRequestId: string) {
+    const envelope = this.envelopes.get(providerRequestId)
+    if (envelope) envelope.cancelled = true
+  }
+
+  async downloadSignedDocument(providerRequestId: string) {
+    const envelope = this.envelopes.get(providerRequestId)
+    if (!envelope) {
+      throw new ESignatureError('Envelope not found at the mock provider', 404)
+    }
+    // The mock doesn't stamp signatures - the "signed" copy is the document that was sent
+    return { fileName: envelope.fileName, content: envelope.content }
+  }
+
+  parseWebhook(rawBody: string, headers: Headers): ProviderSignatureEvent | null {
+    const secret = process.env.E_SIGNATURE_WEBHOOK_SECRET
+    if (!secret) {
+      throw new ESignatureError('E_SIGNATURE_WEBHOOK_SECRET is not configured', 500)
+    }
+
+    const signature = headers.get(MOCK_SIGNATURE_HEADER) || ''
+    const expected = Buffer.from(signMockWebhookPayload(rawBody, secret))
+    const received = Buffer.from(signature)
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      throw new ESignatureError('Invalid signature', 401)
+    }
+
+    const payload = JSON.parse(rawBody) as { requestId?: string; event?: string; reason?: string; occurredAt?: string }
+    const event = payload.event?.toUpperCase()
+    if (!payload.requestId || !isSignatureEvent(event)) return null
+
+    return {
+      providerRequestId: payload.requestId,
+      event,
+      reason: payload.reason || null,
+      occurredAt: payload.occurredAt ? new Date(payload.occurredAt) : undefined
+    }
+  }
+
+  getEnvelopes(): MockEnvelope[] {
+    return Array.from(this.envelopes.values())
+      .map(({ content: _content, ...envelope }) => envelope)
+      .reverse()
+  }
+}
+
+function createESignatureProvider(): ESignatureProvider | null {
+  const choice = process.env.E_SIGNATURE_PROVIDER?.toLowerCase()
+
+  if (choice === 'mock' || (!choice && process.env.NODE_ENV !== 'production')) {
+    return new MockESignatureProvider()
+  }
+
+  if (choice) {
+    console.warn(`⚠️ Unknown E_SIGNATURE_PROVIDER "${choice}" - documents cannot be sent for signature`)
+  } else {
+    console.warn('⚠️ E-signature is not configured - documents cannot be sent for signature')
+  }
+  return null
+}
+
+const provider = createESignatureProvider()
+
+export function isESignatureConfigured(): boolean {
+  return provider !== null
+}
+
+export function getESignatureProviderName(): string | null {
+  return provider?.name || null
+}
+
+/**
+ * Envelopes the mock provider holds, newest first
+ * @returns null when another provider is active
+ */
+export function getMockEnvelopes(): MockEnvelope[] | null {
+  return provider instanceof MockESignatureProvider ? provider.getEnvelopes() : null
+}
+
+/**
+ * Decode a webhook delivery with the active provider
+ */
+export function parseSignatureWebhook(rawBody: string, headers: Headers): ProviderSignatureEvent | null {
+  if (!provider) {
+    throw new ESignatureError('E-signature is not configured', 503)
+  }
+  return provider.parseWebhook(rawBody, headers)
+}
+
+const signatureRequestInclude = {
+  sentBy: { select: { name: true } },
+  document: { select: { id: true, fileName: true } },
+  signedDocument: { select: { id: true, fileName: true } }
+} as const
+
+type SignatureRequestWithRelations = NonNullable<Awaited<ReturnType<typeof findSignatureRequest>>>
+
+function findSignatureRequest(where: { id: string } | { providerRequestId: string }) {
+  return db.signatureRequest.findUnique({ where, include: signatureRequestInclude })
+}
+
+function toSummary(request: SignatureRequestWithRelations): SignatureRequestSummary {
+  return {
+    id: request.id,
+    documentType: request.documentType as SignatureDocumentType,
+    workflowType: request.workflowType as SignatureWorkflowType | null,
+    workflowId: request.workflowId,
+    title: request.title,
+    message: request.message,
+    signerName: request.signerName,
+    signerEmail: request.signerEmail,
+    provider: request.provider,
+    status: request.status,
+    sentAt: request.sentAt.toISOString(),
+    viewedAt: request.viewedAt?.toISOString() || null,
+    signedAt: request.signedAt?.toISOString() || null,
+    declinedAt: request.declinedAt?.toISOString() || null,
+    declineReason: request.declineReason,
+    cancelledAt: request.cancelledAt?.toISOString() || null,
+    sentByName: request.sentBy?.name || null,
+    document: request.document,
+    signedDocument: request.signedDocument
+  }
+}
+
+/**
+ * Signature requests for a client, newest first, optionally for one workflow
+ */
+export async function getSignatureRequests(
+  clientId: string,
+  workflow?: { workflowType: SignatureWorkflowType; workflowId: string }
+): Promise<SignatureRequestSummary[]> {
+  const requests = await db.signatureRequest.findMany({
+    where: { clientId, ...(workflow || {}) },
+    orderBy: { sentAt: 'desc' },
+    take: 50,
+    include: signatureRequestInclude
+  })
+  return requests.map(toSummary)
+}
+
+async function storeSignatureDocument(params: {
+  clientId: string
+  fileName: string
+  mimeType: string
+  content: Buffer
+  category: string
+  workflowType: string | null
+  workflowId: string | null
+  uploadedByName: string | null
+  uploadedByEmail: string | null
+  notes: string
+}) {
+  const uploadDir = path.join(process.env.UPLOAD_DIR || './uploads', 'signatures', params.clientId)
+  await mkdir(uploadDir, { recursive: true })
+
+  const storedName = `${Date.now()}-${randomBytes(6).toString('hex')}-${sanitiseFileName(params.fileName)}`
+  const filePath = path.join(uploadDir, storedName)
+  await writeFile(filePath, params.content)
+
+  return db.clientDocument.create({
+    data: {
+      fileName: params.fileName,
+      filePath,
+      fileSize: params.content.length,
+      mimeType: params.mimeType,
+      category: params.category,
+      clientId: params.clientId,
+      workflowType: params.workflowType,
+      workflowId: params.workflowId,
+      uploadedByName: params.uploadedByName,
+      uploadedByEmail: params.uploadedByEmail,
+      notes: params.notes
+    }
+  })
+}
+
+export interface CreateSignatureRequestParams {
+  clientId: string
+  documentType: SignatureDocumentType
+  workflowType?: SignatureWorkflowType | null
+  workflowId?: string | null
+  title: string
+  message?: string | null
+  signerName: string
+  signerEmail: string
+  // Either a new upload or a document already held for the client
+  file?: File | null
+  documentId?: string | null
+  user: { id: string; name: string; email: string; role: string }
+}
+
+/**
+ * Send a document to the client for signature
+ * Accounts approval packs need a Ltd or non-Ltd workflow at REVIEW_DONE_HELLO_SIGN or
+ * SENT_TO_CLIENT_HELLO_SIGN with no other request outstanding; the first moves on to
+ * SENT_TO_CLIENT_HELLO_SIGN.
+ * @throws ESignatureError when the request can't be sent
+ */
+export async function createSignatureRequest(params: CreateSignatureRequestParams) {
+  if (!provider) {
+    throw new ESignatureError('E-signature is not configured', 503)
+  }
+
+  const client = await db.client.findUnique({
+    where: { id: params.clientId },
+    select: { id: true, companyName: true, isActive: true }
+  })
+  if (!client || !client.isActive) {
+    throw new ESignatureError('Client not found', 404)
+  }
+
+  let workflow = null
+  if (params.documentType === 'ACCOUNTS_APPROVAL') {
+    if (!params.workflowType || !params.workflowId) {
+      throw new ESignatureError('Choose the accounts workflow this approval is for')
+    }
+    workflow = await getPortalWorkflowSummary(params.clientId, params.workflowType, params.workflowId)
+    if (!workflow) {
+      throw new ESignatureError('Workflow not found for this client', 404)
+    }
+    if (!SIGNATURE_READY_STAGES.includes(workflow.currentStage)) {
+      throw new ESignatureError('Accounts can be sent for signature once the review is done')
+    }
+
+    const openRequest = await db.signatureRequest.findFirst({
+      where: {
+        workflowType: params.workflowType,
+        workflowId: params.workflowId,
+        status: { in: OPEN_SIGNATURE_STATUSES }
+      },
+      select: { id: true }
+    })
+    if (openRequest) {
+      throw new ESignatureError('These accounts are already waiting for the client to sign - cancel that request first', 409)
+    }
+  }
+
+  const workflowType = workflow?.workflowType || null
+  const workflowId = workflow?.workflowId || null
+
+  // The pack, either uploaded now or picked from the client's documents
+  let document
+  let content: Buffer
+  if (params.file) {
+    if (params.file.size === 0 || params.file.size > MAX_SIGNATURE_DOCUMENT_SIZE) {
+      throw new ESignatureError(`Documents must be smaller than ${MAX_SIGNATURE_DOCUMENT_SIZE / 1024 / 1024}MB`)
+    }
+    if (params.file.type !== 'application/pdf' && !params.file.name.toLowerCase().endsWith('.pdf')) {
+      throw new ESignatureError('Only PDF documents can be sent for signature')
+    }
+    content = Buffer.from(await params.file.arrayBuffer())
+    document = await storeSignatureDocument({
+      clientId: params.clientId,
+      fileName: params.file.name,
+      mimeType: 'application/pdf',
+      content,
+      category: SIGNATURE_DOCUMENT_TYPE_CONFIG[params.documentType].documentCategory,
+      workflowType,
+      workflowId,
+      uploadedByName: params.user.name,
+      uploadedByEmail: params.user.email,
+      notes: `Sent for signature: ${params.title}`
+    })
+  } else if (params.documentId) {
+    document = await db.clientDocument.findFirst({
+      where: { id: params.documentId, clientId: params.clientId }
+    })
+    if (!document) {
+      throw new ESignatureError('Document not found', 404)
+    }
+    if (document.mimeType !== 'application/pdf') {
+      throw new ESignatureError('Only PDF documents can be sent for signature')
+    }
+    try {
+      content = await readFile(document.filePath)
+    } catch {
+      throw new ESignatureError('The document file is missing from storage', 404)
+    }
+  } else {
+    throw new ESignatureError('Attach the document to be signed')
+  }
+
+  const baseUrl = process.env.NEXTAUTH_URL
+  const { providerRequestId } = await provider.createEnvelope({
+    title: params.title,
+    message: params.message,
+    signer: { name: params.signerName, email: params.signerEmail },
+    file: { name: document.fileName, mimeType: 'application/pdf', content },
+    callbackUrl: baseUrl ? `${baseUrl}/api/webhooks/e-signature` : undefined
+  })
+
+  const created = await db.signatureRequest.create({
+    data: {
+      clientId: params.clientId,
+      documentType: params.documentType,
+      workflowType,
+      workflowId,
+      title: params.title,
+      message: params.message || null,
+      signerName: params.signerName,
+      signerEmail: params.signerEmail,
+      provider: provider.name,
+      providerRequestId,
+      documentId: document.id,
+      sentByUserId: params.user.id
+    },
+    include: signatureRequestInclude
+  })
+
+  let stageAdvanced = false
+  if (workflow && workflow.currentStage === 'REVIEW_DONE_HELLO_SIGN') {
+    stageAdvanced = await advanceAccountsStage({
+      workflowType: workflow.workflowType as SignatureWorkflowType,
+      workflowId: workflow.workflowId,
+      fromStage: 'REVIEW_DONE_HELLO_SIGN',
+      toStage: 'SENT_TO_CLIENT_HELLO_SIGN',
+      milestoneData: {
+        sentToClientDate: new Date(),
+        sentToClientByUserId: params.user.id,
+        sentToClientByUserName: params.user.name
+      },
+      history: {
+        userId: params.user.id,
+        userName: params.user.name,
+        userEmail: params.user.email,
+        userRole: params.user.role,
+        notes: `Sent to ${params.signerName} (${params.signerEmail}) for e-signature`
+      }
+    })
+  }
+
+  if (stageAdvanced && workflow) {
+    await generateDocumentPackForStage(
+      workflow.workflowType as SignatureWorkflowType,
+      workflow.workflowId,
+      'SENT_TO_CLIENT_HELLO_SIGN'
+    ).catch(error => {
+      console.error('❌ Failed to generate accounts approval pack:', error)
+    })
+  }
+
+  return { signatureRequest: toSummary(created), workflow, stageAdvanced, companyName: client.companyName }
+}
+
+/**
+ * Withdraw an outstanding request at the provider
+ * The workflow stage is left where it is so the pack can be re-sent.
+ */
+export async function cancelSignatureRequest(clientId: string, signatureRequestId: string) {
+  const request = await findSignatureRequest({ id: signatureRequestId })
+  if (!request || request.clientId !== clientId) {
+    throw new ESignatureError('Signature request not found', 404)
+  }
+  if (!OPEN_SIGNATURE_STATUSES.includes(request.status)) {
+    throw new ESignatureError('Only requests still waiting for a signature can be cancelled')
+  }
+
+  if (provider && request.providerRequestId && request.provider === provider.name) {
+    await provider.cancelEnvelope(request.providerRequestId)
+  }
+
+  const cancelled = await db.signatureRequest.update({
+    where: { id: request.id },
+    data: { status: 'CANCELLED', cancelledAt: new Date() },
+    include: signatureRequestInclude
+  })
+  return toSummary(cancelled)
+}
+
+/**
+ * Apply a provider event to its signature request
+ * The request is claimed by moving it out of its open status before anything else is written,
+ * so provider retries and duplicate deliveries of the same event are ignored.
+ * @returns matched - false when the envelope isn't one of ours
+ */
+export async function handleSignatureEvent(
+  event: ProviderSignatureEvent
+): Promise<{ matched: boolean; status?: SignatureRequestStatusValue; stageAdvanced?: boolean }> {
+  const request = await findSignatureRequest({ providerRequestId: event.providerRequestId })
+  if (!request) {
+    return { matched: false }
+  }
+  if (!OPEN_SIGNATURE_STATUSES.includes(request.status)) {
+    return { matched: true, status: request.status }
+  }
+
+  const occurredAt = event.occurredAt && !isNaN(event.occurredAt.getTime()) ? event.occurredAt : new Date()
+
+  if (event.event === 'VIEWED') {
+    await db.signatureRequest.updateMany({
+      where: { id: request.id, status: 'SENT' },
+      data: { status: 'VIEWED', viewedAt: occurredAt }
+    })
+    return { matched: true, status: 'VIEWED' }
+  }
+
+  if (event.event === 'DECLINED') {
+    const { count } = await db.signatureRequest.updateMany({
+      where: { id: request.id, status: { in: OPEN_SIGNATURE_STATUSES } },
+      data: { status: 'DECLINED', declinedAt: occurredAt, declineReason: event.reason || null }
+    })
+    if (count === 0) {
+      return { matched: true }
+    }
+
+    await logActivity({
+      action: 'SIGNATURE_REQUEST_DECLINED',
+      clientId: request.clientId,
+      details: {
+        signatureRequestId: request.id,
+        title: request.title,
+        signerName: request.signerName,
+        reason: event.reason || null
+      }
+    })
+    await notifySignatureOutcome(request, 'DECLINED', false, event.reason).catch(error => {
+      console.error('❌ Failed to send signature declined notification:', error)
+    })
+    return { matched: true, status: 'DECLINED' }
+  }
+
+  // SIGNED
+  const { count } = await db.signatureRequest.updateMany({
+    where: { id: request.id, status: { in: OPEN_SIGNATURE_STATUSES } },
+    data: { status: 'SIGNED', signedAt: occurredAt }
+  })
+  if (count === 0) {
+    return { matched: true }
+  }
+
+  // Keep the signed copy with the rest of the client's documents
+  if (provider && request.provider === provider.name) {
+    try {
+      const signed = await provider.downloadSignedDocument(event.providerRequestId)
+      const baseName = signed.fileName.replace(/\.pdf$/i, '')
+      const signedDocument = await storeSignatureDocument({
+        clientId: request.clientId,
+        fileName: `${baseName} - signed.pdf`,
+        mimeType: 'application/pdf',
+        content: signed.content,
+        category: SIGNED_DOCUMENT_CATEGORY,
+        workflowType: request.workflowType,
+        workflowId: request.workflowId,
+        uploadedByName: request.signerName,
+        uploadedByEmail: request.signerEmail,
+        notes: `Signed via e-signature: ${request.title}`
+      })
+      await db.signatureRequest.update({
+        where: { id: request.id },
+        data: { signedDocumentId: signedDocument.id }
+      })
+    } catch (error) {
+      // Release the claim so the provider's retry can store the signed copy
+      await db.signatureRequest.update({
+        where: { id: request.id },
+        data: { status: request.status, signedAt: null }
+      })
+      throw error
+    }
+  } else {
+    console.warn(`⚠️ Signed event for ${request.provider} envelope but that provider is not active - signed copy not stored`)
+  }
+
+  const stageAdvanced = await markApprovedByClient(request, occurredAt)
+
+  await logActivity({
+    action: 'SIGNATURE_REQUEST_SIGNED',
+    clientId: request.clientId,
+    details: {
+      signatureRequestId: request.id,
+      title: request.title,
+      signerName: request.signerName,
+      workflowType: request.workflowType,
+      workflowId: request.workflowId,
+      stageAdvanced
+    }
+  })
+  await notifySignatureOutcome(request, 'SIGNED', stageAdvanced).catch(error => {
+    console.error('❌ Failed to send signature signed notification:', error)
+  })
+
+  return { matched: true, status: 'SIGNED', stageAdvanced }
+}
+
+/**
+ * Move a signed accounts workflow to APPROVED_BY_CLIENT
+ * Only workflows still at SENT_TO_CLIENT_HELLO_SIGN are moved, so a stage set by hand in the
+ * meantime is left alone.
+ * @returns true if the stage was changed
+ */
+async function markApprovedByClient(request: SignatureRequestWithRelations, signedAt: Date): Promise<boolean> {
+  if (request.documentType !== 'ACCOUNTS_APPROVAL' || !request.workflowType || !request.workflowId) {
+    return false
+  }
+
+  const attributedName = `${request.signerName} (Client)`
+  return advanceAccountsStage({
+    workflowType: request.workflowType as SignatureWorkflowType,
+    workflowId: request.workflowId,
+    fromStage: 'SENT_TO_CLIENT_HELLO_SIGN',
+    toStage: 'APPROVED_BY_CLIENT',
+    milestoneData: {
+      clientApprovedDate: signedAt,
+      clientApprovedByUserId: null,
+      clientApprovedByUserName: attributedName
+    },
+    history: {
+      userId: null,
+      userName: attributedName,
+      userEmail: request.signerEmail,
+      userRole: 'CLIENT',
+      notes: `Accounts approved by client via e-signature (${request.title})`
+    }
+  })
+}
+
+/**
+ * Move an accounts workflow between stages, with a history entry
+ * The stage only changes if it is still fromStage, so a concurrent move isn't overwritten.
+ * @returns true if the stage was changed
+ */
+async function advanceAccountsStage(params: {
+  workflowType: SignatureWorkflowType
+  workflowId: string
+  fromStage: AccountsWorkflowStage
+  toStage: AccountsWorkflowStage
+  milestoneData: Record<string, Date | string | null>
+  history: { userId: string | null; userName: string; userEmail: string; userRole: string; notes: string }
+}): Promise<boolean> {
+  const now = new Date()
+  const historyData = {
+    fromStage: params.fromStage,
+    toStage: params.toStage,
+    stageChangedAt: now,
+    ...params.history
+  }
+
+  if (params.workflowType === 'LTD') {
+    return db.$transaction(async (tx) => {
+      const { count } = await tx.ltdAccountsWorkflow.updateMany({
+        where: { id: params.workflowId, currentStage: params.fromStage },
+        data: { currentStage: params.toStage, ...params.milestoneData }
+      })
+      if (count === 0) return false
+
+      const lastHistory = await tx.ltdAccountsWorkflowHistory.findFirst({
+        where: { ltdAccountsWorkflowId: params.workflowId },
+        orderBy: { createdAt: 'desc' }
+      })
+      await tx.ltdAccountsWorkflowHistory.create({
+        data: {
+          ...historyData,
+          ltdAccountsWorkflowId: params.workflowId,
+          daysInPreviousStage: lastHistory ? calculateDaysBetween(lastHistory.createdAt, now) : null
+        }
+      })
+      return true
+    })
+  }
+
+  return db.$transaction(async (tx) => {
+    const { count } = await tx.nonLtdAccountsWorkflow.updateMany({
+      where: { id: params.workflowId, currentStage: params.fromStage },
+      data: { currentStage: params.toStage, ...params.milestoneData }
+    })
+    if (count === 0) return false
+
+    const lastHistory = await tx.nonLtdAccountsWorkflowHistory.findFirst({
+      where: { nonLtdAccountsWorkflowId: params.workflowId },
+      orderBy: { createdAt: 'desc' }
+    })
+    await tx.nonLtdAccountsWorkflowHistory.create({
+      data: {
+        ...historyData,
+        nonLtdAccountsWorkflowId: params.workflowId,
+        daysInPreviousStage: lastHistory ? calculateDaysBetween(lastHistory.createdAt, now) : null
+      }
+    })
+    return true
+  })
+}
+
+/**
+ * Let the workflow assignee (or whoever sent the request) know the client has signed or declined
+ */
+async function notifySignatureOutcome(
+  request: SignatureRequestWithRelations,
+  outcome: 'SIGNED' | 'DECLINED',
+  stageAdvanced: boolean,
+  reason?: string | null
+) {
+  const assignedUserId = request.workflowType === 'LTD' && request.workflowId
+    ? (await db.ltdAccountsWorkflow.findUnique({ where: { id: request.workflowId }, select: { assignedUserId: true } }))?.assignedUserId
+    : request.workflowType === 'NON_LTD' && request.workflowId
+      ? (await db.nonLtdAccountsWorkflow.findUnique({ where: { id: request.workflowId }, select: { assignedUserId: true } }))?.assignedUserId
+      : null
+
+  const userId = assignedUserId || request.sentByUserId
+  if (!userId) return
+
+  const client = await db.client.findUnique({
+    where: { id: request.clientId },
+    select: { companyName: true }
+  })
+  const companyName = client?.companyName || 'Client'
+
+  await createNotification({
+    userId,
+    category: request.workflowType ? 'ACCOUNTS' : 'REMINDERS',
+    type: outcome === 'SIGNED' ? 'SIGNATURE_REQUEST_SIGNED' : 'SIGNATURE_REQUEST_DECLINED',
+    title: outcome === 'SIGNED' ? 'Document Signed' : 'Signature Declined',
+    message: outcome === 'SIGNED'
+      ? `${request.signerName} signed "${request.title}" for ${companyName}${stageAdvanced ? ' - moved to Approved by Client' : ''}`
+      : `${request.signerName} declined to sign "${request.title}" for ${companyName}${reason ? `: ${reason}` : ''}`,
+    clientId: request.clientId,
+    relatedId: request.workflowId || request.id
+  })
+}
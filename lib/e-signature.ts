@@ -0,0 +1,83 @@
+/**
+ * E-Signature Client-Safe Utilities
+ *
+ * Accounts approval packs and engagement letters are sent to the client for signature through an
+ * e-signature provider. For Ltd and non-Ltd accounts this replaces the manual HelloSign steps:
+ * sending moves REVIEW_DONE_HELLO_SIGN to SENT_TO_CLIENT_HELLO_SIGN, and the signed callback moves
+ * the workflow on to APPROVED_BY_CLIENT.
+ */
+
+export const SIGNATURE_DOCUMENT_TYPES = ['ACCOUNTS_APPROVAL', 'ENGAGEMENT_LETTER'] as const
+
+export type SignatureDocumentType = typeof SIGNATURE_DOCUMENT_TYPES[number]
+
+export const SIGNATURE_WORKFLOW_TYPES = ['LTD', 'NON_LTD'] as const
+
+export type SignatureWorkflowType = typeof SIGNATURE_WORKFLOW_TYPES[number]
+
+export const SIGNATURE_REQUEST_STATUSES = ['SENT', 'VIEWED', 'SIGNED', 'DECLINED', 'CANCELLED'] as const
+
+export type SignatureRequestStatusValue = typeof SIGNATURE_REQUEST_STATUSES[number]
+
+// Events a provider reports back through /api/webhooks/e-signature
+export const SIGNATURE_EVENTS = ['VIEWED', 'SIGNED', 'DECLINED'] as const
+
+export type SignatureEvent = typeof SIGNATURE_EVENTS[number]
+
+export const SIGNATURE_DOCUMENT_TYPE_CONFIG: Record<SignatureDocumentType, { label: string; documentCategory: string }> = {
+  ACCOUNTS_APPROVAL: { label: 'Accounts approval', documentCategory: 'ACCOUNTS_PACK' },
+  ENGAGEMENT_LETTER: { label: 'Engagement letter', documentCategory: 'ENGAGEMENT_LETTER' }
+}
+
+export const SIGNATURE_REQUEST_STATUS_CONFIG: Record<SignatureRequestStatusValue, { label: string; color: string }> = {
+  SENT: { label: 'Awaiting signature', color: 'bg-blue-100 text-blue-800' },
+  VIEWED: { label: 'Viewed', color: 'bg-amber-100 text-amber-800' },
+  SIGNED: { label: 'Signed', color: 'bg-green-100 text-green-800' },
+  DECLINED: { label: 'Declined', color: 'bg-red-100 text-red-800' },
+  CANCELLED: { label: 'Cancelled', color: 'bg-gray-100 text-gray-800' }
+}
+
+// Requests the client can still act on - only one of these is allowed per workflow
+export const OPEN_SIGNATURE_STATUSES: SignatureRequestStatusValue[] = ['SENT', 'VIEWED']
+
+// Accounts stages from which a pack can be sent for signature
+export const SIGNATURE_READY_STAGES = ['REVIEW_DONE_HELLO_SIGN', 'SENT_TO_CLIENT_HELLO_SIGN']
+
+// Category of the signed copy in the client's documents
+export const SIGNED_DOCUMENT_CATEGORY = 'SIGNED_DOCUMENT'
+
+export const MAX_SIGNATURE_DOCUMENT_SIZE = 20 * 1024 * 1024 // 20MB
+
+export interface SignatureRequestSummary {
+  id: string
+  documentType: SignatureDocumentType
+  workflowType: SignatureWorkflowType | null
+  workflowId: string | null
+  title: string
+  message: string | null
+  signerName: string
+  signerEmail: string
+  provider: string
+  status: SignatureRequestStatusValue
+  sentAt: string
+  viewedAt: string | null
+  signedAt: string | null
+  declinedAt: string | null
+  declineReason: string | null
+  cancelledAt: string | null
+  sentByName: string | null
+  document: { id: string; fileName: string } | null
+  signedDocument: { id: string; fileName: string } | null
+}
+
+export function isSignatureDocumentType(value: unknown): value is SignatureDocumentType {
+  return typeof value === 'string' && (SIGNATURE_DOCUMENT_TYPES as readonly string[]).includes(value)
+}
+
+export function isSignatureWorkflowType(value: unknown): value is SignatureWorkflowType {
+  return typeof value === 'string' && (SIGNATURE_WORKFLOW_TYPES as readonly string[]).includes(value)
+}
+
+export function isSignatureEvent(value: unknown): value is SignatureEvent {
+  return typeof value === 'string' && (SIGNATURE_EVENTS as readonly string[]).includes(value)
+}
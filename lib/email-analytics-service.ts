@@ -0,0 +1,254 @@
+/**
+ * Email Analytics Server-Side Utilities
+ *
+ * recordEmailEvent is called by the Brevo and Resend webhooks for every event they can match to an
+ * EmailLog. getEmailEngagementAnalytics rolls the events up for the communication analytics page.
+ */
+
+import { Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+import {
+  NEVER_OPENS_MIN_CHASES,
+  withEngagementRates,
+  type EmailAnalyticsGranularity,
+  type EmailEngagementAnalytics,
+  type EmailEngagementBreakdownRow,
+  type EmailEventTimelineEntry,
+  type EmailEventTypeValue,
+  type NeverOpensClientRow
+} from '@/lib/email-analytics'
+import { TEMPLATE_CATEGORY_LABELS, isTemplateCategory } from '@/lib/client-contacts'
+
+// Soft bounces are retried by the provider and usually followed by a delivery, so they don't count
+const BOUNCE_EVENTS: EmailEventTypeValue[] = ['HARD_BOUNCE', 'BLOCKED']
+
+export interface RecordEmailEventParams {
+  emailLogId: string
+  provider: 'BREVO' | 'RESEND'
+  eventType: EmailEventTypeValue
+  rawEvent: string
+  occurredAt?: Date
+  link?: string | null
+  reason?: string | null
+}
+
+/**
+ * Add an event to an email's timeline
+ * @returns duplicate - true when the provider already sent this event and it was stored before
+ */
+export async function recordEmailEvent(params: RecordEmailEventParams): Promise<{ duplicate: boolean }> {
+  const occurredAt = params.occurredAt && !isNaN(params.occurredAt.getTime()) ? params.occurredAt : new Date()
+
+  try {
+    await db.emailEvent.create({
+      data: {
+        emailLogId: params.emailLogId,
+        provider: params.provider,
+        eventType: params.eventType,
+        rawEvent: params.rawEvent,
+        occurredAt,
+        link: params.link || null,
+        reason: params.reason || null
+      }
+    })
+    return { duplicate: false }
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return { duplicate: true }
+    }
+    throw error
+  }
+}
+
+/**
+ * Every provider event for an email, oldest first
+ */
+export async function getEmailEventTimeline(emailLogId: string): Promise<EmailEventTimelineEntry[]> {
+  const events = await db.emailEvent.findMany({
+    where: { emailLogId },
+    orderBy: { occurredAt: 'asc' }
+  })
+
+  return events.map(event => ({
+    id: event.id,
+    provider: event.provider,
+    eventType: event.eventType as EmailEventTypeValue,
+    rawEvent: event.rawEvent,
+    occurredAt: event.occurredAt.toISOString(),
+    link: event.link,
+    reason: event.reason
+  }))
+}
+
+// London calendar date of an instant, as YYYY-MM-DD
+function londonDateKey(date: Date): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: 'Europe/London',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date)
+}
+
+// Bucket key and label for the over-time breakdown; weeks start on Monday
+function periodFor(date: Date, granularity: EmailAnalyticsGranularity): { key: string; label: string } {
+  const [year, month, day] = londonDateKey(date).split('-').map(Number) as [number, number, number]
+
+  if (granularity === 'month') {
+    const monthStart = new Date(Date.UTC(year, month - 1, 1))
+    return {
+      key: `${year}-${String(month).padStart(2, '0')}`,
+      label: monthStart.toLocaleDateString('en-GB', { month: 'short', year: 'numeric', timeZone: 'UTC' })
+    }
+  }
+
+  const calendarDate = new Date(Date.UTC(year, month - 1, day))
+  const daysSinceMonday = (calendarDate.getUTCDay() + 6) % 7
+  const weekStart = new Date(calendarDate.getTime() - daysSinceMonday * 24 * 60 * 60 * 1000)
+  return {
+    key: weekStart.toISOString().slice(0, 10),
+    label: `w/c ${weekStart.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' })}`
+  }
+}
+
+/**
+ * Delivery, open and click rates for emails sent between from and to, broken down by template,
+ * template category, sender and period, plus the clients who never open chase emails
+ */
+export async function getEmailEngagementAnalytics(options: {
+  from: Date
+  to: Date
+  granularity: EmailAnalyticsGranularity
+}): Promise<EmailEngagementAnalytics> {
+  const sentInRange = { sentAt: { gte: options.from, lte: options.to } }
+
+  const [emailLogs, eventGroups] = await Promise.all([
+    db.emailLog.findMany({
+      where: sentInRange,
+      select: {
+        id: true,
+        status: true,
+        emailType: true,
+        sentAt: true,
+        clientId: true,
+        chaseStepId: true,
+        template: { select: { id: true, name: true, category: true } },
+        triggeredByUser: { select: { id: true, name: true } }
+      }
+    }),
+    db.emailEvent.groupBy({
+      by: ['emailLogId', 'eventType'],
+      where: { emailLog: sentInRange }
+    })
+  ])
+
+  const eventsByLog = new Map<string, Set<string>>()
+  for (const group of eventGroups) {
+    if (!eventsByLog.has(group.emailLogId)) eventsByLog.set(group.emailLogId, new Set())
+    eventsByLog.get(group.emailLogId)!.add(group.eventType)
+  }
+
+  type Counts = { label: string; sent: number; delivered: number; opened: number; clicked: number; bounced: number }
+  const newCounts = (label: string): Counts => ({ label, sent: 0, delivered: 0, opened: 0, clicked: 0, bounced: 0 })
+
+  const totals = newCounts('All emails')
+  const byTemplate = new Map<string, Counts>()
+  const byCategory = new Map<string, Counts>()
+  const bySender = new Map<string, Counts>()
+  const overTime = new Map<string, Counts>()
+  const chasesByClient = new Map<string, { sent: number; opened: boolean; lastSentAt: Date }>()
+
+  type Engagement = { delivered: boolean; opened: boolean; clicked: boolean; bounced: boolean }
+  const count = (counts: Counts, log: Engagement) => {
+    counts.sent++
+    if (log.delivered) counts.delivered++
+    if (log.opened) counts.opened++
+    if (log.clicked) counts.clicked++
+    if (log.bounced) counts.bounced++
+  }
+  const add = (breakdown: Map<string, Counts>, key: string, label: string, log: Engagement) => {
+    if (!breakdown.has(key)) breakdown.set(key, newCounts(label))
+    count(breakdown.get(key)!, log)
+  }
+
+  for (const log of emailLogs) {
+    const events = eventsByLog.get(log.id) || new Set<string>()
+    const clicked = events.has('CLICKED')
+    const opened = clicked || events.has('OPENED')
+    const bounced = log.status === 'BOUNCED' || BOUNCE_EVENTS.some(event => events.has(event))
+    // Opens prove delivery even when the delivered event was missed
+    const delivered = !bounced && (opened || events.has('DELIVERED') || log.status === 'DELIVERED')
+    const engagement = { delivered, opened, clicked, bounced }
+
+    count(totals, engagement)
+    add(byTemplate, log.template?.id || `type:${log.emailType}`, log.template?.name || `No template (${log.emailType})`, engagement)
+    add(byCategory, log.template?.category || 'NONE', log.template ? (isTemplateCategory(log.template.category) ? TEMPLATE_CATEGORY_LABELS[log.template.category] : log.template.category) : 'No template', engagement)
+    add(bySender, log.triggeredByUser?.id || 'automated', log.triggeredByUser?.name || 'Automated', engagement)
+    const period = periodFor(log.sentAt!, options.granularity)
+    add(overTime, period.key, period.label, engagement)
+
+    // Bounced chases are a contact health problem, not a client who ignores email
+    if (log.chaseStepId && log.clientId && !bounced) {
+      const chases = chasesByClient.get(log.clientId) || { sent: 0, opened: false, lastSentAt: log.sentAt! }
+      chases.sent++
+      chases.opened = chases.opened || opened
+      if (log.sentAt! > chases.lastSentAt) chases.lastSentAt = log.sentAt!
+      chasesByClient.set(log.clientId, chases)
+    }
+  }
+
+  const toRows = (breakdown: Map<string, Counts>): EmailEngagementBreakdownRow[] =>
+    Array.from(breakdown.entries()).map(([key, { label, ...counts }]) => ({ key, label, ...withEngagementRates(counts) }))
+
+  const bySent = (a: EmailEngagementBreakdownRow, b: EmailEngagementBreakdownRow) => b.sent - a.sent
+
+  const neverOpenedIds = Array.from(chasesByClient.entries())
+    .filter(([, chases]) => !chases.opened && chases.sent >= NEVER_OPENS_MIN_CHASES)
+    .map(([clientId]) => clientId)
+
+  const neverOpenedClients = neverOpenedIds.length > 0
+    ? await db.client.findMany({
+        where: { id: { in: neverOpenedIds }, isActive: true },
+        select: {
+          id: true,
+          clientCode: true,
+          companyName: true,
+          contactName: true,
+          contactEmail: true,
+          contactPhone: true,
+          assignedUser: { select: { name: true } }
+        }
+      })
+    : []
+
+  const neverOpens: NeverOpensClientRow[] = neverOpenedClients
+    .map(client => {
+      const chases = chasesByClient.get(client.id)!
+      return {
+        clientId: client.id,
+        clientCode: client.clientCode,
+        companyName: client.companyName,
+        contactName: client.contactName,
+        contactEmail: client.contactEmail,
+        contactPhone: client.contactPhone,
+        assignedUserName: client.assignedUser?.name || null,
+        chaseEmailsSent: chases.sent,
+        lastChaseSentAt: chases.lastSentAt.toISOString()
+      }
+    })
+    .sort((a, b) => b.chaseEmailsSent - a.chaseEmailsSent)
+
+  const { label: _label, ...totalCounts } = totals
+
+  return {
+    from: options.from.toISOString(),
+    to: options.to.toISOString(),
+    granularity: options.granularity,
+    totals: withEngagementRates(totalCounts),
+    byTemplate: toRows(byTemplate).sort(bySent),
+    byCategory: toRows(byCategory).sort(bySent),
+    bySender: toRows(bySender).sort(bySent),
+    overTime: toRows(overTime).sort((a, b) => a.key.localeCompare(b.key)),
+    neverOpens
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Email Analytics Client-Safe Utilities
+ *
+ * Every Brevo and Resend webhook event is stored as an EmailEvent against its EmailLog. Delivery,
+ * open and click rates are worked out per email from those events: an email counts as opened once,
+ * however many times it was opened, and a click implies an open (images may have been blocked).
+ */
+
+export const EMAIL_EVENT_TYPES = [
+  'SENT',
+  'DELIVERED',
+  'DEFERRED',
+  'OPENED',
+  'CLICKED',
+  'SOFT_BOUNCE',
+  'HARD_BOUNCE',
+  'BLOCKED',
+  'SPAM_COMPLAINT',
+  'UNSUBSCRIBED'
+] as const
+
+export type EmailEventTypeValue = typeof EMAIL_EVENT_TYPES[number]
+
+export const EMAIL_EVENT_CONFIG: Record<EmailEventTypeValue, { label: string; color: string }> = {
+  SENT: { label: 'Accepted by provider', color: 'bg-blue-100 text-blue-800' },
+  DELIVERED: { label: 'Delivered', color: 'bg-green-100 text-green-800' },
+  DEFERRED: { label: 'Delayed', color: 'bg-yellow-100 text-yellow-800' },
+  OPENED: { label: 'Opened', color: 'bg-emerald-100 text-emerald-800' },
+  CLICKED: { label: 'Link clicked', color: 'bg-purple-100 text-purple-800' },
+  SOFT_BOUNCE: { label: 'Soft bounce', color: 'bg-orange-100 text-orange-800' },
+  HARD_BOUNCE: { label: 'Hard bounce', color: 'bg-red-100 text-red-800' },
+  BLOCKED: { label: 'Blocked', color: 'bg-red-100 text-red-800' },
+  SPAM_COMPLAINT: { label: 'Marked as spam', color: 'bg-red-100 text-red-800' },
+  UNSUBSCRIBED: { label: 'Unsubscribed', color: 'bg-gray-100 text-gray-800' }
+}
+
+export interface EmailEventTimelineEntry {
+  id: string
+  provider: string
+  eventType: EmailEventTypeValue
+  rawEvent: string
+  occurredAt: string
+  link: string | null
+  reason: string | null
+}
+
+export const EMAIL_ANALYTICS_GRANULARITIES = ['week', 'month'] as const
+
+export type EmailAnalyticsGranularity = typeof EMAIL_ANALYTICS_GRANULARITIES[number]
+
+export interface EmailEngagementStats {
+  sent: number
+  delivered: number
+  opened: number
+  clicked: number
+  bounced: number
+  // Percentages of sent (delivery) and of delivered (open, click), one decimal place
+  deliveryRate: number
+  openRate: number
+  clickRate: number
+}
+
+export interface EmailEngagementBreakdownRow extends EmailEngagementStats {
+  key: string
+  label: string
+}
+
+export interface NeverOpensClientRow {
+  clientId: string
+  clientCode: string | null
+  companyName: string
+  contactName: string
+  contactEmail: string
+  contactPhone: string | null
+  assignedUserName: string | null
+  chaseEmailsSent: number
+  lastChaseSentAt: string
+}
+
+export interface EmailEngagementAnalytics {
+  from: string
+  to: string
+  granularity: EmailAnalyticsGranularity
+  totals: EmailEngagementStats
+  byTemplate: EmailEngagementBreakdownRow[]
+  byCategory: EmailEngagementBreakdownRow[]
+  bySender: EmailEngagementBreakdownRow[]
+  overTime: EmailEngagementBreakdownRow[]
+  neverOpens: NeverOpensClientRow[]
+}
+
+// A client is flagged once this many chase emails have gone unopened
+export const NEVER_OPENS_MIN_CHASES = 3
+
+export function isEmailAnalyticsGranularity(value: unknown): value is EmailAnalyticsGranularity {
+  return typeof value === 'string' && (EMAIL_ANALYTICS_GRANULARITIES as readonly string[]).includes(value)
+}
+
+/**
+ * Fill in the rates from the counts
+ */
+export function withEngagementRates(counts: Pick<EmailEngagementStats, 'sent' | 'delivered' | 'opened' | 'clicked' | 'bounced'>): EmailEngagementStats {
+  const percentage = (part: number, whole: number) => whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0
+  return {
+    ...counts,
+    deliveryRate: percentage(counts.delivered, counts.sent),
+    openRate: percentage(counts.opened, counts.delivered),
+    clickRate: percentage(counts.clicked, counts.delivered)
+  }
+}
@@ -0,0 +1,498 @@
+/**
+ * Email Queue Server-Side Utilities
+ *
+ * enqueueEmail writes the EmailLog (PENDING) and the queue item together, so nothing is lost if the
+ * provider is down. processEmailQueue sends due items through dualEmailService, and is run inline
+ * by the routes that send email and every few minutes by GitHub Actions for scheduled sends and retries.
+ */
+
+import { readFile } from 'fs/promises'
+import { db } from '@/lib/db'
+import { dualEmailService } from '@/lib/email-service-dual'
+import { getReplyToAddress, normaliseMessageId } from '@/lib/inbound-email'
+import { describeSuppressedRecipients, filterSuppressedRecipients } from '@/lib/email-suppression-service'
+import {
+  canCancelQueuedEmail,
+  canResendQueuedEmail,
+  type EmailQueueCounts,
+  type EmailQueueItemSummary,
+  type EmailQueueRecipient,
+  type EmailQueueStatusValue,
+  type EmailQueueView
+} from '@/lib/email-queue'
+
+export class EmailQueueError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'EmailQueueError'
+  }
+}
+
+// Minutes to wait before each retry; the last delay repeats for any further attempts
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60, 240]
+
+// A SENDING item locked for longer than this belongs to a run that died mid-send
+const STALE_LOCK_MS = 10 * 60 * 1000
+
+// How long to back off when every provider refuses with a rate limit error
+const RATE_LIMIT_BACKOFF_MS = 60 * 1000
+
+/**
+ * Emails per minute handed to the providers, shared by every run
+ * Brevo's transactional limit depends on the plan, so it is configured rather than hard-coded
+ */
+export function getEmailQueueRateLimit(): number {
+  const configured = parseInt(process.env.EMAIL_QUEUE_RATE_PER_MINUTE || '', 10)
+  return configured > 0 ? configured : 30
+}
+
+export interface EnqueueEmailParams {
+  to: EmailQueueRecipient[]
+  subject: string
+  // Complete email document - the queue sends it as is
+  htmlContent: string
+  textContent?: string
+  // What email history shows; defaults to htmlContent
+  logContent?: string
+  emailType: string
+  priority?: 'HIGH' | 'NORMAL' | 'LOW'
+  scheduledFor?: Date | null
+  createdBy?: { id: string; name: string } | null
+  clientId?: string | null
+  workflowType?: string | null
+  workflowId?: string | null
+  templateId?: string | null
+  templateVersionId?: string | null
+  templateData?: unknown
+  // Chase sequence step that produced the email
+  chaseStepId?: string | null
+  fromEmail?: string
+  fromName?: string
+  // Generated document packs to send with the email, copied onto the EmailLog
+  attachmentIds?: string[]
+}
+
+/**
+ * Put an email on the queue, with a PENDING EmailLog so it shows in history straight away
+ */
+export async function enqueueEmail(params: EnqueueEmailParams) {
+  const primaryRecipient = params.to[0]
+  if (!primaryRecipient) {
+    throw new EmailQueueError('No recipients specified')
+  }
+
+  return db.$transaction(async (tx) => {
+    const emailLog = await tx.emailLog.create({
+      data: {
+        recipientEmail: primaryRecipient.email,
+        recipientName: primaryRecipient.name,
+        subject: params.subject,
+        content: params.logContent || params.htmlContent,
+        emailType: params.emailType,
+        status: 'PENDING',
+        triggeredBy: params.createdBy?.id,
+        clientId: params.clientId || null,
+        workflowType: params.workflowType || null,
+        workflowId: params.workflowId || null,
+        templateId: params.templateId || null,
+        templateVersionId: params.templateVersionId || null,
+        templateData: params.templateData ? JSON.stringify(params.templateData) : null,
+        chaseStepId: params.chaseStepId || null,
+        ...(params.fromEmail ? { fromEmail: params.fromEmail } : {}),
+        ...(params.fromName ? { fromName: params.fromName } : {})
+      }
+    })
+
+    if (params.attachmentIds?.length) {
+      const packs = await tx.emailAttachment.findMany({ where: { id: { in: params.attachmentIds } } })
+      // The pack stays on the workflow so it can be sent again; the copy records what this email carried
+      await tx.emailAttachment.createMany({
+        data: packs.map(pack => ({
+          fileName: pack.fileName,
+          filePath: pack.filePath,
+          fileSize: pack.fileSize,
+          mimeType: pack.mimeType,
+          emailLogId: emailLog.id,
+          clientId: pack.clientId,
+          workflowType: pack.workflowType,
+          workflowId: pack.workflowId,
+          packType: pack.packType
+        }))
+      })
+    }
+
+    const queueItem = await tx.emailQueueItem.create({
+      data: {
+        emailLogId: emailLog.id,
+        recipients: JSON.stringify(params.to),
+        subject: params.subject,
+        htmlContent: params.htmlContent,
+        textContent: params.textContent || null,
+        priority: params.priority || 'NORMAL',
+        scheduledFor: params.scheduledFor || null,
+        nextAttemptAt: params.scheduledFor || new Date(),
+        createdById: params.createdBy?.id || null,
+        createdByName: params.createdBy?.name || null
+      }
+    })
+
+    return { queueItemId: queueItem.id, emailLogId: emailLog.id }
+  })
+}
+
+export interface EmailQueueRunResult {
+  processed: number
+  sent: number
+  retrying: number
+  deadLettered: number
+  // Stopped early because the per-minute allowance was used up or a provider rate-limited us
+  throttled: boolean
+  // Queue items that were sent in this run
+  sentIds: string[]
+}
+
+/**
+ * Send every due queue item, up to the rate limit and within the time budget
+ * @param options.ids - Only send these items (used to send a just-queued email immediately)
+ * @param options.timeBudgetMs - Stop starting new sends after this long, to stay inside the function timeout
+ */
+export async function processEmailQueue(
+  options: { ids?: string[]; limit?: number; timeBudgetMs?: number } = {}
+): Promise<EmailQueueRunResult> {
+  const startedAt = Date.now()
+  const timeBudgetMs = options.timeBudgetMs ?? 20000
+  const result: EmailQueueRunResult = { processed: 0, sent: 0, retrying: 0, deadLettered: 0, throttled: false, sentIds: [] }
+
+  // Release items left locked by a run that never finished
+  await db.emailQueueItem.updateMany({
+    where: { status: 'SENDING', lockedAt: { lt: new Date(Date.now() - STALE_LOCK_MS) } },
+    data: { status: 'PENDING', lockedAt: null }
+  })
+
+  const sentLastMinute = await db.emailQueueItem.count({
+    where: { sentAt: { gte: new Date(Date.now() - 60 * 1000) } }
+  })
+  const allowance = getEmailQueueRateLimit() - sentLastMinute
+
+  if (allowance <= 0) {
+    result.throttled = true
+    return result
+  }
+
+  const due = await db.emailQueueItem.findMany({
+    where: {
+      status: 'PENDING',
+      nextAttemptAt: { lte: new Date() },
+      ...(options.ids ? { id: { in: options.ids } } : {})
+    },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: Math.min(allowance, options.limit ?? 100),
+    select: { id: true }
+  })
+
+  for (const { id } of due) {
+    if (Date.now() - startedAt > timeBudgetMs) {
+      result.throttled = true
+      break
+    }
+
+    // Claim the item so an overlapping run doesn't send it too
+    const claimed = await db.emailQueueItem.updateMany({
+      where: { id, status: 'PENDING' },
+      data: { status: 'SENDING', lockedAt: new Date() }
+    })
+    if (claimed.count === 0) continue
+
+    const item = await db.emailQueueItem.findUnique({
+      where: { id },
+      include: {
+        emailLog: {
+          select: { clientId: true, attachments: { select: { fileName: true, filePath: true } } }
+        }
+      }
+    })
+    if (!item) continue
+
+    // Client replies go to the inbound mailbox so they are threaded onto the client record
+    const replyTo = item.emailLog.clientId ? getReplyToAddress(item.emailLogId) : null
+
+    result.processed++
+
+    // Addresses can be suppressed between queueing and sending, e.g. by a bounce from an earlier chase
+    const { deliverable, suppressed } = await filterSuppressedRecipients(JSON.parse(item.recipients) as EmailQueueRecipient[])
+
+    if (deliverable.length === 0) {
+      // Retrying can't help, so give up straight away
+      const reason = describeSuppressedRecipients(suppressed)
+      const now = new Date()
+      await db.$transaction([
+        db.emailQueueItem.update({
+          where: { id },
+          data: { status: 'DEAD_LETTER', deadLetteredAt: now, lastError: reason, lockedAt: null }
+        }),
+        db.emailLog.update({
+          where: { id: item.emailLogId },
+          data: { status: 'FAILED', failedAt: now, failureReason: reason }
+        })
+      ])
+      result.deadLettered++
+      continue
+    }
+
+    let attachments: Array<{ name: string; content: Buffer }>
+    try {
+      attachments = await Promise.all(
+        item.emailLog.attachments.map(async file => ({ name: file.fileName, content: await readFile(file.filePath) }))
+      )
+    } catch (error) {
+      // The file has gone from disk, so retrying can't help either
+      const reason = `Attachment could not be read: ${error instanceof Error ? error.message : 'Unknown error'}`
+      const now = new Date()
+      await db.$transaction([
+        db.emailQueueItem.update({
+          where: { id },
+          data: { status: 'DEAD_LETTER', deadLetteredAt: now, lastError: reason, lockedAt: null }
+        }),
+        db.emailLog.update({
+          where: { id: item.emailLogId },
+          data: { status: 'FAILED', failedAt: now, failureReason: reason }
+        })
+      ])
+      result.deadLettered++
+      continue
+    }
+
+    const delivery = await dualEmailService.deliverEmail({
+      to: deliverable,
+      subject: item.subject,
+      htmlContent: item.htmlContent,
+      textContent: item.textContent || undefined,
+      priority: item.priority as 'HIGH' | 'NORMAL' | 'LOW',
+      ...(replyTo ? { replyTo: { email: replyTo } } : {}),
+      ...(attachments.length ? { attachments } : {}),
+      wrapContent: false
+    })
+    const now = new Date()
+
+    if (delivery.success) {
+      await db.$transaction([
+        db.emailQueueItem.update({
+          where: { id },
+          data: {
+            status: 'SENT',
+            attempts: item.attempts + 1,
+            sentAt: now,
+            messageId: delivery.messageId || null,
+            lastService: delivery.service,
+            lockedAt: null
+          }
+        }),
+        db.emailLog.update({
+          where: { id: item.emailLogId },
+          data: {
+            status: 'SENT',
+            sentAt: now,
+            failedAt: null,
+            failureReason: null,
+            messageId: delivery.messageId ? normaliseMessageId(delivery.messageId) : null
+          }
+        })
+      ])
+      result.sent++
+      result.sentIds.push(id)
+      continue
+    }
+
+    if (delivery.rateLimited) {
+      // Not the email's fault - put it back without using up an attempt and stop this run
+      await db.emailQueueItem.update({
+        where: { id },
+        data: {
+          status: 'PENDING',
+          nextAttemptAt: new Date(now.getTime() + RATE_LIMIT_BACKOFF_MS),
+          lastError: delivery.error || 'Rate limited',
+          lastService: delivery.service,
+          lockedAt: null
+        }
+      })
+      result.throttled = true
+      break
+    }
+
+    const attempts = item.attempts + 1
+
+    if (attempts >= item.maxAttempts) {
+      await db.$transaction([
+        db.emailQueueItem.update({
+          where: { id },
+          data: {
+            status: 'DEAD_LETTER',
+            attempts,
+            deadLetteredAt: now,
+            lastError: delivery.error || 'Unknown error',
+            lastService: delivery.service,
+            lockedAt: null
+          }
+        }),
+        db.emailLog.update({
+          where: { id: item.emailLogId },
+          data: {
+            status: 'FAILED',
+            failedAt: now,
+            failureReason: `Gave up after ${attempts} attempts. ${delivery.error || 'Unknown error'}`
+          }
+        })
+      ])
+      result.deadLettered++
+      continue
+    }
+
+    const delayMinutes = RETRY_DELAYS_MINUTES[Math.min(attempts, RETRY_DELAYS_MINUTES.length) - 1]!
+    await db.emailQueueItem.update({
+      where: { id },
+      data: {
+        status: 'PENDING',
+        attempts,
+        nextAttemptAt: new Date(now.getTime() + delayMinutes * 60 * 1000),
+        lastError: delivery.error || 'Unknown error',
+        lastService: delivery.service,
+        lockedAt: null
+      }
+    })
+    result.retrying++
+  }
+
+  return result
+}
+
+/**
+ * Stop a queued or scheduled email going out
+ * @throws EmailQueueError when the email has already been sent or given up on
+ */
+export async function cancelQueuedEmail(id: string, cancelledBy: { name: string }) {
+  const item = await db.emailQueueItem.findUnique({ where: { id } })
+  if (!item) {
+    throw new EmailQueueError('Queued email not found', 404)
+  }
+  if (!canCancelQueuedEmail(item.status)) {
+    throw new EmailQueueError('Only emails waiting to be sent can be cancelled', 409)
+  }
+
+  const now = new Date()
+  // Guard on status so an email being picked up for sending at the same moment isn't cancelled
+  const cancelled = await db.emailQueueItem.updateMany({
+    where: { id, status: 'PENDING' },
+    data: { status: 'CANCELLED', cancelledAt: now, cancelledByName: cancelledBy.name }
+  })
+  if (cancelled.count === 0) {
+    throw new EmailQueueError('This email is being sent and can no longer be cancelled', 409)
+  }
+
+  await db.emailLog.update({
+    where: { id: item.emailLogId },
+    data: { status: 'FAILED', failedAt: now, failureReason: `Cancelled by ${cancelledBy.name} before sending` }
+  })
+
+  return item
+}
+
+/**
+ * Put a dead-lettered or cancelled email back on the queue to be sent now, with a fresh set of attempts
+ * @throws EmailQueueError when the email is still queued or already sent
+ */
+export async function resendQueuedEmail(id: string) {
+  const item = await db.emailQueueItem.findUnique({ where: { id } })
+  if (!item) {
+    throw new EmailQueueError('Queued email not found', 404)
+  }
+  if (!canResendQueuedEmail(item.status)) {
+    throw new EmailQueueError('Only dead-lettered or cancelled emails can be resent', 409)
+  }
+
+  const [updated] = await db.$transaction([
+    db.emailQueueItem.update({
+      where: { id },
+      data: {
+        status: 'PENDING',
+        attempts: 0,
+        scheduledFor: null,
+        nextAttemptAt: new Date(),
+        lastError: null,
+        deadLetteredAt: null,
+        cancelledAt: null,
+        cancelledByName: null
+      }
+    }),
+    db.emailLog.update({
+      where: { id: item.emailLogId },
+      data: { status: 'PENDING', failedAt: null, failureReason: null }
+    })
+  ])
+
+  return updated
+}
+
+function viewFilter(view: EmailQueueView, now: Date) {
+  switch (view) {
+    case 'scheduled':
+      return { status: 'PENDING' as const, scheduledFor: { gt: now } }
+    case 'dead_letter':
+      return { status: 'DEAD_LETTER' as const }
+    default:
+      return {
+        status: { in: ['PENDING', 'SENDING'] as EmailQueueStatusValue[] },
+        OR: [{ scheduledFor: null }, { scheduledFor: { lte: now } }]
+      }
+  }
+}
+
+/**
+ * Items in one view of the queue, soonest first (most recent first for dead letters)
+ */
+export async function getEmailQueueItems(view: EmailQueueView, limit = 200): Promise<EmailQueueItemSummary[]> {
+  const items = await db.emailQueueItem.findMany({
+    where: viewFilter(view, new Date()),
+    orderBy: view === 'dead_letter' ? { deadLetteredAt: 'desc' } : { nextAttemptAt: 'asc' },
+    take: limit,
+    include: {
+      emailLog: {
+        select: {
+          emailType: true,
+          client: { select: { id: true, companyName: true, clientCode: true } }
+        }
+      }
+    }
+  })
+
+  return items.map(item => ({
+    id: item.id,
+    emailLogId: item.emailLogId,
+    status: item.status,
+    recipients: JSON.parse(item.recipients) as EmailQueueRecipient[],
+    subject: item.subject,
+    htmlContent: item.htmlContent,
+    emailType: item.emailLog.emailType,
+    client: item.emailLog.client,
+    scheduledFor: item.scheduledFor?.toISOString() || null,
+    nextAttemptAt: item.nextAttemptAt.toISOString(),
+    attempts: item.attempts,
+    maxAttempts: item.maxAttempts,
+    lastError: item.lastError,
+    lastService: item.lastService,
+    createdById: item.createdById,
+    createdByName: item.createdByName,
+    createdAt: item.createdAt.toISOString(),
+    deadLetteredAt: item.deadLetteredAt?.toISOString() || null
+  }))
+}
+
+export async function getEmailQueueCounts(): Promise<EmailQueueCounts> {
+  const now = new Date()
+  const [pending, scheduled, deadLetter] = await Promise.all([
+    db.emailQueueItem.count({ where: viewFilter('pending', now) }),
+    db.emailQueueItem.count({ where: viewFilter('scheduled', now) }),
+    db.emailQueueItem.count({ where: viewFilter('dead_letter', now) })
+  ])
+
+  return { pending, scheduled, dead_letter: deadLetter }
+}
@@ -0,0 +1,76 @@
+/**
+ * Email Queue Client-Safe Utilities
+ *
+ * Outbound email is queued before it is handed to Brevo (or Resend on failover). The queue holds
+ * emails scheduled for later, throttles sending to the provider rate limit, and retries failures
+ * with a growing delay until they are sent or dead-lettered.
+ */
+
+export const EMAIL_QUEUE_STATUSES = ['PENDING', 'SENDING', 'SENT', 'DEAD_LETTER', 'CANCELLED'] as const
+
+export type EmailQueueStatusValue = typeof EMAIL_QUEUE_STATUSES[number]
+
+export const EMAIL_QUEUE_STATUS_CONFIG: Record<EmailQueueStatusValue, { label: string; color: string }> = {
+  PENDING: { label: 'Pending', color: 'bg-yellow-100 text-yellow-800' },
+  SENDING: { label: 'Sending', color: 'bg-blue-100 text-blue-800' },
+  SENT: { label: 'Sent', color: 'bg-green-100 text-green-800' },
+  DEAD_LETTER: { label: 'Dead letter', color: 'bg-red-100 text-red-800' },
+  CANCELLED: { label: 'Cancelled', color: 'bg-gray-100 text-gray-800' }
+}
+
+// Pending is due now or waiting to retry; scheduled is waiting for a future send time
+export const EMAIL_QUEUE_VIEWS = ['pending', 'scheduled', 'dead_letter'] as const
+
+export type EmailQueueView = typeof EMAIL_QUEUE_VIEWS[number]
+
+export const EMAIL_QUEUE_VIEW_LABELS: Record<EmailQueueView, string> = {
+  pending: 'Pending',
+  scheduled: 'Scheduled',
+  dead_letter: 'Dead letter'
+}
+
+export type EmailQueueCounts = Record<EmailQueueView, number>
+
+export interface EmailQueueRecipient {
+  email: string
+  name?: string
+}
+
+export interface EmailQueueItemSummary {
+  id: string
+  emailLogId: string
+  status: EmailQueueStatusValue
+  recipients: EmailQueueRecipient[]
+  subject: string
+  htmlContent: string
+  emailType: string
+  client: { id: string; companyName: string; clientCode: string } | null
+  scheduledFor: string | null
+  nextAttemptAt: string
+  attempts: number
+  maxAttempts: number
+  lastError: string | null
+  lastService: string | null
+  createdById: string | null
+  createdByName: string | null
+  createdAt: string
+  deadLetteredAt: string | null
+}
+
+export function isEmailQueueView(value: unknown): value is EmailQueueView {
+  return typeof value === 'string' && (EMAIL_QUEUE_VIEWS as readonly string[]).includes(value)
+}
+
+/**
+ * Only emails that have not been handed to a provider can be cancelled
+ */
+export function canCancelQueuedEmail(status: EmailQueueStatusValue): boolean {
+  return status === 'PENDING'
+}
+
+/**
+ * Dead-lettered and cancelled emails can be put back on the queue
+ */
+export function canResendQueuedEmail(status: EmailQueueStatusValue): boolean {
+  return status === 'DEAD_LETTER' || status === 'CANCELLED'
+}
@@ -13,6 +13,8 @@
  */
 
 import { Resend } from 'resend'
+import { db } from '@/lib/db'
+import { describeSuppressedRecipients, filterSuppressedRecipients } from '@/lib/email-suppression-service'
 
 // Enhanced email configuration supporting both providers
 interface DualEmailConfig {
@@ -50,6 +52,9 @@ interface SendEmailParams {
   clientId?: string
   templateData?: any
   priority?: 'HIGH' | 'NORMAL' | 'LOW'
+  // False when htmlContent is already a complete email document (e.g. queued emails)
+  wrapContent?: boolean
+  attachments?: Array<{ name: string; content: Buffer }>
 }
 
 interface EmailResult {
@@ -59,6 +64,13 @@ interface EmailResult {
   service: 'brevo' | 'resend'
   failoverUsed?: boolean
   deliveryTime?: number
+  // Every recipient is on the suppression list, so nothing was sent
+  suppressed?: boolean
+}
+
+export interface DeliveryResult extends EmailResult {
+  // Every provider that was tried refused the email for exceeding its rate limit
+  rateLimited?: boolean
 }
 
 class DualEmailService {
@@ -167,8 +179,13 @@ class DualEmailService {
           bcc: params.bcc,
           replyTo: params.replyTo || { email: emailSettings.replyToEmail, name: emailSettings.senderName },
           subject: params.subject,
-          htmlContent: await this.wrapWithCleanTemplate(params.htmlContent, emailSettings.emailSignature),
+          htmlContent: params.wrapContent === false
+            ? params.htmlContent
+            : await this.wrapWithCleanTemplate(params.htmlContent, emailSettings.emailSignature),
           textContent: params.textContent || this.htmlToText(params.htmlContent),
+          ...(params.attachments?.length
+            ? { attachment: params.attachments.map(file => ({ name: file.name, content: file.content.toString('base64') })) }
+            : {}),
           headers: {
             'X-Mailer': 'Numericalz Internal Management System',
             'X-Service': 'Brevo-Primary',
@@ -222,8 +239,13 @@ class DualEmailService {
         bcc: params.bcc?.map(recipient => recipient.email),
         replyTo: params.replyTo?.email || emailSettings.replyToEmail,
         subject: params.subject,
-        html: await this.wrapWithCleanTemplate(params.htmlContent, emailSettings.emailSignature),
+        html: params.wrapContent === false
+          ? params.htmlContent
+          : await this.wrapWithCleanTemplate(params.htmlContent, emailSettings.emailSignature),
         text: params.textContent || this.htmlToText(params.htmlContent),
+        ...(params.attachments?.length
+          ? { attachments: params.attachments.map(file => ({ filename: file.name, content: file.content })) }
+          : {}),
         headers: {
           'X-Mailer': 'Numericalz Internal Management System',
           'X-Service': 'Resend-Fallback',
@@ -231,6 +253,11 @@ class DualEmailService {
         }
       })
 
+      // The Resend SDK reports API errors in the result rather than throwing
+      if (result.error) {
+        throw new Error(`Resend API error: ${result.error.name} - ${result.error.message}`)
+      }
+
       const deliveryTime = Date.now() - startTime
 
       console.log('✅ Email sent successfully via Resend', { 
@@ -263,6 +290,47 @@ class DualEmailService {
       }
     }
 
+    // Never email an address that hard-bounced, complained or unsubscribed
+    try {
+      const { deliverable, suppressed } = await filterSuppressedRecipients(params.to)
+      if (suppressed.length > 0) {
+        const reason = describeSuppressedRecipients(suppressed)
+        console.warn(`🚫 ${reason}`)
+
+        if (deliverable.length === 0) {
+          await db.emailLog.create({
+            data: {
+              recipientEmail: params.to[0]!.email,
+              recipientName: params.to[0]!.name,
+              subject: params.subject,
+              content: params.htmlContent,
+              emailType: params.emailType || 'MANUAL',
+              status: 'FAILED',
+              failedAt: new Date(),
+              failureReason: reason,
+              triggeredBy: params.triggeredBy,
+              clientId: params.clientId,
+              templateData: params.templateData ? JSON.stringify(params.templateData) : null
+            }
+          })
+          return { success: false, error: reason, service: 'brevo', suppressed: true }
+        }
+
+        params = { ...params, to: deliverable }
+      }
+
+      if (params.cc?.length || params.bcc?.length) {
+        params = {
+          ...params,
+          cc: params.cc && (await filterSuppressedRecipients(params.cc)).deliverable,
+          bcc: params.bcc && (await filterSuppressedRecipients(params.bcc)).deliverable
+        }
+      }
+    } catch (suppressionError) {
+      // A suppression lookup failure shouldn't stop client email going out
+      console.error('Failed to check the suppression list:', suppressionError)
+    }
+
     const primaryRecipient = params.to[0]!
     let emailLogId: string | null = null
     
@@ -525,6 +593,48 @@ class DualEmailService {
     }
   }
 
+  /**
+   * Hand an email to Brevo, falling back to Resend, without writing an EmailLog
+   * Used by the email queue, which owns the log and decides whether to retry
+   */
+  async deliverEmail(params: SendEmailParams): Promise<DeliveryResult> {
+    if (!params.to || params.to.length === 0) {
+      return { success: false, error: 'No recipients specified', service: 'brevo' }
+    }
+
+    const emailSettings = await this.getEmailSettings()
+    const errors: string[] = []
+    let service: EmailResult['service'] = 'brevo'
+
+    if (this.config.brevoApiKey) {
+      try {
+        return await this.sendViaBrevo(params, emailSettings)
+      } catch (error) {
+        errors.push(`Brevo: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    if (this.resend) {
+      service = 'resend'
+      try {
+        return { ...(await this.sendViaResend(params, emailSettings)), failoverUsed: !!this.config.brevoApiKey }
+      } catch (error) {
+        errors.push(`Resend: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    if (errors.length === 0) {
+      return { success: false, error: 'No email service configured', service }
+    }
+
+    return {
+      success: false,
+      error: errors.join('. '),
+      service,
+      rateLimited: errors.every(error => /\b429\b|rate_limit/i.test(error))
+    }
+  }
+
   /**
    * Send workflow notification with dual provider support
    */
@@ -6,6 +6,7 @@
  */
 
 import { EmailTemplates } from './email-templates'
+import { getReplyToAddress, normaliseMessageId } from './inbound-email'
 
 interface EmailConfig {
   apiKey: string
@@ -41,7 +42,9 @@ interface SendEmailParams {
   workflowType?: string
   workflowId?: string
   templateId?: string
+  templateVersionId?: string | null
   templateData?: any
+  chaseStepId?: string
 }
 
 interface WorkflowEmailParams {
@@ -242,7 +245,9 @@ class EmailService {
             fromEmail: emailSettings.senderEmail,
             fromName: emailSettings.senderName,
             templateId: params.templateId,
+            templateVersionId: params.templateVersionId,
             templateData: params.templateData ? JSON.stringify(params.templateData) : null,
+            chaseStepId: params.chaseStepId,
             createdAt: new Date(),
             updatedAt: new Date()
           }
@@ -272,6 +277,9 @@ class EmailService {
         emailHeaders['Importance'] = 'High'
       }
 
+      // Client replies go to the inbound mailbox so they are threaded onto the client record
+      const clientReplyTo = emailLogId && params.clientId ? getReplyToAddress(emailLogId) : null
+
       // Send email via Brevo API
       const response = await fetch('https://api.brevo.com/v3/smtp/email', {
         method: 'POST',
@@ -287,7 +295,7 @@ class EmailService {
           to: params.to,
           cc: params.cc,
           bcc: params.bcc,
-          replyTo: params.replyTo || { email: emailSettings.replyToEmail, name: emailSettings.senderName },
+          replyTo: params.replyTo || { email: clientReplyTo || emailSettings.replyToEmail, name: emailSettings.senderName },
           subject: params.subject,
           htmlContent: await this.wrapWithCleanTemplate(params.htmlContent),
           textContent: params.textContent || this.htmlToText(params.htmlContent),
@@ -347,6 +355,7 @@ class EmailService {
               status: 'SENT',
               sentAt: new Date(),
               updatedAt: new Date(),
+              messageId: result.messageId ? normaliseMessageId(result.messageId) : null,
               // Store Brevo message ID in templateData for webhook matching
               templateData: params.templateData ? 
                 JSON.stringify({
@@ -0,0 +1,218 @@
+/**
+ * Email Suppression Server-Side Utilities
+ *
+ * suppressEmailAddress is called by the Brevo and Resend webhooks. The send paths
+ * (DualEmailService.sendEmail, the email queue and bulk email) drop suppressed recipients with
+ * filterSuppressedRecipients before anything reaches a provider.
+ */
+
+import { db } from '@/lib/db'
+import { logActivity } from '@/lib/activity-logger'
+import {
+  EMAIL_SUPPRESSION_REASON_CONFIG,
+  normaliseSuppressedEmail,
+  type ContactEmailSuppression,
+  type ContactHealthReportRow,
+  type EmailSuppressionReasonValue
+} from '@/lib/email-suppression'
+
+export class EmailSuppressionError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'EmailSuppressionError'
+  }
+}
+
+export interface SuppressEmailParams {
+  email: string
+  reason: EmailSuppressionReasonValue
+  source: 'BREVO' | 'RESEND' | 'MANUAL'
+  detail?: string | null
+  emailLogId?: string | null
+  occurredAt?: Date
+}
+
+/**
+ * Add an address to the suppression list, or record another event against it
+ * A lifted suppression is re-applied, since the address has failed again
+ */
+export async function suppressEmailAddress(params: SuppressEmailParams) {
+  const email = normaliseSuppressedEmail(params.email)
+  const occurredAt = params.occurredAt && !isNaN(params.occurredAt.getTime()) ? params.occurredAt : new Date()
+
+  const existing = await db.emailSuppression.findUnique({ where: { email } })
+
+  const suppression = await db.emailSuppression.upsert({
+    where: { email },
+    create: {
+      email,
+      reason: params.reason,
+      source: params.source,
+      detail: params.detail || null,
+      lastEventAt: occurredAt,
+      emailLogId: params.emailLogId || null
+    },
+    update: {
+      reason: params.reason,
+      source: params.source,
+      detail: params.detail || null,
+      eventCount: { increment: 1 },
+      lastEventAt: occurredAt,
+      emailLogId: params.emailLogId || null,
+      liftedAt: null,
+      liftedByName: null
+    }
+  })
+
+  // Only note it on the client record when the address becomes suppressed, not on every repeat event
+  if (!existing || existing.liftedAt) {
+    const clients = await db.client.findMany({
+      where: { contactEmail: { equals: email, mode: 'insensitive' } },
+      select: { id: true }
+    })
+
+    for (const client of clients) {
+      await logActivity({
+        action: 'CONTACT_EMAIL_SUPPRESSED',
+        clientId: client.id,
+        details: {
+          email,
+          reason: params.reason,
+          source: params.source,
+          detail: params.detail || undefined,
+          emailLogId: params.emailLogId || undefined
+        }
+      })
+    }
+
+    console.log(`🚫 ${email} added to the suppression list (${params.reason} via ${params.source})`)
+  }
+
+  return suppression
+}
+
+/**
+ * Active suppressions for the given addresses, keyed by lower-cased address
+ */
+export async function getActiveSuppressions(emails: string[]) {
+  const normalised = Array.from(new Set(emails.filter(Boolean).map(normaliseSuppressedEmail)))
+  if (normalised.length === 0) return new Map<string, { reason: EmailSuppressionReasonValue; lastEventAt: Date }>()
+
+  const suppressions = await db.emailSuppression.findMany({
+    where: { email: { in: normalised }, liftedAt: null },
+    select: { email: true, reason: true, lastEventAt: true }
+  })
+
+  return new Map(suppressions.map(suppression => [
+    suppression.email,
+    { reason: suppression.reason as EmailSuppressionReasonValue, lastEventAt: suppression.lastEventAt }
+  ]))
+}
+
+/**
+ * Split recipients into those we can email and those on the suppression list
+ */
+export async function filterSuppressedRecipients<T extends { email: string }>(recipients: T[]) {
+  const suppressions = await getActiveSuppressions(recipients.map(recipient => recipient.email))
+
+  const deliverable: T[] = []
+  const suppressed: Array<T & { reason: EmailSuppressionReasonValue }> = []
+
+  for (const recipient of recipients) {
+    const suppression = suppressions.get(normaliseSuppressedEmail(recipient.email))
+    if (suppression) {
+      suppressed.push({ ...recipient, reason: suppression.reason })
+    } else {
+      deliverable.push(recipient)
+    }
+  }
+
+  return { deliverable, suppressed }
+}
+
+/**
+ * Reason shown in email history and bulk results when a recipient is skipped
+ */
+export function describeSuppressedRecipients(suppressed: Array<{ email: string; reason: EmailSuppressionReasonValue }>): string {
+  const addresses = suppressed.map(recipient =>
+    `${recipient.email} (${EMAIL_SUPPRESSION_REASON_CONFIG[recipient.reason].label.toLowerCase()})`
+  )
+  return `Not sent - on the suppression list: ${addresses.join(', ')}`
+}
+
+/**
+ * Add contactEmailSuppression to each client, for the contact email invalid badge
+ */
+export async function attachContactEmailHealth<T extends { contactEmail: string | null }>(clients: T[]) {
+  const suppressions = await getActiveSuppressions(clients.flatMap(client => client.contactEmail ? [client.contactEmail] : []))
+
+  return clients.map(client => {
+    const suppression = client.contactEmail ? suppressions.get(normaliseSuppressedEmail(client.contactEmail)) : undefined
+    const contactEmailSuppression: ContactEmailSuppression | null = suppression
+      ? { reason: suppression.reason, lastEventAt: suppression.lastEventAt.toISOString() }
+      : null
+    return { ...client, contactEmailSuppression }
+  })
+}
+
+/**
+ * Let email go to a suppressed address again, e.g. once the client confirms the mailbox works
+ * @throws EmailSuppressionError when the suppression doesn't exist or was already lifted
+ */
+export async function liftEmailSuppression(id: string, liftedBy: { name: string }) {
+  const suppression = await db.emailSuppression.findUnique({ where: { id } })
+  if (!suppression) {
+    throw new EmailSuppressionError('Suppression not found', 404)
+  }
+  if (suppression.liftedAt) {
+    throw new EmailSuppressionError('This address is no longer suppressed')
+  }
+
+  return db.emailSuppression.update({
+    where: { id },
+    data: { liftedAt: new Date(), liftedByName: liftedBy.name }
+  })
+}
+
+/**
+ * Active clients whose contact email is on the suppression list, most recent event first
+ */
+export async function getContactHealthReport(): Promise<ContactHealthReportRow[]> {
+  const suppressions = await db.emailSuppression.findMany({
+    where: { liftedAt: null },
+    orderBy: { lastEventAt: 'desc' }
+  })
+  if (suppressions.length === 0) return []
+
+  const clients = await db.client.findMany({
+    where: {
+      isActive: true,
+      OR: suppressions.map(suppression => ({ contactEmail: { equals: suppression.email, mode: 'insensitive' as const } }))
+    },
+    select: {
+      id: true,
+      clientCode: true,
+      companyName: true,
+      contactName: true,
+      contactEmail: true,
+      assignedUser: { select: { id: true, name: true } }
+    },
+    orderBy: { companyName: 'asc' }
+  })
+
+  return suppressions.flatMap(suppression => {
+    const matching = clients.filter(client => client.contactEmail && normaliseSuppressedEmail(client.contactEmail) === suppression.email)
+    if (matching.length === 0) return []
+
+    return [{
+      suppressionId: suppression.id,
+      email: suppression.email,
+      reason: suppression.reason as EmailSuppressionReasonValue,
+      source: suppression.source,
+      detail: suppression.detail,
+      eventCount: suppression.eventCount,
+      lastEventAt: suppression.lastEventAt.toISOString(),
+      clients: matching.map(({ contactEmail, ...client }) => client)
+    }]
+  })
+}
@@ -0,0 +1,59 @@
+/**
+ * Email Suppression Client-Safe Utilities
+ *
+ * Addresses that hard-bounced, marked our email as spam or unsubscribed are put on a suppression
+ * list by the Brevo and Resend webhooks. Nothing is sent to a suppressed address until its client's
+ * contact email is corrected or a manager lifts the suppression.
+ */
+
+export const EMAIL_SUPPRESSION_REASONS = ['HARD_BOUNCE', 'SPAM_COMPLAINT', 'UNSUBSCRIBED'] as const
+
+export type EmailSuppressionReasonValue = typeof EMAIL_SUPPRESSION_REASONS[number]
+
+export const EMAIL_SUPPRESSION_REASON_CONFIG: Record<EmailSuppressionReasonValue, { label: string; description: string; color: string }> = {
+  HARD_BOUNCE: {
+    label: 'Bounced',
+    description: 'The address does not exist or permanently rejects email',
+    color: 'bg-red-100 text-red-800'
+  },
+  SPAM_COMPLAINT: {
+    label: 'Spam complaint',
+    description: 'The recipient marked one of our emails as spam',
+    color: 'bg-orange-100 text-orange-800'
+  },
+  UNSUBSCRIBED: {
+    label: 'Unsubscribed',
+    description: 'The recipient unsubscribed from our emails',
+    color: 'bg-gray-100 text-gray-800'
+  }
+}
+
+// What the clients table needs to flag a client whose contact email can't be used
+export interface ContactEmailSuppression {
+  reason: EmailSuppressionReasonValue
+  lastEventAt: string
+}
+
+export interface ContactHealthReportRow {
+  suppressionId: string
+  email: string
+  reason: EmailSuppressionReasonValue
+  source: string
+  detail: string | null
+  eventCount: number
+  lastEventAt: string
+  clients: Array<{
+    id: string
+    clientCode: string | null
+    companyName: string
+    contactName: string
+    assignedUser: { id: string; name: string } | null
+  }>
+}
+
+/**
+ * Suppression list entries are keyed by the lower-cased address
+ */
+export function normaliseSuppressedEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
@@ -0,0 +1,564 @@
+/**
+ * Email Template Engine
+ *
+ * A small Handlebars-style language for EmailTemplate subjects and bodies:
+ *
+ *   {{client.companyName}}                         variable
+ *   {{vat.filingDueDate | date "short"}}           filters, chained left to right
+ *   {{client.contactName | default "Sir/Madam"}}   fallback for empty values
+ *   {{#if vat.isOverdue}} ... {{else}} ... {{/if}}  conditionals (also {{#unless}})
+ *   {{#if vat.daysUntilDue <= 7}} ... {{/if}}      comparisons against a literal or variable
+ *   {{#each vat.outstandingQuarters as quarter}}   loops, with @index, @first and @last
+ *     {{quarter.quarterPeriod}}
+ *   {{else}} nothing outstanding {{/each}}
+ *   {{! comment }}                                  ignored
+ *
+ * Templates are parsed once into a tree; parse errors carry the line number so the template editor
+ * can point at them. Variable names, types and categories come from EMAIL_VARIABLES via the validator
+ * in lib/email-variables.ts - this module knows nothing about clients or workflows.
+ */
+
+export class TemplateSyntaxError extends Error {
+  constructor(message: string, public line: number) {
+    super(`Line ${line}: ${message}`)
+    this.name = 'TemplateSyntaxError'
+  }
+}
+
+export type TemplateLiteral = string | number | boolean | null
+
+export type TemplateOperand =
+  | { kind: 'path'; path: string }
+  | { kind: 'literal'; value: TemplateLiteral }
+
+export type TemplateComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>='
+
+export interface TemplateCondition {
+  left: TemplateOperand
+  operator?: TemplateComparisonOperator
+  right?: TemplateOperand
+}
+
+export interface TemplateFilterCall {
+  name: string
+  args: TemplateLiteral[]
+}
+
+export type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string; filters: TemplateFilterCall[]; line: number }
+  | { type: 'if'; negate: boolean; condition: TemplateCondition; body: TemplateNode[]; elseBody: TemplateNode[]; line: number }
+  | { type: 'each'; path: string; alias: string; body: TemplateNode[]; elseBody: TemplateNode[]; line: number }
+
+export interface TemplateFilter {
+  description: string
+  // Variable types the filter accepts; undefined means any
+  accepts?: Array<'string' | 'date' | 'number' | 'boolean' | 'list'>
+  apply: (value: unknown, args: TemplateLiteral[]) => unknown
+}
+
+export interface RenderTemplateOptions {
+  /**
+   * Text for a variable that resolves to nothing and has no default filter
+   * Receives the variable path, so callers can keep per-namespace fallbacks
+   */
+  fallback?: (path: string) => string
+}
+
+const LOOP_VARIABLES = ['@index', '@first', '@last'] as const
+
+const PATH_PATTERN = /^(@index|@first|@last|[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)*)$/
+const OPERATORS: TemplateComparisonOperator[] = ['==', '!=', '<=', '>=', '<', '>']
+
+const UK_DATE_FORMATS: Record<string, Intl.DateTimeFormatOptions> = {
+  short: { day: '2-digit', month: '2-digit', year: 'numeric' },
+  medium: { day: 'numeric', month: 'short', year: 'numeric' },
+  long: { day: 'numeric', month: 'long', year: 'numeric' },
+  full: { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' }
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value)
+    return isNaN(date.getTime()) ? null : date
+  }
+  return null
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)
+}
+
+/**
+ * Render a value that has been through any filters
+ * Dates default to the long UK format so {{vat.filingDueDate}} reads the same as it always has
+ */
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) {
+    return value.toLocaleDateString('en-GB', { ...UK_DATE_FORMATS.long, timeZone: 'Europe/London' })
+  }
+  if (Array.isArray(value)) return value.map(stringify).join(', ')
+  return String(value)
+}
+
+export const TEMPLATE_FILTERS: Record<string, TemplateFilter> = {
+  date: {
+    description: 'Format a date: "short" (01/02/2025), "medium" (1 Feb 2025), "long" (1 February 2025) or "full"',
+    accepts: ['date'],
+    apply: (value, [format]) => {
+      const date = toDate(value)
+      if (!date) return value
+      const options = UK_DATE_FORMATS[String(format || 'long')] || UK_DATE_FORMATS.long
+      return date.toLocaleDateString('en-GB', { ...options, timeZone: 'Europe/London' })
+    }
+  },
+  datetime: {
+    description: 'Format a date with the time, in London time',
+    accepts: ['date'],
+    apply: (value) => {
+      const date = toDate(value)
+      if (!date) return value
+      return date.toLocaleString('en-GB', { ...UK_DATE_FORMATS.long, hour: '2-digit', minute: '2-digit', timeZone: 'Europe/London' })
+    }
+  },
+  currency: {
+    description: 'Format a number as pounds, e.g. £1,234.50',
+    accepts: ['number'],
+    apply: (value) => {
+      const amount = Number(value)
+      if (isEmpty(value) || isNaN(amount)) return value
+      return new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP' }).format(amount)
+    }
+  },
+  number: {
+    description: 'Format a number with thousands separators and optional decimal places',
+    accepts: ['number'],
+    apply: (value, [decimals]) => {
+      const amount = Number(value)
+      if (isEmpty(value) || isNaN(amount)) return value
+      const places = typeof decimals === 'number' ? decimals : undefined
+      return new Intl.NumberFormat('en-GB', { minimumFractionDigits: places, maximumFractionDigits: places ?? 2 }).format(amount)
+    }
+  },
+  upper: {
+    description: 'UPPER CASE',
+    apply: (value) => isEmpty(value) ? value : stringify(value).toUpperCase()
+  },
+  lower: {
+    description: 'lower case',
+    apply: (value) => isEmpty(value) ? value : stringify(value).toLowerCase()
+  },
+  capitalize: {
+    description: 'Capitalise the first letter',
+    apply: (value) => {
+      if (isEmpty(value)) return value
+      const text = stringify(value)
+      return text.charAt(0).toUpperCase() + text.slice(1)
+    }
+  },
+  yesno: {
+    description: 'Show "Yes" or "No", or the two given words',
+    accepts: ['boolean'],
+    apply: (value, [yes, no]) => value ? String(yes ?? 'Yes') : String(no ?? 'No')
+  },
+  count: {
+    description: 'Number of items in a list',
+    accepts: ['list'],
+    apply: (value) => Array.isArray(value) ? value.length : 0
+  },
+  default: {
+    description: 'Use the given text when the value is empty',
+    apply: (value, [fallback]) => isEmpty(value) ? fallback ?? '' : value
+  }
+}
+
+/**
+ * Parse a literal: "text", 'text', a number, true, false or null
+ * @returns undefined when the token is not a literal
+ */
+function parseLiteral(token: string): TemplateLiteral | undefined {
+  if (/^"(?:[^"\\]|\\.)*"$/.test(token) || /^'(?:[^'\\]|\\.)*'$/.test(token)) {
+    return token.slice(1, -1).replace(/\\(.)/g, '$1')
+  }
+  if (/^-?\d+(\.\d+)?$/.test(token)) return Number(token)
+  if (token === 'true') return true
+  if (token === 'false') return false
+  if (token === 'null') return null
+  return undefined
+}
+
+/**
+ * Split on whitespace and commas, keeping quoted strings together
+ */
+function splitArguments(source: string, line: number): string[] {
+  const tokens: string[] = []
+  const pattern = /\s*("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[^\s,"']+)\s*,?/gy
+  let match: RegExpExecArray | null
+  let consumed = 0
+
+  while (consumed < source.length && (match = pattern.exec(source)) !== null) {
+    tokens.push(match[1]!)
+    consumed = pattern.lastIndex
+  }
+
+  if (source.slice(consumed).trim() !== '') {
+    throw new TemplateSyntaxError(`Could not read "${source.slice(consumed).trim()}"`, line)
+  }
+
+  return tokens
+}
+
+function parseOperand(token: string, line: number): TemplateOperand {
+  const literal = parseLiteral(token)
+  if (literal !== undefined) return { kind: 'literal', value: literal }
+  if (token === 'this' || PATH_PATTERN.test(token)) return { kind: 'path', path: token }
+  throw new TemplateSyntaxError(`"${token}" is not a variable name or value`, line)
+}
+
+function parseCondition(source: string, line: number): TemplateCondition {
+  if (!source.trim()) {
+    throw new TemplateSyntaxError('Condition is missing', line)
+  }
+
+  for (const operator of OPERATORS) {
+    const index = source.indexOf(` ${operator} `)
+    if (index !== -1) {
+      return {
+        left: parseOperand(source.slice(0, index).trim(), line),
+        operator,
+        right: parseOperand(source.slice(index + operator.length + 2).trim(), line)
+      }
+    }
+  }
+
+  return { left: parseOperand(source.trim(), line) }
+}
+
+function parseVariable(source: string, line: number): { path: string; filters: TemplateFilterCall[] } {
+  const [pathPart, ...filterParts] = source.split('|')
+  const path = pathPart!.trim()
+
+  if (path !== 'this' && !PATH_PATTERN.test(path)) {
+    throw new TemplateSyntaxError(`"${path}" is not a valid variable name`, line)
+  }
+
+  const filters = filterParts.map(part => {
+    const [name, ...argTokens] = splitArguments(part.trim(), line)
+    if (!name) {
+      throw new TemplateSyntaxError('Empty filter after "|"', line)
+    }
+
+    return {
+      name,
+      args: argTokens.map(token => {
+        const literal = parseLiteral(token)
+        if (literal === undefined) {
+          throw new TemplateSyntaxError(`Filter argument ${token} must be a quoted string or a number`, line)
+        }
+        return literal
+      })
+    }
+  })
+
+  return { path, filters }
+}
+
+/**
+ * Parse a template into a tree
+ * @throws TemplateSyntaxError for unclosed or mismatched blocks and malformed tags
+ */
+export function parseTemplate(template: string): TemplateNode[] {
+  type OpenBlock = {
+    node: Extract<TemplateNode, { type: 'if' | 'each' }>
+    keyword: 'if' | 'unless' | 'each'
+    inElse: boolean
+  }
+
+  const root: TemplateNode[] = []
+  const stack: OpenBlock[] = []
+  const tagPattern = /\{\{([\s\S]*?)\}\}/g
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+
+  const currentChildren = (): TemplateNode[] => {
+    const open = stack[stack.length - 1]
+    if (!open) return root
+    return open.inElse ? open.node.elseBody : open.node.body
+  }
+  const lineAt = (index: number) => template.slice(0, index).split('\n').length
+
+  while ((match = tagPattern.exec(template)) !== null) {
+    const line = lineAt(match.index)
+    const tag = match[1]!.trim()
+
+    if (match.index > lastIndex) {
+      currentChildren().push({ type: 'text', value: template.slice(lastIndex, match.index) })
+    }
+    lastIndex = tagPattern.lastIndex
+
+    if (tag.startsWith('!')) {
+      continue
+    }
+
+    if (tag.startsWith('#')) {
+      const [keyword = '', ...rest] = tag.slice(1).split(/\s+/)
+      const argument = rest.join(' ')
+
+      if (keyword === 'if' || keyword === 'unless') {
+        const node = {
+          type: 'if' as const,
+          negate: keyword === 'unless',
+          condition: parseCondition(argument, line),
+          body: [],
+          elseBody: [],
+          line
+        }
+        currentChildren().push(node)
+        stack.push({ node, keyword, inElse: false })
+      } else if (keyword === 'each') {
+        const eachMatch = argument.match(/^(\S+)(?:\s+as\s+([A-Za-z_][A-Za-z0-9_]*))?$/)
+        if (!eachMatch || !PATH_PATTERN.test(eachMatch[1]!)) {
+          throw new TemplateSyntaxError('Loops are written {{#each list as item}}', line)
+        }
+        const node = {
+          type: 'each' as const,
+          path: eachMatch[1]!,
+          alias: eachMatch[2] || 'this',
+          body: [],
+          elseBody: [],
+          line
+        }
+        currentChildren().push(node)
+        stack.push({ node, keyword, inElse: false })
+      } else {
+        throw new TemplateSyntaxError(`Unknown block "#${keyword}" - use #if, #unless or #each`, line)
+      }
+      continue
+    }
+
+    if (tag.startsWith('/')) {
+      const keyword = tag.slice(1).trim()
+      const open = stack.pop()
+      if (!open) {
+        throw new TemplateSyntaxError(`{{/${keyword}}} has no matching opening block`, line)
+      }
+      if (open.keyword !== keyword) {
+        throw new TemplateSyntaxError(`{{/${keyword}}} closes {{#${open.keyword}}} from line ${open.node.line}`, line)
+      }
+      continue
+    }
+
+    if (tag === 'else') {
+      const open = stack[stack.length - 1]
+      if (!open) {
+        throw new TemplateSyntaxError('{{else}} is only allowed inside #if, #unless or #each', line)
+      }
+      if (open.inElse) {
+        throw new TemplateSyntaxError(`{{#${open.keyword}}} from line ${open.node.line} already has an {{else}}`, line)
+      }
+      open.inElse = true
+      continue
+    }
+
+    if (!tag) {
+      throw new TemplateSyntaxError('Empty {{ }} tag', line)
+    }
+
+    currentChildren().push({ type: 'variable', ...parseVariable(tag, line), line })
+  }
+
+  const unclosed = stack.pop()
+  if (unclosed) {
+    throw new TemplateSyntaxError(`{{#${unclosed.keyword}}} is never closed`, unclosed.node.line)
+  }
+
+  if (lastIndex < template.length) {
+    root.push({ type: 'text', value: template.slice(lastIndex) })
+  }
+
+  return root
+}
+
+type Scope = Record<string, unknown>
+
+function resolvePath(path: string, scopes: Scope[]): unknown {
+  // Innermost loop scope wins, so {{quarter.x}} resolves to the loop item
+  const [head, ...rest] = path.split('.')
+
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i]!
+    if (head! in scope) {
+      return rest.reduce<unknown>((value, key) => {
+        if (value === null || value === undefined || typeof value !== 'object') return undefined
+        return (value as Record<string, unknown>)[key]
+      }, scope[head!])
+    }
+  }
+
+  return undefined
+}
+
+function evaluateOperand(operand: TemplateOperand, scopes: Scope[]): unknown {
+  return operand.kind === 'literal' ? operand.value : resolvePath(operand.path, scopes)
+}
+
+function isNumeric(value: unknown): boolean {
+  if (typeof value === 'number') return !isNaN(value)
+  return typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))
+}
+
+// "1" equals 1 because that is what template authors expect; other values compare as text
+function valuesEqual(a: unknown, b: unknown): boolean {
+  const aMissing = a === null || a === undefined
+  const bMissing = b === null || b === undefined
+  if (aMissing || bMissing) return aMissing && bMissing
+  if (isNumeric(a) && isNumeric(b)) return Number(a) === Number(b)
+  return String(a) === String(b)
+}
+
+function evaluateCondition(condition: TemplateCondition, scopes: Scope[]): boolean {
+  const left = evaluateOperand(condition.left, scopes)
+
+  if (!condition.operator || !condition.right) {
+    return !isEmpty(left) && left !== false && left !== 0
+  }
+
+  const right = evaluateOperand(condition.right, scopes)
+  const comparable = (value: unknown) => value instanceof Date ? value.getTime() : value
+  const a = comparable(left) as number | string
+  const b = comparable(right) as number | string
+
+  switch (condition.operator) {
+    case '==': return valuesEqual(a, b)
+    case '!=': return !valuesEqual(a, b)
+    case '<': return a < b
+    case '<=': return a <= b
+    case '>': return a > b
+    case '>=': return a >= b
+  }
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: Scope[], options: RenderTemplateOptions): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value
+
+      case 'variable': {
+        let value = resolvePath(node.path, scopes)
+        for (const filter of node.filters) {
+          const definition = TEMPLATE_FILTERS[filter.name]
+          if (definition) value = definition.apply(value, filter.args)
+        }
+        if (isEmpty(value) && options.fallback) {
+          return options.fallback(node.path)
+        }
+        return stringify(value)
+      }
+
+      case 'if': {
+        const result = evaluateCondition(node.condition, scopes)
+        return renderNodes(result !== node.negate ? node.body : node.elseBody, scopes, options)
+      }
+
+      case 'each': {
+        const list = resolvePath(node.path, scopes)
+        if (!Array.isArray(list) || list.length === 0) {
+          return renderNodes(node.elseBody, scopes, options)
+        }
+        return list.map((item, index) => renderNodes(node.body, [
+          ...scopes,
+          {
+            [node.alias]: item,
+            '@index': index + 1,
+            '@first': index === 0,
+            '@last': index === list.length - 1
+          }
+        ], options)).join('')
+      }
+    }
+  }).join('')
+}
+
+/**
+ * Render a parsed template against a context object
+ */
+export function renderTemplateNodes(
+  nodes: TemplateNode[],
+  context: Record<string, unknown>,
+  options: RenderTemplateOptions = {}
+): string {
+  return renderNodes(nodes, [context], options)
+}
+
+/**
+ * Parse and render in one go
+ * @throws TemplateSyntaxError when the template cannot be parsed
+ */
+export function renderTemplate(
+  template: string,
+  context: Record<string, unknown>,
+  options: RenderTemplateOptions = {}
+): string {
+  return renderTemplateNodes(parseTemplate(template), context, options)
+}
+
+/**
+ * Every variable reference in a parsed template, with the loop aliases in scope at that point
+ * Used by the validator to check names and types against EMAIL_VARIABLES
+ */
+export interface TemplateReference {
+  path: string
+  line: number
+  usage: 'output' | 'condition' | 'loop'
+  filters: TemplateFilterCall[]
+  comparison?: TemplateComparisonOperator
+  // Loop aliases in scope, innermost last, mapped to the list variable they iterate
+  loopAliases: Array<{ alias: string; listPath: string }>
+}
+
+export function collectTemplateReferences(nodes: TemplateNode[]): TemplateReference[] {
+  const references: TemplateReference[] = []
+
+  const walk = (children: TemplateNode[], loopAliases: TemplateReference['loopAliases']) => {
+    children.forEach(node => {
+      switch (node.type) {
+        case 'variable':
+          references.push({ path: node.path, line: node.line, usage: 'output', filters: node.filters, loopAliases })
+          break
+
+        case 'if':
+          [node.condition.left, node.condition.right].forEach(operand => {
+            if (operand?.kind === 'path') {
+              references.push({
+                path: operand.path,
+                line: node.line,
+                usage: 'condition',
+                filters: [],
+                comparison: node.condition.operator,
+                loopAliases
+              })
+            }
+          })
+          walk(node.body, loopAliases)
+          walk(node.elseBody, loopAliases)
+          break
+
+        case 'each':
+          references.push({ path: node.path, line: node.line, usage: 'loop', filters: [], loopAliases })
+          walk(node.body, [...loopAliases, { alias: node.alias, listPath: node.path }])
+          walk(node.elseBody, loopAliases)
+          break
+      }
+    })
+  }
+
+  walk(nodes, [])
+  return references
+}
+
+export function isLoopVariable(path: string): boolean {
+  return (LOOP_VARIABLES as readonly string[]).includes(path)
+}
@@ -0,0 +1,265 @@
+/**
+ * Email Template Versions Server-Side Utilities
+ *
+ * EmailTemplate.subject/htmlContent/textContent/smsContent always hold the published wording, so everything that
+ * sends email keeps reading the template row. Versions record every save, and each EmailLog is pinned
+ * to the version that was live when it was rendered.
+ */
+
+import { db } from '@/lib/db'
+import type { EmailTemplateVersionSummary } from '@/lib/email-template-versions'
+
+export class TemplateVersionError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'TemplateVersionError'
+  }
+}
+
+interface VersionAuthor {
+  id: string
+  name: string
+}
+
+export interface TemplateWording {
+  subject: string
+  htmlContent: string
+  textContent?: string | null
+  smsContent?: string | null
+}
+
+/**
+ * Create version 1 from the template's current wording if it has no versions yet
+ * Called when a template is created, and lazily for templates created by seed scripts
+ * @returns Id of the published version
+ */
+export async function ensureInitialVersion(
+  templateId: string,
+  changeNote = 'Wording before version history'
+): Promise<string | null> {
+  const template = await db.emailTemplate.findUnique({
+    where: { id: templateId },
+    include: { creator: { select: { name: true } } }
+  })
+  if (!template) return null
+  if (template.publishedVersionId) return template.publishedVersionId
+
+  const existing = await db.emailTemplateVersion.count({ where: { templateId } })
+  if (existing > 0) return null
+
+  const version = await db.emailTemplateVersion.create({
+    data: {
+      templateId,
+      version: 1,
+      subject: template.subject,
+      htmlContent: template.htmlContent,
+      textContent: template.textContent,
+      smsContent: template.smsContent,
+      status: 'PUBLISHED',
+      changeNote,
+      createdById: template.createdBy,
+      createdByName: template.creator?.name || 'System',
+      createdAt: template.updatedAt,
+      publishedAt: template.updatedAt,
+      publishedById: template.createdBy,
+      publishedByName: template.creator?.name || 'System'
+    }
+  })
+
+  await db.emailTemplate.update({
+    where: { id: templateId },
+    data: { publishedVersionId: version.id }
+  })
+
+  return version.id
+}
+
+/**
+ * Version id to pin on an EmailLog for a template that is being sent now
+ */
+export async function resolvePublishedTemplateVersionId(
+  template: { id: string; publishedVersionId?: string | null }
+): Promise<string | null> {
+  if (template.publishedVersionId) return template.publishedVersionId
+
+  try {
+    return await ensureInitialVersion(template.id)
+  } catch (error) {
+    // Pinning is best-effort - never stop an email going out because of it
+    console.error('Failed to create initial template version:', error)
+    return null
+  }
+}
+
+/**
+ * Save a new version of a template's wording, publishing it straight away if asked
+ * Publishing supersedes the previous published version and any older drafts
+ */
+export async function createTemplateVersion(
+  templateId: string,
+  wording: TemplateWording,
+  author: VersionAuthor,
+  options: { publish: boolean; changeNote?: string | null; restoredFromVersion?: number | null }
+) {
+  await ensureInitialVersion(templateId)
+
+  return db.$transaction(async (tx) => {
+    const latest = await tx.emailTemplateVersion.findFirst({
+      where: { templateId },
+      orderBy: { version: 'desc' },
+      select: { version: true }
+    })
+    const now = new Date()
+
+    const version = await tx.emailTemplateVersion.create({
+      data: {
+        templateId,
+        version: (latest?.version || 0) + 1,
+        subject: wording.subject,
+        htmlContent: wording.htmlContent,
+        textContent: wording.textContent || null,
+        smsContent: wording.smsContent || null,
+        status: options.publish ? 'PUBLISHED' : 'DRAFT',
+        changeNote: options.changeNote || null,
+        restoredFromVersion: options.restoredFromVersion ?? null,
+        createdById: author.id,
+        createdByName: author.name,
+        createdAt: now,
+        ...(options.publish ? { publishedAt: now, publishedById: author.id, publishedByName: author.name } : {})
+      }
+    })
+
+    if (options.publish) {
+      await tx.emailTemplateVersion.updateMany({
+        where: {
+          templateId,
+          id: { not: version.id },
+          OR: [{ status: 'PUBLISHED' }, { status: 'DRAFT', version: { lt: version.version } }]
+        },
+        data: { status: 'SUPERSEDED' }
+      })
+      await tx.emailTemplate.update({
+        where: { id: templateId },
+        data: {
+          subject: version.subject,
+          htmlContent: version.htmlContent,
+          textContent: version.textContent,
+          smsContent: version.smsContent,
+          publishedVersionId: version.id
+        }
+      })
+    }
+
+    return version
+  })
+}
+
+/**
+ * Publish an existing draft as it stands
+ * @throws TemplateVersionError when the version is not a draft of this template
+ */
+export async function publishTemplateVersion(templateId: string, versionId: string, author: VersionAuthor) {
+  const draft = await db.emailTemplateVersion.findFirst({
+    where: { id: versionId, templateId }
+  })
+
+  if (!draft) {
+    throw new TemplateVersionError('Template version not found', 404)
+  }
+  if (draft.status !== 'DRAFT') {
+    throw new TemplateVersionError('Only drafts can be published - roll back to restore an older version')
+  }
+
+  return db.$transaction(async (tx) => {
+    const now = new Date()
+    const version = await tx.emailTemplateVersion.update({
+      where: { id: draft.id },
+      data: { status: 'PUBLISHED', publishedAt: now, publishedById: author.id, publishedByName: author.name }
+    })
+
+    await tx.emailTemplateVersion.updateMany({
+      where: {
+        templateId,
+        id: { not: draft.id },
+        OR: [{ status: 'PUBLISHED' }, { status: 'DRAFT', version: { lt: draft.version } }]
+      },
+      data: { status: 'SUPERSEDED' }
+    })
+    await tx.emailTemplate.update({
+      where: { id: templateId },
+      data: {
+        subject: draft.subject,
+        htmlContent: draft.htmlContent,
+        textContent: draft.textContent,
+        smsContent: draft.smsContent,
+        publishedVersionId: draft.id
+      }
+    })
+
+    return version
+  })
+}
+
+/**
+ * Put an earlier version's wording live again, as a new published version so history stays linear
+ * @throws TemplateVersionError when the version is not part of this template or is already live
+ */
+export async function rollbackTemplateVersion(templateId: string, versionId: string, author: VersionAuthor) {
+  const target = await db.emailTemplateVersion.findFirst({
+    where: { id: versionId, templateId }
+  })
+
+  if (!target) {
+    throw new TemplateVersionError('Template version not found', 404)
+  }
+  if (target.status === 'PUBLISHED') {
+    throw new TemplateVersionError('This version is already published')
+  }
+
+  return createTemplateVersion(
+    templateId,
+    { subject: target.subject, htmlContent: target.htmlContent, textContent: target.textContent, smsContent: target.smsContent },
+    author,
+    { publish: true, changeNote: `Rolled back to version ${target.version}`, restoredFromVersion: target.version }
+  )
+}
+
+/**
+ * Full version history, newest first, with how many emails were sent from each version
+ */
+export async function getTemplateVersions(templateId: string): Promise<EmailTemplateVersionSummary[]> {
+  await ensureInitialVersion(templateId)
+
+  const versions = await db.emailTemplateVersion.findMany({
+    where: { templateId },
+    orderBy: { version: 'desc' },
+    include: { _count: { select: { emailLogs: true } } }
+  })
+
+  return versions.map(version => ({
+    id: version.id,
+    version: version.version,
+    subject: version.subject,
+    htmlContent: version.htmlContent,
+    textContent: version.textContent,
+    smsContent: version.smsContent,
+    status: version.status,
+    changeNote: version.changeNote,
+    restoredFromVersion: version.restoredFromVersion,
+    createdByName: version.createdByName,
+    createdAt: version.createdAt.toISOString(),
+    publishedAt: version.publishedAt?.toISOString() || null,
+    publishedByName: version.publishedByName,
+    emailCount: version._count.emailLogs
+  }))
+}
+
+/**
+ * Latest draft saved since the published version, which the editor opens instead of the live wording
+ */
+export async function getPendingDraft(templateId: string) {
+  return db.emailTemplateVersion.findFirst({
+    where: { templateId, status: 'DRAFT' },
+    orderBy: { version: 'desc' }
+  })
+}
@@ -0,0 +1,110 @@
+/**
+ * Email Template Versions Client-Safe Utilities
+ *
+ * Every save of a template's wording creates an immutable version. A version is a draft until it is
+ * published; publishing copies its wording onto the EmailTemplate row that every sender reads, and
+ * marks the previously published version and any older drafts as superseded.
+ */
+
+export const EMAIL_TEMPLATE_VERSION_STATUSES = ['DRAFT', 'PUBLISHED', 'SUPERSEDED'] as const
+
+export type EmailTemplateVersionStatusValue = typeof EMAIL_TEMPLATE_VERSION_STATUSES[number]
+
+export const EMAIL_TEMPLATE_VERSION_STATUS_CONFIG: Record<EmailTemplateVersionStatusValue, { label: string; color: string }> = {
+  DRAFT: { label: 'Draft', color: 'bg-amber-100 text-amber-800' },
+  PUBLISHED: { label: 'Published', color: 'bg-green-100 text-green-800' },
+  SUPERSEDED: { label: 'Superseded', color: 'bg-gray-100 text-gray-800' }
+}
+
+export interface EmailTemplateVersionSummary {
+  id: string
+  version: number
+  subject: string
+  htmlContent: string
+  textContent: string | null
+  smsContent: string | null
+  status: EmailTemplateVersionStatusValue
+  changeNote: string | null
+  restoredFromVersion: number | null
+  createdByName: string
+  createdAt: string
+  publishedAt: string | null
+  publishedByName: string | null
+  emailCount: number
+}
+
+export interface TemplateDiffLine {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+/**
+ * Break template HTML into one line per block, so a diff shows changed paragraphs rather than
+ * one changed line (the rich text editor saves the whole body on a single line)
+ */
+export function splitTemplateIntoLines(content: string): string[] {
+  return (content || '')
+    .replace(/(<\/(p|div|h[1-6]|li|ul|ol|table|tr|blockquote)>|<br\s*\/?>)/gi, '$1\n')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line !== '')
+}
+
+/**
+ * Line diff between two versions using the longest common subsequence
+ */
+export function diffTemplateLines(before: string[], after: string[]): TemplateDiffLine[] {
+  const lengths: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0))
+
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i]![j] = before[i] === after[j]
+        ? lengths[i + 1]![j + 1]! + 1
+        : Math.max(lengths[i + 1]![j]!, lengths[i]![j + 1]!)
+    }
+  }
+
+  const diff: TemplateDiffLine[] = []
+  let i = 0
+  let j = 0
+
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      diff.push({ type: 'same', text: before[i]! })
+      i++
+      j++
+    } else if (lengths[i + 1]![j]! >= lengths[i]![j + 1]!) {
+      diff.push({ type: 'removed', text: before[i]! })
+      i++
+    } else {
+      diff.push({ type: 'added', text: after[j]! })
+      j++
+    }
+  }
+
+  before.slice(i).forEach(text => diff.push({ type: 'removed', text }))
+  after.slice(j).forEach(text => diff.push({ type: 'added', text }))
+
+  return diff
+}
+
+/**
+ * Diff each field of two versions; fields that didn't change have no added or removed lines
+ */
+export function diffTemplateVersions(
+  before: Pick<EmailTemplateVersionSummary, 'subject' | 'htmlContent' | 'textContent' | 'smsContent'>,
+  after: Pick<EmailTemplateVersionSummary, 'subject' | 'htmlContent' | 'textContent' | 'smsContent'>
+): Record<'subject' | 'htmlContent' | 'textContent' | 'smsContent', TemplateDiffLine[]> {
+  return {
+    subject: diffTemplateLines([before.subject], [after.subject]),
+    htmlContent: diffTemplateLines(splitTemplateIntoLines(before.htmlContent), splitTemplateIntoLines(after.htmlContent)),
+    textContent: diffTemplateLines(
+      (before.textContent || '').split('\n').filter(line => line.trim() !== ''),
+      (after.textContent || '').split('\n').filter(line => line.trim() !== '')
+    ),
+    smsContent: diffTemplateLines(
+      (before.smsContent || '').split('\n').filter(line => line.trim() !== ''),
+      (after.smsContent || '').split('\n').filter(line => line.trim() !== '')
+    )
+  }
+}
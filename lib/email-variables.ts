@@ -4,6 +4,17 @@
  */
 
 import { formatQuarterPeriodForDisplay } from '@/lib/vat-workflow'
+import {
+  collectTemplateReferences,
+  isLoopVariable,
+  parseTemplate,
+  renderTemplateNodes,
+  TEMPLATE_FILTERS,
+  TemplateSyntaxError,
+  type TemplateNode
+} from '@/lib/email-template-engine'
+
+export type EmailVariableType = 'string' | 'date' | 'number' | 'boolean' | 'list'
 
 export interface EmailVariable {
   key: string
@@ -12,7 +23,9 @@ export interface EmailVariable {
   example: string
   category: 'client' | 'user' | 'workflow' | 'dates' | 'system'
   required?: boolean
-  type: 'string' | 'date' | 'number' | 'boolean'
+  type: EmailVariableType
+  // Fields of each item, for list variables used with {{#each}}
+  fields?: Array<{ key: string; label: string; type: Exclude<EmailVariableType, 'list'> }>
 }
 
 export const EMAIL_VARIABLES: EmailVariable[] = [
@@ -243,6 +256,21 @@ export const EMAIL_VARIABLES: EmailVariable[] = [
     category: 'workflow',
     type: 'boolean'
   },
+  {
+    key: 'vat.outstandingQuarters',
+    label: 'Outstanding VAT Quarters',
+    description: 'Every VAT quarter not yet filed, oldest first - use with {{#each vat.outstandingQuarters as quarter}}',
+    example: 'Jan-Mar 2024, Apr-Jun 2024',
+    category: 'workflow',
+    type: 'list',
+    fields: [
+      { key: 'quarterPeriod', label: 'Quarter Period', type: 'string' },
+      { key: 'filingDueDate', label: 'Filing Due Date', type: 'date' },
+      { key: 'currentStage', label: 'Current Stage', type: 'string' },
+      { key: 'daysUntilDue', label: 'Days Until Due', type: 'number' },
+      { key: 'isOverdue', label: 'Is Overdue', type: 'boolean' }
+    ]
+  },
 
   // Accounts Specific Variables
   {
@@ -536,149 +564,335 @@ export function getVariableByKey(key: string): EmailVariable | undefined {
   return EMAIL_VARIABLES.find(v => v.key === key)
 }
 
-// Process variables in content with real data
-export function processEmailVariables(
-  content: string, 
-  data: {
-    client?: any
-    user?: any
-    workflow?: any
-    vat?: any
-    accounts?: any
-    dates?: any
-    system?: any
+// Old variable names still found in saved templates, mapped to the variable they stand for
+export const LEGACY_VARIABLE_ALIASES: Record<string, string> = {
+  'client.email': 'client.contactEmail',
+  'client.phone': 'client.contactPhone',
+  'vat.quarter': 'vat.quarterPeriod',
+  'quarterPeriod': 'vat.quarterPeriod',
+  'filingDueDate': 'vat.filingDueDate',
+  'currentDate': 'dates.currentDate',
+  'date.today': 'dates.currentDate',
+  'date.todayLong': 'dates.currentDate',
+  'system.firmName': 'system.companyName',
+  'system.firmEmail': 'system.companyEmail',
+  'system.firmPhone': 'system.companyPhone'
+}
+
+// Variables that make no sense for a template category, by key prefix
+const TEMPLATE_CATEGORY_EXCLUDED_PREFIXES: Record<string, string[]> = {
+  VAT_WORKFLOW: ['accounts.'],
+  ACCOUNTS_WORKFLOW: ['vat.'],
+  WELCOME_ONBOARDING: ['vat.', 'accounts.', 'workflow.', 'assignedBy.', 'previousAssignee'],
+  MARKETING: ['vat.', 'accounts.', 'workflow.', 'assignedBy.', 'previousAssignee', 'user.']
+}
+
+// Namespaces that show "NA" when the section was provided but has no value, so staff can spot gaps
+const NA_NAMESPACES = ['user', 'workflow', 'vat', 'accounts']
+
+export interface EmailVariableData {
+  client?: any
+  user?: any
+  assignedBy?: any
+  previousAssignee?: string | null
+  workflow?: any
+  vat?: any
+  accounts?: any
+  dates?: any
+  system?: any
+}
+
+/**
+ * Whether a variable can be used in templates of the given category
+ */
+export function isVariableAllowedForCategory(key: string, templateCategory: string): boolean {
+  const canonicalKey = LEGACY_VARIABLE_ALIASES[key] || key
+  const excluded = TEMPLATE_CATEGORY_EXCLUDED_PREFIXES[templateCategory] || []
+  return !excluded.some(prefix => canonicalKey.startsWith(prefix))
+}
+
+function toDateValue(date: string | Date | null | undefined): Date | null {
+  if (!date) return null
+  const dateObj = typeof date === 'string' ? new Date(date) : date
+  return isNaN(dateObj.getTime()) ? null : dateObj
+}
+
+function daysUntil(date: Date | null): number | null {
+  if (!date) return null
+  return Math.ceil((date.getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24))
+}
+
+/**
+ * Build the values templates render against
+ * Strings are display-ready (stage names, quarter periods, company types); dates stay as Date so the
+ * date filter can format them, and numbers and booleans keep their type for #if comparisons
+ */
+export function buildEmailTemplateContext(data: EmailVariableData): Record<string, unknown> {
+  const now = new Date()
+  const user = data.user || data.client?.assignedUser
+  const vat = data.vat || {}
+  const accounts = data.accounts || {}
+
+  const vatQuarterPeriod = vat.quarterPeriod ? formatQuarterPeriod(vat.quarterPeriod) : null
+  const vatFilingDueDate = toDateValue(vat.filingDueDate)
+  const currentDate = now
+
+  const outstandingSource: any[] = vat.outstandingQuarters
+    || data.client?.vatQuartersWorkflow?.filter((quarter: any) => !quarter.isCompleted)
+    || []
+  const outstandingQuarters = outstandingSource
+    .map(quarter => {
+      const filingDueDate = toDateValue(quarter.filingDueDate)
+      const daysUntilDue = daysUntil(filingDueDate)
+      return {
+        quarterPeriod: formatQuarterPeriod(quarter.quarterPeriod),
+        filingDueDate,
+        currentStage: quarter.currentStage ? formatWorkflowStage(quarter.currentStage) : null,
+        daysUntilDue,
+        isOverdue: daysUntilDue !== null && daysUntilDue < 0
+      }
+    })
+    .sort((a, b) => (a.filingDueDate?.getTime() || 0) - (b.filingDueDate?.getTime() || 0))
+
+  const client = data.client ? {
+    companyName: data.client.companyName,
+    clientCode: data.client.clientCode,
+    companyNumber: data.client.companyNumber,
+    vatNumber: data.client.vatNumber,
+    contactName: data.client.contactName,
+    contactEmail: data.client.email || data.client.contactEmail,
+    contactPhone: data.client.phone || data.client.contactPhone,
+    companyType: formatCompanyType(data.client.companyType || data.client.type || ''),
+    email: data.client.email || data.client.contactEmail,
+    phone: data.client.phone || data.client.contactPhone
+  } : {}
+
+  const system = {
+    companyName: 'Numericalz',
+    companyEmail: 'hello@numericalz.com',
+    companyPhone: '+44 20 1234 5678',
+    websiteUrl: 'https://numericalz.com',
+    dashboardUrl: 'https://app.numericalz.com/dashboard',
+    supportEmail: 'support@numericalz.com',
+    currentDate,
+    firmName: 'Numericalz',
+    firmEmail: 'hello@numericalz.com',
+    firmPhone: '+44 20 1234 5678'
   }
-): string {
+
+  return {
+    client,
+    user: {
+      name: user?.name,
+      email: user?.email,
+      role: user?.role ? formatUserRole(user.role) : null
+    },
+    assignedBy: {
+      name: data.assignedBy?.name,
+      email: data.assignedBy?.email
+    },
+    previousAssignee: data.previousAssignee,
+    workflow: {
+      currentStage: data.workflow?.currentStage ? formatWorkflowStage(data.workflow.currentStage) : null,
+      previousStage: data.workflow?.previousStage ? formatWorkflowStage(data.workflow.previousStage) : null,
+      workflowType: data.workflow?.workflowType,
+      comments: data.workflow?.comments
+    },
+    vat: {
+      quarterPeriod: vatQuarterPeriod,
+      quarterStartDate: toDateValue(vat.quarterStartDate),
+      quarterEndDate: toDateValue(vat.quarterEndDate),
+      filingDueDate: vatFilingDueDate,
+      daysUntilDue: vat.daysUntilDue,
+      isOverdue: vat.isOverdue,
+      quarterGroup: vat.quarterGroup ? formatVATQuarterGroup(vat.quarterGroup) : null,
+      quarterGroupCode: vat.quarterGroupCode,
+      filingMonths: vat.quarterGroupCode ? formatVATFilingMonths(vat.quarterGroupCode) : null,
+      outstandingQuarters,
+      quarter: vatQuarterPeriod
+    },
+    accounts: {
+      filingPeriod: accounts.filingPeriod ? formatFilingPeriod(accounts.filingPeriod) : null,
+      yearEndDate: toDateValue(accounts.yearEndDate),
+      accountsDueDate: toDateValue(accounts.accountsDueDate),
+      corporationTaxDueDate: toDateValue(accounts.corporationTaxDueDate),
+      confirmationStatementDueDate: toDateValue(accounts.confirmationStatementDueDate),
+      daysUntilAccountsDue: accounts.daysUntilAccountsDue,
+      daysUntilCTDue: accounts.daysUntilCTDue,
+      daysUntilCSDue: accounts.daysUntilCSDue,
+      isAccountsOverdue: accounts.isAccountsOverdue,
+      isCTOverdue: accounts.isCTOverdue,
+      isCSOverdue: accounts.isCSOverdue
+    },
+    dates: {
+      currentDate,
+      // Pre-formatted because the default date output leaves the time off
+      currentDateTime: now.toLocaleString('en-GB', {
+        timeZone: 'Europe/London',
+        day: 'numeric',
+        month: 'long',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+      }),
+      currentYear: now.getFullYear(),
+      currentMonth: now.toLocaleDateString('en-GB', { month: 'long', timeZone: 'Europe/London' })
+    },
+    system,
+
+    // Legacy aliases
+    quarterPeriod: vatQuarterPeriod,
+    filingDueDate: vatFilingDueDate,
+    currentDate,
+    date: {
+      today: now.toLocaleDateString('en-GB', { timeZone: 'Europe/London' }),
+      todayLong: now.toLocaleDateString('en-GB', {
+        weekday: 'long',
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric',
+        timeZone: 'Europe/London'
+      })
+    }
+  }
+}
+
+/**
+ * Plain {{variable}} substitution for templates saved before the template language was validated
+ * Anything that isn't a simple variable is left in the output as written
+ */
+function parsePlainVariables(content: string): TemplateNode[] {
+  return content.split(/(\{\{\s*[A-Za-z_][A-Za-z0-9_.]*\s*\}\})/).map((part, index) => index % 2 === 1
+    ? { type: 'variable' as const, path: part.slice(2, -2).trim(), filters: [], line: 0 }
+    : { type: 'text' as const, value: part })
+}
+
+// Process variables in content with real data
+export function processEmailVariables(content: string, data: EmailVariableData): string {
   // Handle undefined or null content
   if (!content || typeof content !== 'string') {
     return ''
   }
-  
-  let processed = content
-
-  // Client variables
-  if (data.client) {
-    processed = processed.replace(/\{\{client\.companyName\}\}/g, data.client.companyName || '')
-    processed = processed.replace(/\{\{client\.clientCode\}\}/g, data.client.clientCode || '')
-    processed = processed.replace(/\{\{client\.companyNumber\}\}/g, data.client.companyNumber || '')
-    processed = processed.replace(/\{\{client\.vatNumber\}\}/g, data.client.vatNumber || '')
-    processed = processed.replace(/\{\{client\.contactName\}\}/g, data.client.contactName || '')
-    processed = processed.replace(/\{\{client\.contactEmail\}\}/g, data.client.email || data.client.contactEmail || '')
-    processed = processed.replace(/\{\{client\.contactPhone\}\}/g, data.client.phone || data.client.contactPhone || '')
-    processed = processed.replace(/\{\{client\.companyType\}\}/g, formatCompanyType(data.client.companyType || data.client.type || ''))
-    
-    // Legacy client variable aliases
-    processed = processed.replace(/\{\{client\.email\}\}/g, data.client.email || data.client.contactEmail || '')
-    processed = processed.replace(/\{\{client\.phone\}\}/g, data.client.phone || data.client.contactPhone || '')
-  }
 
-  // User variables - ALWAYS process, use "NA" if data not applicable
-  const user = data.user || data.client?.assignedUser
-  processed = processed.replace(/\{\{user\.name\}\}/g, user?.name || (data.user !== undefined ? 'NA' : ''))
-  processed = processed.replace(/\{\{user\.email\}\}/g, user?.email || (data.user !== undefined ? 'NA' : ''))
-
-  // Workflow variables - ALWAYS process (client-relevant only)
-  processed = processed.replace(/\{\{workflow\.currentStage\}\}/g, data.workflow?.currentStage ? formatWorkflowStage(data.workflow.currentStage) : (data.workflow !== undefined ? 'NA' : ''))
-  processed = processed.replace(/\{\{workflow\.comments\}\}/g, data.workflow?.comments || (data.workflow !== undefined ? 'NA' : ''))
-
-  // VAT specific variables - ALWAYS process
-  const vatQuarterPeriod = data.vat?.quarterPeriod ? formatQuarterPeriod(data.vat.quarterPeriod) : (data.vat !== undefined ? 'NA' : '')
-  processed = processed.replace(/\{\{vat\.quarterPeriod\}\}/g, vatQuarterPeriod)
-  processed = processed.replace(/\{\{vat\.quarterStartDate\}\}/g, data.vat?.quarterStartDate ? formatDate(data.vat.quarterStartDate) : (data.vat !== undefined ? 'NA' : ''))
-  processed = processed.replace(/\{\{vat\.quarterEndDate\}\}/g, data.vat?.quarterEndDate ? formatDate(data.vat.quarterEndDate) : (data.vat !== undefined ? 'NA' : ''))
-  processed = processed.replace(/\{\{vat\.filingDueDate\}\}/g, data.vat?.filingDueDate ? formatDate(data.vat.filingDueDate) : (data.vat !== undefined ? 'NA' : ''))
-  processed = processed.replace(/\{\{vat\.daysUntilDue\}\}/g, data.vat?.daysUntilDue !== undefined ? String(data.vat.daysUntilDue) : (data.vat !== undefined ? 'NA' : ''))
-  processed = processed.replace(/\{\{vat\.isOverdue\}\}/g, data.vat?.isOverdue !== undefined ? String(data.vat.isOverdue) : (data.vat !== undefined ? 'NA' : ''))
-  
-  // VAT quarter group variables - ALWAYS process
-  processed = processed.replace(/\{\{vat\.quarterGroup\}\}/g, data.vat?.quarterGroup ? formatVATQuarterGroup(data.vat.quarterGroup) : (data.vat !== undefined ? 'NA' : ''))
-  processed = processed.replace(/\{\{vat\.quarterGroupCode\}\}/g, data.vat?.quarterGroupCode || (data.vat !== undefined ? 'NA' : ''))
-  processed = processed.replace(/\{\{vat\.filingMonths\}\}/g, data.vat?.quarterGroupCode ? formatVATFilingMonths(data.vat.quarterGroupCode) : (data.vat !== undefined ? 'NA' : ''))
-  
-  // Legacy VAT variable aliases
-  processed = processed.replace(/\{\{vat\.quarter\}\}/g, vatQuarterPeriod)
-  processed = processed.replace(/\{\{quarterPeriod\}\}/g, vatQuarterPeriod)
-  processed = processed.replace(/\{\{filingDueDate\}\}/g, data.vat?.filingDueDate ? formatDate(data.vat.filingDueDate) : (data.vat !== undefined ? 'NA' : ''))
-
-  // Accounts specific variables - ALWAYS process
-  processed = processed.replace(/\{\{accounts\.filingPeriod\}\}/g, data.accounts?.filingPeriod ? formatFilingPeriod(data.accounts.filingPeriod) : (data.accounts !== undefined ? 'NA' : ''))
-  processed = processed.replace(/\{\{accounts\.yearEndDate\}\}/g, data.accounts?.yearEndDate ? formatDate(data.accounts.yearEndDate) : (data.accounts !== undefined ? 'NA' : ''))
-  processed = processed.replace(/\{\{accounts\.accountsDueDate\}\}/g, data.accounts?.accountsDueDate ? formatDate(data.accounts.accountsDueDate) : (data.accounts !== undefined ? 'NA' : ''))
-  processed = processed.replace(/\{\{accounts\.corporationTaxDueDate\}\}/g, data.accounts?.corporationTaxDueDate ? formatDate(data.accounts.corporationTaxDueDate) : (data.accounts !== undefined ? 'NA' : ''))
-  processed = processed.replace(/\{\{accounts\.confirmationStatementDueDate\}\}/g, data.accounts?.confirmationStatementDueDate ? formatDate(data.accounts.confirmationStatementDueDate) : (data.accounts !== undefined ? 'NA' : ''))
-  processed = processed.replace(/\{\{accounts\.daysUntilAccountsDue\}\}/g, data.accounts?.daysUntilAccountsDue !== undefined ? String(data.accounts.daysUntilAccountsDue) : (data.accounts !== undefined ? 'NA' : ''))
-  processed = processed.replace(/\{\{accounts\.daysUntilCTDue\}\}/g, data.accounts?.daysUntilCTDue !== undefined ? String(data.accounts.daysUntilCTDue) : (data.accounts !== undefined ? 'NA' : ''))
-  processed = processed.replace(/\{\{accounts\.daysUntilCSDue\}\}/g, data.accounts?.daysUntilCSDue !== undefined ? String(data.accounts.daysUntilCSDue) : (data.accounts !== undefined ? 'NA' : ''))
-  processed = processed.replace(/\{\{accounts\.isAccountsOverdue\}\}/g, data.accounts?.isAccountsOverdue !== undefined ? String(data.accounts.isAccountsOverdue) : (data.accounts !== undefined ? 'NA' : ''))
-  processed = processed.replace(/\{\{accounts\.isCTOverdue\}\}/g, data.accounts?.isCTOverdue !== undefined ? String(data.accounts.isCTOverdue) : (data.accounts !== undefined ? 'NA' : ''))
-  processed = processed.replace(/\{\{accounts\.isCSOverdue\}\}/g, data.accounts?.isCSOverdue !== undefined ? String(data.accounts.isCSOverdue) : (data.accounts !== undefined ? 'NA' : ''))
-
-  // Date variables
-  const now = new Date()
-  const ukDateOptions: Intl.DateTimeFormatOptions = { 
-    timeZone: 'Europe/London',
-    day: 'numeric',
-    month: 'long',
-    year: 'numeric'
-  }
-  const ukDateTimeOptions: Intl.DateTimeFormatOptions = { 
-    timeZone: 'Europe/London',
-    day: 'numeric',
-    month: 'long',
-    year: 'numeric',
-    hour: '2-digit',
-    minute: '2-digit'
+  let nodes: TemplateNode[]
+  try {
+    nodes = parseTemplate(content)
+  } catch (error) {
+    if (!(error instanceof TemplateSyntaxError)) throw error
+    console.error('Email template could not be parsed, using plain variable substitution:', error.message)
+    nodes = parsePlainVariables(content)
   }
-  
-  processed = processed.replace(/\{\{dates\.currentDate\}\}/g, now.toLocaleDateString('en-GB', ukDateOptions))
-  processed = processed.replace(/\{\{dates\.currentDateTime\}\}/g, now.toLocaleDateString('en-GB', ukDateTimeOptions))
-  processed = processed.replace(/\{\{dates\.currentYear\}\}/g, String(now.getFullYear()))
-  processed = processed.replace(/\{\{dates\.currentMonth\}\}/g, now.toLocaleDateString('en-GB', { month: 'long' }))
-  
-  // Legacy date variable aliases
-  processed = processed.replace(/\{\{currentDate\}\}/g, now.toLocaleDateString('en-GB', ukDateOptions))
-  processed = processed.replace(/\{\{date\.today\}\}/g, now.toLocaleDateString('en-GB'))
-  processed = processed.replace(/\{\{date\.todayLong\}\}/g, now.toLocaleDateString('en-GB', { 
-    weekday: 'long', 
-    year: 'numeric', 
-    month: 'long', 
-    day: 'numeric' 
-  }))
-
-  // System variables
-  processed = processed.replace(/\{\{system\.companyName\}\}/g, 'Numericalz')
-  processed = processed.replace(/\{\{system\.companyEmail\}\}/g, 'hello@numericalz.com')
-  processed = processed.replace(/\{\{system\.companyPhone\}\}/g, '+44 20 1234 5678')
-  processed = processed.replace(/\{\{system\.websiteUrl\}\}/g, 'https://numericalz.com')
-  processed = processed.replace(/\{\{system\.dashboardUrl\}\}/g, 'https://app.numericalz.com/dashboard')
-  processed = processed.replace(/\{\{system\.supportEmail\}\}/g, 'support@numericalz.com')
-  processed = processed.replace(/\{\{system\.currentDate\}\}/g, now.toLocaleDateString('en-GB', ukDateOptions))
-  
-  // Legacy system variable aliases
-  processed = processed.replace(/\{\{system\.firmName\}\}/g, 'Numericalz')
-  processed = processed.replace(/\{\{system\.firmEmail\}\}/g, 'hello@numericalz.com')
-  processed = processed.replace(/\{\{system\.firmPhone\}\}/g, '+44 20 1234 5678')
 
-  return processed
+  return renderTemplateNodes(nodes, buildEmailTemplateContext(data), {
+    fallback: (path) => {
+      const namespace = (LEGACY_VARIABLE_ALIASES[path] || path).split('.')[0] || ''
+      const provided = namespace === 'user'
+        ? data.user !== undefined
+        : data[namespace as keyof EmailVariableData] !== undefined
+      return NA_NAMESPACES.includes(namespace) && provided ? 'NA' : ''
+    }
+  })
 }
 
-// Helper function to format dates for display
-function formatDate(date: string | Date | null | undefined): string {
-  if (!date) return ''
-  
+type ReferenceType = EmailVariableType | 'item'
+
+/**
+ * Check a template against EMAIL_VARIABLES before it is saved
+ * Reports syntax errors, unknown variables and filters, type misuse (looping over a non-list, comparing
+ * text with <, formatting a number as a date) and variables that don't belong in the template category
+ * @returns Error messages prefixed with the line number; empty when the template is valid
+ */
+export function validateEmailTemplate(content: string, templateCategory?: string): string[] {
+  let nodes: TemplateNode[]
   try {
-    const dateObj = typeof date === 'string' ? new Date(date) : date
-    if (isNaN(dateObj.getTime())) return ''
-    
-    return dateObj.toLocaleDateString('en-GB', {
-      timeZone: 'Europe/London',
-      day: 'numeric',
-      month: 'long',
-      year: 'numeric'
-    })
+    nodes = parseTemplate(content || '')
   } catch (error) {
-    return ''
+    if (error instanceof TemplateSyntaxError) return [error.message]
+    throw error
   }
+
+  const errors = new Set<string>()
+  const categoryLabel = templateCategory
+    ? templateCategory.split('_').map(word => word === 'VAT' ? word : word.charAt(0) + word.slice(1).toLowerCase()).join(' ')
+    : ''
+
+  collectTemplateReferences(nodes).forEach(reference => {
+    const report = (message: string) => errors.add(`Line ${reference.line}: ${message}`)
+    const [head, ...rest] = reference.path.split('.')
+    let type: ReferenceType
+
+    if (isLoopVariable(reference.path)) {
+      if (reference.loopAliases.length === 0) {
+        report(`{{${reference.path}}} can only be used inside {{#each}}`)
+        return
+      }
+      type = reference.path === '@index' ? 'number' : 'boolean'
+    } else {
+      const loop = [...reference.loopAliases].reverse().find(alias => alias.alias === head)
+
+      if (loop) {
+        const listVariable = getVariableByKey(LEGACY_VARIABLE_ALIASES[loop.listPath] || loop.listPath)
+        // The list itself is reported at the {{#each}}
+        if (!listVariable?.fields) return
+
+        if (rest.length === 0) {
+          type = 'item'
+        } else {
+          const field = listVariable.fields.find(item => item.key === rest.join('.'))
+          if (!field) {
+            report(`"${rest.join('.')}" is not a field of ${listVariable.label} - use ${listVariable.fields.map(item => `${head}.${item.key}`).join(', ')}`)
+            return
+          }
+          type = field.type
+        }
+      } else {
+        const variable = getVariableByKey(LEGACY_VARIABLE_ALIASES[reference.path] || reference.path)
+        if (!variable) {
+          report(`Unknown variable {{${reference.path}}}`)
+          return
+        }
+        if (templateCategory && !isVariableAllowedForCategory(variable.key, templateCategory)) {
+          report(`{{${reference.path}}} can't be used in ${categoryLabel} templates`)
+        }
+        type = variable.type
+      }
+    }
+
+    if (reference.usage === 'loop') {
+      if (type !== 'list') report(`{{#each ${reference.path}}} needs a list, but ${reference.path} is a ${type}`)
+      return
+    }
+
+    if (reference.usage === 'condition') {
+      const ordering = reference.comparison && !['==', '!='].includes(reference.comparison)
+      if (ordering && type !== 'number' && type !== 'date') {
+        report(`"${reference.comparison}" compares numbers or dates, but ${reference.path} is a ${type}`)
+      }
+      return
+    }
+
+    for (const filter of reference.filters) {
+      const definition = TEMPLATE_FILTERS[filter.name]
+      if (!definition) {
+        report(`Unknown filter "${filter.name}" - available filters are ${Object.keys(TEMPLATE_FILTERS).join(', ')}`)
+        return
+      }
+      if (type === 'item' || (definition.accepts && !definition.accepts.includes(type))) {
+        report(`The ${filter.name} filter can't be used on ${reference.path}, which is a ${type}`)
+        return
+      }
+      if (filter.name === 'count') type = 'number'
+      else if (filter.name !== 'default') type = 'string'
+    }
+
+    if (type === 'list') {
+      report(`${reference.path} is a list - loop over it with {{#each}} or show how many with | count`)
+    } else if (type === 'item') {
+      report(`{{${reference.path}}} is a whole list item - show one of its fields instead`)
+    }
+  })
+
+  return Array.from(errors)
 }
 
 // Helper function to format VAT quarter period for display
@@ -820,20 +1034,49 @@ function formatFilingPeriod(filingPeriod: string): string {
   return filingPeriod
 }
 
+/**
+ * Validate every templated field of an EmailTemplate, labelling each error with its field
+ */
+export function validateEmailTemplateFields(
+  template: { subject: string; htmlContent: string; textContent?: string | null; smsContent?: string | null },
+  templateCategory?: string
+): string[] {
+  return [
+    ...validateEmailTemplate(template.subject, templateCategory).map(error => `Subject - ${error}`),
+    ...validateEmailTemplate(template.htmlContent, templateCategory).map(error => `Content - ${error}`),
+    ...validateEmailTemplate(template.textContent || '', templateCategory).map(error => `Plain text - ${error}`),
+    ...validateEmailTemplate(template.smsContent || '', templateCategory).map(error => `SMS text - ${error}`)
+  ]
+}
+
 // Extract variables used in content
 export function extractVariablesFromContent(content: string): string[] {
-  const variableRegex = /\{\{([^}]+)\}\}/g
-  const matches: string[] = []
-  let match
-
-  while ((match = variableRegex.exec(content)) !== null) {
-    const variableKey = match[1]?.trim()
-    if (variableKey && !matches.includes(variableKey)) {
-      matches.push(variableKey)
+  try {
+    const matches: string[] = []
+    collectTemplateReferences(parseTemplate(content)).forEach(reference => {
+      const head = reference.path.split('.')[0]
+      const isLoopScoped = isLoopVariable(reference.path)
+        || reference.loopAliases.some(alias => alias.alias === head)
+      if (!isLoopScoped && !matches.includes(reference.path)) {
+        matches.push(reference.path)
+      }
+    })
+    return matches
+  } catch {
+    // Fall back to listing every {{tag}} when the template doesn't parse
+    const variableRegex = /\{\{([^}]+)\}\}/g
+    const matches: string[] = []
+    let match
+
+    while ((match = variableRegex.exec(content)) !== null) {
+      const variableKey = match[1]?.trim()
+      if (variableKey && !matches.includes(variableKey)) {
+        matches.push(variableKey)
+      }
     }
-  }
 
-  return matches
+    return matches
+  }
 }
 
 // Get variable data for display in Variable Info tab
@@ -1,17 +1,34 @@
 /**
- * HMRC Agent Authorisation API Client
+ * HMRC API Client
  * 
- * Implements application-restricted endpoints using client credentials grant
+ * Agent Authorisation: application-restricted endpoints using client credentials grant
  * Documentation: https://developer.service.hmrc.gov.uk/api-documentation/docs/api/service/agent-authorisation-api/1.0
+ * 
+ * Making Tax Digital VAT: user-restricted endpoints using an authorisation code grant (read:vat write:vat)
+ * Documentation: https://developer.service.hmrc.gov.uk/api-documentation/docs/api/service/vat-api/1.0
+ * 
+ * All requests go to HMRC_API_BASE_URL when set (e.g. a local stub server), otherwise the sandbox or production URL
  */
 
 // HMRC Sandbox Configuration
 export const HMRC_CONFIG = {
-  CLIENT_ID: 'DjbFKograkCTR4F4sde3XkZOFA3R',
-  CLIENT_SECRET: '416b9226-1736-4026-93fb-949fed59655e',
+  CLIENT_ID: process.env.HMRC_CLIENT_ID || 'DjbFKograkCTR4F4sde3XkZOFA3R',
+  CLIENT_SECRET: process.env.HMRC_CLIENT_SECRET || '416b9226-1736-4026-93fb-949fed59655e',
   SANDBOX_URL: 'https://test-api.service.hmrc.gov.uk',
   PRODUCTION_URL: 'https://api.service.hmrc.gov.uk',
-  ENVIRONMENT: 'sandbox'
+  ENVIRONMENT: process.env.HMRC_ENVIRONMENT || 'sandbox'
+}
+
+// OAuth scopes needed for MTD VAT obligations and return submission
+export const HMRC_VAT_SCOPES = ['read:vat', 'write:vat']
+
+/**
+ * Base URL for all HMRC requests
+ */
+export function getHMRCBaseUrl(): string {
+  const baseUrl = process.env.HMRC_API_BASE_URL
+    || (HMRC_CONFIG.ENVIRONMENT === 'production' ? HMRC_CONFIG.PRODUCTION_URL : HMRC_CONFIG.SANDBOX_URL)
+  return baseUrl.replace(/\/+$/, '')
 }
 
 // Supported services for agent authorization
@@ -51,6 +68,7 @@ export interface HMRCTokenResponse {
   token_type: string
   expires_in: number
   scope?: string
+  refresh_token?: string
 }
 
 export interface AgentAuthRequest {
@@ -81,6 +99,47 @@ export interface AuthorisationInvitation {
 export interface HMRCError {
   code: string
   message: string
+  errors?: HMRCError[]
+}
+
+// MTD VAT obligation status: O = open, F = fulfilled
+export type VATObligationStatus = 'O' | 'F'
+
+export interface VATObligation {
+  periodKey: string
+  start: string
+  end: string
+  due: string
+  status: VATObligationStatus
+  received?: string
+}
+
+/**
+ * MTD VAT return body - the nine boxes plus the period key and declaration
+ * Boxes 1-5 are pounds and pence, boxes 6-9 whole pounds
+ */
+export interface VATReturnSubmission {
+  periodKey: string
+  vatDueSales: number
+  vatDueAcquisitions: number
+  totalVatDue: number
+  vatReclaimedCurrPeriod: number
+  netVatDue: number
+  totalValueSalesExVAT: number
+  totalValuePurchasesExVAT: number
+  totalValueGoodsSuppliedExVAT: number
+  totalAcquisitionsExVAT: number
+  finalised: boolean
+}
+
+export interface VATSubmissionReceipt {
+  processingDate: string
+  formBundleNumber: string
+  paymentIndicator?: string
+  chargeRefNumber?: string
+  receiptId?: string
+  receiptTimestamp?: string
+  correlationId?: string
 }
 
 /**
@@ -88,7 +147,7 @@ export interface HMRCError {
  * This is for application-restricted endpoints
  */
 export async function getApplicationToken(): Promise<HMRCTokenResponse> {
-  const response = await fetch(`${HMRC_CONFIG.SANDBOX_URL}/oauth/token`, {
+  const response = await fetch(`${getHMRCBaseUrl()}/oauth/token`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/x-www-form-urlencoded',
@@ -117,7 +176,7 @@ async function makeHMRCRequest(
   accessToken: string,
   options: RequestInit = {}
 ): Promise<any> {
-  const url = `${HMRC_CONFIG.SANDBOX_URL}${endpoint}`
+  const url = `${getHMRCBaseUrl()}${endpoint}`
   
   const response = await fetch(url, {
     ...options,
@@ -265,6 +324,162 @@ export async function checkRelationshipStatus(
   }
 }
 
+/**
+ * HMRC sign-in URL for the authorisation code grant used by the MTD VAT API
+ */
+export function getVATAuthorisationUrl(redirectUri: string, state: string): string {
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: HMRC_CONFIG.CLIENT_ID,
+    scope: HMRC_VAT_SCOPES.join(' '),
+    state,
+    redirect_uri: redirectUri
+  })
+  return `${getHMRCBaseUrl()}/oauth/authorize?${params.toString()}`
+}
+
+/**
+ * Exchange an authorisation code (or refresh token) for a user access token
+ */
+async function requestUserToken(params: Record<string, string>): Promise<HMRCTokenResponse> {
+  const response = await fetch(`${getHMRCBaseUrl()}/oauth/token`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json'
+    },
+    body: new URLSearchParams({
+      client_id: HMRC_CONFIG.CLIENT_ID,
+      client_secret: HMRC_CONFIG.CLIENT_SECRET,
+      ...params
+    })
+  })
+
+  if (!response.ok) {
+    const error = await response.text()
+    throw new Error(`Token request failed: ${error}`)
+  }
+
+  return await response.json()
+}
+
+export async function exchangeAuthorisationCode(code: string, redirectUri: string): Promise<HMRCTokenResponse> {
+  return requestUserToken({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri
+  })
+}
+
+export async function refreshUserToken(refreshToken: string): Promise<HMRCTokenResponse> {
+  return requestUserToken({
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken
+  })
+}
+
+/**
+ * Make a user-restricted MTD VAT request, returning the response headers alongside the body
+ * (submission receipts are carried in the Receipt-ID, Receipt-Timestamp and X-CorrelationId headers)
+ */
+async function makeVATRequest(
+  endpoint: string,
+  accessToken: string,
+  options: RequestInit = {},
+  fraudPreventionHeaders: Record<string, string> = {}
+): Promise<{ data: any; headers: Headers }> {
+  const response = await fetch(`${getHMRCBaseUrl()}${endpoint}`, {
+    ...options,
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Accept': 'application/vnd.hmrc.1.0+json',
+      'Content-Type': 'application/json',
+      ...fraudPreventionHeaders,
+      ...options.headers
+    }
+  })
+
+  if (!response.ok) {
+    let errorData: HMRCError
+    try {
+      errorData = await response.json()
+    } catch {
+      errorData = { code: 'UNKNOWN_ERROR', message: response.statusText }
+    }
+    const details = errorData.errors?.map(error => error.message).join('; ')
+    throw new Error(`HMRC API Error: ${errorData.code} - ${errorData.message}${details ? ` (${details})` : ''}`)
+  }
+
+  const text = await response.text()
+  return {
+    data: text ? JSON.parse(text) : {},
+    headers: response.headers
+  }
+}
+
+/**
+ * Retrieve VAT obligations for a VRN between two dates (YYYY-MM-DD)
+ * HMRC returns 404 NOT_FOUND when there are no obligations in the range
+ */
+export async function getVATObligations(
+  vrn: string,
+  accessToken: string,
+  filters: {
+    from: string
+    to: string
+    status?: VATObligationStatus
+  },
+  fraudPreventionHeaders: Record<string, string> = {}
+): Promise<VATObligation[]> {
+  const params = new URLSearchParams({ from: filters.from, to: filters.to })
+  if (filters.status) params.set('status', filters.status)
+
+  try {
+    const { data } = await makeVATRequest(
+      `/organisations/vat/${vrn}/obligations?${params.toString()}`,
+      accessToken,
+      {},
+      fraudPreventionHeaders
+    )
+    return Array.isArray(data.obligations) ? data.obligations : []
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('NOT_FOUND')) {
+      return []
+    }
+    throw error
+  }
+}
+
+/**
+ * Submit a VAT return for a period
+ */
+export async function submitVATReturn(
+  vrn: string,
+  vatReturn: VATReturnSubmission,
+  accessToken: string,
+  fraudPreventionHeaders: Record<string, string> = {}
+): Promise<VATSubmissionReceipt> {
+  const { data, headers } = await makeVATRequest(
+    `/organisations/vat/${vrn}/returns`,
+    accessToken,
+    {
+      method: 'POST',
+      body: JSON.stringify(vatReturn)
+    },
+    fraudPreventionHeaders
+  )
+
+  return {
+    processingDate: data.processingDate,
+    formBundleNumber: data.formBundleNumber,
+    paymentIndicator: data.paymentIndicator,
+    chargeRefNumber: data.chargeRefNumber,
+    receiptId: headers.get('Receipt-ID') || undefined,
+    receiptTimestamp: headers.get('Receipt-Timestamp') || undefined,
+    correlationId: headers.get('X-CorrelationId') || undefined
+  }
+}
+
 /**
  * Validate UK National Insurance number format
  */
@@ -280,6 +495,13 @@ export function isValidNationalInsurance(nino: string): boolean {
   return ninoRegex.test(cleanNino)
 }
 
+/**
+ * VAT registration number as HMRC expects it in URLs (9 digits, no GB prefix or spaces)
+ */
+export function normaliseVRN(vrn: string): string {
+  return vrn.replace(/\s/g, '').toUpperCase().replace(/^GB/, '')
+}
+
 /**
  * Validate UK VAT number format
  */
@@ -350,6 +572,13 @@ export default {
   getAgentAuthorisation,
   cancelAgentAuthorisation,
   checkRelationshipStatus,
+  getHMRCBaseUrl,
+  getVATAuthorisationUrl,
+  exchangeAuthorisationCode,
+  refreshUserToken,
+  getVATObligations,
+  submitVATReturn,
+  normaliseVRN,
   isValidNationalInsurance,
   isValidVATNumber,
   isValidPostcode,
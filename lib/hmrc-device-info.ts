@@ -0,0 +1,27 @@
+/**
+ * HMRC Fraud Prevention Browser Details
+ *
+ * Gov-Client headers that only the browser knows. Collected client-side and sent with any request
+ * that calls HMRC, where getFraudPreventionHeaders adds them to the server's own headers.
+ */
+
+const DEVICE_ID_STORAGE_KEY = 'numericalz_hmrc_device_id'
+
+export function collectHMRCDeviceInfo() {
+  let deviceId = window.localStorage.getItem(DEVICE_ID_STORAGE_KEY)
+  if (!deviceId) {
+    deviceId = window.crypto.randomUUID()
+    window.localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId)
+  }
+
+  const offset = -new Date().getTimezoneOffset()
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0')
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0')
+
+  return {
+    deviceId,
+    timezone: `UTC${offset >= 0 ? '+' : '-'}${hours}:${minutes}`,
+    screens: `width=${window.screen.width}&height=${window.screen.height}&scaling-factor=${window.devicePixelRatio}&colour-depth=${window.screen.colorDepth}`,
+    windowSize: `width=${window.innerWidth}&height=${window.innerHeight}`
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * HMRC MTD VAT Server-Side Utilities
+ *
+ * The practice connects once to HMRC as the agent (authorisation code grant); the resulting token is kept in
+ * the settings table and refreshed automatically, so any user can retrieve obligations and submit returns.
+ */
+
+import { NextRequest } from 'next/server'
+import { db } from '@/lib/db'
+import { refreshUserToken, type HMRCTokenResponse, type VATObligation } from '@/lib/hmrc-api'
+
+const HMRC_VAT_TOKEN_SETTING = 'hmrc_vat_oauth_token'
+
+// Refresh a little before expiry so a token never lapses mid-request
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000
+
+export interface StoredVATToken {
+  accessToken: string
+  refreshToken: string | null
+  expiresAt: string
+  scope: string | null
+  connectedAt: string
+  connectedByUserName: string
+}
+
+/**
+ * Browser details collected client-side for HMRC's fraud prevention headers
+ */
+export interface VATClientDeviceInfo {
+  deviceId?: string
+  screens?: string
+  windowSize?: string
+  timezone?: string
+}
+
+export async function getStoredVATToken(): Promise<StoredVATToken | null> {
+  const setting = await db.settings.findUnique({
+    where: { key: HMRC_VAT_TOKEN_SETTING }
+  })
+
+  if (!setting) {
+    return null
+  }
+
+  try {
+    return JSON.parse(setting.value) as StoredVATToken
+  } catch {
+    return null
+  }
+}
+
+export async function saveVATToken(
+  token: HMRCTokenResponse,
+  connectedByUserName: string,
+  previous?: StoredVATToken | null
+): Promise<StoredVATToken> {
+  const stored: StoredVATToken = {
+    accessToken: token.access_token,
+    refreshToken: token.refresh_token || previous?.refreshToken || null,
+    expiresAt: new Date(Date.now() + token.expires_in * 1000).toISOString(),
+    scope: token.scope || null,
+    connectedAt: previous?.connectedAt || new Date().toISOString(),
+    connectedByUserName: previous?.connectedByUserName || connectedByUserName
+  }
+
+  await db.settings.upsert({
+    where: { key: HMRC_VAT_TOKEN_SETTING },
+    create: { key: HMRC_VAT_TOKEN_SETTING, value: JSON.stringify(stored) },
+    update: { value: JSON.stringify(stored) }
+  })
+
+  return stored
+}
+
+export async function clearVATToken(): Promise<void> {
+  await db.settings.deleteMany({
+    where: { key: HMRC_VAT_TOKEN_SETTING }
+  })
+}
+
+/**
+ * Current access token for the MTD VAT API, refreshed when it has expired
+ * @throws When HMRC has not been connected or the refresh token has been revoked
+ */
+export async function getVATAccessToken(): Promise<string> {
+  const stored = await getStoredVATToken()
+
+  if (!stored) {
+    throw new Error('HMRC is not connected. A manager or partner needs to connect the practice to HMRC first.')
+  }
+
+  if (new Date(stored.expiresAt).getTime() - TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+    return stored.accessToken
+  }
+
+  if (!stored.refreshToken) {
+    throw new Error('The HMRC connection has expired. Please reconnect to HMRC.')
+  }
+
+  try {
+    const refreshed = await refreshUserToken(stored.refreshToken)
+    const saved = await saveVATToken(refreshed, stored.connectedByUserName, stored)
+    return saved.accessToken
+  } catch (error) {
+    console.error('Failed to refresh HMRC token:', error)
+    throw new Error('The HMRC connection has expired. Please reconnect to HMRC.')
+  }
+}
+
+/**
+ * HMRC fraud prevention headers for the WEB_APP_VIA_SERVER connection method
+ */
+export function getFraudPreventionHeaders(
+  request: NextRequest,
+  user: { id: string; email?: string | null },
+  device: VATClientDeviceInfo = {}
+): Record<string, string> {
+  const forwardedFor = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || ''
+  const publicIp = forwardedFor.split(',')[0]?.trim() || ''
+  const userIds = [`numericalz=${encodeURIComponent(user.id)}`]
+  if (user.email) {
+    userIds.push(`email=${encodeURIComponent(user.email)}`)
+  }
+
+  const headers: Record<string, string> = {
+    'Gov-Client-Connection-Method': 'WEB_APP_VIA_SERVER',
+    'Gov-Client-Browser-JS-User-Agent': request.headers.get('user-agent') || '',
+    'Gov-Client-User-IDs': userIds.join('&'),
+    'Gov-Client-Timezone': device.timezone || 'UTC+00:00',
+    'Gov-Vendor-Product-Name': 'Numericalz',
+    'Gov-Vendor-Version': `Numericalz=${process.env.npm_package_version || '1.0.0'}`
+  }
+
+  if (publicIp) {
+    headers['Gov-Client-Public-IP'] = publicIp
+    headers['Gov-Client-Public-IP-Timestamp'] = new Date().toISOString()
+  }
+  if (device.deviceId) headers['Gov-Client-Device-ID'] = device.deviceId
+  if (device.screens) headers['Gov-Client-Screens'] = device.screens
+  if (device.windowSize) headers['Gov-Client-Window-Size'] = device.windowSize
+
+  return headers
+}
+
+/**
+ * HMRC fraud prevention headers for scheduled jobs that run without a user at a browser
+ */
+export function getBatchFraudPreventionHeaders(): Record<string, string> {
+  return {
+    'Gov-Client-Connection-Method': 'BATCH_PROCESS_DIRECT',
+    'Gov-Client-Timezone': 'UTC+00:00',
+    'Gov-Vendor-Product-Name': 'Numericalz',
+    'Gov-Vendor-Version': `Numericalz=${process.env.npm_package_version || '1.0.0'}`
+  }
+}
+
+/**
+ * The obligation covering exactly this quarter's period, if HMRC has one
+ * Quarter periods are stored as YYYY-MM-DD_to_YYYY-MM-DD, the same date format HMRC uses
+ */
+export function findObligationForQuarter(
+  obligations: VATObligation[],
+  quarter: { quarterPeriod: string }
+): VATObligation | null {
+  const [start, end] = quarter.quarterPeriod.split('_to_')
+
+  return obligations.find(obligation => obligation.start === start && obligation.end === end) || null
+}
+
+/**
+ * Date range to ask HMRC for when looking up a quarter's obligation
+ * Widened by a quarter either side so a client whose stagger differs from ours still shows up
+ */
+export function getObligationWindowForQuarter(quarter: { quarterPeriod: string }): { from: string; to: string } {
+  const [start, end] = quarter.quarterPeriod.split('_to_')
+  const shift = (date: string, days: number) => {
+    const shifted = new Date(`${date}T00:00:00Z`)
+    shifted.setUTCDate(shifted.getUTCDate() + days)
+    return shifted.toISOString().slice(0, 10)
+  }
+
+  return { from: shift(start!, -92), to: shift(end!, 92) }
+}
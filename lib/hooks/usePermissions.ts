@@ -0,0 +1,67 @@
+import { useState, useCallback, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import type { Permission } from '@/lib/permissions'
+
+export interface UsePermissionsReturn {
+  permissions: Permission[]
+  loading: boolean
+  error: string | null
+  can: (permission: Permission) => boolean
+  refetch: () => Promise<void>
+}
+
+/**
+ * The signed-in user's effective permissions
+ * Used to hide navigation items and actions the user's role or overrides don't allow. The API
+ * still checks every request, so this only affects what is shown.
+ *
+ * @returns Permissions, loading state, error state and a can() helper
+ */
+export function usePermissions(): UsePermissionsReturn {
+  const { status } = useSession()
+
+  const [permissions, setPermissions] = useState<Permission[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchPermissions = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch('/api/permissions/me')
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch permissions: ${response.status} ${response.statusText}`)
+      }
+
+      const data = await response.json()
+      setPermissions(data.permissions || [])
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred'
+      setError(errorMessage)
+      console.error('Error fetching permissions:', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchPermissions()
+    } else if (status === 'unauthenticated') {
+      setPermissions([])
+      setLoading(false)
+    }
+  }, [status, fetchPermissions])
+
+  const can = useCallback((permission: Permission) => permissions.includes(permission), [permissions])
+
+  return {
+    permissions,
+    loading,
+    error,
+    can,
+    refetch: fetchPermissions
+  }
+}
@@ -1,4 +1,5 @@
 import { useState, useCallback, useEffect } from 'react'
+import type { UserPickerScope } from '@/lib/teams'
 
 export interface User {
   id: string
@@ -10,6 +11,8 @@ export interface User {
 export interface UseUsersOptions {
   includeSelf?: boolean
   role?: string
+  // 'team' limits the list to the signed-in user's teams, for assignment pickers; defaults to 'all'
+  scope?: UserPickerScope
   autoFetch?: boolean
 }
 
@@ -29,7 +32,7 @@ export interface UseUsersReturn {
  * @returns Users data, loading state, error state, and refetch functions
  */
 export function useUsers(options: UseUsersOptions = {}): UseUsersReturn {
-  const { includeSelf = false, role, autoFetch = true } = options
+  const { includeSelf = false, role, scope, autoFetch = true } = options
   
   const [users, setUsers] = useState<User[]>([])
   const [loading, setLoading] = useState(false)
@@ -43,6 +46,7 @@ export function useUsers(options: UseUsersOptions = {}): UseUsersReturn {
       const params = new URLSearchParams()
       if (includeSelf) params.append('includeSelf', 'true')
       if (role) params.append('role', role)
+      if (scope) params.append('scope', scope)
 
       const response = await fetch(`/api/users?${params}`)
       
@@ -59,7 +63,7 @@ export function useUsers(options: UseUsersOptions = {}): UseUsersReturn {
     } finally {
       setLoading(false)
     }
-  }, [includeSelf, role])
+  }, [includeSelf, role, scope])
 
   useEffect(() => {
     if (autoFetch) {
@@ -1,5 +1,6 @@
 import { db } from '@/lib/db'
 import { InAppNotificationCategory } from '@prisma/client'
+import { messagingService } from '@/lib/messaging-service'
 
 export interface CreateNotificationData {
   userId: string
@@ -19,6 +20,9 @@ export interface NotificationTemplate {
   message: string
 }
 
+// Notifications that are also texted to users who have turned on SMS notifications
+const SMS_NOTIFICATION_TYPES = ['VAT_DEADLINE_REMINDER', 'ACCOUNTS_DEADLINE_REMINDER', 'CHASE_ESCALATION']
+
 // Common notification templates
 export const NOTIFICATION_TEMPLATES = {
   // VAT Notifications
@@ -103,6 +107,12 @@ export async function createNotification(data: CreateNotificationData) {
         },
       },
     })
+
+    if (SMS_NOTIFICATION_TYPES.includes(data.type)) {
+      await messagingService.sendUserSms(data.userId, `${data.title}: ${data.message}`).catch(error => {
+        console.error('Error sending SMS notification:', error)
+      })
+    }
     
     return notification
   } catch (error) {
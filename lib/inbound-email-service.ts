@@ -0,0 +1,477 @@
+/**
+ * Inbound Email Server-Side Utilities
+ *
+ * Matches a client's reply to the email it answers, stores it as an EMAIL_INBOUND Communication with
+ * its attachments, and lets the person looking after the client know it has arrived.
+ *
+ * Replies are matched, in order, by:
+ * - the plus-addressed reply-to token (replies+<emailLogId>@...) set on client emails when
+ *   INBOUND_REPLY_ADDRESS is configured
+ * - In-Reply-To/References against EmailLog.messageId, or against an earlier reply in the thread
+ * - the sender's address against Client.contactEmail (stored unthreaded)
+ */
+
+import { randomBytes } from 'crypto'
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+import { db } from '@/lib/db'
+import { logActivity } from '@/lib/activity-logger'
+import { createNotification } from '@/lib/in-app-notifications'
+import { sanitiseFileName } from '@/lib/client-portal'
+import {
+  INBOUND_EMAIL_COMMUNICATION_TYPE,
+  extractMessageIds,
+  extractReplyToken,
+  getReplyToAddress,
+  normaliseMessageId,
+  parseEmailAddress,
+  parseEmailAddressList,
+  parseEmailHeaders,
+  stripQuotedReply,
+  type EmailThread,
+  type EmailThreadMessage
+} from '@/lib/inbound-email'
+
+const DEFAULT_MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024
+
+export class InboundEmailError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'InboundEmailError'
+  }
+}
+
+/**
+ * An email as posted by the parse route, before matching
+ */
+export interface InboundEmail {
+  from: string
+  to: string
+  cc?: string | null
+  subject?: string | null
+  text?: string | null
+  html?: string | null
+  headers?: string | null
+  // Envelope recipients, which include the reply mailbox even when it was Bcc'd
+  envelopeTo?: string[]
+  attachments: File[]
+}
+
+export interface InboundEmailResult {
+  matched: boolean
+  duplicate?: boolean
+  communicationId?: string
+  clientId?: string
+  emailLogId?: string | null
+  matchedBy?: 'reply_token' | 'message_id' | 'sender'
+  skippedAttachments?: string[]
+}
+
+interface MatchedThread {
+  clientId: string
+  emailLogId: string | null
+  workflowType: string | null
+  workflowId: string | null
+  triggeredBy: string | null
+  matchedBy: NonNullable<InboundEmailResult['matchedBy']>
+}
+
+async function matchInboundEmail(
+  recipients: string[],
+  referencedIds: string[],
+  senderEmail: string
+): Promise<MatchedThread | null> {
+  const logSelect = { id: true, clientId: true, workflowType: true, workflowId: true, triggeredBy: true }
+
+  const replyMailbox = process.env.INBOUND_REPLY_ADDRESS
+  const token = replyMailbox ? extractReplyToken(recipients, replyMailbox) : null
+  if (token) {
+    const emailLog = await db.emailLog.findUnique({ where: { id: token }, select: logSelect })
+    if (emailLog?.clientId) {
+      return { ...emailLog, clientId: emailLog.clientId, emailLogId: emailLog.id, matchedBy: 'reply_token' }
+    }
+  }
+
+  if (referencedIds.length > 0) {
+    const emailLog = await db.emailLog.findFirst({
+      where: { messageId: { in: referencedIds }, clientId: { not: null } },
+      orderBy: { createdAt: 'desc' },
+      select: logSelect
+    })
+    if (emailLog?.clientId) {
+      return { ...emailLog, clientId: emailLog.clientId, emailLogId: emailLog.id, matchedBy: 'message_id' }
+    }
+
+    // A reply to an earlier reply joins that reply's thread
+    const earlierReply = await db.communication.findFirst({
+      where: { messageId: { in: referencedIds } },
+      select: {
+        clientId: true,
+        emailLog: { select: logSelect }
+      }
+    })
+    if (earlierReply) {
+      return {
+        clientId: earlierReply.clientId,
+        emailLogId: earlierReply.emailLog?.id || null,
+        workflowType: earlierReply.emailLog?.workflowType || null,
+        workflowId: earlierReply.emailLog?.workflowId || null,
+        triggeredBy: earlierReply.emailLog?.triggeredBy || null,
+        matchedBy: 'message_id'
+      }
+    }
+  }
+
+  const client = await db.client.findFirst({
+    where: { contactEmail: { equals: senderEmail, mode: 'insensitive' }, isActive: true },
+    orderBy: { updatedAt: 'desc' },
+    select: { id: true }
+  })
+  if (client) {
+    return {
+      clientId: client.id,
+      emailLogId: null,
+      workflowType: null,
+      workflowId: null,
+      triggeredBy: null,
+      matchedBy: 'sender'
+    }
+  }
+
+  return null
+}
+
+/**
+ * Store a client's reply on their record and notify whoever looks after the work it relates to
+ * @throws InboundEmailError when the email has no usable sender
+ */
+export async function receiveInboundEmail(email: InboundEmail): Promise<InboundEmailResult> {
+  const sender = parseEmailAddress(email.from)
+  if (!sender) {
+    throw new InboundEmailError('Inbound email has no sender address')
+  }
+
+  const headers = parseEmailHeaders(email.headers)
+  const messageId = headers['message-id'] ? normaliseMessageId(headers['message-id']) : null
+
+  if (messageId) {
+    const existing = await db.communication.findUnique({ where: { messageId }, select: { id: true, clientId: true } })
+    if (existing) {
+      // Parse routes retry on timeouts - the first delivery already stored this email
+      return { matched: true, duplicate: true, communicationId: existing.id, clientId: existing.clientId }
+    }
+  }
+
+  const inReplyTo = extractMessageIds(headers['in-reply-to'])
+  const referencedIds = Array.from(new Set([...inReplyTo, ...extractMessageIds(headers['references'])]))
+  const recipients = [
+    ...parseEmailAddressList(email.to),
+    ...parseEmailAddressList(email.cc),
+    ...(email.envelopeTo || []).map(address => address.toLowerCase())
+  ]
+
+  const thread = await matchInboundEmail(recipients, referencedIds, sender.email)
+  if (!thread) {
+    console.log(`📭 Inbound email from ${sender.email} did not match a client - ignored`)
+    return { matched: false }
+  }
+
+  const text = email.text?.trim()
+    ? stripQuotedReply(email.text)
+    : (email.html || '').replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim()
+
+  const communication = await db.communication.create({
+    data: {
+      type: INBOUND_EMAIL_COMMUNICATION_TYPE,
+      subject: email.subject?.trim() || '(no subject)',
+      content: text,
+      htmlContent: email.html || null,
+      sentAt: new Date(),
+      clientId: thread.clientId,
+      fromEmail: sender.email,
+      fromName: sender.name || null,
+      messageId,
+      inReplyTo: inReplyTo[0] || null,
+      emailLogId: thread.emailLogId
+    }
+  })
+
+  const skippedAttachments = await saveInboundAttachments(communication.id, thread.clientId, email.attachments)
+
+  const client = await db.client.findUnique({
+    where: { id: thread.clientId },
+    select: { companyName: true, assignedUserId: true }
+  })
+
+  await logActivity({
+    action: 'CLIENT_EMAIL_RECEIVED',
+    clientId: thread.clientId,
+    details: {
+      companyName: client?.companyName,
+      communicationId: communication.id,
+      fromEmail: sender.email,
+      subject: communication.subject,
+      emailLogId: thread.emailLogId,
+      matchedBy: thread.matchedBy,
+      attachmentCount: email.attachments.length - skippedAttachments.length
+    }
+  })
+
+  await notifyAssigneeOfReply(thread, communication.id, client, sender.name || sender.email)
+
+  return {
+    matched: true,
+    communicationId: communication.id,
+    clientId: thread.clientId,
+    emailLogId: thread.emailLogId,
+    matchedBy: thread.matchedBy,
+    skippedAttachments
+  }
+}
+
+/**
+ * Save attachments alongside client documents; anything over MAX_FILE_SIZE is skipped and reported
+ */
+async function saveInboundAttachments(communicationId: string, clientId: string, files: File[]): Promise<string[]> {
+  if (files.length === 0) return []
+
+  const maxSize = parseInt(process.env.MAX_FILE_SIZE || '', 10) || DEFAULT_MAX_ATTACHMENT_SIZE
+  const uploadDir = path.join(process.env.UPLOAD_DIR || './uploads', 'inbound-email', clientId)
+  await mkdir(uploadDir, { recursive: true })
+
+  const skipped: string[] = []
+  for (const file of files) {
+    if (file.size === 0 || file.size > maxSize) {
+      skipped.push(file.name)
+      continue
+    }
+
+    const storedName = `${Date.now()}-${randomBytes(6).toString('hex')}-${sanitiseFileName(file.name)}`
+    const filePath = path.join(uploadDir, storedName)
+    await writeFile(filePath, Buffer.from(await file.arrayBuffer()))
+
+    await db.emailAttachment.create({
+      data: {
+        fileName: file.name,
+        filePath,
+        fileSize: file.size,
+        mimeType: file.type || 'application/octet-stream',
+        communicationId
+      }
+    })
+  }
+
+  return skipped
+}
+
+/**
+ * Tell the assignee of the work the email was about (or the client's assignee, or whoever sent the
+ * original email) that the client has replied
+ */
+async function notifyAssigneeOfReply(
+  thread: MatchedThread,
+  communicationId: string,
+  client: { companyName: string; assignedUserId: string | null } | null,
+  senderName: string
+) {
+  const { workflowType, workflowId } = thread
+
+  const workflowAssigneeId = workflowId
+    ? workflowType === 'VAT'
+      ? (await db.vATQuarter.findUnique({ where: { id: workflowId }, select: { assignedUserId: true } }))?.assignedUserId
+      : workflowType === 'LTD'
+        ? (await db.ltdAccountsWorkflow.findUnique({ where: { id: workflowId }, select: { assignedUserId: true } }))?.assignedUserId
+        : workflowType === 'NON_LTD'
+          ? (await db.nonLtdAccountsWorkflow.findUnique({ where: { id: workflowId }, select: { assignedUserId: true } }))?.assignedUserId
+          : null
+    : null
+
+  const userId = workflowAssigneeId || client?.assignedUserId || thread.triggeredBy
+  if (!userId) return
+
+  await createNotification({
+    userId,
+    category: workflowType === 'VAT' ? 'VAT' : workflowType === 'LTD' || workflowType === 'NON_LTD' ? 'ACCOUNTS' : 'REMINDERS',
+    type: 'CLIENT_EMAIL_RECEIVED',
+    title: 'Client Replied',
+    message: `${senderName} from ${client?.companyName || 'a client'} replied by email`,
+    clientId: thread.clientId,
+    relatedId: communicationId
+  })
+}
+
+/**
+ * Every email to and from a client, grouped into threads, most recently active first
+ * Outbound emails with no replies are threads of one
+ */
+export async function getClientEmailThreads(clientId: string, limit = 50): Promise<EmailThread[]> {
+  const [emailLogs, replies] = await Promise.all([
+    db.emailLog.findMany({
+      where: { clientId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        subject: true,
+        content: true,
+        recipientEmail: true,
+        fromEmail: true,
+        fromName: true,
+        status: true,
+        createdAt: true,
+        sentAt: true,
+        triggeredByUser: { select: { name: true } }
+      }
+    }),
+    db.communication.findMany({
+      where: { clientId, type: INBOUND_EMAIL_COMMUNICATION_TYPE },
+      orderBy: { sentAt: 'asc' },
+      include: {
+        attachments: { select: { id: true, fileName: true, fileSize: true } },
+        emailLog: {
+          select: {
+            id: true,
+            subject: true,
+            content: true,
+            recipientEmail: true,
+            fromEmail: true,
+            fromName: true,
+            status: true,
+            createdAt: true,
+            sentAt: true,
+            triggeredByUser: { select: { name: true } }
+          }
+        }
+      }
+    })
+  ])
+
+  type OutboundLog = (typeof emailLogs)[number]
+  const toOutboundMessage = (log: OutboundLog): EmailThreadMessage => ({
+    id: log.id,
+    direction: 'outbound',
+    subject: log.subject,
+    fromName: log.triggeredByUser?.name || log.fromName,
+    fromEmail: log.fromEmail,
+    toEmail: log.recipientEmail,
+    content: log.content,
+    status: log.status,
+    at: (log.sentAt || log.createdAt).toISOString(),
+    attachments: []
+  })
+
+  const threads = new Map<string, EmailThread>()
+
+  for (const log of emailLogs) {
+    threads.set(log.id, {
+      id: log.id,
+      subject: log.subject,
+      lastMessageAt: (log.sentAt || log.createdAt).toISOString(),
+      replyCount: 0,
+      messages: [toOutboundMessage(log)]
+    })
+  }
+
+  for (const reply of replies) {
+    const message: EmailThreadMessage = {
+      id: reply.id,
+      direction: 'inbound',
+      subject: reply.subject,
+      fromName: reply.fromName,
+      fromEmail: reply.fromEmail,
+      toEmail: null,
+      content: reply.content,
+      status: null,
+      at: (reply.sentAt || reply.createdAt).toISOString(),
+      attachments: reply.attachments
+    }
+    const threadId = reply.emailLogId || reply.id
+
+    // Replies to emails older than the limit still bring their original email into the thread
+    if (!threads.has(threadId)) {
+      threads.set(threadId, {
+        id: threadId,
+        subject: reply.emailLog?.subject || reply.subject,
+        lastMessageAt: message.at,
+        replyCount: 0,
+        messages: reply.emailLog ? [toOutboundMessage(reply.emailLog)] : []
+      })
+    }
+
+    const thread = threads.get(threadId)!
+    thread.messages.push(message)
+    thread.replyCount++
+    if (message.at > thread.lastMessageAt) thread.lastMessageAt = message.at
+  }
+
+  return Array.from(threads.values())
+    .sort((a, b) => b.lastMessageAt.localeCompare(a.lastMessageAt))
+    .slice(0, limit)
+}
+
+/**
+ * A realistic parse-route payload replying to one of a client's emails, for exercising the webhook
+ * locally. Replies to the given email log, or the client's most recent email when none is given.
+ */
+export async function buildInboundEmailFixture(options: { emailLogId?: string; clientId?: string } = {}) {
+  const emailLog = await db.emailLog.findFirst({
+    where: options.emailLogId
+      ? { id: options.emailLogId }
+      : { clientId: options.clientId ? options.clientId : { not: null } },
+    orderBy: { createdAt: 'desc' },
+    select: {
+      id: true,
+      subject: true,
+      messageId: true,
+      recipientEmail: true,
+      recipientName: true,
+      sentAt: true,
+      createdAt: true,
+      fromEmail: true
+    }
+  })
+
+  if (!emailLog) {
+    throw new InboundEmailError('No client email found to reply to', 404)
+  }
+
+  const replyTo = getReplyToAddress(emailLog.id) || emailLog.fromEmail || 'notifications@numericalz.com'
+  const fixtureMessageId = `<fixture-${randomBytes(8).toString('hex')}@mail.example.com>`
+  const originalDate = (emailLog.sentAt || emailLog.createdAt).toUTCString()
+  const headerLines = [
+    `Message-ID: ${fixtureMessageId}`,
+    `Date: ${new Date().toUTCString()}`,
+    `From: ${emailLog.recipientName || 'Client'} <${emailLog.recipientEmail}>`,
+    `To: ${replyTo}`,
+    `Subject: Re: ${emailLog.subject}`,
+    ...(emailLog.messageId
+      ? [`In-Reply-To: <${emailLog.messageId}>`, `References: <${emailLog.messageId}>`]
+      : [])
+  ]
+
+  return {
+    emailLogId: emailLog.id,
+    fields: {
+      from: `${emailLog.recipientName || 'Client'} <${emailLog.recipientEmail}>`,
+      to: replyTo,
+      subject: `Re: ${emailLog.subject}`,
+      text: [
+        'Hi,',
+        '',
+        'Thanks for the reminder - the bank statements for the quarter are attached.',
+        '',
+        'Kind regards',
+        '',
+        `On ${originalDate}, Numericalz <${emailLog.fromEmail || 'notifications@numericalz.com'}> wrote:`,
+        `> ${emailLog.subject}`
+      ].join('\n'),
+      headers: headerLines.join('\n'),
+      envelope: JSON.stringify({ to: [replyTo], from: emailLog.recipientEmail })
+    },
+    attachment: {
+      name: 'bank-statement-fixture.csv',
+      type: 'text/csv',
+      content: 'Date,Description,Amount\n01/07/2025,Opening balance,1000.00\n15/07/2025,Card payment,-42.50\n'
+    }
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Inbound Email Client-Safe Utilities
+ *
+ * Client replies reach the system through a parse-route webhook. A reply is matched to the email it
+ * answers either by the token in the reply-to address (replies+<emailLogId>@...) or by its
+ * In-Reply-To/References headers against EmailLog.messageId, and stored as an EMAIL_INBOUND
+ * Communication on the client so the conversation can be shown as a thread.
+ */
+
+export const INBOUND_EMAIL_COMMUNICATION_TYPE = 'EMAIL_INBOUND'
+
+export interface EmailAddress {
+  email: string
+  name?: string
+}
+
+export interface EmailThreadAttachment {
+  id: string
+  fileName: string
+  fileSize: number
+}
+
+export interface EmailThreadMessage {
+  id: string
+  direction: 'outbound' | 'inbound'
+  subject: string
+  fromName: string | null
+  fromEmail: string | null
+  toEmail: string | null
+  content: string
+  status: string | null
+  at: string
+  attachments: EmailThreadAttachment[]
+}
+
+export interface EmailThread {
+  id: string
+  subject: string
+  lastMessageAt: string
+  replyCount: number
+  messages: EmailThreadMessage[]
+}
+
+/**
+ * Message-IDs are compared without angle brackets and case-insensitively
+ */
+export function normaliseMessageId(messageId: string): string {
+  return messageId.trim().replace(/^<|>$/g, '').toLowerCase()
+}
+
+/**
+ * Every Message-ID in an In-Reply-To or References header value
+ */
+export function extractMessageIds(headerValue: string | null | undefined): string[] {
+  if (!headerValue) return []
+  const bracketed = headerValue.match(/<[^<>\s]+>/g)
+  const ids = bracketed || headerValue.split(/\s+/)
+  return ids.map(normaliseMessageId).filter(Boolean)
+}
+
+/**
+ * Parse a raw header block into lower-cased header names, unfolding continuation lines
+ * Where a header repeats, the first value wins
+ */
+export function parseEmailHeaders(raw: string | null | undefined): Record<string, string> {
+  const headers: Record<string, string> = {}
+  if (!raw) return headers
+
+  const unfolded = raw.replace(/\r\n/g, '\n').replace(/\n[ \t]+/g, ' ')
+  for (const line of unfolded.split('\n')) {
+    const separator = line.indexOf(':')
+    if (separator <= 0) continue
+    const name = line.slice(0, separator).trim().toLowerCase()
+    if (!(name in headers)) {
+      headers[name] = line.slice(separator + 1).trim()
+    }
+  }
+  return headers
+}
+
+/**
+ * Parse a single "Name <address>" or bare address
+ */
+export function parseEmailAddress(value: string | null | undefined): EmailAddress | null {
+  if (!value) return null
+  const match = value.match(/^\s*"?([^"<]*?)"?\s*<([^<>\s]+@[^<>\s]+)>\s*$/)
+  if (match) {
+    return { email: match[2]!.toLowerCase(), name: match[1]!.trim() || undefined }
+  }
+  const bare = value.match(/[^\s<>",;]+@[^\s<>",;]+/)
+  return bare ? { email: bare[0].toLowerCase() } : null
+}
+
+/**
+ * Every address in a To/Cc style list
+ */
+export function parseEmailAddressList(value: string | null | undefined): string[] {
+  if (!value) return []
+  return (value.match(/[^\s<>",;:]+@[^\s<>",;]+/g) || []).map(address => address.toLowerCase())
+}
+
+/**
+ * Plus-address a reply mailbox with the email log id, e.g. replies+clx123@reply.example.com
+ */
+export function buildReplyToAddress(replyMailbox: string, emailLogId: string): string {
+  const [local, domain] = replyMailbox.split('@')
+  return `${local}+${emailLogId}@${domain}`
+}
+
+/**
+ * Reply-to address that routes a client's reply back to this email log, or null when inbound
+ * capture isn't configured (replies then go to the branding reply-to address as before)
+ */
+export function getReplyToAddress(emailLogId: string): string | null {
+  const replyMailbox = process.env.INBOUND_REPLY_ADDRESS
+  if (!replyMailbox || !replyMailbox.includes('@')) return null
+  return buildReplyToAddress(replyMailbox, emailLogId)
+}
+
+/**
+ * Email log id from whichever recipient address is the plus-addressed reply mailbox
+ */
+export function extractReplyToken(addresses: string[], replyMailbox: string): string | null {
+  const [local, domain] = replyMailbox.toLowerCase().split('@')
+  for (const address of addresses) {
+    const [addressLocal, addressDomain] = address.toLowerCase().split('@')
+    if (addressDomain === domain && addressLocal?.startsWith(`${local}+`)) {
+      const token = addressLocal.slice(local!.length + 1)
+      if (/^[a-z0-9]+$/.test(token)) return token
+    }
+  }
+  return null
+}
+
+/**
+ * Drop the quoted previous message from a plain-text reply, so the thread shows what the client wrote
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n')
+  const cutAt = lines.findIndex(line => {
+    const trimmed = line.trim()
+    return /^On .+ wrote:$/.test(trimmed) ||
+      /^-{2,}\s*Original Message\s*-{2,}$/i.test(trimmed) ||
+      /^_{10,}$/.test(trimmed) // Outlook puts a line of underscores above the quoted message
+  })
+  const kept = (cutAt >= 0 ? lines.slice(0, cutAt) : lines).filter(line => !line.startsWith('>'))
+  return kept.join('\n').trim() || text.trim()
+}
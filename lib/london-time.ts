@@ -188,6 +188,36 @@ export function createLondonDate(
   return new Date(tempDate.toLocaleString('en-US', { timeZone: LONDON_TIMEZONE }))
 }
 
+/**
+ * Convert a London wall-clock date and time (as typed into a form) to the UTC instant it refers to
+ * Works out the BST/GMT offset for that moment rather than today's, independent of the server timezone
+ * @param date - YYYY-MM-DD
+ * @param time - HH:mm
+ */
+export function londonLocalTimeToUTC(date: string, time: string): Date {
+  const [year = 0, month = 1, day = 1] = date.split('-').map(Number)
+  const [hour = 0, minute = 0] = time.split(':').map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute)
+
+  const offsetAt = (instant: number) => {
+    const parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone: LONDON_TIMEZONE,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(new Date(instant))
+    const part = (type: string) => Number(parts.find(p => p.type === type)?.value)
+    return Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute')) - instant
+  }
+
+  // Guess with the offset at the wall-clock time, then correct once in case that guess crossed a clock change
+  const guess = wallClock - offsetAt(wallClock)
+  return new Date(wallClock - offsetAt(guess))
+}
+
 /**
  * Activity log timestamp - standardized for audit trails
  */
@@ -0,0 +1,443 @@
+/**
+ * Text Messaging Service
+ *
+ * The SMS and WhatsApp counterpart to DualEmailService. A MessagingProvider does the sending:
+ *
+ * - TwilioMessagingProvider: SMS and WhatsApp through the Twilio REST API, with delivery status
+ *   callbacks posted to /api/webhooks/messaging
+ * - FakeMessagingProvider: keeps messages in memory for local development and testing, with
+ *   delivery simulated through /api/webhooks/messaging/fake
+ *
+ * MESSAGING_PROVIDER picks the provider (twilio or fake). Left unset, Twilio is used when it is
+ * configured and the fake provider otherwise, except in production where texting stays off.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto'
+import { db } from '@/lib/db'
+import { processEmailVariables } from '@/lib/email-variables'
+import {
+  FINAL_DELIVERY_STATUSES,
+  MAX_TEXT_MESSAGE_LENGTH,
+  MESSAGING_CHANNEL_CONFIG,
+  isUkMobileNumber,
+  normalisePhoneNumber,
+  type ClientMessageSummary,
+  type MessageDeliveryStatusValue,
+  type MessagingChannel
+} from '@/lib/messaging'
+
+export class MessagingError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'MessagingError'
+  }
+}
+
+interface SendTextParams {
+  channel: MessagingChannel
+  to: string // E.164
+  body: string
+}
+
+interface ProviderSendResult {
+  success: boolean
+  providerMessageId?: string
+  status?: MessageDeliveryStatusValue
+  error?: string
+}
+
+export interface MessagingProvider {
+  readonly name: 'TWILIO' | 'FAKE'
+  send(params: SendTextParams): Promise<ProviderSendResult>
+}
+
+interface TwilioConfig {
+  accountSid: string
+  authToken: string
+  smsFrom: string
+  whatsappFrom?: string
+  statusCallbackUrl?: string
+}
+
+// Twilio message statuses, from https://www.twilio.com/docs/messaging/api/message-resource#message-status-values
+const TWILIO_STATUS_MAP: Record<string, MessageDeliveryStatusValue> = {
+  accepted: 'QUEUED',
+  scheduled: 'QUEUED',
+  queued: 'QUEUED',
+  sending: 'QUEUED',
+  sent: 'SENT',
+  delivered: 'DELIVERED',
+  read: 'DELIVERED',
+  undelivered: 'UNDELIVERED',
+  failed: 'FAILED',
+  canceled: 'FAILED'
+}
+
+export function mapTwilioStatus(status: string | null | undefined): MessageDeliveryStatusValue | null {
+  return status ? TWILIO_STATUS_MAP[status.toLowerCase()] || null : null
+}
+
+/**
+ * Check the X-Twilio-Signature header: base64 HMAC-SHA1 of the callback URL followed by every
+ * posted parameter name and value, sorted by name
+ */
+export function verifyTwilioSignature(
+  url: string,
+  params: Record<string, string>,
+  signature: string | null,
+  authToken: string
+): boolean {
+  if (!signature) return false
+
+  const payload = Object.keys(params).sort().reduce((text, key) => text + key + params[key], url)
+  const expected = createHmac('sha1', authToken).update(payload).digest('base64')
+
+  const expectedBuffer = Buffer.from(expected)
+  const signatureBuffer = Buffer.from(signature)
+  return expectedBuffer.length === signatureBuffer.length && timingSafeEqual(expectedBuffer, signatureBuffer)
+}
+
+class TwilioMessagingProvider implements MessagingProvider {
+  readonly name = 'TWILIO' as const
+
+  constructor(private config: TwilioConfig) {}
+
+  async send(params: SendTextParams): Promise<ProviderSendResult> {
+    const isWhatsApp = params.channel === 'WHATSAPP'
+    if (isWhatsApp && !this.config.whatsappFrom) {
+      return { success: false, error: 'WhatsApp sender is not configured (TWILIO_WHATSAPP_FROM)' }
+    }
+
+    const form = new URLSearchParams({
+      To: isWhatsApp ? `whatsapp:${params.to}` : params.to,
+      From: isWhatsApp ? `whatsapp:${this.config.whatsappFrom}` : this.config.smsFrom,
+      Body: params.body
+    })
+    if (this.config.statusCallbackUrl) {
+      form.set('StatusCallback', this.config.statusCallbackUrl)
+    }
+
+    try {
+      const response = await fetch(
+        `https://api.twilio.com/2010-04-01/Accounts/${this.config.accountSid}/Messages.json`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': `Basic ${Buffer.from(`${this.config.accountSid}:${this.config.authToken}`).toString('base64')}`,
+            'Content-Type': 'application/x-www-form-urlencoded'
+          },
+          body: form.toString()
+        }
+      )
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        return { success: false, error: data.message || `Twilio returned ${response.status}` }
+      }
+
+      return {
+        success: true,
+        providerMessageId: data.sid,
+        status: mapTwilioStatus(data.status) || 'QUEUED'
+      }
+    } catch (error) {
+      console.error('❌ Twilio send failed:', error)
+      return { success: false, error: error instanceof Error ? error.message : 'Twilio request failed' }
+    }
+  }
+}
+
+export interface FakeOutboxMessage {
+  providerMessageId: string
+  channel: MessagingChannel
+  to: string
+  body: string
+  sentAt: string
+}
+
+// Kept on globalThis so the outbox survives hot reloads in development
+const fakeOutboxStore = globalThis as unknown as { fakeMessagingOutbox?: FakeOutboxMessage[] }
+const FAKE_OUTBOX_LIMIT = 100
+
+class FakeMessagingProvider implements MessagingProvider {
+  readonly name = 'FAKE' as const
+
+  async send(params: SendTextParams): Promise<ProviderSendResult> {
+    const message: FakeOutboxMessage = {
+      providerMessageId: `fake_${randomUUID()}`,
+      channel: params.channel,
+      to: params.to,
+      body: params.body,
+      sentAt: new Date().toISOString()
+    }
+
+    const outbox = fakeOutboxStore.fakeMessagingOutbox || []
+    fakeOutboxStore.fakeMessagingOutbox = [message, ...outbox].slice(0, FAKE_OUTBOX_LIMIT)
+    console.log(`📱 [fake ${params.channel}] to ${params.to}: ${params.body}`)
+
+    return { success: true, providerMessageId: message.providerMessageId, status: 'SENT' }
+  }
+}
+
+/**
+ * Messages the fake provider has "sent", newest first
+ */
+export function getFakeOutbox(): FakeOutboxMessage[] {
+  return fakeOutboxStore.fakeMessagingOutbox || []
+}
+
+function createMessagingProvider(): MessagingProvider | null {
+  const choice = process.env.MESSAGING_PROVIDER?.toLowerCase()
+  const twilioConfigured = !!(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && process.env.TWILIO_SMS_FROM)
+
+  if (choice === 'fake' || (!choice && !twilioConfigured && process.env.NODE_ENV !== 'production')) {
+    return new FakeMessagingProvider()
+  }
+
+  if ((choice === 'twilio' || !choice) && twilioConfigured) {
+    return new TwilioMessagingProvider({
+      accountSid: process.env.TWILIO_ACCOUNT_SID!,
+      authToken: process.env.TWILIO_AUTH_TOKEN!,
+      smsFrom: process.env.TWILIO_SMS_FROM!,
+      whatsappFrom: process.env.TWILIO_WHATSAPP_FROM,
+      statusCallbackUrl: process.env.NEXTAUTH_URL ? `${process.env.NEXTAUTH_URL}/api/webhooks/messaging` : undefined
+    })
+  }
+
+  console.warn('⚠️ Text messaging is not configured - SMS and WhatsApp messages will not be sent')
+  return null
+}
+
+export interface SendClientMessageParams {
+  clientId: string
+  channel: MessagingChannel
+  body: string
+  templateId?: string | null
+  sentByUserId?: string | null
+  workflowType?: string | null
+  workflowId?: string | null
+  chaseStepId?: string | null
+}
+
+export interface ClientMessageResult {
+  success: boolean
+  communicationId?: string
+  error?: string
+}
+
+class MessagingService {
+  constructor(private provider: MessagingProvider | null) {}
+
+  get providerName() {
+    return this.provider?.name || null
+  }
+
+  isConfigured() {
+    return this.provider !== null
+  }
+
+  /**
+   * Text a client's primary contact, if the client has consented to the channel
+   * Every attempt that reaches a provider is logged to Communication with type SMS or WHATSAPP.
+   * @throws MessagingError when the message can't be sent to this client at all
+   */
+  async sendClientMessage(params: SendClientMessageParams): Promise<ClientMessageResult> {
+    const channelLabel = MESSAGING_CHANNEL_CONFIG[params.channel].label
+    const body = params.body.trim()
+
+    if (!this.provider) {
+      throw new MessagingError('Text messaging is not configured', 503)
+    }
+    if (!body) {
+      throw new MessagingError('Message text is required')
+    }
+    if (body.length > MAX_TEXT_MESSAGE_LENGTH) {
+      throw new MessagingError(`Messages can be at most ${MAX_TEXT_MESSAGE_LENGTH} characters`)
+    }
+
+    const client = await db.client.findUnique({
+      where: { id: params.clientId },
+      select: { id: true, companyName: true, contactPhone: true, smsConsent: true, whatsappConsent: true }
+    })
+    if (!client) {
+      throw new MessagingError('Client not found', 404)
+    }
+
+    const consented = params.channel === 'SMS' ? client.smsConsent : client.whatsappConsent
+    if (!consented) {
+      throw new MessagingError(`${client.companyName} has not consented to ${channelLabel} messages`)
+    }
+
+    const toPhone = normalisePhoneNumber(client.contactPhone)
+    if (!toPhone) {
+      throw new MessagingError(`${client.companyName} has no valid contact phone number`)
+    }
+    if (toPhone.startsWith('+44') && !isUkMobileNumber(toPhone)) {
+      throw new MessagingError(`${client.contactPhone} is not a mobile number`)
+    }
+
+    const communication = await db.communication.create({
+      data: {
+        type: params.channel,
+        subject: `${channelLabel} message`,
+        content: body,
+        clientId: client.id,
+        sentByUserId: params.sentByUserId || null,
+        toPhone,
+        provider: this.provider.name,
+        deliveryStatus: 'QUEUED',
+        templateId: params.templateId || null,
+        workflowType: params.workflowType || null,
+        workflowId: params.workflowId || null,
+        chaseStepId: params.chaseStepId || null
+      }
+    })
+
+    const result = await this.provider.send({ channel: params.channel, to: toPhone, body })
+
+    await db.communication.update({
+      where: { id: communication.id },
+      data: result.success
+        ? {
+            providerMessageId: result.providerMessageId || null,
+            deliveryStatus: result.status || 'SENT',
+            sentAt: new Date()
+          }
+        : {
+            deliveryStatus: 'FAILED',
+            deliveryError: result.error || 'Provider rejected the message'
+          }
+    })
+
+    if (!result.success) {
+      console.error(`❌ ${channelLabel} to ${client.companyName} failed:`, result.error)
+      return { success: false, communicationId: communication.id, error: result.error || `Failed to send ${channelLabel}` }
+    }
+
+    return { success: true, communicationId: communication.id }
+  }
+
+  /**
+   * Apply a delivery status reported by the provider
+   * Statuses arrive out of order, so a final status is never replaced by an earlier one.
+   * @returns the updated message, or null when the provider id isn't one of ours
+   */
+  async recordDeliveryStatus(params: {
+    providerMessageId: string
+    status: MessageDeliveryStatusValue
+    error?: string | null
+    occurredAt?: Date
+  }) {
+    const communication = await db.communication.findUnique({
+      where: { providerMessageId: params.providerMessageId },
+      select: { id: true, deliveryStatus: true }
+    })
+    if (!communication) return null
+
+    const current = communication.deliveryStatus as MessageDeliveryStatusValue | null
+    if (current && FINAL_DELIVERY_STATUSES.includes(current) && !FINAL_DELIVERY_STATUSES.includes(params.status)) {
+      return communication
+    }
+
+    return db.communication.update({
+      where: { id: communication.id },
+      data: {
+        deliveryStatus: params.status,
+        ...(params.status === 'DELIVERED' && { deliveredAt: params.occurredAt || new Date() }),
+        ...(params.error && { deliveryError: params.error })
+      }
+    })
+  }
+
+  /**
+   * Text a member of staff who has turned SMS notifications on and saved a mobile number
+   * Staff texts aren't client communication, so they are not logged to Communication.
+   * @returns whether a text was sent
+   */
+  async sendUserSms(userId: string, body: string): Promise<boolean> {
+    if (!this.provider) return false
+
+    const settings = await db.userSettings.findUnique({
+      where: { userId },
+      select: { smsNotifications: true, smsPhoneNumber: true }
+    })
+    const toPhone = normalisePhoneNumber(settings?.smsPhoneNumber)
+    if (!settings?.smsNotifications || !toPhone) return false
+
+    const result = await this.provider.send({
+      channel: 'SMS',
+      to: toPhone,
+      body: body.slice(0, MAX_TEXT_MESSAGE_LENGTH)
+    })
+    if (!result.success) {
+      console.error(`❌ SMS notification to user ${userId} failed:`, result.error)
+    }
+    return result.success
+  }
+}
+
+/**
+ * A client's recent SMS and WhatsApp messages, newest first
+ */
+export async function getClientMessages(clientId: string, take = 20): Promise<ClientMessageSummary[]> {
+  const messages = await db.communication.findMany({
+    where: { clientId, type: { in: ['SMS', 'WHATSAPP'] } },
+    orderBy: { createdAt: 'desc' },
+    take,
+    include: {
+      sentBy: { select: { name: true } },
+      template: { select: { name: true } }
+    }
+  })
+
+  return messages.map(message => ({
+    id: message.id,
+    channel: message.type as MessagingChannel,
+    content: message.content,
+    toPhone: message.toPhone,
+    deliveryStatus: message.deliveryStatus as MessageDeliveryStatusValue | null,
+    deliveryError: message.deliveryError,
+    sentAt: message.sentAt?.toISOString() || null,
+    deliveredAt: message.deliveredAt?.toISOString() || null,
+    createdAt: message.createdAt.toISOString(),
+    sentByName: message.sentBy?.name || null,
+    templateName: message.template?.name || null
+  }))
+}
+
+/**
+ * Fill in a template's SMS text for a client
+ * @throws MessagingError when the template has no SMS text
+ */
+export async function renderClientTemplateText(templateId: string, clientId: string): Promise<string> {
+  const [template, client] = await Promise.all([
+    db.emailTemplate.findFirst({
+      where: { id: templateId, isActive: true },
+      select: { name: true, smsContent: true }
+    }),
+    db.client.findUnique({
+      where: { id: clientId },
+      include: { assignedUser: { select: { id: true, name: true, email: true } } }
+    })
+  ])
+
+  if (!template) {
+    throw new MessagingError('Template not found', 404)
+  }
+  if (!template.smsContent?.trim()) {
+    throw new MessagingError(`${template.name} has no SMS text`)
+  }
+  if (!client) {
+    throw new MessagingError('Client not found', 404)
+  }
+
+  return processEmailVariables(template.smsContent, {
+    client,
+    user: client.assignedUser,
+    system: { currentDate: new Date(), companyName: 'Numericalz' }
+  }).trim()
+}
+
+export const messagingService = new MessagingService(createMessagingProvider())
+
+export default messagingService
@@ -0,0 +1,112 @@
+/**
+ * Text Messaging Client-Safe Utilities
+ *
+ * SMS and WhatsApp sit alongside email as channels for client chasers and staff reminders.
+ * Messages to clients are logged to Communication with type SMS or WHATSAPP and only go to
+ * clients who have consented to that channel.
+ */
+
+export const MESSAGING_CHANNELS = ['SMS', 'WHATSAPP'] as const
+
+export type MessagingChannel = typeof MESSAGING_CHANNELS[number]
+
+export const MESSAGE_DELIVERY_STATUSES = ['QUEUED', 'SENT', 'DELIVERED', 'UNDELIVERED', 'FAILED'] as const
+
+export type MessageDeliveryStatusValue = typeof MESSAGE_DELIVERY_STATUSES[number]
+
+export const MESSAGING_CHANNEL_CONFIG: Record<MessagingChannel, { label: string; consentLabel: string }> = {
+  SMS: { label: 'SMS', consentLabel: 'Consents to SMS' },
+  WHATSAPP: { label: 'WhatsApp', consentLabel: 'Consents to WhatsApp' }
+}
+
+export const MESSAGE_DELIVERY_STATUS_CONFIG: Record<MessageDeliveryStatusValue, { label: string; color: string }> = {
+  QUEUED: { label: 'Queued', color: 'bg-gray-100 text-gray-800' },
+  SENT: { label: 'Sent', color: 'bg-blue-100 text-blue-800' },
+  DELIVERED: { label: 'Delivered', color: 'bg-green-100 text-green-800' },
+  UNDELIVERED: { label: 'Undelivered', color: 'bg-amber-100 text-amber-800' },
+  FAILED: { label: 'Failed', color: 'bg-red-100 text-red-800' }
+}
+
+// Statuses a provider won't move on from
+export const FINAL_DELIVERY_STATUSES: MessageDeliveryStatusValue[] = ['DELIVERED', 'UNDELIVERED', 'FAILED']
+
+// Plain GSM-7 messages fit 160 characters; longer ones are split into 153-character segments
+const SMS_SINGLE_SEGMENT_LENGTH = 160
+const SMS_MULTIPART_SEGMENT_LENGTH = 153
+// Characters outside GSM-7 (emoji, curly quotes) drop the limits to 70 and 67
+const UNICODE_SINGLE_SEGMENT_LENGTH = 70
+const UNICODE_MULTIPART_SEGMENT_LENGTH = 67
+
+// Longest text we'll send - chasers longer than this belong in an email
+export const MAX_TEXT_MESSAGE_LENGTH = 640
+
+const GSM_7_PATTERN = /^[A-Za-z0-9 \r\n@£$¥èéùìòÇØøÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ!"#¤%&'()*+,\-./:;<=>?¡ÄÖÑÜ§¿äöñüà^{}\\[~\]|€]*$/
+
+export interface ClientMessageSummary {
+  id: string
+  channel: MessagingChannel
+  content: string
+  toPhone: string | null
+  deliveryStatus: MessageDeliveryStatusValue | null
+  deliveryError: string | null
+  sentAt: string | null
+  deliveredAt: string | null
+  createdAt: string
+  sentByName: string | null
+  templateName: string | null
+}
+
+export function isMessagingChannel(value: unknown): value is MessagingChannel {
+  return typeof value === 'string' && (MESSAGING_CHANNELS as readonly string[]).includes(value)
+}
+
+/**
+ * Normalise a UK phone number to E.164 (+447700900123)
+ * Numbers already in international format are kept as they are.
+ * @returns null when the value can't be a phone number
+ */
+export function normalisePhoneNumber(phone: string | null | undefined): string | null {
+  if (!phone) return null
+
+  let digits = phone.replace(/[\s\-().]/g, '')
+  if (digits.startsWith('00')) {
+    digits = `+${digits.slice(2)}`
+  }
+
+  if (digits.startsWith('+')) {
+    // UK numbers are sometimes written +44 (0)7700...
+    const international = digits.replace(/^\+440/, '+44')
+    return /^\+[1-9]\d{7,14}$/.test(international) ? international : null
+  }
+
+  if (/^0\d{9,10}$/.test(digits)) {
+    return `+44${digits.slice(1)}`
+  }
+
+  return null
+}
+
+/**
+ * Whether a number is a UK mobile, the only kind that can receive an SMS
+ */
+export function isUkMobileNumber(phone: string | null | undefined): boolean {
+  const normalised = normalisePhoneNumber(phone)
+  return !!normalised && /^\+447\d{9}$/.test(normalised)
+}
+
+/**
+ * How many SMS segments a message will be billed as
+ */
+export function countSmsSegments(text: string): { characters: number; segments: number; unicode: boolean } {
+  const characters = Array.from(text).length
+  const unicode = !GSM_7_PATTERN.test(text)
+  const single = unicode ? UNICODE_SINGLE_SEGMENT_LENGTH : SMS_SINGLE_SEGMENT_LENGTH
+  const multipart = unicode ? UNICODE_MULTIPART_SEGMENT_LENGTH : SMS_MULTIPART_SEGMENT_LENGTH
+
+  if (characters === 0) return { characters, segments: 0, unicode }
+  return {
+    characters,
+    segments: characters <= single ? 1 : Math.ceil(characters / multipart),
+    unicode
+  }
+}
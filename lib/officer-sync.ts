@@ -0,0 +1,390 @@
+/**
+ * Officer & PSC Sync Server-Side Utilities
+ *
+ * Normalises the officers and PSC lists returned by Companies House into Officer, OfficerAppointment
+ * and PersonWithSignificantControl rows, and records an OfficerChange whenever a refresh reveals a new
+ * appointment, a resignation, a new PSC or a ceased PSC. The first sync of a client only imports the
+ * current position so existing directors are not reported as new.
+ */
+
+import { db } from '@/lib/db'
+import { createNotification } from '@/lib/in-app-notifications'
+import {
+  OfficerChangeTypeValue,
+  describeOfficerChange,
+  formatOfficerName,
+  getOfficerMatchKey,
+  getPersonNameKey,
+  getPscMatchKey
+} from '@/lib/officers'
+
+export type OfficerSyncSource = 'COMPANIES_HOUSE_REFRESH' | 'BULK_REFRESH' | 'CLIENT_CREATED' | 'BACKFILL'
+
+export interface DetectedOfficerChange {
+  changeType: OfficerChangeTypeValue
+  personName: string
+  officerRole: string | null
+  effectiveDate: Date | null
+}
+
+interface CompaniesHouseOfficerItem {
+  name?: string
+  officer_role?: string
+  appointed_on?: string
+  resigned_on?: string
+  address?: Record<string, unknown>
+  date_of_birth?: { month?: number; year?: number }
+  nationality?: string
+  occupation?: string
+  country_of_residence?: string
+  links?: { officer?: { appointments?: string } }
+}
+
+interface CompaniesHousePscItem {
+  name?: string
+  name_elements?: { title?: string; forename?: string; middle_name?: string; surname?: string }
+  kind?: string
+  natures_of_control?: string[]
+  notified_on?: string
+  ceased_on?: string
+  ceased?: boolean
+  address?: Record<string, unknown>
+  date_of_birth?: { month?: number; year?: number }
+  nationality?: string
+  country_of_residence?: string
+  links?: { self?: string }
+}
+
+const PERSON_TITLES = new Set(['mr', 'mrs', 'ms', 'miss', 'dr', 'sir', 'dame', 'lord', 'lady', 'prof'])
+
+/**
+ * Accepts the Companies House response object, its JSON string as stored on the client, or a bare items array
+ * @returns The items, or null when there is no usable data (nothing should be changed)
+ */
+function parseCompaniesHouseItems<T>(data: unknown): T[] | null {
+  let parsed = data
+  // Client creation has historically stored the already-serialised JSON string, so unwrap twice at most
+  for (let attempt = 0; attempt < 2 && typeof parsed === 'string'; attempt++) {
+    try {
+      parsed = JSON.parse(parsed)
+    } catch {
+      return null
+    }
+  }
+
+  if (Array.isArray(parsed)) {
+    return parsed as T[]
+  }
+  if (parsed && typeof parsed === 'object' && Array.isArray((parsed as { items?: unknown }).items)) {
+    return (parsed as { items: T[] }).items
+  }
+  return null
+}
+
+function parseDate(value?: string): Date | null {
+  if (!value) return null
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+function getOfficerNameKey(officer: CompaniesHouseOfficerItem): string {
+  const [surname, forenames] = (officer.name || '').split(',')
+  return `${getPersonNameKey(surname || '', forenames || '')}|${officer.date_of_birth?.year || ''}-${officer.date_of_birth?.month || ''}`
+}
+
+function getPscNameKey(psc: CompaniesHousePscItem): string {
+  let surname = psc.name_elements?.surname || ''
+  let forename = psc.name_elements?.forename || ''
+
+  if (!surname && psc.name) {
+    const words = psc.name.split(/\s+/).filter(word => !PERSON_TITLES.has(word.toLowerCase().replace('.', '')))
+    surname = words[words.length - 1] || ''
+    forename = words.length > 1 ? words[0] || '' : ''
+  }
+
+  return `${getPersonNameKey(surname, forename)}|${psc.date_of_birth?.year || ''}-${psc.date_of_birth?.month || ''}`
+}
+
+/**
+ * Collapse duplicate entries for the same person and role, preferring the current appointment over past ones
+ */
+function pickCurrentEntries<T>(items: T[], getKey: (item: T) => string, isEnded: (item: T) => boolean): T[] {
+  const byKey = new Map<string, T>()
+  for (const item of items) {
+    const key = getKey(item)
+    const existing = byKey.get(key)
+    if (!existing || (isEnded(existing) && !isEnded(item))) {
+      byKey.set(key, item)
+    }
+  }
+  return Array.from(byKey.values())
+}
+
+/**
+ * Sync a client's officers and PSCs from Companies House data and record what changed
+ * @param officersData - getCompanyOfficers response, or the JSON stored in Client.officers
+ * @param pscData - getCompanyPSC response, or the JSON stored in Client.personsWithSignificantControl
+ * @returns Changes detected since the previous sync (always empty on the first sync)
+ */
+export async function syncClientOfficers(
+  clientId: string,
+  officersData: unknown,
+  pscData: unknown,
+  source: OfficerSyncSource
+): Promise<DetectedOfficerChange[]> {
+  const officerItems = parseCompaniesHouseItems<CompaniesHouseOfficerItem>(officersData)
+  const pscItems = parseCompaniesHouseItems<CompaniesHousePscItem>(pscData)
+
+  if (officerItems === null && pscItems === null) {
+    return []
+  }
+
+  const [existingAppointments, existingPscs] = await Promise.all([
+    db.officerAppointment.findMany({ where: { clientId } }),
+    db.personWithSignificantControl.findMany({ where: { clientId } })
+  ])
+
+  const isFirstSync = existingAppointments.length === 0 && existingPscs.length === 0
+  const now = new Date()
+  const changes: (DetectedOfficerChange & { officerId?: string; pscId?: string })[] = []
+
+  // Officer name keys of this company, so PSCs who are also officers can be linked to them
+  const officerIdsByNameKey = new Map<string, string>()
+
+  if (officerItems !== null) {
+    const currentOfficers = pickCurrentEntries(
+      officerItems.filter(item => item.name),
+      item => `${getOfficerMatchKey({ ...item, name: item.name || '' })}|${item.officer_role || 'officer'}`,
+      item => !!item.resigned_on
+    )
+
+    for (const item of currentOfficers) {
+      const name = item.name || ''
+      const officerRole = item.officer_role || 'officer'
+      const matchKey = getOfficerMatchKey({ ...item, name })
+      const resignedOn = parseDate(item.resigned_on)
+      const isActive = !resignedOn
+
+      const officerDetails = {
+        name,
+        companiesHouseOfficerId: matchKey.startsWith('ch:') ? matchKey.slice(3) : null,
+        dateOfBirthMonth: item.date_of_birth?.month ?? null,
+        dateOfBirthYear: item.date_of_birth?.year ?? null,
+        nationality: item.nationality || null,
+        occupation: item.occupation || null,
+        countryOfResidence: item.country_of_residence || null
+      }
+
+      const officer = await db.officer.upsert({
+        where: { matchKey },
+        create: { matchKey, ...officerDetails },
+        update: officerDetails
+      })
+
+      officerIdsByNameKey.set(getOfficerNameKey(item), officer.id)
+
+      const appointmentData = {
+        appointedOn: parseDate(item.appointed_on),
+        resignedOn,
+        isActive,
+        address: item.address ? JSON.stringify(item.address) : null,
+        lastSyncedAt: now
+      }
+
+      const existing = existingAppointments.find(
+        appointment => appointment.officerId === officer.id && appointment.officerRole === officerRole
+      )
+
+      if (!existing) {
+        await db.officerAppointment.create({
+          data: { clientId, officerId: officer.id, officerRole, ...appointmentData }
+        })
+
+        // Resignations that happened before we first saw the officer are history, not news
+        if (!isFirstSync && isActive) {
+          changes.push({
+            changeType: 'OFFICER_APPOINTED',
+            personName: formatOfficerName(name),
+            officerRole,
+            effectiveDate: appointmentData.appointedOn,
+            officerId: officer.id
+          })
+        }
+        continue
+      }
+
+      await db.officerAppointment.update({
+        where: { id: existing.id },
+        data: appointmentData
+      })
+
+      if (existing.isActive && !isActive) {
+        changes.push({
+          changeType: 'OFFICER_RESIGNED',
+          personName: formatOfficerName(name),
+          officerRole,
+          effectiveDate: resignedOn,
+          officerId: officer.id
+        })
+      } else if (!existing.isActive && isActive) {
+        changes.push({
+          changeType: 'OFFICER_APPOINTED',
+          personName: formatOfficerName(name),
+          officerRole,
+          effectiveDate: appointmentData.appointedOn,
+          officerId: officer.id
+        })
+      }
+    }
+  }
+
+  if (pscItems !== null) {
+    const currentPscs = pickCurrentEntries(
+      pscItems.filter(item => item.name),
+      item => getPscMatchKey(item),
+      item => !!(item.ceased_on || item.ceased)
+    )
+
+    for (const item of currentPscs) {
+      const name = item.name || ''
+      const matchKey = getPscMatchKey(item)
+      const ceasedOn = parseDate(item.ceased_on)
+      const isActive = !ceasedOn && !item.ceased
+
+      const pscDetails = {
+        officerId: officerIdsByNameKey.get(getPscNameKey(item)) || null,
+        name,
+        kind: item.kind || 'individual-person-with-significant-control',
+        naturesOfControl: item.natures_of_control || [],
+        notifiedOn: parseDate(item.notified_on),
+        ceasedOn,
+        isActive,
+        dateOfBirthMonth: item.date_of_birth?.month ?? null,
+        dateOfBirthYear: item.date_of_birth?.year ?? null,
+        nationality: item.nationality || null,
+        countryOfResidence: item.country_of_residence || null,
+        address: item.address ? JSON.stringify(item.address) : null
+      }
+
+      const existing = existingPscs.find(psc => psc.matchKey === matchKey)
+
+      if (!existing) {
+        const created = await db.personWithSignificantControl.create({
+          data: { clientId, matchKey, ...pscDetails }
+        })
+
+        if (!isFirstSync && isActive) {
+          changes.push({
+            changeType: 'PSC_ADDED',
+            personName: name,
+            officerRole: null,
+            effectiveDate: pscDetails.notifiedOn,
+            pscId: created.id,
+            officerId: pscDetails.officerId || undefined
+          })
+        }
+        continue
+      }
+
+      await db.personWithSignificantControl.update({
+        where: { id: existing.id },
+        data: pscDetails
+      })
+
+      if (existing.isActive && !isActive) {
+        changes.push({
+          changeType: 'PSC_CEASED',
+          personName: name,
+          officerRole: null,
+          effectiveDate: ceasedOn,
+          pscId: existing.id,
+          officerId: pscDetails.officerId || undefined
+        })
+      } else if (!existing.isActive && isActive) {
+        changes.push({
+          changeType: 'PSC_ADDED',
+          personName: name,
+          officerRole: null,
+          effectiveDate: pscDetails.notifiedOn,
+          pscId: existing.id,
+          officerId: pscDetails.officerId || undefined
+        })
+      }
+    }
+  }
+
+  if (changes.length > 0) {
+    await db.officerChange.createMany({
+      data: changes.map(change => ({
+        clientId,
+        officerId: change.officerId || null,
+        pscId: change.pscId || null,
+        changeType: change.changeType,
+        personName: change.personName,
+        officerRole: change.officerRole,
+        effectiveDate: change.effectiveDate,
+        source,
+        detectedAt: now
+      }))
+    })
+  }
+
+  return changes.map(({ changeType, personName, officerRole, effectiveDate }) => ({
+    changeType,
+    personName,
+    officerRole,
+    effectiveDate
+  }))
+}
+
+/**
+ * Let the client's assigned users know that Companies House shows officer or PSC changes
+ * (these usually mean a confirmation statement or register update is needed)
+ */
+export async function notifyOfficerChanges(clientId: string, changes: DetectedOfficerChange[]): Promise<void> {
+  if (changes.length === 0) {
+    return
+  }
+
+  const client = await db.client.findUnique({
+    where: { id: clientId },
+    select: {
+      companyName: true,
+      clientCode: true,
+      assignedUserId: true,
+      ltdCompanyAssignedUserId: true,
+      nonLtdCompanyAssignedUserId: true
+    }
+  })
+
+  if (!client) {
+    return
+  }
+
+  const userIds = new Set(
+    [client.ltdCompanyAssignedUserId, client.nonLtdCompanyAssignedUserId, client.assignedUserId]
+      .filter((userId): userId is string => !!userId)
+  )
+
+  const summary = changes.map(change => describeOfficerChange(change)).join('; ')
+
+  for (const userId of Array.from(userIds)) {
+    await createNotification({
+      userId,
+      category: 'ACCOUNTS',
+      type: 'OFFICER_CHANGES_DETECTED',
+      title: 'Officer Changes Detected',
+      message: `Companies House shows changes for ${client.companyName}: ${summary}`,
+      clientId,
+      metadata: JSON.stringify({
+        clientCode: client.clientCode,
+        changes: changes.map(change => ({
+          changeType: change.changeType,
+          personName: change.personName,
+          officerRole: change.officerRole,
+          effectiveDate: change.effectiveDate
+        }))
+      })
+    }).catch(error => console.error('Failed to send officer change notification:', error))
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Officer & PSC Utilities
+ *
+ * Client-safe helpers for the directors module: identity keys used to match the same person
+ * across client companies, and display labels for roles, natures of control and detected changes.
+ */
+
+export const OFFICER_CHANGE_TYPES = [
+  'OFFICER_APPOINTED',
+  'OFFICER_RESIGNED',
+  'PSC_ADDED',
+  'PSC_CEASED'
+] as const
+
+export type OfficerChangeTypeValue = typeof OFFICER_CHANGE_TYPES[number]
+
+export const OFFICER_CHANGE_LABELS: Record<OfficerChangeTypeValue, { label: string; color: string }> = {
+  OFFICER_APPOINTED: { label: 'Appointed', color: 'bg-green-100 text-green-800' },
+  OFFICER_RESIGNED: { label: 'Resigned', color: 'bg-red-100 text-red-800' },
+  PSC_ADDED: { label: 'PSC Notified', color: 'bg-blue-100 text-blue-800' },
+  PSC_CEASED: { label: 'PSC Ceased', color: 'bg-orange-100 text-orange-800' }
+}
+
+export function isOfficerChangeType(value: string): value is OfficerChangeTypeValue {
+  return (OFFICER_CHANGE_TYPES as readonly string[]).includes(value)
+}
+
+/**
+ * Companies House role slug to a display label e.g. llp-designated-member → LLP Designated Member
+ */
+export function formatOfficerRole(officerRole: string): string {
+  return officerRole
+    .split('-')
+    .filter(Boolean)
+    .map(word => word === 'llp' ? 'LLP' : word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ')
+}
+
+/**
+ * Companies House officer names are "SURNAME, Forenames" - show them as "Forenames Surname"
+ */
+export function formatOfficerName(name: string): string {
+  const [surname, forenames] = name.split(',').map(part => part.trim())
+  if (!surname || !forenames) {
+    return name
+  }
+
+  const titleCaseSurname = surname
+    .toLowerCase()
+    .replace(/(^|[\s'-])([a-z])/g, (_match, separator: string, letter: string) => separator + letter.toUpperCase())
+
+  return `${forenames} ${titleCaseSurname}`
+}
+
+/**
+ * Natures of control slug to a readable label e.g. ownership-of-shares-75-to-100-percent → Ownership of shares 75-100%
+ */
+export function formatNatureOfControl(nature: string): string {
+  const label = nature
+    .replace(/-(\d+)-to-(\d+)-percent/, ' $1-$2%')
+    .replace(/-as-(trust|firm)$/, ' (as $1)')
+    .replace(/-/g, ' ')
+
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
+/**
+ * Lowercased surname and first forename, used to recognise the same person in officer and PSC lists
+ */
+export function getPersonNameKey(surname: string, forenames: string): string {
+  const firstForename = forenames.trim().split(/\s+/)[0] || ''
+  return `${surname.trim().toLowerCase()}|${firstForename.toLowerCase()}`
+}
+
+/**
+ * Officer identity key: the Companies House officer ID when the appointments link is present,
+ * otherwise the normalised name plus month and year of birth
+ */
+export function getOfficerMatchKey(officer: {
+  name: string
+  links?: { officer?: { appointments?: string } }
+  date_of_birth?: { month?: number; year?: number }
+}): string {
+  const appointmentsLink = officer.links?.officer?.appointments
+  const officerIdMatch = appointmentsLink?.match(/\/officers\/([^/]+)\/appointments/)
+  if (officerIdMatch) {
+    return `ch:${officerIdMatch[1]}`
+  }
+
+  const normalisedName = officer.name.toLowerCase().replace(/[^a-z]/g, '')
+  const dateOfBirth = officer.date_of_birth
+    ? `${officer.date_of_birth.year || ''}-${officer.date_of_birth.month || ''}`
+    : ''
+  return `name:${normalisedName}|${dateOfBirth}`
+}
+
+/**
+ * PSC identity key within a company: the Companies House self link, otherwise name plus notified date
+ */
+export function getPscMatchKey(psc: {
+  name?: string
+  notified_on?: string
+  links?: { self?: string }
+}): string {
+  if (psc.links?.self) {
+    return psc.links.self
+  }
+  return `${(psc.name || '').toLowerCase()}|${psc.notified_on || ''}`
+}
+
+/**
+ * Short sentence for a detected change, used in notifications and the activity log
+ */
+export function describeOfficerChange(change: {
+  changeType: OfficerChangeTypeValue
+  personName: string
+  officerRole?: string | null
+}): string {
+  const role = change.officerRole ? formatOfficerRole(change.officerRole).toLowerCase() : 'officer'
+
+  switch (change.changeType) {
+    case 'OFFICER_APPOINTED':
+      return `${change.personName} appointed as ${role}`
+    case 'OFFICER_RESIGNED':
+      return `${change.personName} resigned as ${role}`
+    case 'PSC_ADDED':
+      return `${change.personName} notified as a person with significant control`
+    case 'PSC_CEASED':
+      return `${change.personName} ceased to be a person with significant control`
+  }
+}
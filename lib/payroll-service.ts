@@ -0,0 +1,107 @@
+/**
+ * Payroll (RTI) Workflow Server-Side Utilities
+ *
+ * Runs are generated from each active schedule within a rolling window, so they appear on the
+ * payroll page and deadlines calendar without anyone creating them by hand.
+ */
+
+import { db } from '@/lib/db'
+import {
+  getPayrollGenerationWindow,
+  getPayrollRunDates,
+  getScheduledPayDates,
+  isPayFrequency
+} from '@/lib/payroll-workflow'
+
+interface SchedulableClient {
+  assignedUserId: string | null
+  nonLtdCompanyAssignedUserId: string | null
+  ltdCompanyAssignedUserId: string | null
+}
+
+/**
+ * Default assignee for new runs: the schedule's assignee, then the client's workflow assignees
+ */
+function getDefaultRunAssignee(scheduleAssignedUserId: string | null, client: SchedulableClient): string | null {
+  return scheduleAssignedUserId
+    || client.ltdCompanyAssignedUserId
+    || client.nonLtdCompanyAssignedUserId
+    || client.assignedUserId
+}
+
+/**
+ * Create any missing runs for a schedule within the generation window
+ * Existing runs are left untouched so their progress is never reset
+ * @returns Number of runs created
+ */
+export async function generatePayrollRuns(scheduleId: string, today: Date = new Date()): Promise<number> {
+  const schedule = await db.payrollSchedule.findUnique({
+    where: { id: scheduleId },
+    include: {
+      client: {
+        select: {
+          isActive: true,
+          requiresPayroll: true,
+          assignedUserId: true,
+          ltdCompanyAssignedUserId: true,
+          nonLtdCompanyAssignedUserId: true
+        }
+      }
+    }
+  })
+
+  if (!schedule || !schedule.isActive || !schedule.client.isActive || !schedule.client.requiresPayroll) {
+    return 0
+  }
+
+  if (!isPayFrequency(schedule.payFrequency)) {
+    return 0
+  }
+
+  const { from, to } = getPayrollGenerationWindow(today)
+  const payDates = getScheduledPayDates(schedule.payFrequency, schedule.firstPayDate, from, to)
+
+  if (payDates.length === 0) {
+    return 0
+  }
+
+  const assignedUserId = getDefaultRunAssignee(schedule.assignedUserId, schedule.client)
+
+  const result = await db.payrollRun.createMany({
+    data: payDates.map(payDate => ({
+      scheduleId: schedule.id,
+      clientId: schedule.clientId,
+      payFrequency: schedule.payFrequency,
+      ...getPayrollRunDates(schedule.payFrequency, payDate),
+      epsRequired: schedule.epsRequired,
+      assignedUserId,
+      isCompleted: false
+    })),
+    skipDuplicates: true
+  })
+
+  return result.count
+}
+
+/**
+ * Generate runs for every active schedule of an active payroll client
+ */
+export async function generateAllPayrollRuns(today: Date = new Date()): Promise<number> {
+  const schedules = await db.payrollSchedule.findMany({
+    where: {
+      isActive: true,
+      client: {
+        isActive: true,
+        requiresPayroll: true
+      }
+    },
+    select: { id: true }
+  })
+
+  let created = 0
+  for (const schedule of schedules) {
+    created += await generatePayrollRuns(schedule.id, today)
+  }
+
+  return created
+}
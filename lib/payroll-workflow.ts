@@ -0,0 +1,286 @@
+/**
+ * Payroll (RTI) Workflow Client-Safe Utilities
+ *
+ * Each client with payroll has one schedule; runs are generated from its pay frequency:
+ * - FPS due on or before the pay date
+ * - EPS due by the 19th after the tax month ends
+ * - PAYE/NIC payment due by the 22nd after the tax month ends (electronic payment)
+ * Tax months run from the 6th of one month to the 5th of the next, tax month 1 starting 6th April.
+ */
+
+import { addDays, addMonths, addWeeks, endOfMonth, isValid, startOfDay, startOfMonth, subDays } from 'date-fns'
+import { formatSelfAssessmentTaxYear } from '@/lib/self-assessment-workflow'
+
+export const PAY_FREQUENCIES = ['WEEKLY', 'FOUR_WEEKLY', 'MONTHLY'] as const
+
+export type PayFrequency = typeof PAY_FREQUENCIES[number]
+
+export const PAY_FREQUENCY_LABELS: Record<PayFrequency, string> = {
+  WEEKLY: 'Weekly',
+  FOUR_WEEKLY: '4-weekly',
+  MONTHLY: 'Monthly'
+}
+
+// How far ahead runs are generated from a schedule
+export const PAYROLL_RUN_HORIZON_DAYS = 35
+
+// How far back runs are generated when a schedule is first set up
+export const PAYROLL_RUN_BACKFILL_DAYS = 31
+
+// Payroll Run Stage Order (sequential progression)
+export const PAYROLL_RUN_STAGE_ORDER = [
+  'WAITING_FOR_DATA',
+  'DATA_RECEIVED',
+  'PROCESSING',
+  'REVIEW_BY_MANAGER',
+  'SENT_TO_CLIENT',
+  'APPROVED_BY_CLIENT',
+  'FPS_SUBMITTED',
+  'EPS_SUBMITTED'
+] as const
+
+export type PayrollRunStage = typeof PAYROLL_RUN_STAGE_ORDER[number]
+
+export const PAYROLL_RUN_STAGES: Record<PayrollRunStage, { label: string; shortLabel: string; color: string }> = {
+  WAITING_FOR_DATA: {
+    label: 'Waiting for payroll data',
+    shortLabel: 'Waiting',
+    color: 'bg-gray-100 text-gray-800'
+  },
+  DATA_RECEIVED: {
+    label: 'Payroll data received',
+    shortLabel: 'Data received',
+    color: 'bg-yellow-100 text-yellow-800'
+  },
+  PROCESSING: {
+    label: 'Processing payroll',
+    shortLabel: 'Processing',
+    color: 'bg-blue-100 text-blue-800'
+  },
+  REVIEW_BY_MANAGER: {
+    label: 'Review by manager',
+    shortLabel: 'Review',
+    color: 'bg-indigo-100 text-indigo-800'
+  },
+  SENT_TO_CLIENT: {
+    label: 'Payslips sent to client',
+    shortLabel: 'With client',
+    color: 'bg-cyan-100 text-cyan-800'
+  },
+  APPROVED_BY_CLIENT: {
+    label: 'Approved by client',
+    shortLabel: 'Approved',
+    color: 'bg-teal-100 text-teal-800'
+  },
+  FPS_SUBMITTED: {
+    label: 'FPS submitted to HMRC',
+    shortLabel: 'FPS filed',
+    color: 'bg-green-100 text-green-800'
+  },
+  EPS_SUBMITTED: {
+    label: 'EPS submitted to HMRC',
+    shortLabel: 'EPS filed',
+    color: 'bg-emerald-100 text-emerald-800'
+  }
+}
+
+/**
+ * Milestone field mapping for each stage (date, user id and user name fields)
+ */
+export const PAYROLL_MILESTONE_FIELDS: Partial<Record<PayrollRunStage, { dateField: string; userField: string; nameField: string }>> = {
+  DATA_RECEIVED: {
+    dateField: 'dataReceivedDate',
+    userField: 'dataReceivedByUserId',
+    nameField: 'dataReceivedByUserName'
+  },
+  PROCESSING: {
+    dateField: 'processingStartedDate',
+    userField: 'processingStartedByUserId',
+    nameField: 'processingStartedByUserName'
+  },
+  REVIEW_BY_MANAGER: {
+    dateField: 'managerReviewDate',
+    userField: 'managerReviewByUserId',
+    nameField: 'managerReviewByUserName'
+  },
+  SENT_TO_CLIENT: {
+    dateField: 'sentToClientDate',
+    userField: 'sentToClientByUserId',
+    nameField: 'sentToClientByUserName'
+  },
+  APPROVED_BY_CLIENT: {
+    dateField: 'clientApprovedDate',
+    userField: 'clientApprovedByUserId',
+    nameField: 'clientApprovedByUserName'
+  },
+  FPS_SUBMITTED: {
+    dateField: 'fpsSubmittedDate',
+    userField: 'fpsSubmittedByUserId',
+    nameField: 'fpsSubmittedByUserName'
+  },
+  EPS_SUBMITTED: {
+    dateField: 'epsSubmittedDate',
+    userField: 'epsSubmittedByUserId',
+    nameField: 'epsSubmittedByUserName'
+  }
+}
+
+export interface PayrollRunDates {
+  payDate: Date
+  periodStart: Date
+  periodEnd: Date
+  taxYear: string
+  taxMonth: number
+  fpsDueDate: Date
+  epsDueDate: Date
+  payeDueDate: Date
+}
+
+export function isPayFrequency(value: string): value is PayFrequency {
+  return (PAY_FREQUENCIES as readonly string[]).includes(value)
+}
+
+export function isPayrollRunStage(stage: string): stage is PayrollRunStage {
+  return (PAYROLL_RUN_STAGE_ORDER as readonly string[]).includes(stage)
+}
+
+export function getPayrollRunStageLabel(stage: string): string {
+  return isPayrollRunStage(stage) ? PAYROLL_RUN_STAGES[stage].label : stage
+}
+
+/**
+ * A run is complete once the FPS is in, or the EPS as well when the client needs one
+ */
+export function isPayrollRunComplete(stage: string, epsRequired: boolean): boolean {
+  if (stage === 'EPS_SUBMITTED') {
+    return true
+  }
+  return stage === 'FPS_SUBMITTED' && !epsRequired
+}
+
+/**
+ * Tax year and tax month a pay date falls in
+ * Tax month 1 runs 6th April to 5th May, tax month 12 runs 6th March to 5th April
+ */
+export function getPayrollTaxPeriod(payDate: Date): { taxYear: string; taxMonth: number; taxMonthEnd: Date } {
+  const year = payDate.getFullYear()
+  const taxYearStartYear = payDate >= new Date(year, 3, 6) ? year : year - 1
+  const monthsSinceApril = (payDate.getMonth() - 3 + 12) % 12
+  const taxMonth = payDate.getDate() >= 6 ? monthsSinceApril + 1 : ((monthsSinceApril + 11) % 12) + 1
+
+  return {
+    taxYear: formatSelfAssessmentTaxYear(taxYearStartYear),
+    taxMonth,
+    taxMonthEnd: new Date(taxYearStartYear, 3 + taxMonth, 5)
+  }
+}
+
+/**
+ * Pay period covered by a pay date: the week/four weeks ending on it, or its calendar month
+ */
+export function getPayPeriod(payFrequency: PayFrequency, payDate: Date): { periodStart: Date; periodEnd: Date } {
+  if (payFrequency === 'MONTHLY') {
+    return { periodStart: startOfMonth(payDate), periodEnd: startOfDay(endOfMonth(payDate)) }
+  }
+
+  const days = payFrequency === 'WEEKLY' ? 7 : 28
+  return { periodStart: subDays(payDate, days - 1), periodEnd: payDate }
+}
+
+/**
+ * Build a run's pay period and RTI deadlines from its pay date
+ */
+export function getPayrollRunDates(payFrequency: PayFrequency, payDate: Date): PayrollRunDates {
+  if (!isValid(payDate)) {
+    throw new Error('Invalid pay date')
+  }
+
+  const { taxYear, taxMonth, taxMonthEnd } = getPayrollTaxPeriod(payDate)
+
+  return {
+    payDate,
+    ...getPayPeriod(payFrequency, payDate),
+    taxYear,
+    taxMonth,
+    fpsDueDate: payDate,
+    epsDueDate: new Date(taxMonthEnd.getFullYear(), taxMonthEnd.getMonth(), 19),
+    payeDueDate: new Date(taxMonthEnd.getFullYear(), taxMonthEnd.getMonth(), 22)
+  }
+}
+
+/**
+ * Pay dates of a schedule falling between two dates (inclusive)
+ * Monthly dates keep the anchor's day of month, falling back to the month end in shorter months
+ */
+export function getScheduledPayDates(
+  payFrequency: PayFrequency,
+  firstPayDate: Date,
+  from: Date,
+  to: Date
+): Date[] {
+  const anchor = startOfDay(firstPayDate)
+  const payDates: Date[] = []
+
+  for (let i = 0; ; i++) {
+    const payDate = payFrequency === 'MONTHLY'
+      ? addMonths(anchor, i)
+      : addWeeks(anchor, payFrequency === 'WEEKLY' ? i : i * 4)
+
+    if (payDate > to) {
+      break
+    }
+    if (payDate >= startOfDay(from)) {
+      payDates.push(payDate)
+    }
+  }
+
+  return payDates
+}
+
+/**
+ * Window runs are generated for: a month back (for new schedules) to a few weeks ahead
+ */
+export function getPayrollGenerationWindow(today: Date = new Date()): { from: Date; to: Date } {
+  return {
+    from: subDays(startOfDay(today), PAYROLL_RUN_BACKFILL_DAYS),
+    to: addDays(startOfDay(today), PAYROLL_RUN_HORIZON_DAYS)
+  }
+}
+
+/**
+ * Build the milestone update for a stage change
+ * Moving backwards clears the milestones of the stages being undone
+ */
+export function getPayrollRunMilestoneUpdate(
+  newStage: PayrollRunStage,
+  userId: string | null,
+  userName: string,
+  currentStage?: string
+): Record<string, Date | string | null> {
+  const updateData: Record<string, Date | string | null> = {}
+  const milestone = PAYROLL_MILESTONE_FIELDS[newStage]
+
+  if (milestone) {
+    updateData[milestone.dateField] = new Date()
+    updateData[milestone.userField] = userId
+    updateData[milestone.nameField] = userName
+  }
+
+  if (currentStage) {
+    const currentIndex = PAYROLL_RUN_STAGE_ORDER.indexOf(currentStage as PayrollRunStage)
+    const newIndex = PAYROLL_RUN_STAGE_ORDER.indexOf(newStage)
+
+    if (currentIndex > newIndex) {
+      PAYROLL_RUN_STAGE_ORDER.slice(newIndex + 1, currentIndex + 1).forEach(futureStage => {
+        const futureMilestone = PAYROLL_MILESTONE_FIELDS[futureStage]
+        if (futureMilestone) {
+          updateData[futureMilestone.dateField] = null
+          updateData[futureMilestone.userField] = null
+          updateData[futureMilestone.nameField] = null
+        }
+      })
+    }
+  }
+
+  return updateData
+}
@@ -0,0 +1,195 @@
+/**
+ * PDF Document
+ *
+ * A thin layer over pdf-lib for laying out branded letters and summaries on the server: text in
+ * the standard Helvetica fonts, filled rectangles, lines and JPEG/PNG images. Coordinates are in
+ * points from the top-left corner of the page (pdf-lib works from the bottom-left).
+ *
+ * The standard fonts are WinAnsi encoded, so £, € and curly quotes print; anything the font can't
+ * encode is replaced with "?" rather than failing the whole document.
+ */
+
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFImage, type PDFPage } from 'pdf-lib'
+
+export type PdfFont = 'regular' | 'bold'
+
+export interface PdfTextOptions {
+  font?: PdfFont
+  size?: number
+  color?: string
+  align?: 'left' | 'right' | 'center'
+}
+
+export type PdfImage = PDFImage
+
+// A4 in points
+export const A4_WIDTH = 595.28
+export const A4_HEIGHT = 841.89
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47]
+const JPEG_SIGNATURE = [0xff, 0xd8]
+
+/**
+ * Parse a #rrggbb (or #rgb) colour into PDF 0-1 components, falling back to black
+ */
+export function parseHexColor(hex: string | null | undefined): [number, number, number] {
+  const value = (hex || '').trim().replace(/^#/, '')
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value
+  if (!/^[0-9a-f]{6}$/i.test(full)) return [0, 0, 0]
+  return [0, 2, 4].map(offset => parseInt(full.slice(offset, offset + 2), 16) / 255) as [number, number, number]
+}
+
+function toColor(hex: string | undefined) {
+  return rgb(...parseHexColor(hex))
+}
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, index) => bytes[index] === byte)
+}
+
+export class PdfDocument {
+  private pageIndex = 0
+  private readonly encodable = new Map<PDFFont, Set<number>>()
+
+  private constructor(
+    private readonly document: PDFDocument,
+    private readonly fonts: Record<PdfFont, PDFFont>,
+    readonly pageWidth: number,
+    readonly pageHeight: number
+  ) {}
+
+  static async create(pageWidth = A4_WIDTH, pageHeight = A4_HEIGHT): Promise<PdfDocument> {
+    const document = await PDFDocument.create()
+    const fonts = {
+      regular: await document.embedFont(StandardFonts.Helvetica),
+      bold: await document.embedFont(StandardFonts.HelveticaBold)
+    }
+    const pdf = new PdfDocument(document, fonts, pageWidth, pageHeight)
+    pdf.addPage()
+    return pdf
+  }
+
+  get pageCount() {
+    return this.document.getPageCount()
+  }
+
+  addPage() {
+    this.document.addPage([this.pageWidth, this.pageHeight])
+    this.pageIndex = this.document.getPageCount() - 1
+  }
+
+  /**
+   * Switch drawing to an existing page (1-based), e.g. to add footers once the page count is known
+   */
+  setPage(page: number) {
+    if (page < 1 || page > this.pageCount) {
+      throw new Error(`Page ${page} does not exist`)
+    }
+    this.pageIndex = page - 1
+  }
+
+  private get page(): PDFPage {
+    return this.document.getPage(this.pageIndex)
+  }
+
+  private flipY(y: number) {
+    return this.pageHeight - y
+  }
+
+  // Swap tabs for spaces and anything the font can't encode for "?"
+  private sanitize(text: string, font: PDFFont): string {
+    let characters = this.encodable.get(font)
+    if (!characters) {
+      characters = new Set(font.getCharacterSet())
+      this.encodable.set(font, characters)
+    }
+
+    let sanitized = ''
+    for (const character of text.replace(/\t/g, ' ').replace(/[\r\n]/g, '')) {
+      sanitized += characters.has(character.codePointAt(0)!) ? character : '?'
+    }
+    return sanitized
+  }
+
+  /**
+   * Width of a string in points
+   */
+  measureText(text: string, size: number, font: PdfFont = 'regular'): number {
+    const pdfFont = this.fonts[font]
+    return pdfFont.widthOfTextAtSize(this.sanitize(text, pdfFont), size)
+  }
+
+  /**
+   * Break text into lines no wider than maxWidth; explicit line breaks are kept
+   */
+  wrapText(text: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string[] {
+    const lines: string[] = []
+
+    for (const paragraph of text.split(/\r?\n/)) {
+      let line = ''
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word
+        if (line && this.measureText(candidate, size, font) > maxWidth) {
+          lines.push(line)
+          line = word
+        } else {
+          line = candidate
+        }
+      }
+      lines.push(line)
+    }
+
+    return lines
+  }
+
+  /**
+   * Draw a single line of text with its baseline at y
+   */
+  text(text: string, x: number, y: number, options: PdfTextOptions = {}) {
+    const size = options.size ?? 10
+    const font = this.fonts[options.font ?? 'regular']
+    const value = this.sanitize(text, font)
+    const width = font.widthOfTextAtSize(value, size)
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x
+
+    this.page.drawText(value, { x: left, y: this.flipY(y), size, font, color: toColor(options.color) })
+  }
+
+  rect(x: number, y: number, width: number, height: number, color: string) {
+    this.page.drawRectangle({ x, y: this.flipY(y + height), width, height, color: toColor(color) })
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: string, lineWidth = 0.5) {
+    this.page.drawLine({
+      start: { x: x1, y: this.flipY(y1) },
+      end: { x: x2, y: this.flipY(y2) },
+      thickness: lineWidth,
+      color: toColor(color)
+    })
+  }
+
+  /**
+   * Embed a JPEG or PNG so it can be drawn with image()
+   * @returns null when the bytes aren't an image pdf-lib can read
+   */
+  async embedImage(bytes: Uint8Array): Promise<PdfImage | null> {
+    try {
+      if (startsWith(bytes, PNG_SIGNATURE)) return await this.document.embedPng(bytes)
+      if (startsWith(bytes, JPEG_SIGNATURE)) return await this.document.embedJpg(bytes)
+    } catch (error) {
+      console.warn('⚠️ Could not read image for PDF:', error)
+    }
+    return null
+  }
+
+  /**
+   * Draw an embedded image with its top-left corner at (x, y)
+   */
+  image(image: PdfImage, x: number, y: number, width: number, height: number) {
+    this.page.drawImage(image, { x, y: this.flipY(y + height), width, height })
+  }
+
+  async toBuffer(): Promise<Buffer> {
+    return Buffer.from(await this.document.save())
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Permission Server-Side Utilities
+ *
+ * authorize is the one check every API route makes: it loads the session and the user's effective
+ * permissions, and hands back a ready-made 401/403 response when the user isn't allowed. Permissions
+ * are read from the database on each call, so role and override changes apply straight away.
+ */
+
+import { NextResponse } from 'next/server'
+import { getServerSession, type Session } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { db } from '@/lib/db'
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  PERMISSION_CONFIG,
+  PERMISSIONS,
+  USER_ROLE_VALUES,
+  isLockedPermission,
+  resolvePermissions,
+  type Permission,
+  type UserRoleValue
+} from '@/lib/permissions'
+
+export class PermissionError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'PermissionError'
+  }
+}
+
+export type AuthorizeResult =
+  | {
+      authorized: true
+      session: Session
+      permissions: Permission[]
+      can: (permission: Permission) => boolean
+    }
+  | { authorized: false; response: NextResponse }
+
+/**
+ * A user's effective permissions - none when the user doesn't exist or is deactivated
+ */
+export async function getUserPermissions(userId: string): Promise<Permission[]> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: {
+      role: true,
+      isActive: true,
+      permissionOverrides: { select: { permission: true, granted: true } }
+    }
+  })
+  if (!user || !user.isActive) return []
+
+  const roleGrants = await db.rolePermission.findMany({
+    where: { role: user.role },
+    select: { permission: true, granted: true }
+  })
+
+  return resolvePermissions(user.role, roleGrants, user.permissionOverrides)
+}
+
+export async function hasPermission(userId: string, permission: Permission): Promise<boolean> {
+  return (await getUserPermissions(userId)).includes(permission)
+}
+
+/**
+ * Ids of the active users who hold a permission, e.g. to offer only eligible people in a picker
+ */
+export async function getUserIdsWithPermission(permission: Permission): Promise<string[]> {
+  const [users, roleGrants] = await Promise.all([
+    db.user.findMany({
+      where: { isActive: true },
+      select: {
+        id: true,
+        role: true,
+        permissionOverrides: { select: { permission: true, granted: true } }
+      }
+    }),
+    db.rolePermission.findMany({ select: { role: true, permission: true, granted: true } })
+  ])
+
+  return users
+    .filter(user => resolvePermissions(
+      user.role,
+      roleGrants.filter(grant => grant.role === user.role),
+      user.permissionOverrides
+    ).includes(permission))
+    .map(user => user.id)
+}
+
+export function permissionDeniedResponse(permission: Permission) {
+  return NextResponse.json(
+    { success: false, error: `Insufficient permissions. ${PERMISSION_CONFIG[permission].label} is not enabled for your account.` },
+    { status: 403 }
+  )
+}
+
+/**
+ * Check the signed-in user may make this request
+ * @param permission - Required permission(s), all of which the user needs; omit to only require a session
+ * @example
+ * const auth = await authorize('clients.export')
+ * if (!auth.authorized) return auth.response
+ * const { session } = auth
+ */
+export async function authorize(permission?: Permission | Permission[]): Promise<AuthorizeResult> {
+  const session = await getServerSession(authOptions)
+  if (!session?.user?.id) {
+    return {
+      authorized: false,
+      response: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 })
+    }
+  }
+
+  const permissions = await getUserPermissions(session.user.id)
+  const required = permission ? (Array.isArray(permission) ? permission : [permission]) : []
+  const missing = required.find(needed => !permissions.includes(needed))
+  if (missing) {
+    return { authorized: false, response: permissionDeniedResponse(missing) }
+  }
+
+  return {
+    authorized: true,
+    session,
+    permissions,
+    can: (needed: Permission) => permissions.includes(needed)
+  }
+}
+
+export interface RolePermissionSummary {
+  role: UserRoleValue
+  permissions: Permission[]
+  // Permissions whose grant differs from the default for the role
+  customised: Permission[]
+}
+
+export async function getRolePermissionMatrix(): Promise<RolePermissionSummary[]> {
+  const grants = await db.rolePermission.findMany({ select: { role: true, permission: true, granted: true } })
+
+  return USER_ROLE_VALUES.map(role => {
+    const roleGrants = grants.filter(grant => grant.role === role)
+    return {
+      role,
+      permissions: resolvePermissions(role, roleGrants),
+      customised: PERMISSIONS.filter(permission => roleGrants.some(grant => grant.permission === permission))
+    }
+  })
+}
+
+/**
+ * Replace a role's permission set
+ * Only grants that differ from the default are stored, so later changes to the defaults still
+ * reach roles a partner hasn't customised.
+ */
+export async function setRolePermissions(role: UserRoleValue, permissions: Permission[], updatedById: string) {
+  const defaults = new Set<Permission>(DEFAULT_ROLE_PERMISSIONS[role])
+  const wanted = new Set(permissions)
+
+  const locked = PERMISSIONS.find(permission => !wanted.has(permission) && isLockedPermission(role, permission))
+  if (locked) {
+    throw new PermissionError(`${PERMISSION_CONFIG[locked].label} can't be removed from the ${role.toLowerCase()} role`)
+  }
+
+  const changes = PERMISSIONS.filter(permission => wanted.has(permission) !== defaults.has(permission))
+
+  await db.$transaction([
+    db.rolePermission.deleteMany({ where: { role } }),
+    db.rolePermission.createMany({
+      data: changes.map(permission => ({ role, permission, granted: wanted.has(permission), updatedById }))
+    })
+  ])
+
+  return (await getRolePermissionMatrix()).find(summary => summary.role === role)!
+}
+
+export interface UserPermissionDetails {
+  userId: string
+  name: string
+  role: string
+  rolePermissions: Permission[]
+  permissions: Permission[]
+  overrides: Array<{ permission: Permission; granted: boolean; reason: string | null }>
+}
+
+export async function getUserPermissionDetails(userId: string): Promise<UserPermissionDetails> {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      name: true,
+      role: true,
+      permissionOverrides: { select: { permission: true, granted: true, reason: true } }
+    }
+  })
+  if (!user) {
+    throw new PermissionError('User not found', 404)
+  }
+
+  const roleGrants = await db.rolePermission.findMany({
+    where: { role: user.role },
+    select: { permission: true, granted: true }
+  })
+  const overrides = user.permissionOverrides.filter(
+    (override): override is typeof override & { permission: Permission } =>
+      (PERMISSIONS as readonly string[]).includes(override.permission)
+  )
+
+  return {
+    userId: user.id,
+    name: user.name,
+    role: user.role,
+    rolePermissions: resolvePermissions(user.role, roleGrants),
+    permissions: resolvePermissions(user.role, roleGrants, overrides),
+    overrides
+  }
+}
+
+/**
+ * Replace a user's overrides
+ * @param overrides - Permissions to grant (true) or withhold (false); anything left out follows the role
+ */
+export async function setUserPermissionOverrides(
+  userId: string,
+  overrides: Array<{ permission: Permission; granted: boolean; reason?: string | null }>,
+  updatedById: string
+): Promise<UserPermissionDetails> {
+  const user = await db.user.findUnique({ where: { id: userId }, select: { role: true } })
+  if (!user) {
+    throw new PermissionError('User not found', 404)
+  }
+
+  const lockedDenial = overrides.find(override => !override.granted && isLockedPermission(user.role, override.permission))
+  if (lockedDenial) {
+    throw new PermissionError(`${PERMISSION_CONFIG[lockedDenial.permission].label} can't be withheld from a ${user.role.toLowerCase()}`)
+  }
+
+  await db.$transaction([
+    db.userPermissionOverride.deleteMany({ where: { userId } }),
+    db.userPermissionOverride.createMany({
+      data: overrides.map(override => ({
+        userId,
+        permission: override.permission,
+        granted: override.granted,
+        reason: override.reason || null,
+        updatedById
+      }))
+    })
+  ])
+
+  return getUserPermissionDetails(userId)
+}
@@ -0,0 +1,217 @@
+/**
+ * Permission Client-Safe Utilities
+ *
+ * Capabilities checked by API routes (through authorize in lib/permission-service) and by the
+ * navigation. Each role has a default set below; partners can change a role's set and grant or
+ * withhold single permissions per user. A user's effective permissions are their role's set with
+ * their own overrides applied on top.
+ */
+
+export const USER_ROLE_VALUES = ['PARTNER', 'MANAGER', 'STAFF'] as const
+
+export type UserRoleValue = typeof USER_ROLE_VALUES[number]
+
+export const USER_ROLE_LABELS: Record<UserRoleValue, string> = {
+  PARTNER: 'Partner',
+  MANAGER: 'Manager',
+  STAFF: 'Staff'
+}
+
+export const PERMISSIONS = [
+  'clients.view_all',
+  'clients.view_inactive',
+  'clients.edit',
+  'clients.delete',
+  'clients.assign',
+  'clients.resign',
+  'clients.export',
+  'clients.refresh',
+  'clients.refresh_jobs.view_all',
+  'clients.revert_dates',
+  'clients.contact_health',
+  'clients.chase',
+  'workflow.bulk_update',
+  'workflow.filing.manage',
+  'workflow.advance.non_ltd',
+  'workflow.advance.partner_review',
+  'workflow.auto_assign',
+  'vat.reconciliation',
+  'vat.analytics',
+  'hmrc.connect',
+  'vat.submit_to_hmrc',
+  'templates.edit',
+  'templates.edit_system',
+  'communication.history.manage',
+  'communication.queue.manage',
+  'communication.suppressions.manage',
+  'communication.analytics',
+  'communication.test_tools',
+  'chase_sequences.manage',
+  'notifications.send',
+  'dashboard.team',
+  'teams.manage',
+  'teams.view_all',
+  'users.view',
+  'users.manage',
+  'users.manage_senior',
+  'users.settings.manage',
+  'users.view_activity',
+  'users.workload',
+  'time.view_all',
+  'time.manage_fees',
+  'settings.manage',
+  'permissions.manage'
+] as const
+
+export type Permission = typeof PERMISSIONS[number]
+
+export const PERMISSION_GROUPS = ['Clients', 'Workflows', 'Communication', 'Team', 'Administration'] as const
+
+export type PermissionGroup = typeof PERMISSION_GROUPS[number]
+
+export const PERMISSION_CONFIG: Record<Permission, { label: string; description: string; group: PermissionGroup }> = {
+  'clients.view_all': { label: 'View all clients', description: 'Open clients that are not assigned to them', group: 'Clients' },
+  'clients.view_inactive': { label: 'View inactive clients', description: 'See the inactive clients list', group: 'Clients' },
+  'clients.edit': { label: 'Edit clients', description: 'Change client details and CT status', group: 'Clients' },
+  'clients.delete': { label: 'Delete clients', description: 'Delete clients, one at a time or in bulk', group: 'Clients' },
+  'clients.assign': { label: 'Assign clients', description: 'Assign and reassign clients and workflows', group: 'Clients' },
+  'clients.resign': { label: 'Resign clients', description: 'Mark clients as resigned', group: 'Clients' },
+  'clients.export': { label: 'Export client data', description: 'Download the client list as a spreadsheet', group: 'Clients' },
+  'clients.refresh': { label: 'Refresh Companies House data', description: 'Run bulk Companies House refreshes and rebuild officers', group: 'Clients' },
+  'clients.refresh_jobs.view_all': { label: 'View all refresh jobs', description: 'Follow bulk refreshes started by other users', group: 'Clients' },
+  'clients.revert_dates': { label: 'Revert company dates', description: 'Use the testing tool that reverts Companies House dates', group: 'Clients' },
+  'clients.contact_health': { label: 'View contact health', description: 'See the contact health report', group: 'Clients' },
+  'clients.chase': { label: 'Chase clients', description: "Can be picked for a client's chase team", group: 'Clients' },
+  'workflow.bulk_update': { label: 'Bulk update workflows', description: 'Change stages and assignees for many workflows at once', group: 'Workflows' },
+  'workflow.filing.manage': { label: 'Manage filing status', description: 'Mark returns filed or as filed by the client', group: 'Workflows' },
+  'workflow.advance.non_ltd': { label: 'Update non-Ltd workflows', description: 'Move non-Ltd accounts workflows between stages', group: 'Workflows' },
+  'workflow.advance.partner_review': { label: 'Complete partner review', description: 'Move workflows on from partner review and approve submissions', group: 'Workflows' },
+  'workflow.auto_assign': { label: 'Auto-assign work', description: 'Review and apply suggested assignees for unassigned work, and set staff skills', group: 'Workflows' },
+  'vat.reconciliation': { label: 'VAT reconciliation', description: 'Run VAT reconciliation and correct issues', group: 'Workflows' },
+  'vat.analytics': { label: 'VAT analytics', description: 'See VAT analytics', group: 'Workflows' },
+  'hmrc.connect': { label: 'Connect HMRC', description: 'Connect and disconnect the HMRC VAT account', group: 'Workflows' },
+  'vat.submit_to_hmrc': { label: 'Submit VAT returns', description: 'Submit client-approved VAT returns to HMRC through Making Tax Digital', group: 'Workflows' },
+  'templates.edit': { label: 'Edit email templates', description: 'Create, edit, publish and delete email templates', group: 'Communication' },
+  'templates.edit_system': { label: 'Edit system templates', description: 'Change the built-in email templates', group: 'Communication' },
+  'communication.history.manage': { label: 'Manage email history', description: 'Delete emails from the history', group: 'Communication' },
+  'communication.queue.manage': { label: 'Manage email queue', description: 'Cancel and resend emails queued by other users', group: 'Communication' },
+  'communication.suppressions.manage': { label: 'Lift email suppressions', description: 'Remove addresses from the suppression list', group: 'Communication' },
+  'communication.analytics': { label: 'Email analytics', description: 'See email engagement analytics', group: 'Communication' },
+  'communication.test_tools': { label: 'Messaging test tools', description: 'Use the inbound email, text and e-signature test tools', group: 'Communication' },
+  'chase_sequences.manage': { label: 'Manage chase sequences', description: 'Create and edit automatic chase sequences', group: 'Communication' },
+  'notifications.send': { label: 'Send notifications', description: 'Create in-app notifications for other users', group: 'Communication' },
+  'dashboard.team': { label: 'Team dashboards', description: 'See manager dashboards, team widgets and workflow reviews', group: 'Team' },
+  'teams.manage': { label: 'Manage teams', description: 'Create teams, choose their leads and members, and set team client portfolios', group: 'Team' },
+  'teams.view_all': { label: 'See every team', description: 'See and assign work across the whole firm rather than only their own teams', group: 'Team' },
+  'users.view': { label: 'View users', description: 'See the list of users', group: 'Team' },
+  'users.manage': { label: 'Manage users', description: 'Add, edit, deactivate and reset passwords for users', group: 'Team' },
+  'users.manage_senior': { label: 'Manage partners and managers', description: 'Create partners and change or delete partner and manager accounts', group: 'Team' },
+  'users.settings.manage': { label: "Manage users' settings", description: 'Change notification and assignment settings for other users', group: 'Team' },
+  'users.view_activity': { label: 'View activity logs', description: 'See the activity log for the firm and for each user', group: 'Team' },
+  'users.workload': { label: 'View staff workload', description: 'See the staff workload pages', group: 'Team' },
+  'time.view_all': { label: 'View all time', description: "See everyone's timesheets and the recoverability report", group: 'Team' },
+  'time.manage_fees': { label: 'Manage fees and cost rates', description: 'Set client fee budgets and staff hourly cost rates', group: 'Team' },
+  'settings.manage': { label: 'System settings', description: 'Change default assignments and other system settings', group: 'Administration' },
+  'permissions.manage': { label: 'Manage permissions', description: 'Change what each role can do and set per-user overrides', group: 'Administration' }
+}
+
+const MANAGER_PERMISSIONS: Permission[] = [
+  'clients.view_all',
+  'clients.view_inactive',
+  'clients.edit',
+  'clients.delete',
+  'clients.assign',
+  'clients.resign',
+  'clients.refresh',
+  'clients.contact_health',
+  'clients.chase',
+  'workflow.bulk_update',
+  'workflow.filing.manage',
+  'workflow.advance.non_ltd',
+  'workflow.auto_assign',
+  'vat.reconciliation',
+  'vat.analytics',
+  'hmrc.connect',
+  'vat.submit_to_hmrc',
+  'templates.edit',
+  'communication.history.manage',
+  'communication.queue.manage',
+  'communication.suppressions.manage',
+  'communication.analytics',
+  'communication.test_tools',
+  'chase_sequences.manage',
+  'notifications.send',
+  'dashboard.team',
+  'users.view',
+  'users.manage',
+  'users.view_activity',
+  'time.view_all'
+]
+
+// What each role can do until a partner changes it
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRoleValue, readonly Permission[]> = {
+  PARTNER: PERMISSIONS,
+  MANAGER: MANAGER_PERMISSIONS,
+  STAFF: ['users.view']
+}
+
+// Partners always keep these, so nobody can lock the firm out of the permission settings
+export const LOCKED_ROLE_PERMISSIONS: Partial<Record<UserRoleValue, readonly Permission[]>> = {
+  PARTNER: ['permissions.manage']
+}
+
+export function isPermission(value: unknown): value is Permission {
+  return typeof value === 'string' && (PERMISSIONS as readonly string[]).includes(value)
+}
+
+export function isUserRoleValue(value: unknown): value is UserRoleValue {
+  return typeof value === 'string' && (USER_ROLE_VALUES as readonly string[]).includes(value)
+}
+
+export function isLockedPermission(role: string, permission: Permission): boolean {
+  return isUserRoleValue(role) && (LOCKED_ROLE_PERMISSIONS[role]?.includes(permission) ?? false)
+}
+
+/**
+ * A user's effective permissions
+ * @param roleGrants - The role's stored grants; permissions without one use DEFAULT_ROLE_PERMISSIONS
+ * @param overrides - The user's own grants, which win over the role's
+ */
+export function resolvePermissions(
+  role: string,
+  roleGrants: Array<{ permission: string; granted: boolean }>,
+  overrides: Array<{ permission: string; granted: boolean }> = []
+): Permission[] {
+  const defaults: readonly Permission[] = isUserRoleValue(role) ? DEFAULT_ROLE_PERMISSIONS[role] : []
+  const granted = new Set<Permission>(defaults)
+
+  for (const grant of [...roleGrants, ...overrides]) {
+    if (!isPermission(grant.permission)) continue
+    if (grant.granted) {
+      granted.add(grant.permission)
+    } else if (!isLockedPermission(role, grant.permission)) {
+      granted.delete(grant.permission)
+    }
+  }
+
+  return PERMISSIONS.filter(permission => granted.has(permission))
+}
+
+// Stages a partner reviews, and the stages only a partner's sign-off can move a workflow to
+const PARTNER_REVIEW_STAGES = ['REVIEW_PENDING_PARTNER', 'REVIEW_BY_PARTNER']
+const PARTNER_SIGN_OFF_STAGES = ['REVIEWED_BY_PARTNER', 'SUBMISSION_APPROVED_PARTNER']
+
+/**
+ * Whether a stage change needs workflow.advance.partner_review - moving forward out of partner
+ * review, or straight to a partner sign-off stage. Sending a workflow back never does.
+ * @param stageOrder - The workflow's stages in order, e.g. VAT_WORKFLOW_STAGE_ORDER
+ */
+export function requiresPartnerReview(stageOrder: readonly string[], fromStage: string | null, toStage: string): boolean {
+  if (fromStage === toStage) return false
+  const fromIndex = fromStage ? stageOrder.indexOf(fromStage) : -1
+  const toIndex = stageOrder.indexOf(toStage)
+  if (fromIndex !== -1 && toIndex !== -1 && toIndex < fromIndex) return false
+
+  if (PARTNER_SIGN_OFF_STAGES.includes(toStage)) return true
+  return !!fromStage && PARTNER_REVIEW_STAGES.includes(fromStage) && toIndex > fromIndex
+}
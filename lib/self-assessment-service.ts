@@ -0,0 +1,77 @@
+/**
+ * Self Assessment (SA100) Workflow Server-Side Utilities
+ *
+ * Client.sa100Filed / sa100FiledDate / previousYearSA100FiledDate are kept as a summary of the
+ * per-tax-year workflows so the client forms and exports that read them keep working.
+ */
+
+import { db } from '@/lib/db'
+import {
+  getCurrentSelfAssessmentTaxYear,
+  getInitialSelfAssessmentStage
+} from '@/lib/self-assessment-workflow'
+
+/**
+ * Make sure a workflow exists for the tax year currently being worked on
+ */
+export async function ensureCurrentSelfAssessmentWorkflow(
+  clientId: string,
+  assignedUserId: string | null
+) {
+  const taxYear = getCurrentSelfAssessmentTaxYear()
+
+  return db.selfAssessmentWorkflow.upsert({
+    where: {
+      clientId_taxYear: {
+        clientId,
+        taxYear: taxYear.taxYear
+      }
+    },
+    update: {},
+    create: {
+      clientId,
+      ...taxYear,
+      currentStage: getInitialSelfAssessmentStage(taxYear.taxYearEnd),
+      assignedUserId,
+      isCompleted: false
+    }
+  })
+}
+
+/**
+ * Recalculate the client's SA100 summary fields from its workflows
+ * The latest tax year drives sa100Filed/sa100FiledDate; the year before it drives the previous year date
+ */
+export async function syncClientSelfAssessmentStatus(clientId: string) {
+  const workflows = await db.selfAssessmentWorkflow.findMany({
+    where: { clientId },
+    orderBy: { taxYearEnd: 'desc' },
+    take: 2,
+    select: {
+      isCompleted: true,
+      filedToHMRCDate: true,
+      clientSelfFilingDate: true
+    }
+  })
+
+  const [latest, previous] = workflows
+  if (!latest) {
+    return
+  }
+
+  const latestFiledDate = latest.isCompleted
+    ? latest.filedToHMRCDate || latest.clientSelfFilingDate || new Date()
+    : null
+  const previousFiledDate = previous?.isCompleted
+    ? previous.filedToHMRCDate || previous.clientSelfFilingDate
+    : null
+
+  await db.client.update({
+    where: { id: clientId },
+    data: {
+      sa100Filed: latest.isCompleted,
+      sa100FiledDate: latestFiledDate,
+      ...(previousFiledDate ? { previousYearSA100FiledDate: previousFiledDate } : {})
+    }
+  })
+}
@@ -0,0 +1,240 @@
+/**
+ * Self Assessment (SA100) Workflow Client-Safe Utilities
+ *
+ * One workflow per client per UK tax year (6th April to 5th April):
+ * - Paper return due: 31st October after the tax year ends
+ * - Online return and balancing payment due: 31st January after the tax year ends
+ * - Payments on account: 31st January within the tax year and 31st July after it ends
+ */
+
+import { isValid } from 'date-fns'
+
+// Client types that file a personal tax return
+export const SELF_ASSESSMENT_CLIENT_TYPES = [
+  'NON_LIMITED_COMPANY',
+  'SOLE_TRADER',
+  'DIRECTOR',
+  'SUB_CONTRACTOR'
+]
+
+// Self Assessment Workflow Stage Order (sequential progression)
+export const SA_WORKFLOW_STAGE_ORDER = [
+  'WAITING_FOR_TAX_YEAR_END',
+  'PAPERWORK_PENDING_CHASE',
+  'PAPERWORK_CHASED',
+  'PAPERWORK_RECEIVED',
+  'WORK_IN_PROGRESS',
+  'REVIEW_BY_PARTNER',
+  'SENT_TO_CLIENT',
+  'APPROVED_BY_CLIENT',
+  'FILED_TO_HMRC',
+  'CLIENT_SELF_FILING'
+] as const
+
+export type SelfAssessmentStage = typeof SA_WORKFLOW_STAGE_ORDER[number]
+
+// Stages that close the workflow
+export const SA_COMPLETED_STAGES: readonly string[] = ['FILED_TO_HMRC', 'CLIENT_SELF_FILING']
+
+export const SA_WORKFLOW_STAGES: Record<SelfAssessmentStage, { label: string; shortLabel: string; color: string }> = {
+  WAITING_FOR_TAX_YEAR_END: {
+    label: 'Waiting for tax year end',
+    shortLabel: 'Waiting',
+    color: 'bg-gray-100 text-gray-800'
+  },
+  PAPERWORK_PENDING_CHASE: {
+    label: 'Pending to chase paperwork',
+    shortLabel: 'Chase pending',
+    color: 'bg-amber-100 text-amber-800'
+  },
+  PAPERWORK_CHASED: {
+    label: 'Paperwork chased',
+    shortLabel: 'Chased',
+    color: 'bg-orange-100 text-orange-800'
+  },
+  PAPERWORK_RECEIVED: {
+    label: 'Paperwork received',
+    shortLabel: 'Received',
+    color: 'bg-yellow-100 text-yellow-800'
+  },
+  WORK_IN_PROGRESS: {
+    label: 'Work in progress',
+    shortLabel: 'In progress',
+    color: 'bg-blue-100 text-blue-800'
+  },
+  REVIEW_BY_PARTNER: {
+    label: 'Review by partner',
+    shortLabel: 'Partner review',
+    color: 'bg-indigo-100 text-indigo-800'
+  },
+  SENT_TO_CLIENT: {
+    label: 'Sent to client for approval',
+    shortLabel: 'With client',
+    color: 'bg-cyan-100 text-cyan-800'
+  },
+  APPROVED_BY_CLIENT: {
+    label: 'Approved by client',
+    shortLabel: 'Approved',
+    color: 'bg-teal-100 text-teal-800'
+  },
+  FILED_TO_HMRC: {
+    label: 'SA100 filed to HMRC',
+    shortLabel: 'Filed',
+    color: 'bg-green-100 text-green-800'
+  },
+  CLIENT_SELF_FILING: {
+    label: 'Client self-filing',
+    shortLabel: 'Self-filing',
+    color: 'bg-emerald-100 text-emerald-800'
+  }
+}
+
+/**
+ * Milestone field mapping for each stage (date, user id and user name fields)
+ */
+export const SA_MILESTONE_FIELDS: Partial<Record<SelfAssessmentStage, { dateField: string; userField: string; nameField: string }>> = {
+  PAPERWORK_CHASED: {
+    dateField: 'chaseStartedDate',
+    userField: 'chaseStartedByUserId',
+    nameField: 'chaseStartedByUserName'
+  },
+  PAPERWORK_RECEIVED: {
+    dateField: 'paperworkReceivedDate',
+    userField: 'paperworkReceivedByUserId',
+    nameField: 'paperworkReceivedByUserName'
+  },
+  WORK_IN_PROGRESS: {
+    dateField: 'workStartedDate',
+    userField: 'workStartedByUserId',
+    nameField: 'workStartedByUserName'
+  },
+  REVIEW_BY_PARTNER: {
+    dateField: 'partnerReviewDate',
+    userField: 'partnerReviewByUserId',
+    nameField: 'partnerReviewByUserName'
+  },
+  SENT_TO_CLIENT: {
+    dateField: 'sentToClientDate',
+    userField: 'sentToClientByUserId',
+    nameField: 'sentToClientByUserName'
+  },
+  APPROVED_BY_CLIENT: {
+    dateField: 'clientApprovedDate',
+    userField: 'clientApprovedByUserId',
+    nameField: 'clientApprovedByUserName'
+  },
+  FILED_TO_HMRC: {
+    dateField: 'filedToHMRCDate',
+    userField: 'filedToHMRCByUserId',
+    nameField: 'filedToHMRCByUserName'
+  },
+  CLIENT_SELF_FILING: {
+    dateField: 'clientSelfFilingDate',
+    userField: 'clientSelfFilingByUserId',
+    nameField: 'clientSelfFilingByUserName'
+  }
+}
+
+export interface SelfAssessmentTaxYear {
+  taxYear: string
+  taxYearStart: Date
+  taxYearEnd: Date
+  paperFilingDueDate: Date
+  onlineFilingDueDate: Date
+  firstPaymentOnAccountDueDate: Date
+  secondPaymentOnAccountDueDate: Date
+}
+
+export function isSelfAssessmentStage(stage: string): stage is SelfAssessmentStage {
+  return (SA_WORKFLOW_STAGE_ORDER as readonly string[]).includes(stage)
+}
+
+export function getSelfAssessmentStageLabel(stage: string): string {
+  return isSelfAssessmentStage(stage) ? SA_WORKFLOW_STAGES[stage].label : stage
+}
+
+/**
+ * Format a tax year label from the calendar year it starts in (2025 → "2025-26")
+ */
+export function formatSelfAssessmentTaxYear(startYear: number): string {
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`
+}
+
+/**
+ * Build the tax year and its SA deadlines from the calendar year it starts in
+ * @param startYear Year of the 6th April the tax year starts on
+ */
+export function getSelfAssessmentTaxYear(startYear: number): SelfAssessmentTaxYear {
+  const taxYearStart = new Date(startYear, 3, 6)
+  const taxYearEnd = new Date(startYear + 1, 3, 5)
+
+  if (!isValid(taxYearStart) || !isValid(taxYearEnd)) {
+    throw new Error(`Invalid tax year starting ${startYear}`)
+  }
+
+  return {
+    taxYear: formatSelfAssessmentTaxYear(startYear),
+    taxYearStart,
+    taxYearEnd,
+    paperFilingDueDate: new Date(startYear + 1, 9, 31),
+    onlineFilingDueDate: new Date(startYear + 2, 0, 31),
+    firstPaymentOnAccountDueDate: new Date(startYear + 1, 0, 31),
+    secondPaymentOnAccountDueDate: new Date(startYear + 1, 6, 31)
+  }
+}
+
+/**
+ * The tax year whose return is being worked on: the one with the next 31st January online deadline
+ * From 1st February until 5th April this is the tax year still in progress
+ */
+export function getCurrentSelfAssessmentTaxYear(today: Date = new Date()): SelfAssessmentTaxYear {
+  const year = today.getFullYear()
+  const deadlineThisYear = new Date(year, 0, 31, 23, 59, 59)
+
+  return getSelfAssessmentTaxYear(today <= deadlineThisYear ? year - 2 : year - 1)
+}
+
+/**
+ * Initial stage for a new workflow: paperwork can be chased once the tax year has ended
+ */
+export function getInitialSelfAssessmentStage(taxYearEnd: Date, today: Date = new Date()): SelfAssessmentStage {
+  return today > taxYearEnd ? 'PAPERWORK_PENDING_CHASE' : 'WAITING_FOR_TAX_YEAR_END'
+}
+
+/**
+ * Build the milestone update for a stage change
+ * Moving backwards clears the milestones of the stages being undone
+ */
+export function getSelfAssessmentMilestoneUpdate(
+  newStage: SelfAssessmentStage,
+  userId: string | null,
+  userName: string,
+  currentStage?: string
+): Record<string, Date | string | null> {
+  const updateData: Record<string, Date | string | null> = {}
+  const milestone = SA_MILESTONE_FIELDS[newStage]
+
+  if (milestone) {
+    updateData[milestone.dateField] = new Date()
+    updateData[milestone.userField] = userId
+    updateData[milestone.nameField] = userName
+  }
+
+  if (currentStage) {
+    const currentIndex = SA_WORKFLOW_STAGE_ORDER.indexOf(currentStage as SelfAssessmentStage)
+    const newIndex = SA_WORKFLOW_STAGE_ORDER.indexOf(newStage)
+
+    if (currentIndex > newIndex) {
+      SA_WORKFLOW_STAGE_ORDER.slice(newIndex + 1, currentIndex + 1).forEach(futureStage => {
+        const futureMilestone = SA_MILESTONE_FIELDS[futureStage]
+        if (futureMilestone) {
+          updateData[futureMilestone.dateField] = null
+          updateData[futureMilestone.userField] = null
+          updateData[futureMilestone.nameField] = null
+        }
+      })
+    }
+  }
+
+  return updateData
+}
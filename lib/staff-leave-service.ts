@@ -0,0 +1,142 @@
+/**
+ * Staff Leave Server-Side Utilities
+ */
+
+import { db } from '@/lib/db'
+import { findLeaveOn, LEAVE_TYPE_LABELS, toLeaveDay, type LeaveType } from '@/lib/staff-leave'
+
+export class LeaveError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'LeaveError'
+  }
+}
+
+export interface LeaveInput {
+  type: LeaveType
+  startDate: string
+  endDate: string
+  notes?: string | null
+}
+
+/**
+ * Leave overlapping a date range, for one or more users
+ */
+export async function getLeaveBetween(userIds: string[], from: Date, to: Date) {
+  if (userIds.length === 0) return []
+
+  return db.staffLeave.findMany({
+    where: {
+      userId: { in: userIds },
+      startDate: { lte: toLeaveDay(to) },
+      endDate: { gte: toLeaveDay(from) }
+    },
+    orderBy: { startDate: 'asc' }
+  })
+}
+
+/**
+ * A user's leave, with any cover plan in place for it
+ */
+export async function getUserLeave(userId: string, options: { from?: Date } = {}) {
+  return db.staffLeave.findMany({
+    where: {
+      userId,
+      ...(options.from ? { endDate: { gte: toLeaveDay(options.from) } } : {})
+    },
+    include: {
+      coverPlans: {
+        where: { status: 'ACTIVE' },
+        select: { id: true, _count: { select: { items: true } } }
+      }
+    },
+    orderBy: { startDate: 'asc' }
+  })
+}
+
+export async function createLeave(userId: string, input: LeaveInput) {
+  const startDate = toLeaveDay(input.startDate)
+  const endDate = toLeaveDay(input.endDate)
+  if (endDate < startDate) {
+    throw new LeaveError('Leave must end on or after the day it starts')
+  }
+
+  const user = await db.user.findUnique({ where: { id: userId }, select: { id: true } })
+  if (!user) {
+    throw new LeaveError('User not found', 404)
+  }
+
+  return db.staffLeave.create({
+    data: {
+      userId,
+      type: input.type,
+      startDate,
+      endDate,
+      notes: input.notes || null
+    }
+  })
+}
+
+export async function deleteLeave(userId: string, leaveId: string) {
+  const leave = await db.staffLeave.findFirst({ where: { id: leaveId, userId } })
+  if (!leave) {
+    throw new LeaveError('Leave not found', 404)
+  }
+
+  await db.staffLeave.delete({ where: { id: leaveId } })
+  return leave
+}
+
+/**
+ * Leave for everyone active between two dates, with names, for the calendar
+ */
+export async function getTeamLeave(from: Date, to: Date) {
+  return db.staffLeave.findMany({
+    where: {
+      user: { isActive: true },
+      startDate: { lte: toLeaveDay(to) },
+      endDate: { gte: toLeaveDay(from) }
+    },
+    select: {
+      id: true,
+      userId: true,
+      type: true,
+      startDate: true,
+      endDate: true,
+      user: { select: { name: true } }
+    },
+    orderBy: { startDate: 'asc' }
+  })
+}
+
+/**
+ * Warning to show when work is assigned to someone who is away on its due date
+ * @returns Null when they are around, or nobody is assigned
+ */
+export async function getLeaveWarning(userId: string | null | undefined, dueDate: Date | null | undefined): Promise<string | null> {
+  if (!userId || !dueDate) return null
+
+  const leave = await getLeaveBetween([userId], dueDate, dueDate)
+  const onLeave = findLeaveOn(leave, dueDate)
+  if (!onLeave) return null
+
+  const user = await db.user.findUnique({ where: { id: userId }, select: { name: true } })
+  const formatDate = (date: Date) => date.toLocaleDateString('en-GB', { timeZone: 'UTC' })
+  const type = LEAVE_TYPE_LABELS[onLeave.type as LeaveType] || 'Leave'
+
+  return `${user?.name || 'The assignee'} is away (${type.toLowerCase()}) from ${formatDate(onLeave.startDate)} ` +
+    `to ${formatDate(onLeave.endDate)}, which covers the due date ${formatDate(toLeaveDay(dueDate))}`
+}
+
+export async function setWorkingDays(userId: string, workingDays: number[]) {
+  const user = await db.user.findUnique({ where: { id: userId }, select: { id: true } })
+  if (!user) {
+    throw new LeaveError('User not found', 404)
+  }
+
+  return db.user.update({
+    where: { id: userId },
+    data: { workingDays: Array.from(new Set(workingDays)).sort((a, b) => a - b) },
+    select: { id: true, workingDays: true }
+  })
+}
@@ -0,0 +1,106 @@
+/**
+ * Staff Leave Client-Safe Utilities
+ *
+ * Planned leave and sickness, stored as inclusive date ranges at midnight UTC, and each person's
+ * working pattern (the weekdays they work, 0 = Sunday). The assignment engine avoids people who are
+ * away when work is due, and the cover plan hands their due-soon work to someone else while away.
+ */
+
+export const LEAVE_TYPES = ['HOLIDAY', 'SICKNESS', 'OTHER'] as const
+
+export type LeaveType = typeof LEAVE_TYPES[number]
+
+export const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  HOLIDAY: 'Holiday',
+  SICKNESS: 'Sickness',
+  OTHER: 'Other'
+}
+
+// A cover plan also takes work due this many days after someone is back, so it isn't all
+// waiting for them on their first morning
+export const COVER_PLAN_BUFFER_DAYS = 7
+
+// Full time, Monday to Friday
+export const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5]
+
+// Monday first, as the team reads them
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0] as const
+
+export const WEEKDAY_LABELS: Record<number, string> = {
+  0: 'Sun',
+  1: 'Mon',
+  2: 'Tue',
+  3: 'Wed',
+  4: 'Thu',
+  5: 'Fri',
+  6: 'Sat'
+}
+
+/**
+ * Short description of a working pattern, e.g. "Mon, Tue, Thu"
+ */
+export function describeWorkingDays(workingDays: number[]): string {
+  if (isFullTime(workingDays)) return 'Full time'
+  if (workingDays.length === 0) return 'No working days'
+  return WEEKDAY_ORDER.filter(day => workingDays.includes(day)).map(day => WEEKDAY_LABELS[day]).join(', ')
+}
+
+export function isFullTime(workingDays: number[]): boolean {
+  return DEFAULT_WORKING_DAYS.every(day => workingDays.includes(day))
+}
+
+export interface LeaveRange {
+  startDate: Date | string
+  endDate: Date | string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Midnight UTC on the same calendar day
+ */
+export function toLeaveDay(date: Date | string): Date {
+  const value = new Date(date)
+  return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()))
+}
+
+/**
+ * Working days of leave that fall between from and to (both inclusive)
+ * @param workingDays - The person's working pattern; days they don't work anyway aren't counted
+ */
+export function countLeaveWorkingDays(
+  leave: LeaveRange[],
+  from: Date,
+  to: Date,
+  workingDays: number[] = DEFAULT_WORKING_DAYS
+): number {
+  const days = new Set<number>()
+  const windowStart = toLeaveDay(from).getTime()
+  const windowEnd = toLeaveDay(to).getTime()
+
+  for (const range of leave) {
+    const start = Math.max(toLeaveDay(range.startDate).getTime(), windowStart)
+    const end = Math.min(toLeaveDay(range.endDate).getTime(), windowEnd)
+    for (let day = start; day <= end; day += DAY_MS) {
+      if (workingDays.includes(new Date(day).getUTCDay())) {
+        days.add(day)
+      }
+    }
+  }
+
+  return days.size
+}
+
+export function isOnLeave(leave: LeaveRange[], date: Date): boolean {
+  return !!findLeaveOn(leave, date)
+}
+
+/**
+ * The leave range covering a date, if any
+ */
+export function findLeaveOn<T extends LeaveRange>(leave: T[], date: Date): T | undefined {
+  const day = toLeaveDay(date).getTime()
+  return leave.find(range =>
+    toLeaveDay(range.startDate).getTime() <= day && toLeaveDay(range.endDate).getTime() >= day
+  )
+}
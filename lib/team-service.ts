@@ -0,0 +1,302 @@
+/**
+ * Team Server-Side Utilities
+ *
+ * Team CRUD, client portfolios and the team scope used to narrow dashboards and assignment pickers
+ * to the people a user actually manages.
+ */
+
+import { Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+import type { TeamSummary } from '@/lib/teams'
+
+export class TeamError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'TeamError'
+  }
+}
+
+const PERSON_SELECT = { id: true, name: true, email: true, role: true } as const
+
+const TEAM_INCLUDE = {
+  lead: { select: PERSON_SELECT },
+  members: {
+    select: { user: { select: PERSON_SELECT } },
+    orderBy: { user: { name: 'asc' } }
+  },
+  _count: { select: { clients: { where: { isActive: true } } } }
+} satisfies Prisma.TeamInclude
+
+type TeamWithPeople = Prisma.TeamGetPayload<{ include: typeof TEAM_INCLUDE }>
+
+function toTeamSummary(team: TeamWithPeople): TeamSummary {
+  return {
+    id: team.id,
+    name: team.name,
+    description: team.description,
+    isActive: team.isActive,
+    lead: team.lead,
+    members: team.members.map(member => member.user),
+    clientCount: team._count.clients
+  }
+}
+
+export interface TeamInput {
+  name: string
+  description?: string | null
+  leadId?: string | null
+  memberIds: string[]
+}
+
+/**
+ * @param userId - Only teams this user leads or belongs to
+ */
+export async function getTeams(options: { userId?: string; includeInactive?: boolean } = {}): Promise<TeamSummary[]> {
+  const teams = await db.team.findMany({
+    where: {
+      ...(options.includeInactive ? {} : { isActive: true }),
+      ...(options.userId ? {
+        OR: [
+          { leadId: options.userId },
+          { members: { some: { userId: options.userId } } }
+        ]
+      } : {})
+    },
+    include: TEAM_INCLUDE,
+    orderBy: { name: 'asc' }
+  })
+
+  return teams.map(toTeamSummary)
+}
+
+export async function getTeam(teamId: string): Promise<TeamSummary> {
+  const team = await db.team.findUnique({ where: { id: teamId }, include: TEAM_INCLUDE })
+  if (!team) {
+    throw new TeamError('Team not found', 404)
+  }
+  return toTeamSummary(team)
+}
+
+async function assertActiveUsers(userIds: string[]) {
+  if (userIds.length === 0) return
+  const found = await db.user.count({ where: { id: { in: userIds }, isActive: true } })
+  if (found !== new Set(userIds).size) {
+    throw new TeamError('Team leads and members must be active users')
+  }
+}
+
+async function assertNameAvailable(name: string, teamId?: string) {
+  const existing = await db.team.findFirst({
+    where: { name: { equals: name, mode: 'insensitive' }, ...(teamId ? { id: { not: teamId } } : {}) },
+    select: { id: true }
+  })
+  if (existing) {
+    throw new TeamError(`A team called "${name}" already exists`, 409)
+  }
+}
+
+export async function createTeam(input: TeamInput): Promise<TeamSummary> {
+  const memberIds = Array.from(new Set(input.memberIds))
+  await assertNameAvailable(input.name)
+  await assertActiveUsers([...memberIds, ...(input.leadId ? [input.leadId] : [])])
+
+  const team = await db.team.create({
+    data: {
+      name: input.name,
+      description: input.description || null,
+      leadId: input.leadId || null,
+      members: { create: memberIds.map(userId => ({ userId })) }
+    },
+    include: TEAM_INCLUDE
+  })
+
+  return toTeamSummary(team)
+}
+
+/**
+ * Update a team - memberIds, when given, replaces the whole membership
+ */
+export async function updateTeam(
+  teamId: string,
+  input: Partial<TeamInput> & { isActive?: boolean }
+): Promise<TeamSummary> {
+  const existing = await db.team.findUnique({ where: { id: teamId }, select: { id: true } })
+  if (!existing) {
+    throw new TeamError('Team not found', 404)
+  }
+
+  const memberIds = input.memberIds ? Array.from(new Set(input.memberIds)) : undefined
+  if (input.name) {
+    await assertNameAvailable(input.name, teamId)
+  }
+  await assertActiveUsers([...(memberIds || []), ...(input.leadId ? [input.leadId] : [])])
+
+  await db.$transaction(async (tx) => {
+    await tx.team.update({
+      where: { id: teamId },
+      data: {
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        ...(input.description !== undefined ? { description: input.description || null } : {}),
+        ...(input.leadId !== undefined ? { leadId: input.leadId || null } : {}),
+        ...(input.isActive !== undefined ? { isActive: input.isActive } : {})
+      }
+    })
+
+    if (memberIds) {
+      await tx.teamMember.deleteMany({ where: { teamId, userId: { notIn: memberIds } } })
+      await tx.teamMember.createMany({
+        data: memberIds.map(userId => ({ teamId, userId })),
+        skipDuplicates: true
+      })
+    }
+  })
+
+  return getTeam(teamId)
+}
+
+/**
+ * Delete a team - its clients leave the portfolio but keep their assignees
+ */
+export async function deleteTeam(teamId: string): Promise<TeamSummary> {
+  const team = await getTeam(teamId)
+  await db.team.delete({ where: { id: teamId } })
+  return team
+}
+
+export async function assertActiveTeams(teamIds: string[]) {
+  if (teamIds.length === 0) return
+  const found = await db.team.count({ where: { id: { in: teamIds }, isActive: true } })
+  if (found !== new Set(teamIds).size) {
+    throw new TeamError('Team not found', 404)
+  }
+}
+
+export async function addUserToTeams(userId: string, teamIds: string[]) {
+  if (teamIds.length === 0) return
+  await assertActiveTeams(teamIds)
+  await db.teamMember.createMany({
+    data: teamIds.map(teamId => ({ teamId, userId })),
+    skipDuplicates: true
+  })
+}
+
+export async function getTeamClients(teamId: string) {
+  return db.client.findMany({
+    where: { teamId, isActive: true },
+    select: { id: true, clientCode: true, companyName: true, companyType: true },
+    orderBy: { companyName: 'asc' }
+  })
+}
+
+/**
+ * Move clients into or out of a team's portfolio
+ * Adding a client that sits in another team's portfolio moves it across.
+ */
+export async function updateTeamClients(teamId: string, changes: { addClientIds?: string[]; removeClientIds?: string[] }) {
+  const team = await db.team.findUnique({ where: { id: teamId }, select: { id: true, isActive: true } })
+  if (!team) {
+    throw new TeamError('Team not found', 404)
+  }
+  if (!team.isActive && changes.addClientIds?.length) {
+    throw new TeamError("Clients can't be added to an inactive team")
+  }
+
+  const [added, removed] = await db.$transaction([
+    db.client.updateMany({
+      where: { id: { in: changes.addClientIds || [] } },
+      data: { teamId }
+    }),
+    db.client.updateMany({
+      where: { id: { in: changes.removeClientIds || [] }, teamId },
+      data: { teamId: null }
+    })
+  ])
+
+  return { added: added.count, removed: removed.count }
+}
+
+export async function isTeamLead(teamId: string, userId: string): Promise<boolean> {
+  const team = await db.team.findFirst({ where: { id: teamId, leadId: userId }, select: { id: true } })
+  return !!team
+}
+
+export interface TeamScope {
+  // True when the user sees the whole firm
+  firmWide: boolean
+  teamIds: string[]
+  // Members and leads of the teams in scope
+  userIds: string[]
+}
+
+const FIRM_WIDE_SCOPE: TeamScope = { firmWide: true, teamIds: [], userIds: [] }
+
+/**
+ * The teams whose work a user sees
+ * @param viewAll - Whether the user has teams.view_all
+ * @param teamId - Narrow to one team; without teams.view_all the user must lead or belong to it
+ */
+export async function getTeamScope(
+  userId: string,
+  options: { viewAll: boolean; teamId?: string | null }
+): Promise<TeamScope> {
+  if (!options.teamId && options.viewAll) {
+    return FIRM_WIDE_SCOPE
+  }
+
+  const teams = await db.team.findMany({
+    where: {
+      isActive: true,
+      ...(options.teamId ? { id: options.teamId } : {}),
+      ...(options.viewAll ? {} : {
+        OR: [
+          { leadId: userId },
+          { members: { some: { userId } } }
+        ]
+      })
+    },
+    select: { id: true, leadId: true, members: { select: { userId: true } } }
+  })
+
+  if (options.teamId && teams.length === 0) {
+    throw new TeamError('Team not found or not one of your teams', 404)
+  }
+  // Users outside any team keep the firm-wide view
+  if (teams.length === 0) {
+    return FIRM_WIDE_SCOPE
+  }
+
+  const userIds = new Set<string>()
+  for (const team of teams) {
+    if (team.leadId) userIds.add(team.leadId)
+    team.members.forEach(member => userIds.add(member.userId))
+  }
+
+  return { firmWide: false, teamIds: teams.map(team => team.id), userIds: Array.from(userIds) }
+}
+
+/**
+ * Clients a team scope covers: the teams' portfolios, clients handled by their people, and clients
+ * nobody owns yet so they can still be picked up
+ */
+export function teamClientWhere(scope: TeamScope): Prisma.ClientWhereInput {
+  if (scope.firmWide) return {}
+
+  return {
+    OR: [
+      { teamId: { in: scope.teamIds } },
+      { assignedUserId: { in: scope.userIds } },
+      { ltdCompanyAssignedUserId: { in: scope.userIds } },
+      { nonLtdCompanyAssignedUserId: { in: scope.userIds } },
+      {
+        teamId: null,
+        assignedUserId: null,
+        ltdCompanyAssignedUserId: null,
+        nonLtdCompanyAssignedUserId: null
+      }
+    ]
+  }
+}
+
+export function teamUserWhere(scope: TeamScope): Prisma.UserWhereInput {
+  return scope.firmWide ? {} : { id: { in: scope.userIds } }
+}
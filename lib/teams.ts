@@ -0,0 +1,43 @@
+/**
+ * Team Client-Safe Utilities
+ *
+ * Teams group staff under a lead (e.g. the VAT team or the year-end team) and can own a portfolio of
+ * clients. Users without teams.view_all who lead or belong to a team see their team's people and
+ * clients on the manager dashboard, and assignment pickers offer their team first. Users in no team
+ * keep the firm-wide view.
+ */
+
+export interface TeamMemberSummary {
+  id: string
+  name: string
+  email: string
+  role: string
+}
+
+export interface TeamSummary {
+  id: string
+  name: string
+  description: string | null
+  isActive: boolean
+  lead: TeamMemberSummary | null
+  members: TeamMemberSummary[]
+  clientCount: number
+}
+
+// Assignment pickers show the signed-in user's team unless asked for everyone
+export const USER_PICKER_SCOPES = ['team', 'all'] as const
+
+export type UserPickerScope = typeof USER_PICKER_SCOPES[number]
+
+export const TEAM_NAME_MAX_LENGTH = 80
+
+/**
+ * Everyone a team covers - its members and its lead
+ */
+export function getTeamPeopleIds(team: Pick<TeamSummary, 'lead' | 'members'>): string[] {
+  const ids = team.members.map(member => member.id)
+  if (team.lead && !ids.includes(team.lead.id)) {
+    ids.push(team.lead.id)
+  }
+  return ids
+}
@@ -0,0 +1,501 @@
+/**
+ * Time Tracking Server-Side Utilities
+ *
+ * Timers and manual time entries against VAT quarters and accounts workflows, client fee budgets,
+ * and the recoverability report. Time is costed at each person's current hourly cost rate, so
+ * changing a rate changes past figures too; time by someone without a rate costs nothing.
+ */
+
+import { Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+import type { AssignableWorkType } from '@/lib/assignment-engine'
+import { toLeaveDay } from '@/lib/staff-leave'
+import {
+  entryMinutes,
+  recoverability,
+  timeCost,
+  weekDayIndex,
+  MAX_ENTRY_MINUTES,
+  type JobTime,
+  type RecoverabilityJob,
+  type RecoverabilityReport,
+  type RecoverabilityTotals,
+  type TimeEntryRow,
+  type TimesheetRow,
+  type WeeklyTimesheet
+} from '@/lib/time-tracking'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export class TimeEntryError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'TimeEntryError'
+  }
+}
+
+export interface TimeJobInput {
+  workType: AssignableWorkType
+  workflowId: string
+}
+
+export interface ManualTimeInput extends TimeJobInput {
+  // yyyy-mm-dd
+  date: string
+  minutes: number
+  description?: string | null
+}
+
+export interface FeeBudgetInput {
+  workType: AssignableWorkType
+  // Null removes the budget
+  fee: number | null
+  budgetMinutes?: number | null
+}
+
+const formatDate = (date: Date) => date.toLocaleDateString('en-GB', { timeZone: 'Europe/London' })
+
+const ENTRY_INCLUDE = {
+  client: { select: { id: true, clientCode: true, companyName: true } },
+  vatQuarter: { select: { quarterPeriod: true, filingDueDate: true } },
+  ltdAccountsWorkflow: { select: { filingPeriodEnd: true, accountsDueDate: true } },
+  nonLtdAccountsWorkflow: { select: { yearEndDate: true, filingDueDate: true } }
+} satisfies Prisma.TimeEntryInclude
+
+type EntryWithJob = Prisma.TimeEntryGetPayload<{ include: typeof ENTRY_INCLUDE }>
+
+/**
+ * The workflow an entry was recorded against, with its period and due date
+ */
+function describeEntryJob(entry: EntryWithJob) {
+  if (entry.vatQuarter && entry.vatQuarterId) {
+    return { workflowId: entry.vatQuarterId, periodLabel: entry.vatQuarter.quarterPeriod, dueDate: entry.vatQuarter.filingDueDate }
+  }
+  if (entry.ltdAccountsWorkflow && entry.ltdAccountsWorkflowId) {
+    return {
+      workflowId: entry.ltdAccountsWorkflowId,
+      periodLabel: `Year ended ${formatDate(entry.ltdAccountsWorkflow.filingPeriodEnd)}`,
+      dueDate: entry.ltdAccountsWorkflow.accountsDueDate
+    }
+  }
+  if (entry.nonLtdAccountsWorkflow && entry.nonLtdAccountsWorkflowId) {
+    return {
+      workflowId: entry.nonLtdAccountsWorkflowId,
+      periodLabel: `Year ended ${formatDate(entry.nonLtdAccountsWorkflow.yearEndDate)}`,
+      dueDate: entry.nonLtdAccountsWorkflow.filingDueDate
+    }
+  }
+  throw new Error(`Time entry ${entry.id} is not linked to a workflow`)
+}
+
+function toEntryRow(entry: EntryWithJob): TimeEntryRow {
+  const job = describeEntryJob(entry)
+  return {
+    id: entry.id,
+    userId: entry.userId,
+    workType: entry.workType as AssignableWorkType,
+    workflowId: job.workflowId,
+    clientId: entry.clientId,
+    clientCode: entry.client.clientCode,
+    companyName: entry.client.companyName,
+    periodLabel: job.periodLabel,
+    startedAt: entry.startedAt.toISOString(),
+    endedAt: entry.endedAt?.toISOString() ?? null,
+    minutes: entry.minutes,
+    description: entry.description,
+    isManual: entry.isManual
+  }
+}
+
+/**
+ * The time entry columns for a workflow - the one matching its work type set, the others null
+ */
+function workflowLink(workType: AssignableWorkType, workflowId: string) {
+  return {
+    vatQuarterId: workType === 'VAT' ? workflowId : null,
+    ltdAccountsWorkflowId: workType === 'LTD_ACCOUNTS' ? workflowId : null,
+    nonLtdAccountsWorkflowId: workType === 'NON_LTD_ACCOUNTS' ? workflowId : null
+  }
+}
+
+/**
+ * The client a workflow belongs to
+ */
+async function findJobClientId({ workType, workflowId }: TimeJobInput): Promise<string> {
+  const select = { clientId: true }
+  const workflow = workType === 'VAT'
+    ? await db.vATQuarter.findUnique({ where: { id: workflowId }, select })
+    : workType === 'LTD_ACCOUNTS'
+      ? await db.ltdAccountsWorkflow.findUnique({ where: { id: workflowId }, select })
+      : await db.nonLtdAccountsWorkflow.findUnique({ where: { id: workflowId }, select })
+
+  if (!workflow) {
+    throw new TimeEntryError('Workflow not found', 404)
+  }
+  return workflow.clientId
+}
+
+/**
+ * The user's running timer, if any
+ */
+export async function getRunningTimer(userId: string): Promise<TimeEntryRow | null> {
+  const entry = await db.timeEntry.findFirst({
+    where: { userId, endedAt: null },
+    include: ENTRY_INCLUDE,
+    orderBy: { startedAt: 'desc' }
+  })
+  return entry ? toEntryRow(entry) : null
+}
+
+/**
+ * Stop the user's running timer
+ * Timers left running longer than MAX_ENTRY_MINUTES are cut back to it.
+ * @returns The finished entry, or null if no timer was running
+ */
+export async function stopTimer(userId: string): Promise<TimeEntryRow | null> {
+  return stopRunningEntry(db, userId)
+}
+
+async function stopRunningEntry(client: Prisma.TransactionClient, userId: string): Promise<TimeEntryRow | null> {
+  const running = await client.timeEntry.findFirst({ where: { userId, endedAt: null } })
+  if (!running) return null
+
+  const minutes = Math.max(entryMinutes(running), 1)
+  // Only stop it if it is still running, so two stops can't both record it
+  const { count } = await client.timeEntry.updateMany({
+    where: { id: running.id, endedAt: null },
+    data: { endedAt: new Date(running.startedAt.getTime() + minutes * 60000), minutes }
+  })
+  if (count === 0) return null
+
+  const entry = await client.timeEntry.findUniqueOrThrow({ where: { id: running.id }, include: ENTRY_INCLUDE })
+  return toEntryRow(entry)
+}
+
+/**
+ * Start timing work on a workflow
+ * Each person has one timer at a time, so any running timer is stopped first. Stopping and
+ * starting happen together, and the database allows only one running entry per person.
+ */
+export async function startTimer(userId: string, job: TimeJobInput, description?: string | null) {
+  const clientId = await findJobClientId(job)
+
+  try {
+    return await db.$transaction(async (tx) => {
+      const stopped = await stopRunningEntry(tx, userId)
+
+      const entry = await tx.timeEntry.create({
+        data: {
+          userId,
+          clientId,
+          workType: job.workType,
+          ...workflowLink(job.workType, job.workflowId),
+          startedAt: new Date(),
+          description: description || null
+        },
+        include: ENTRY_INCLUDE
+      })
+
+      return { entry: toEntryRow(entry), stopped }
+    })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new TimeEntryError('Another timer was started at the same time - refresh and try again', 409)
+    }
+    throw error
+  }
+}
+
+/**
+ * Record time after the event
+ */
+export async function createManualEntry(userId: string, input: ManualTimeInput): Promise<TimeEntryRow> {
+  if (input.minutes < 1 || input.minutes > MAX_ENTRY_MINUTES) {
+    throw new TimeEntryError(`An entry must be between 1 minute and ${MAX_ENTRY_MINUTES / 60} hours`)
+  }
+
+  const startedAt = toLeaveDay(input.date)
+  if (startedAt > toLeaveDay(new Date())) {
+    throw new TimeEntryError("Time can't be recorded for a future date")
+  }
+
+  const clientId = await findJobClientId(input)
+  const entry = await db.timeEntry.create({
+    data: {
+      userId,
+      clientId,
+      workType: input.workType,
+      ...workflowLink(input.workType, input.workflowId),
+      startedAt,
+      endedAt: new Date(startedAt.getTime() + input.minutes * 60000),
+      minutes: input.minutes,
+      description: input.description || null,
+      isManual: true
+    },
+    include: ENTRY_INCLUDE
+  })
+  return toEntryRow(entry)
+}
+
+/**
+ * @param ownerId - Only delete the entry if it belongs to this user; omit to delete anyone's
+ */
+export async function deleteTimeEntry(entryId: string, ownerId?: string): Promise<TimeEntryRow> {
+  const entry = await db.timeEntry.findUnique({ where: { id: entryId }, include: ENTRY_INCLUDE })
+  if (!entry || (ownerId && entry.userId !== ownerId)) {
+    throw new TimeEntryError('Time entry not found', 404)
+  }
+
+  await db.timeEntry.delete({ where: { id: entryId } })
+  return toEntryRow(entry)
+}
+
+/**
+ * A user's time for the week starting weekStart, by job and by day
+ */
+export async function getWeeklyTimesheet(userId: string, weekStart: Date): Promise<WeeklyTimesheet> {
+  const entries = await db.timeEntry.findMany({
+    where: { userId, startedAt: { gte: weekStart, lt: new Date(weekStart.getTime() + 7 * DAY_MS) } },
+    include: ENTRY_INCLUDE,
+    orderBy: { startedAt: 'asc' }
+  })
+
+  const now = new Date()
+  const rows = new Map<string, TimesheetRow>()
+  const totalsByDay = [0, 0, 0, 0, 0, 0, 0]
+  const entryRows = entries.map(toEntryRow)
+
+  for (const entry of entryRows) {
+    const key = `${entry.workType}:${entry.workflowId}`
+    const row = rows.get(key) || {
+      workType: entry.workType,
+      workflowId: entry.workflowId,
+      clientId: entry.clientId,
+      clientCode: entry.clientCode,
+      companyName: entry.companyName,
+      periodLabel: entry.periodLabel,
+      minutesByDay: [0, 0, 0, 0, 0, 0, 0],
+      totalMinutes: 0
+    }
+    const day = weekDayIndex(weekStart, entry.startedAt)
+    const minutes = entryMinutes(entry, now)
+
+    row.minutesByDay[day] = (row.minutesByDay[day] ?? 0) + minutes
+    row.totalMinutes += minutes
+    totalsByDay[day] = (totalsByDay[day] ?? 0) + minutes
+    rows.set(key, row)
+  }
+
+  return {
+    userId,
+    weekStart: weekStart.toISOString(),
+    rows: Array.from(rows.values()).sort((a, b) => a.companyName.localeCompare(b.companyName)),
+    entries: entryRows,
+    totalsByDay,
+    totalMinutes: totalsByDay.reduce((sum, minutes) => sum + minutes, 0)
+  }
+}
+
+/**
+ * Budget against actual time for one VAT quarter or accounts workflow
+ */
+export async function getJobTime(job: TimeJobInput): Promise<JobTime> {
+  const clientId = await findJobClientId(job)
+  const [entries, budget] = await Promise.all([
+    db.timeEntry.findMany({
+      where: workflowLink(job.workType, job.workflowId),
+      include: { ...ENTRY_INCLUDE, user: { select: { id: true, name: true, hourlyCostRate: true } } },
+      orderBy: { startedAt: 'desc' }
+    }),
+    db.clientFeeBudget.findUnique({ where: { clientId_workType: { clientId, workType: job.workType } } })
+  ])
+
+  const now = new Date()
+  const byUser = new Map<string, JobTime['byUser'][number]>()
+  for (const entry of entries) {
+    const minutes = entryMinutes(entry, now)
+    const row = byUser.get(entry.userId) || { userId: entry.userId, name: entry.user.name, minutes: 0, cost: 0 }
+    row.minutes += minutes
+    row.cost += timeCost(minutes, entry.user.hourlyCostRate)
+    byUser.set(entry.userId, row)
+  }
+
+  const users = Array.from(byUser.values()).sort((a, b) => b.minutes - a.minutes)
+  const cost = users.reduce((sum, user) => sum + user.cost, 0)
+  const fee = budget?.fee ?? null
+
+  return {
+    workType: job.workType,
+    workflowId: job.workflowId,
+    fee,
+    budgetMinutes: budget?.budgetMinutes ?? null,
+    actualMinutes: users.reduce((sum, user) => sum + user.minutes, 0),
+    cost,
+    recoverability: fee === null ? null : recoverability(fee, cost),
+    byUser: users,
+    entries: entries.map(entry => ({ ...toEntryRow(entry), userName: entry.user.name }))
+  }
+}
+
+export async function getClientFeeBudgets(clientId: string) {
+  return db.clientFeeBudget.findMany({ where: { clientId }, orderBy: { workType: 'asc' } })
+}
+
+export async function setClientFeeBudgets(clientId: string, budgets: FeeBudgetInput[], updatedByName: string) {
+  const client = await db.client.findUnique({ where: { id: clientId }, select: { id: true } })
+  if (!client) {
+    throw new TimeEntryError('Client not found', 404)
+  }
+
+  await db.$transaction(
+    budgets.map(({ workType, fee, budgetMinutes }) => fee !== null
+      ? db.clientFeeBudget.upsert({
+          where: { clientId_workType: { clientId, workType } },
+          create: { clientId, workType, fee, budgetMinutes: budgetMinutes ?? null, updatedByName },
+          update: { fee, budgetMinutes: budgetMinutes ?? null, updatedByName }
+        })
+      : db.clientFeeBudget.deleteMany({ where: { clientId, workType } })
+    )
+  )
+
+  return getClientFeeBudgets(clientId)
+}
+
+export async function setHourlyCostRate(userId: string, hourlyCostRate: number | null) {
+  const user = await db.user.findUnique({ where: { id: userId }, select: { id: true } })
+  if (!user) {
+    throw new TimeEntryError('User not found', 404)
+  }
+
+  return db.user.update({
+    where: { id: userId },
+    data: { hourlyCostRate },
+    select: { id: true, name: true, hourlyCostRate: true }
+  })
+}
+
+interface Totals extends RecoverabilityTotals {
+  // Cost of the jobs that have a fee, which recoverability is measured against
+  budgetedCost: number
+}
+
+const emptyTotals = (): Totals => ({ jobs: 0, minutes: 0, cost: 0, fee: 0, budgetedCost: 0, recoverability: null })
+
+function finishTotals<T extends Totals>({ budgetedCost, ...totals }: T): Omit<T, 'budgetedCost'> {
+  return { ...totals, recoverability: recoverability(totals.fee, budgetedCost) }
+}
+
+/**
+ * Time cost against fee for jobs due between two dates, per job, client and staff member
+ * A job counts all the time recorded on it, whenever it was recorded. Recoverability only
+ * compares jobs that have a fee budget; the rest are counted as unbudgeted.
+ */
+export async function getRecoverabilityReport(from: Date, to: Date): Promise<RecoverabilityReport> {
+  const due = { gte: from, lte: to }
+  const entries = await db.timeEntry.findMany({
+    where: {
+      endedAt: { not: null },
+      OR: [
+        { vatQuarter: { filingDueDate: due } },
+        { ltdAccountsWorkflow: { accountsDueDate: due } },
+        { nonLtdAccountsWorkflow: { filingDueDate: due } }
+      ]
+    },
+    include: { ...ENTRY_INCLUDE, user: { select: { id: true, name: true, hourlyCostRate: true } } }
+  })
+
+  const clientIds = Array.from(new Set(entries.map(entry => entry.clientId)))
+  const budgets = await db.clientFeeBudget.findMany({ where: { clientId: { in: clientIds } } })
+  const budgetFor = (clientId: string, workType: string) =>
+    budgets.find(budget => budget.clientId === clientId && budget.workType === workType)
+
+  // Minutes and cost per job, and per person within each job
+  const jobs = new Map<string, RecoverabilityJob & { byUser: Map<string, { minutes: number; cost: number }> }>()
+  const people = new Map<string, { name: string; hourlyCostRate: number | null }>()
+
+  for (const entry of entries) {
+    const job = describeEntryJob(entry)
+    const key = `${entry.workType}:${job.workflowId}`
+    const minutes = entry.minutes ?? 0
+    const cost = timeCost(minutes, entry.user.hourlyCostRate)
+    const budget = budgetFor(entry.clientId, entry.workType)
+
+    const row = jobs.get(key) || {
+      workType: entry.workType as AssignableWorkType,
+      workflowId: job.workflowId,
+      clientId: entry.clientId,
+      clientCode: entry.client.clientCode,
+      companyName: entry.client.companyName,
+      periodLabel: job.periodLabel,
+      dueDate: job.dueDate.toISOString(),
+      minutes: 0,
+      cost: 0,
+      fee: budget?.fee ?? null,
+      budgetMinutes: budget?.budgetMinutes ?? null,
+      recoverability: null,
+      byUser: new Map()
+    }
+    row.minutes += minutes
+    row.cost += cost
+
+    const person = row.byUser.get(entry.userId) || { minutes: 0, cost: 0 }
+    person.minutes += minutes
+    person.cost += cost
+    row.byUser.set(entry.userId, person)
+
+    jobs.set(key, row)
+    people.set(entry.userId, { name: entry.user.name, hourlyCostRate: entry.user.hourlyCostRate })
+  }
+
+  const totals = emptyTotals()
+  const clients = new Map<string, Totals & { clientId: string; clientCode: string; companyName: string; unbudgetedJobs: number }>()
+  const staff = new Map<string, Totals & { userId: string; name: string; hourlyCostRate: number | null }>()
+
+  for (const job of jobs.values()) {
+    job.recoverability = job.fee === null ? null : recoverability(job.fee, job.cost)
+
+    const client = clients.get(job.clientId) || {
+      ...emptyTotals(),
+      clientId: job.clientId,
+      clientCode: job.clientCode,
+      companyName: job.companyName,
+      unbudgetedJobs: 0
+    }
+
+    for (const row of [totals, client]) {
+      row.jobs++
+      row.minutes += job.minutes
+      row.cost += job.cost
+      if (job.fee !== null) {
+        row.fee += job.fee
+        row.budgetedCost += job.cost
+      }
+    }
+    if (job.fee === null) client.unbudgetedJobs++
+    clients.set(job.clientId, client)
+
+    for (const [userId, time] of job.byUser) {
+      const person = people.get(userId)!
+      const member = staff.get(userId) || { ...emptyTotals(), userId, ...person }
+      member.jobs++
+      member.minutes += time.minutes
+      member.cost += time.cost
+      if (job.fee !== null && job.minutes > 0) {
+        member.fee += job.fee * (time.minutes / job.minutes)
+        member.budgetedCost += time.cost
+      }
+      staff.set(userId, member)
+    }
+  }
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    totals: finishTotals(totals),
+    jobs: Array.from(jobs.values())
+      .map(({ byUser, ...job }) => job)
+      .sort((a, b) => a.dueDate.localeCompare(b.dueDate)),
+    clients: Array.from(clients.values()).map(finishTotals).sort((a, b) => a.companyName.localeCompare(b.companyName)),
+    staff: Array.from(staff.values()).map(finishTotals).sort((a, b) => a.name.localeCompare(b.name))
+  }
+}
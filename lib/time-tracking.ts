@@ -0,0 +1,175 @@
+/**
+ * Time Tracking Client-Safe Utilities
+ *
+ * Staff record time against a VAT quarter or an accounts workflow, either with a running timer
+ * or as a manual entry. Each client can have a fee budget per work type (per quarter for VAT, per
+ * year for accounts), so time spent on a job can be compared with what the client pays for it.
+ * Recoverability is the fee as a percentage of the time cost - under 100% means the job cost
+ * more staff time than it earned.
+ */
+
+import type { AssignableWorkType } from '@/lib/assignment-engine'
+
+// Longest a single entry can be - a timer left running overnight is cut back to this
+export const MAX_ENTRY_MINUTES = 12 * 60
+
+// At or above this the job paid for itself; below the warning level it is flagged
+export const RECOVERABILITY_TARGET = 100
+export const RECOVERABILITY_WARNING = 80
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface TimeEntryRow {
+  id: string
+  userId: string
+  workType: AssignableWorkType
+  workflowId: string
+  clientId: string
+  clientCode: string
+  companyName: string
+  periodLabel: string
+  startedAt: string
+  endedAt: string | null
+  // Null while the timer is running
+  minutes: number | null
+  description: string | null
+  isManual: boolean
+}
+
+export interface TimesheetRow {
+  workType: AssignableWorkType
+  workflowId: string
+  clientId: string
+  clientCode: string
+  companyName: string
+  periodLabel: string
+  // Monday first
+  minutesByDay: number[]
+  totalMinutes: number
+}
+
+export interface WeeklyTimesheet {
+  userId: string
+  weekStart: string
+  rows: TimesheetRow[]
+  entries: TimeEntryRow[]
+  totalsByDay: number[]
+  totalMinutes: number
+}
+
+export interface JobTime {
+  workType: AssignableWorkType
+  workflowId: string
+  fee: number | null
+  budgetMinutes: number | null
+  actualMinutes: number
+  cost: number
+  recoverability: number | null
+  byUser: Array<{ userId: string; name: string; minutes: number; cost: number }>
+  entries: Array<TimeEntryRow & { userName: string }>
+}
+
+export interface RecoverabilityJob {
+  workType: AssignableWorkType
+  workflowId: string
+  clientId: string
+  clientCode: string
+  companyName: string
+  periodLabel: string
+  dueDate: string
+  minutes: number
+  cost: number
+  // Null when the client has no fee budget for this work type
+  fee: number | null
+  budgetMinutes: number | null
+  recoverability: number | null
+}
+
+export interface RecoverabilityTotals {
+  jobs: number
+  minutes: number
+  cost: number
+  fee: number
+  // Measured over the jobs that have a fee budget
+  recoverability: number | null
+}
+
+export interface RecoverabilityReport {
+  from: string
+  to: string
+  totals: RecoverabilityTotals
+  jobs: RecoverabilityJob[]
+  clients: Array<RecoverabilityTotals & { clientId: string; clientCode: string; companyName: string; unbudgetedJobs: number }>
+  // A person's fee is their share of each job's fee, in proportion to their time on it
+  staff: Array<RecoverabilityTotals & { userId: string; name: string; hourlyCostRate: number | null }>
+}
+
+/**
+ * e.g. "45m", "2h 05m"
+ */
+export function formatMinutes(minutes: number): string {
+  const rounded = Math.round(minutes)
+  const hours = Math.floor(rounded / 60)
+  const remainder = rounded % 60
+  if (hours === 0) return `${remainder}m`
+  return `${hours}h ${remainder.toString().padStart(2, '0')}m`
+}
+
+export function formatMoney(amount: number): string {
+  return new Intl.NumberFormat('en-GB', { style: 'currency', currency: 'GBP' }).format(amount)
+}
+
+/**
+ * Minutes on an entry; a running timer counts up to now
+ */
+export function entryMinutes(entry: { startedAt: Date | string; minutes: number | null }, now: Date = new Date()): number {
+  if (entry.minutes !== null) return entry.minutes
+  const elapsed = Math.round((now.getTime() - new Date(entry.startedAt).getTime()) / 60000)
+  return Math.min(Math.max(elapsed, 0), MAX_ENTRY_MINUTES)
+}
+
+/**
+ * Cost of time at an hourly rate
+ */
+export function timeCost(minutes: number, hourlyCostRate: number | null | undefined): number {
+  return hourlyCostRate ? (minutes / 60) * hourlyCostRate : 0
+}
+
+/**
+ * Fee as a percentage of cost, or null when there is no cost to compare against
+ */
+export function recoverability(fee: number, cost: number): number | null {
+  if (cost <= 0) return null
+  return Math.round((fee / cost) * 100)
+}
+
+export function recoverabilityClass(percent: number | null): string {
+  if (percent === null) return 'text-muted-foreground'
+  if (percent >= RECOVERABILITY_TARGET) return 'text-green-600'
+  if (percent >= RECOVERABILITY_WARNING) return 'text-amber-600'
+  return 'text-red-600'
+}
+
+/**
+ * Monday at midnight UTC of the week a date falls in
+ */
+export function getWeekStart(date: Date | string): Date {
+  const value = new Date(date)
+  const day = new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()))
+  const daysSinceMonday = (day.getUTCDay() + 6) % 7
+  return new Date(day.getTime() - daysSinceMonday * DAY_MS)
+}
+
+/**
+ * The seven days of a week, Monday first
+ */
+export function getWeekDays(weekStart: Date): Date[] {
+  return Array.from({ length: 7 }, (_, index) => new Date(weekStart.getTime() + index * DAY_MS))
+}
+
+/**
+ * Index of an entry's day within its week, Monday = 0
+ */
+export function weekDayIndex(weekStart: Date, date: Date | string): number {
+  return Math.floor((new Date(date).getTime() - weekStart.getTime()) / DAY_MS)
+}
@@ -60,6 +60,19 @@ export const showToast = {
     })
   },
 
+  warning: (message: string, options?: any) => {
+    if (!shouldShowToast(message)) return
+    
+    if (DEBUG_TOASTS) {
+      console.log('🟠 Toast Warning:', message)
+    }
+    return toast(message, {
+      duration: 6000,
+      icon: '⚠️',
+      ...options,
+    })
+  },
+
   loading: (message: string, options?: any) => {
     if (DEBUG_TOASTS) {
       console.log('⏳ Toast Loading:', message)
@@ -0,0 +1,359 @@
+/**
+ * VAT Obligations Reconciliation Server-Side Utilities
+ *
+ * Runs the HMRC obligations comparison for every VAT client with a VRN and keeps one issue row per
+ * problem, so repeated runs refresh existing issues instead of piling up duplicates. Issues that stop
+ * being detected are resolved automatically; dismissed issues stay dismissed.
+ */
+
+import { db } from '@/lib/db'
+import { getVATObligations, normaliseVRN } from '@/lib/hmrc-api'
+import { getVATAccessToken } from '@/lib/hmrc-vat-service'
+import {
+  detectVATReconciliationIssues,
+  getQuarterInfoForPeriod,
+  VAT_RECONCILIATION_ISSUE_CONFIG,
+  type VATReconciliationIssueTypeValue
+} from '@/lib/vat-reconciliation'
+
+const LAST_RUN_SETTING = 'vat_reconciliation_last_run'
+
+// HMRC rejects obligation date ranges longer than 366 days
+const RECONCILIATION_WINDOW_DAYS = 365
+
+export interface VATReconciliationRunSummary {
+  ranAt: string
+  ranBy: string
+  clientsChecked: number
+  newIssues: number
+  openIssues: number
+  autoResolved: number
+  errors: Array<{ clientId: string; companyName: string; error: string }>
+}
+
+interface ReconciliationUser {
+  id: string
+  name: string
+  email: string
+  role: string
+}
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10)
+
+function getLondonToday(): string {
+  return new Date().toLocaleDateString('en-CA', { timeZone: 'Europe/London' })
+}
+
+export async function getLastReconciliationRun(): Promise<VATReconciliationRunSummary | null> {
+  const setting = await db.settings.findUnique({ where: { key: LAST_RUN_SETTING } })
+  if (!setting) return null
+
+  try {
+    return JSON.parse(setting.value) as VATReconciliationRunSummary
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Reconcile one client's quarters against HMRC and store the issues found
+ * @returns Counts of issues created and auto-resolved, and issues currently open
+ */
+async function reconcileClient(
+  client: { id: string; vatNumber: string },
+  accessToken: string,
+  fraudPreventionHeaders: Record<string, string>
+): Promise<{ newIssues: number; openIssues: number; autoResolved: number }> {
+  const today = getLondonToday()
+  const from = new Date(`${today}T00:00:00Z`)
+  from.setUTCDate(from.getUTCDate() - RECONCILIATION_WINDOW_DAYS)
+
+  const vrn = normaliseVRN(client.vatNumber)
+  const obligations = await getVATObligations(
+    vrn,
+    accessToken,
+    { from: toDateString(from), to: today },
+    fraudPreventionHeaders
+  )
+
+  // Include quarters that started before the window so overlaps at its edge are still matched
+  const quarterCutoff = new Date(from)
+  quarterCutoff.setUTCMonth(quarterCutoff.getUTCMonth() - 3)
+  const quarters = await db.vATQuarter.findMany({
+    where: {
+      clientId: client.id,
+      quarterEndDate: { gte: quarterCutoff }
+    },
+    select: { id: true, quarterPeriod: true, isCompleted: true }
+  })
+
+  const detected = detectVATReconciliationIssues(obligations, quarters, today)
+  const now = new Date()
+  let newIssues = 0
+
+  for (const issue of detected) {
+    const existing = await db.vATReconciliationIssue.findUnique({
+      where: { clientId_fingerprint: { clientId: client.id, fingerprint: issue.fingerprint } }
+    })
+
+    if (!existing) {
+      await db.vATReconciliationIssue.create({
+        data: { ...issue, clientId: client.id, vrn, detectedAt: now, lastSeenAt: now }
+      })
+      newIssues++
+      continue
+    }
+
+    await db.vATReconciliationIssue.update({
+      where: { id: existing.id },
+      data: {
+        ...issue,
+        vrn,
+        lastSeenAt: now,
+        // A resolved issue that comes back means the correction didn't stick
+        ...(existing.status === 'RESOLVED' ? {
+          status: 'OPEN' as const,
+          resolvedAt: null,
+          resolvedByUserId: null,
+          resolvedByUserName: null,
+          resolution: null
+        } : {})
+      }
+    })
+  }
+
+  const autoResolved = await db.vATReconciliationIssue.updateMany({
+    where: {
+      clientId: client.id,
+      status: 'OPEN',
+      fingerprint: { notIn: detected.map(issue => issue.fingerprint) }
+    },
+    data: {
+      status: 'RESOLVED',
+      resolvedAt: now,
+      resolution: 'No longer detected by reconciliation'
+    }
+  })
+
+  const openIssues = await db.vATReconciliationIssue.count({
+    where: { clientId: client.id, status: 'OPEN' }
+  })
+
+  return { newIssues, openIssues, autoResolved: autoResolved.count }
+}
+
+/**
+ * Reconcile every active VAT client that has a VRN, or just the given clients
+ * @throws When HMRC is not connected
+ */
+export async function runVATReconciliation(options: {
+  ranBy: string
+  fraudPreventionHeaders: Record<string, string>
+  clientIds?: string[]
+}): Promise<VATReconciliationRunSummary> {
+  const accessToken = await getVATAccessToken()
+
+  const clients = await db.client.findMany({
+    where: {
+      isActive: true,
+      isVatEnabled: true,
+      vatNumber: { not: null },
+      ...(options.clientIds ? { id: { in: options.clientIds } } : {})
+    },
+    select: { id: true, companyName: true, vatNumber: true }
+  })
+
+  const summary: VATReconciliationRunSummary = {
+    ranAt: new Date().toISOString(),
+    ranBy: options.ranBy,
+    clientsChecked: 0,
+    newIssues: 0,
+    openIssues: 0,
+    autoResolved: 0,
+    errors: []
+  }
+
+  for (const client of clients) {
+    if (!client.vatNumber) continue
+
+    try {
+      const result = await reconcileClient(
+        { id: client.id, vatNumber: client.vatNumber },
+        accessToken,
+        options.fraudPreventionHeaders
+      )
+      summary.clientsChecked++
+      summary.newIssues += result.newIssues
+      summary.openIssues += result.openIssues
+      summary.autoResolved += result.autoResolved
+    } catch (error) {
+      console.error(`❌ VAT reconciliation failed for ${client.companyName}:`, error)
+      summary.errors.push({
+        clientId: client.id,
+        companyName: client.companyName,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      })
+    }
+  }
+
+  // Only a full run is recorded as the last run shown on the report
+  if (!options.clientIds) {
+    await db.settings.upsert({
+      where: { key: LAST_RUN_SETTING },
+      create: { key: LAST_RUN_SETTING, value: JSON.stringify(summary) },
+      update: { value: JSON.stringify(summary) }
+    })
+  }
+
+  return summary
+}
+
+/**
+ * Apply the one-click correction for an open issue and mark it resolved
+ * @returns Description of what was changed, for the activity log
+ * @throws When the issue is not open or the correction would clash with an existing quarter
+ */
+export async function applyVATReconciliationFix(
+  issueId: string,
+  user: ReconciliationUser
+): Promise<{ issueType: VATReconciliationIssueTypeValue; clientId: string; resolution: string }> {
+  const issue = await db.vATReconciliationIssue.findUnique({
+    where: { id: issueId },
+    include: {
+      client: { select: { id: true, vatQuarterGroup: true } },
+      vatQuarter: true
+    }
+  })
+
+  if (!issue) {
+    throw new Error('Reconciliation issue not found')
+  }
+
+  if (issue.status !== 'OPEN') {
+    throw new Error('Only open issues can be corrected')
+  }
+
+  const now = new Date()
+  const hmrcPeriod = `${issue.hmrcPeriodStart}_to_${issue.hmrcPeriodEnd}`
+  const quarterGroup = issue.suggestedQuarterGroup || issue.vatQuarter?.quarterGroup || issue.client.vatQuarterGroup
+  const filedDate = issue.hmrcReceivedDate ? new Date(`${issue.hmrcReceivedDate}T00:00:00Z`) : now
+  const historyBase = {
+    stageChangedAt: now,
+    userId: user.id,
+    userName: user.name,
+    userEmail: user.email,
+    userRole: user.role
+  }
+  const filedFields = {
+    currentStage: 'FILED_TO_HMRC' as const,
+    isCompleted: true,
+    filedToHMRCDate: filedDate,
+    filedToHMRCByUserId: user.id,
+    filedToHMRCByUserName: user.name
+  }
+
+  if (!quarterGroup) {
+    throw new Error('The client has no VAT quarter group set')
+  }
+
+  let resolution = ''
+
+  await db.$transaction(async (tx) => {
+    switch (issue.issueType) {
+      case 'FULFILLED_BUT_OPEN': {
+        if (!issue.vatQuarter) {
+          throw new Error('The quarter for this issue no longer exists')
+        }
+
+        await tx.vATQuarter.update({
+          where: { id: issue.vatQuarter.id },
+          data: filedFields
+        })
+        await tx.vATWorkflowHistory.create({
+          data: {
+            ...historyBase,
+            vatQuarterId: issue.vatQuarter.id,
+            fromStage: issue.vatQuarter.currentStage,
+            toStage: 'FILED_TO_HMRC',
+            notes: `Marked as filed from HMRC obligations reconciliation (received ${issue.hmrcReceivedDate || 'date not given'})`
+          }
+        })
+        resolution = `Quarter marked as filed to HMRC`
+        break
+      }
+
+      case 'PERIOD_MISMATCH': {
+        if (!issue.vatQuarter) {
+          throw new Error('The quarter for this issue no longer exists')
+        }
+
+        const clash = await tx.vATQuarter.findFirst({
+          where: { clientId: issue.clientId, quarterPeriod: hmrcPeriod, id: { not: issue.vatQuarter.id } }
+        })
+        if (clash) {
+          throw new Error('Another quarter already covers HMRC\'s period')
+        }
+
+        await tx.vATQuarter.update({
+          where: { id: issue.vatQuarter.id },
+          data: getQuarterInfoForPeriod(issue.hmrcPeriodStart, issue.hmrcPeriodEnd, quarterGroup)
+        })
+        resolution = `Quarter ${issue.vatQuarter.quarterPeriod} changed to ${hmrcPeriod}`
+        break
+      }
+
+      case 'MISSING_QUARTER': {
+        const existing = await tx.vATQuarter.findFirst({
+          where: { clientId: issue.clientId, quarterPeriod: hmrcPeriod }
+        })
+        if (existing) {
+          throw new Error('A quarter for HMRC\'s period already exists')
+        }
+
+        const isFulfilled = issue.hmrcStatus === 'F'
+        const quarter = await tx.vATQuarter.create({
+          data: {
+            ...getQuarterInfoForPeriod(issue.hmrcPeriodStart, issue.hmrcPeriodEnd, quarterGroup),
+            clientId: issue.clientId,
+            ...(isFulfilled ? filedFields : { currentStage: 'PAPERWORK_PENDING_CHASE' as const, isCompleted: false })
+          }
+        })
+        await tx.vATWorkflowHistory.create({
+          data: {
+            ...historyBase,
+            vatQuarterId: quarter.id,
+            fromStage: null,
+            toStage: quarter.currentStage,
+            notes: 'Quarter created from HMRC obligations reconciliation'
+          }
+        })
+        resolution = `Quarter ${hmrcPeriod} created${isFulfilled ? ' as filed' : ''}`
+        break
+      }
+    }
+
+    // A mis-set quarter group is the usual cause, so correct it at the source too
+    if (issue.issueType !== 'FULFILLED_BUT_OPEN'
+      && issue.suggestedQuarterGroup
+      && issue.suggestedQuarterGroup !== issue.client.vatQuarterGroup) {
+      await tx.client.update({
+        where: { id: issue.clientId },
+        data: { vatQuarterGroup: issue.suggestedQuarterGroup }
+      })
+      resolution += `; quarter group changed from ${issue.client.vatQuarterGroup || 'none'} to ${issue.suggestedQuarterGroup}`
+    }
+
+    await tx.vATReconciliationIssue.update({
+      where: { id: issue.id },
+      data: {
+        status: 'RESOLVED',
+        resolvedAt: now,
+        resolvedByUserId: user.id,
+        resolvedByUserName: user.name,
+        resolution: `${VAT_RECONCILIATION_ISSUE_CONFIG[issue.issueType].fixLabel}: ${resolution}`
+      }
+    })
+  })
+
+  return { issueType: issue.issueType, clientId: issue.clientId, resolution }
+}
@@ -0,0 +1,177 @@
+/**
+ * VAT Obligations Reconciliation Client-Safe Utilities
+ *
+ * Our VAT quarters are generated from Client.vatQuarterGroup alone, so a mis-set quarter group
+ * silently produces the wrong periods. Reconciliation compares HMRC's obligation periods for each VRN
+ * with our quarters and reports where they disagree, with a one-click correction for each issue.
+ */
+
+import type { VATObligation } from '@/lib/hmrc-api'
+import type { VATQuarterInfo } from '@/lib/vat-workflow'
+
+export const VAT_RECONCILIATION_ISSUE_TYPES = ['PERIOD_MISMATCH', 'MISSING_QUARTER', 'FULFILLED_BUT_OPEN'] as const
+
+export type VATReconciliationIssueTypeValue = typeof VAT_RECONCILIATION_ISSUE_TYPES[number]
+
+export const VAT_RECONCILIATION_ISSUE_CONFIG: Record<VATReconciliationIssueTypeValue, {
+  label: string
+  description: string
+  fixLabel: string
+  fixDescription: string
+  color: string
+}> = {
+  PERIOD_MISMATCH: {
+    label: 'Period mismatch',
+    description: 'HMRC\'s period overlaps one of our quarters but the dates differ',
+    fixLabel: 'Align to HMRC',
+    fixDescription: 'Change our quarter\'s dates to HMRC\'s period and update the client\'s quarter group to match',
+    color: 'bg-amber-100 text-amber-800'
+  },
+  MISSING_QUARTER: {
+    label: 'Missing quarter',
+    description: 'HMRC has an obligation for a period we have no quarter for',
+    fixLabel: 'Create quarter',
+    fixDescription: 'Create the quarter for HMRC\'s period, already filed if HMRC shows it as fulfilled',
+    color: 'bg-red-100 text-red-800'
+  },
+  FULFILLED_BUT_OPEN: {
+    label: 'Filed at HMRC',
+    description: 'HMRC shows the return as received but our quarter is still open',
+    fixLabel: 'Mark as filed',
+    fixDescription: 'Move the quarter to Filed to HMRC using HMRC\'s received date',
+    color: 'bg-blue-100 text-blue-800'
+  }
+}
+
+export const VAT_RECONCILIATION_STATUSES = ['OPEN', 'RESOLVED', 'DISMISSED'] as const
+
+export type VATReconciliationStatusValue = typeof VAT_RECONCILIATION_STATUSES[number]
+
+export const VAT_RECONCILIATION_STATUS_CONFIG: Record<VATReconciliationStatusValue, { label: string; color: string }> = {
+  OPEN: { label: 'Open', color: 'bg-red-100 text-red-800' },
+  RESOLVED: { label: 'Resolved', color: 'bg-green-100 text-green-800' },
+  DISMISSED: { label: 'Dismissed', color: 'bg-gray-100 text-gray-800' }
+}
+
+export interface DetectedVATReconciliationIssue {
+  issueType: VATReconciliationIssueTypeValue
+  fingerprint: string
+  vatQuarterId: string | null
+  quarterPeriod: string | null
+  periodKey: string
+  hmrcPeriodStart: string
+  hmrcPeriodEnd: string
+  hmrcDueDate: string
+  hmrcStatus: string
+  hmrcReceivedDate: string | null
+  suggestedQuarterGroup: string | null
+}
+
+export function isVATReconciliationIssueType(value: string): value is VATReconciliationIssueTypeValue {
+  return (VAT_RECONCILIATION_ISSUE_TYPES as readonly string[]).includes(value)
+}
+
+export function isVATReconciliationStatus(value: string): value is VATReconciliationStatusValue {
+  return (VAT_RECONCILIATION_STATUSES as readonly string[]).includes(value)
+}
+
+/**
+ * Quarter group implied by an HMRC period
+ * @returns null when the period is not a standard calendar quarter (monthly, annual or non-standard stagger)
+ */
+export function getQuarterGroupForPeriod(start: string, end: string): string | null {
+  const startDate = new Date(`${start}T00:00:00Z`)
+  const endDate = new Date(`${end}T00:00:00Z`)
+  const dayAfterEnd = new Date(endDate)
+  dayAfterEnd.setUTCDate(dayAfterEnd.getUTCDate() + 1)
+
+  const months = (endDate.getUTCFullYear() - startDate.getUTCFullYear()) * 12
+    + endDate.getUTCMonth() - startDate.getUTCMonth()
+
+  if (startDate.getUTCDate() !== 1 || dayAfterEnd.getUTCDate() !== 1 || months !== 2) {
+    return null
+  }
+
+  switch ((endDate.getUTCMonth() + 1) % 3) {
+    case 1: return '1_4_7_10'
+    case 2: return '2_5_8_11'
+    default: return '3_6_9_12'
+  }
+}
+
+/**
+ * Quarter dates for an HMRC period, using the same UTC-midnight convention as calculateVATQuarter
+ * The filing due date follows our rule (last day of the month after the period ends), not HMRC's due date
+ */
+export function getQuarterInfoForPeriod(start: string, end: string, quarterGroup: string): VATQuarterInfo {
+  const quarterStartDate = new Date(`${start}T00:00:00Z`)
+  const quarterEndDate = new Date(`${end}T00:00:00Z`)
+  const filingDueDate = new Date(Date.UTC(quarterEndDate.getUTCFullYear(), quarterEndDate.getUTCMonth() + 2, 0))
+
+  return {
+    quarterPeriod: `${start}_to_${end}`,
+    quarterStartDate,
+    quarterEndDate,
+    filingDueDate,
+    quarterGroup
+  }
+}
+
+/**
+ * Compare HMRC obligations with our quarters for one client
+ * Open obligations are only compared once their period has ended, because we don't create quarters before then
+ * @param today - London date as YYYY-MM-DD
+ */
+export function detectVATReconciliationIssues(
+  obligations: VATObligation[],
+  quarters: Array<{ id: string; quarterPeriod: string; isCompleted: boolean }>,
+  today: string
+): DetectedVATReconciliationIssue[] {
+  const issues: DetectedVATReconciliationIssue[] = []
+
+  obligations.forEach(obligation => {
+    if (obligation.status === 'O' && obligation.end >= today) {
+      return
+    }
+
+    const hmrcPeriod = `${obligation.start}_to_${obligation.end}`
+    const base = {
+      periodKey: obligation.periodKey,
+      hmrcPeriodStart: obligation.start,
+      hmrcPeriodEnd: obligation.end,
+      hmrcDueDate: obligation.due,
+      hmrcStatus: obligation.status,
+      hmrcReceivedDate: obligation.received || null,
+      suggestedQuarterGroup: getQuarterGroupForPeriod(obligation.start, obligation.end)
+    }
+
+    const exactQuarter = quarters.find(quarter => quarter.quarterPeriod === hmrcPeriod)
+    if (exactQuarter) {
+      if (obligation.status === 'F' && !exactQuarter.isCompleted) {
+        issues.push({
+          ...base,
+          issueType: 'FULFILLED_BUT_OPEN',
+          fingerprint: `FULFILLED_BUT_OPEN:${hmrcPeriod}`,
+          vatQuarterId: exactQuarter.id,
+          quarterPeriod: exactQuarter.quarterPeriod
+        })
+      }
+      return
+    }
+
+    const overlappingQuarter = quarters.find(quarter => {
+      const [start, end] = quarter.quarterPeriod.split('_to_')
+      return !!start && !!end && start <= obligation.end && end >= obligation.start
+    })
+
+    issues.push({
+      ...base,
+      issueType: overlappingQuarter ? 'PERIOD_MISMATCH' : 'MISSING_QUARTER',
+      fingerprint: `${overlappingQuarter ? 'PERIOD_MISMATCH' : 'MISSING_QUARTER'}:${hmrcPeriod}`,
+      vatQuarterId: overlappingQuarter?.id || null,
+      quarterPeriod: overlappingQuarter?.quarterPeriod || null
+    })
+  })
+
+  return issues
+}
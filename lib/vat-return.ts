@@ -0,0 +1,132 @@
+/**
+ * MTD VAT Return Client-Safe Utilities
+ *
+ * The nine-box VAT return prepared against a VAT quarter and submitted to HMRC through Making Tax Digital.
+ * Box 3 (total VAT due) and box 5 (net VAT) are always derived from the other boxes so they
+ * can never disagree with what HMRC recalculates on receipt.
+ */
+
+// SUBMITTING while a submission is with HMRC, so a second one can't be sent alongside it
+export const VAT_RETURN_STATUSES = ['DRAFT', 'SUBMITTING', 'SUBMITTED', 'FAILED'] as const
+
+export type VATReturnStatusValue = typeof VAT_RETURN_STATUSES[number]
+
+export const VAT_RETURN_STATUS_CONFIG: Record<VATReturnStatusValue, { label: string; color: string }> = {
+  DRAFT: { label: 'Draft', color: 'bg-gray-100 text-gray-800' },
+  SUBMITTING: { label: 'Submitting', color: 'bg-blue-100 text-blue-800' },
+  SUBMITTED: { label: 'Submitted to HMRC', color: 'bg-green-100 text-green-800' },
+  FAILED: { label: 'Submission failed', color: 'bg-red-100 text-red-800' }
+}
+
+// The workflow stage a quarter must be at before its return can go to HMRC
+export const VAT_RETURN_SUBMIT_STAGE = 'CLIENT_APPROVED'
+
+export interface VATReturnBoxes {
+  vatDueSales: number
+  vatDueAcquisitions: number
+  totalVatDue: number
+  vatReclaimedCurrPeriod: number
+  netVatDue: number
+  totalValueSalesExVAT: number
+  totalValuePurchasesExVAT: number
+  totalValueGoodsSuppliedExVAT: number
+  totalAcquisitionsExVAT: number
+}
+
+export type VATReturnBoxField = keyof VATReturnBoxes
+
+export const VAT_RETURN_BOXES: Array<{
+  field: VATReturnBoxField
+  box: number
+  label: string
+  wholePounds: boolean
+  calculated: boolean
+}> = [
+  { field: 'vatDueSales', box: 1, label: 'VAT due on sales and other outputs', wholePounds: false, calculated: false },
+  { field: 'vatDueAcquisitions', box: 2, label: 'VAT due on acquisitions from EU member states', wholePounds: false, calculated: false },
+  { field: 'totalVatDue', box: 3, label: 'Total VAT due (box 1 + box 2)', wholePounds: false, calculated: true },
+  { field: 'vatReclaimedCurrPeriod', box: 4, label: 'VAT reclaimed on purchases and other inputs', wholePounds: false, calculated: false },
+  { field: 'netVatDue', box: 5, label: 'Net VAT to pay to HMRC or reclaim (difference between box 3 and box 4)', wholePounds: false, calculated: true },
+  { field: 'totalValueSalesExVAT', box: 6, label: 'Total value of sales and all other outputs excluding VAT', wholePounds: true, calculated: false },
+  { field: 'totalValuePurchasesExVAT', box: 7, label: 'Total value of purchases and all other inputs excluding VAT', wholePounds: true, calculated: false },
+  { field: 'totalValueGoodsSuppliedExVAT', box: 8, label: 'Total value of supplies of goods to EU member states excluding VAT', wholePounds: true, calculated: false },
+  { field: 'totalAcquisitionsExVAT', box: 9, label: 'Total value of acquisitions of goods from EU member states excluding VAT', wholePounds: true, calculated: false }
+]
+
+// HMRC field limits: boxes 1, 2 and 4 allow negatives; box 5 is never negative
+const MAX_MONETARY = 9999999999999.99
+const MAX_NET_VAT = 99999999999.99
+const MAX_WHOLE_POUNDS = 9999999999999
+
+export function isVATReturnStatus(value: string): value is VATReturnStatusValue {
+  return (VAT_RETURN_STATUSES as readonly string[]).includes(value)
+}
+
+const roundToPence = (amount: number) => Math.round(amount * 100) / 100
+
+/**
+ * Fill in box 3 and box 5 from the entered boxes
+ */
+export function calculateVATReturnTotals(
+  boxes: Omit<VATReturnBoxes, 'totalVatDue' | 'netVatDue'> & Partial<Pick<VATReturnBoxes, 'totalVatDue' | 'netVatDue'>>
+): VATReturnBoxes {
+  const totalVatDue = roundToPence(boxes.vatDueSales + boxes.vatDueAcquisitions)
+
+  return {
+    vatDueSales: roundToPence(boxes.vatDueSales),
+    vatDueAcquisitions: roundToPence(boxes.vatDueAcquisitions),
+    totalVatDue,
+    vatReclaimedCurrPeriod: roundToPence(boxes.vatReclaimedCurrPeriod),
+    netVatDue: roundToPence(Math.abs(totalVatDue - boxes.vatReclaimedCurrPeriod)),
+    totalValueSalesExVAT: boxes.totalValueSalesExVAT,
+    totalValuePurchasesExVAT: boxes.totalValuePurchasesExVAT,
+    totalValueGoodsSuppliedExVAT: boxes.totalValueGoodsSuppliedExVAT,
+    totalAcquisitionsExVAT: boxes.totalAcquisitionsExVAT
+  }
+}
+
+/**
+ * Check a return against HMRC's field rules before it is sent
+ * @returns Problems found, empty when the return can be submitted
+ */
+export function validateVATReturnBoxes(boxes: VATReturnBoxes): string[] {
+  const errors: string[] = []
+
+  VAT_RETURN_BOXES.forEach(({ field, box, wholePounds }) => {
+    const value = boxes[field]
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`Box ${box} must be a number`)
+      return
+    }
+
+    if (wholePounds) {
+      if (!Number.isInteger(value)) {
+        errors.push(`Box ${box} must be in whole pounds`)
+      } else if (Math.abs(value) > MAX_WHOLE_POUNDS) {
+        errors.push(`Box ${box} is too large`)
+      }
+    } else if (Math.abs(Math.round(value * 100) - value * 100) > 1e-6) {
+      errors.push(`Box ${box} can only have two decimal places`)
+    } else if (field === 'netVatDue' ? (value < 0 || value > MAX_NET_VAT) : Math.abs(value) > MAX_MONETARY) {
+      errors.push(`Box ${box} is out of range`)
+    }
+  })
+
+  const expected = calculateVATReturnTotals(boxes)
+  if (expected.totalVatDue !== boxes.totalVatDue) {
+    errors.push('Box 3 must equal box 1 plus box 2')
+  }
+  if (expected.netVatDue !== boxes.netVatDue) {
+    errors.push('Box 5 must be the difference between box 3 and box 4')
+  }
+
+  return errors
+}
+
+/**
+ * Whether box 5 is a repayment due to the client rather than a payment to HMRC
+ */
+export function isVATRepayment(boxes: Pick<VATReturnBoxes, 'totalVatDue' | 'vatReclaimedCurrPeriod'>): boolean {
+  return boxes.vatReclaimedCurrPeriod > boxes.totalVatDue
+}
@@ -0,0 +1,61 @@
+-- Allow workflow history entries that were triggered by the client (no staff user)
+ALTER TABLE "ltd_accounts_workflow_history" ALTER COLUMN "userId" DROP NOT NULL;
+ALTER TABLE "non_ltd_accounts_workflow_history" ALTER COLUMN "userId" DROP NOT NULL;
+
+ALTER TABLE "ltd_accounts_workflow_history" DROP CONSTRAINT "ltd_accounts_workflow_history_userId_fkey";
+ALTER TABLE "ltd_accounts_workflow_history" ADD CONSTRAINT "ltd_accounts_workflow_history_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "non_ltd_accounts_workflow_history" DROP CONSTRAINT "non_ltd_accounts_workflow_history_userId_fkey";
+ALTER TABLE "non_ltd_accounts_workflow_history" ADD CONSTRAINT "non_ltd_accounts_workflow_history_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateTable
+CREATE TABLE "client_portal_links" (
+    "id" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "workflowType" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "lastAccessedAt" TIMESTAMP(3),
+    "createdByUserId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "client_portal_links_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "client_documents" (
+    "id" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "filePath" TEXT NOT NULL,
+    "fileSize" INTEGER NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "category" TEXT NOT NULL DEFAULT 'OTHER',
+    "clientId" TEXT NOT NULL,
+    "workflowType" TEXT,
+    "workflowId" TEXT,
+    "portalLinkId" TEXT,
+    "uploadedByName" TEXT,
+    "uploadedByEmail" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "client_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "client_portal_links_tokenHash_key" ON "client_portal_links"("tokenHash");
+CREATE INDEX "client_portal_links_clientId_idx" ON "client_portal_links"("clientId");
+CREATE INDEX "client_portal_links_workflowType_workflowId_idx" ON "client_portal_links"("workflowType", "workflowId");
+CREATE INDEX "client_portal_links_expiresAt_idx" ON "client_portal_links"("expiresAt");
+CREATE INDEX "client_documents_clientId_idx" ON "client_documents"("clientId");
+CREATE INDEX "client_documents_workflowType_workflowId_idx" ON "client_documents"("workflowType", "workflowId");
+CREATE INDEX "client_documents_portalLinkId_idx" ON "client_documents"("portalLinkId");
+CREATE INDEX "client_documents_createdAt_idx" ON "client_documents"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "client_portal_links" ADD CONSTRAINT "client_portal_links_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "client_portal_links" ADD CONSTRAINT "client_portal_links_createdByUserId_fkey" FOREIGN KEY ("createdByUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "client_documents" ADD CONSTRAINT "client_documents_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "client_documents" ADD CONSTRAINT "client_documents_portalLinkId_fkey" FOREIGN KEY ("portalLinkId") REFERENCES "client_portal_links"("id") ON DELETE SET NULL ON UPDATE CASCADE;
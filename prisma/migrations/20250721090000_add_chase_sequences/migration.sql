@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "ChaseStepAction" AS ENUM ('EMAIL_CLIENT', 'ESCALATE_TO_PARTNER');
+
+-- AlterTable
+ALTER TABLE "email_logs" ADD COLUMN "chaseStepId" TEXT;
+
+-- CreateTable
+CREATE TABLE "chase_sequences" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "workflowType" TEXT NOT NULL,
+    "description" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chase_sequences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "chase_sequence_steps" (
+    "id" TEXT NOT NULL,
+    "sequenceId" TEXT NOT NULL,
+    "stepOrder" INTEGER NOT NULL,
+    "dayOffset" INTEGER NOT NULL,
+    "action" "ChaseStepAction" NOT NULL DEFAULT 'EMAIL_CLIENT',
+    "templateId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chase_sequence_steps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "email_logs_workflowType_workflowId_idx" ON "email_logs"("workflowType", "workflowId");
+CREATE INDEX "email_logs_chaseStepId_idx" ON "email_logs"("chaseStepId");
+CREATE INDEX "chase_sequences_workflowType_idx" ON "chase_sequences"("workflowType");
+CREATE INDEX "chase_sequences_isActive_idx" ON "chase_sequences"("isActive");
+CREATE UNIQUE INDEX "chase_sequence_steps_sequenceId_stepOrder_key" ON "chase_sequence_steps"("sequenceId", "stepOrder");
+CREATE INDEX "chase_sequence_steps_templateId_idx" ON "chase_sequence_steps"("templateId");
+
+-- AddForeignKey
+ALTER TABLE "email_logs" ADD CONSTRAINT "email_logs_chaseStepId_fkey" FOREIGN KEY ("chaseStepId") REFERENCES "chase_sequence_steps"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "chase_sequences" ADD CONSTRAINT "chase_sequences_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "chase_sequence_steps" ADD CONSTRAINT "chase_sequence_steps_sequenceId_fkey" FOREIGN KEY ("sequenceId") REFERENCES "chase_sequences"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "chase_sequence_steps" ADD CONSTRAINT "chase_sequence_steps_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "email_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
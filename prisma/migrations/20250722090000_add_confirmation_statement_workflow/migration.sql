@@ -0,0 +1,73 @@
+-- CreateEnum
+CREATE TYPE "ConfirmationStatementWorkflowStage" AS ENUM (
+  'WAITING_FOR_STATEMENT_DATE',
+  'DETAILS_REVIEW_PENDING',
+  'CONFIRMATION_REQUESTED',
+  'CLIENT_CONFIRMED',
+  'CHANGES_FILED',
+  'FILED_TO_COMPANIES_HOUSE',
+  'CLIENT_SELF_FILING'
+);
+
+-- CreateTable
+CREATE TABLE "confirmation_statement_workflows" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "statementDate" TIMESTAMP(3) NOT NULL,
+    "filingDueDate" TIMESTAMP(3) NOT NULL,
+    "currentStage" "ConfirmationStatementWorkflowStage" NOT NULL DEFAULT 'WAITING_FOR_STATEMENT_DATE',
+    "assignedUserId" TEXT,
+    "isCompleted" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reviewStartedDate" TIMESTAMP(3),
+    "reviewStartedByUserId" TEXT,
+    "reviewStartedByUserName" TEXT,
+    "confirmationRequestedDate" TIMESTAMP(3),
+    "confirmationRequestedByUserId" TEXT,
+    "confirmationRequestedByUserName" TEXT,
+    "clientConfirmedDate" TIMESTAMP(3),
+    "clientConfirmedByUserId" TEXT,
+    "clientConfirmedByUserName" TEXT,
+    "changesFiledDate" TIMESTAMP(3),
+    "changesFiledByUserId" TEXT,
+    "changesFiledByUserName" TEXT,
+    "filedDate" TIMESTAMP(3),
+    "filedByUserId" TEXT,
+    "filedByUserName" TEXT,
+    "clientSelfFilingDate" TIMESTAMP(3),
+    "clientSelfFilingByUserId" TEXT,
+    "clientSelfFilingByUserName" TEXT,
+    CONSTRAINT "confirmation_statement_workflows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "confirmation_statement_workflow_history" (
+    "id" TEXT NOT NULL,
+    "confirmationStatementWorkflowId" TEXT NOT NULL,
+    "fromStage" "ConfirmationStatementWorkflowStage",
+    "toStage" "ConfirmationStatementWorkflowStage" NOT NULL,
+    "stageChangedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "daysInPreviousStage" INTEGER,
+    "userId" TEXT,
+    "userName" TEXT NOT NULL,
+    "userEmail" TEXT NOT NULL,
+    "userRole" TEXT NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "confirmation_statement_workflow_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "confirmation_statement_workflows_clientId_statementDate_key" ON "confirmation_statement_workflows"("clientId", "statementDate");
+CREATE INDEX "confirmation_statement_workflows_assignedUserId_idx" ON "confirmation_statement_workflows"("assignedUserId");
+CREATE INDEX "confirmation_statement_workflows_clientId_idx" ON "confirmation_statement_workflows"("clientId");
+CREATE INDEX "confirmation_statement_workflows_currentStage_idx" ON "confirmation_statement_workflows"("currentStage");
+CREATE INDEX "confirmation_statement_workflows_filingDueDate_idx" ON "confirmation_statement_workflows"("filingDueDate");
+CREATE INDEX "cs_workflow_history_workflow_id_idx" ON "confirmation_statement_workflow_history"("confirmationStatementWorkflowId");
+
+-- AddForeignKey
+ALTER TABLE "confirmation_statement_workflows" ADD CONSTRAINT "confirmation_statement_workflows_assignedUserId_fkey" FOREIGN KEY ("assignedUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "confirmation_statement_workflows" ADD CONSTRAINT "confirmation_statement_workflows_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "confirmation_statement_workflow_history" ADD CONSTRAINT "cs_workflow_history_workflow_id_fkey" FOREIGN KEY ("confirmationStatementWorkflowId") REFERENCES "confirmation_statement_workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "confirmation_statement_workflow_history" ADD CONSTRAINT "confirmation_statement_workflow_history_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
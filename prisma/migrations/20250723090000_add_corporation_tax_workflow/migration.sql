@@ -0,0 +1,76 @@
+-- CreateEnum
+CREATE TYPE "CorporationTaxWorkflowStage" AS ENUM (
+  'WAITING_FOR_PERIOD_END',
+  'COMPUTATION_IN_PROGRESS',
+  'REVIEW_BY_PARTNER',
+  'SENT_TO_CLIENT',
+  'APPROVED_BY_CLIENT',
+  'FILED_TO_HMRC',
+  'CLIENT_SELF_FILING'
+);
+
+-- CreateTable
+CREATE TABLE "corporation_tax_workflows" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "paymentDueDate" TIMESTAMP(3) NOT NULL,
+    "filingDueDate" TIMESTAMP(3) NOT NULL,
+    "currentStage" "CorporationTaxWorkflowStage" NOT NULL DEFAULT 'WAITING_FOR_PERIOD_END',
+    "assignedUserId" TEXT,
+    "isCompleted" BOOLEAN NOT NULL DEFAULT false,
+    "hmrcSubmissionReference" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "computationStartedDate" TIMESTAMP(3),
+    "computationStartedByUserId" TEXT,
+    "computationStartedByUserName" TEXT,
+    "partnerReviewDate" TIMESTAMP(3),
+    "partnerReviewByUserId" TEXT,
+    "partnerReviewByUserName" TEXT,
+    "sentToClientDate" TIMESTAMP(3),
+    "sentToClientByUserId" TEXT,
+    "sentToClientByUserName" TEXT,
+    "clientApprovedDate" TIMESTAMP(3),
+    "clientApprovedByUserId" TEXT,
+    "clientApprovedByUserName" TEXT,
+    "filedToHMRCDate" TIMESTAMP(3),
+    "filedToHMRCByUserId" TEXT,
+    "filedToHMRCByUserName" TEXT,
+    "clientSelfFilingDate" TIMESTAMP(3),
+    "clientSelfFilingByUserId" TEXT,
+    "clientSelfFilingByUserName" TEXT,
+    CONSTRAINT "corporation_tax_workflows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "corporation_tax_workflow_history" (
+    "id" TEXT NOT NULL,
+    "corporationTaxWorkflowId" TEXT NOT NULL,
+    "fromStage" "CorporationTaxWorkflowStage",
+    "toStage" "CorporationTaxWorkflowStage" NOT NULL,
+    "stageChangedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "daysInPreviousStage" INTEGER,
+    "userId" TEXT,
+    "userName" TEXT NOT NULL,
+    "userEmail" TEXT NOT NULL,
+    "userRole" TEXT NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "corporation_tax_workflow_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "corporation_tax_workflows_clientId_periodEnd_key" ON "corporation_tax_workflows"("clientId", "periodEnd");
+CREATE INDEX "corporation_tax_workflows_assignedUserId_idx" ON "corporation_tax_workflows"("assignedUserId");
+CREATE INDEX "corporation_tax_workflows_clientId_idx" ON "corporation_tax_workflows"("clientId");
+CREATE INDEX "corporation_tax_workflows_currentStage_idx" ON "corporation_tax_workflows"("currentStage");
+CREATE INDEX "corporation_tax_workflows_filingDueDate_idx" ON "corporation_tax_workflows"("filingDueDate");
+CREATE INDEX "corporation_tax_workflow_history_corporationTaxWorkflowId_idx" ON "corporation_tax_workflow_history"("corporationTaxWorkflowId");
+
+-- AddForeignKey
+ALTER TABLE "corporation_tax_workflows" ADD CONSTRAINT "corporation_tax_workflows_assignedUserId_fkey" FOREIGN KEY ("assignedUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "corporation_tax_workflows" ADD CONSTRAINT "corporation_tax_workflows_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "corporation_tax_workflow_history" ADD CONSTRAINT "corporation_tax_workflow_history_corporationTaxWorkflowId_fkey" FOREIGN KEY ("corporationTaxWorkflowId") REFERENCES "corporation_tax_workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "corporation_tax_workflow_history" ADD CONSTRAINT "corporation_tax_workflow_history_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,89 @@
+-- CreateEnum
+CREATE TYPE "SelfAssessmentWorkflowStage" AS ENUM (
+  'WAITING_FOR_TAX_YEAR_END',
+  'PAPERWORK_PENDING_CHASE',
+  'PAPERWORK_CHASED',
+  'PAPERWORK_RECEIVED',
+  'WORK_IN_PROGRESS',
+  'REVIEW_BY_PARTNER',
+  'SENT_TO_CLIENT',
+  'APPROVED_BY_CLIENT',
+  'FILED_TO_HMRC',
+  'CLIENT_SELF_FILING'
+);
+
+-- CreateTable
+CREATE TABLE "self_assessment_workflows" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "taxYear" TEXT NOT NULL,
+    "taxYearStart" TIMESTAMP(3) NOT NULL,
+    "taxYearEnd" TIMESTAMP(3) NOT NULL,
+    "paperFilingDueDate" TIMESTAMP(3) NOT NULL,
+    "onlineFilingDueDate" TIMESTAMP(3) NOT NULL,
+    "firstPaymentOnAccountDueDate" TIMESTAMP(3) NOT NULL,
+    "secondPaymentOnAccountDueDate" TIMESTAMP(3) NOT NULL,
+    "paymentsOnAccountRequired" BOOLEAN NOT NULL DEFAULT false,
+    "currentStage" "SelfAssessmentWorkflowStage" NOT NULL DEFAULT 'WAITING_FOR_TAX_YEAR_END',
+    "assignedUserId" TEXT,
+    "isCompleted" BOOLEAN NOT NULL DEFAULT false,
+    "hmrcSubmissionReference" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "chaseStartedDate" TIMESTAMP(3),
+    "chaseStartedByUserId" TEXT,
+    "chaseStartedByUserName" TEXT,
+    "paperworkReceivedDate" TIMESTAMP(3),
+    "paperworkReceivedByUserId" TEXT,
+    "paperworkReceivedByUserName" TEXT,
+    "workStartedDate" TIMESTAMP(3),
+    "workStartedByUserId" TEXT,
+    "workStartedByUserName" TEXT,
+    "partnerReviewDate" TIMESTAMP(3),
+    "partnerReviewByUserId" TEXT,
+    "partnerReviewByUserName" TEXT,
+    "sentToClientDate" TIMESTAMP(3),
+    "sentToClientByUserId" TEXT,
+    "sentToClientByUserName" TEXT,
+    "clientApprovedDate" TIMESTAMP(3),
+    "clientApprovedByUserId" TEXT,
+    "clientApprovedByUserName" TEXT,
+    "filedToHMRCDate" TIMESTAMP(3),
+    "filedToHMRCByUserId" TEXT,
+    "filedToHMRCByUserName" TEXT,
+    "clientSelfFilingDate" TIMESTAMP(3),
+    "clientSelfFilingByUserId" TEXT,
+    "clientSelfFilingByUserName" TEXT,
+    CONSTRAINT "self_assessment_workflows_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "self_assessment_workflow_history" (
+    "id" TEXT NOT NULL,
+    "selfAssessmentWorkflowId" TEXT NOT NULL,
+    "fromStage" "SelfAssessmentWorkflowStage",
+    "toStage" "SelfAssessmentWorkflowStage" NOT NULL,
+    "stageChangedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "daysInPreviousStage" INTEGER,
+    "userId" TEXT,
+    "userName" TEXT NOT NULL,
+    "userEmail" TEXT NOT NULL,
+    "userRole" TEXT NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "self_assessment_workflow_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "self_assessment_workflows_clientId_taxYear_key" ON "self_assessment_workflows"("clientId", "taxYear");
+CREATE INDEX "self_assessment_workflows_assignedUserId_idx" ON "self_assessment_workflows"("assignedUserId");
+CREATE INDEX "self_assessment_workflows_clientId_idx" ON "self_assessment_workflows"("clientId");
+CREATE INDEX "self_assessment_workflows_currentStage_idx" ON "self_assessment_workflows"("currentStage");
+CREATE INDEX "self_assessment_workflows_onlineFilingDueDate_idx" ON "self_assessment_workflows"("onlineFilingDueDate");
+CREATE INDEX "self_assessment_workflow_history_selfAssessmentWorkflowId_idx" ON "self_assessment_workflow_history"("selfAssessmentWorkflowId");
+
+-- AddForeignKey
+ALTER TABLE "self_assessment_workflows" ADD CONSTRAINT "self_assessment_workflows_assignedUserId_fkey" FOREIGN KEY ("assignedUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "self_assessment_workflows" ADD CONSTRAINT "self_assessment_workflows_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "self_assessment_workflow_history" ADD CONSTRAINT "self_assessment_workflow_history_selfAssessmentWorkflowId_fkey" FOREIGN KEY ("selfAssessmentWorkflowId") REFERENCES "self_assessment_workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "self_assessment_workflow_history" ADD CONSTRAINT "self_assessment_workflow_history_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
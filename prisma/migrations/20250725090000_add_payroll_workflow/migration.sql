@@ -0,0 +1,114 @@
+-- CreateEnum
+CREATE TYPE "PayFrequency" AS ENUM ('WEEKLY', 'FOUR_WEEKLY', 'MONTHLY');
+
+-- CreateEnum
+CREATE TYPE "PayrollRunStage" AS ENUM (
+  'WAITING_FOR_DATA',
+  'DATA_RECEIVED',
+  'PROCESSING',
+  'REVIEW_BY_MANAGER',
+  'SENT_TO_CLIENT',
+  'APPROVED_BY_CLIENT',
+  'FPS_SUBMITTED',
+  'EPS_SUBMITTED'
+);
+
+-- CreateTable
+CREATE TABLE "payroll_schedules" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "payFrequency" "PayFrequency" NOT NULL DEFAULT 'MONTHLY',
+    "firstPayDate" TIMESTAMP(3) NOT NULL,
+    "payeReference" TEXT,
+    "accountsOfficeReference" TEXT,
+    "employeeCount" INTEGER,
+    "epsRequired" BOOLEAN NOT NULL DEFAULT false,
+    "assignedUserId" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "payroll_schedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payroll_runs" (
+    "id" TEXT NOT NULL,
+    "scheduleId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "payFrequency" "PayFrequency" NOT NULL,
+    "payDate" TIMESTAMP(3) NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "taxYear" TEXT NOT NULL,
+    "taxMonth" INTEGER NOT NULL,
+    "fpsDueDate" TIMESTAMP(3) NOT NULL,
+    "epsDueDate" TIMESTAMP(3) NOT NULL,
+    "payeDueDate" TIMESTAMP(3) NOT NULL,
+    "epsRequired" BOOLEAN NOT NULL DEFAULT false,
+    "currentStage" "PayrollRunStage" NOT NULL DEFAULT 'WAITING_FOR_DATA',
+    "assignedUserId" TEXT,
+    "isCompleted" BOOLEAN NOT NULL DEFAULT false,
+    "fpsSubmissionReference" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "dataReceivedDate" TIMESTAMP(3),
+    "dataReceivedByUserId" TEXT,
+    "dataReceivedByUserName" TEXT,
+    "processingStartedDate" TIMESTAMP(3),
+    "processingStartedByUserId" TEXT,
+    "processingStartedByUserName" TEXT,
+    "managerReviewDate" TIMESTAMP(3),
+    "managerReviewByUserId" TEXT,
+    "managerReviewByUserName" TEXT,
+    "sentToClientDate" TIMESTAMP(3),
+    "sentToClientByUserId" TEXT,
+    "sentToClientByUserName" TEXT,
+    "clientApprovedDate" TIMESTAMP(3),
+    "clientApprovedByUserId" TEXT,
+    "clientApprovedByUserName" TEXT,
+    "fpsSubmittedDate" TIMESTAMP(3),
+    "fpsSubmittedByUserId" TEXT,
+    "fpsSubmittedByUserName" TEXT,
+    "epsSubmittedDate" TIMESTAMP(3),
+    "epsSubmittedByUserId" TEXT,
+    "epsSubmittedByUserName" TEXT,
+    CONSTRAINT "payroll_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payroll_run_history" (
+    "id" TEXT NOT NULL,
+    "payrollRunId" TEXT NOT NULL,
+    "fromStage" "PayrollRunStage",
+    "toStage" "PayrollRunStage" NOT NULL,
+    "stageChangedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "daysInPreviousStage" INTEGER,
+    "userId" TEXT,
+    "userName" TEXT NOT NULL,
+    "userEmail" TEXT NOT NULL,
+    "userRole" TEXT NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "payroll_run_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payroll_schedules_clientId_key" ON "payroll_schedules"("clientId");
+CREATE INDEX "payroll_schedules_assignedUserId_idx" ON "payroll_schedules"("assignedUserId");
+CREATE INDEX "payroll_schedules_isActive_idx" ON "payroll_schedules"("isActive");
+CREATE UNIQUE INDEX "payroll_runs_scheduleId_payDate_key" ON "payroll_runs"("scheduleId", "payDate");
+CREATE INDEX "payroll_runs_assignedUserId_idx" ON "payroll_runs"("assignedUserId");
+CREATE INDEX "payroll_runs_clientId_idx" ON "payroll_runs"("clientId");
+CREATE INDEX "payroll_runs_currentStage_idx" ON "payroll_runs"("currentStage");
+CREATE INDEX "payroll_runs_payDate_idx" ON "payroll_runs"("payDate");
+CREATE INDEX "payroll_run_history_payrollRunId_idx" ON "payroll_run_history"("payrollRunId");
+
+-- AddForeignKey
+ALTER TABLE "payroll_schedules" ADD CONSTRAINT "payroll_schedules_assignedUserId_fkey" FOREIGN KEY ("assignedUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "payroll_schedules" ADD CONSTRAINT "payroll_schedules_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "payroll_runs" ADD CONSTRAINT "payroll_runs_assignedUserId_fkey" FOREIGN KEY ("assignedUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "payroll_runs" ADD CONSTRAINT "payroll_runs_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "payroll_runs" ADD CONSTRAINT "payroll_runs_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "payroll_schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "payroll_run_history" ADD CONSTRAINT "payroll_run_history_payrollRunId_fkey" FOREIGN KEY ("payrollRunId") REFERENCES "payroll_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "payroll_run_history" ADD CONSTRAINT "payroll_run_history_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
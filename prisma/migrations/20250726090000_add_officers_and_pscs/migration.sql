@@ -0,0 +1,93 @@
+-- CreateEnum
+CREATE TYPE "OfficerChangeType" AS ENUM ('OFFICER_APPOINTED', 'OFFICER_RESIGNED', 'PSC_ADDED', 'PSC_CEASED');
+
+-- CreateTable
+CREATE TABLE "officers" (
+    "id" TEXT NOT NULL,
+    "matchKey" TEXT NOT NULL,
+    "companiesHouseOfficerId" TEXT,
+    "name" TEXT NOT NULL,
+    "dateOfBirthMonth" INTEGER,
+    "dateOfBirthYear" INTEGER,
+    "nationality" TEXT,
+    "occupation" TEXT,
+    "countryOfResidence" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "officers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "officer_appointments" (
+    "id" TEXT NOT NULL,
+    "officerId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "officerRole" TEXT NOT NULL,
+    "appointedOn" TIMESTAMP(3),
+    "resignedOn" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "address" TEXT,
+    "firstSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSyncedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "officer_appointments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "persons_with_significant_control" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "officerId" TEXT,
+    "matchKey" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "naturesOfControl" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "notifiedOn" TIMESTAMP(3),
+    "ceasedOn" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "dateOfBirthMonth" INTEGER,
+    "dateOfBirthYear" INTEGER,
+    "nationality" TEXT,
+    "countryOfResidence" TEXT,
+    "address" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "persons_with_significant_control_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "officer_changes" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "officerId" TEXT,
+    "pscId" TEXT,
+    "changeType" "OfficerChangeType" NOT NULL,
+    "personName" TEXT NOT NULL,
+    "officerRole" TEXT,
+    "effectiveDate" TIMESTAMP(3),
+    "source" TEXT NOT NULL,
+    "detectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "officer_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "officers_matchKey_key" ON "officers"("matchKey");
+CREATE INDEX "officers_name_idx" ON "officers"("name");
+CREATE UNIQUE INDEX "officer_appointments_clientId_officerId_officerRole_key" ON "officer_appointments"("clientId", "officerId", "officerRole");
+CREATE INDEX "officer_appointments_officerId_idx" ON "officer_appointments"("officerId");
+CREATE INDEX "officer_appointments_clientId_idx" ON "officer_appointments"("clientId");
+CREATE UNIQUE INDEX "persons_with_significant_control_clientId_matchKey_key" ON "persons_with_significant_control"("clientId", "matchKey");
+CREATE INDEX "persons_with_significant_control_officerId_idx" ON "persons_with_significant_control"("officerId");
+CREATE INDEX "officer_changes_clientId_idx" ON "officer_changes"("clientId");
+CREATE INDEX "officer_changes_officerId_idx" ON "officer_changes"("officerId");
+CREATE INDEX "officer_changes_detectedAt_idx" ON "officer_changes"("detectedAt");
+
+-- AddForeignKey
+ALTER TABLE "officer_appointments" ADD CONSTRAINT "officer_appointments_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "officer_appointments" ADD CONSTRAINT "officer_appointments_officerId_fkey" FOREIGN KEY ("officerId") REFERENCES "officers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "persons_with_significant_control" ADD CONSTRAINT "persons_with_significant_control_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "persons_with_significant_control" ADD CONSTRAINT "persons_with_significant_control_officerId_fkey" FOREIGN KEY ("officerId") REFERENCES "officers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "officer_changes" ADD CONSTRAINT "officer_changes_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "officer_changes" ADD CONSTRAINT "officer_changes_officerId_fkey" FOREIGN KEY ("officerId") REFERENCES "officers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "officer_changes" ADD CONSTRAINT "officer_changes_pscId_fkey" FOREIGN KEY ("pscId") REFERENCES "persons_with_significant_control"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,139 @@
+-- CreateEnum
+CREATE TYPE "CisBusinessType" AS ENUM ('SOLE_TRADER', 'PARTNERSHIP', 'COMPANY', 'TRUST');
+
+-- CreateEnum
+CREATE TYPE "CisVerificationStatus" AS ENUM ('UNVERIFIED', 'GROSS', 'NET', 'UNMATCHED');
+
+-- CreateEnum
+CREATE TYPE "CisReturnStage" AS ENUM ('WAITING_FOR_DATA', 'DATA_RECEIVED', 'PROCESSING', 'REVIEW_BY_MANAGER', 'SENT_TO_CLIENT', 'APPROVED_BY_CLIENT', 'SUBMITTED_TO_HMRC');
+
+-- CreateTable
+CREATE TABLE "cis_schemes" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "employerReference" TEXT,
+    "accountsOfficeReference" TEXT,
+    "registeredFrom" TIMESTAMP(3) NOT NULL,
+    "assignedUserId" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "cis_schemes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cis_subcontractors" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "tradingName" TEXT,
+    "businessType" "CisBusinessType" NOT NULL DEFAULT 'SOLE_TRADER',
+    "utr" TEXT,
+    "companyNumber" TEXT,
+    "nationalInsurance" TEXT,
+    "verificationStatus" "CisVerificationStatus" NOT NULL DEFAULT 'UNVERIFIED',
+    "verificationNumber" TEXT,
+    "verifiedAt" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "cis_subcontractors_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cis_returns" (
+    "id" TEXT NOT NULL,
+    "schemeId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "taxYear" TEXT NOT NULL,
+    "taxMonth" INTEGER NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "currentStage" "CisReturnStage" NOT NULL DEFAULT 'WAITING_FOR_DATA',
+    "assignedUserId" TEXT,
+    "isCompleted" BOOLEAN NOT NULL DEFAULT false,
+    "isNilReturn" BOOLEAN NOT NULL DEFAULT false,
+    "submissionReference" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "dataReceivedDate" TIMESTAMP(3),
+    "dataReceivedByUserId" TEXT,
+    "dataReceivedByUserName" TEXT,
+    "processingStartedDate" TIMESTAMP(3),
+    "processingStartedByUserId" TEXT,
+    "processingStartedByUserName" TEXT,
+    "managerReviewDate" TIMESTAMP(3),
+    "managerReviewByUserId" TEXT,
+    "managerReviewByUserName" TEXT,
+    "sentToClientDate" TIMESTAMP(3),
+    "sentToClientByUserId" TEXT,
+    "sentToClientByUserName" TEXT,
+    "clientApprovedDate" TIMESTAMP(3),
+    "clientApprovedByUserId" TEXT,
+    "clientApprovedByUserName" TEXT,
+    "submittedDate" TIMESTAMP(3),
+    "submittedByUserId" TEXT,
+    "submittedByUserName" TEXT,
+    CONSTRAINT "cis_returns_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cis_payments" (
+    "id" TEXT NOT NULL,
+    "returnId" TEXT NOT NULL,
+    "subcontractorId" TEXT NOT NULL,
+    "grossAmount" DOUBLE PRECISION NOT NULL,
+    "materialsAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "deductionRate" INTEGER NOT NULL,
+    "deductionAmount" DOUBLE PRECISION NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "cis_payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cis_return_history" (
+    "id" TEXT NOT NULL,
+    "cisReturnId" TEXT NOT NULL,
+    "fromStage" "CisReturnStage",
+    "toStage" "CisReturnStage" NOT NULL,
+    "stageChangedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "daysInPreviousStage" INTEGER,
+    "userId" TEXT,
+    "userName" TEXT NOT NULL,
+    "userEmail" TEXT NOT NULL,
+    "userRole" TEXT NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "cis_return_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cis_schemes_clientId_key" ON "cis_schemes"("clientId");
+CREATE INDEX "cis_schemes_assignedUserId_idx" ON "cis_schemes"("assignedUserId");
+CREATE INDEX "cis_schemes_isActive_idx" ON "cis_schemes"("isActive");
+CREATE INDEX "cis_subcontractors_clientId_idx" ON "cis_subcontractors"("clientId");
+CREATE UNIQUE INDEX "cis_returns_schemeId_taxYear_taxMonth_key" ON "cis_returns"("schemeId", "taxYear", "taxMonth");
+CREATE INDEX "cis_returns_assignedUserId_idx" ON "cis_returns"("assignedUserId");
+CREATE INDEX "cis_returns_clientId_idx" ON "cis_returns"("clientId");
+CREATE INDEX "cis_returns_currentStage_idx" ON "cis_returns"("currentStage");
+CREATE INDEX "cis_returns_dueDate_idx" ON "cis_returns"("dueDate");
+CREATE UNIQUE INDEX "cis_payments_returnId_subcontractorId_key" ON "cis_payments"("returnId", "subcontractorId");
+CREATE INDEX "cis_payments_subcontractorId_idx" ON "cis_payments"("subcontractorId");
+CREATE INDEX "cis_return_history_cisReturnId_idx" ON "cis_return_history"("cisReturnId");
+
+-- AddForeignKey
+ALTER TABLE "cis_schemes" ADD CONSTRAINT "cis_schemes_assignedUserId_fkey" FOREIGN KEY ("assignedUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "cis_schemes" ADD CONSTRAINT "cis_schemes_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "cis_subcontractors" ADD CONSTRAINT "cis_subcontractors_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "cis_returns" ADD CONSTRAINT "cis_returns_assignedUserId_fkey" FOREIGN KEY ("assignedUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+ALTER TABLE "cis_returns" ADD CONSTRAINT "cis_returns_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "cis_returns" ADD CONSTRAINT "cis_returns_schemeId_fkey" FOREIGN KEY ("schemeId") REFERENCES "cis_schemes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "cis_payments" ADD CONSTRAINT "cis_payments_returnId_fkey" FOREIGN KEY ("returnId") REFERENCES "cis_returns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "cis_payments" ADD CONSTRAINT "cis_payments_subcontractorId_fkey" FOREIGN KEY ("subcontractorId") REFERENCES "cis_subcontractors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "cis_return_history" ADD CONSTRAINT "cis_return_history_cisReturnId_fkey" FOREIGN KEY ("cisReturnId") REFERENCES "cis_returns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "cis_return_history" ADD CONSTRAINT "cis_return_history_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
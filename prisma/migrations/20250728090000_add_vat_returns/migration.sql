@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "VATReturnStatus" AS ENUM ('DRAFT', 'SUBMITTED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "vat_returns" (
+    "id" TEXT NOT NULL,
+    "vatQuarterId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "vrn" TEXT NOT NULL,
+    "periodKey" TEXT,
+    "vatDueSales" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "vatDueAcquisitions" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalVatDue" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "vatReclaimedCurrPeriod" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "netVatDue" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "totalValueSalesExVAT" INTEGER NOT NULL DEFAULT 0,
+    "totalValuePurchasesExVAT" INTEGER NOT NULL DEFAULT 0,
+    "totalValueGoodsSuppliedExVAT" INTEGER NOT NULL DEFAULT 0,
+    "totalAcquisitionsExVAT" INTEGER NOT NULL DEFAULT 0,
+    "status" "VATReturnStatus" NOT NULL DEFAULT 'DRAFT',
+    "preparedDate" TIMESTAMP(3),
+    "preparedByUserId" TEXT,
+    "preparedByUserName" TEXT,
+    "submittedDate" TIMESTAMP(3),
+    "submittedByUserId" TEXT,
+    "submittedByUserName" TEXT,
+    "processingDate" TIMESTAMP(3),
+    "formBundleNumber" TEXT,
+    "paymentIndicator" TEXT,
+    "chargeRefNumber" TEXT,
+    "receiptId" TEXT,
+    "receiptTimestamp" TIMESTAMP(3),
+    "correlationId" TEXT,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "vat_returns_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vat_returns_vatQuarterId_key" ON "vat_returns"("vatQuarterId");
+
+-- CreateIndex
+CREATE INDEX "vat_returns_clientId_idx" ON "vat_returns"("clientId");
+
+-- CreateIndex
+CREATE INDEX "vat_returns_status_idx" ON "vat_returns"("status");
+
+-- AddForeignKey
+ALTER TABLE "vat_returns" ADD CONSTRAINT "vat_returns_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vat_returns" ADD CONSTRAINT "vat_returns_vatQuarterId_fkey" FOREIGN KEY ("vatQuarterId") REFERENCES "vat_quarters"("id") ON DELETE CASCADE ON UPDATE CASCADE;
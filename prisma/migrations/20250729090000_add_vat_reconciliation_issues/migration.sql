@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "VATReconciliationIssueType" AS ENUM ('PERIOD_MISMATCH', 'MISSING_QUARTER', 'FULFILLED_BUT_OPEN');
+
+-- CreateEnum
+CREATE TYPE "VATReconciliationStatus" AS ENUM ('OPEN', 'RESOLVED', 'DISMISSED');
+
+-- CreateTable
+CREATE TABLE "vat_reconciliation_issues" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "vatQuarterId" TEXT,
+    "issueType" "VATReconciliationIssueType" NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "vrn" TEXT NOT NULL,
+    "periodKey" TEXT,
+    "hmrcPeriodStart" TEXT NOT NULL,
+    "hmrcPeriodEnd" TEXT NOT NULL,
+    "hmrcDueDate" TEXT,
+    "hmrcStatus" TEXT NOT NULL,
+    "hmrcReceivedDate" TEXT,
+    "quarterPeriod" TEXT,
+    "suggestedQuarterGroup" TEXT,
+    "status" "VATReconciliationStatus" NOT NULL DEFAULT 'OPEN',
+    "detectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedByUserId" TEXT,
+    "resolvedByUserName" TEXT,
+    "resolution" TEXT,
+    CONSTRAINT "vat_reconciliation_issues_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vat_reconciliation_issues_clientId_fingerprint_key" ON "vat_reconciliation_issues"("clientId", "fingerprint");
+
+-- CreateIndex
+CREATE INDEX "vat_reconciliation_issues_status_idx" ON "vat_reconciliation_issues"("status");
+
+-- CreateIndex
+CREATE INDEX "vat_reconciliation_issues_vatQuarterId_idx" ON "vat_reconciliation_issues"("vatQuarterId");
+
+-- AddForeignKey
+ALTER TABLE "vat_reconciliation_issues" ADD CONSTRAINT "vat_reconciliation_issues_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vat_reconciliation_issues" ADD CONSTRAINT "vat_reconciliation_issues_vatQuarterId_fkey" FOREIGN KEY ("vatQuarterId") REFERENCES "vat_quarters"("id") ON DELETE SET NULL ON UPDATE CASCADE;
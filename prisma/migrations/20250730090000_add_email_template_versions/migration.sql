@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "EmailTemplateVersionStatus" AS ENUM ('DRAFT', 'PUBLISHED', 'SUPERSEDED');
+
+-- AlterTable
+ALTER TABLE "email_templates" ADD COLUMN "publishedVersionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "email_logs" ADD COLUMN "templateVersionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "email_template_versions" (
+    "id" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "subject" TEXT NOT NULL,
+    "htmlContent" TEXT NOT NULL,
+    "textContent" TEXT,
+    "status" "EmailTemplateVersionStatus" NOT NULL DEFAULT 'DRAFT',
+    "changeNote" TEXT,
+    "restoredFromVersion" INTEGER,
+    "createdById" TEXT,
+    "createdByName" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "publishedAt" TIMESTAMP(3),
+    "publishedById" TEXT,
+    "publishedByName" TEXT,
+    CONSTRAINT "email_template_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- Existing wording becomes version 1 of each template
+INSERT INTO "email_template_versions" ("id", "templateId", "version", "subject", "htmlContent", "textContent", "status", "changeNote", "createdById", "createdByName", "createdAt", "publishedAt", "publishedById", "publishedByName")
+SELECT 'tv1_' || t."id", t."id", 1, t."subject", t."htmlContent", t."textContent", 'PUBLISHED', 'Wording before version history', t."createdBy", COALESCE(u."name", 'System'), t."updatedAt", t."updatedAt", t."createdBy", COALESCE(u."name", 'System')
+FROM "email_templates" t
+LEFT JOIN "users" u ON u."id" = t."createdBy";
+
+UPDATE "email_templates" SET "publishedVersionId" = 'tv1_' || "id";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_templates_publishedVersionId_key" ON "email_templates"("publishedVersionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_template_versions_templateId_version_key" ON "email_template_versions"("templateId", "version");
+
+-- CreateIndex
+CREATE INDEX "email_template_versions_status_idx" ON "email_template_versions"("status");
+
+-- CreateIndex
+CREATE INDEX "email_logs_templateVersionId_idx" ON "email_logs"("templateVersionId");
+
+-- AddForeignKey
+ALTER TABLE "email_templates" ADD CONSTRAINT "email_templates_publishedVersionId_fkey" FOREIGN KEY ("publishedVersionId") REFERENCES "email_template_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "email_template_versions" ADD CONSTRAINT "email_template_versions_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "email_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "email_logs" ADD CONSTRAINT "email_logs_templateVersionId_fkey" FOREIGN KEY ("templateVersionId") REFERENCES "email_template_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "EmailQueueStatus" AS ENUM ('PENDING', 'SENDING', 'SENT', 'DEAD_LETTER', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "email_queue" (
+    "id" TEXT NOT NULL,
+    "emailLogId" TEXT NOT NULL,
+    "status" "EmailQueueStatus" NOT NULL DEFAULT 'PENDING',
+    "recipients" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "htmlContent" TEXT NOT NULL,
+    "textContent" TEXT,
+    "priority" TEXT NOT NULL DEFAULT 'NORMAL',
+    "scheduledFor" TIMESTAMP(3),
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "lastError" TEXT,
+    "lastService" TEXT,
+    "messageId" TEXT,
+    "lockedAt" TIMESTAMP(3),
+    "sentAt" TIMESTAMP(3),
+    "deadLetteredAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "cancelledByName" TEXT,
+    "createdById" TEXT,
+    "createdByName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "email_queue_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_queue_emailLogId_key" ON "email_queue"("emailLogId");
+
+-- CreateIndex
+CREATE INDEX "email_queue_status_nextAttemptAt_idx" ON "email_queue"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "email_queue_sentAt_idx" ON "email_queue"("sentAt");
+
+-- AddForeignKey
+ALTER TABLE "email_queue" ADD CONSTRAINT "email_queue_emailLogId_fkey" FOREIGN KEY ("emailLogId") REFERENCES "email_logs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "communications" ADD COLUMN "fromEmail" TEXT,
+ADD COLUMN "fromName" TEXT,
+ADD COLUMN "htmlContent" TEXT,
+ADD COLUMN "messageId" TEXT,
+ADD COLUMN "inReplyTo" TEXT,
+ADD COLUMN "emailLogId" TEXT;
+
+-- AlterTable
+ALTER TABLE "email_logs" ADD COLUMN "messageId" TEXT;
+
+-- AlterTable
+ALTER TABLE "email_attachments" ADD COLUMN "communicationId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "communications_messageId_key" ON "communications"("messageId");
+
+-- CreateIndex
+CREATE INDEX "communications_emailLogId_idx" ON "communications"("emailLogId");
+
+-- CreateIndex
+CREATE INDEX "email_logs_messageId_idx" ON "email_logs"("messageId");
+
+-- CreateIndex
+CREATE INDEX "email_attachments_communicationId_idx" ON "email_attachments"("communicationId");
+
+-- AddForeignKey
+ALTER TABLE "communications" ADD CONSTRAINT "communications_emailLogId_fkey" FOREIGN KEY ("emailLogId") REFERENCES "email_logs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "email_attachments" ADD CONSTRAINT "email_attachments_communicationId_fkey" FOREIGN KEY ("communicationId") REFERENCES "communications"("id") ON DELETE CASCADE ON UPDATE CASCADE;
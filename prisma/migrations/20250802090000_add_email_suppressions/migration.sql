@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "EmailSuppressionReason" AS ENUM ('HARD_BOUNCE', 'SPAM_COMPLAINT', 'UNSUBSCRIBED');
+
+-- CreateTable
+CREATE TABLE "email_suppressions" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "reason" "EmailSuppressionReason" NOT NULL,
+    "source" TEXT NOT NULL,
+    "detail" TEXT,
+    "eventCount" INTEGER NOT NULL DEFAULT 1,
+    "lastEventAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "emailLogId" TEXT,
+    "liftedAt" TIMESTAMP(3),
+    "liftedByName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "email_suppressions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_suppressions_email_key" ON "email_suppressions"("email");
+
+-- CreateIndex
+CREATE INDEX "email_suppressions_liftedAt_idx" ON "email_suppressions"("liftedAt");
+
+-- AddForeignKey
+ALTER TABLE "email_suppressions" ADD CONSTRAINT "email_suppressions_emailLogId_fkey" FOREIGN KEY ("emailLogId") REFERENCES "email_logs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
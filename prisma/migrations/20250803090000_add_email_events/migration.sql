@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "EmailEventType" AS ENUM ('SENT', 'DELIVERED', 'DEFERRED', 'OPENED', 'CLICKED', 'SOFT_BOUNCE', 'HARD_BOUNCE', 'BLOCKED', 'SPAM_COMPLAINT', 'UNSUBSCRIBED');
+
+-- CreateTable
+CREATE TABLE "email_events" (
+    "id" TEXT NOT NULL,
+    "emailLogId" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "eventType" "EmailEventType" NOT NULL,
+    "rawEvent" TEXT NOT NULL,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "link" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "email_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_events_emailLogId_provider_rawEvent_occurredAt_key" ON "email_events"("emailLogId", "provider", "rawEvent", "occurredAt");
+
+-- CreateIndex
+CREATE INDEX "email_events_eventType_occurredAt_idx" ON "email_events"("eventType", "occurredAt");
+
+-- AddForeignKey
+ALTER TABLE "email_events" ADD CONSTRAINT "email_events_emailLogId_fkey" FOREIGN KEY ("emailLogId") REFERENCES "email_logs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "ClientContactRole" AS ENUM ('PRIMARY', 'BOOKKEEPING', 'DIRECTOR', 'BILLING');
+
+-- CreateTable
+CREATE TABLE "client_contacts" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT,
+    "phone" TEXT,
+    "role" "ClientContactRole" NOT NULL,
+    "jobTitle" TEXT,
+    "emailOptIns" "TemplateCategory"[] DEFAULT ARRAY[]::"TemplateCategory"[],
+    "source" TEXT NOT NULL DEFAULT 'MANUAL',
+    "officerId" TEXT,
+    "pscId" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "client_contacts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "client_contacts_clientId_idx" ON "client_contacts"("clientId");
+
+-- CreateIndex
+CREATE INDEX "client_contacts_officerId_idx" ON "client_contacts"("officerId");
+
+-- AddForeignKey
+ALTER TABLE "client_contacts" ADD CONSTRAINT "client_contacts_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "client_contacts" ADD CONSTRAINT "client_contacts_officerId_fkey" FOREIGN KEY ("officerId") REFERENCES "officers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "client_contacts" ADD CONSTRAINT "client_contacts_pscId_fkey" FOREIGN KEY ("pscId") REFERENCES "persons_with_significant_control"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: the existing contact on each client becomes its primary contact, receiving every category
+INSERT INTO "client_contacts" ("id", "clientId", "name", "email", "phone", "role", "emailOptIns", "source", "updatedAt")
+SELECT 'cc1_' || c."id", c."id", c."contactName", NULLIF(c."contactEmail", ''), c."contactPhone", 'PRIMARY',
+       enum_range(NULL::"TemplateCategory"), 'CLIENT_RECORD', CURRENT_TIMESTAMP
+FROM "clients" c;
@@ -0,0 +1,45 @@
+-- AlterEnum
+ALTER TYPE "ChaseStepAction" ADD VALUE 'SMS_CLIENT';
+ALTER TYPE "ChaseStepAction" ADD VALUE 'WHATSAPP_CLIENT';
+
+-- CreateEnum
+CREATE TYPE "MessageDeliveryStatus" AS ENUM ('QUEUED', 'SENT', 'DELIVERED', 'UNDELIVERED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "clients" ADD COLUMN     "smsConsent" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "whatsappConsent" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "messagingConsentUpdatedAt" TIMESTAMP(3),
+ADD COLUMN     "messagingConsentUpdatedBy" TEXT;
+
+-- AlterTable
+ALTER TABLE "communications" ADD COLUMN     "toPhone" TEXT,
+ADD COLUMN     "provider" TEXT,
+ADD COLUMN     "providerMessageId" TEXT,
+ADD COLUMN     "deliveryStatus" "MessageDeliveryStatus",
+ADD COLUMN     "deliveryError" TEXT,
+ADD COLUMN     "deliveredAt" TIMESTAMP(3),
+ADD COLUMN     "templateId" TEXT,
+ADD COLUMN     "workflowType" TEXT,
+ADD COLUMN     "workflowId" TEXT,
+ADD COLUMN     "chaseStepId" TEXT;
+
+-- AlterTable
+ALTER TABLE "email_templates" ADD COLUMN     "smsContent" TEXT;
+
+-- AlterTable
+ALTER TABLE "email_template_versions" ADD COLUMN     "smsContent" TEXT;
+
+-- AlterTable
+ALTER TABLE "user_settings" ADD COLUMN     "smsPhoneNumber" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "communications_providerMessageId_key" ON "communications"("providerMessageId");
+
+-- CreateIndex
+CREATE INDEX "communications_workflowId_chaseStepId_idx" ON "communications"("workflowId", "chaseStepId");
+
+-- AddForeignKey
+ALTER TABLE "communications" ADD CONSTRAINT "communications_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "email_templates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "communications" ADD CONSTRAINT "communications_chaseStepId_fkey" FOREIGN KEY ("chaseStepId") REFERENCES "chase_sequence_steps"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "SignatureRequestStatus" AS ENUM ('SENT', 'VIEWED', 'SIGNED', 'DECLINED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "signature_requests" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "documentType" TEXT NOT NULL DEFAULT 'ACCOUNTS_APPROVAL',
+    "workflowType" TEXT,
+    "workflowId" TEXT,
+    "title" TEXT NOT NULL,
+    "message" TEXT,
+    "signerName" TEXT NOT NULL,
+    "signerEmail" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "providerRequestId" TEXT,
+    "status" "SignatureRequestStatus" NOT NULL DEFAULT 'SENT',
+    "documentId" TEXT,
+    "signedDocumentId" TEXT,
+    "sentByUserId" TEXT,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "viewedAt" TIMESTAMP(3),
+    "signedAt" TIMESTAMP(3),
+    "declinedAt" TIMESTAMP(3),
+    "declineReason" TEXT,
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "signature_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "signature_requests_providerRequestId_key" ON "signature_requests"("providerRequestId");
+
+-- CreateIndex
+CREATE INDEX "signature_requests_clientId_idx" ON "signature_requests"("clientId");
+
+-- CreateIndex
+CREATE INDEX "signature_requests_workflowType_workflowId_idx" ON "signature_requests"("workflowType", "workflowId");
+
+-- CreateIndex
+CREATE INDEX "signature_requests_status_idx" ON "signature_requests"("status");
+
+-- AddForeignKey
+ALTER TABLE "signature_requests" ADD CONSTRAINT "signature_requests_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "signature_requests" ADD CONSTRAINT "signature_requests_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "client_documents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "signature_requests" ADD CONSTRAINT "signature_requests_signedDocumentId_fkey" FOREIGN KEY ("signedDocumentId") REFERENCES "client_documents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "signature_requests" ADD CONSTRAINT "signature_requests_sentByUserId_fkey" FOREIGN KEY ("sentByUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "email_attachments" ADD COLUMN     "clientId" TEXT,
+ADD COLUMN     "workflowType" TEXT,
+ADD COLUMN     "workflowId" TEXT,
+ADD COLUMN     "packType" TEXT;
+
+-- CreateIndex
+CREATE INDEX "email_attachments_clientId_idx" ON "email_attachments"("clientId");
+
+-- CreateIndex
+CREATE INDEX "email_attachments_workflowType_workflowId_idx" ON "email_attachments"("workflowType", "workflowId");
+
+-- AddForeignKey
+ALTER TABLE "email_attachments" ADD CONSTRAINT "email_attachments_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
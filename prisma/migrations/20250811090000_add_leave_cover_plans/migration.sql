@@ -0,0 +1,59 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "workingDays" INTEGER[] DEFAULT ARRAY[1, 2, 3, 4, 5]::INTEGER[];
+
+-- CreateTable
+CREATE TABLE "cover_plans" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "leaveId" TEXT,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "createdById" TEXT,
+    "createdByName" TEXT NOT NULL,
+    "revertedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "cover_plans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cover_plan_items" (
+    "id" TEXT NOT NULL,
+    "coverPlanId" TEXT NOT NULL,
+    "workType" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "companyName" TEXT NOT NULL,
+    "periodLabel" TEXT NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "coverUserId" TEXT NOT NULL,
+    "coverUserName" TEXT NOT NULL,
+    "revertedAt" TIMESTAMP(3),
+    "revertNote" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cover_plan_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "cover_plans_userId_idx" ON "cover_plans"("userId");
+
+-- CreateIndex
+CREATE INDEX "cover_plans_status_endDate_idx" ON "cover_plans"("status", "endDate");
+
+-- CreateIndex
+CREATE INDEX "cover_plan_items_coverPlanId_idx" ON "cover_plan_items"("coverPlanId");
+
+-- CreateIndex
+CREATE INDEX "cover_plan_items_workType_workflowId_idx" ON "cover_plan_items"("workType", "workflowId");
+
+-- AddForeignKey
+ALTER TABLE "cover_plans" ADD CONSTRAINT "cover_plans_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cover_plans" ADD CONSTRAINT "cover_plans_leaveId_fkey" FOREIGN KEY ("leaveId") REFERENCES "staff_leave"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cover_plan_items" ADD CONSTRAINT "cover_plan_items_coverPlanId_fkey" FOREIGN KEY ("coverPlanId") REFERENCES "cover_plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
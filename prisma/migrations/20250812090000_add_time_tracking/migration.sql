@@ -0,0 +1,72 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "hourlyCostRate" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "time_entries" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "workType" TEXT NOT NULL,
+    "vatQuarterId" TEXT,
+    "ltdAccountsWorkflowId" TEXT,
+    "nonLtdAccountsWorkflowId" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "endedAt" TIMESTAMP(3),
+    "minutes" INTEGER,
+    "description" TEXT,
+    "isManual" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "time_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "client_fee_budgets" (
+    "id" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "workType" TEXT NOT NULL,
+    "fee" DOUBLE PRECISION NOT NULL,
+    "budgetMinutes" INTEGER,
+    "updatedByName" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "client_fee_budgets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "time_entries_userId_startedAt_idx" ON "time_entries"("userId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "time_entries_clientId_idx" ON "time_entries"("clientId");
+
+-- CreateIndex
+CREATE INDEX "time_entries_vatQuarterId_idx" ON "time_entries"("vatQuarterId");
+
+-- CreateIndex
+CREATE INDEX "time_entries_ltdAccountsWorkflowId_idx" ON "time_entries"("ltdAccountsWorkflowId");
+
+-- CreateIndex
+CREATE INDEX "time_entries_nonLtdAccountsWorkflowId_idx" ON "time_entries"("nonLtdAccountsWorkflowId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "client_fee_budgets_clientId_workType_key" ON "client_fee_budgets"("clientId", "workType");
+
+-- AddForeignKey
+ALTER TABLE "time_entries" ADD CONSTRAINT "time_entries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "time_entries" ADD CONSTRAINT "time_entries_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "time_entries" ADD CONSTRAINT "time_entries_vatQuarterId_fkey" FOREIGN KEY ("vatQuarterId") REFERENCES "vat_quarters"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "time_entries" ADD CONSTRAINT "time_entries_ltdAccountsWorkflowId_fkey" FOREIGN KEY ("ltdAccountsWorkflowId") REFERENCES "ltd_accounts_workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "time_entries" ADD CONSTRAINT "time_entries_nonLtdAccountsWorkflowId_fkey" FOREIGN KEY ("nonLtdAccountsWorkflowId") REFERENCES "non_ltd_accounts_workflows"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "client_fee_budgets" ADD CONSTRAINT "client_fee_budgets_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
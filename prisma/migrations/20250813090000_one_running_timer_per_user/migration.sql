@@ -0,0 +1,14 @@
+-- Stop all but the latest running timer for anyone who has more than one
+UPDATE "time_entries" AS "entry"
+SET "endedAt" = "entry"."startedAt" + LEAST(GREATEST(ROUND(EXTRACT(EPOCH FROM (NOW() - "entry"."startedAt")) / 60), 1), 720) * INTERVAL '1 minute',
+    "minutes" = LEAST(GREATEST(ROUND(EXTRACT(EPOCH FROM (NOW() - "entry"."startedAt")) / 60), 1), 720)
+WHERE "entry"."endedAt" IS NULL
+  AND EXISTS (
+    SELECT 1 FROM "time_entries" AS "later"
+    WHERE "later"."userId" = "entry"."userId"
+      AND "later"."endedAt" IS NULL
+      AND ("later"."startedAt", "later"."id") > ("entry"."startedAt", "entry"."id")
+  );
+
+-- CreateIndex: one running timer per user
+CREATE UNIQUE INDEX "time_entries_userId_running_key" ON "time_entries"("userId") WHERE "endedAt" IS NULL;
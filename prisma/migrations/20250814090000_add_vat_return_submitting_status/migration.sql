@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "VATReturnStatus" ADD VALUE 'SUBMITTING';
@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "chase_sends" (
+    "id" TEXT NOT NULL,
+    "chaseStepId" TEXT NOT NULL,
+    "workflowType" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "lastError" TEXT,
+    "lastAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "chase_sends_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "chase_sends_chaseStepId_workflowId_key" ON "chase_sends"("chaseStepId", "workflowId");
+
+-- CreateIndex
+CREATE INDEX "chase_sends_workflowType_workflowId_idx" ON "chase_sends"("workflowType", "workflowId");
+
+-- AddForeignKey
+ALTER TABLE "chase_sends" ADD CONSTRAINT "chase_sends_chaseStepId_fkey" FOREIGN KEY ("chaseStepId") REFERENCES "chase_sequence_steps"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: steps already sent by email or text
+INSERT INTO "chase_sends" ("id", "chaseStepId", "workflowType", "workflowId", "status", "lastAttemptAt", "updatedAt")
+SELECT 'cs_' || md5(sent."chaseStepId" || sent."workflowId"), sent."chaseStepId", MIN(sent."workflowType"), sent."workflowId",
+       'SENT', COALESCE(MAX(sent."sentAt"), CURRENT_TIMESTAMP), CURRENT_TIMESTAMP
+FROM (
+    SELECT "chaseStepId", "workflowType", "workflowId", "createdAt" AS "sentAt"
+    FROM "email_logs"
+    WHERE "chaseStepId" IS NOT NULL AND "workflowId" IS NOT NULL AND "workflowType" IS NOT NULL AND "status" <> 'FAILED'
+    UNION ALL
+    SELECT "chaseStepId", "workflowType", "workflowId", "sentAt"
+    FROM "communications"
+    WHERE "chaseStepId" IS NOT NULL AND "workflowId" IS NOT NULL AND "workflowType" IS NOT NULL
+      AND ("deliveryStatus" IS NULL OR "deliveryStatus" <> 'FAILED')
+) sent
+GROUP BY sent."chaseStepId", sent."workflowId";
@@ -0,0 +1,65 @@
+#!/usr/bin/env tsx
+
+/**
+ * Backfill: CT600 workflows for existing Ltd clients
+ *
+ * New clients get a CT workflow for their current accounting period when they are created or
+ * their accounts dates change. This creates the missing one for every active Ltd client that
+ * was set up before that, so deadline lookups and dashboards see them. Safe to run again -
+ * clients that already have a workflow for the period are left alone.
+ *
+ * Usage:
+ * - Preview: npm run db:backfill-ct-workflows -- --preview
+ * - Apply:   npm run db:backfill-ct-workflows
+ */
+
+import { db } from '@/lib/db'
+import { ensureCurrentCTWorkflow, resolveCurrentCTPeriod } from '@/lib/ct-workflow'
+
+async function main() {
+  const preview = process.argv.includes('--preview')
+
+  const clients = await db.client.findMany({
+    where: { companyType: 'LIMITED_COMPANY', isActive: true },
+    select: {
+      id: true,
+      clientCode: true,
+      corporationTaxPeriodStart: true,
+      corporationTaxPeriodEnd: true,
+      lastAccountsMadeUpTo: true,
+      nextYearEnd: true,
+      corporationTaxWorkflows: { select: { periodEnd: true } }
+    }
+  })
+
+  let created = 0
+  let noPeriod = 0
+
+  for (const client of clients) {
+    const period = resolveCurrentCTPeriod(client)
+    if (!period) {
+      noPeriod++
+      continue
+    }
+
+    const tracked = client.corporationTaxWorkflows.some(workflow =>
+      workflow.periodEnd.getTime() === period.periodEnd.getTime()
+    )
+    if (tracked) continue
+
+    console.log(`${preview ? 'Would create' : 'Creating'} CT workflow for ${client.clientCode}, period ending ${period.periodEnd.toISOString().split('T')[0]}`)
+    if (!preview) {
+      await ensureCurrentCTWorkflow(client.id)
+    }
+    created++
+  }
+
+  console.log(`\n${clients.length} active Ltd clients: ${created} ${preview ? 'to create' : 'created'}, ${noPeriod} without a CT period`)
+}
+
+main()
+  .catch(error => {
+    console.error('❌ CT workflow backfill failed:', error)
+    process.exitCode = 1
+  })
+  .finally(() => db.$disconnect())
@@ -15,7 +15,7 @@
  * Rollover Process:
  * 1. Create new workflow for next year
  * 2. Set stage to WAITING_FOR_YEAR_END
- * 3. Remove assignment (set to null)
+ * 3. Remove assignment (set to null) - the assignment engine picks these up on its next run
  * 4. Use updated Companies House dates
  * 5. Log the rollover activity
  */